@@ -0,0 +1,125 @@
+/**
+ * Simulates a busy matchmaking queue against a local Redis and times how long
+ * one tick takes to plan its pairs. Nothing is written to the database.
+ *
+ *   REDIS_URL=redis://localhost:6379 bun run bench:match
+ *
+ * BENCH_USERS, BENCH_INTERESTS and BENCH_ROUNDS tune the simulation.
+ */
+import "dotenv/config";
+import { redis } from "../lib/redis";
+import type { AvailableUserService } from "../service/available-user.service";
+import { MatchService } from "../service/match.service";
+
+const SEARCH_TYPE = "bench";
+const USER_PREFIX = "bench-user-";
+const USER_COUNT = Number(process.env.BENCH_USERS) || 5000;
+const INTEREST_POOL = Number(process.env.BENCH_INTERESTS) || 200;
+const ROUNDS = Number(process.env.BENCH_ROUNDS) || 3;
+const SEED_BATCH = 250;
+
+const GENDERS = ["male", "female", "other"];
+const LANGUAGES = ["en", "es", "hi", "fr", "de"];
+
+const pick = <T>(values: T[]) =>
+	values[Math.floor(Math.random() * values.length)];
+
+// Skewed so a handful of interests are very popular, like real traffic
+const randomInterest = () =>
+	`interest-${Math.floor(INTEREST_POOL * Math.random() ** 2)}`;
+
+const randomInterests = () => {
+	// Roughly one user in ten searches without interests
+	if (Math.random() < 0.1) return [];
+	const count = 1 + Math.floor(Math.random() * 5);
+	return Array.from(new Set(Array.from({ length: count }, randomInterest)));
+};
+
+async function seed(availableUserService: AvailableUserService) {
+	for (let offset = 0; offset < USER_COUNT; offset += SEED_BATCH) {
+		const batch: Promise<unknown>[] = [];
+		for (let i = offset; i < Math.min(offset + SEED_BATCH, USER_COUNT); i++) {
+			const userId = `${USER_PREFIX}${i}`;
+			const ratingCount = Math.floor(Math.random() * 20);
+			const isPro = Math.random() < 0.05;
+
+			batch.push(
+				availableUserService.addUser(
+					userId,
+					`bench_${i}`,
+					randomInterests(),
+					{ language: pick(LANGUAGES) },
+					{
+						gender: pick(GENDERS),
+						rating: ratingCount > 0 ? 1 + Math.random() * 4 : undefined,
+						ratingCount,
+						reportCount: Math.random() < 0.05 ? 5 : 0,
+						filters: isPro
+							? { language: pick(LANGUAGES), hard: ["language"] }
+							: null,
+					},
+				),
+			);
+			// Warm the block cache so planning never falls through to the database
+			batch.push(redis.set(`blocks:related:${userId}`, "[]", "EX", 300));
+		}
+		await Promise.all(batch);
+	}
+}
+
+async function cleanup() {
+	for (const pattern of [
+		`*:${SEARCH_TYPE}:*`,
+		`users:${SEARCH_TYPE}`,
+		`*:${USER_PREFIX}*`,
+	]) {
+		const stream = redis.scanStream({ match: pattern, count: 1000 });
+		for await (const keys of stream) {
+			if ((keys as string[]).length > 0) {
+				await redis.del(...(keys as string[]));
+			}
+		}
+	}
+}
+
+async function main() {
+	const matchService = new MatchService(SEARCH_TYPE);
+
+	await cleanup();
+
+	let startedAt = performance.now();
+	await seed(matchService.availableUserService);
+	console.log(
+		`Seeded ${USER_COUNT} users over ${INTEREST_POOL} interests in ${(performance.now() - startedAt).toFixed(0)}ms`,
+	);
+
+	for (let round = 1; round <= ROUNDS; round++) {
+		startedAt = performance.now();
+		const { pairs, queued } = await matchService.planMatches();
+		const elapsed = performance.now() - startedAt;
+
+		const withInterests = pairs.filter(
+			(pair) => pair.commonInterests.length > 0,
+		).length;
+		const averageScore =
+			pairs.reduce((sum, pair) => sum + pair.score, 0) /
+			Math.max(pairs.length, 1);
+
+		console.log(
+			`Round ${round}: ${pairs.length} pairs from ${queued} users in ${elapsed.toFixed(0)}ms ` +
+				`(${withInterests} sharing interests, ${queued - pairs.length * 2} left, avg score ${averageScore.toFixed(2)})`,
+		);
+	}
+
+	await cleanup();
+}
+
+main()
+	.catch((error) => {
+		console.error("Match benchmark failed:", error);
+		process.exitCode = 1;
+	})
+	.finally(() => {
+		// Queues and clients opened by imported services keep the process alive
+		process.exit();
+	});
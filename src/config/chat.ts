@@ -0,0 +1,30 @@
+import { numberFromEnv } from "./match";
+
+export const chatConfig = {
+	// How long after sending a message its sender may edit or delete it
+	editWindowMs: numberFromEnv("CHAT_EDIT_WINDOW_MS", 15 * 60_000),
+	// Earlier versions kept per message
+	maxEditHistory: numberFromEnv("CHAT_MAX_EDIT_HISTORY", 20),
+	reactions: {
+		// Different emojis one user may put on a single message
+		maxPerUser: numberFromEnv("CHAT_REACTIONS_MAX_PER_USER", 3),
+		// Different emojis a single message may collect
+		maxEmojisPerMessage: numberFromEnv("CHAT_REACTIONS_MAX_EMOJIS", 20),
+	},
+	persistence: {
+		// Tries the queue worker gets to write a message to the database
+		attempts: numberFromEnv("CHAT_PERSIST_ATTEMPTS", 5),
+		// Wait before the first retry, doubled on every further one
+		backoffMs: numberFromEnv("CHAT_PERSIST_BACKOFF_MS", 500),
+	},
+	receipts: {
+		// How long the server waits for recipients to acknowledge a message
+		deliveryAckTimeoutMs: numberFromEnv("CHAT_DELIVERY_ACK_TIMEOUT_MS", 10_000),
+	},
+	typing: {
+		// A typing indicator clears itself after this long without a refresh
+		ttlMs: numberFromEnv("CHAT_TYPING_TTL_MS", 6_000),
+		// Refreshes from one socket closer together than this are ignored
+		refreshIntervalMs: numberFromEnv("CHAT_TYPING_REFRESH_MS", 2_000),
+	},
+} as const;
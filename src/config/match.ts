@@ -0,0 +1,85 @@
+import "dotenv/config";
+
+// Reads a numeric weight from the environment, keeping 0 as a valid override
+export const numberFromEnv = (name: string, fallback: number): number => {
+	const raw = process.env[name];
+	if (raw === undefined || raw.trim() === "") return fallback;
+	const value = Number(raw);
+	return Number.isFinite(value) ? value : fallback;
+};
+
+const stringFromEnv = (name: string, fallback: string): string =>
+	process.env[name]?.trim() || fallback;
+
+export const matchConfig = {
+	// Pairing strategy per search type, by registered strategy name
+	strategies: {
+		chat: stringFromEnv("MATCH_STRATEGY_CHAT", "greedy-interest"),
+		call: stringFromEnv("MATCH_STRATEGY_CALL", "greedy-interest"),
+		video: stringFromEnv("MATCH_STRATEGY_VIDEO", "greedy-interest"),
+	} as Record<string, string>,
+	weights: {
+		// Per shared interest
+		interests: numberFromEnv("MATCH_WEIGHT_INTERESTS", 1),
+		// Scaled by the pair's mean normalized rating (0..1)
+		rating: numberFromEnv("MATCH_WEIGHT_RATING", 0.5),
+		// Subtracted per report received, summed over both users
+		reports: numberFromEnv("MATCH_WEIGHT_REPORTS", 0.25),
+		// Per 10 seconds waited, summed over both users
+		waitTime: numberFromEnv("MATCH_WEIGHT_WAIT_TIME", 0.1),
+		// Added when two low-reputation users meet, subtracted when one meets a new user
+		reputationAffinity: numberFromEnv("MATCH_WEIGHT_REPUTATION_AFFINITY", 2),
+		// Per Pro subscriber in the pair, so free users lean towards Pro partners
+		priority: numberFromEnv("MATCH_WEIGHT_PRIORITY", 0.5),
+	},
+	priority: {
+		// Pro subscribers are queued as if they joined this much earlier. Capped so
+		// a free user who has waited longer than this still goes first.
+		proHeadStartMs: numberFromEnv("MATCH_PRIORITY_PRO_HEAD_START_MS", 15_000),
+	},
+	reputation: {
+		// Ratings needed before a user stops counting as new
+		minRatings: numberFromEnv("MATCH_REPUTATION_MIN_RATINGS", 3),
+		lowRating: numberFromEnv("MATCH_REPUTATION_LOW_RATING", 2.5),
+		lowReportCount: numberFromEnv("MATCH_REPUTATION_LOW_REPORTS", 3),
+		// Reports beyond this stop lowering the score further
+		maxCountedReports: 10,
+	},
+	bucket: {
+		// Candidates read from each interest bucket per user
+		maxCandidatesPerBucket: numberFromEnv("MATCH_BUCKET_MAX_CANDIDATES", 50),
+		// Waiting users considered when nobody shares an interest
+		fallbackWindow: numberFromEnv("MATCH_BUCKET_FALLBACK_WINDOW", 50),
+	},
+	aging: {
+		// Shared interests a fresh user holds out for (capped at their own count)
+		requiredCommonInterests: numberFromEnv("MATCH_AGING_REQUIRED_INTERESTS", 2),
+		// Each step waited lowers that requirement by one
+		relaxStepMs: numberFromEnv("MATCH_AGING_RELAX_STEP_MS", 10_000),
+		// Past this wait a user is paired with anyone compatible on the next tick
+		guaranteeAfterMs: numberFromEnv("MATCH_AGING_GUARANTEE_MS", 30_000),
+	},
+	confirmation: {
+		// How long both users have to confirm a proposed match
+		timeoutMs: numberFromEnv("MATCH_CONFIRM_TIMEOUT_MS", 10_000),
+	},
+	friendsFirst: {
+		// How long a friends-first user waits for a friend before strangers
+		// are considered too
+		timeoutMs: numberFromEnv("MATCH_FRIENDS_FIRST_TIMEOUT_MS", 30_000),
+	},
+	group: {
+		minSize: numberFromEnv("MATCH_GROUP_MIN_SIZE", 3),
+		maxSize: numberFromEnv("MATCH_GROUP_MAX_SIZE", 6),
+		// A topic with fewer than maxSize users opens a room once its oldest
+		// member has waited this long
+		fillWaitMs: numberFromEnv("MATCH_GROUP_FILL_WAIT_MS", 20_000),
+	},
+	events: {
+		// How long users have after the last speed-chat round to pick who they
+		// would like to talk to again
+		likeWindowMs: numberFromEnv("SPEED_EVENT_LIKE_WINDOW_MS", 5 * 60_000),
+	},
+} as const;
+
+export type MatchConfig = typeof matchConfig;
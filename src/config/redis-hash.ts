@@ -1,4 +1,9 @@
 export enum RedisHash {
 	CHAT_ROOMS = "chat:rooms",
 	CHAT_MESSAGES = "chat:messages",
+	// Edits and deletes, fanned out to every node holding the room's sockets
+	CHAT_MESSAGE_UPDATES = "chat:message_updates",
+	CHAT_REACTIONS = "chat:reactions",
+	CHAT_RECEIPTS = "chat:receipts",
+	CHAT_TYPING = "chat:typing",
 }
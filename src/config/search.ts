@@ -7,7 +7,14 @@ export enum SearchEvent {
 
 	SEARCH = "search",
 	MATCH_FOUND = "match_found",
+	MATCH_PROPOSED = "match_proposed",
+	MATCH_CANCELLED = "match_cancelled",
+	PARTNER_LEFT = "partner_left",
 
 	SEARCHING = "searching",
 	ERROR = "error",
 }
+
+// Queues the matchmaker runs, one Redis namespace each
+export const SEARCH_TYPES = ["chat", "call", "video", "group"] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
@@ -0,0 +1,39 @@
+import { numberFromEnv } from "./match";
+
+export interface ThrottleRule {
+	// Requests allowed inside the sliding window
+	limit: number;
+	windowMs: number;
+}
+
+export const throttleConfig = {
+	rules: {
+		// Search starts across every lane, so hopping queues does not reset the count
+		searchStart: {
+			limit: numberFromEnv("THROTTLE_SEARCH_START_LIMIT", 10),
+			windowMs: numberFromEnv("THROTTLE_SEARCH_START_WINDOW_MS", 60_000),
+		},
+		skip: {
+			limit: numberFromEnv("THROTTLE_SKIP_LIMIT", 20),
+			windowMs: numberFromEnv("THROTTLE_SKIP_WINDOW_MS", 5 * 60_000),
+		},
+		directChat: {
+			limit: numberFromEnv("THROTTLE_DIRECT_CHAT_LIMIT", 5),
+			windowMs: numberFromEnv("THROTTLE_DIRECT_CHAT_WINDOW_MS", 60_000),
+		},
+		// Adding and removing reactions, counted together
+		reaction: {
+			limit: numberFromEnv("THROTTLE_REACTION_LIMIT", 30),
+			windowMs: numberFromEnv("THROTTLE_REACTION_WINDOW_MS", 10_000),
+		},
+	} satisfies Record<string, ThrottleRule>,
+	cooldown: {
+		// First cooldown after a limit is hit; each further strike doubles it
+		baseMs: numberFromEnv("THROTTLE_COOLDOWN_BASE_MS", 30_000),
+		maxMs: numberFromEnv("THROTTLE_COOLDOWN_MAX_MS", 15 * 60_000),
+		// Strikes are forgotten after this long without hitting a limit
+		strikeTtlMs: numberFromEnv("THROTTLE_STRIKE_TTL_MS", 60 * 60_000),
+	},
+} as const;
+
+export type ThrottleAction = keyof typeof throttleConfig.rules;
@@ -3,11 +3,26 @@ export enum ChatEvent {
 	LEAVE = "left",
 	MESSAGE = "message",
 	MESSAGE_SENT = "message_sent",
+	MESSAGE_DELIVERED = "message_delivered",
+	MARK_READ = "mark_read",
+	MESSAGE_READ = "message_read",
+	READ_RECEIPTS = "read_receipts",
+	MESSAGE_EDIT = "message_edit",
+	MESSAGE_DELETE = "message_delete",
+	MESSAGE_EDITED = "message_edited",
+	MESSAGE_DELETED = "message_deleted",
+	REACTION_ADD = "reaction_add",
+	REACTION_REMOVE = "reaction_remove",
+	REACTIONS_UPDATED = "reactions_updated",
 	CONNECT = "connect",
 	DISCONNECT = "disconnect",
 	USER_JOINED = "user_joined",
 	USER_LEFT = "user_left",
 	USER_EVENT = "user_event",
+	TYPING_START = "typing_start",
+	TYPING_STOP = "typing_stop",
+	// Everyone currently typing in the room
+	TYPING = "typing",
 	USER_STOPPED_TYPING = "user_stopped_typing",
 	USER_DISCONNECTED = "user_disconnected",
 	USER_CONNECTED = "user_connected",
@@ -15,6 +30,8 @@ export enum ChatEvent {
 	CALL_REQUEST = "call_request",
 	CALL_REQUEST_ACCEPTED = "call_request_accepted",
 	CALL_REQUEST_REJECTED = "call_request_rejected",
+	BLOCK_USER = "block_user",
+	ROOM_ENDED = "room_ended",
 	ERROR = "error",
 	RECONNECT = "reconnect",
 }
@@ -0,0 +1,130 @@
+import type { Request, Response } from "express";
+import { BlockService } from "../service/block.service";
+import { RoomStateService } from "../service/room-state.service";
+
+export class BlockController {
+	private blockService: BlockService;
+	private roomStateService: RoomStateService;
+
+	constructor() {
+		this.blockService = new BlockService();
+		this.roomStateService = new RoomStateService();
+	}
+
+	/**
+	 * Get users blocked by the authenticated user
+	 * GET /api/v1/users/blocks
+	 */
+	getBlockedUsers = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.user?.id;
+
+			if (!userId) {
+				res.status(401).json({ success: false, message: "Unauthorized" });
+				return;
+			}
+
+			const blocked = await this.blockService.getBlockedUsers(userId);
+
+			res.status(200).json({ success: true, data: blocked });
+		} catch (error) {
+			console.error("Error getting blocked users:", error);
+			res.status(500).json({
+				success: false,
+				message: "Internal server error",
+			});
+		}
+	};
+
+	/**
+	 * Block a user. Passing the live roomId ends that room for both sides.
+	 * POST /api/v1/users/blocks/:userId
+	 */
+	blockUser = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.user?.id;
+			const { userId: target } = req.params;
+			const { roomId } = req.body || {};
+
+			if (!userId) {
+				res.status(401).json({ success: false, message: "Unauthorized" });
+				return;
+			}
+
+			const block = await this.blockService.blockUser(userId, target);
+
+			let roomEnded = false;
+			if (roomId && typeof roomId === "string") {
+				const roomState = await this.roomStateService.getRoomState(roomId);
+				const participants =
+					roomState?.participants.map((participant) => participant.id) ?? [];
+				// Group rooms stay open for the other members
+				if (
+					roomState?.roomType !== "group" &&
+					participants.includes(userId) &&
+					participants.includes(block.blockedId)
+				) {
+					await this.roomStateService.endRoom(roomId, "blocked", userId);
+					roomEnded = true;
+				}
+			}
+
+			res.status(201).json({
+				success: true,
+				message: "User blocked successfully",
+				data: { ...block, roomEnded },
+			});
+		} catch (error) {
+			console.error("Error blocking user:", error);
+
+			if (error instanceof Error) {
+				if (error.message.includes("not found")) {
+					res.status(404).json({ success: false, message: error.message });
+					return;
+				}
+
+				if (error.message.includes("yourself")) {
+					res.status(400).json({ success: false, message: error.message });
+					return;
+				}
+			}
+
+			res.status(500).json({
+				success: false,
+				message: "Internal server error",
+			});
+		}
+	};
+
+	/**
+	 * Unblock a user
+	 * DELETE /api/v1/users/blocks/:userId
+	 */
+	unblockUser = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.user?.id;
+			const { userId: target } = req.params;
+
+			if (!userId) {
+				res.status(401).json({ success: false, message: "Unauthorized" });
+				return;
+			}
+
+			const result = await this.blockService.unblockUser(userId, target);
+
+			res.status(200).json({ success: true, message: result.message });
+		} catch (error) {
+			console.error("Error unblocking user:", error);
+
+			if (error instanceof Error && error.message.includes("not found")) {
+				res.status(404).json({ success: false, message: error.message });
+				return;
+			}
+
+			res.status(500).json({
+				success: false,
+				message: "Internal server error",
+			});
+		}
+	};
+}
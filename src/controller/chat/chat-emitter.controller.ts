@@ -3,6 +3,10 @@ import { subClient } from "../../lib/redis";
 import { ChatEvent } from "../../config/websocket";
 import { RedisHash } from "../../config/redis-hash";
 import { Message } from "../../validation/chat.validation";
+import type { MessageUpdate } from "../../service/message-edit.service";
+import type { ReactionUpdate } from "../../service/reaction.service";
+import type { ReadReceiptUpdate } from "../../service/receipt.service";
+import type { TypingUpdate } from "../../service/typing.service";
 
 export class ChatEmitterController {
 	private server: Server | Namespace;
@@ -12,6 +16,10 @@ export class ChatEmitterController {
 		this.server = server;
 		this.handleRoomEvent = this.handleRoomEvent.bind(this);
 		this.handleChatMessage = this.handleChatMessage.bind(this);
+		this.handleMessageUpdate = this.handleMessageUpdate.bind(this);
+		this.handleReactionUpdate = this.handleReactionUpdate.bind(this);
+		this.handleReadReceipt = this.handleReadReceipt.bind(this);
+		this.handleTypingUpdate = this.handleTypingUpdate.bind(this);
 	}
 
 	initializeSubscriptions() {
@@ -56,6 +64,50 @@ export class ChatEmitterController {
 			);
 		});
 
+		// Subscribe to message edits and deletes
+		subClient.subscribe(RedisHash.CHAT_MESSAGE_UPDATES, (err, count) => {
+			if (err) {
+				console.error("Subscribe to message updates error:", err);
+				return;
+			}
+			console.log(
+				`[ChatEmitter] Subscribed to ${count} channel(s) for message updates`,
+			);
+		});
+
+		// Subscribe to reaction changes
+		subClient.subscribe(RedisHash.CHAT_REACTIONS, (err, count) => {
+			if (err) {
+				console.error("Subscribe to reactions error:", err);
+				return;
+			}
+			console.log(
+				`[ChatEmitter] Subscribed to ${count} channel(s) for reactions`,
+			);
+		});
+
+		// Subscribe to read receipts
+		subClient.subscribe(RedisHash.CHAT_RECEIPTS, (err, count) => {
+			if (err) {
+				console.error("Subscribe to read receipts error:", err);
+				return;
+			}
+			console.log(
+				`[ChatEmitter] Subscribed to ${count} channel(s) for read receipts`,
+			);
+		});
+
+		// Subscribe to typing indicators
+		subClient.subscribe(RedisHash.CHAT_TYPING, (err, count) => {
+			if (err) {
+				console.error("Subscribe to typing indicators error:", err);
+				return;
+			}
+			console.log(
+				`[ChatEmitter] Subscribed to ${count} channel(s) for typing indicators`,
+			);
+		});
+
 		subClient.on("message", (channel: string, message: any) => {
 			console.log(`[ChatEmitter] Received on channel: ${channel}`);
 
@@ -73,6 +125,34 @@ export class ChatEmitterController {
 				} catch (error) {
 					console.error("Error parsing room event:", error);
 				}
+			} else if (channel === RedisHash.CHAT_MESSAGE_UPDATES) {
+				try {
+					const update: MessageUpdate = JSON.parse(message);
+					this.handleMessageUpdate(update);
+				} catch (error) {
+					console.error("Error parsing message update:", error);
+				}
+			} else if (channel === RedisHash.CHAT_REACTIONS) {
+				try {
+					const update: ReactionUpdate = JSON.parse(message);
+					this.handleReactionUpdate(update);
+				} catch (error) {
+					console.error("Error parsing reaction update:", error);
+				}
+			} else if (channel === RedisHash.CHAT_RECEIPTS) {
+				try {
+					const receipt: ReadReceiptUpdate = JSON.parse(message);
+					this.handleReadReceipt(receipt);
+				} catch (error) {
+					console.error("Error parsing read receipt:", error);
+				}
+			} else if (channel === RedisHash.CHAT_TYPING) {
+				try {
+					const update: TypingUpdate = JSON.parse(message);
+					this.handleTypingUpdate(update);
+				} catch (error) {
+					console.error("Error parsing typing update:", error);
+				}
 			}
 		});
 	}
@@ -94,6 +174,54 @@ export class ChatEmitterController {
 		this.server.to(message.roomId).emit(ChatEvent.MESSAGE, message);
 	}
 
+	// Sent to everyone in the room, including the sender's other sockets
+	private handleMessageUpdate(update: MessageUpdate) {
+		if (!update.roomId || update.roomId.trim() === "") {
+			console.error("Cannot emit message update: roomId is missing", update);
+			return;
+		}
+
+		this.server
+			.to(update.roomId)
+			.emit(
+				update.type === "deleted"
+					? ChatEvent.MESSAGE_DELETED
+					: ChatEvent.MESSAGE_EDITED,
+				update,
+			);
+	}
+
+	// Carries the message's full reaction summary, so clients just replace it
+	private handleReactionUpdate(update: ReactionUpdate) {
+		if (!update.roomId || update.roomId.trim() === "") {
+			console.error("Cannot emit reaction update: roomId is missing", update);
+			return;
+		}
+
+		this.server.to(update.roomId).emit(ChatEvent.REACTIONS_UPDATED, update);
+	}
+
+	// Senders match the receipt against their own messages; the reader's
+	// other sockets use it to sync their unread state
+	private handleReadReceipt(receipt: ReadReceiptUpdate) {
+		if (!receipt.roomId || receipt.roomId.trim() === "") {
+			console.error("Cannot emit read receipt: roomId is missing", receipt);
+			return;
+		}
+
+		this.server.to(receipt.roomId).emit(ChatEvent.MESSAGE_READ, receipt);
+	}
+
+	// The full list of typers, so clients never have to merge start/stop events
+	private handleTypingUpdate(update: TypingUpdate) {
+		if (!update.roomId || update.roomId.trim() === "") {
+			console.error("Cannot emit typing update: roomId is missing", update);
+			return;
+		}
+
+		this.server.to(update.roomId).emit(ChatEvent.TYPING, update);
+	}
+
 	private handleRoomEvent(event: RoomEvent) {
 		// Validate that roomId exists
 		if (!event.roomId || event.roomId.trim() === "") {
@@ -122,6 +250,10 @@ export class ChatEmitterController {
 			case "disconnected":
 				this.server.to(event.roomId).emit(ChatEvent.USER_DISCONNECTED, event);
 				break;
+			case "ended":
+				this.server.to(event.roomId).emit(ChatEvent.ROOM_ENDED, event);
+				this.server.in(event.roomId).socketsLeave(event.roomId);
+				break;
 			default:
 				console.warn("Unknown room event type:", event.type);
 		}
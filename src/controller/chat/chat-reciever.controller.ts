@@ -1,7 +1,16 @@
 import { Socket } from "socket.io";
 import { pubClient, redis, subClient } from "../../lib/redis";
-import { sendMessageSchema, Message } from "../../validation/chat.validation";
+import {
+	sendMessageSchema,
+	Message,
+	QuotedMessage,
+	editMessageSchema,
+	deleteMessageSchema,
+	reactionSchema,
+	markReadSchema,
+} from "../../validation/chat.validation";
 import { ChatEvent } from "../../config/websocket";
+import { chatConfig } from "../../config/chat";
 import ChatDBService from "../../service/chat-db.service";
 import { RoomStateService } from "../../service/room-state.service";
 import { RedisHash } from "../../config/redis-hash";
@@ -9,16 +18,34 @@ import { FriendsService } from "../../service/friend.service";
 import { NotificationService } from "../../service/notification.service";
 import { NotificationPriority, NotificationType } from "../../generated/client";
 import { prisma } from "../../lib/prisma";
+import { BlockService } from "../../service/block.service";
+import { MessageEditService } from "../../service/message-edit.service";
+import { ReactionService } from "../../service/reaction.service";
+import { ReceiptService } from "../../service/receipt.service";
+import { ThrottleService } from "../../service/throttle.service";
+import { TypingService } from "../../service/typing.service";
 
 export class ChatReceiverController {
 	private chatDBService: ChatDBService;
 	private roomStateService: RoomStateService;
 	private friendsService: FriendsService;
+	private blockService: BlockService;
+	private messageEditService: MessageEditService;
+	private reactionService: ReactionService;
+	private reactionThrottle: ThrottleService;
+	private receiptService: ReceiptService;
+	private typingService: TypingService;
 	private socket: Socket;
 
 	private roomId: string;
 	private senderId: string;
 	private receiverId: string;
+	private isGroup: boolean;
+	private participantIds: Promise<[string | null, string | null]> | null =
+		null;
+	// Clears this socket's typing indicator when the client goes quiet
+	private typingTimer: ReturnType<typeof setTimeout> | null = null;
+	private lastTypingAt = 0;
 	private static readonly PENDING_DISCONNECT_TTL_MS = 15000;
 
 	constructor(
@@ -26,15 +53,23 @@ export class ChatReceiverController {
 		roomId: string,
 		senderId: string,
 		receiverId: string,
+		isGroup = false,
 	) {
 		this.socket = socket;
 
 		this.chatDBService = new ChatDBService();
 		this.roomStateService = new RoomStateService();
 		this.friendsService = new FriendsService();
+		this.blockService = new BlockService();
+		this.messageEditService = new MessageEditService();
+		this.reactionService = new ReactionService();
+		this.reactionThrottle = new ThrottleService("reaction");
+		this.receiptService = new ReceiptService();
+		this.typingService = new TypingService();
 		this.roomId = roomId;
 		this.senderId = senderId;
 		this.receiverId = receiverId;
+		this.isGroup = isGroup;
 
 		this.joinRoom = this.joinRoom.bind(this);
 		this.leaveRoom = this.leaveRoom.bind(this);
@@ -44,23 +79,65 @@ export class ChatReceiverController {
 		this.userStoppedTyping = this.userStoppedTyping.bind(this);
 		this.userDisconnected = this.userDisconnected.bind(this);
 		this.userConnected = this.userConnected.bind(this);
+		this.blockUser = this.blockUser.bind(this);
+		this.editMessage = this.editMessage.bind(this);
+		this.deleteMessage = this.deleteMessage.bind(this);
+		this.addReaction = this.addReaction.bind(this);
+		this.removeReaction = this.removeReaction.bind(this);
+		this.markRead = this.markRead.bind(this);
+	}
+
+	// Tokens carry either user ids or usernames, so resolve them once per socket
+	private getParticipantIds() {
+		if (!this.participantIds) {
+			this.participantIds = Promise.all([
+				this.blockService.resolveUserId(this.senderId),
+				this.blockService.resolveUserId(this.receiverId),
+			]);
+		}
+		return this.participantIds;
+	}
+
+	// The sender's account id, or the token's id for anonymous users
+	private async getUserId(): Promise<string> {
+		const [senderUserId] = await this.getParticipantIds();
+		return senderUserId ?? this.senderId;
+	}
+
+	private async isBlockedInRoom(): Promise<boolean> {
+		// Group members are checked against each other when the group is formed
+		if (this.roomId === "general" || this.isGroup) return false;
+		const [senderUserId, receiverUserId] = await this.getParticipantIds();
+		if (!senderUserId || !receiverUserId) return false;
+		return this.blockService.isBlocked(senderUserId, receiverUserId);
 	}
 
 	async joinRoom() {
 		try {
+			if (await this.isBlockedInRoom()) {
+				this.socket.emit(ChatEvent.ERROR, "You cannot chat with this user");
+				this.socket.disconnect(true);
+				return;
+			}
+
+			// Group rooms only exist through the matcher, which lists every member
+			if (this.isGroup && !(await this.isGroupMember())) {
+				this.socket.emit(ChatEvent.ERROR, "You are not in this room");
+				this.socket.disconnect(true);
+				return;
+			}
+
 			// Join the room
 			this.socket.join(this.roomId);
 
 			// Ensure room state is initialized (fallback for rooms not created via match service)
 			const roomStateExists = await redis.exists(`room:${this.roomId}`);
-			if (!roomStateExists) {
+			if (!roomStateExists && !this.isGroup) {
 				console.log(`Room state not found for ${this.roomId}, initializing...`);
-				await this.roomStateService.initializeRoomState(
-					this.roomId,
-					"chat",
+				await this.roomStateService.initializeRoomState(this.roomId, "chat", [
 					this.senderId,
 					this.receiverId,
-				);
+				]);
 			}
 
 			// Add socket to room in Redis
@@ -97,7 +174,30 @@ export class ChatReceiverController {
 					? await this.chatDBService.getGlobalMessages()
 					: await this.chatDBService.getMessages(this.roomId);
 			if (roomHistory.length > 0) {
-				this.socket.emit("roomHistory", roomHistory);
+				this.socket.emit(
+					"roomHistory",
+					await this.reactionService.withReactions(roomHistory),
+				);
+			}
+
+			// Catch up on who is typing right now
+			const typingUserIds = await this.typingService.getTypingUserIds(
+				this.roomId,
+			);
+			if (typingUserIds.length > 0) {
+				this.socket.emit(ChatEvent.TYPING, {
+					roomId: this.roomId,
+					userIds: typingUserIds,
+					ttlMs: chatConfig.typing.ttlMs,
+				});
+			}
+
+			// Where everyone has read up to, so senders can restore their receipts
+			if (this.roomId !== "general") {
+				const receipts = await this.receiptService.getReadReceipts(this.roomId);
+				if (receipts.length > 0) {
+					this.socket.emit(ChatEvent.READ_RECEIPTS, receipts);
+				}
 			}
 
 			console.log(
@@ -178,6 +278,11 @@ export class ChatReceiverController {
 				senderId: this.senderId,
 			});
 
+			if (await this.isBlockedInRoom()) {
+				this.socket.emit(ChatEvent.ERROR, "You cannot chat with this user");
+				return;
+			}
+
 			// Check if user has permission to send message
 			// const isUserInRoom = await redis.sismember(
 			//   `chat:rooms:${this.roomId}`,
@@ -190,6 +295,22 @@ export class ChatReceiverController {
 			//   return;
 			// }
 
+			// Replies quote a message from this room as it reads right now
+			let replyTo: QuotedMessage | null = null;
+			if (validatedData.replyToId) {
+				replyTo = await this.chatDBService.getQuotedMessage(
+					this.roomId,
+					validatedData.replyToId,
+				);
+				if (!replyTo || replyTo.deletedAt) {
+					this.socket.emit(
+						ChatEvent.ERROR,
+						"The message you replied to is not available",
+					);
+					return;
+				}
+			}
+
 			// "general" is a special public room where all users can chat
 			// For general room, we store messages as global (no receiver needed)
 			// For all other rooms, we store the full sender-receiver relationship
@@ -200,10 +321,12 @@ export class ChatReceiverController {
 							chatData.senderId,
 							chatData.receiverId,
 							this.roomId,
+							replyTo,
 						)
 					: await this.chatDBService.addGlobalMessage(
 							validatedData.content,
 							chatData.senderId,
+							replyTo,
 						);
 
 			// Create the complete message object - use this.roomId as source of truth
@@ -219,6 +342,8 @@ export class ChatReceiverController {
 				type: validatedData.type,
 				avatarUrl: "",
 				timestamp: new Date().toISOString(),
+				replyToId: replyTo?.id,
+				replyTo,
 			};
 
 			console.log(
@@ -243,58 +368,26 @@ export class ChatReceiverController {
 			console.log(
 				`[ChatReceiver] Emitting message directly to private room: ${this.roomId}`,
 			);
-			// Emit to all OTHER users in the room
-			this.socket.to(this.roomId).emit(ChatEvent.MESSAGE, message);
+			// Emit to all OTHER users in the room; their acks confirm delivery
+			this.socket
+				.to(this.roomId)
+				.timeout(chatConfig.receipts.deliveryAckTimeoutMs)
+				.emit(
+					ChatEvent.MESSAGE,
+					message,
+					(_error: Error | null, acks: unknown[]) =>
+						this.messageDelivered(message, acks),
+				);
 			// Also emit back to the sender so they see their own message
 			this.socket.emit(ChatEvent.MESSAGE, message);
 		}
 
-			if (this.roomId !== "general" && chatData.receiverId) {
-				try {
-					const receiverUser = await prisma.user.findFirst({
-						where: {
-							OR: [
-								{ id: chatData.receiverId },
-								{ username: chatData.receiverId },
-								{ displayUsername: chatData.receiverId },
-							],
-						},
-					});
-					const senderUser = await prisma.user.findFirst({
-						where: {
-							OR: [
-								{ id: chatData.senderId },
-								{ username: chatData.senderId },
-								{ displayUsername: chatData.senderId },
-							],
-						},
-					});
-
-					if (receiverUser && receiverUser.id !== senderUser?.id) {
-						const senderName =
-							senderUser?.displayUsername ||
-							senderUser?.username ||
-							senderUser?.name ||
-							chatData.senderId;
-
-						await NotificationService.createNotification(
-							receiverUser.id,
-							`New message from ${senderName}`,
-							message.content,
-							NotificationType.NEW_MESSAGE,
-							NotificationPriority.NORMAL,
-							{
-								roomId: this.roomId,
-								senderId: senderUser?.id || chatData.senderId,
-								senderUsername: senderName,
-								messagePreview: message.content,
-								user: senderUser,
-							},
-						);
-					}
-				} catch (error) {
-					console.error("Failed to create message notification:", error);
-				}
+			if (this.roomId !== "general") {
+				await this.notifyRecipients(
+					chatData.senderId,
+					chatData.receiverId,
+					message,
+				);
 			}
 
 			// Acknowledge message received
@@ -308,12 +401,257 @@ export class ChatReceiverController {
 		}
 	}
 
+	/**
+	 * Tell the sender their message reached the room once any recipient's
+	 * socket acknowledged it. Recipients that time out or were offline still
+	 * produce a read receipt once they catch up.
+	 */
+	private messageDelivered(message: Message, acks: unknown[]) {
+		if (!acks || acks.length === 0) return;
+		this.socket.emit(ChatEvent.MESSAGE_DELIVERED, {
+			id: message.id,
+			roomId: this.roomId,
+			recipients: acks.length,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
+	/**
+	 * Move the reader's pointer to a message; the room hears about it
+	 * through the receipts channel
+	 */
+	async markRead(data: { messageId: string }) {
+		// The public room keeps no per-reader state
+		if (this.roomId === "general") return;
+
+		try {
+			const parsed = markReadSchema.safeParse(data || {});
+			if (!parsed.success) {
+				this.socket.emit(ChatEvent.ERROR, "Invalid read receipt");
+				return;
+			}
+
+			await this.receiptService.markRead(
+				this.roomId,
+				await this.getUserId(),
+				parsed.data.messageId,
+			);
+		} catch (error) {
+			console.error("Error marking message as read:", error);
+			this.socket.emit(
+				ChatEvent.ERROR,
+				error instanceof Error
+					? error.message
+					: "Failed to mark message as read",
+			);
+		}
+	}
+
+	/**
+	 * Edit one of the sender's messages; the room hears about it through
+	 * the message update channel
+	 */
+	async editMessage(data: { messageId: string; content: string }) {
+		try {
+			const parsed = editMessageSchema.safeParse(data || {});
+			if (!parsed.success) {
+				this.socket.emit(ChatEvent.ERROR, "Invalid message edit");
+				return;
+			}
+
+			await this.messageEditService.editMessage(
+				this.roomId,
+				parsed.data.messageId,
+				await this.messageEditService.getUserIdentities(this.senderId),
+				parsed.data.content,
+			);
+		} catch (error) {
+			console.error("Error editing message:", error);
+			this.socket.emit(
+				ChatEvent.ERROR,
+				error instanceof Error ? error.message : "Failed to edit message",
+			);
+		}
+	}
+
+	async deleteMessage(data: { messageId: string }) {
+		try {
+			const parsed = deleteMessageSchema.safeParse(data || {});
+			if (!parsed.success) {
+				this.socket.emit(ChatEvent.ERROR, "Invalid message delete");
+				return;
+			}
+
+			await this.messageEditService.deleteMessage(
+				this.roomId,
+				parsed.data.messageId,
+				await this.messageEditService.getUserIdentities(this.senderId),
+			);
+		} catch (error) {
+			console.error("Error deleting message:", error);
+			this.socket.emit(
+				ChatEvent.ERROR,
+				error instanceof Error ? error.message : "Failed to delete message",
+			);
+		}
+	}
+
+	/**
+	 * Reactions are counted per account, falling back to the token's id for
+	 * anonymous users. Returns null when the user is over the rate limit.
+	 */
+	private async getReactingUserId(): Promise<string | null> {
+		const userId = await this.getUserId();
+
+		const result = await this.reactionThrottle.hit(userId);
+		if (!result.allowed) {
+			this.socket.emit(
+				ChatEvent.ERROR,
+				`Too many reactions, try again in ${Math.ceil(result.retryAfterMs / 1000)}s`,
+			);
+			return null;
+		}
+		return userId;
+	}
+
+	async addReaction(data: { messageId: string; emoji: string }) {
+		try {
+			const parsed = reactionSchema.safeParse(data || {});
+			if (!parsed.success) {
+				this.socket.emit(ChatEvent.ERROR, "Invalid reaction");
+				return;
+			}
+
+			const userId = await this.getReactingUserId();
+			if (!userId) return;
+
+			await this.reactionService.addReaction(
+				this.roomId,
+				parsed.data.messageId,
+				userId,
+				parsed.data.emoji,
+			);
+		} catch (error) {
+			console.error("Error adding reaction:", error);
+			this.socket.emit(
+				ChatEvent.ERROR,
+				error instanceof Error ? error.message : "Failed to add reaction",
+			);
+		}
+	}
+
+	async removeReaction(data: { messageId: string; emoji: string }) {
+		try {
+			const parsed = reactionSchema.safeParse(data || {});
+			if (!parsed.success) {
+				this.socket.emit(ChatEvent.ERROR, "Invalid reaction");
+				return;
+			}
+
+			const userId = await this.getReactingUserId();
+			if (!userId) return;
+
+			await this.reactionService.removeReaction(
+				this.roomId,
+				parsed.data.messageId,
+				userId,
+				parsed.data.emoji,
+			);
+		} catch (error) {
+			console.error("Error removing reaction:", error);
+			this.socket.emit(
+				ChatEvent.ERROR,
+				error instanceof Error ? error.message : "Failed to remove reaction",
+			);
+		}
+	}
+
+	private async isGroupMember(): Promise<boolean> {
+		const roomState = await this.roomStateService.getRoomState(this.roomId);
+		return (
+			roomState?.participants.some(
+				(participant) => participant.id === this.senderId,
+			) ?? false
+		);
+	}
+
+	// Everyone in the room except the sender; group tokens carry no receiver
+	private async getRecipientIds(receiverId: string): Promise<string[]> {
+		if (!this.isGroup) return receiverId ? [receiverId] : [];
+		const roomState = await this.roomStateService.getRoomState(this.roomId);
+		return (roomState?.participants ?? [])
+			.map((participant) => participant.id)
+			.filter((id) => id !== this.senderId);
+	}
+
+	private async notifyRecipients(
+		senderId: string,
+		receiverId: string,
+		message: Message,
+	) {
+		try {
+			const recipientIds = await this.getRecipientIds(receiverId);
+			if (recipientIds.length === 0) return;
+
+			const senderUser = await prisma.user.findFirst({
+				where: {
+					OR: [
+						{ id: senderId },
+						{ username: senderId },
+						{ displayUsername: senderId },
+					],
+				},
+			});
+			const senderName =
+				senderUser?.displayUsername ||
+				senderUser?.username ||
+				senderUser?.name ||
+				senderId;
+
+			// Every recipient in one query, however they are identified
+			const receiverUsers = await prisma.user.findMany({
+				where: {
+					OR: [
+						{ id: { in: recipientIds } },
+						{ username: { in: recipientIds } },
+						{ displayUsername: { in: recipientIds } },
+					],
+					NOT: senderUser ? { id: senderUser.id } : undefined,
+				},
+			});
+
+			await Promise.all(
+				receiverUsers.map((receiverUser) =>
+					NotificationService.createNotification(
+						receiverUser.id,
+						`New message from ${senderName}`,
+						message.content,
+						NotificationType.NEW_MESSAGE,
+						NotificationPriority.NORMAL,
+						{
+							roomId: this.roomId,
+							senderId: senderUser?.id || senderId,
+							senderUsername: senderName,
+							messagePreview: message.content,
+							user: senderUser,
+						},
+					),
+				),
+			);
+		} catch (error) {
+			console.error("Failed to create message notification:", error);
+		}
+	}
+
 	async disconnect() {
 		try {
 			console.log(
 				`Chat client disconnected: ${this.socket.id} (${this.senderId})`,
 			);
 
+			// A dropped socket must not leave its typing indicator behind
+			await this.userStoppedTyping();
+
 			// Get all rooms this socket was in
 			const rooms = await redis.smembers(`chat:socket:${this.socket.id}:rooms`);
 
@@ -384,21 +722,23 @@ export class ChatReceiverController {
 		return `chat:pending_disconnect:${roomId}:${this.senderId}`;
 	}
 
+	/**
+	 * Start or refresh the sender's typing indicator. Clients may send this on
+	 * every keystroke; refreshes inside the throttle interval are dropped.
+	 */
 	async userTyping() {
 		try {
-			await redis.sadd(`chat:rooms:${this.roomId}:typing`, this.socket.id);
+			const now = Date.now();
+			const { ttlMs, refreshIntervalMs } = chatConfig.typing;
+			if (this.typingTimer && now - this.lastTypingAt < refreshIntervalMs) {
+				return;
+			}
+			this.lastTypingAt = now;
 
-			// Publish typing event
-			await pubClient.publish(
-				RedisHash.CHAT_ROOMS,
-				JSON.stringify({
-					type: "typing",
-					roomId: this.roomId,
-					clientId: this.socket.id,
-					username: this.senderId,
-					timestamp: new Date().toISOString(),
-				}),
-			);
+			if (this.typingTimer) clearTimeout(this.typingTimer);
+			this.typingTimer = setTimeout(this.userStoppedTyping, ttlMs);
+
+			await this.typingService.startTyping(this.roomId, this.senderId, now);
 		} catch (error) {
 			console.error("Error handling user typing:", error);
 		}
@@ -406,19 +746,12 @@ export class ChatReceiverController {
 
 	async userStoppedTyping() {
 		try {
-			await redis.srem(`chat:rooms:${this.roomId}:typing`, this.socket.id);
+			if (this.typingTimer) {
+				clearTimeout(this.typingTimer);
+				this.typingTimer = null;
+			}
 
-			// Publish stopped typing event
-			await pubClient.publish(
-				RedisHash.CHAT_ROOMS,
-				JSON.stringify({
-					type: "stopped_typing",
-					roomId: this.roomId,
-					clientId: this.socket.id,
-					username: this.senderId,
-					timestamp: new Date().toISOString(),
-				}),
-			);
+			await this.typingService.stopTyping(this.roomId, this.senderId);
 		} catch (error) {
 			console.error("Error handling user stopped typing:", error);
 		}
@@ -426,7 +759,7 @@ export class ChatReceiverController {
 
 	async userDisconnected() {
 		try {
-			await redis.srem(`chat:rooms:${this.roomId}:typing`, this.socket.id);
+			await this.userStoppedTyping();
 
 			// Publish disconnected event
 			await pubClient.publish(
@@ -486,6 +819,28 @@ export class ChatReceiverController {
 		}
 	}
 
+	/**
+	 * Block the other participant and end the room for both sides
+	 */
+	async blockUser() {
+		try {
+			const [senderUserId, receiverUserId] = await this.getParticipantIds();
+			if (this.roomId === "general" || !senderUserId || !receiverUserId) {
+				this.socket.emit(ChatEvent.ERROR, "Cannot block in this room");
+				return;
+			}
+
+			await this.blockService.blockUser(senderUserId, receiverUserId);
+			await this.roomStateService.endRoom(this.roomId, "blocked", this.senderId);
+		} catch (error) {
+			console.error("Error blocking user:", error);
+			this.socket.emit(
+				ChatEvent.ERROR,
+				error instanceof Error ? error.message : "Failed to block user",
+			);
+		}
+	}
+
 	async callRequest(data?: { requesterUsername?: string }) {
 		try {
 			const requesterUsername = data?.requesterUsername || this.senderId;
@@ -8,11 +8,15 @@ import {
 	FriendChatMessageService,
 	FriendChatMessageType,
 } from "../service/friend-chat-message.service";
+import { BlockService } from "../service/block.service";
+import { ReactionService } from "../service/reaction.service";
 
 export class FriendChatController {
 	private friendChatService: FriendChatService;
 	private friendsService: FriendsService;
 	private friendChatMessageService: FriendChatMessageService;
+	private blockService: BlockService;
+	private reactionService: ReactionService;
 	private searchType: "chat" | "call";
 
 	constructor(searchType: "chat" | "call") {
@@ -20,6 +24,8 @@ export class FriendChatController {
 		this.friendChatService = new FriendChatService(searchType);
 		this.friendsService = new FriendsService();
 		this.friendChatMessageService = new FriendChatMessageService();
+		this.blockService = new BlockService();
+		this.reactionService = new ReactionService();
 	}
 
 	/*
@@ -67,6 +73,10 @@ export class FriendChatController {
 				.json({ message: "Friendship not accepted" });
 		}
 
+		if (await this.blockService.isBlocked(userId, friendUser.id)) {
+			return res.status(403).json({ message: "You cannot chat with this user" });
+		}
+
 		const { token1, token2, roomId } = await this.friendChatService.startChat(
 			friendData.user,
 			friendData.friend,
@@ -168,7 +178,8 @@ export class FriendChatController {
 			return res.status(403).json({ message: "You are not part of this room" });
 		}
 
-		const data = await this.friendChatMessageService.getMessages(roomId, limit);
+		const messages = await this.friendChatMessageService.getMessages(roomId, limit);
+		const data = await this.reactionService.withReactions(messages);
 		return res.status(200).json({ message: "Messages fetched", data });
 	};
 
@@ -250,6 +261,10 @@ export class FriendChatController {
 			return res.status(404).json({ message: "Receiver not found" });
 		}
 
+		if (await this.blockService.isBlocked(me.id, receiver.id)) {
+			return res.status(403).json({ message: "You cannot message this user" });
+		}
+
 		const friendship = await this.friendsService.areFriends(userId, receiver.id, true);
 		if (!friendship.areFriends || friendship.status !== "accepted") {
 			return res.status(403).json({ message: "Friendship not accepted" });
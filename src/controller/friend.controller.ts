@@ -114,6 +114,14 @@ export class FriendsController {
 					});
 					return;
 				}
+
+				if (error.message.includes("Cannot send friend request")) {
+					res.status(403).json({
+						success: false,
+						message: error.message,
+					});
+					return;
+				}
 			}
 
 			res.status(500).json({
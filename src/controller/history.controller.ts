@@ -1,12 +1,15 @@
 import { Request, Response } from "express";
 import ChatDBService from "../service/chat-db.service";
+import { ReactionService } from "../service/reaction.service";
 import { prisma } from "../lib/prisma";
 
 export class HistoryController {
 	private chatDBService: ChatDBService;
+	private reactionService: ReactionService;
 
 	constructor() {
 		this.chatDBService = new ChatDBService();
+		this.reactionService = new ReactionService();
 
 		this.getChatHistory = this.getChatHistory.bind(this);
 		this.getCallHistory = this.getCallHistory.bind(this);
@@ -48,7 +51,7 @@ export class HistoryController {
 		const chatHistory = await this.chatDBService.getMessages(
 			chatRoomId as string,
 		);
-		res.json({ data: chatHistory });
+		res.json({ data: await this.reactionService.withReactions(chatHistory) });
 	}
 
 	async getCallHistory(req: Request, res: Response) {
@@ -73,7 +76,8 @@ export class HistoryController {
 	}
 
 	async getGlobalChats(req: Request, res: Response) {
-		const data = await this.chatDBService.getGlobalMessages();
+		const messages = await this.chatDBService.getGlobalMessages();
+		const data = await this.reactionService.withReactions(messages);
 		res.json({ data });
 	}
 }
@@ -0,0 +1,100 @@
+import type { Request, Response } from "express";
+import { InterestService } from "../service/interest.service";
+import {
+	createInterestSchema,
+	updateInterestSchema,
+} from "../validation/interest.validation";
+
+export class InterestController {
+	// Maps the service's error messages to HTTP statuses
+	private sendError(res: Response, error: unknown, fallback: string) {
+		if (error instanceof Error) {
+			if (error.message.includes("not found")) {
+				res.status(404).json({ success: false, message: error.message });
+				return;
+			}
+
+			if (error.message.includes("already in use")) {
+				res.status(409).json({ success: false, message: error.message });
+				return;
+			}
+
+			if (error.message.includes("invalid")) {
+				res.status(400).json({ success: false, message: error.message });
+				return;
+			}
+		}
+
+		res.status(500).json({ success: false, message: fallback });
+	}
+
+	/**
+	 * Public interest catalog with trending counts
+	 * GET /api/v1/interests?category=music
+	 */
+	listInterests = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const category =
+				typeof req.query.category === "string" ? req.query.category : undefined;
+			const interests = await InterestService.listInterests(category);
+			res.status(200).json({ success: true, data: interests });
+		} catch (error) {
+			console.error("Error listing interests:", error);
+			this.sendError(res, error, "Internal server error");
+		}
+	};
+
+	/**
+	 * POST /api/v1/interests (admin only)
+	 */
+	createInterest = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const parsed = createInterestSchema.safeParse(req.body || {});
+			if (!parsed.success) {
+				res.status(400).json({ success: false, error: parsed.error });
+				return;
+			}
+
+			const interest = await InterestService.createInterest(parsed.data);
+			res.status(201).json({ success: true, data: interest });
+		} catch (error) {
+			console.error("Error creating interest:", error);
+			this.sendError(res, error, "Failed to create interest");
+		}
+	};
+
+	/**
+	 * PATCH /api/v1/interests/:id (admin only)
+	 */
+	updateInterest = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const parsed = updateInterestSchema.safeParse(req.body || {});
+			if (!parsed.success) {
+				res.status(400).json({ success: false, error: parsed.error });
+				return;
+			}
+
+			const interest = await InterestService.updateInterest(
+				req.params.id,
+				parsed.data,
+			);
+			res.status(200).json({ success: true, data: interest });
+		} catch (error) {
+			console.error("Error updating interest:", error);
+			this.sendError(res, error, "Failed to update interest");
+		}
+	};
+
+	/**
+	 * DELETE /api/v1/interests/:id (admin only)
+	 */
+	deleteInterest = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const result = await InterestService.deleteInterest(req.params.id);
+			res.status(200).json({ success: true, message: result.message });
+		} catch (error) {
+			console.error("Error deleting interest:", error);
+			this.sendError(res, error, "Failed to delete interest");
+		}
+	};
+}
@@ -0,0 +1,122 @@
+import type { Request, Response } from "express";
+import { MessageEditService } from "../service/message-edit.service";
+import { editMessageSchema } from "../validation/chat.validation";
+
+export class MessageController {
+	private messageEditService: MessageEditService;
+
+	constructor() {
+		this.messageEditService = new MessageEditService();
+	}
+
+	// Maps the service's error messages to HTTP statuses
+	private sendError(res: Response, error: unknown, fallback: string) {
+		if (error instanceof Error) {
+			if (error.message.includes("not found")) {
+				res.status(404).json({ success: false, message: error.message });
+				return;
+			}
+
+			if (error.message.includes("only")) {
+				res.status(403).json({ success: false, message: error.message });
+				return;
+			}
+
+			if (
+				error.message.includes("already deleted") ||
+				error.message.includes("window has closed") ||
+				error.message.includes("being changed")
+			) {
+				res.status(409).json({ success: false, message: error.message });
+				return;
+			}
+
+			if (error.message.includes("cannot be changed")) {
+				res.status(400).json({ success: false, message: error.message });
+				return;
+			}
+		}
+
+		res.status(500).json({ success: false, message: fallback });
+	}
+
+	/**
+	 * PATCH /api/v1/messages/rooms/:roomId/:messageId
+	 */
+	editMessage = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.user?.id;
+			if (!userId) {
+				res.status(401).json({ success: false, message: "Unauthorized" });
+				return;
+			}
+
+			const parsed = editMessageSchema.safeParse({
+				...(req.body || {}),
+				messageId: req.params.messageId,
+			});
+			if (!parsed.success) {
+				res.status(400).json({ success: false, error: parsed.error });
+				return;
+			}
+
+			const update = await this.messageEditService.editMessage(
+				req.params.roomId,
+				parsed.data.messageId,
+				await this.messageEditService.getUserIdentities(userId),
+				parsed.data.content,
+			);
+			res.status(200).json({ success: true, data: update });
+		} catch (error) {
+			console.error("Error editing message:", error);
+			this.sendError(res, error, "Failed to edit message");
+		}
+	};
+
+	/**
+	 * DELETE /api/v1/messages/rooms/:roomId/:messageId
+	 */
+	deleteMessage = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.user?.id;
+			if (!userId) {
+				res.status(401).json({ success: false, message: "Unauthorized" });
+				return;
+			}
+
+			const update = await this.messageEditService.deleteMessage(
+				req.params.roomId,
+				req.params.messageId,
+				await this.messageEditService.getUserIdentities(userId),
+			);
+			res.status(200).json({ success: true, data: update });
+		} catch (error) {
+			console.error("Error deleting message:", error);
+			this.sendError(res, error, "Failed to delete message");
+		}
+	};
+
+	/**
+	 * Earlier versions of one of the user's messages, oldest first
+	 * GET /api/v1/messages/rooms/:roomId/:messageId/edits
+	 */
+	getEditHistory = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.user?.id;
+			if (!userId) {
+				res.status(401).json({ success: false, message: "Unauthorized" });
+				return;
+			}
+
+			const edits = await this.messageEditService.getEditHistory(
+				req.params.roomId,
+				req.params.messageId,
+				await this.messageEditService.getUserIdentities(userId),
+			);
+			res.status(200).json({ success: true, data: edits });
+		} catch (error) {
+			console.error("Error getting message edits:", error);
+			this.sendError(res, error, "Internal server error");
+		}
+	};
+}
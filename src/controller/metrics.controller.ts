@@ -0,0 +1,46 @@
+import type { Request, Response } from "express";
+import { SEARCH_TYPES, type SearchType } from "../config/search";
+import { MatchMetricsService } from "../service/match-metrics.service";
+
+// Buckets are kept for a day
+const MAX_MINUTES = 24 * 60;
+
+export class MetricsController {
+	/**
+	 * Matchmaking metrics per queue: totals over the window plus a
+	 * per-minute series (admin only)
+	 * GET /api/v1/metrics/match?minutes=60&type=chat
+	 */
+	getMatchMetrics = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const minutes = Math.min(
+				Math.max(Number(req.query.minutes) || 60, 1),
+				MAX_MINUTES,
+			);
+
+			const type = req.query.type as string | undefined;
+			if (type && !SEARCH_TYPES.includes(type as SearchType)) {
+				res.status(400).json({ success: false, message: "Invalid type" });
+				return;
+			}
+
+			const types = type ? [type] : SEARCH_TYPES;
+			const data = await Promise.all(
+				types.map(async (searchType) => {
+					const metricsService = new MatchMetricsService(searchType);
+					const [summary, series] = await Promise.all([
+						metricsService.getSummary(minutes),
+						metricsService.getSeries(minutes),
+					]);
+					return { ...summary, series };
+				}),
+			);
+			res.status(200).json({ success: true, data });
+		} catch (error) {
+			console.error("Error getting match metrics:", error);
+			res
+				.status(500)
+				.json({ success: false, message: "Internal server error" });
+		}
+	};
+}
@@ -9,16 +9,24 @@ import { NotificationService } from "../service/notification.service";
 import { prisma } from "../lib/prisma";
 import { redis } from "../lib/redis";
 import { v4 as uuidv4 } from "uuid";
+import { startSearchSchema } from "../validation/search.validation";
+import { BlockService } from "../service/block.service";
+import { QueueStatusService } from "../service/queue-status.service";
+import { InterestService } from "../service/interest.service";
 
 export class SearchController {
 	private matchService: MatchService;
 	private roomService: RoomService;
 	private roomStateService: RoomStateService;
+	private blockService: BlockService;
+	private queueStatusService: QueueStatusService;
 
 	constructor(searchType: string) {
 		this.matchService = new MatchService(searchType);
 		this.roomService = new RoomService(RoomType.CHAT);
 		this.roomStateService = new RoomStateService();
+		this.blockService = new BlockService();
+		this.queueStatusService = new QueueStatusService(searchType);
 
 		this.startSearch = this.startSearch.bind(this);
 		this.stopSearch = this.stopSearch.bind(this);
@@ -27,16 +35,55 @@ export class SearchController {
 		this.startDirectChat = this.startDirectChat.bind(this);
 		this.acceptDirectChat = this.acceptDirectChat.bind(this);
 		this.declineDirectChat = this.declineDirectChat.bind(this);
+		this.getStatus = this.getStatus.bind(this);
+		this.confirmMatch = this.confirmMatch.bind(this);
+		this.declineMatch = this.declineMatch.bind(this);
+		this.next = this.next.bind(this);
 	}
 
 	async startSearch(req: Request, res: Response) {
+		const userId = req.user?.id || "";
+		const parsed = startSearchSchema.safeParse(req.body || {});
+
+		if (!parsed.success) {
+			return res.status(400).json({ error: parsed.error });
+		}
+
+		const {
+			interests: requestedInterests,
+			filters: requestedFilters,
+			...preferences
+		} = parsed.data;
+
+		// Fall back to the interests saved on the profile when none are sent
+		let interests = requestedInterests ?? [];
+		if (interests.length === 0 && userId) {
+			const storedUser = await prisma.user.findUnique({
+				where: { id: userId },
+				select: { interests: true },
+			});
+			interests = storedUser?.interests ?? [];
+		}
+		interests = await InterestService.normalize(interests);
+		await InterestService.recordUsage(interests);
+
 		const result = await this.matchService.addUser(
-			req.user?.id || "",
+			userId,
 			req.user?.username || req.user?.name || "",
-			[],
+			interests,
+			preferences,
+			requestedFilters,
 		);
 
-		res.status(200).json({ message: "Search started", data: { user: result } });
+		res.status(200).json({
+			message: "Search started",
+			data: {
+				user: result.userId,
+				interests,
+				preferences,
+				filters: result.filters,
+			},
+		});
 		return;
 	}
 
@@ -129,6 +176,10 @@ export class SearchController {
 			return res.status(400).json({ message: "Cannot chat with yourself" });
 		}
 
+		if (await this.blockService.isBlocked(currentUser.id, targetUser.id)) {
+			return res.status(403).json({ message: "You cannot chat with this user" });
+		}
+
 		const senderUsername =
 			currentUser.displayUsername ||
 			currentUser.username ||
@@ -213,6 +264,11 @@ export class SearchController {
 			return res.status(404).json({ message: "User not found" });
 		}
 
+		if (await this.blockService.isBlocked(currentUser.id, requesterUser.id)) {
+			await redis.del(`chat:direct_request:${requestId}`);
+			return res.status(403).json({ message: "You cannot chat with this user" });
+		}
+
 		let room = await this.roomService.getRoomByUsers(
 			currentUser.id,
 			requesterUser.id,
@@ -228,8 +284,7 @@ export class SearchController {
 			await this.roomStateService.initializeRoomState(
 				room.id,
 				"chat",
-				currentUser.id,
-				requesterUser.id,
+				[currentUser.id, requesterUser.id],
 			);
 		}
 
@@ -354,12 +409,105 @@ export class SearchController {
 	}
 
 	async getStatus(req: Request, res: Response) {
-		const { userId } = req.params;
+		const userId = req.user?.id || "";
 
 		if (!userId) {
 			throw new Error("User ID is required");
 		}
 
-		const user = await verifyUserId(userId);
+		const status = await this.queueStatusService.getStatus(userId);
+
+		res.status(200).json({ message: "Queue status", data: status });
+		return;
+	}
+
+	async confirmMatch(req: Request, res: Response) {
+		const userId = req.user?.id as string;
+		const { proposalId } = req.body || {};
+
+		if (!userId) {
+			return res.status(401).json({ message: "Unauthorized" });
+		}
+
+		if (!proposalId || typeof proposalId !== "string") {
+			return res.status(400).json({ message: "Proposal ID is required" });
+		}
+
+		try {
+			const { matched } = await this.matchService.confirmMatch(
+				proposalId,
+				userId,
+			);
+			return res.status(200).json({
+				message: matched ? "Match confirmed" : "Waiting for your match",
+				data: { proposalId, matched },
+			});
+		} catch (error) {
+			return this.sendProposalError(res, error);
+		}
+	}
+
+	async declineMatch(req: Request, res: Response) {
+		const userId = req.user?.id as string;
+		const { proposalId } = req.body || {};
+
+		if (!userId) {
+			return res.status(401).json({ message: "Unauthorized" });
+		}
+
+		if (!proposalId || typeof proposalId !== "string") {
+			return res.status(400).json({ message: "Proposal ID is required" });
+		}
+
+		try {
+			await this.matchService.declineMatch(proposalId, userId);
+			return res.status(200).json({ message: "Match declined" });
+		} catch (error) {
+			return this.sendProposalError(res, error);
+		}
+	}
+
+	async next(req: Request, res: Response) {
+		const userId = req.user?.id as string;
+		const { roomId } = req.body || {};
+
+		if (!userId) {
+			return res.status(401).json({ message: "Unauthorized" });
+		}
+
+		if (!roomId || typeof roomId !== "string") {
+			return res.status(400).json({ message: "Room ID is required" });
+		}
+
+		try {
+			const result = await this.matchService.skipPartner(
+				userId,
+				req.user?.username || req.user?.name || "",
+				roomId,
+			);
+			return res.status(200).json({
+				message: "Searching for a new partner",
+				data: result,
+			});
+		} catch (error) {
+			if (error instanceof Error && error.message === "Room not found") {
+				return res.status(404).json({ message: error.message });
+			}
+			throw error;
+		}
+	}
+
+	private sendProposalError(res: Response, error: unknown) {
+		const message = error instanceof Error ? error.message : "";
+		switch (message) {
+			case "Match proposal not found":
+				return res.status(404).json({ message });
+			case "Match proposal expired":
+				return res.status(410).json({ message });
+			case "Not part of this match proposal":
+				return res.status(403).json({ message });
+			default:
+				throw error;
+		}
 	}
 }
@@ -0,0 +1,206 @@
+import type { Request, Response } from "express";
+import { SpeedEventService } from "../service/speed-event.service";
+import {
+	createSpeedEventSchema,
+	submitLikesSchema,
+} from "../validation/speed-event.validation";
+
+export class SpeedEventController {
+	private speedEventService: SpeedEventService;
+
+	constructor() {
+		this.speedEventService = new SpeedEventService();
+	}
+
+	// Maps the service's error messages to HTTP statuses
+	private sendError(res: Response, error: unknown, fallback: string) {
+		if (error instanceof Error) {
+			if (error.message.includes("not found")) {
+				res.status(404).json({ success: false, message: error.message });
+				return;
+			}
+
+			if (
+				error.message.includes("full") ||
+				error.message.includes("closed") ||
+				error.message.includes("Already") ||
+				error.message.includes("over") ||
+				error.message.includes("not accepting")
+			) {
+				res.status(409).json({ success: false, message: error.message });
+				return;
+			}
+		}
+
+		res.status(500).json({ success: false, message: fallback });
+	}
+
+	/**
+	 * Upcoming and live events
+	 * GET /api/v1/events
+	 */
+	listEvents = async (_req: Request, res: Response): Promise<void> => {
+		try {
+			const events = await this.speedEventService.listEvents();
+			res.status(200).json({ success: true, data: events });
+		} catch (error) {
+			console.error("Error listing events:", error);
+			this.sendError(res, error, "Internal server error");
+		}
+	};
+
+	/**
+	 * GET /api/v1/events/:eventId
+	 */
+	getEvent = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const event = await this.speedEventService.getEvent(req.params.eventId);
+			res.status(200).json({ success: true, data: event });
+		} catch (error) {
+			console.error("Error getting event:", error);
+			this.sendError(res, error, "Internal server error");
+		}
+	};
+
+	/**
+	 * Schedule an event (admin only)
+	 * POST /api/v1/events
+	 */
+	createEvent = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.user?.id;
+			if (!userId) {
+				res.status(401).json({ success: false, message: "Unauthorized" });
+				return;
+			}
+
+			const parsed = createSpeedEventSchema.safeParse(req.body || {});
+			if (!parsed.success) {
+				res.status(400).json({ success: false, error: parsed.error });
+				return;
+			}
+
+			const event = await this.speedEventService.createEvent(
+				userId,
+				parsed.data,
+			);
+			res.status(201).json({ success: true, data: event });
+		} catch (error) {
+			console.error("Error creating event:", error);
+			this.sendError(res, error, "Failed to create event");
+		}
+	};
+
+	/**
+	 * Cancel an event and close its live rooms (admin only)
+	 * POST /api/v1/events/:eventId/cancel
+	 */
+	cancelEvent = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const event = await this.speedEventService.cancelEvent(
+				req.params.eventId,
+			);
+			res.status(200).json({ success: true, data: event });
+		} catch (error) {
+			console.error("Error cancelling event:", error);
+			this.sendError(res, error, "Failed to cancel event");
+		}
+	};
+
+	/**
+	 * POST /api/v1/events/:eventId/register
+	 */
+	register = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.user?.id;
+			if (!userId) {
+				res.status(401).json({ success: false, message: "Unauthorized" });
+				return;
+			}
+
+			const registration = await this.speedEventService.register(
+				req.params.eventId,
+				userId,
+			);
+			res.status(201).json({ success: true, data: registration });
+		} catch (error) {
+			console.error("Error registering for event:", error);
+			this.sendError(res, error, "Failed to register for event");
+		}
+	};
+
+	/**
+	 * DELETE /api/v1/events/:eventId/register
+	 */
+	unregister = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.user?.id;
+			if (!userId) {
+				res.status(401).json({ success: false, message: "Unauthorized" });
+				return;
+			}
+
+			const result = await this.speedEventService.unregister(
+				req.params.eventId,
+				userId,
+			);
+			res.status(200).json({ success: true, message: result.message });
+		} catch (error) {
+			console.error("Error cancelling event registration:", error);
+			this.sendError(res, error, "Failed to cancel registration");
+		}
+	};
+
+	/**
+	 * Partners the user met during the event
+	 * GET /api/v1/events/:eventId/partners
+	 */
+	getPartners = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.user?.id;
+			if (!userId) {
+				res.status(401).json({ success: false, message: "Unauthorized" });
+				return;
+			}
+
+			const partners = await this.speedEventService.getPartners(
+				req.params.eventId,
+				userId,
+			);
+			res.status(200).json({ success: true, data: partners });
+		} catch (error) {
+			console.error("Error getting event partners:", error);
+			this.sendError(res, error, "Internal server error");
+		}
+	};
+
+	/**
+	 * Pick who to talk to again; mutual picks send friend requests
+	 * POST /api/v1/events/:eventId/likes
+	 */
+	submitLikes = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const userId = req.user?.id;
+			if (!userId) {
+				res.status(401).json({ success: false, message: "Unauthorized" });
+				return;
+			}
+
+			const parsed = submitLikesSchema.safeParse(req.body || {});
+			if (!parsed.success) {
+				res.status(400).json({ success: false, error: parsed.error });
+				return;
+			}
+
+			const result = await this.speedEventService.submitLikes(
+				req.params.eventId,
+				userId,
+				parsed.data.userIds,
+			);
+			res.status(200).json({ success: true, data: result });
+		} catch (error) {
+			console.error("Error submitting event picks:", error);
+			this.sendError(res, error, "Failed to submit picks");
+		}
+	};
+}
@@ -7,6 +7,8 @@ import type { Lock } from "redlock";
 
 const matchServiceChat = new MatchService("chat");
 const matchServiceCall = new MatchService("call");
+const matchServiceVideo = new MatchService("video");
+const matchServiceGroup = new MatchService("group");
 
 let scheduledTask: ScheduledTask | null = null;
 
@@ -30,22 +32,35 @@ const processMatchJob = async () => {
 		// Fix any Redis data type inconsistencies first
 		await matchServiceChat.availableUserService.cleanupDataTypeInconsistencies();
 		await matchServiceCall.availableUserService.cleanupDataTypeInconsistencies();
+		await matchServiceVideo.availableUserService.cleanupDataTypeInconsistencies();
+		await matchServiceGroup.availableUserService.cleanupDataTypeInconsistencies();
 
 		// Clean up inactive users (users inactive for more than 30 seconds)
 		const chatInactiveCount =
 			await matchServiceChat.cleanupInactiveUsers(30000);
 		const callInactiveCount =
 			await matchServiceCall.cleanupInactiveUsers(30000);
+		const videoInactiveCount =
+			await matchServiceVideo.cleanupInactiveUsers(30000);
+		const groupInactiveCount =
+			await matchServiceGroup.cleanupInactiveUsers(30000);
 
-		if (chatInactiveCount > 0 || callInactiveCount > 0) {
+		if (
+			chatInactiveCount > 0 ||
+			callInactiveCount > 0 ||
+			videoInactiveCount > 0 ||
+			groupInactiveCount > 0
+		) {
 			logger.info(
-				`[MatchCron] Cleaned up inactive users - Chat: ${chatInactiveCount}, Call: ${callInactiveCount}`,
+				`[MatchCron] Cleaned up inactive users - Chat: ${chatInactiveCount}, Call: ${callInactiveCount}, Video: ${videoInactiveCount}, Group: ${groupInactiveCount}`,
 			);
 		}
 
 		// Then perform matching
 		await matchServiceChat.bestMatch();
 		await matchServiceCall.bestMatch();
+		await matchServiceVideo.bestMatch();
+		await matchServiceGroup.bestMatch();
 		// logger.info("[MatchCron] Match job processed successfully");
 	} catch (err) {
 		logger.error("[MatchCron] Error processing match job:", err);
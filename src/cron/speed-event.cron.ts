@@ -0,0 +1,71 @@
+import cron, { type ScheduledTask } from "node-cron";
+import type { Lock } from "redlock";
+import { SpeedEventService } from "../service/speed-event.service";
+import logger from "../config/logger";
+import { redlock } from "../config/redlock";
+
+const speedEventService = new SpeedEventService();
+
+let scheduledTask: ScheduledTask | null = null;
+
+const processSpeedEventJob = async () => {
+	const lockKey = "lock:speed-event-job";
+	const lockTtl = 4500; // Just under the job interval
+
+	let lock: Lock | null = null;
+	try {
+		lock = await redlock.acquire([lockKey], lockTtl);
+	} catch {
+		// Lock not acquired, another instance is running the job
+		return;
+	}
+
+	try {
+		await speedEventService.processEvents();
+	} catch (err) {
+		logger.error("[SpeedEventCron] Error processing speed event job:", err);
+	} finally {
+		if (lock) {
+			try {
+				await lock.release();
+			} catch (releaseErr: unknown) {
+				// Lock may have expired or already been released
+				if (
+					!(releaseErr instanceof Error) ||
+					(releaseErr.name !== "ExecutionError" &&
+						!releaseErr.message.includes("quorum"))
+				) {
+					logger.error("[SpeedEventCron] Error releasing lock:", releaseErr);
+				}
+			}
+		}
+	}
+};
+
+/**
+ * Add recurring speed event job
+ * Runs every 5 seconds to start events and rotate partners between rounds
+ */
+export const addRecurringJob = async () => {
+	if (scheduledTask) {
+		scheduledTask.stop();
+		scheduledTask = null;
+	}
+	try {
+		scheduledTask = cron.schedule("*/5 * * * * *", processSpeedEventJob);
+		logger.info("[SpeedEventCron] Recurring job scheduled (every 5 seconds)");
+	} catch (error) {
+		logger.error("[SpeedEventCron] Failed to schedule recurring job:", error);
+	}
+};
+
+/**
+ * Cleanup function for graceful shutdown
+ */
+export const cleanup = async () => {
+	if (scheduledTask) {
+		scheduledTask.stop();
+		scheduledTask = null;
+	}
+	logger.info("[SpeedEventCron] Cleanup complete");
+};
@@ -36,6 +36,21 @@ export type Call = Prisma.CallModel;
  *
  */
 export type Text = Prisma.TextModel;
+/**
+ * Model MessageReaction
+ *
+ */
+export type MessageReaction = Prisma.MessageReactionModel;
+/**
+ * Model ReadReceipt
+ *
+ */
+export type ReadReceipt = Prisma.ReadReceiptModel;
+/**
+ * Model TextEdit
+ *
+ */
+export type TextEdit = Prisma.TextEditModel;
 /**
  * Model Friendship
  *
@@ -46,6 +61,36 @@ export type Friendship = Prisma.FriendshipModel;
  *
  */
 export type Report = Prisma.ReportModel;
+/**
+ * Model Block
+ *
+ */
+export type Block = Prisma.BlockModel;
+/**
+ * Model SpeedEvent
+ *
+ */
+export type SpeedEvent = Prisma.SpeedEventModel;
+/**
+ * Model SpeedEventRegistration
+ *
+ */
+export type SpeedEventRegistration = Prisma.SpeedEventRegistrationModel;
+/**
+ * Model SpeedEventPairing
+ *
+ */
+export type SpeedEventPairing = Prisma.SpeedEventPairingModel;
+/**
+ * Model SpeedEventLike
+ *
+ */
+export type SpeedEventLike = Prisma.SpeedEventLikeModel;
+/**
+ * Model Interest
+ *
+ */
+export type Interest = Prisma.InterestModel;
 /**
  * Model LeaderboardEntry
  *
@@ -66,6 +111,11 @@ export type Subscription = Prisma.SubscriptionModel;
  *
  */
 export type Room = Prisma.RoomModel;
+/**
+ * Model RoomParticipant
+ *
+ */
+export type RoomParticipant = Prisma.RoomParticipantModel;
 /**
  * Model PointActivity
  *
@@ -62,6 +62,21 @@ export type Call = Prisma.CallModel;
  *
  */
 export type Text = Prisma.TextModel;
+/**
+ * Model MessageReaction
+ *
+ */
+export type MessageReaction = Prisma.MessageReactionModel;
+/**
+ * Model ReadReceipt
+ *
+ */
+export type ReadReceipt = Prisma.ReadReceiptModel;
+/**
+ * Model TextEdit
+ *
+ */
+export type TextEdit = Prisma.TextEditModel;
 /**
  * Model Friendship
  *
@@ -72,6 +87,36 @@ export type Friendship = Prisma.FriendshipModel;
  *
  */
 export type Report = Prisma.ReportModel;
+/**
+ * Model Block
+ *
+ */
+export type Block = Prisma.BlockModel;
+/**
+ * Model SpeedEvent
+ *
+ */
+export type SpeedEvent = Prisma.SpeedEventModel;
+/**
+ * Model SpeedEventRegistration
+ *
+ */
+export type SpeedEventRegistration = Prisma.SpeedEventRegistrationModel;
+/**
+ * Model SpeedEventPairing
+ *
+ */
+export type SpeedEventPairing = Prisma.SpeedEventPairingModel;
+/**
+ * Model SpeedEventLike
+ *
+ */
+export type SpeedEventLike = Prisma.SpeedEventLikeModel;
+/**
+ * Model Interest
+ *
+ */
+export type Interest = Prisma.InterestModel;
 /**
  * Model LeaderboardEntry
  *
@@ -92,6 +137,11 @@ export type Subscription = Prisma.SubscriptionModel;
  *
  */
 export type Room = Prisma.RoomModel;
+/**
+ * Model RoomParticipant
+ *
+ */
+export type RoomParticipant = Prisma.RoomParticipantModel;
 /**
  * Model PointActivity
  *
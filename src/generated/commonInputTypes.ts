@@ -246,6 +246,39 @@ export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
 	_max?: Prisma.NestedIntNullableFilter<$PrismaModel>;
 };
 
+export type EnumSpeedEventStatusFilter<$PrismaModel = never> = {
+	equals?:
+		| $Enums.SpeedEventStatus
+		| Prisma.EnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	in?:
+		| $Enums.SpeedEventStatus[]
+		| Prisma.ListEnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	notIn?:
+		| $Enums.SpeedEventStatus[]
+		| Prisma.ListEnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	not?:
+		| Prisma.NestedEnumSpeedEventStatusFilter<$PrismaModel>
+		| $Enums.SpeedEventStatus;
+};
+
+export type EnumSpeedEventStatusWithAggregatesFilter<$PrismaModel = never> = {
+	equals?:
+		| $Enums.SpeedEventStatus
+		| Prisma.EnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	in?:
+		| $Enums.SpeedEventStatus[]
+		| Prisma.ListEnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	notIn?:
+		| $Enums.SpeedEventStatus[]
+		| Prisma.ListEnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	not?:
+		| Prisma.NestedEnumSpeedEventStatusWithAggregatesFilter<$PrismaModel>
+		| $Enums.SpeedEventStatus;
+	_count?: Prisma.NestedIntFilter<$PrismaModel>;
+	_min?: Prisma.NestedEnumSpeedEventStatusFilter<$PrismaModel>;
+	_max?: Prisma.NestedEnumSpeedEventStatusFilter<$PrismaModel>;
+};
+
 export type FloatFilter<$PrismaModel = never> = {
 	equals?: number | Prisma.FloatFieldRefInput<$PrismaModel>;
 	in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>;
@@ -721,6 +754,41 @@ export type NestedFloatNullableFilter<$PrismaModel = never> = {
 	not?: Prisma.NestedFloatNullableFilter<$PrismaModel> | number | null;
 };
 
+export type NestedEnumSpeedEventStatusFilter<$PrismaModel = never> = {
+	equals?:
+		| $Enums.SpeedEventStatus
+		| Prisma.EnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	in?:
+		| $Enums.SpeedEventStatus[]
+		| Prisma.ListEnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	notIn?:
+		| $Enums.SpeedEventStatus[]
+		| Prisma.ListEnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	not?:
+		| Prisma.NestedEnumSpeedEventStatusFilter<$PrismaModel>
+		| $Enums.SpeedEventStatus;
+};
+
+export type NestedEnumSpeedEventStatusWithAggregatesFilter<
+	$PrismaModel = never,
+> = {
+	equals?:
+		| $Enums.SpeedEventStatus
+		| Prisma.EnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	in?:
+		| $Enums.SpeedEventStatus[]
+		| Prisma.ListEnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	notIn?:
+		| $Enums.SpeedEventStatus[]
+		| Prisma.ListEnumSpeedEventStatusFieldRefInput<$PrismaModel>;
+	not?:
+		| Prisma.NestedEnumSpeedEventStatusWithAggregatesFilter<$PrismaModel>
+		| $Enums.SpeedEventStatus;
+	_count?: Prisma.NestedIntFilter<$PrismaModel>;
+	_min?: Prisma.NestedEnumSpeedEventStatusFilter<$PrismaModel>;
+	_max?: Prisma.NestedEnumSpeedEventStatusFilter<$PrismaModel>;
+};
+
 export type NestedFloatWithAggregatesFilter<$PrismaModel = never> = {
 	equals?: number | Prisma.FloatFieldRefInput<$PrismaModel>;
 	in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>;
@@ -20,6 +20,7 @@ export const NotificationType = {
 	SUBSCRIPTION_EXPIRING: "SUBSCRIPTION_EXPIRING",
 	SUBSCRIPTION_EXPIRED: "SUBSCRIPTION_EXPIRED",
 	MATCH_FOUND: "MATCH_FOUND",
+	SPEED_EVENT: "SPEED_EVENT",
 } as const;
 
 export type NotificationType =
@@ -32,10 +33,22 @@ export const Plan = {
 
 export type Plan = (typeof Plan)[keyof typeof Plan];
 
+export const SpeedEventStatus = {
+	SCHEDULED: "SCHEDULED",
+	RUNNING: "RUNNING",
+	LIKING: "LIKING",
+	ENDED: "ENDED",
+	CANCELLED: "CANCELLED",
+} as const;
+
+export type SpeedEventStatus =
+	(typeof SpeedEventStatus)[keyof typeof SpeedEventStatus];
+
 export const RoomType = {
 	CHAT: "CHAT",
 	CALL: "CALL",
 	VIDEO_CALL: "VIDEO_CALL",
+	GROUP_CHAT: "GROUP_CHAT",
 } as const;
 
 export type RoomType = (typeof RoomType)[keyof typeof RoomType];
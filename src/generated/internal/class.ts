@@ -19,7 +19,7 @@ const config: runtime.GetPrismaClientConfig = {
 	engineVersion: "0c8ef2ce45c83248ab3df073180d5eda9e8be7a3",
 	activeProvider: "postgresql",
 	inlineSchema:
-		'generator client {\n  provider = "prisma-client"\n  output   = "../src/generated"\n}\n\ndatasource db {\n  provider = "postgresql"\n}\n\nmodel User {\n  id            String    @id @default(uuid())\n  walletAddress String?\n  gender        String?\n  ipAddress     String?\n  avatarUrl     String?\n  interests     String[]\n  isPro         Boolean   @default(false)\n  proEnd        DateTime?\n  isBanned      Boolean   @default(false)\n  createdAt     DateTime  @default(now())\n  updatedAt     DateTime  @updatedAt\n\n  // Relations\n  initiatedCalls     Call[]             @relation("initiator_calls")\n  receivedCalls      Call[]             @relation("receiver_calls")\n  sentTexts          Text[]             @relation("sender_texts")\n  receivedTexts      Text[]             @relation("receiver_texts")\n  userFriendships    Friendship[]       @relation("user_friends")\n  friendFriendships  Friendship[]       @relation("friend_user")\n  reportsMade        Report[]           @relation("reporter")\n  reportsReceived    Report[]           @relation("reported_user")\n  leaderboardEntries LeaderboardEntry[]\n  subscriptions      Subscription[]\n  pointActivity      PointActivity[]\n  ratings            Rating[]           @relation("user_ratings")\n  ratedRatings       Rating[]           @relation("rated_user_ratings")\n  notifications      Notification[]\n  LuckyWinnerEntry   LuckyWinnerEntry[]\n  name               String\n  email              String\n  emailVerified      Boolean            @default(false)\n  image              String?\n  sessions           Session[]\n  accounts           Account[]\n\n  // username    String\n  role        String?   @default("user")\n  banned      Boolean?  @default(false)\n  banReason   String?\n  banExpires  DateTime?\n  isAnonymous Boolean?\n\n  username String?\n\n  displayUsername String?\n\n  @@unique([email])\n  @@unique([username])\n  @@map("user")\n}\n\nmodel Rating {\n  id          String   @id @default(uuid())\n  userId      String\n  ratedUserId String\n  rating      Int\n  createdAt   DateTime @default(now())\n\n  // Relations\n  user      User @relation("user_ratings", fields: [userId], references: [id])\n  ratedUser User @relation("rated_user_ratings", fields: [ratedUserId], references: [id])\n}\n\nmodel Call {\n  id               String   @id @default(uuid())\n  initiatorId      String\n  receiverId       String\n  durationSec      Int\n  startedAt        DateTime\n  endedAt          DateTime\n  ratedByInitiator Int?\n  ratedByReceiver  Int?\n\n  // Relations\n  initiator User? @relation("initiator_calls", fields: [initiatorId], references: [id])\n  receiver  User? @relation("receiver_calls", fields: [receiverId], references: [id])\n}\n\nmodel Text {\n  id String @id @default(uuid())\n\n  senderId   String?\n  receiverId String?\n\n  senderAnonId   String\n  receiverAnonId String\n\n  content String\n  sentAt  DateTime @default(now())\n  roomId  String\n\n  // Relations\n  sender   User? @relation("sender_texts", fields: [senderId], references: [id])\n  receiver User? @relation("receiver_texts", fields: [receiverId], references: [id])\n  room     Room  @relation(fields: [roomId], references: [id])\n}\n\nmodel Friendship {\n  id        String   @id @default(uuid())\n  userId    String\n  friendId  String\n  accepted  Boolean  @default(false)\n  createdAt DateTime @default(now())\n\n  user   User @relation("user_friends", fields: [userId], references: [id], onDelete: Cascade)\n  friend User @relation("friend_user", fields: [friendId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, friendId])\n}\n\nmodel Report {\n  id             String   @id @default(uuid())\n  reporterId     String\n  reportedUserId String\n  reason         String\n  createdAt      DateTime @default(now())\n\n  // Relations\n  reporter     User @relation("reporter", fields: [reporterId], references: [id])\n  reportedUser User @relation("reported_user", fields: [reportedUserId], references: [id])\n}\n\nmodel LeaderboardEntry {\n  id       String   @id @default(uuid())\n  userId   String\n  date     DateTime\n  score    Float\n  eligible Boolean  @default(true)\n\n  // Relations\n  user User @relation(fields: [userId], references: [id])\n\n  @@unique([userId, date])\n}\n\nmodel LuckyWinnerEntry {\n  id        String   @id @default(uuid())\n  userId    String\n  createdAt DateTime @default(now())\n\n  // Relations\n  user User @relation(fields: [userId], references: [id])\n}\n\nmodel Subscription {\n  id        String   @id @default(uuid())\n  userId    String\n  plan      Plan\n  startedAt DateTime @default(now())\n  expiresAt DateTime\n  paymentId String?  @unique\n\n  // Relations\n  user User @relation(fields: [userId], references: [id])\n}\n\nmodel Room {\n  id          String   @id @default(uuid())\n  type        RoomType\n  user1Id     String? // references User\n  anonUser1Id String? // fallback for anonymous user\n  user2Id     String?\n  anonUser2Id String?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  messages Text[]\n\n  @@index([user1Id])\n  @@index([user2Id])\n  @@index([anonUser1Id])\n  @@index([anonUser2Id])\n}\n\nmodel PointActivity {\n  id        String   @id @default(uuid())\n  userId    String\n  point     Int\n  createdAt DateTime @default(now())\n  User      User     @relation(fields: [userId], references: [id])\n}\n\nmodel Notification {\n  id        String               @id @default(uuid())\n  userId    String\n  type      NotificationType\n  title     String\n  message   String\n  data      Json? // Additional data for the notification\n  isSent    Boolean              @default(false) // read is handled by the client\n  createdAt DateTime             @default(now())\n  sentAt    DateTime?\n  readAt    DateTime?\n  priority  NotificationPriority @default(NORMAL)\n\n  // Relations\n  user User @relation(fields: [userId], references: [id])\n\n  @@index([userId])\n  @@index([createdAt])\n}\n\nenum NotificationType {\n  FRIEND_REQUEST\n  FRIEND_ACCEPTED\n  NEW_MESSAGE\n  CALL_INCOMING\n  CALL_MISSED\n  SYSTEM_ANNOUNCEMENT\n  POINTS_EARNED\n  ACHIEVEMENT_UNLOCKED\n  SUBSCRIPTION_EXPIRING\n  SUBSCRIPTION_EXPIRED\n  MATCH_FOUND\n}\n\nenum Plan {\n  MONTHLY\n  YEARLY\n}\n\nenum RoomType {\n  CHAT\n  CALL\n  VIDEO_CALL\n}\n\nmodel Session {\n  id        String   @id\n  expiresAt DateTime\n  token     String\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n  ipAddress String?\n  userAgent String?\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  impersonatedBy String?\n\n  @@unique([token])\n  @@index([userId])\n  @@map("session")\n}\n\nmodel Account {\n  id                    String    @id\n  accountId             String\n  providerId            String\n  userId                String\n  user                  User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  accessToken           String?\n  refreshToken          String?\n  idToken               String?\n  accessTokenExpiresAt  DateTime?\n  refreshTokenExpiresAt DateTime?\n  scope                 String?\n  password              String?\n  createdAt             DateTime  @default(now())\n  updatedAt             DateTime  @updatedAt\n\n  @@index([userId])\n  @@map("account")\n}\n\nmodel Verification {\n  id         String   @id\n  identifier String\n  value      String\n  expiresAt  DateTime\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @default(now()) @updatedAt\n\n  @@index([identifier])\n  @@map("verification")\n}\n\nenum NotificationPriority {\n  LOW\n  NORMAL\n  HIGH\n}\n',
+		'generator client {\n  provider = "prisma-client"\n  output   = "../src/generated"\n}\n\ndatasource db {\n  provider = "postgresql"\n}\n\nmodel User {\n  id            String    @id @default(uuid())\n  walletAddress String?\n  gender        String?\n  ipAddress     String?\n  avatarUrl     String?\n  interests     String[]\n  isPro         Boolean   @default(false)\n  proEnd        DateTime?\n  isBanned      Boolean   @default(false)\n  createdAt     DateTime  @default(now())\n  updatedAt     DateTime  @updatedAt\n\n  // Relations\n  initiatedCalls     Call[]                   @relation("initiator_calls")\n  receivedCalls      Call[]                   @relation("receiver_calls")\n  sentTexts          Text[]                   @relation("sender_texts")\n  receivedTexts      Text[]                   @relation("receiver_texts")\n  userFriendships    Friendship[]             @relation("user_friends")\n  friendFriendships  Friendship[]             @relation("friend_user")\n  reportsMade        Report[]                 @relation("reporter")\n  reportsReceived    Report[]                 @relation("reported_user")\n  leaderboardEntries LeaderboardEntry[]\n  subscriptions      Subscription[]\n  pointActivity      PointActivity[]\n  ratings            Rating[]                 @relation("user_ratings")\n  ratedRatings       Rating[]                 @relation("rated_user_ratings")\n  blocksMade         Block[]                  @relation("blocker")\n  blockedBy          Block[]                  @relation("blocked_user")\n  notifications      Notification[]\n  LuckyWinnerEntry   LuckyWinnerEntry[]\n  speedEvents        SpeedEventRegistration[]\n  name               String\n  email              String\n  emailVerified      Boolean                  @default(false)\n  image              String?\n  sessions           Session[]\n  accounts           Account[]\n\n  // username    String\n  role        String?   @default("user")\n  banned      Boolean?  @default(false)\n  banReason   String?\n  banExpires  DateTime?\n  isAnonymous Boolean?\n\n  username String?\n\n  displayUsername String?\n\n  @@unique([email])\n  @@unique([username])\n  @@map("user")\n}\n\nmodel Rating {\n  id          String   @id @default(uuid())\n  userId      String\n  ratedUserId String\n  rating      Int\n  createdAt   DateTime @default(now())\n\n  // Relations\n  user      User @relation("user_ratings", fields: [userId], references: [id])\n  ratedUser User @relation("rated_user_ratings", fields: [ratedUserId], references: [id])\n}\n\nmodel Call {\n  id               String   @id @default(uuid())\n  initiatorId      String\n  receiverId       String\n  durationSec      Int\n  startedAt        DateTime\n  endedAt          DateTime\n  ratedByInitiator Int?\n  ratedByReceiver  Int?\n\n  // Relations\n  initiator User? @relation("initiator_calls", fields: [initiatorId], references: [id])\n  receiver  User? @relation("receiver_calls", fields: [receiverId], references: [id])\n}\n\nmodel Text {\n  id String @id @default(uuid())\n\n  senderId   String?\n  receiverId String?\n\n  senderAnonId   String\n  receiverAnonId String\n\n  content   String\n  sentAt    DateTime  @default(now())\n  editedAt  DateTime?\n  // Deleted messages keep their row with the content cleared\n  deletedAt DateTime?\n  roomId    String\n  // The message this one replies to, always from the same room\n  replyToId String?\n\n  // Relations\n  sender   User?      @relation("sender_texts", fields: [senderId], references: [id])\n  receiver User?      @relation("receiver_texts", fields: [receiverId], references: [id])\n  room     Room       @relation(fields: [roomId], references: [id])\n  edits    TextEdit[]\n  replyTo  Text?      @relation("text_replies", fields: [replyToId], references: [id], onDelete: SetNull)\n  replies  Text[]     @relation("text_replies")\n\n  @@index([replyToId])\n}\n\n// One user\'s emoji on a message. Not tied to Text, since friend chats and the\n// general room keep their messages in Redis.\nmodel MessageReaction {\n  id        String   @id @default(uuid())\n  roomId    String\n  messageId String\n  // User id, or the room token\'s id for anonymous users\n  userId    String\n  emoji     String\n  createdAt DateTime @default(now())\n\n  @@unique([messageId, userId, emoji])\n  @@index([messageId])\n}\n\n// How far a user has read in a room; one row per user per room\nmodel ReadReceipt {\n  id            String   @id @default(uuid())\n  roomId        String\n  // User id, or the room token\'s id for anonymous users\n  userId        String\n  lastMessageId String\n  // When that message was sent, so the pointer only moves forward\n  lastSentAt    DateTime\n  readAt        DateTime @default(now())\n\n  @@unique([roomId, userId])\n  @@index([roomId])\n}\n\n// Earlier versions of an edited message, newest last\nmodel TextEdit {\n  id       String   @id @default(uuid())\n  textId   String\n  content  String\n  editedAt DateTime @default(now())\n\n  text Text @relation(fields: [textId], references: [id], onDelete: Cascade)\n\n  @@index([textId])\n}\n\nmodel Friendship {\n  id        String   @id @default(uuid())\n  userId    String\n  friendId  String\n  accepted  Boolean  @default(false)\n  createdAt DateTime @default(now())\n\n  user   User @relation("user_friends", fields: [userId], references: [id], onDelete: Cascade)\n  friend User @relation("friend_user", fields: [friendId], references: [id], onDelete: Cascade)\n\n  @@unique([userId, friendId])\n}\n\nmodel Report {\n  id             String   @id @default(uuid())\n  reporterId     String\n  reportedUserId String\n  reason         String\n  createdAt      DateTime @default(now())\n\n  // Relations\n  reporter     User @relation("reporter", fields: [reporterId], references: [id])\n  reportedUser User @relation("reported_user", fields: [reportedUserId], references: [id])\n}\n\nmodel Block {\n  id        String   @id @default(uuid())\n  blockerId String\n  blockedId String\n  createdAt DateTime @default(now())\n\n  // Relations\n  blocker User @relation("blocker", fields: [blockerId], references: [id], onDelete: Cascade)\n  blocked User @relation("blocked_user", fields: [blockedId], references: [id], onDelete: Cascade)\n\n  @@unique([blockerId, blockedId])\n  @@index([blockedId])\n}\n\n// Admin-scheduled speed chat: registered users meet a new partner every round\nmodel SpeedEvent {\n  id             String           @id @default(uuid())\n  topic          String\n  startsAt       DateTime\n  endsAt         DateTime\n  roundLengthSec Int\n  capacity       Int\n  status         SpeedEventStatus @default(SCHEDULED)\n  currentRound   Int              @default(0)\n  roundEndsAt    DateTime?\n  likesCloseAt   DateTime?\n  createdById    String\n  createdAt      DateTime         @default(now())\n  updatedAt      DateTime         @updatedAt\n\n  // Relations\n  registrations SpeedEventRegistration[]\n  pairings      SpeedEventPairing[]\n  likes         SpeedEventLike[]\n\n  @@index([status, startsAt])\n}\n\nmodel SpeedEventRegistration {\n  id        String   @id @default(uuid())\n  eventId   String\n  userId    String\n  createdAt DateTime @default(now())\n\n  // Relations\n  event SpeedEvent @relation(fields: [eventId], references: [id], onDelete: Cascade)\n  user  User       @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([eventId, userId])\n  @@index([userId])\n}\n\nmodel SpeedEventPairing {\n  id        String   @id @default(uuid())\n  eventId   String\n  round     Int\n  user1Id   String\n  user2Id   String\n  roomId    String\n  createdAt DateTime @default(now())\n\n  // Relations\n  event SpeedEvent @relation(fields: [eventId], references: [id], onDelete: Cascade)\n\n  @@index([eventId, round])\n}\n\n// "Talk again" picks from the end of an event; mutual picks become friend requests\nmodel SpeedEventLike {\n  id          String   @id @default(uuid())\n  eventId     String\n  userId      String\n  likedUserId String\n  createdAt   DateTime @default(now())\n\n  // Relations\n  event SpeedEvent @relation(fields: [eventId], references: [id], onDelete: Cascade)\n\n  @@unique([eventId, userId, likedUserId])\n  @@index([eventId, likedUserId])\n}\n\n// Canonical interests; free-form input is mapped onto these by slug or alias\nmodel Interest {\n  id        String   @id @default(uuid())\n  slug      String   @unique\n  name      String\n  category  String\n  aliases   String[]\n  isActive  Boolean  @default(true)\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([category])\n}\n\nmodel LeaderboardEntry {\n  id       String   @id @default(uuid())\n  userId   String\n  date     DateTime\n  score    Float\n  eligible Boolean  @default(true)\n\n  // Relations\n  user User @relation(fields: [userId], references: [id])\n\n  @@unique([userId, date])\n}\n\nmodel LuckyWinnerEntry {\n  id        String   @id @default(uuid())\n  userId    String\n  createdAt DateTime @default(now())\n\n  // Relations\n  user User @relation(fields: [userId], references: [id])\n}\n\nmodel Subscription {\n  id        String   @id @default(uuid())\n  userId    String\n  plan      Plan\n  startedAt DateTime @default(now())\n  expiresAt DateTime\n  paymentId String?  @unique\n\n  // Relations\n  user User @relation(fields: [userId], references: [id])\n}\n\nmodel Room {\n  id          String   @id @default(uuid())\n  type        RoomType\n  user1Id     String? // references User\n  anonUser1Id String? // fallback for anonymous user\n  user2Id     String?\n  anonUser2Id String?\n  // Shared interest a group room was formed around\n  topic       String?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  messages     Text[]\n  participants RoomParticipant[]\n\n  @@index([user1Id])\n  @@index([user2Id])\n  @@index([anonUser1Id])\n  @@index([anonUser2Id])\n}\n\n// Members of a room; group rooms have no fixed user1/user2\nmodel RoomParticipant {\n  id       String    @id @default(uuid())\n  roomId   String\n  userId   String? // references User\n  anonId   String // fallback for anonymous user\n  joinedAt DateTime  @default(now())\n  leftAt   DateTime?\n\n  room Room @relation(fields: [roomId], references: [id], onDelete: Cascade)\n\n  @@unique([roomId, anonId])\n  @@index([userId])\n  @@index([anonId])\n}\n\nmodel PointActivity {\n  id        String   @id @default(uuid())\n  userId    String\n  point     Int\n  createdAt DateTime @default(now())\n  User      User     @relation(fields: [userId], references: [id])\n}\n\nmodel Notification {\n  id        String               @id @default(uuid())\n  userId    String\n  type      NotificationType\n  title     String\n  message   String\n  data      Json? // Additional data for the notification\n  isSent    Boolean              @default(false) // read is handled by the client\n  createdAt DateTime             @default(now())\n  sentAt    DateTime?\n  readAt    DateTime?\n  priority  NotificationPriority @default(NORMAL)\n\n  // Relations\n  user User @relation(fields: [userId], references: [id])\n\n  @@index([userId])\n  @@index([createdAt])\n}\n\nenum NotificationType {\n  FRIEND_REQUEST\n  FRIEND_ACCEPTED\n  NEW_MESSAGE\n  CALL_INCOMING\n  CALL_MISSED\n  SYSTEM_ANNOUNCEMENT\n  POINTS_EARNED\n  ACHIEVEMENT_UNLOCKED\n  SUBSCRIPTION_EXPIRING\n  SUBSCRIPTION_EXPIRED\n  MATCH_FOUND\n  SPEED_EVENT\n}\n\nenum Plan {\n  MONTHLY\n  YEARLY\n}\n\nenum SpeedEventStatus {\n  SCHEDULED\n  RUNNING\n  // Rounds are over and users pick who they would like to talk to again\n  LIKING\n  ENDED\n  CANCELLED\n}\n\nenum RoomType {\n  CHAT\n  CALL\n  VIDEO_CALL\n  GROUP_CHAT\n}\n\nmodel Session {\n  id        String   @id\n  expiresAt DateTime\n  token     String\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n  ipAddress String?\n  userAgent String?\n  userId    String\n  user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  impersonatedBy String?\n\n  @@unique([token])\n  @@index([userId])\n  @@map("session")\n}\n\nmodel Account {\n  id                    String    @id\n  accountId             String\n  providerId            String\n  userId                String\n  user                  User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  accessToken           String?\n  refreshToken          String?\n  idToken               String?\n  accessTokenExpiresAt  DateTime?\n  refreshTokenExpiresAt DateTime?\n  scope                 String?\n  password              String?\n  createdAt             DateTime  @default(now())\n  updatedAt             DateTime  @updatedAt\n\n  @@index([userId])\n  @@map("account")\n}\n\nmodel Verification {\n  id         String   @id\n  identifier String\n  value      String\n  expiresAt  DateTime\n  createdAt  DateTime @default(now())\n  updatedAt  DateTime @default(now()) @updatedAt\n\n  @@index([identifier])\n  @@map("verification")\n}\n\nenum NotificationPriority {\n  LOW\n  NORMAL\n  HIGH\n}\n',
 	runtimeDataModel: {
 		models: {},
 		enums: {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
 };
 
 config.runtimeDataModel = JSON.parse(
-	'{"models":{"User":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"walletAddress","kind":"scalar","type":"String"},{"name":"gender","kind":"scalar","type":"String"},{"name":"ipAddress","kind":"scalar","type":"String"},{"name":"avatarUrl","kind":"scalar","type":"String"},{"name":"interests","kind":"scalar","type":"String"},{"name":"isPro","kind":"scalar","type":"Boolean"},{"name":"proEnd","kind":"scalar","type":"DateTime"},{"name":"isBanned","kind":"scalar","type":"Boolean"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"initiatedCalls","kind":"object","type":"Call","relationName":"initiator_calls"},{"name":"receivedCalls","kind":"object","type":"Call","relationName":"receiver_calls"},{"name":"sentTexts","kind":"object","type":"Text","relationName":"sender_texts"},{"name":"receivedTexts","kind":"object","type":"Text","relationName":"receiver_texts"},{"name":"userFriendships","kind":"object","type":"Friendship","relationName":"user_friends"},{"name":"friendFriendships","kind":"object","type":"Friendship","relationName":"friend_user"},{"name":"reportsMade","kind":"object","type":"Report","relationName":"reporter"},{"name":"reportsReceived","kind":"object","type":"Report","relationName":"reported_user"},{"name":"leaderboardEntries","kind":"object","type":"LeaderboardEntry","relationName":"LeaderboardEntryToUser"},{"name":"subscriptions","kind":"object","type":"Subscription","relationName":"SubscriptionToUser"},{"name":"pointActivity","kind":"object","type":"PointActivity","relationName":"PointActivityToUser"},{"name":"ratings","kind":"object","type":"Rating","relationName":"user_ratings"},{"name":"ratedRatings","kind":"object","type":"Rating","relationName":"rated_user_ratings"},{"name":"notifications","kind":"object","type":"Notification","relationName":"NotificationToUser"},{"name":"LuckyWinnerEntry","kind":"object","type":"LuckyWinnerEntry","relationName":"LuckyWinnerEntryToUser"},{"name":"name","kind":"scalar","type":"String"},{"name":"email","kind":"scalar","type":"String"},{"name":"emailVerified","kind":"scalar","type":"Boolean"},{"name":"image","kind":"scalar","type":"String"},{"name":"sessions","kind":"object","type":"Session","relationName":"SessionToUser"},{"name":"accounts","kind":"object","type":"Account","relationName":"AccountToUser"},{"name":"role","kind":"scalar","type":"String"},{"name":"banned","kind":"scalar","type":"Boolean"},{"name":"banReason","kind":"scalar","type":"String"},{"name":"banExpires","kind":"scalar","type":"DateTime"},{"name":"isAnonymous","kind":"scalar","type":"Boolean"},{"name":"username","kind":"scalar","type":"String"},{"name":"displayUsername","kind":"scalar","type":"String"}],"dbName":"user"},"Rating":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"ratedUserId","kind":"scalar","type":"String"},{"name":"rating","kind":"scalar","type":"Int"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"user","kind":"object","type":"User","relationName":"user_ratings"},{"name":"ratedUser","kind":"object","type":"User","relationName":"rated_user_ratings"}],"dbName":null},"Call":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"initiatorId","kind":"scalar","type":"String"},{"name":"receiverId","kind":"scalar","type":"String"},{"name":"durationSec","kind":"scalar","type":"Int"},{"name":"startedAt","kind":"scalar","type":"DateTime"},{"name":"endedAt","kind":"scalar","type":"DateTime"},{"name":"ratedByInitiator","kind":"scalar","type":"Int"},{"name":"ratedByReceiver","kind":"scalar","type":"Int"},{"name":"initiator","kind":"object","type":"User","relationName":"initiator_calls"},{"name":"receiver","kind":"object","type":"User","relationName":"receiver_calls"}],"dbName":null},"Text":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"senderId","kind":"scalar","type":"String"},{"name":"receiverId","kind":"scalar","type":"String"},{"name":"senderAnonId","kind":"scalar","type":"String"},{"name":"receiverAnonId","kind":"scalar","type":"String"},{"name":"content","kind":"scalar","type":"String"},{"name":"sentAt","kind":"scalar","type":"DateTime"},{"name":"roomId","kind":"scalar","type":"String"},{"name":"sender","kind":"object","type":"User","relationName":"sender_texts"},{"name":"receiver","kind":"object","type":"User","relationName":"receiver_texts"},{"name":"room","kind":"object","type":"Room","relationName":"RoomToText"}],"dbName":null},"Friendship":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"friendId","kind":"scalar","type":"String"},{"name":"accepted","kind":"scalar","type":"Boolean"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"user","kind":"object","type":"User","relationName":"user_friends"},{"name":"friend","kind":"object","type":"User","relationName":"friend_user"}],"dbName":null},"Report":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"reporterId","kind":"scalar","type":"String"},{"name":"reportedUserId","kind":"scalar","type":"String"},{"name":"reason","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"reporter","kind":"object","type":"User","relationName":"reporter"},{"name":"reportedUser","kind":"object","type":"User","relationName":"reported_user"}],"dbName":null},"LeaderboardEntry":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"date","kind":"scalar","type":"DateTime"},{"name":"score","kind":"scalar","type":"Float"},{"name":"eligible","kind":"scalar","type":"Boolean"},{"name":"user","kind":"object","type":"User","relationName":"LeaderboardEntryToUser"}],"dbName":null},"LuckyWinnerEntry":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"user","kind":"object","type":"User","relationName":"LuckyWinnerEntryToUser"}],"dbName":null},"Subscription":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"plan","kind":"enum","type":"Plan"},{"name":"startedAt","kind":"scalar","type":"DateTime"},{"name":"expiresAt","kind":"scalar","type":"DateTime"},{"name":"paymentId","kind":"scalar","type":"String"},{"name":"user","kind":"object","type":"User","relationName":"SubscriptionToUser"}],"dbName":null},"Room":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"type","kind":"enum","type":"RoomType"},{"name":"user1Id","kind":"scalar","type":"String"},{"name":"anonUser1Id","kind":"scalar","type":"String"},{"name":"user2Id","kind":"scalar","type":"String"},{"name":"anonUser2Id","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"messages","kind":"object","type":"Text","relationName":"RoomToText"}],"dbName":null},"PointActivity":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"point","kind":"scalar","type":"Int"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"User","kind":"object","type":"User","relationName":"PointActivityToUser"}],"dbName":null},"Notification":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"type","kind":"enum","type":"NotificationType"},{"name":"title","kind":"scalar","type":"String"},{"name":"message","kind":"scalar","type":"String"},{"name":"data","kind":"scalar","type":"Json"},{"name":"isSent","kind":"scalar","type":"Boolean"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"sentAt","kind":"scalar","type":"DateTime"},{"name":"readAt","kind":"scalar","type":"DateTime"},{"name":"priority","kind":"enum","type":"NotificationPriority"},{"name":"user","kind":"object","type":"User","relationName":"NotificationToUser"}],"dbName":null},"Session":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"expiresAt","kind":"scalar","type":"DateTime"},{"name":"token","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"ipAddress","kind":"scalar","type":"String"},{"name":"userAgent","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"user","kind":"object","type":"User","relationName":"SessionToUser"},{"name":"impersonatedBy","kind":"scalar","type":"String"}],"dbName":"session"},"Account":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"accountId","kind":"scalar","type":"String"},{"name":"providerId","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"user","kind":"object","type":"User","relationName":"AccountToUser"},{"name":"accessToken","kind":"scalar","type":"String"},{"name":"refreshToken","kind":"scalar","type":"String"},{"name":"idToken","kind":"scalar","type":"String"},{"name":"accessTokenExpiresAt","kind":"scalar","type":"DateTime"},{"name":"refreshTokenExpiresAt","kind":"scalar","type":"DateTime"},{"name":"scope","kind":"scalar","type":"String"},{"name":"password","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"}],"dbName":"account"},"Verification":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"identifier","kind":"scalar","type":"String"},{"name":"value","kind":"scalar","type":"String"},{"name":"expiresAt","kind":"scalar","type":"DateTime"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"}],"dbName":"verification"}},"enums":{},"types":{}}',
+	'{"models":{"User":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"walletAddress","kind":"scalar","type":"String"},{"name":"gender","kind":"scalar","type":"String"},{"name":"ipAddress","kind":"scalar","type":"String"},{"name":"avatarUrl","kind":"scalar","type":"String"},{"name":"interests","kind":"scalar","type":"String"},{"name":"isPro","kind":"scalar","type":"Boolean"},{"name":"proEnd","kind":"scalar","type":"DateTime"},{"name":"isBanned","kind":"scalar","type":"Boolean"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"initiatedCalls","kind":"object","type":"Call","relationName":"initiator_calls"},{"name":"receivedCalls","kind":"object","type":"Call","relationName":"receiver_calls"},{"name":"sentTexts","kind":"object","type":"Text","relationName":"sender_texts"},{"name":"receivedTexts","kind":"object","type":"Text","relationName":"receiver_texts"},{"name":"userFriendships","kind":"object","type":"Friendship","relationName":"user_friends"},{"name":"friendFriendships","kind":"object","type":"Friendship","relationName":"friend_user"},{"name":"reportsMade","kind":"object","type":"Report","relationName":"reporter"},{"name":"reportsReceived","kind":"object","type":"Report","relationName":"reported_user"},{"name":"leaderboardEntries","kind":"object","type":"LeaderboardEntry","relationName":"LeaderboardEntryToUser"},{"name":"subscriptions","kind":"object","type":"Subscription","relationName":"SubscriptionToUser"},{"name":"pointActivity","kind":"object","type":"PointActivity","relationName":"PointActivityToUser"},{"name":"ratings","kind":"object","type":"Rating","relationName":"user_ratings"},{"name":"ratedRatings","kind":"object","type":"Rating","relationName":"rated_user_ratings"},{"name":"blocksMade","kind":"object","type":"Block","relationName":"blocker"},{"name":"blockedBy","kind":"object","type":"Block","relationName":"blocked_user"},{"name":"notifications","kind":"object","type":"Notification","relationName":"NotificationToUser"},{"name":"LuckyWinnerEntry","kind":"object","type":"LuckyWinnerEntry","relationName":"LuckyWinnerEntryToUser"},{"name":"speedEvents","kind":"object","type":"SpeedEventRegistration","relationName":"SpeedEventRegistrationToUser"},{"name":"name","kind":"scalar","type":"String"},{"name":"email","kind":"scalar","type":"String"},{"name":"emailVerified","kind":"scalar","type":"Boolean"},{"name":"image","kind":"scalar","type":"String"},{"name":"sessions","kind":"object","type":"Session","relationName":"SessionToUser"},{"name":"accounts","kind":"object","type":"Account","relationName":"AccountToUser"},{"name":"role","kind":"scalar","type":"String"},{"name":"banned","kind":"scalar","type":"Boolean"},{"name":"banReason","kind":"scalar","type":"String"},{"name":"banExpires","kind":"scalar","type":"DateTime"},{"name":"isAnonymous","kind":"scalar","type":"Boolean"},{"name":"username","kind":"scalar","type":"String"},{"name":"displayUsername","kind":"scalar","type":"String"}],"dbName":"user"},"Rating":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"ratedUserId","kind":"scalar","type":"String"},{"name":"rating","kind":"scalar","type":"Int"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"user","kind":"object","type":"User","relationName":"user_ratings"},{"name":"ratedUser","kind":"object","type":"User","relationName":"rated_user_ratings"}],"dbName":null},"Call":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"initiatorId","kind":"scalar","type":"String"},{"name":"receiverId","kind":"scalar","type":"String"},{"name":"durationSec","kind":"scalar","type":"Int"},{"name":"startedAt","kind":"scalar","type":"DateTime"},{"name":"endedAt","kind":"scalar","type":"DateTime"},{"name":"ratedByInitiator","kind":"scalar","type":"Int"},{"name":"ratedByReceiver","kind":"scalar","type":"Int"},{"name":"initiator","kind":"object","type":"User","relationName":"initiator_calls"},{"name":"receiver","kind":"object","type":"User","relationName":"receiver_calls"}],"dbName":null},"Text":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"senderId","kind":"scalar","type":"String"},{"name":"receiverId","kind":"scalar","type":"String"},{"name":"senderAnonId","kind":"scalar","type":"String"},{"name":"receiverAnonId","kind":"scalar","type":"String"},{"name":"content","kind":"scalar","type":"String"},{"name":"sentAt","kind":"scalar","type":"DateTime"},{"name":"editedAt","kind":"scalar","type":"DateTime"},{"name":"deletedAt","kind":"scalar","type":"DateTime"},{"name":"roomId","kind":"scalar","type":"String"},{"name":"replyToId","kind":"scalar","type":"String"},{"name":"sender","kind":"object","type":"User","relationName":"sender_texts"},{"name":"receiver","kind":"object","type":"User","relationName":"receiver_texts"},{"name":"room","kind":"object","type":"Room","relationName":"RoomToText"},{"name":"edits","kind":"object","type":"TextEdit","relationName":"TextToTextEdit"},{"name":"replyTo","kind":"object","type":"Text","relationName":"text_replies"},{"name":"replies","kind":"object","type":"Text","relationName":"text_replies"}],"dbName":null},"MessageReaction":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"roomId","kind":"scalar","type":"String"},{"name":"messageId","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"emoji","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"}],"dbName":null},"ReadReceipt":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"roomId","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"lastMessageId","kind":"scalar","type":"String"},{"name":"lastSentAt","kind":"scalar","type":"DateTime"},{"name":"readAt","kind":"scalar","type":"DateTime"}],"dbName":null},"TextEdit":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"textId","kind":"scalar","type":"String"},{"name":"content","kind":"scalar","type":"String"},{"name":"editedAt","kind":"scalar","type":"DateTime"},{"name":"text","kind":"object","type":"Text","relationName":"TextToTextEdit"}],"dbName":null},"Friendship":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"friendId","kind":"scalar","type":"String"},{"name":"accepted","kind":"scalar","type":"Boolean"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"user","kind":"object","type":"User","relationName":"user_friends"},{"name":"friend","kind":"object","type":"User","relationName":"friend_user"}],"dbName":null},"Report":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"reporterId","kind":"scalar","type":"String"},{"name":"reportedUserId","kind":"scalar","type":"String"},{"name":"reason","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"reporter","kind":"object","type":"User","relationName":"reporter"},{"name":"reportedUser","kind":"object","type":"User","relationName":"reported_user"}],"dbName":null},"Block":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"blockerId","kind":"scalar","type":"String"},{"name":"blockedId","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"blocker","kind":"object","type":"User","relationName":"blocker"},{"name":"blocked","kind":"object","type":"User","relationName":"blocked_user"}],"dbName":null},"SpeedEvent":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"topic","kind":"scalar","type":"String"},{"name":"startsAt","kind":"scalar","type":"DateTime"},{"name":"endsAt","kind":"scalar","type":"DateTime"},{"name":"roundLengthSec","kind":"scalar","type":"Int"},{"name":"capacity","kind":"scalar","type":"Int"},{"name":"status","kind":"enum","type":"SpeedEventStatus"},{"name":"currentRound","kind":"scalar","type":"Int"},{"name":"roundEndsAt","kind":"scalar","type":"DateTime"},{"name":"likesCloseAt","kind":"scalar","type":"DateTime"},{"name":"createdById","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"registrations","kind":"object","type":"SpeedEventRegistration","relationName":"SpeedEventToSpeedEventRegistration"},{"name":"pairings","kind":"object","type":"SpeedEventPairing","relationName":"SpeedEventToSpeedEventPairing"},{"name":"likes","kind":"object","type":"SpeedEventLike","relationName":"SpeedEventToSpeedEventLike"}],"dbName":null},"SpeedEventRegistration":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"eventId","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"event","kind":"object","type":"SpeedEvent","relationName":"SpeedEventToSpeedEventRegistration"},{"name":"user","kind":"object","type":"User","relationName":"SpeedEventRegistrationToUser"}],"dbName":null},"SpeedEventPairing":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"eventId","kind":"scalar","type":"String"},{"name":"round","kind":"scalar","type":"Int"},{"name":"user1Id","kind":"scalar","type":"String"},{"name":"user2Id","kind":"scalar","type":"String"},{"name":"roomId","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"event","kind":"object","type":"SpeedEvent","relationName":"SpeedEventToSpeedEventPairing"}],"dbName":null},"SpeedEventLike":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"eventId","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"likedUserId","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"event","kind":"object","type":"SpeedEvent","relationName":"SpeedEventToSpeedEventLike"}],"dbName":null},"Interest":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"slug","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"category","kind":"scalar","type":"String"},{"name":"aliases","kind":"scalar","type":"String"},{"name":"isActive","kind":"scalar","type":"Boolean"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"}],"dbName":null},"LeaderboardEntry":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"date","kind":"scalar","type":"DateTime"},{"name":"score","kind":"scalar","type":"Float"},{"name":"eligible","kind":"scalar","type":"Boolean"},{"name":"user","kind":"object","type":"User","relationName":"LeaderboardEntryToUser"}],"dbName":null},"LuckyWinnerEntry":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"user","kind":"object","type":"User","relationName":"LuckyWinnerEntryToUser"}],"dbName":null},"Subscription":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"plan","kind":"enum","type":"Plan"},{"name":"startedAt","kind":"scalar","type":"DateTime"},{"name":"expiresAt","kind":"scalar","type":"DateTime"},{"name":"paymentId","kind":"scalar","type":"String"},{"name":"user","kind":"object","type":"User","relationName":"SubscriptionToUser"}],"dbName":null},"Room":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"type","kind":"enum","type":"RoomType"},{"name":"user1Id","kind":"scalar","type":"String"},{"name":"anonUser1Id","kind":"scalar","type":"String"},{"name":"user2Id","kind":"scalar","type":"String"},{"name":"anonUser2Id","kind":"scalar","type":"String"},{"name":"topic","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"messages","kind":"object","type":"Text","relationName":"RoomToText"},{"name":"participants","kind":"object","type":"RoomParticipant","relationName":"RoomToRoomParticipant"}],"dbName":null},"RoomParticipant":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"roomId","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"anonId","kind":"scalar","type":"String"},{"name":"joinedAt","kind":"scalar","type":"DateTime"},{"name":"leftAt","kind":"scalar","type":"DateTime"},{"name":"room","kind":"object","type":"Room","relationName":"RoomToRoomParticipant"}],"dbName":null},"PointActivity":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"point","kind":"scalar","type":"Int"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"User","kind":"object","type":"User","relationName":"PointActivityToUser"}],"dbName":null},"Notification":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"type","kind":"enum","type":"NotificationType"},{"name":"title","kind":"scalar","type":"String"},{"name":"message","kind":"scalar","type":"String"},{"name":"data","kind":"scalar","type":"Json"},{"name":"isSent","kind":"scalar","type":"Boolean"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"sentAt","kind":"scalar","type":"DateTime"},{"name":"readAt","kind":"scalar","type":"DateTime"},{"name":"priority","kind":"enum","type":"NotificationPriority"},{"name":"user","kind":"object","type":"User","relationName":"NotificationToUser"}],"dbName":null},"Session":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"expiresAt","kind":"scalar","type":"DateTime"},{"name":"token","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"ipAddress","kind":"scalar","type":"String"},{"name":"userAgent","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"user","kind":"object","type":"User","relationName":"SessionToUser"},{"name":"impersonatedBy","kind":"scalar","type":"String"}],"dbName":"session"},"Account":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"accountId","kind":"scalar","type":"String"},{"name":"providerId","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"user","kind":"object","type":"User","relationName":"AccountToUser"},{"name":"accessToken","kind":"scalar","type":"String"},{"name":"refreshToken","kind":"scalar","type":"String"},{"name":"idToken","kind":"scalar","type":"String"},{"name":"accessTokenExpiresAt","kind":"scalar","type":"DateTime"},{"name":"refreshTokenExpiresAt","kind":"scalar","type":"DateTime"},{"name":"scope","kind":"scalar","type":"String"},{"name":"password","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"}],"dbName":"account"},"Verification":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"identifier","kind":"scalar","type":"String"},{"name":"value","kind":"scalar","type":"String"},{"name":"expiresAt","kind":"scalar","type":"DateTime"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"}],"dbName":"verification"}},"enums":{},"types":{}}',
 );
 
 async function decodeBase64AsWasm(
@@ -266,6 +266,39 @@ export interface PrismaClient<
 	 */
 	get text(): Prisma.TextDelegate<ExtArgs, { omit: OmitOpts }>;
 
+	/**
+	 * `prisma.messageReaction`: Exposes CRUD operations for the **MessageReaction** model.
+	 * Example usage:
+	 * ```ts
+	 * // Fetch zero or more MessageReactions
+	 * const messageReactions = await prisma.messageReaction.findMany()
+	 * ```
+	 */
+	get messageReaction(): Prisma.MessageReactionDelegate<
+		ExtArgs,
+		{ omit: OmitOpts }
+	>;
+
+	/**
+	 * `prisma.readReceipt`: Exposes CRUD operations for the **ReadReceipt** model.
+	 * Example usage:
+	 * ```ts
+	 * // Fetch zero or more ReadReceipts
+	 * const readReceipts = await prisma.readReceipt.findMany()
+	 * ```
+	 */
+	get readReceipt(): Prisma.ReadReceiptDelegate<ExtArgs, { omit: OmitOpts }>;
+
+	/**
+	 * `prisma.textEdit`: Exposes CRUD operations for the **TextEdit** model.
+	 * Example usage:
+	 * ```ts
+	 * // Fetch zero or more TextEdits
+	 * const textEdits = await prisma.textEdit.findMany()
+	 * ```
+	 */
+	get textEdit(): Prisma.TextEditDelegate<ExtArgs, { omit: OmitOpts }>;
+
 	/**
 	 * `prisma.friendship`: Exposes CRUD operations for the **Friendship** model.
 	 * Example usage:
@@ -286,6 +319,75 @@ export interface PrismaClient<
 	 */
 	get report(): Prisma.ReportDelegate<ExtArgs, { omit: OmitOpts }>;
 
+	/**
+	 * `prisma.block`: Exposes CRUD operations for the **Block** model.
+	 * Example usage:
+	 * ```ts
+	 * // Fetch zero or more Blocks
+	 * const blocks = await prisma.block.findMany()
+	 * ```
+	 */
+	get block(): Prisma.BlockDelegate<ExtArgs, { omit: OmitOpts }>;
+
+	/**
+	 * `prisma.speedEvent`: Exposes CRUD operations for the **SpeedEvent** model.
+	 * Example usage:
+	 * ```ts
+	 * // Fetch zero or more SpeedEvents
+	 * const speedEvents = await prisma.speedEvent.findMany()
+	 * ```
+	 */
+	get speedEvent(): Prisma.SpeedEventDelegate<ExtArgs, { omit: OmitOpts }>;
+
+	/**
+	 * `prisma.speedEventRegistration`: Exposes CRUD operations for the **SpeedEventRegistration** model.
+	 * Example usage:
+	 * ```ts
+	 * // Fetch zero or more SpeedEventRegistrations
+	 * const speedEventRegistrations = await prisma.speedEventRegistration.findMany()
+	 * ```
+	 */
+	get speedEventRegistration(): Prisma.SpeedEventRegistrationDelegate<
+		ExtArgs,
+		{ omit: OmitOpts }
+	>;
+
+	/**
+	 * `prisma.speedEventPairing`: Exposes CRUD operations for the **SpeedEventPairing** model.
+	 * Example usage:
+	 * ```ts
+	 * // Fetch zero or more SpeedEventPairings
+	 * const speedEventPairings = await prisma.speedEventPairing.findMany()
+	 * ```
+	 */
+	get speedEventPairing(): Prisma.SpeedEventPairingDelegate<
+		ExtArgs,
+		{ omit: OmitOpts }
+	>;
+
+	/**
+	 * `prisma.speedEventLike`: Exposes CRUD operations for the **SpeedEventLike** model.
+	 * Example usage:
+	 * ```ts
+	 * // Fetch zero or more SpeedEventLikes
+	 * const speedEventLikes = await prisma.speedEventLike.findMany()
+	 * ```
+	 */
+	get speedEventLike(): Prisma.SpeedEventLikeDelegate<
+		ExtArgs,
+		{ omit: OmitOpts }
+	>;
+
+	/**
+	 * `prisma.interest`: Exposes CRUD operations for the **Interest** model.
+	 * Example usage:
+	 * ```ts
+	 * // Fetch zero or more Interests
+	 * const interests = await prisma.interest.findMany()
+	 * ```
+	 */
+	get interest(): Prisma.InterestDelegate<ExtArgs, { omit: OmitOpts }>;
+
 	/**
 	 * `prisma.leaderboardEntry`: Exposes CRUD operations for the **LeaderboardEntry** model.
 	 * Example usage:
@@ -332,6 +434,19 @@ export interface PrismaClient<
 	 */
 	get room(): Prisma.RoomDelegate<ExtArgs, { omit: OmitOpts }>;
 
+	/**
+	 * `prisma.roomParticipant`: Exposes CRUD operations for the **RoomParticipant** model.
+	 * Example usage:
+	 * ```ts
+	 * // Fetch zero or more RoomParticipants
+	 * const roomParticipants = await prisma.roomParticipant.findMany()
+	 * ```
+	 */
+	get roomParticipant(): Prisma.RoomParticipantDelegate<
+		ExtArgs,
+		{ omit: OmitOpts }
+	>;
+
 	/**
 	 * `prisma.pointActivity`: Exposes CRUD operations for the **PointActivity** model.
 	 * Example usage:
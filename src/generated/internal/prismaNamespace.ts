@@ -420,12 +420,22 @@ export const ModelName = {
 	Rating: "Rating",
 	Call: "Call",
 	Text: "Text",
+	MessageReaction: "MessageReaction",
+	ReadReceipt: "ReadReceipt",
+	TextEdit: "TextEdit",
 	Friendship: "Friendship",
 	Report: "Report",
+	Block: "Block",
+	SpeedEvent: "SpeedEvent",
+	SpeedEventRegistration: "SpeedEventRegistration",
+	SpeedEventPairing: "SpeedEventPairing",
+	SpeedEventLike: "SpeedEventLike",
+	Interest: "Interest",
 	LeaderboardEntry: "LeaderboardEntry",
 	LuckyWinnerEntry: "LuckyWinnerEntry",
 	Subscription: "Subscription",
 	Room: "Room",
+	RoomParticipant: "RoomParticipant",
 	PointActivity: "PointActivity",
 	Notification: "Notification",
 	Session: "Session",
@@ -457,12 +467,22 @@ export type TypeMap<
 			| "rating"
 			| "call"
 			| "text"
+			| "messageReaction"
+			| "readReceipt"
+			| "textEdit"
 			| "friendship"
 			| "report"
+			| "block"
+			| "speedEvent"
+			| "speedEventRegistration"
+			| "speedEventPairing"
+			| "speedEventLike"
+			| "interest"
 			| "leaderboardEntry"
 			| "luckyWinnerEntry"
 			| "subscription"
 			| "room"
+			| "roomParticipant"
 			| "pointActivity"
 			| "notification"
 			| "session"
@@ -775,6 +795,234 @@ export type TypeMap<
 				};
 			};
 		};
+		MessageReaction: {
+			payload: Prisma.$MessageReactionPayload<ExtArgs>;
+			fields: Prisma.MessageReactionFieldRefs;
+			operations: {
+				findUnique: {
+					args: Prisma.MessageReactionFindUniqueArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$MessageReactionPayload> | null;
+				};
+				findUniqueOrThrow: {
+					args: Prisma.MessageReactionFindUniqueOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$MessageReactionPayload>;
+				};
+				findFirst: {
+					args: Prisma.MessageReactionFindFirstArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$MessageReactionPayload> | null;
+				};
+				findFirstOrThrow: {
+					args: Prisma.MessageReactionFindFirstOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$MessageReactionPayload>;
+				};
+				findMany: {
+					args: Prisma.MessageReactionFindManyArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$MessageReactionPayload>[];
+				};
+				create: {
+					args: Prisma.MessageReactionCreateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$MessageReactionPayload>;
+				};
+				createMany: {
+					args: Prisma.MessageReactionCreateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				createManyAndReturn: {
+					args: Prisma.MessageReactionCreateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$MessageReactionPayload>[];
+				};
+				delete: {
+					args: Prisma.MessageReactionDeleteArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$MessageReactionPayload>;
+				};
+				update: {
+					args: Prisma.MessageReactionUpdateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$MessageReactionPayload>;
+				};
+				deleteMany: {
+					args: Prisma.MessageReactionDeleteManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateMany: {
+					args: Prisma.MessageReactionUpdateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateManyAndReturn: {
+					args: Prisma.MessageReactionUpdateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$MessageReactionPayload>[];
+				};
+				upsert: {
+					args: Prisma.MessageReactionUpsertArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$MessageReactionPayload>;
+				};
+				aggregate: {
+					args: Prisma.MessageReactionAggregateArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.AggregateMessageReaction>;
+				};
+				groupBy: {
+					args: Prisma.MessageReactionGroupByArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.MessageReactionGroupByOutputType>[];
+				};
+				count: {
+					args: Prisma.MessageReactionCountArgs<ExtArgs>;
+					result:
+						| runtime.Types.Utils.Optional<Prisma.MessageReactionCountAggregateOutputType>
+						| number;
+				};
+			};
+		};
+		ReadReceipt: {
+			payload: Prisma.$ReadReceiptPayload<ExtArgs>;
+			fields: Prisma.ReadReceiptFieldRefs;
+			operations: {
+				findUnique: {
+					args: Prisma.ReadReceiptFindUniqueArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$ReadReceiptPayload> | null;
+				};
+				findUniqueOrThrow: {
+					args: Prisma.ReadReceiptFindUniqueOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$ReadReceiptPayload>;
+				};
+				findFirst: {
+					args: Prisma.ReadReceiptFindFirstArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$ReadReceiptPayload> | null;
+				};
+				findFirstOrThrow: {
+					args: Prisma.ReadReceiptFindFirstOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$ReadReceiptPayload>;
+				};
+				findMany: {
+					args: Prisma.ReadReceiptFindManyArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$ReadReceiptPayload>[];
+				};
+				create: {
+					args: Prisma.ReadReceiptCreateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$ReadReceiptPayload>;
+				};
+				createMany: {
+					args: Prisma.ReadReceiptCreateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				createManyAndReturn: {
+					args: Prisma.ReadReceiptCreateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$ReadReceiptPayload>[];
+				};
+				delete: {
+					args: Prisma.ReadReceiptDeleteArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$ReadReceiptPayload>;
+				};
+				update: {
+					args: Prisma.ReadReceiptUpdateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$ReadReceiptPayload>;
+				};
+				deleteMany: {
+					args: Prisma.ReadReceiptDeleteManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateMany: {
+					args: Prisma.ReadReceiptUpdateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateManyAndReturn: {
+					args: Prisma.ReadReceiptUpdateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$ReadReceiptPayload>[];
+				};
+				upsert: {
+					args: Prisma.ReadReceiptUpsertArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$ReadReceiptPayload>;
+				};
+				aggregate: {
+					args: Prisma.ReadReceiptAggregateArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.AggregateReadReceipt>;
+				};
+				groupBy: {
+					args: Prisma.ReadReceiptGroupByArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.ReadReceiptGroupByOutputType>[];
+				};
+				count: {
+					args: Prisma.ReadReceiptCountArgs<ExtArgs>;
+					result:
+						| runtime.Types.Utils.Optional<Prisma.ReadReceiptCountAggregateOutputType>
+						| number;
+				};
+			};
+		};
+		TextEdit: {
+			payload: Prisma.$TextEditPayload<ExtArgs>;
+			fields: Prisma.TextEditFieldRefs;
+			operations: {
+				findUnique: {
+					args: Prisma.TextEditFindUniqueArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$TextEditPayload> | null;
+				};
+				findUniqueOrThrow: {
+					args: Prisma.TextEditFindUniqueOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$TextEditPayload>;
+				};
+				findFirst: {
+					args: Prisma.TextEditFindFirstArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$TextEditPayload> | null;
+				};
+				findFirstOrThrow: {
+					args: Prisma.TextEditFindFirstOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$TextEditPayload>;
+				};
+				findMany: {
+					args: Prisma.TextEditFindManyArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$TextEditPayload>[];
+				};
+				create: {
+					args: Prisma.TextEditCreateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$TextEditPayload>;
+				};
+				createMany: {
+					args: Prisma.TextEditCreateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				createManyAndReturn: {
+					args: Prisma.TextEditCreateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$TextEditPayload>[];
+				};
+				delete: {
+					args: Prisma.TextEditDeleteArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$TextEditPayload>;
+				};
+				update: {
+					args: Prisma.TextEditUpdateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$TextEditPayload>;
+				};
+				deleteMany: {
+					args: Prisma.TextEditDeleteManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateMany: {
+					args: Prisma.TextEditUpdateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateManyAndReturn: {
+					args: Prisma.TextEditUpdateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$TextEditPayload>[];
+				};
+				upsert: {
+					args: Prisma.TextEditUpsertArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$TextEditPayload>;
+				};
+				aggregate: {
+					args: Prisma.TextEditAggregateArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.AggregateTextEdit>;
+				};
+				groupBy: {
+					args: Prisma.TextEditGroupByArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.TextEditGroupByOutputType>[];
+				};
+				count: {
+					args: Prisma.TextEditCountArgs<ExtArgs>;
+					result:
+						| runtime.Types.Utils.Optional<Prisma.TextEditCountAggregateOutputType>
+						| number;
+				};
+			};
+		};
 		Friendship: {
 			payload: Prisma.$FriendshipPayload<ExtArgs>;
 			fields: Prisma.FriendshipFieldRefs;
@@ -927,6 +1175,462 @@ export type TypeMap<
 				};
 			};
 		};
+		Block: {
+			payload: Prisma.$BlockPayload<ExtArgs>;
+			fields: Prisma.BlockFieldRefs;
+			operations: {
+				findUnique: {
+					args: Prisma.BlockFindUniqueArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$BlockPayload> | null;
+				};
+				findUniqueOrThrow: {
+					args: Prisma.BlockFindUniqueOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$BlockPayload>;
+				};
+				findFirst: {
+					args: Prisma.BlockFindFirstArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$BlockPayload> | null;
+				};
+				findFirstOrThrow: {
+					args: Prisma.BlockFindFirstOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$BlockPayload>;
+				};
+				findMany: {
+					args: Prisma.BlockFindManyArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$BlockPayload>[];
+				};
+				create: {
+					args: Prisma.BlockCreateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$BlockPayload>;
+				};
+				createMany: {
+					args: Prisma.BlockCreateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				createManyAndReturn: {
+					args: Prisma.BlockCreateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$BlockPayload>[];
+				};
+				delete: {
+					args: Prisma.BlockDeleteArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$BlockPayload>;
+				};
+				update: {
+					args: Prisma.BlockUpdateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$BlockPayload>;
+				};
+				deleteMany: {
+					args: Prisma.BlockDeleteManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateMany: {
+					args: Prisma.BlockUpdateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateManyAndReturn: {
+					args: Prisma.BlockUpdateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$BlockPayload>[];
+				};
+				upsert: {
+					args: Prisma.BlockUpsertArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$BlockPayload>;
+				};
+				aggregate: {
+					args: Prisma.BlockAggregateArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.AggregateBlock>;
+				};
+				groupBy: {
+					args: Prisma.BlockGroupByArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.BlockGroupByOutputType>[];
+				};
+				count: {
+					args: Prisma.BlockCountArgs<ExtArgs>;
+					result:
+						| runtime.Types.Utils.Optional<Prisma.BlockCountAggregateOutputType>
+						| number;
+				};
+			};
+		};
+		SpeedEvent: {
+			payload: Prisma.$SpeedEventPayload<ExtArgs>;
+			fields: Prisma.SpeedEventFieldRefs;
+			operations: {
+				findUnique: {
+					args: Prisma.SpeedEventFindUniqueArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPayload> | null;
+				};
+				findUniqueOrThrow: {
+					args: Prisma.SpeedEventFindUniqueOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPayload>;
+				};
+				findFirst: {
+					args: Prisma.SpeedEventFindFirstArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPayload> | null;
+				};
+				findFirstOrThrow: {
+					args: Prisma.SpeedEventFindFirstOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPayload>;
+				};
+				findMany: {
+					args: Prisma.SpeedEventFindManyArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPayload>[];
+				};
+				create: {
+					args: Prisma.SpeedEventCreateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPayload>;
+				};
+				createMany: {
+					args: Prisma.SpeedEventCreateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				createManyAndReturn: {
+					args: Prisma.SpeedEventCreateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPayload>[];
+				};
+				delete: {
+					args: Prisma.SpeedEventDeleteArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPayload>;
+				};
+				update: {
+					args: Prisma.SpeedEventUpdateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPayload>;
+				};
+				deleteMany: {
+					args: Prisma.SpeedEventDeleteManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateMany: {
+					args: Prisma.SpeedEventUpdateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateManyAndReturn: {
+					args: Prisma.SpeedEventUpdateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPayload>[];
+				};
+				upsert: {
+					args: Prisma.SpeedEventUpsertArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPayload>;
+				};
+				aggregate: {
+					args: Prisma.SpeedEventAggregateArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.AggregateSpeedEvent>;
+				};
+				groupBy: {
+					args: Prisma.SpeedEventGroupByArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.SpeedEventGroupByOutputType>[];
+				};
+				count: {
+					args: Prisma.SpeedEventCountArgs<ExtArgs>;
+					result:
+						| runtime.Types.Utils.Optional<Prisma.SpeedEventCountAggregateOutputType>
+						| number;
+				};
+			};
+		};
+		SpeedEventRegistration: {
+			payload: Prisma.$SpeedEventRegistrationPayload<ExtArgs>;
+			fields: Prisma.SpeedEventRegistrationFieldRefs;
+			operations: {
+				findUnique: {
+					args: Prisma.SpeedEventRegistrationFindUniqueArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventRegistrationPayload> | null;
+				};
+				findUniqueOrThrow: {
+					args: Prisma.SpeedEventRegistrationFindUniqueOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventRegistrationPayload>;
+				};
+				findFirst: {
+					args: Prisma.SpeedEventRegistrationFindFirstArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventRegistrationPayload> | null;
+				};
+				findFirstOrThrow: {
+					args: Prisma.SpeedEventRegistrationFindFirstOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventRegistrationPayload>;
+				};
+				findMany: {
+					args: Prisma.SpeedEventRegistrationFindManyArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventRegistrationPayload>[];
+				};
+				create: {
+					args: Prisma.SpeedEventRegistrationCreateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventRegistrationPayload>;
+				};
+				createMany: {
+					args: Prisma.SpeedEventRegistrationCreateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				createManyAndReturn: {
+					args: Prisma.SpeedEventRegistrationCreateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventRegistrationPayload>[];
+				};
+				delete: {
+					args: Prisma.SpeedEventRegistrationDeleteArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventRegistrationPayload>;
+				};
+				update: {
+					args: Prisma.SpeedEventRegistrationUpdateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventRegistrationPayload>;
+				};
+				deleteMany: {
+					args: Prisma.SpeedEventRegistrationDeleteManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateMany: {
+					args: Prisma.SpeedEventRegistrationUpdateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateManyAndReturn: {
+					args: Prisma.SpeedEventRegistrationUpdateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventRegistrationPayload>[];
+				};
+				upsert: {
+					args: Prisma.SpeedEventRegistrationUpsertArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventRegistrationPayload>;
+				};
+				aggregate: {
+					args: Prisma.SpeedEventRegistrationAggregateArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.AggregateSpeedEventRegistration>;
+				};
+				groupBy: {
+					args: Prisma.SpeedEventRegistrationGroupByArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.SpeedEventRegistrationGroupByOutputType>[];
+				};
+				count: {
+					args: Prisma.SpeedEventRegistrationCountArgs<ExtArgs>;
+					result:
+						| runtime.Types.Utils.Optional<Prisma.SpeedEventRegistrationCountAggregateOutputType>
+						| number;
+				};
+			};
+		};
+		SpeedEventPairing: {
+			payload: Prisma.$SpeedEventPairingPayload<ExtArgs>;
+			fields: Prisma.SpeedEventPairingFieldRefs;
+			operations: {
+				findUnique: {
+					args: Prisma.SpeedEventPairingFindUniqueArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPairingPayload> | null;
+				};
+				findUniqueOrThrow: {
+					args: Prisma.SpeedEventPairingFindUniqueOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPairingPayload>;
+				};
+				findFirst: {
+					args: Prisma.SpeedEventPairingFindFirstArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPairingPayload> | null;
+				};
+				findFirstOrThrow: {
+					args: Prisma.SpeedEventPairingFindFirstOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPairingPayload>;
+				};
+				findMany: {
+					args: Prisma.SpeedEventPairingFindManyArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPairingPayload>[];
+				};
+				create: {
+					args: Prisma.SpeedEventPairingCreateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPairingPayload>;
+				};
+				createMany: {
+					args: Prisma.SpeedEventPairingCreateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				createManyAndReturn: {
+					args: Prisma.SpeedEventPairingCreateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPairingPayload>[];
+				};
+				delete: {
+					args: Prisma.SpeedEventPairingDeleteArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPairingPayload>;
+				};
+				update: {
+					args: Prisma.SpeedEventPairingUpdateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPairingPayload>;
+				};
+				deleteMany: {
+					args: Prisma.SpeedEventPairingDeleteManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateMany: {
+					args: Prisma.SpeedEventPairingUpdateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateManyAndReturn: {
+					args: Prisma.SpeedEventPairingUpdateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPairingPayload>[];
+				};
+				upsert: {
+					args: Prisma.SpeedEventPairingUpsertArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventPairingPayload>;
+				};
+				aggregate: {
+					args: Prisma.SpeedEventPairingAggregateArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.AggregateSpeedEventPairing>;
+				};
+				groupBy: {
+					args: Prisma.SpeedEventPairingGroupByArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.SpeedEventPairingGroupByOutputType>[];
+				};
+				count: {
+					args: Prisma.SpeedEventPairingCountArgs<ExtArgs>;
+					result:
+						| runtime.Types.Utils.Optional<Prisma.SpeedEventPairingCountAggregateOutputType>
+						| number;
+				};
+			};
+		};
+		SpeedEventLike: {
+			payload: Prisma.$SpeedEventLikePayload<ExtArgs>;
+			fields: Prisma.SpeedEventLikeFieldRefs;
+			operations: {
+				findUnique: {
+					args: Prisma.SpeedEventLikeFindUniqueArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventLikePayload> | null;
+				};
+				findUniqueOrThrow: {
+					args: Prisma.SpeedEventLikeFindUniqueOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventLikePayload>;
+				};
+				findFirst: {
+					args: Prisma.SpeedEventLikeFindFirstArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventLikePayload> | null;
+				};
+				findFirstOrThrow: {
+					args: Prisma.SpeedEventLikeFindFirstOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventLikePayload>;
+				};
+				findMany: {
+					args: Prisma.SpeedEventLikeFindManyArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventLikePayload>[];
+				};
+				create: {
+					args: Prisma.SpeedEventLikeCreateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventLikePayload>;
+				};
+				createMany: {
+					args: Prisma.SpeedEventLikeCreateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				createManyAndReturn: {
+					args: Prisma.SpeedEventLikeCreateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventLikePayload>[];
+				};
+				delete: {
+					args: Prisma.SpeedEventLikeDeleteArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventLikePayload>;
+				};
+				update: {
+					args: Prisma.SpeedEventLikeUpdateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventLikePayload>;
+				};
+				deleteMany: {
+					args: Prisma.SpeedEventLikeDeleteManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateMany: {
+					args: Prisma.SpeedEventLikeUpdateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateManyAndReturn: {
+					args: Prisma.SpeedEventLikeUpdateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventLikePayload>[];
+				};
+				upsert: {
+					args: Prisma.SpeedEventLikeUpsertArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$SpeedEventLikePayload>;
+				};
+				aggregate: {
+					args: Prisma.SpeedEventLikeAggregateArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.AggregateSpeedEventLike>;
+				};
+				groupBy: {
+					args: Prisma.SpeedEventLikeGroupByArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.SpeedEventLikeGroupByOutputType>[];
+				};
+				count: {
+					args: Prisma.SpeedEventLikeCountArgs<ExtArgs>;
+					result:
+						| runtime.Types.Utils.Optional<Prisma.SpeedEventLikeCountAggregateOutputType>
+						| number;
+				};
+			};
+		};
+		Interest: {
+			payload: Prisma.$InterestPayload<ExtArgs>;
+			fields: Prisma.InterestFieldRefs;
+			operations: {
+				findUnique: {
+					args: Prisma.InterestFindUniqueArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$InterestPayload> | null;
+				};
+				findUniqueOrThrow: {
+					args: Prisma.InterestFindUniqueOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$InterestPayload>;
+				};
+				findFirst: {
+					args: Prisma.InterestFindFirstArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$InterestPayload> | null;
+				};
+				findFirstOrThrow: {
+					args: Prisma.InterestFindFirstOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$InterestPayload>;
+				};
+				findMany: {
+					args: Prisma.InterestFindManyArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$InterestPayload>[];
+				};
+				create: {
+					args: Prisma.InterestCreateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$InterestPayload>;
+				};
+				createMany: {
+					args: Prisma.InterestCreateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				createManyAndReturn: {
+					args: Prisma.InterestCreateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$InterestPayload>[];
+				};
+				delete: {
+					args: Prisma.InterestDeleteArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$InterestPayload>;
+				};
+				update: {
+					args: Prisma.InterestUpdateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$InterestPayload>;
+				};
+				deleteMany: {
+					args: Prisma.InterestDeleteManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateMany: {
+					args: Prisma.InterestUpdateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateManyAndReturn: {
+					args: Prisma.InterestUpdateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$InterestPayload>[];
+				};
+				upsert: {
+					args: Prisma.InterestUpsertArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$InterestPayload>;
+				};
+				aggregate: {
+					args: Prisma.InterestAggregateArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.AggregateInterest>;
+				};
+				groupBy: {
+					args: Prisma.InterestGroupByArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.InterestGroupByOutputType>[];
+				};
+				count: {
+					args: Prisma.InterestCountArgs<ExtArgs>;
+					result:
+						| runtime.Types.Utils.Optional<Prisma.InterestCountAggregateOutputType>
+						| number;
+				};
+			};
+		};
 		LeaderboardEntry: {
 			payload: Prisma.$LeaderboardEntryPayload<ExtArgs>;
 			fields: Prisma.LeaderboardEntryFieldRefs;
@@ -1231,6 +1935,82 @@ export type TypeMap<
 				};
 			};
 		};
+		RoomParticipant: {
+			payload: Prisma.$RoomParticipantPayload<ExtArgs>;
+			fields: Prisma.RoomParticipantFieldRefs;
+			operations: {
+				findUnique: {
+					args: Prisma.RoomParticipantFindUniqueArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomParticipantPayload> | null;
+				};
+				findUniqueOrThrow: {
+					args: Prisma.RoomParticipantFindUniqueOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomParticipantPayload>;
+				};
+				findFirst: {
+					args: Prisma.RoomParticipantFindFirstArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomParticipantPayload> | null;
+				};
+				findFirstOrThrow: {
+					args: Prisma.RoomParticipantFindFirstOrThrowArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomParticipantPayload>;
+				};
+				findMany: {
+					args: Prisma.RoomParticipantFindManyArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomParticipantPayload>[];
+				};
+				create: {
+					args: Prisma.RoomParticipantCreateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomParticipantPayload>;
+				};
+				createMany: {
+					args: Prisma.RoomParticipantCreateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				createManyAndReturn: {
+					args: Prisma.RoomParticipantCreateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomParticipantPayload>[];
+				};
+				delete: {
+					args: Prisma.RoomParticipantDeleteArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomParticipantPayload>;
+				};
+				update: {
+					args: Prisma.RoomParticipantUpdateArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomParticipantPayload>;
+				};
+				deleteMany: {
+					args: Prisma.RoomParticipantDeleteManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateMany: {
+					args: Prisma.RoomParticipantUpdateManyArgs<ExtArgs>;
+					result: BatchPayload;
+				};
+				updateManyAndReturn: {
+					args: Prisma.RoomParticipantUpdateManyAndReturnArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomParticipantPayload>[];
+				};
+				upsert: {
+					args: Prisma.RoomParticipantUpsertArgs<ExtArgs>;
+					result: runtime.Types.Utils.PayloadToResult<Prisma.$RoomParticipantPayload>;
+				};
+				aggregate: {
+					args: Prisma.RoomParticipantAggregateArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.AggregateRoomParticipant>;
+				};
+				groupBy: {
+					args: Prisma.RoomParticipantGroupByArgs<ExtArgs>;
+					result: runtime.Types.Utils.Optional<Prisma.RoomParticipantGroupByOutputType>[];
+				};
+				count: {
+					args: Prisma.RoomParticipantCountArgs<ExtArgs>;
+					result:
+						| runtime.Types.Utils.Optional<Prisma.RoomParticipantCountAggregateOutputType>
+						| number;
+				};
+			};
+		};
 		PointActivity: {
 			payload: Prisma.$PointActivityPayload<ExtArgs>;
 			fields: Prisma.PointActivityFieldRefs;
@@ -1711,12 +2491,49 @@ export const TextScalarFieldEnum = {
 	receiverAnonId: "receiverAnonId",
 	content: "content",
 	sentAt: "sentAt",
+	editedAt: "editedAt",
+	deletedAt: "deletedAt",
 	roomId: "roomId",
+	replyToId: "replyToId",
 } as const;
 
 export type TextScalarFieldEnum =
 	(typeof TextScalarFieldEnum)[keyof typeof TextScalarFieldEnum];
 
+export const MessageReactionScalarFieldEnum = {
+	id: "id",
+	roomId: "roomId",
+	messageId: "messageId",
+	userId: "userId",
+	emoji: "emoji",
+	createdAt: "createdAt",
+} as const;
+
+export type MessageReactionScalarFieldEnum =
+	(typeof MessageReactionScalarFieldEnum)[keyof typeof MessageReactionScalarFieldEnum];
+
+export const ReadReceiptScalarFieldEnum = {
+	id: "id",
+	roomId: "roomId",
+	userId: "userId",
+	lastMessageId: "lastMessageId",
+	lastSentAt: "lastSentAt",
+	readAt: "readAt",
+} as const;
+
+export type ReadReceiptScalarFieldEnum =
+	(typeof ReadReceiptScalarFieldEnum)[keyof typeof ReadReceiptScalarFieldEnum];
+
+export const TextEditScalarFieldEnum = {
+	id: "id",
+	textId: "textId",
+	content: "content",
+	editedAt: "editedAt",
+} as const;
+
+export type TextEditScalarFieldEnum =
+	(typeof TextEditScalarFieldEnum)[keyof typeof TextEditScalarFieldEnum];
+
 export const FriendshipScalarFieldEnum = {
 	id: "id",
 	userId: "userId",
@@ -1739,6 +2556,83 @@ export const ReportScalarFieldEnum = {
 export type ReportScalarFieldEnum =
 	(typeof ReportScalarFieldEnum)[keyof typeof ReportScalarFieldEnum];
 
+export const BlockScalarFieldEnum = {
+	id: "id",
+	blockerId: "blockerId",
+	blockedId: "blockedId",
+	createdAt: "createdAt",
+} as const;
+
+export type BlockScalarFieldEnum =
+	(typeof BlockScalarFieldEnum)[keyof typeof BlockScalarFieldEnum];
+
+export const SpeedEventScalarFieldEnum = {
+	id: "id",
+	topic: "topic",
+	startsAt: "startsAt",
+	endsAt: "endsAt",
+	roundLengthSec: "roundLengthSec",
+	capacity: "capacity",
+	status: "status",
+	currentRound: "currentRound",
+	roundEndsAt: "roundEndsAt",
+	likesCloseAt: "likesCloseAt",
+	createdById: "createdById",
+	createdAt: "createdAt",
+	updatedAt: "updatedAt",
+} as const;
+
+export type SpeedEventScalarFieldEnum =
+	(typeof SpeedEventScalarFieldEnum)[keyof typeof SpeedEventScalarFieldEnum];
+
+export const SpeedEventRegistrationScalarFieldEnum = {
+	id: "id",
+	eventId: "eventId",
+	userId: "userId",
+	createdAt: "createdAt",
+} as const;
+
+export type SpeedEventRegistrationScalarFieldEnum =
+	(typeof SpeedEventRegistrationScalarFieldEnum)[keyof typeof SpeedEventRegistrationScalarFieldEnum];
+
+export const SpeedEventPairingScalarFieldEnum = {
+	id: "id",
+	eventId: "eventId",
+	round: "round",
+	user1Id: "user1Id",
+	user2Id: "user2Id",
+	roomId: "roomId",
+	createdAt: "createdAt",
+} as const;
+
+export type SpeedEventPairingScalarFieldEnum =
+	(typeof SpeedEventPairingScalarFieldEnum)[keyof typeof SpeedEventPairingScalarFieldEnum];
+
+export const SpeedEventLikeScalarFieldEnum = {
+	id: "id",
+	eventId: "eventId",
+	userId: "userId",
+	likedUserId: "likedUserId",
+	createdAt: "createdAt",
+} as const;
+
+export type SpeedEventLikeScalarFieldEnum =
+	(typeof SpeedEventLikeScalarFieldEnum)[keyof typeof SpeedEventLikeScalarFieldEnum];
+
+export const InterestScalarFieldEnum = {
+	id: "id",
+	slug: "slug",
+	name: "name",
+	category: "category",
+	aliases: "aliases",
+	isActive: "isActive",
+	createdAt: "createdAt",
+	updatedAt: "updatedAt",
+} as const;
+
+export type InterestScalarFieldEnum =
+	(typeof InterestScalarFieldEnum)[keyof typeof InterestScalarFieldEnum];
+
 export const LeaderboardEntryScalarFieldEnum = {
 	id: "id",
 	userId: "userId",
@@ -1778,6 +2672,7 @@ export const RoomScalarFieldEnum = {
 	anonUser1Id: "anonUser1Id",
 	user2Id: "user2Id",
 	anonUser2Id: "anonUser2Id",
+	topic: "topic",
 	createdAt: "createdAt",
 	updatedAt: "updatedAt",
 } as const;
@@ -1785,6 +2680,18 @@ export const RoomScalarFieldEnum = {
 export type RoomScalarFieldEnum =
 	(typeof RoomScalarFieldEnum)[keyof typeof RoomScalarFieldEnum];
 
+export const RoomParticipantScalarFieldEnum = {
+	id: "id",
+	roomId: "roomId",
+	userId: "userId",
+	anonId: "anonId",
+	joinedAt: "joinedAt",
+	leftAt: "leftAt",
+} as const;
+
+export type RoomParticipantScalarFieldEnum =
+	(typeof RoomParticipantScalarFieldEnum)[keyof typeof RoomParticipantScalarFieldEnum];
+
 export const PointActivityScalarFieldEnum = {
 	id: "id",
 	userId: "userId",
@@ -1956,6 +2863,20 @@ export type ListIntFieldRefInput<$PrismaModel> = FieldRefInputType<
 	"Int[]"
 >;
 
+/**
+ * Reference to a field of type 'SpeedEventStatus'
+ */
+export type EnumSpeedEventStatusFieldRefInput<$PrismaModel> = FieldRefInputType<
+	$PrismaModel,
+	"SpeedEventStatus"
+>;
+
+/**
+ * Reference to a field of type 'SpeedEventStatus[]'
+ */
+export type ListEnumSpeedEventStatusFieldRefInput<$PrismaModel> =
+	FieldRefInputType<$PrismaModel, "SpeedEventStatus[]">;
+
 /**
  * Reference to a field of type 'Float'
  */
@@ -2153,12 +3074,22 @@ export type GlobalOmitConfig = {
 	rating?: Prisma.RatingOmit;
 	call?: Prisma.CallOmit;
 	text?: Prisma.TextOmit;
+	messageReaction?: Prisma.MessageReactionOmit;
+	readReceipt?: Prisma.ReadReceiptOmit;
+	textEdit?: Prisma.TextEditOmit;
 	friendship?: Prisma.FriendshipOmit;
 	report?: Prisma.ReportOmit;
+	block?: Prisma.BlockOmit;
+	speedEvent?: Prisma.SpeedEventOmit;
+	speedEventRegistration?: Prisma.SpeedEventRegistrationOmit;
+	speedEventPairing?: Prisma.SpeedEventPairingOmit;
+	speedEventLike?: Prisma.SpeedEventLikeOmit;
+	interest?: Prisma.InterestOmit;
 	leaderboardEntry?: Prisma.LeaderboardEntryOmit;
 	luckyWinnerEntry?: Prisma.LuckyWinnerEntryOmit;
 	subscription?: Prisma.SubscriptionOmit;
 	room?: Prisma.RoomOmit;
+	roomParticipant?: Prisma.RoomParticipantOmit;
 	pointActivity?: Prisma.PointActivityOmit;
 	notification?: Prisma.NotificationOmit;
 	session?: Prisma.SessionOmit;
@@ -58,12 +58,22 @@ export const ModelName = {
 	Rating: "Rating",
 	Call: "Call",
 	Text: "Text",
+	MessageReaction: "MessageReaction",
+	ReadReceipt: "ReadReceipt",
+	TextEdit: "TextEdit",
 	Friendship: "Friendship",
 	Report: "Report",
+	Block: "Block",
+	SpeedEvent: "SpeedEvent",
+	SpeedEventRegistration: "SpeedEventRegistration",
+	SpeedEventPairing: "SpeedEventPairing",
+	SpeedEventLike: "SpeedEventLike",
+	Interest: "Interest",
 	LeaderboardEntry: "LeaderboardEntry",
 	LuckyWinnerEntry: "LuckyWinnerEntry",
 	Subscription: "Subscription",
 	Room: "Room",
+	RoomParticipant: "RoomParticipant",
 	PointActivity: "PointActivity",
 	Notification: "Notification",
 	Session: "Session",
@@ -148,12 +158,49 @@ export const TextScalarFieldEnum = {
 	receiverAnonId: "receiverAnonId",
 	content: "content",
 	sentAt: "sentAt",
+	editedAt: "editedAt",
+	deletedAt: "deletedAt",
 	roomId: "roomId",
+	replyToId: "replyToId",
 } as const;
 
 export type TextScalarFieldEnum =
 	(typeof TextScalarFieldEnum)[keyof typeof TextScalarFieldEnum];
 
+export const MessageReactionScalarFieldEnum = {
+	id: "id",
+	roomId: "roomId",
+	messageId: "messageId",
+	userId: "userId",
+	emoji: "emoji",
+	createdAt: "createdAt",
+} as const;
+
+export type MessageReactionScalarFieldEnum =
+	(typeof MessageReactionScalarFieldEnum)[keyof typeof MessageReactionScalarFieldEnum];
+
+export const ReadReceiptScalarFieldEnum = {
+	id: "id",
+	roomId: "roomId",
+	userId: "userId",
+	lastMessageId: "lastMessageId",
+	lastSentAt: "lastSentAt",
+	readAt: "readAt",
+} as const;
+
+export type ReadReceiptScalarFieldEnum =
+	(typeof ReadReceiptScalarFieldEnum)[keyof typeof ReadReceiptScalarFieldEnum];
+
+export const TextEditScalarFieldEnum = {
+	id: "id",
+	textId: "textId",
+	content: "content",
+	editedAt: "editedAt",
+} as const;
+
+export type TextEditScalarFieldEnum =
+	(typeof TextEditScalarFieldEnum)[keyof typeof TextEditScalarFieldEnum];
+
 export const FriendshipScalarFieldEnum = {
 	id: "id",
 	userId: "userId",
@@ -176,6 +223,83 @@ export const ReportScalarFieldEnum = {
 export type ReportScalarFieldEnum =
 	(typeof ReportScalarFieldEnum)[keyof typeof ReportScalarFieldEnum];
 
+export const BlockScalarFieldEnum = {
+	id: "id",
+	blockerId: "blockerId",
+	blockedId: "blockedId",
+	createdAt: "createdAt",
+} as const;
+
+export type BlockScalarFieldEnum =
+	(typeof BlockScalarFieldEnum)[keyof typeof BlockScalarFieldEnum];
+
+export const SpeedEventScalarFieldEnum = {
+	id: "id",
+	topic: "topic",
+	startsAt: "startsAt",
+	endsAt: "endsAt",
+	roundLengthSec: "roundLengthSec",
+	capacity: "capacity",
+	status: "status",
+	currentRound: "currentRound",
+	roundEndsAt: "roundEndsAt",
+	likesCloseAt: "likesCloseAt",
+	createdById: "createdById",
+	createdAt: "createdAt",
+	updatedAt: "updatedAt",
+} as const;
+
+export type SpeedEventScalarFieldEnum =
+	(typeof SpeedEventScalarFieldEnum)[keyof typeof SpeedEventScalarFieldEnum];
+
+export const SpeedEventRegistrationScalarFieldEnum = {
+	id: "id",
+	eventId: "eventId",
+	userId: "userId",
+	createdAt: "createdAt",
+} as const;
+
+export type SpeedEventRegistrationScalarFieldEnum =
+	(typeof SpeedEventRegistrationScalarFieldEnum)[keyof typeof SpeedEventRegistrationScalarFieldEnum];
+
+export const SpeedEventPairingScalarFieldEnum = {
+	id: "id",
+	eventId: "eventId",
+	round: "round",
+	user1Id: "user1Id",
+	user2Id: "user2Id",
+	roomId: "roomId",
+	createdAt: "createdAt",
+} as const;
+
+export type SpeedEventPairingScalarFieldEnum =
+	(typeof SpeedEventPairingScalarFieldEnum)[keyof typeof SpeedEventPairingScalarFieldEnum];
+
+export const SpeedEventLikeScalarFieldEnum = {
+	id: "id",
+	eventId: "eventId",
+	userId: "userId",
+	likedUserId: "likedUserId",
+	createdAt: "createdAt",
+} as const;
+
+export type SpeedEventLikeScalarFieldEnum =
+	(typeof SpeedEventLikeScalarFieldEnum)[keyof typeof SpeedEventLikeScalarFieldEnum];
+
+export const InterestScalarFieldEnum = {
+	id: "id",
+	slug: "slug",
+	name: "name",
+	category: "category",
+	aliases: "aliases",
+	isActive: "isActive",
+	createdAt: "createdAt",
+	updatedAt: "updatedAt",
+} as const;
+
+export type InterestScalarFieldEnum =
+	(typeof InterestScalarFieldEnum)[keyof typeof InterestScalarFieldEnum];
+
 export const LeaderboardEntryScalarFieldEnum = {
 	id: "id",
 	userId: "userId",
@@ -215,6 +339,7 @@ export const RoomScalarFieldEnum = {
 	anonUser1Id: "anonUser1Id",
 	user2Id: "user2Id",
 	anonUser2Id: "anonUser2Id",
+	topic: "topic",
 	createdAt: "createdAt",
 	updatedAt: "updatedAt",
 } as const;
@@ -222,6 +347,18 @@ export const RoomScalarFieldEnum = {
 export type RoomScalarFieldEnum =
 	(typeof RoomScalarFieldEnum)[keyof typeof RoomScalarFieldEnum];
 
+export const RoomParticipantScalarFieldEnum = {
+	id: "id",
+	roomId: "roomId",
+	userId: "userId",
+	anonId: "anonId",
+	joinedAt: "joinedAt",
+	leftAt: "leftAt",
+} as const;
+
+export type RoomParticipantScalarFieldEnum =
+	(typeof RoomParticipantScalarFieldEnum)[keyof typeof RoomParticipantScalarFieldEnum];
+
 export const PointActivityScalarFieldEnum = {
 	id: "id",
 	userId: "userId",
@@ -11,12 +11,22 @@ export type * from "./models/User";
 export type * from "./models/Rating";
 export type * from "./models/Call";
 export type * from "./models/Text";
+export type * from "./models/MessageReaction";
+export type * from "./models/ReadReceipt";
+export type * from "./models/TextEdit";
 export type * from "./models/Friendship";
 export type * from "./models/Report";
+export type * from "./models/Block";
+export type * from "./models/SpeedEvent";
+export type * from "./models/SpeedEventRegistration";
+export type * from "./models/SpeedEventPairing";
+export type * from "./models/SpeedEventLike";
+export type * from "./models/Interest";
 export type * from "./models/LeaderboardEntry";
 export type * from "./models/LuckyWinnerEntry";
 export type * from "./models/Subscription";
 export type * from "./models/Room";
+export type * from "./models/RoomParticipant";
 export type * from "./models/PointActivity";
 export type * from "./models/Notification";
 export type * from "./models/Session";
@@ -0,0 +1,1512 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `Interest` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model Interest
+ *
+ */
+export type InterestModel =
+	runtime.Types.Result.DefaultSelection<Prisma.$InterestPayload>;
+
+export type AggregateInterest = {
+	_count: InterestCountAggregateOutputType | null;
+	_min: InterestMinAggregateOutputType | null;
+	_max: InterestMaxAggregateOutputType | null;
+};
+
+export type InterestMinAggregateOutputType = {
+	id: string | null;
+	slug: string | null;
+	name: string | null;
+	category: string | null;
+	isActive: boolean | null;
+	createdAt: Date | null;
+	updatedAt: Date | null;
+};
+
+export type InterestMaxAggregateOutputType = {
+	id: string | null;
+	slug: string | null;
+	name: string | null;
+	category: string | null;
+	isActive: boolean | null;
+	createdAt: Date | null;
+	updatedAt: Date | null;
+};
+
+export type InterestCountAggregateOutputType = {
+	id: number;
+	slug: number;
+	name: number;
+	category: number;
+	aliases: number;
+	isActive: number;
+	createdAt: number;
+	updatedAt: number;
+	_all: number;
+};
+
+export type InterestMinAggregateInputType = {
+	id?: true;
+	slug?: true;
+	name?: true;
+	category?: true;
+	isActive?: true;
+	createdAt?: true;
+	updatedAt?: true;
+};
+
+export type InterestMaxAggregateInputType = {
+	id?: true;
+	slug?: true;
+	name?: true;
+	category?: true;
+	isActive?: true;
+	createdAt?: true;
+	updatedAt?: true;
+};
+
+export type InterestCountAggregateInputType = {
+	id?: true;
+	slug?: true;
+	name?: true;
+	category?: true;
+	aliases?: true;
+	isActive?: true;
+	createdAt?: true;
+	updatedAt?: true;
+	_all?: true;
+};
+
+export type InterestAggregateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which Interest to aggregate.
+	 */
+	where?: Prisma.InterestWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of Interests to fetch.
+	 */
+	orderBy?:
+		| Prisma.InterestOrderByWithRelationInput
+		| Prisma.InterestOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the start position
+	 */
+	cursor?: Prisma.InterestWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` Interests from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` Interests.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Count returned Interests
+	 **/
+	_count?: true | InterestCountAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the minimum value
+	 **/
+	_min?: InterestMinAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the maximum value
+	 **/
+	_max?: InterestMaxAggregateInputType;
+};
+
+export type GetInterestAggregateType<T extends InterestAggregateArgs> = {
+	[P in keyof T & keyof AggregateInterest]: P extends "_count" | "count"
+		? T[P] extends true
+			? number
+			: Prisma.GetScalarType<T[P], AggregateInterest[P]>
+		: Prisma.GetScalarType<T[P], AggregateInterest[P]>;
+};
+
+export type InterestGroupByArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.InterestWhereInput;
+	orderBy?:
+		| Prisma.InterestOrderByWithAggregationInput
+		| Prisma.InterestOrderByWithAggregationInput[];
+	by: Prisma.InterestScalarFieldEnum[] | Prisma.InterestScalarFieldEnum;
+	having?: Prisma.InterestScalarWhereWithAggregatesInput;
+	take?: number;
+	skip?: number;
+	_count?: InterestCountAggregateInputType | true;
+	_min?: InterestMinAggregateInputType;
+	_max?: InterestMaxAggregateInputType;
+};
+
+export type InterestGroupByOutputType = {
+	id: string;
+	slug: string;
+	name: string;
+	category: string;
+	aliases: string[];
+	isActive: boolean;
+	createdAt: Date;
+	updatedAt: Date;
+	_count: InterestCountAggregateOutputType | null;
+	_min: InterestMinAggregateOutputType | null;
+	_max: InterestMaxAggregateOutputType | null;
+};
+
+type GetInterestGroupByPayload<T extends InterestGroupByArgs> =
+	Prisma.PrismaPromise<
+		Array<
+			Prisma.PickEnumerable<InterestGroupByOutputType, T["by"]> & {
+				[P in keyof T & keyof InterestGroupByOutputType]: P extends "_count"
+					? T[P] extends boolean
+						? number
+						: Prisma.GetScalarType<T[P], InterestGroupByOutputType[P]>
+					: Prisma.GetScalarType<T[P], InterestGroupByOutputType[P]>;
+			}
+		>
+	>;
+
+export type InterestWhereInput = {
+	AND?: Prisma.InterestWhereInput | Prisma.InterestWhereInput[];
+	OR?: Prisma.InterestWhereInput[];
+	NOT?: Prisma.InterestWhereInput | Prisma.InterestWhereInput[];
+	id?: Prisma.StringFilter<"Interest"> | string;
+	slug?: Prisma.StringFilter<"Interest"> | string;
+	name?: Prisma.StringFilter<"Interest"> | string;
+	category?: Prisma.StringFilter<"Interest"> | string;
+	aliases?: Prisma.StringNullableListFilter<"Interest">;
+	isActive?: Prisma.BoolFilter<"Interest"> | boolean;
+	createdAt?: Prisma.DateTimeFilter<"Interest"> | Date | string;
+	updatedAt?: Prisma.DateTimeFilter<"Interest"> | Date | string;
+};
+
+export type InterestOrderByWithRelationInput = {
+	id?: Prisma.SortOrder;
+	slug?: Prisma.SortOrder;
+	name?: Prisma.SortOrder;
+	category?: Prisma.SortOrder;
+	aliases?: Prisma.SortOrder;
+	isActive?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	updatedAt?: Prisma.SortOrder;
+};
+
+export type InterestWhereUniqueInput = Prisma.AtLeast<
+	{
+		id?: string;
+		slug?: string;
+		AND?: Prisma.InterestWhereInput | Prisma.InterestWhereInput[];
+		OR?: Prisma.InterestWhereInput[];
+		NOT?: Prisma.InterestWhereInput | Prisma.InterestWhereInput[];
+		name?: Prisma.StringFilter<"Interest"> | string;
+		category?: Prisma.StringFilter<"Interest"> | string;
+		aliases?: Prisma.StringNullableListFilter<"Interest">;
+		isActive?: Prisma.BoolFilter<"Interest"> | boolean;
+		createdAt?: Prisma.DateTimeFilter<"Interest"> | Date | string;
+		updatedAt?: Prisma.DateTimeFilter<"Interest"> | Date | string;
+	},
+	"id" | "slug"
+>;
+
+export type InterestOrderByWithAggregationInput = {
+	id?: Prisma.SortOrder;
+	slug?: Prisma.SortOrder;
+	name?: Prisma.SortOrder;
+	category?: Prisma.SortOrder;
+	aliases?: Prisma.SortOrder;
+	isActive?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	updatedAt?: Prisma.SortOrder;
+	_count?: Prisma.InterestCountOrderByAggregateInput;
+	_max?: Prisma.InterestMaxOrderByAggregateInput;
+	_min?: Prisma.InterestMinOrderByAggregateInput;
+};
+
+export type InterestScalarWhereWithAggregatesInput = {
+	AND?:
+		| Prisma.InterestScalarWhereWithAggregatesInput
+		| Prisma.InterestScalarWhereWithAggregatesInput[];
+	OR?: Prisma.InterestScalarWhereWithAggregatesInput[];
+	NOT?:
+		| Prisma.InterestScalarWhereWithAggregatesInput
+		| Prisma.InterestScalarWhereWithAggregatesInput[];
+	id?: Prisma.StringWithAggregatesFilter<"Interest"> | string;
+	slug?: Prisma.StringWithAggregatesFilter<"Interest"> | string;
+	name?: Prisma.StringWithAggregatesFilter<"Interest"> | string;
+	category?: Prisma.StringWithAggregatesFilter<"Interest"> | string;
+	aliases?: Prisma.StringNullableListFilter<"Interest">;
+	isActive?: Prisma.BoolWithAggregatesFilter<"Interest"> | boolean;
+	createdAt?: Prisma.DateTimeWithAggregatesFilter<"Interest"> | Date | string;
+	updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Interest"> | Date | string;
+};
+
+export type InterestCreateInput = {
+	id?: string;
+	slug: string;
+	name: string;
+	category: string;
+	aliases?: Prisma.InterestCreatealiasesInput | string[];
+	isActive?: boolean;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+};
+
+export type InterestUncheckedCreateInput = {
+	id?: string;
+	slug: string;
+	name: string;
+	category: string;
+	aliases?: Prisma.InterestCreatealiasesInput | string[];
+	isActive?: boolean;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+};
+
+export type InterestUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	slug?: Prisma.StringFieldUpdateOperationsInput | string;
+	name?: Prisma.StringFieldUpdateOperationsInput | string;
+	category?: Prisma.StringFieldUpdateOperationsInput | string;
+	aliases?: Prisma.InterestUpdatealiasesInput | string[];
+	isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type InterestUncheckedUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	slug?: Prisma.StringFieldUpdateOperationsInput | string;
+	name?: Prisma.StringFieldUpdateOperationsInput | string;
+	category?: Prisma.StringFieldUpdateOperationsInput | string;
+	aliases?: Prisma.InterestUpdatealiasesInput | string[];
+	isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type InterestCreateManyInput = {
+	id?: string;
+	slug: string;
+	name: string;
+	category: string;
+	aliases?: Prisma.InterestCreatealiasesInput | string[];
+	isActive?: boolean;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+};
+
+export type InterestUpdateManyMutationInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	slug?: Prisma.StringFieldUpdateOperationsInput | string;
+	name?: Prisma.StringFieldUpdateOperationsInput | string;
+	category?: Prisma.StringFieldUpdateOperationsInput | string;
+	aliases?: Prisma.InterestUpdatealiasesInput | string[];
+	isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type InterestUncheckedUpdateManyInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	slug?: Prisma.StringFieldUpdateOperationsInput | string;
+	name?: Prisma.StringFieldUpdateOperationsInput | string;
+	category?: Prisma.StringFieldUpdateOperationsInput | string;
+	aliases?: Prisma.InterestUpdatealiasesInput | string[];
+	isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type InterestCountOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	slug?: Prisma.SortOrder;
+	name?: Prisma.SortOrder;
+	category?: Prisma.SortOrder;
+	aliases?: Prisma.SortOrder;
+	isActive?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	updatedAt?: Prisma.SortOrder;
+};
+
+export type InterestMaxOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	slug?: Prisma.SortOrder;
+	name?: Prisma.SortOrder;
+	category?: Prisma.SortOrder;
+	isActive?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	updatedAt?: Prisma.SortOrder;
+};
+
+export type InterestMinOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	slug?: Prisma.SortOrder;
+	name?: Prisma.SortOrder;
+	category?: Prisma.SortOrder;
+	isActive?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	updatedAt?: Prisma.SortOrder;
+};
+
+export type InterestCreatealiasesInput = {
+	set: string[];
+};
+
+export type InterestUpdatealiasesInput = {
+	set?: string[];
+	push?: string | string[];
+};
+
+export type InterestSelect<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		slug?: boolean;
+		name?: boolean;
+		category?: boolean;
+		aliases?: boolean;
+		isActive?: boolean;
+		createdAt?: boolean;
+		updatedAt?: boolean;
+	},
+	ExtArgs["result"]["interest"]
+>;
+
+export type InterestSelectCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		slug?: boolean;
+		name?: boolean;
+		category?: boolean;
+		aliases?: boolean;
+		isActive?: boolean;
+		createdAt?: boolean;
+		updatedAt?: boolean;
+	},
+	ExtArgs["result"]["interest"]
+>;
+
+export type InterestSelectUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		slug?: boolean;
+		name?: boolean;
+		category?: boolean;
+		aliases?: boolean;
+		isActive?: boolean;
+		createdAt?: boolean;
+		updatedAt?: boolean;
+	},
+	ExtArgs["result"]["interest"]
+>;
+
+export type InterestSelectScalar = {
+	id?: boolean;
+	slug?: boolean;
+	name?: boolean;
+	category?: boolean;
+	aliases?: boolean;
+	isActive?: boolean;
+	createdAt?: boolean;
+	updatedAt?: boolean;
+};
+
+export type InterestOmit<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+	| "id"
+	| "slug"
+	| "name"
+	| "category"
+	| "aliases"
+	| "isActive"
+	| "createdAt"
+	| "updatedAt",
+	ExtArgs["result"]["interest"]
+>;
+
+export type $InterestPayload<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	name: "Interest";
+	objects: {};
+	scalars: runtime.Types.Extensions.GetPayloadResult<
+		{
+			id: string;
+			slug: string;
+			name: string;
+			category: string;
+			aliases: string[];
+			isActive: boolean;
+			createdAt: Date;
+			updatedAt: Date;
+		},
+		ExtArgs["result"]["interest"]
+	>;
+	composites: {};
+};
+
+export type InterestGetPayload<
+	S extends boolean | null | undefined | InterestDefaultArgs,
+> = runtime.Types.Result.GetResult<Prisma.$InterestPayload, S>;
+
+export type InterestCountArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<InterestFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+	select?: InterestCountAggregateInputType | true;
+};
+
+export interface InterestDelegate<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> {
+	[K: symbol]: {
+		types: Prisma.TypeMap<ExtArgs>["model"]["Interest"];
+		meta: { name: "Interest" };
+	};
+	/**
+	 * Find zero or one Interest that matches the filter.
+	 * @param {InterestFindUniqueArgs} args - Arguments to find a Interest
+	 * @example
+	 * // Get one Interest
+	 * const interest = await prisma.interest.findUnique({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUnique<T extends InterestFindUniqueArgs>(
+		args: Prisma.SelectSubset<T, InterestFindUniqueArgs<ExtArgs>>,
+	): Prisma.Prisma__InterestClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$InterestPayload<ExtArgs>,
+			T,
+			"findUnique",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find one Interest that matches the filter or throw an error with `error.code='P2025'`
+	 * if no matches were found.
+	 * @param {InterestFindUniqueOrThrowArgs} args - Arguments to find a Interest
+	 * @example
+	 * // Get one Interest
+	 * const interest = await prisma.interest.findUniqueOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUniqueOrThrow<T extends InterestFindUniqueOrThrowArgs>(
+		args: Prisma.SelectSubset<T, InterestFindUniqueOrThrowArgs<ExtArgs>>,
+	): Prisma.Prisma__InterestClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$InterestPayload<ExtArgs>,
+			T,
+			"findUniqueOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first Interest that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {InterestFindFirstArgs} args - Arguments to find a Interest
+	 * @example
+	 * // Get one Interest
+	 * const interest = await prisma.interest.findFirst({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirst<T extends InterestFindFirstArgs>(
+		args?: Prisma.SelectSubset<T, InterestFindFirstArgs<ExtArgs>>,
+	): Prisma.Prisma__InterestClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$InterestPayload<ExtArgs>,
+			T,
+			"findFirst",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first Interest that matches the filter or
+	 * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {InterestFindFirstOrThrowArgs} args - Arguments to find a Interest
+	 * @example
+	 * // Get one Interest
+	 * const interest = await prisma.interest.findFirstOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirstOrThrow<T extends InterestFindFirstOrThrowArgs>(
+		args?: Prisma.SelectSubset<T, InterestFindFirstOrThrowArgs<ExtArgs>>,
+	): Prisma.Prisma__InterestClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$InterestPayload<ExtArgs>,
+			T,
+			"findFirstOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find zero or more Interests that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {InterestFindManyArgs} args - Arguments to filter and select certain fields only.
+	 * @example
+	 * // Get all Interests
+	 * const interests = await prisma.interest.findMany()
+	 *
+	 * // Get first 10 Interests
+	 * const interests = await prisma.interest.findMany({ take: 10 })
+	 *
+	 * // Only select the `id`
+	 * const interestWithIdOnly = await prisma.interest.findMany({ select: { id: true } })
+	 *
+	 */
+	findMany<T extends InterestFindManyArgs>(
+		args?: Prisma.SelectSubset<T, InterestFindManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$InterestPayload<ExtArgs>,
+			T,
+			"findMany",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create a Interest.
+	 * @param {InterestCreateArgs} args - Arguments to create a Interest.
+	 * @example
+	 * // Create one Interest
+	 * const Interest = await prisma.interest.create({
+	 *   data: {
+	 *     // ... data to create a Interest
+	 *   }
+	 * })
+	 *
+	 */
+	create<T extends InterestCreateArgs>(
+		args: Prisma.SelectSubset<T, InterestCreateArgs<ExtArgs>>,
+	): Prisma.Prisma__InterestClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$InterestPayload<ExtArgs>,
+			T,
+			"create",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Create many Interests.
+	 * @param {InterestCreateManyArgs} args - Arguments to create many Interests.
+	 * @example
+	 * // Create many Interests
+	 * const interest = await prisma.interest.createMany({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 */
+	createMany<T extends InterestCreateManyArgs>(
+		args?: Prisma.SelectSubset<T, InterestCreateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Create many Interests and returns the data saved in the database.
+	 * @param {InterestCreateManyAndReturnArgs} args - Arguments to create many Interests.
+	 * @example
+	 * // Create many Interests
+	 * const interest = await prisma.interest.createManyAndReturn({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Create many Interests and only return the `id`
+	 * const interestWithIdOnly = await prisma.interest.createManyAndReturn({
+	 *   select: { id: true },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	createManyAndReturn<T extends InterestCreateManyAndReturnArgs>(
+		args?: Prisma.SelectSubset<T, InterestCreateManyAndReturnArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$InterestPayload<ExtArgs>,
+			T,
+			"createManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Delete a Interest.
+	 * @param {InterestDeleteArgs} args - Arguments to delete one Interest.
+	 * @example
+	 * // Delete one Interest
+	 * const Interest = await prisma.interest.delete({
+	 *   where: {
+	 *     // ... filter to delete one Interest
+	 *   }
+	 * })
+	 *
+	 */
+	delete<T extends InterestDeleteArgs>(
+		args: Prisma.SelectSubset<T, InterestDeleteArgs<ExtArgs>>,
+	): Prisma.Prisma__InterestClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$InterestPayload<ExtArgs>,
+			T,
+			"delete",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Update one Interest.
+	 * @param {InterestUpdateArgs} args - Arguments to update one Interest.
+	 * @example
+	 * // Update one Interest
+	 * const interest = await prisma.interest.update({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	update<T extends InterestUpdateArgs>(
+		args: Prisma.SelectSubset<T, InterestUpdateArgs<ExtArgs>>,
+	): Prisma.Prisma__InterestClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$InterestPayload<ExtArgs>,
+			T,
+			"update",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Delete zero or more Interests.
+	 * @param {InterestDeleteManyArgs} args - Arguments to filter Interests to delete.
+	 * @example
+	 * // Delete a few Interests
+	 * const { count } = await prisma.interest.deleteMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 *
+	 */
+	deleteMany<T extends InterestDeleteManyArgs>(
+		args?: Prisma.SelectSubset<T, InterestDeleteManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more Interests.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {InterestUpdateManyArgs} args - Arguments to update one or more rows.
+	 * @example
+	 * // Update many Interests
+	 * const interest = await prisma.interest.updateMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	updateMany<T extends InterestUpdateManyArgs>(
+		args: Prisma.SelectSubset<T, InterestUpdateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more Interests and returns the data updated in the database.
+	 * @param {InterestUpdateManyAndReturnArgs} args - Arguments to update many Interests.
+	 * @example
+	 * // Update many Interests
+	 * const interest = await prisma.interest.updateManyAndReturn({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Update zero or more Interests and only return the `id`
+	 * const interestWithIdOnly = await prisma.interest.updateManyAndReturn({
+	 *   select: { id: true },
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	updateManyAndReturn<T extends InterestUpdateManyAndReturnArgs>(
+		args: Prisma.SelectSubset<T, InterestUpdateManyAndReturnArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$InterestPayload<ExtArgs>,
+			T,
+			"updateManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create or update one Interest.
+	 * @param {InterestUpsertArgs} args - Arguments to update or create a Interest.
+	 * @example
+	 * // Update or create a Interest
+	 * const interest = await prisma.interest.upsert({
+	 *   create: {
+	 *     // ... data to create a Interest
+	 *   },
+	 *   update: {
+	 *     // ... in case it already exists, update
+	 *   },
+	 *   where: {
+	 *     // ... the filter for the Interest we want to update
+	 *   }
+	 * })
+	 */
+	upsert<T extends InterestUpsertArgs>(
+		args: Prisma.SelectSubset<T, InterestUpsertArgs<ExtArgs>>,
+	): Prisma.Prisma__InterestClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$InterestPayload<ExtArgs>,
+			T,
+			"upsert",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Count the number of Interests.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {InterestCountArgs} args - Arguments to filter Interests to count.
+	 * @example
+	 * // Count the number of Interests
+	 * const count = await prisma.interest.count({
+	 *   where: {
+	 *     // ... the filter for the Interests we want to count
+	 *   }
+	 * })
+	 **/
+	count<T extends InterestCountArgs>(
+		args?: Prisma.Subset<T, InterestCountArgs>,
+	): Prisma.PrismaPromise<
+		T extends runtime.Types.Utils.Record<"select", any>
+			? T["select"] extends true
+				? number
+				: Prisma.GetScalarType<T["select"], InterestCountAggregateOutputType>
+			: number
+	>;
+
+	/**
+	 * Allows you to perform aggregations operations on a Interest.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {InterestAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+	 * @example
+	 * // Ordered by age ascending
+	 * // Where email contains prisma.io
+	 * // Limited to the 10 users
+	 * const aggregations = await prisma.user.aggregate({
+	 *   _avg: {
+	 *     age: true,
+	 *   },
+	 *   where: {
+	 *     email: {
+	 *       contains: "prisma.io",
+	 *     },
+	 *   },
+	 *   orderBy: {
+	 *     age: "asc",
+	 *   },
+	 *   take: 10,
+	 * })
+	 **/
+	aggregate<T extends InterestAggregateArgs>(
+		args: Prisma.Subset<T, InterestAggregateArgs>,
+	): Prisma.PrismaPromise<GetInterestAggregateType<T>>;
+
+	/**
+	 * Group by Interest.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {InterestGroupByArgs} args - Group by arguments.
+	 * @example
+	 * // Group by city, order by createdAt, get count
+	 * const result = await prisma.user.groupBy({
+	 *   by: ['city', 'createdAt'],
+	 *   orderBy: {
+	 *     createdAt: true
+	 *   },
+	 *   _count: {
+	 *     _all: true
+	 *   },
+	 * })
+	 *
+	 **/
+	groupBy<
+		T extends InterestGroupByArgs,
+		HasSelectOrTake extends Prisma.Or<
+			Prisma.Extends<"skip", Prisma.Keys<T>>,
+			Prisma.Extends<"take", Prisma.Keys<T>>
+		>,
+		OrderByArg extends Prisma.True extends HasSelectOrTake
+			? { orderBy: InterestGroupByArgs["orderBy"] }
+			: { orderBy?: InterestGroupByArgs["orderBy"] },
+		OrderFields extends Prisma.ExcludeUnderscoreKeys<
+			Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+		>,
+		ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+		ByValid extends Prisma.Has<ByFields, OrderFields>,
+		HavingFields extends Prisma.GetHavingFields<T["having"]>,
+		HavingValid extends Prisma.Has<ByFields, HavingFields>,
+		ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+		InputErrors extends ByEmpty extends Prisma.True
+			? `Error: "by" must not be empty.`
+			: HavingValid extends Prisma.False
+				? {
+						[P in HavingFields]: P extends ByFields
+							? never
+							: P extends string
+								? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+								: [
+										Error,
+										"Field ",
+										P,
+										` in "having" needs to be provided in "by"`,
+									];
+					}[HavingFields]
+				: "take" extends Prisma.Keys<T>
+					? "orderBy" extends Prisma.Keys<T>
+						? ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields]
+						: 'Error: If you provide "take", you also need to provide "orderBy"'
+					: "skip" extends Prisma.Keys<T>
+						? "orderBy" extends Prisma.Keys<T>
+							? ByValid extends Prisma.True
+								? {}
+								: {
+										[P in OrderFields]: P extends ByFields
+											? never
+											: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+									}[OrderFields]
+							: 'Error: If you provide "skip", you also need to provide "orderBy"'
+						: ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields],
+	>(
+		args: Prisma.SubsetIntersection<T, InterestGroupByArgs, OrderByArg> &
+			InputErrors,
+	): {} extends InputErrors
+		? GetInterestGroupByPayload<T>
+		: Prisma.PrismaPromise<InputErrors>;
+	/**
+	 * Fields of the Interest model
+	 */
+	readonly fields: InterestFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Interest.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__InterestClient<
+	T,
+	Null = never,
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+	readonly [Symbol.toStringTag]: "PrismaPromise";
+	/**
+	 * Attaches callbacks for the resolution and/or rejection of the Promise.
+	 * @param onfulfilled The callback to execute when the Promise is resolved.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of which ever callback is executed.
+	 */
+	then<TResult1 = T, TResult2 = never>(
+		onfulfilled?:
+			| ((value: T) => TResult1 | PromiseLike<TResult1>)
+			| undefined
+			| null,
+		onrejected?:
+			| ((reason: any) => TResult2 | PromiseLike<TResult2>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+	/**
+	 * Attaches a callback for only the rejection of the Promise.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of the callback.
+	 */
+	catch<TResult = never>(
+		onrejected?:
+			| ((reason: any) => TResult | PromiseLike<TResult>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<T | TResult>;
+	/**
+	 * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+	 * resolved value cannot be modified from the callback.
+	 * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+	 * @returns A Promise for the completion of the callback.
+	 */
+	finally(
+		onfinally?: (() => void) | undefined | null,
+	): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the Interest model
+ */
+export interface InterestFieldRefs {
+	readonly id: Prisma.FieldRef<"Interest", "String">;
+	readonly slug: Prisma.FieldRef<"Interest", "String">;
+	readonly name: Prisma.FieldRef<"Interest", "String">;
+	readonly category: Prisma.FieldRef<"Interest", "String">;
+	readonly aliases: Prisma.FieldRef<"Interest", "String[]">;
+	readonly isActive: Prisma.FieldRef<"Interest", "Boolean">;
+	readonly createdAt: Prisma.FieldRef<"Interest", "DateTime">;
+	readonly updatedAt: Prisma.FieldRef<"Interest", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * Interest findUnique
+ */
+export type InterestFindUniqueArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+	/**
+	 * Filter, which Interest to fetch.
+	 */
+	where: Prisma.InterestWhereUniqueInput;
+};
+
+/**
+ * Interest findUniqueOrThrow
+ */
+export type InterestFindUniqueOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+	/**
+	 * Filter, which Interest to fetch.
+	 */
+	where: Prisma.InterestWhereUniqueInput;
+};
+
+/**
+ * Interest findFirst
+ */
+export type InterestFindFirstArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+	/**
+	 * Filter, which Interest to fetch.
+	 */
+	where?: Prisma.InterestWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of Interests to fetch.
+	 */
+	orderBy?:
+		| Prisma.InterestOrderByWithRelationInput
+		| Prisma.InterestOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for Interests.
+	 */
+	cursor?: Prisma.InterestWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` Interests from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` Interests.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of Interests.
+	 */
+	distinct?: Prisma.InterestScalarFieldEnum | Prisma.InterestScalarFieldEnum[];
+};
+
+/**
+ * Interest findFirstOrThrow
+ */
+export type InterestFindFirstOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+	/**
+	 * Filter, which Interest to fetch.
+	 */
+	where?: Prisma.InterestWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of Interests to fetch.
+	 */
+	orderBy?:
+		| Prisma.InterestOrderByWithRelationInput
+		| Prisma.InterestOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for Interests.
+	 */
+	cursor?: Prisma.InterestWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` Interests from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` Interests.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of Interests.
+	 */
+	distinct?: Prisma.InterestScalarFieldEnum | Prisma.InterestScalarFieldEnum[];
+};
+
+/**
+ * Interest findMany
+ */
+export type InterestFindManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+	/**
+	 * Filter, which Interests to fetch.
+	 */
+	where?: Prisma.InterestWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of Interests to fetch.
+	 */
+	orderBy?:
+		| Prisma.InterestOrderByWithRelationInput
+		| Prisma.InterestOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for listing Interests.
+	 */
+	cursor?: Prisma.InterestWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` Interests from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` Interests.
+	 */
+	skip?: number;
+	distinct?: Prisma.InterestScalarFieldEnum | Prisma.InterestScalarFieldEnum[];
+};
+
+/**
+ * Interest create
+ */
+export type InterestCreateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+	/**
+	 * The data needed to create a Interest.
+	 */
+	data: Prisma.XOR<
+		Prisma.InterestCreateInput,
+		Prisma.InterestUncheckedCreateInput
+	>;
+};
+
+/**
+ * Interest createMany
+ */
+export type InterestCreateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to create many Interests.
+	 */
+	data: Prisma.InterestCreateManyInput | Prisma.InterestCreateManyInput[];
+	skipDuplicates?: boolean;
+};
+
+/**
+ * Interest createManyAndReturn
+ */
+export type InterestCreateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelectCreateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+	/**
+	 * The data used to create many Interests.
+	 */
+	data: Prisma.InterestCreateManyInput | Prisma.InterestCreateManyInput[];
+	skipDuplicates?: boolean;
+};
+
+/**
+ * Interest update
+ */
+export type InterestUpdateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+	/**
+	 * The data needed to update a Interest.
+	 */
+	data: Prisma.XOR<
+		Prisma.InterestUpdateInput,
+		Prisma.InterestUncheckedUpdateInput
+	>;
+	/**
+	 * Choose, which Interest to update.
+	 */
+	where: Prisma.InterestWhereUniqueInput;
+};
+
+/**
+ * Interest updateMany
+ */
+export type InterestUpdateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to update Interests.
+	 */
+	data: Prisma.XOR<
+		Prisma.InterestUpdateManyMutationInput,
+		Prisma.InterestUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which Interests to update
+	 */
+	where?: Prisma.InterestWhereInput;
+	/**
+	 * Limit how many Interests to update.
+	 */
+	limit?: number;
+};
+
+/**
+ * Interest updateManyAndReturn
+ */
+export type InterestUpdateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelectUpdateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+	/**
+	 * The data used to update Interests.
+	 */
+	data: Prisma.XOR<
+		Prisma.InterestUpdateManyMutationInput,
+		Prisma.InterestUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which Interests to update
+	 */
+	where?: Prisma.InterestWhereInput;
+	/**
+	 * Limit how many Interests to update.
+	 */
+	limit?: number;
+};
+
+/**
+ * Interest upsert
+ */
+export type InterestUpsertArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+	/**
+	 * The filter to search for the Interest to update in case it exists.
+	 */
+	where: Prisma.InterestWhereUniqueInput;
+	/**
+	 * In case the Interest found by the `where` argument doesn't exist, create a new Interest with this data.
+	 */
+	create: Prisma.XOR<
+		Prisma.InterestCreateInput,
+		Prisma.InterestUncheckedCreateInput
+	>;
+	/**
+	 * In case the Interest was found with the provided `where` argument, update it with this data.
+	 */
+	update: Prisma.XOR<
+		Prisma.InterestUpdateInput,
+		Prisma.InterestUncheckedUpdateInput
+	>;
+};
+
+/**
+ * Interest delete
+ */
+export type InterestDeleteArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+	/**
+	 * Filter which Interest to delete.
+	 */
+	where: Prisma.InterestWhereUniqueInput;
+};
+
+/**
+ * Interest deleteMany
+ */
+export type InterestDeleteManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which Interests to delete
+	 */
+	where?: Prisma.InterestWhereInput;
+	/**
+	 * Limit how many Interests to delete.
+	 */
+	limit?: number;
+};
+
+/**
+ * Interest without action
+ */
+export type InterestDefaultArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Interest
+	 */
+	select?: Prisma.InterestSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Interest
+	 */
+	omit?: Prisma.InterestOmit<ExtArgs> | null;
+};
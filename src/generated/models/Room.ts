@@ -31,6 +31,7 @@ export type RoomMinAggregateOutputType = {
 	anonUser1Id: string | null;
 	user2Id: string | null;
 	anonUser2Id: string | null;
+	topic: string | null;
 	createdAt: Date | null;
 	updatedAt: Date | null;
 };
@@ -42,6 +43,7 @@ export type RoomMaxAggregateOutputType = {
 	anonUser1Id: string | null;
 	user2Id: string | null;
 	anonUser2Id: string | null;
+	topic: string | null;
 	createdAt: Date | null;
 	updatedAt: Date | null;
 };
@@ -53,6 +55,7 @@ export type RoomCountAggregateOutputType = {
 	anonUser1Id: number;
 	user2Id: number;
 	anonUser2Id: number;
+	topic: number;
 	createdAt: number;
 	updatedAt: number;
 	_all: number;
@@ -65,6 +68,7 @@ export type RoomMinAggregateInputType = {
 	anonUser1Id?: true;
 	user2Id?: true;
 	anonUser2Id?: true;
+	topic?: true;
 	createdAt?: true;
 	updatedAt?: true;
 };
@@ -76,6 +80,7 @@ export type RoomMaxAggregateInputType = {
 	anonUser1Id?: true;
 	user2Id?: true;
 	anonUser2Id?: true;
+	topic?: true;
 	createdAt?: true;
 	updatedAt?: true;
 };
@@ -87,6 +92,7 @@ export type RoomCountAggregateInputType = {
 	anonUser1Id?: true;
 	user2Id?: true;
 	anonUser2Id?: true;
+	topic?: true;
 	createdAt?: true;
 	updatedAt?: true;
 	_all?: true;
@@ -178,6 +184,7 @@ export type RoomGroupByOutputType = {
 	anonUser1Id: string | null;
 	user2Id: string | null;
 	anonUser2Id: string | null;
+	topic: string | null;
 	createdAt: Date;
 	updatedAt: Date;
 	_count: RoomCountAggregateOutputType | null;
@@ -207,9 +214,11 @@ export type RoomWhereInput = {
 	anonUser1Id?: Prisma.StringNullableFilter<"Room"> | string | null;
 	user2Id?: Prisma.StringNullableFilter<"Room"> | string | null;
 	anonUser2Id?: Prisma.StringNullableFilter<"Room"> | string | null;
+	topic?: Prisma.StringNullableFilter<"Room"> | string | null;
 	createdAt?: Prisma.DateTimeFilter<"Room"> | Date | string;
 	updatedAt?: Prisma.DateTimeFilter<"Room"> | Date | string;
 	messages?: Prisma.TextListRelationFilter;
+	participants?: Prisma.RoomParticipantListRelationFilter;
 };
 
 export type RoomOrderByWithRelationInput = {
@@ -219,9 +228,11 @@ export type RoomOrderByWithRelationInput = {
 	anonUser1Id?: Prisma.SortOrderInput | Prisma.SortOrder;
 	user2Id?: Prisma.SortOrderInput | Prisma.SortOrder;
 	anonUser2Id?: Prisma.SortOrderInput | Prisma.SortOrder;
+	topic?: Prisma.SortOrderInput | Prisma.SortOrder;
 	createdAt?: Prisma.SortOrder;
 	updatedAt?: Prisma.SortOrder;
 	messages?: Prisma.TextOrderByRelationAggregateInput;
+	participants?: Prisma.RoomParticipantOrderByRelationAggregateInput;
 };
 
 export type RoomWhereUniqueInput = Prisma.AtLeast<
@@ -235,9 +246,11 @@ export type RoomWhereUniqueInput = Prisma.AtLeast<
 		anonUser1Id?: Prisma.StringNullableFilter<"Room"> | string | null;
 		user2Id?: Prisma.StringNullableFilter<"Room"> | string | null;
 		anonUser2Id?: Prisma.StringNullableFilter<"Room"> | string | null;
+		topic?: Prisma.StringNullableFilter<"Room"> | string | null;
 		createdAt?: Prisma.DateTimeFilter<"Room"> | Date | string;
 		updatedAt?: Prisma.DateTimeFilter<"Room"> | Date | string;
 		messages?: Prisma.TextListRelationFilter;
+		participants?: Prisma.RoomParticipantListRelationFilter;
 	},
 	"id"
 >;
@@ -249,6 +262,7 @@ export type RoomOrderByWithAggregationInput = {
 	anonUser1Id?: Prisma.SortOrderInput | Prisma.SortOrder;
 	user2Id?: Prisma.SortOrderInput | Prisma.SortOrder;
 	anonUser2Id?: Prisma.SortOrderInput | Prisma.SortOrder;
+	topic?: Prisma.SortOrderInput | Prisma.SortOrder;
 	createdAt?: Prisma.SortOrder;
 	updatedAt?: Prisma.SortOrder;
 	_count?: Prisma.RoomCountOrderByAggregateInput;
@@ -276,6 +290,7 @@ export type RoomScalarWhereWithAggregatesInput = {
 		| Prisma.StringNullableWithAggregatesFilter<"Room">
 		| string
 		| null;
+	topic?: Prisma.StringNullableWithAggregatesFilter<"Room"> | string | null;
 	createdAt?: Prisma.DateTimeWithAggregatesFilter<"Room"> | Date | string;
 	updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Room"> | Date | string;
 };
@@ -287,9 +302,11 @@ export type RoomCreateInput = {
 	anonUser1Id?: string | null;
 	user2Id?: string | null;
 	anonUser2Id?: string | null;
+	topic?: string | null;
 	createdAt?: Date | string;
 	updatedAt?: Date | string;
 	messages?: Prisma.TextCreateNestedManyWithoutRoomInput;
+	participants?: Prisma.RoomParticipantCreateNestedManyWithoutRoomInput;
 };
 
 export type RoomUncheckedCreateInput = {
@@ -299,9 +316,11 @@ export type RoomUncheckedCreateInput = {
 	anonUser1Id?: string | null;
 	user2Id?: string | null;
 	anonUser2Id?: string | null;
+	topic?: string | null;
 	createdAt?: Date | string;
 	updatedAt?: Date | string;
 	messages?: Prisma.TextUncheckedCreateNestedManyWithoutRoomInput;
+	participants?: Prisma.RoomParticipantUncheckedCreateNestedManyWithoutRoomInput;
 };
 
 export type RoomUpdateInput = {
@@ -311,9 +330,11 @@ export type RoomUpdateInput = {
 	anonUser1Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	user2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	anonUser2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	topic?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 	messages?: Prisma.TextUpdateManyWithoutRoomNestedInput;
+	participants?: Prisma.RoomParticipantUpdateManyWithoutRoomNestedInput;
 };
 
 export type RoomUncheckedUpdateInput = {
@@ -323,9 +344,11 @@ export type RoomUncheckedUpdateInput = {
 	anonUser1Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	user2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	anonUser2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	topic?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 	messages?: Prisma.TextUncheckedUpdateManyWithoutRoomNestedInput;
+	participants?: Prisma.RoomParticipantUncheckedUpdateManyWithoutRoomNestedInput;
 };
 
 export type RoomCreateManyInput = {
@@ -335,6 +358,7 @@ export type RoomCreateManyInput = {
 	anonUser1Id?: string | null;
 	user2Id?: string | null;
 	anonUser2Id?: string | null;
+	topic?: string | null;
 	createdAt?: Date | string;
 	updatedAt?: Date | string;
 };
@@ -346,6 +370,7 @@ export type RoomUpdateManyMutationInput = {
 	anonUser1Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	user2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	anonUser2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	topic?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -357,6 +382,7 @@ export type RoomUncheckedUpdateManyInput = {
 	anonUser1Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	user2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	anonUser2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	topic?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -373,6 +399,7 @@ export type RoomCountOrderByAggregateInput = {
 	anonUser1Id?: Prisma.SortOrder;
 	user2Id?: Prisma.SortOrder;
 	anonUser2Id?: Prisma.SortOrder;
+	topic?: Prisma.SortOrder;
 	createdAt?: Prisma.SortOrder;
 	updatedAt?: Prisma.SortOrder;
 };
@@ -384,6 +411,7 @@ export type RoomMaxOrderByAggregateInput = {
 	anonUser1Id?: Prisma.SortOrder;
 	user2Id?: Prisma.SortOrder;
 	anonUser2Id?: Prisma.SortOrder;
+	topic?: Prisma.SortOrder;
 	createdAt?: Prisma.SortOrder;
 	updatedAt?: Prisma.SortOrder;
 };
@@ -395,6 +423,7 @@ export type RoomMinOrderByAggregateInput = {
 	anonUser1Id?: Prisma.SortOrder;
 	user2Id?: Prisma.SortOrder;
 	anonUser2Id?: Prisma.SortOrder;
+	topic?: Prisma.SortOrder;
 	createdAt?: Prisma.SortOrder;
 	updatedAt?: Prisma.SortOrder;
 };
@@ -429,6 +458,32 @@ export type EnumRoomTypeFieldUpdateOperationsInput = {
 	set?: $Enums.RoomType;
 };
 
+export type RoomCreateNestedOneWithoutParticipantsInput = {
+	create?: Prisma.XOR<
+		Prisma.RoomCreateWithoutParticipantsInput,
+		Prisma.RoomUncheckedCreateWithoutParticipantsInput
+	>;
+	connectOrCreate?: Prisma.RoomCreateOrConnectWithoutParticipantsInput;
+	connect?: Prisma.RoomWhereUniqueInput;
+};
+
+export type RoomUpdateOneRequiredWithoutParticipantsNestedInput = {
+	create?: Prisma.XOR<
+		Prisma.RoomCreateWithoutParticipantsInput,
+		Prisma.RoomUncheckedCreateWithoutParticipantsInput
+	>;
+	connectOrCreate?: Prisma.RoomCreateOrConnectWithoutParticipantsInput;
+	upsert?: Prisma.RoomUpsertWithoutParticipantsInput;
+	connect?: Prisma.RoomWhereUniqueInput;
+	update?: Prisma.XOR<
+		Prisma.XOR<
+			Prisma.RoomUpdateToOneWithWhereWithoutParticipantsInput,
+			Prisma.RoomUpdateWithoutParticipantsInput
+		>,
+		Prisma.RoomUncheckedUpdateWithoutParticipantsInput
+	>;
+};
+
 export type RoomCreateWithoutMessagesInput = {
 	id?: string;
 	type: $Enums.RoomType;
@@ -436,8 +491,10 @@ export type RoomCreateWithoutMessagesInput = {
 	anonUser1Id?: string | null;
 	user2Id?: string | null;
 	anonUser2Id?: string | null;
+	topic?: string | null;
 	createdAt?: Date | string;
 	updatedAt?: Date | string;
+	participants?: Prisma.RoomParticipantCreateNestedManyWithoutRoomInput;
 };
 
 export type RoomUncheckedCreateWithoutMessagesInput = {
@@ -447,8 +504,10 @@ export type RoomUncheckedCreateWithoutMessagesInput = {
 	anonUser1Id?: string | null;
 	user2Id?: string | null;
 	anonUser2Id?: string | null;
+	topic?: string | null;
 	createdAt?: Date | string;
 	updatedAt?: Date | string;
+	participants?: Prisma.RoomParticipantUncheckedCreateNestedManyWithoutRoomInput;
 };
 
 export type RoomCreateOrConnectWithoutMessagesInput = {
@@ -486,8 +545,10 @@ export type RoomUpdateWithoutMessagesInput = {
 	anonUser1Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	user2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	anonUser2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	topic?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	participants?: Prisma.RoomParticipantUpdateManyWithoutRoomNestedInput;
 };
 
 export type RoomUncheckedUpdateWithoutMessagesInput = {
@@ -497,8 +558,90 @@ export type RoomUncheckedUpdateWithoutMessagesInput = {
 	anonUser1Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	user2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	anonUser2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	topic?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	participants?: Prisma.RoomParticipantUncheckedUpdateManyWithoutRoomNestedInput;
+};
+
+export type RoomCreateWithoutParticipantsInput = {
+	id?: string;
+	type: $Enums.RoomType;
+	user1Id?: string | null;
+	anonUser1Id?: string | null;
+	user2Id?: string | null;
+	anonUser2Id?: string | null;
+	topic?: string | null;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	messages?: Prisma.TextCreateNestedManyWithoutRoomInput;
+};
+
+export type RoomUncheckedCreateWithoutParticipantsInput = {
+	id?: string;
+	type: $Enums.RoomType;
+	user1Id?: string | null;
+	anonUser1Id?: string | null;
+	user2Id?: string | null;
+	anonUser2Id?: string | null;
+	topic?: string | null;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	messages?: Prisma.TextUncheckedCreateNestedManyWithoutRoomInput;
+};
+
+export type RoomCreateOrConnectWithoutParticipantsInput = {
+	where: Prisma.RoomWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.RoomCreateWithoutParticipantsInput,
+		Prisma.RoomUncheckedCreateWithoutParticipantsInput
+	>;
+};
+
+export type RoomUpsertWithoutParticipantsInput = {
+	update: Prisma.XOR<
+		Prisma.RoomUpdateWithoutParticipantsInput,
+		Prisma.RoomUncheckedUpdateWithoutParticipantsInput
+	>;
+	create: Prisma.XOR<
+		Prisma.RoomCreateWithoutParticipantsInput,
+		Prisma.RoomUncheckedCreateWithoutParticipantsInput
+	>;
+	where?: Prisma.RoomWhereInput;
+};
+
+export type RoomUpdateToOneWithWhereWithoutParticipantsInput = {
+	where?: Prisma.RoomWhereInput;
+	data: Prisma.XOR<
+		Prisma.RoomUpdateWithoutParticipantsInput,
+		Prisma.RoomUncheckedUpdateWithoutParticipantsInput
+	>;
+};
+
+export type RoomUpdateWithoutParticipantsInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	type?: Prisma.EnumRoomTypeFieldUpdateOperationsInput | $Enums.RoomType;
+	user1Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	anonUser1Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	user2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	anonUser2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	topic?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	messages?: Prisma.TextUpdateManyWithoutRoomNestedInput;
+};
+
+export type RoomUncheckedUpdateWithoutParticipantsInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	type?: Prisma.EnumRoomTypeFieldUpdateOperationsInput | $Enums.RoomType;
+	user1Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	anonUser1Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	user2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	anonUser2Id?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	topic?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	messages?: Prisma.TextUncheckedUpdateManyWithoutRoomNestedInput;
 };
 
 /**
@@ -507,6 +650,7 @@ export type RoomUncheckedUpdateWithoutMessagesInput = {
 
 export type RoomCountOutputType = {
 	messages: number;
+	participants: number;
 };
 
 export type RoomCountOutputTypeSelect<
@@ -514,6 +658,7 @@ export type RoomCountOutputTypeSelect<
 		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = {
 	messages?: boolean | RoomCountOutputTypeCountMessagesArgs;
+	participants?: boolean | RoomCountOutputTypeCountParticipantsArgs;
 };
 
 /**
@@ -539,6 +684,16 @@ export type RoomCountOutputTypeCountMessagesArgs<
 	where?: Prisma.TextWhereInput;
 };
 
+/**
+ * RoomCountOutputType without action
+ */
+export type RoomCountOutputTypeCountParticipantsArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.RoomParticipantWhereInput;
+};
+
 export type RoomSelect<
 	ExtArgs extends
 		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
@@ -550,9 +705,11 @@ export type RoomSelect<
 		anonUser1Id?: boolean;
 		user2Id?: boolean;
 		anonUser2Id?: boolean;
+		topic?: boolean;
 		createdAt?: boolean;
 		updatedAt?: boolean;
 		messages?: boolean | Prisma.Room$messagesArgs<ExtArgs>;
+		participants?: boolean | Prisma.Room$participantsArgs<ExtArgs>;
 		_count?: boolean | Prisma.RoomCountOutputTypeDefaultArgs<ExtArgs>;
 	},
 	ExtArgs["result"]["room"]
@@ -569,6 +726,7 @@ export type RoomSelectCreateManyAndReturn<
 		anonUser1Id?: boolean;
 		user2Id?: boolean;
 		anonUser2Id?: boolean;
+		topic?: boolean;
 		createdAt?: boolean;
 		updatedAt?: boolean;
 	},
@@ -586,6 +744,7 @@ export type RoomSelectUpdateManyAndReturn<
 		anonUser1Id?: boolean;
 		user2Id?: boolean;
 		anonUser2Id?: boolean;
+		topic?: boolean;
 		createdAt?: boolean;
 		updatedAt?: boolean;
 	},
@@ -599,6 +758,7 @@ export type RoomSelectScalar = {
 	anonUser1Id?: boolean;
 	user2Id?: boolean;
 	anonUser2Id?: boolean;
+	topic?: boolean;
 	createdAt?: boolean;
 	updatedAt?: boolean;
 };
@@ -613,6 +773,7 @@ export type RoomOmit<
 	| "anonUser1Id"
 	| "user2Id"
 	| "anonUser2Id"
+	| "topic"
 	| "createdAt"
 	| "updatedAt",
 	ExtArgs["result"]["room"]
@@ -622,6 +783,7 @@ export type RoomInclude<
 		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > = {
 	messages?: boolean | Prisma.Room$messagesArgs<ExtArgs>;
+	participants?: boolean | Prisma.Room$participantsArgs<ExtArgs>;
 	_count?: boolean | Prisma.RoomCountOutputTypeDefaultArgs<ExtArgs>;
 };
 export type RoomIncludeCreateManyAndReturn<
@@ -640,6 +802,7 @@ export type $RoomPayload<
 	name: "Room";
 	objects: {
 		messages: Prisma.$TextPayload<ExtArgs>[];
+		participants: Prisma.$RoomParticipantPayload<ExtArgs>[];
 	};
 	scalars: runtime.Types.Extensions.GetPayloadResult<
 		{
@@ -649,6 +812,7 @@ export type $RoomPayload<
 			anonUser1Id: string | null;
 			user2Id: string | null;
 			anonUser2Id: string | null;
+			topic: string | null;
 			createdAt: Date;
 			updatedAt: Date;
 		},
@@ -1212,6 +1376,17 @@ export interface Prisma__RoomClient<
 		  >
 		| Null
 	>;
+	participants<T extends Prisma.Room$participantsArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.Room$participantsArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		| runtime.Types.Result.GetResult<
+				Prisma.$RoomParticipantPayload<ExtArgs>,
+				T,
+				"findMany",
+				GlobalOmitOptions
+		  >
+		| Null
+	>;
 	/**
 	 * Attaches callbacks for the resolution and/or rejection of the Promise.
 	 * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1260,6 +1435,7 @@ export interface RoomFieldRefs {
 	readonly anonUser1Id: Prisma.FieldRef<"Room", "String">;
 	readonly user2Id: Prisma.FieldRef<"Room", "String">;
 	readonly anonUser2Id: Prisma.FieldRef<"Room", "String">;
+	readonly topic: Prisma.FieldRef<"Room", "String">;
 	readonly createdAt: Prisma.FieldRef<"Room", "DateTime">;
 	readonly updatedAt: Prisma.FieldRef<"Room", "DateTime">;
 }
@@ -1731,6 +1907,37 @@ export type Room$messagesArgs<
 	distinct?: Prisma.TextScalarFieldEnum | Prisma.TextScalarFieldEnum[];
 };
 
+/**
+ * Room.participants
+ */
+export type Room$participantsArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantInclude<ExtArgs> | null;
+	where?: Prisma.RoomParticipantWhereInput;
+	orderBy?:
+		| Prisma.RoomParticipantOrderByWithRelationInput
+		| Prisma.RoomParticipantOrderByWithRelationInput[];
+	cursor?: Prisma.RoomParticipantWhereUniqueInput;
+	take?: number;
+	skip?: number;
+	distinct?:
+		| Prisma.RoomParticipantScalarFieldEnum
+		| Prisma.RoomParticipantScalarFieldEnum[];
+};
+
 /**
  * Room without action
  */
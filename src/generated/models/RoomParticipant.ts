@@ -0,0 +1,1843 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `RoomParticipant` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model RoomParticipant
+ *
+ */
+export type RoomParticipantModel =
+	runtime.Types.Result.DefaultSelection<Prisma.$RoomParticipantPayload>;
+
+export type AggregateRoomParticipant = {
+	_count: RoomParticipantCountAggregateOutputType | null;
+	_min: RoomParticipantMinAggregateOutputType | null;
+	_max: RoomParticipantMaxAggregateOutputType | null;
+};
+
+export type RoomParticipantMinAggregateOutputType = {
+	id: string | null;
+	roomId: string | null;
+	userId: string | null;
+	anonId: string | null;
+	joinedAt: Date | null;
+	leftAt: Date | null;
+};
+
+export type RoomParticipantMaxAggregateOutputType = {
+	id: string | null;
+	roomId: string | null;
+	userId: string | null;
+	anonId: string | null;
+	joinedAt: Date | null;
+	leftAt: Date | null;
+};
+
+export type RoomParticipantCountAggregateOutputType = {
+	id: number;
+	roomId: number;
+	userId: number;
+	anonId: number;
+	joinedAt: number;
+	leftAt: number;
+	_all: number;
+};
+
+export type RoomParticipantMinAggregateInputType = {
+	id?: true;
+	roomId?: true;
+	userId?: true;
+	anonId?: true;
+	joinedAt?: true;
+	leftAt?: true;
+};
+
+export type RoomParticipantMaxAggregateInputType = {
+	id?: true;
+	roomId?: true;
+	userId?: true;
+	anonId?: true;
+	joinedAt?: true;
+	leftAt?: true;
+};
+
+export type RoomParticipantCountAggregateInputType = {
+	id?: true;
+	roomId?: true;
+	userId?: true;
+	anonId?: true;
+	joinedAt?: true;
+	leftAt?: true;
+	_all?: true;
+};
+
+export type RoomParticipantAggregateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which RoomParticipant to aggregate.
+	 */
+	where?: Prisma.RoomParticipantWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of RoomParticipants to fetch.
+	 */
+	orderBy?:
+		| Prisma.RoomParticipantOrderByWithRelationInput
+		| Prisma.RoomParticipantOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the start position
+	 */
+	cursor?: Prisma.RoomParticipantWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` RoomParticipants from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` RoomParticipants.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Count returned RoomParticipants
+	 **/
+	_count?: true | RoomParticipantCountAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the minimum value
+	 **/
+	_min?: RoomParticipantMinAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the maximum value
+	 **/
+	_max?: RoomParticipantMaxAggregateInputType;
+};
+
+export type GetRoomParticipantAggregateType<
+	T extends RoomParticipantAggregateArgs,
+> = {
+	[P in keyof T & keyof AggregateRoomParticipant]: P extends "_count" | "count"
+		? T[P] extends true
+			? number
+			: Prisma.GetScalarType<T[P], AggregateRoomParticipant[P]>
+		: Prisma.GetScalarType<T[P], AggregateRoomParticipant[P]>;
+};
+
+export type RoomParticipantGroupByArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.RoomParticipantWhereInput;
+	orderBy?:
+		| Prisma.RoomParticipantOrderByWithAggregationInput
+		| Prisma.RoomParticipantOrderByWithAggregationInput[];
+	by:
+		| Prisma.RoomParticipantScalarFieldEnum[]
+		| Prisma.RoomParticipantScalarFieldEnum;
+	having?: Prisma.RoomParticipantScalarWhereWithAggregatesInput;
+	take?: number;
+	skip?: number;
+	_count?: RoomParticipantCountAggregateInputType | true;
+	_min?: RoomParticipantMinAggregateInputType;
+	_max?: RoomParticipantMaxAggregateInputType;
+};
+
+export type RoomParticipantGroupByOutputType = {
+	id: string;
+	roomId: string;
+	userId: string | null;
+	anonId: string;
+	joinedAt: Date;
+	leftAt: Date | null;
+	_count: RoomParticipantCountAggregateOutputType | null;
+	_min: RoomParticipantMinAggregateOutputType | null;
+	_max: RoomParticipantMaxAggregateOutputType | null;
+};
+
+type GetRoomParticipantGroupByPayload<T extends RoomParticipantGroupByArgs> =
+	Prisma.PrismaPromise<
+		Array<
+			Prisma.PickEnumerable<RoomParticipantGroupByOutputType, T["by"]> & {
+				[P in keyof T &
+					keyof RoomParticipantGroupByOutputType]: P extends "_count"
+					? T[P] extends boolean
+						? number
+						: Prisma.GetScalarType<T[P], RoomParticipantGroupByOutputType[P]>
+					: Prisma.GetScalarType<T[P], RoomParticipantGroupByOutputType[P]>;
+			}
+		>
+	>;
+
+export type RoomParticipantWhereInput = {
+	AND?: Prisma.RoomParticipantWhereInput | Prisma.RoomParticipantWhereInput[];
+	OR?: Prisma.RoomParticipantWhereInput[];
+	NOT?: Prisma.RoomParticipantWhereInput | Prisma.RoomParticipantWhereInput[];
+	id?: Prisma.StringFilter<"RoomParticipant"> | string;
+	roomId?: Prisma.StringFilter<"RoomParticipant"> | string;
+	userId?: Prisma.StringNullableFilter<"RoomParticipant"> | string | null;
+	anonId?: Prisma.StringFilter<"RoomParticipant"> | string;
+	joinedAt?: Prisma.DateTimeFilter<"RoomParticipant"> | Date | string;
+	leftAt?:
+		| Prisma.DateTimeNullableFilter<"RoomParticipant">
+		| Date
+		| string
+		| null;
+	room?: Prisma.XOR<Prisma.RoomScalarRelationFilter, Prisma.RoomWhereInput>;
+};
+
+export type RoomParticipantOrderByWithRelationInput = {
+	id?: Prisma.SortOrder;
+	roomId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrderInput | Prisma.SortOrder;
+	anonId?: Prisma.SortOrder;
+	joinedAt?: Prisma.SortOrder;
+	leftAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+	room?: Prisma.RoomOrderByWithRelationInput;
+};
+
+export type RoomParticipantWhereUniqueInput = Prisma.AtLeast<
+	{
+		id?: string;
+		roomId_anonId?: Prisma.RoomParticipantRoomIdAnonIdCompoundUniqueInput;
+		AND?: Prisma.RoomParticipantWhereInput | Prisma.RoomParticipantWhereInput[];
+		OR?: Prisma.RoomParticipantWhereInput[];
+		NOT?: Prisma.RoomParticipantWhereInput | Prisma.RoomParticipantWhereInput[];
+		roomId?: Prisma.StringFilter<"RoomParticipant"> | string;
+		userId?: Prisma.StringNullableFilter<"RoomParticipant"> | string | null;
+		anonId?: Prisma.StringFilter<"RoomParticipant"> | string;
+		joinedAt?: Prisma.DateTimeFilter<"RoomParticipant"> | Date | string;
+		leftAt?:
+			| Prisma.DateTimeNullableFilter<"RoomParticipant">
+			| Date
+			| string
+			| null;
+		room?: Prisma.XOR<Prisma.RoomScalarRelationFilter, Prisma.RoomWhereInput>;
+	},
+	"id" | "roomId_anonId"
+>;
+
+export type RoomParticipantOrderByWithAggregationInput = {
+	id?: Prisma.SortOrder;
+	roomId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrderInput | Prisma.SortOrder;
+	anonId?: Prisma.SortOrder;
+	joinedAt?: Prisma.SortOrder;
+	leftAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+	_count?: Prisma.RoomParticipantCountOrderByAggregateInput;
+	_max?: Prisma.RoomParticipantMaxOrderByAggregateInput;
+	_min?: Prisma.RoomParticipantMinOrderByAggregateInput;
+};
+
+export type RoomParticipantScalarWhereWithAggregatesInput = {
+	AND?:
+		| Prisma.RoomParticipantScalarWhereWithAggregatesInput
+		| Prisma.RoomParticipantScalarWhereWithAggregatesInput[];
+	OR?: Prisma.RoomParticipantScalarWhereWithAggregatesInput[];
+	NOT?:
+		| Prisma.RoomParticipantScalarWhereWithAggregatesInput
+		| Prisma.RoomParticipantScalarWhereWithAggregatesInput[];
+	id?: Prisma.StringWithAggregatesFilter<"RoomParticipant"> | string;
+	roomId?: Prisma.StringWithAggregatesFilter<"RoomParticipant"> | string;
+	userId?:
+		| Prisma.StringNullableWithAggregatesFilter<"RoomParticipant">
+		| string
+		| null;
+	anonId?: Prisma.StringWithAggregatesFilter<"RoomParticipant"> | string;
+	joinedAt?:
+		| Prisma.DateTimeWithAggregatesFilter<"RoomParticipant">
+		| Date
+		| string;
+	leftAt?:
+		| Prisma.DateTimeNullableWithAggregatesFilter<"RoomParticipant">
+		| Date
+		| string
+		| null;
+};
+
+export type RoomParticipantCreateInput = {
+	id?: string;
+	userId?: string | null;
+	anonId: string;
+	joinedAt?: Date | string;
+	leftAt?: Date | string | null;
+	room: Prisma.RoomCreateNestedOneWithoutParticipantsInput;
+};
+
+export type RoomParticipantUncheckedCreateInput = {
+	id?: string;
+	roomId: string;
+	userId?: string | null;
+	anonId: string;
+	joinedAt?: Date | string;
+	leftAt?: Date | string | null;
+};
+
+export type RoomParticipantUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	anonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	leftAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	room?: Prisma.RoomUpdateOneRequiredWithoutParticipantsNestedInput;
+};
+
+export type RoomParticipantUncheckedUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	anonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	leftAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+};
+
+export type RoomParticipantCreateManyInput = {
+	id?: string;
+	roomId: string;
+	userId?: string | null;
+	anonId: string;
+	joinedAt?: Date | string;
+	leftAt?: Date | string | null;
+};
+
+export type RoomParticipantUpdateManyMutationInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	anonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	leftAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+};
+
+export type RoomParticipantUncheckedUpdateManyInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	anonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	leftAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+};
+
+export type RoomParticipantListRelationFilter = {
+	every?: Prisma.RoomParticipantWhereInput;
+	some?: Prisma.RoomParticipantWhereInput;
+	none?: Prisma.RoomParticipantWhereInput;
+};
+
+export type RoomParticipantOrderByRelationAggregateInput = {
+	_count?: Prisma.SortOrder;
+};
+
+export type RoomParticipantRoomIdAnonIdCompoundUniqueInput = {
+	roomId: string;
+	anonId: string;
+};
+
+export type RoomParticipantCountOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	roomId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	anonId?: Prisma.SortOrder;
+	joinedAt?: Prisma.SortOrder;
+	leftAt?: Prisma.SortOrder;
+};
+
+export type RoomParticipantMaxOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	roomId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	anonId?: Prisma.SortOrder;
+	joinedAt?: Prisma.SortOrder;
+	leftAt?: Prisma.SortOrder;
+};
+
+export type RoomParticipantMinOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	roomId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	anonId?: Prisma.SortOrder;
+	joinedAt?: Prisma.SortOrder;
+	leftAt?: Prisma.SortOrder;
+};
+
+export type RoomParticipantCreateNestedManyWithoutRoomInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.RoomParticipantCreateWithoutRoomInput,
+				Prisma.RoomParticipantUncheckedCreateWithoutRoomInput
+		  >
+		| Prisma.RoomParticipantCreateWithoutRoomInput[]
+		| Prisma.RoomParticipantUncheckedCreateWithoutRoomInput[];
+	connectOrCreate?:
+		| Prisma.RoomParticipantCreateOrConnectWithoutRoomInput
+		| Prisma.RoomParticipantCreateOrConnectWithoutRoomInput[];
+	createMany?: Prisma.RoomParticipantCreateManyRoomInputEnvelope;
+	connect?:
+		| Prisma.RoomParticipantWhereUniqueInput
+		| Prisma.RoomParticipantWhereUniqueInput[];
+};
+
+export type RoomParticipantUncheckedCreateNestedManyWithoutRoomInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.RoomParticipantCreateWithoutRoomInput,
+				Prisma.RoomParticipantUncheckedCreateWithoutRoomInput
+		  >
+		| Prisma.RoomParticipantCreateWithoutRoomInput[]
+		| Prisma.RoomParticipantUncheckedCreateWithoutRoomInput[];
+	connectOrCreate?:
+		| Prisma.RoomParticipantCreateOrConnectWithoutRoomInput
+		| Prisma.RoomParticipantCreateOrConnectWithoutRoomInput[];
+	createMany?: Prisma.RoomParticipantCreateManyRoomInputEnvelope;
+	connect?:
+		| Prisma.RoomParticipantWhereUniqueInput
+		| Prisma.RoomParticipantWhereUniqueInput[];
+};
+
+export type RoomParticipantUpdateManyWithoutRoomNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.RoomParticipantCreateWithoutRoomInput,
+				Prisma.RoomParticipantUncheckedCreateWithoutRoomInput
+		  >
+		| Prisma.RoomParticipantCreateWithoutRoomInput[]
+		| Prisma.RoomParticipantUncheckedCreateWithoutRoomInput[];
+	connectOrCreate?:
+		| Prisma.RoomParticipantCreateOrConnectWithoutRoomInput
+		| Prisma.RoomParticipantCreateOrConnectWithoutRoomInput[];
+	upsert?:
+		| Prisma.RoomParticipantUpsertWithWhereUniqueWithoutRoomInput
+		| Prisma.RoomParticipantUpsertWithWhereUniqueWithoutRoomInput[];
+	createMany?: Prisma.RoomParticipantCreateManyRoomInputEnvelope;
+	set?:
+		| Prisma.RoomParticipantWhereUniqueInput
+		| Prisma.RoomParticipantWhereUniqueInput[];
+	disconnect?:
+		| Prisma.RoomParticipantWhereUniqueInput
+		| Prisma.RoomParticipantWhereUniqueInput[];
+	delete?:
+		| Prisma.RoomParticipantWhereUniqueInput
+		| Prisma.RoomParticipantWhereUniqueInput[];
+	connect?:
+		| Prisma.RoomParticipantWhereUniqueInput
+		| Prisma.RoomParticipantWhereUniqueInput[];
+	update?:
+		| Prisma.RoomParticipantUpdateWithWhereUniqueWithoutRoomInput
+		| Prisma.RoomParticipantUpdateWithWhereUniqueWithoutRoomInput[];
+	updateMany?:
+		| Prisma.RoomParticipantUpdateManyWithWhereWithoutRoomInput
+		| Prisma.RoomParticipantUpdateManyWithWhereWithoutRoomInput[];
+	deleteMany?:
+		| Prisma.RoomParticipantScalarWhereInput
+		| Prisma.RoomParticipantScalarWhereInput[];
+};
+
+export type RoomParticipantUncheckedUpdateManyWithoutRoomNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.RoomParticipantCreateWithoutRoomInput,
+				Prisma.RoomParticipantUncheckedCreateWithoutRoomInput
+		  >
+		| Prisma.RoomParticipantCreateWithoutRoomInput[]
+		| Prisma.RoomParticipantUncheckedCreateWithoutRoomInput[];
+	connectOrCreate?:
+		| Prisma.RoomParticipantCreateOrConnectWithoutRoomInput
+		| Prisma.RoomParticipantCreateOrConnectWithoutRoomInput[];
+	upsert?:
+		| Prisma.RoomParticipantUpsertWithWhereUniqueWithoutRoomInput
+		| Prisma.RoomParticipantUpsertWithWhereUniqueWithoutRoomInput[];
+	createMany?: Prisma.RoomParticipantCreateManyRoomInputEnvelope;
+	set?:
+		| Prisma.RoomParticipantWhereUniqueInput
+		| Prisma.RoomParticipantWhereUniqueInput[];
+	disconnect?:
+		| Prisma.RoomParticipantWhereUniqueInput
+		| Prisma.RoomParticipantWhereUniqueInput[];
+	delete?:
+		| Prisma.RoomParticipantWhereUniqueInput
+		| Prisma.RoomParticipantWhereUniqueInput[];
+	connect?:
+		| Prisma.RoomParticipantWhereUniqueInput
+		| Prisma.RoomParticipantWhereUniqueInput[];
+	update?:
+		| Prisma.RoomParticipantUpdateWithWhereUniqueWithoutRoomInput
+		| Prisma.RoomParticipantUpdateWithWhereUniqueWithoutRoomInput[];
+	updateMany?:
+		| Prisma.RoomParticipantUpdateManyWithWhereWithoutRoomInput
+		| Prisma.RoomParticipantUpdateManyWithWhereWithoutRoomInput[];
+	deleteMany?:
+		| Prisma.RoomParticipantScalarWhereInput
+		| Prisma.RoomParticipantScalarWhereInput[];
+};
+
+export type RoomParticipantCreateWithoutRoomInput = {
+	id?: string;
+	userId?: string | null;
+	anonId: string;
+	joinedAt?: Date | string;
+	leftAt?: Date | string | null;
+};
+
+export type RoomParticipantUncheckedCreateWithoutRoomInput = {
+	id?: string;
+	userId?: string | null;
+	anonId: string;
+	joinedAt?: Date | string;
+	leftAt?: Date | string | null;
+};
+
+export type RoomParticipantCreateOrConnectWithoutRoomInput = {
+	where: Prisma.RoomParticipantWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.RoomParticipantCreateWithoutRoomInput,
+		Prisma.RoomParticipantUncheckedCreateWithoutRoomInput
+	>;
+};
+
+export type RoomParticipantCreateManyRoomInputEnvelope = {
+	data:
+		| Prisma.RoomParticipantCreateManyRoomInput
+		| Prisma.RoomParticipantCreateManyRoomInput[];
+	skipDuplicates?: boolean;
+};
+
+export type RoomParticipantUpsertWithWhereUniqueWithoutRoomInput = {
+	where: Prisma.RoomParticipantWhereUniqueInput;
+	update: Prisma.XOR<
+		Prisma.RoomParticipantUpdateWithoutRoomInput,
+		Prisma.RoomParticipantUncheckedUpdateWithoutRoomInput
+	>;
+	create: Prisma.XOR<
+		Prisma.RoomParticipantCreateWithoutRoomInput,
+		Prisma.RoomParticipantUncheckedCreateWithoutRoomInput
+	>;
+};
+
+export type RoomParticipantUpdateWithWhereUniqueWithoutRoomInput = {
+	where: Prisma.RoomParticipantWhereUniqueInput;
+	data: Prisma.XOR<
+		Prisma.RoomParticipantUpdateWithoutRoomInput,
+		Prisma.RoomParticipantUncheckedUpdateWithoutRoomInput
+	>;
+};
+
+export type RoomParticipantUpdateManyWithWhereWithoutRoomInput = {
+	where: Prisma.RoomParticipantScalarWhereInput;
+	data: Prisma.XOR<
+		Prisma.RoomParticipantUpdateManyMutationInput,
+		Prisma.RoomParticipantUncheckedUpdateManyWithoutRoomInput
+	>;
+};
+
+export type RoomParticipantScalarWhereInput = {
+	AND?:
+		| Prisma.RoomParticipantScalarWhereInput
+		| Prisma.RoomParticipantScalarWhereInput[];
+	OR?: Prisma.RoomParticipantScalarWhereInput[];
+	NOT?:
+		| Prisma.RoomParticipantScalarWhereInput
+		| Prisma.RoomParticipantScalarWhereInput[];
+	id?: Prisma.StringFilter<"RoomParticipant"> | string;
+	roomId?: Prisma.StringFilter<"RoomParticipant"> | string;
+	userId?: Prisma.StringNullableFilter<"RoomParticipant"> | string | null;
+	anonId?: Prisma.StringFilter<"RoomParticipant"> | string;
+	joinedAt?: Prisma.DateTimeFilter<"RoomParticipant"> | Date | string;
+	leftAt?:
+		| Prisma.DateTimeNullableFilter<"RoomParticipant">
+		| Date
+		| string
+		| null;
+};
+
+export type RoomParticipantCreateManyRoomInput = {
+	id?: string;
+	userId?: string | null;
+	anonId: string;
+	joinedAt?: Date | string;
+	leftAt?: Date | string | null;
+};
+
+export type RoomParticipantUpdateWithoutRoomInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	anonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	leftAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+};
+
+export type RoomParticipantUncheckedUpdateWithoutRoomInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	anonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	leftAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+};
+
+export type RoomParticipantUncheckedUpdateManyWithoutRoomInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	anonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	joinedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	leftAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+};
+
+export type RoomParticipantSelect<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		roomId?: boolean;
+		userId?: boolean;
+		anonId?: boolean;
+		joinedAt?: boolean;
+		leftAt?: boolean;
+		room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["roomParticipant"]
+>;
+
+export type RoomParticipantSelectCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		roomId?: boolean;
+		userId?: boolean;
+		anonId?: boolean;
+		joinedAt?: boolean;
+		leftAt?: boolean;
+		room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["roomParticipant"]
+>;
+
+export type RoomParticipantSelectUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		roomId?: boolean;
+		userId?: boolean;
+		anonId?: boolean;
+		joinedAt?: boolean;
+		leftAt?: boolean;
+		room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["roomParticipant"]
+>;
+
+export type RoomParticipantSelectScalar = {
+	id?: boolean;
+	roomId?: boolean;
+	userId?: boolean;
+	anonId?: boolean;
+	joinedAt?: boolean;
+	leftAt?: boolean;
+};
+
+export type RoomParticipantOmit<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+	"id" | "roomId" | "userId" | "anonId" | "joinedAt" | "leftAt",
+	ExtArgs["result"]["roomParticipant"]
+>;
+export type RoomParticipantInclude<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+};
+export type RoomParticipantIncludeCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+};
+export type RoomParticipantIncludeUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+};
+
+export type $RoomParticipantPayload<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	name: "RoomParticipant";
+	objects: {
+		room: Prisma.$RoomPayload<ExtArgs>;
+	};
+	scalars: runtime.Types.Extensions.GetPayloadResult<
+		{
+			id: string;
+			roomId: string;
+			userId: string | null;
+			anonId: string;
+			joinedAt: Date;
+			leftAt: Date | null;
+		},
+		ExtArgs["result"]["roomParticipant"]
+	>;
+	composites: {};
+};
+
+export type RoomParticipantGetPayload<
+	S extends boolean | null | undefined | RoomParticipantDefaultArgs,
+> = runtime.Types.Result.GetResult<Prisma.$RoomParticipantPayload, S>;
+
+export type RoomParticipantCountArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<
+	RoomParticipantFindManyArgs,
+	"select" | "include" | "distinct" | "omit"
+> & {
+	select?: RoomParticipantCountAggregateInputType | true;
+};
+
+export interface RoomParticipantDelegate<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> {
+	[K: symbol]: {
+		types: Prisma.TypeMap<ExtArgs>["model"]["RoomParticipant"];
+		meta: { name: "RoomParticipant" };
+	};
+	/**
+	 * Find zero or one RoomParticipant that matches the filter.
+	 * @param {RoomParticipantFindUniqueArgs} args - Arguments to find a RoomParticipant
+	 * @example
+	 * // Get one RoomParticipant
+	 * const roomParticipant = await prisma.roomParticipant.findUnique({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUnique<T extends RoomParticipantFindUniqueArgs>(
+		args: Prisma.SelectSubset<T, RoomParticipantFindUniqueArgs<ExtArgs>>,
+	): Prisma.Prisma__RoomParticipantClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$RoomParticipantPayload<ExtArgs>,
+			T,
+			"findUnique",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find one RoomParticipant that matches the filter or throw an error with `error.code='P2025'`
+	 * if no matches were found.
+	 * @param {RoomParticipantFindUniqueOrThrowArgs} args - Arguments to find a RoomParticipant
+	 * @example
+	 * // Get one RoomParticipant
+	 * const roomParticipant = await prisma.roomParticipant.findUniqueOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUniqueOrThrow<T extends RoomParticipantFindUniqueOrThrowArgs>(
+		args: Prisma.SelectSubset<T, RoomParticipantFindUniqueOrThrowArgs<ExtArgs>>,
+	): Prisma.Prisma__RoomParticipantClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$RoomParticipantPayload<ExtArgs>,
+			T,
+			"findUniqueOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first RoomParticipant that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {RoomParticipantFindFirstArgs} args - Arguments to find a RoomParticipant
+	 * @example
+	 * // Get one RoomParticipant
+	 * const roomParticipant = await prisma.roomParticipant.findFirst({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirst<T extends RoomParticipantFindFirstArgs>(
+		args?: Prisma.SelectSubset<T, RoomParticipantFindFirstArgs<ExtArgs>>,
+	): Prisma.Prisma__RoomParticipantClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$RoomParticipantPayload<ExtArgs>,
+			T,
+			"findFirst",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first RoomParticipant that matches the filter or
+	 * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {RoomParticipantFindFirstOrThrowArgs} args - Arguments to find a RoomParticipant
+	 * @example
+	 * // Get one RoomParticipant
+	 * const roomParticipant = await prisma.roomParticipant.findFirstOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirstOrThrow<T extends RoomParticipantFindFirstOrThrowArgs>(
+		args?: Prisma.SelectSubset<T, RoomParticipantFindFirstOrThrowArgs<ExtArgs>>,
+	): Prisma.Prisma__RoomParticipantClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$RoomParticipantPayload<ExtArgs>,
+			T,
+			"findFirstOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find zero or more RoomParticipants that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {RoomParticipantFindManyArgs} args - Arguments to filter and select certain fields only.
+	 * @example
+	 * // Get all RoomParticipants
+	 * const roomParticipants = await prisma.roomParticipant.findMany()
+	 *
+	 * // Get first 10 RoomParticipants
+	 * const roomParticipants = await prisma.roomParticipant.findMany({ take: 10 })
+	 *
+	 * // Only select the `id`
+	 * const roomParticipantWithIdOnly = await prisma.roomParticipant.findMany({ select: { id: true } })
+	 *
+	 */
+	findMany<T extends RoomParticipantFindManyArgs>(
+		args?: Prisma.SelectSubset<T, RoomParticipantFindManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$RoomParticipantPayload<ExtArgs>,
+			T,
+			"findMany",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create a RoomParticipant.
+	 * @param {RoomParticipantCreateArgs} args - Arguments to create a RoomParticipant.
+	 * @example
+	 * // Create one RoomParticipant
+	 * const RoomParticipant = await prisma.roomParticipant.create({
+	 *   data: {
+	 *     // ... data to create a RoomParticipant
+	 *   }
+	 * })
+	 *
+	 */
+	create<T extends RoomParticipantCreateArgs>(
+		args: Prisma.SelectSubset<T, RoomParticipantCreateArgs<ExtArgs>>,
+	): Prisma.Prisma__RoomParticipantClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$RoomParticipantPayload<ExtArgs>,
+			T,
+			"create",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Create many RoomParticipants.
+	 * @param {RoomParticipantCreateManyArgs} args - Arguments to create many RoomParticipants.
+	 * @example
+	 * // Create many RoomParticipants
+	 * const roomParticipant = await prisma.roomParticipant.createMany({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 */
+	createMany<T extends RoomParticipantCreateManyArgs>(
+		args?: Prisma.SelectSubset<T, RoomParticipantCreateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Create many RoomParticipants and returns the data saved in the database.
+	 * @param {RoomParticipantCreateManyAndReturnArgs} args - Arguments to create many RoomParticipants.
+	 * @example
+	 * // Create many RoomParticipants
+	 * const roomParticipant = await prisma.roomParticipant.createManyAndReturn({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Create many RoomParticipants and only return the `id`
+	 * const roomParticipantWithIdOnly = await prisma.roomParticipant.createManyAndReturn({
+	 *   select: { id: true },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	createManyAndReturn<T extends RoomParticipantCreateManyAndReturnArgs>(
+		args?: Prisma.SelectSubset<
+			T,
+			RoomParticipantCreateManyAndReturnArgs<ExtArgs>
+		>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$RoomParticipantPayload<ExtArgs>,
+			T,
+			"createManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Delete a RoomParticipant.
+	 * @param {RoomParticipantDeleteArgs} args - Arguments to delete one RoomParticipant.
+	 * @example
+	 * // Delete one RoomParticipant
+	 * const RoomParticipant = await prisma.roomParticipant.delete({
+	 *   where: {
+	 *     // ... filter to delete one RoomParticipant
+	 *   }
+	 * })
+	 *
+	 */
+	delete<T extends RoomParticipantDeleteArgs>(
+		args: Prisma.SelectSubset<T, RoomParticipantDeleteArgs<ExtArgs>>,
+	): Prisma.Prisma__RoomParticipantClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$RoomParticipantPayload<ExtArgs>,
+			T,
+			"delete",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Update one RoomParticipant.
+	 * @param {RoomParticipantUpdateArgs} args - Arguments to update one RoomParticipant.
+	 * @example
+	 * // Update one RoomParticipant
+	 * const roomParticipant = await prisma.roomParticipant.update({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	update<T extends RoomParticipantUpdateArgs>(
+		args: Prisma.SelectSubset<T, RoomParticipantUpdateArgs<ExtArgs>>,
+	): Prisma.Prisma__RoomParticipantClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$RoomParticipantPayload<ExtArgs>,
+			T,
+			"update",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Delete zero or more RoomParticipants.
+	 * @param {RoomParticipantDeleteManyArgs} args - Arguments to filter RoomParticipants to delete.
+	 * @example
+	 * // Delete a few RoomParticipants
+	 * const { count } = await prisma.roomParticipant.deleteMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 *
+	 */
+	deleteMany<T extends RoomParticipantDeleteManyArgs>(
+		args?: Prisma.SelectSubset<T, RoomParticipantDeleteManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more RoomParticipants.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {RoomParticipantUpdateManyArgs} args - Arguments to update one or more rows.
+	 * @example
+	 * // Update many RoomParticipants
+	 * const roomParticipant = await prisma.roomParticipant.updateMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	updateMany<T extends RoomParticipantUpdateManyArgs>(
+		args: Prisma.SelectSubset<T, RoomParticipantUpdateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more RoomParticipants and returns the data updated in the database.
+	 * @param {RoomParticipantUpdateManyAndReturnArgs} args - Arguments to update many RoomParticipants.
+	 * @example
+	 * // Update many RoomParticipants
+	 * const roomParticipant = await prisma.roomParticipant.updateManyAndReturn({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Update zero or more RoomParticipants and only return the `id`
+	 * const roomParticipantWithIdOnly = await prisma.roomParticipant.updateManyAndReturn({
+	 *   select: { id: true },
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	updateManyAndReturn<T extends RoomParticipantUpdateManyAndReturnArgs>(
+		args: Prisma.SelectSubset<
+			T,
+			RoomParticipantUpdateManyAndReturnArgs<ExtArgs>
+		>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$RoomParticipantPayload<ExtArgs>,
+			T,
+			"updateManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create or update one RoomParticipant.
+	 * @param {RoomParticipantUpsertArgs} args - Arguments to update or create a RoomParticipant.
+	 * @example
+	 * // Update or create a RoomParticipant
+	 * const roomParticipant = await prisma.roomParticipant.upsert({
+	 *   create: {
+	 *     // ... data to create a RoomParticipant
+	 *   },
+	 *   update: {
+	 *     // ... in case it already exists, update
+	 *   },
+	 *   where: {
+	 *     // ... the filter for the RoomParticipant we want to update
+	 *   }
+	 * })
+	 */
+	upsert<T extends RoomParticipantUpsertArgs>(
+		args: Prisma.SelectSubset<T, RoomParticipantUpsertArgs<ExtArgs>>,
+	): Prisma.Prisma__RoomParticipantClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$RoomParticipantPayload<ExtArgs>,
+			T,
+			"upsert",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Count the number of RoomParticipants.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {RoomParticipantCountArgs} args - Arguments to filter RoomParticipants to count.
+	 * @example
+	 * // Count the number of RoomParticipants
+	 * const count = await prisma.roomParticipant.count({
+	 *   where: {
+	 *     // ... the filter for the RoomParticipants we want to count
+	 *   }
+	 * })
+	 **/
+	count<T extends RoomParticipantCountArgs>(
+		args?: Prisma.Subset<T, RoomParticipantCountArgs>,
+	): Prisma.PrismaPromise<
+		T extends runtime.Types.Utils.Record<"select", any>
+			? T["select"] extends true
+				? number
+				: Prisma.GetScalarType<
+						T["select"],
+						RoomParticipantCountAggregateOutputType
+					>
+			: number
+	>;
+
+	/**
+	 * Allows you to perform aggregations operations on a RoomParticipant.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {RoomParticipantAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+	 * @example
+	 * // Ordered by age ascending
+	 * // Where email contains prisma.io
+	 * // Limited to the 10 users
+	 * const aggregations = await prisma.user.aggregate({
+	 *   _avg: {
+	 *     age: true,
+	 *   },
+	 *   where: {
+	 *     email: {
+	 *       contains: "prisma.io",
+	 *     },
+	 *   },
+	 *   orderBy: {
+	 *     age: "asc",
+	 *   },
+	 *   take: 10,
+	 * })
+	 **/
+	aggregate<T extends RoomParticipantAggregateArgs>(
+		args: Prisma.Subset<T, RoomParticipantAggregateArgs>,
+	): Prisma.PrismaPromise<GetRoomParticipantAggregateType<T>>;
+
+	/**
+	 * Group by RoomParticipant.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {RoomParticipantGroupByArgs} args - Group by arguments.
+	 * @example
+	 * // Group by city, order by createdAt, get count
+	 * const result = await prisma.user.groupBy({
+	 *   by: ['city', 'createdAt'],
+	 *   orderBy: {
+	 *     createdAt: true
+	 *   },
+	 *   _count: {
+	 *     _all: true
+	 *   },
+	 * })
+	 *
+	 **/
+	groupBy<
+		T extends RoomParticipantGroupByArgs,
+		HasSelectOrTake extends Prisma.Or<
+			Prisma.Extends<"skip", Prisma.Keys<T>>,
+			Prisma.Extends<"take", Prisma.Keys<T>>
+		>,
+		OrderByArg extends Prisma.True extends HasSelectOrTake
+			? { orderBy: RoomParticipantGroupByArgs["orderBy"] }
+			: { orderBy?: RoomParticipantGroupByArgs["orderBy"] },
+		OrderFields extends Prisma.ExcludeUnderscoreKeys<
+			Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+		>,
+		ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+		ByValid extends Prisma.Has<ByFields, OrderFields>,
+		HavingFields extends Prisma.GetHavingFields<T["having"]>,
+		HavingValid extends Prisma.Has<ByFields, HavingFields>,
+		ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+		InputErrors extends ByEmpty extends Prisma.True
+			? `Error: "by" must not be empty.`
+			: HavingValid extends Prisma.False
+				? {
+						[P in HavingFields]: P extends ByFields
+							? never
+							: P extends string
+								? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+								: [
+										Error,
+										"Field ",
+										P,
+										` in "having" needs to be provided in "by"`,
+									];
+					}[HavingFields]
+				: "take" extends Prisma.Keys<T>
+					? "orderBy" extends Prisma.Keys<T>
+						? ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields]
+						: 'Error: If you provide "take", you also need to provide "orderBy"'
+					: "skip" extends Prisma.Keys<T>
+						? "orderBy" extends Prisma.Keys<T>
+							? ByValid extends Prisma.True
+								? {}
+								: {
+										[P in OrderFields]: P extends ByFields
+											? never
+											: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+									}[OrderFields]
+							: 'Error: If you provide "skip", you also need to provide "orderBy"'
+						: ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields],
+	>(
+		args: Prisma.SubsetIntersection<T, RoomParticipantGroupByArgs, OrderByArg> &
+			InputErrors,
+	): {} extends InputErrors
+		? GetRoomParticipantGroupByPayload<T>
+		: Prisma.PrismaPromise<InputErrors>;
+	/**
+	 * Fields of the RoomParticipant model
+	 */
+	readonly fields: RoomParticipantFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RoomParticipant.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RoomParticipantClient<
+	T,
+	Null = never,
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+	readonly [Symbol.toStringTag]: "PrismaPromise";
+	room<T extends Prisma.RoomDefaultArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.RoomDefaultArgs<ExtArgs>>,
+	): Prisma.Prisma__RoomClient<
+		| runtime.Types.Result.GetResult<
+				Prisma.$RoomPayload<ExtArgs>,
+				T,
+				"findUniqueOrThrow",
+				GlobalOmitOptions
+		  >
+		| Null,
+		Null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+	/**
+	 * Attaches callbacks for the resolution and/or rejection of the Promise.
+	 * @param onfulfilled The callback to execute when the Promise is resolved.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of which ever callback is executed.
+	 */
+	then<TResult1 = T, TResult2 = never>(
+		onfulfilled?:
+			| ((value: T) => TResult1 | PromiseLike<TResult1>)
+			| undefined
+			| null,
+		onrejected?:
+			| ((reason: any) => TResult2 | PromiseLike<TResult2>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+	/**
+	 * Attaches a callback for only the rejection of the Promise.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of the callback.
+	 */
+	catch<TResult = never>(
+		onrejected?:
+			| ((reason: any) => TResult | PromiseLike<TResult>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<T | TResult>;
+	/**
+	 * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+	 * resolved value cannot be modified from the callback.
+	 * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+	 * @returns A Promise for the completion of the callback.
+	 */
+	finally(
+		onfinally?: (() => void) | undefined | null,
+	): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the RoomParticipant model
+ */
+export interface RoomParticipantFieldRefs {
+	readonly id: Prisma.FieldRef<"RoomParticipant", "String">;
+	readonly roomId: Prisma.FieldRef<"RoomParticipant", "String">;
+	readonly userId: Prisma.FieldRef<"RoomParticipant", "String">;
+	readonly anonId: Prisma.FieldRef<"RoomParticipant", "String">;
+	readonly joinedAt: Prisma.FieldRef<"RoomParticipant", "DateTime">;
+	readonly leftAt: Prisma.FieldRef<"RoomParticipant", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * RoomParticipant findUnique
+ */
+export type RoomParticipantFindUniqueArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantInclude<ExtArgs> | null;
+	/**
+	 * Filter, which RoomParticipant to fetch.
+	 */
+	where: Prisma.RoomParticipantWhereUniqueInput;
+};
+
+/**
+ * RoomParticipant findUniqueOrThrow
+ */
+export type RoomParticipantFindUniqueOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantInclude<ExtArgs> | null;
+	/**
+	 * Filter, which RoomParticipant to fetch.
+	 */
+	where: Prisma.RoomParticipantWhereUniqueInput;
+};
+
+/**
+ * RoomParticipant findFirst
+ */
+export type RoomParticipantFindFirstArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantInclude<ExtArgs> | null;
+	/**
+	 * Filter, which RoomParticipant to fetch.
+	 */
+	where?: Prisma.RoomParticipantWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of RoomParticipants to fetch.
+	 */
+	orderBy?:
+		| Prisma.RoomParticipantOrderByWithRelationInput
+		| Prisma.RoomParticipantOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for RoomParticipants.
+	 */
+	cursor?: Prisma.RoomParticipantWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` RoomParticipants from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` RoomParticipants.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of RoomParticipants.
+	 */
+	distinct?:
+		| Prisma.RoomParticipantScalarFieldEnum
+		| Prisma.RoomParticipantScalarFieldEnum[];
+};
+
+/**
+ * RoomParticipant findFirstOrThrow
+ */
+export type RoomParticipantFindFirstOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantInclude<ExtArgs> | null;
+	/**
+	 * Filter, which RoomParticipant to fetch.
+	 */
+	where?: Prisma.RoomParticipantWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of RoomParticipants to fetch.
+	 */
+	orderBy?:
+		| Prisma.RoomParticipantOrderByWithRelationInput
+		| Prisma.RoomParticipantOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for RoomParticipants.
+	 */
+	cursor?: Prisma.RoomParticipantWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` RoomParticipants from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` RoomParticipants.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of RoomParticipants.
+	 */
+	distinct?:
+		| Prisma.RoomParticipantScalarFieldEnum
+		| Prisma.RoomParticipantScalarFieldEnum[];
+};
+
+/**
+ * RoomParticipant findMany
+ */
+export type RoomParticipantFindManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantInclude<ExtArgs> | null;
+	/**
+	 * Filter, which RoomParticipants to fetch.
+	 */
+	where?: Prisma.RoomParticipantWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of RoomParticipants to fetch.
+	 */
+	orderBy?:
+		| Prisma.RoomParticipantOrderByWithRelationInput
+		| Prisma.RoomParticipantOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for listing RoomParticipants.
+	 */
+	cursor?: Prisma.RoomParticipantWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` RoomParticipants from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` RoomParticipants.
+	 */
+	skip?: number;
+	distinct?:
+		| Prisma.RoomParticipantScalarFieldEnum
+		| Prisma.RoomParticipantScalarFieldEnum[];
+};
+
+/**
+ * RoomParticipant create
+ */
+export type RoomParticipantCreateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantInclude<ExtArgs> | null;
+	/**
+	 * The data needed to create a RoomParticipant.
+	 */
+	data: Prisma.XOR<
+		Prisma.RoomParticipantCreateInput,
+		Prisma.RoomParticipantUncheckedCreateInput
+	>;
+};
+
+/**
+ * RoomParticipant createMany
+ */
+export type RoomParticipantCreateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to create many RoomParticipants.
+	 */
+	data:
+		| Prisma.RoomParticipantCreateManyInput
+		| Prisma.RoomParticipantCreateManyInput[];
+	skipDuplicates?: boolean;
+};
+
+/**
+ * RoomParticipant createManyAndReturn
+ */
+export type RoomParticipantCreateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelectCreateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * The data used to create many RoomParticipants.
+	 */
+	data:
+		| Prisma.RoomParticipantCreateManyInput
+		| Prisma.RoomParticipantCreateManyInput[];
+	skipDuplicates?: boolean;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * RoomParticipant update
+ */
+export type RoomParticipantUpdateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantInclude<ExtArgs> | null;
+	/**
+	 * The data needed to update a RoomParticipant.
+	 */
+	data: Prisma.XOR<
+		Prisma.RoomParticipantUpdateInput,
+		Prisma.RoomParticipantUncheckedUpdateInput
+	>;
+	/**
+	 * Choose, which RoomParticipant to update.
+	 */
+	where: Prisma.RoomParticipantWhereUniqueInput;
+};
+
+/**
+ * RoomParticipant updateMany
+ */
+export type RoomParticipantUpdateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to update RoomParticipants.
+	 */
+	data: Prisma.XOR<
+		Prisma.RoomParticipantUpdateManyMutationInput,
+		Prisma.RoomParticipantUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which RoomParticipants to update
+	 */
+	where?: Prisma.RoomParticipantWhereInput;
+	/**
+	 * Limit how many RoomParticipants to update.
+	 */
+	limit?: number;
+};
+
+/**
+ * RoomParticipant updateManyAndReturn
+ */
+export type RoomParticipantUpdateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelectUpdateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * The data used to update RoomParticipants.
+	 */
+	data: Prisma.XOR<
+		Prisma.RoomParticipantUpdateManyMutationInput,
+		Prisma.RoomParticipantUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which RoomParticipants to update
+	 */
+	where?: Prisma.RoomParticipantWhereInput;
+	/**
+	 * Limit how many RoomParticipants to update.
+	 */
+	limit?: number;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * RoomParticipant upsert
+ */
+export type RoomParticipantUpsertArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantInclude<ExtArgs> | null;
+	/**
+	 * The filter to search for the RoomParticipant to update in case it exists.
+	 */
+	where: Prisma.RoomParticipantWhereUniqueInput;
+	/**
+	 * In case the RoomParticipant found by the `where` argument doesn't exist, create a new RoomParticipant with this data.
+	 */
+	create: Prisma.XOR<
+		Prisma.RoomParticipantCreateInput,
+		Prisma.RoomParticipantUncheckedCreateInput
+	>;
+	/**
+	 * In case the RoomParticipant was found with the provided `where` argument, update it with this data.
+	 */
+	update: Prisma.XOR<
+		Prisma.RoomParticipantUpdateInput,
+		Prisma.RoomParticipantUncheckedUpdateInput
+	>;
+};
+
+/**
+ * RoomParticipant delete
+ */
+export type RoomParticipantDeleteArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantInclude<ExtArgs> | null;
+	/**
+	 * Filter which RoomParticipant to delete.
+	 */
+	where: Prisma.RoomParticipantWhereUniqueInput;
+};
+
+/**
+ * RoomParticipant deleteMany
+ */
+export type RoomParticipantDeleteManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which RoomParticipants to delete
+	 */
+	where?: Prisma.RoomParticipantWhereInput;
+	/**
+	 * Limit how many RoomParticipants to delete.
+	 */
+	limit?: number;
+};
+
+/**
+ * RoomParticipant without action
+ */
+export type RoomParticipantDefaultArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the RoomParticipant
+	 */
+	select?: Prisma.RoomParticipantSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the RoomParticipant
+	 */
+	omit?: Prisma.RoomParticipantOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.RoomParticipantInclude<ExtArgs> | null;
+};
@@ -0,0 +1,2507 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `SpeedEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model SpeedEvent
+ *
+ */
+export type SpeedEventModel =
+	runtime.Types.Result.DefaultSelection<Prisma.$SpeedEventPayload>;
+
+export type AggregateSpeedEvent = {
+	_count: SpeedEventCountAggregateOutputType | null;
+	_avg: SpeedEventAvgAggregateOutputType | null;
+	_sum: SpeedEventSumAggregateOutputType | null;
+	_min: SpeedEventMinAggregateOutputType | null;
+	_max: SpeedEventMaxAggregateOutputType | null;
+};
+
+export type SpeedEventAvgAggregateOutputType = {
+	roundLengthSec: number | null;
+	capacity: number | null;
+	currentRound: number | null;
+};
+
+export type SpeedEventSumAggregateOutputType = {
+	roundLengthSec: number | null;
+	capacity: number | null;
+	currentRound: number | null;
+};
+
+export type SpeedEventMinAggregateOutputType = {
+	id: string | null;
+	topic: string | null;
+	startsAt: Date | null;
+	endsAt: Date | null;
+	roundLengthSec: number | null;
+	capacity: number | null;
+	status: $Enums.SpeedEventStatus | null;
+	currentRound: number | null;
+	roundEndsAt: Date | null;
+	likesCloseAt: Date | null;
+	createdById: string | null;
+	createdAt: Date | null;
+	updatedAt: Date | null;
+};
+
+export type SpeedEventMaxAggregateOutputType = {
+	id: string | null;
+	topic: string | null;
+	startsAt: Date | null;
+	endsAt: Date | null;
+	roundLengthSec: number | null;
+	capacity: number | null;
+	status: $Enums.SpeedEventStatus | null;
+	currentRound: number | null;
+	roundEndsAt: Date | null;
+	likesCloseAt: Date | null;
+	createdById: string | null;
+	createdAt: Date | null;
+	updatedAt: Date | null;
+};
+
+export type SpeedEventCountAggregateOutputType = {
+	id: number;
+	topic: number;
+	startsAt: number;
+	endsAt: number;
+	roundLengthSec: number;
+	capacity: number;
+	status: number;
+	currentRound: number;
+	roundEndsAt: number;
+	likesCloseAt: number;
+	createdById: number;
+	createdAt: number;
+	updatedAt: number;
+	_all: number;
+};
+
+export type SpeedEventAvgAggregateInputType = {
+	roundLengthSec?: true;
+	capacity?: true;
+	currentRound?: true;
+};
+
+export type SpeedEventSumAggregateInputType = {
+	roundLengthSec?: true;
+	capacity?: true;
+	currentRound?: true;
+};
+
+export type SpeedEventMinAggregateInputType = {
+	id?: true;
+	topic?: true;
+	startsAt?: true;
+	endsAt?: true;
+	roundLengthSec?: true;
+	capacity?: true;
+	status?: true;
+	currentRound?: true;
+	roundEndsAt?: true;
+	likesCloseAt?: true;
+	createdById?: true;
+	createdAt?: true;
+	updatedAt?: true;
+};
+
+export type SpeedEventMaxAggregateInputType = {
+	id?: true;
+	topic?: true;
+	startsAt?: true;
+	endsAt?: true;
+	roundLengthSec?: true;
+	capacity?: true;
+	status?: true;
+	currentRound?: true;
+	roundEndsAt?: true;
+	likesCloseAt?: true;
+	createdById?: true;
+	createdAt?: true;
+	updatedAt?: true;
+};
+
+export type SpeedEventCountAggregateInputType = {
+	id?: true;
+	topic?: true;
+	startsAt?: true;
+	endsAt?: true;
+	roundLengthSec?: true;
+	capacity?: true;
+	status?: true;
+	currentRound?: true;
+	roundEndsAt?: true;
+	likesCloseAt?: true;
+	createdById?: true;
+	createdAt?: true;
+	updatedAt?: true;
+	_all?: true;
+};
+
+export type SpeedEventAggregateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which SpeedEvent to aggregate.
+	 */
+	where?: Prisma.SpeedEventWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEvents to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventOrderByWithRelationInput
+		| Prisma.SpeedEventOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the start position
+	 */
+	cursor?: Prisma.SpeedEventWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEvents from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEvents.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Count returned SpeedEvents
+	 **/
+	_count?: true | SpeedEventCountAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to average
+	 **/
+	_avg?: SpeedEventAvgAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to sum
+	 **/
+	_sum?: SpeedEventSumAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the minimum value
+	 **/
+	_min?: SpeedEventMinAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the maximum value
+	 **/
+	_max?: SpeedEventMaxAggregateInputType;
+};
+
+export type GetSpeedEventAggregateType<T extends SpeedEventAggregateArgs> = {
+	[P in keyof T & keyof AggregateSpeedEvent]: P extends "_count" | "count"
+		? T[P] extends true
+			? number
+			: Prisma.GetScalarType<T[P], AggregateSpeedEvent[P]>
+		: Prisma.GetScalarType<T[P], AggregateSpeedEvent[P]>;
+};
+
+export type SpeedEventGroupByArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.SpeedEventWhereInput;
+	orderBy?:
+		| Prisma.SpeedEventOrderByWithAggregationInput
+		| Prisma.SpeedEventOrderByWithAggregationInput[];
+	by: Prisma.SpeedEventScalarFieldEnum[] | Prisma.SpeedEventScalarFieldEnum;
+	having?: Prisma.SpeedEventScalarWhereWithAggregatesInput;
+	take?: number;
+	skip?: number;
+	_count?: SpeedEventCountAggregateInputType | true;
+	_avg?: SpeedEventAvgAggregateInputType;
+	_sum?: SpeedEventSumAggregateInputType;
+	_min?: SpeedEventMinAggregateInputType;
+	_max?: SpeedEventMaxAggregateInputType;
+};
+
+export type SpeedEventGroupByOutputType = {
+	id: string;
+	topic: string;
+	startsAt: Date;
+	endsAt: Date;
+	roundLengthSec: number;
+	capacity: number;
+	status: $Enums.SpeedEventStatus;
+	currentRound: number;
+	roundEndsAt: Date | null;
+	likesCloseAt: Date | null;
+	createdById: string;
+	createdAt: Date;
+	updatedAt: Date;
+	_count: SpeedEventCountAggregateOutputType | null;
+	_avg: SpeedEventAvgAggregateOutputType | null;
+	_sum: SpeedEventSumAggregateOutputType | null;
+	_min: SpeedEventMinAggregateOutputType | null;
+	_max: SpeedEventMaxAggregateOutputType | null;
+};
+
+type GetSpeedEventGroupByPayload<T extends SpeedEventGroupByArgs> =
+	Prisma.PrismaPromise<
+		Array<
+			Prisma.PickEnumerable<SpeedEventGroupByOutputType, T["by"]> & {
+				[P in keyof T & keyof SpeedEventGroupByOutputType]: P extends "_count"
+					? T[P] extends boolean
+						? number
+						: Prisma.GetScalarType<T[P], SpeedEventGroupByOutputType[P]>
+					: Prisma.GetScalarType<T[P], SpeedEventGroupByOutputType[P]>;
+			}
+		>
+	>;
+
+export type SpeedEventWhereInput = {
+	AND?: Prisma.SpeedEventWhereInput | Prisma.SpeedEventWhereInput[];
+	OR?: Prisma.SpeedEventWhereInput[];
+	NOT?: Prisma.SpeedEventWhereInput | Prisma.SpeedEventWhereInput[];
+	id?: Prisma.StringFilter<"SpeedEvent"> | string;
+	topic?: Prisma.StringFilter<"SpeedEvent"> | string;
+	startsAt?: Prisma.DateTimeFilter<"SpeedEvent"> | Date | string;
+	endsAt?: Prisma.DateTimeFilter<"SpeedEvent"> | Date | string;
+	roundLengthSec?: Prisma.IntFilter<"SpeedEvent"> | number;
+	capacity?: Prisma.IntFilter<"SpeedEvent"> | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusFilter<"SpeedEvent">
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntFilter<"SpeedEvent"> | number;
+	roundEndsAt?:
+		| Prisma.DateTimeNullableFilter<"SpeedEvent">
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.DateTimeNullableFilter<"SpeedEvent">
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringFilter<"SpeedEvent"> | string;
+	createdAt?: Prisma.DateTimeFilter<"SpeedEvent"> | Date | string;
+	updatedAt?: Prisma.DateTimeFilter<"SpeedEvent"> | Date | string;
+	registrations?: Prisma.SpeedEventRegistrationListRelationFilter;
+	pairings?: Prisma.SpeedEventPairingListRelationFilter;
+	likes?: Prisma.SpeedEventLikeListRelationFilter;
+};
+
+export type SpeedEventOrderByWithRelationInput = {
+	id?: Prisma.SortOrder;
+	topic?: Prisma.SortOrder;
+	startsAt?: Prisma.SortOrder;
+	endsAt?: Prisma.SortOrder;
+	roundLengthSec?: Prisma.SortOrder;
+	capacity?: Prisma.SortOrder;
+	status?: Prisma.SortOrder;
+	currentRound?: Prisma.SortOrder;
+	roundEndsAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+	likesCloseAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+	createdById?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	updatedAt?: Prisma.SortOrder;
+	registrations?: Prisma.SpeedEventRegistrationOrderByRelationAggregateInput;
+	pairings?: Prisma.SpeedEventPairingOrderByRelationAggregateInput;
+	likes?: Prisma.SpeedEventLikeOrderByRelationAggregateInput;
+};
+
+export type SpeedEventWhereUniqueInput = Prisma.AtLeast<
+	{
+		id?: string;
+		AND?: Prisma.SpeedEventWhereInput | Prisma.SpeedEventWhereInput[];
+		OR?: Prisma.SpeedEventWhereInput[];
+		NOT?: Prisma.SpeedEventWhereInput | Prisma.SpeedEventWhereInput[];
+		topic?: Prisma.StringFilter<"SpeedEvent"> | string;
+		startsAt?: Prisma.DateTimeFilter<"SpeedEvent"> | Date | string;
+		endsAt?: Prisma.DateTimeFilter<"SpeedEvent"> | Date | string;
+		roundLengthSec?: Prisma.IntFilter<"SpeedEvent"> | number;
+		capacity?: Prisma.IntFilter<"SpeedEvent"> | number;
+		status?:
+			| Prisma.EnumSpeedEventStatusFilter<"SpeedEvent">
+			| $Enums.SpeedEventStatus;
+		currentRound?: Prisma.IntFilter<"SpeedEvent"> | number;
+		roundEndsAt?:
+			| Prisma.DateTimeNullableFilter<"SpeedEvent">
+			| Date
+			| string
+			| null;
+		likesCloseAt?:
+			| Prisma.DateTimeNullableFilter<"SpeedEvent">
+			| Date
+			| string
+			| null;
+		createdById?: Prisma.StringFilter<"SpeedEvent"> | string;
+		createdAt?: Prisma.DateTimeFilter<"SpeedEvent"> | Date | string;
+		updatedAt?: Prisma.DateTimeFilter<"SpeedEvent"> | Date | string;
+		registrations?: Prisma.SpeedEventRegistrationListRelationFilter;
+		pairings?: Prisma.SpeedEventPairingListRelationFilter;
+		likes?: Prisma.SpeedEventLikeListRelationFilter;
+	},
+	"id"
+>;
+
+export type SpeedEventOrderByWithAggregationInput = {
+	id?: Prisma.SortOrder;
+	topic?: Prisma.SortOrder;
+	startsAt?: Prisma.SortOrder;
+	endsAt?: Prisma.SortOrder;
+	roundLengthSec?: Prisma.SortOrder;
+	capacity?: Prisma.SortOrder;
+	status?: Prisma.SortOrder;
+	currentRound?: Prisma.SortOrder;
+	roundEndsAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+	likesCloseAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+	createdById?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	updatedAt?: Prisma.SortOrder;
+	_count?: Prisma.SpeedEventCountOrderByAggregateInput;
+	_avg?: Prisma.SpeedEventAvgOrderByAggregateInput;
+	_max?: Prisma.SpeedEventMaxOrderByAggregateInput;
+	_min?: Prisma.SpeedEventMinOrderByAggregateInput;
+	_sum?: Prisma.SpeedEventSumOrderByAggregateInput;
+};
+
+export type SpeedEventScalarWhereWithAggregatesInput = {
+	AND?:
+		| Prisma.SpeedEventScalarWhereWithAggregatesInput
+		| Prisma.SpeedEventScalarWhereWithAggregatesInput[];
+	OR?: Prisma.SpeedEventScalarWhereWithAggregatesInput[];
+	NOT?:
+		| Prisma.SpeedEventScalarWhereWithAggregatesInput
+		| Prisma.SpeedEventScalarWhereWithAggregatesInput[];
+	id?: Prisma.StringWithAggregatesFilter<"SpeedEvent"> | string;
+	topic?: Prisma.StringWithAggregatesFilter<"SpeedEvent"> | string;
+	startsAt?: Prisma.DateTimeWithAggregatesFilter<"SpeedEvent"> | Date | string;
+	endsAt?: Prisma.DateTimeWithAggregatesFilter<"SpeedEvent"> | Date | string;
+	roundLengthSec?: Prisma.IntWithAggregatesFilter<"SpeedEvent"> | number;
+	capacity?: Prisma.IntWithAggregatesFilter<"SpeedEvent"> | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusWithAggregatesFilter<"SpeedEvent">
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntWithAggregatesFilter<"SpeedEvent"> | number;
+	roundEndsAt?:
+		| Prisma.DateTimeNullableWithAggregatesFilter<"SpeedEvent">
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.DateTimeNullableWithAggregatesFilter<"SpeedEvent">
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringWithAggregatesFilter<"SpeedEvent"> | string;
+	createdAt?: Prisma.DateTimeWithAggregatesFilter<"SpeedEvent"> | Date | string;
+	updatedAt?: Prisma.DateTimeWithAggregatesFilter<"SpeedEvent"> | Date | string;
+};
+
+export type SpeedEventCreateInput = {
+	id?: string;
+	topic: string;
+	startsAt: Date | string;
+	endsAt: Date | string;
+	roundLengthSec: number;
+	capacity: number;
+	status?: $Enums.SpeedEventStatus;
+	currentRound?: number;
+	roundEndsAt?: Date | string | null;
+	likesCloseAt?: Date | string | null;
+	createdById: string;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	registrations?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutEventInput;
+	pairings?: Prisma.SpeedEventPairingCreateNestedManyWithoutEventInput;
+	likes?: Prisma.SpeedEventLikeCreateNestedManyWithoutEventInput;
+};
+
+export type SpeedEventUncheckedCreateInput = {
+	id?: string;
+	topic: string;
+	startsAt: Date | string;
+	endsAt: Date | string;
+	roundLengthSec: number;
+	capacity: number;
+	status?: $Enums.SpeedEventStatus;
+	currentRound?: number;
+	roundEndsAt?: Date | string | null;
+	likesCloseAt?: Date | string | null;
+	createdById: string;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	registrations?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutEventInput;
+	pairings?: Prisma.SpeedEventPairingUncheckedCreateNestedManyWithoutEventInput;
+	likes?: Prisma.SpeedEventLikeUncheckedCreateNestedManyWithoutEventInput;
+};
+
+export type SpeedEventUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	topic?: Prisma.StringFieldUpdateOperationsInput | string;
+	startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	endsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	roundLengthSec?: Prisma.IntFieldUpdateOperationsInput | number;
+	capacity?: Prisma.IntFieldUpdateOperationsInput | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusFieldUpdateOperationsInput
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntFieldUpdateOperationsInput | number;
+	roundEndsAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	registrations?: Prisma.SpeedEventRegistrationUpdateManyWithoutEventNestedInput;
+	pairings?: Prisma.SpeedEventPairingUpdateManyWithoutEventNestedInput;
+	likes?: Prisma.SpeedEventLikeUpdateManyWithoutEventNestedInput;
+};
+
+export type SpeedEventUncheckedUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	topic?: Prisma.StringFieldUpdateOperationsInput | string;
+	startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	endsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	roundLengthSec?: Prisma.IntFieldUpdateOperationsInput | number;
+	capacity?: Prisma.IntFieldUpdateOperationsInput | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusFieldUpdateOperationsInput
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntFieldUpdateOperationsInput | number;
+	roundEndsAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	registrations?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutEventNestedInput;
+	pairings?: Prisma.SpeedEventPairingUncheckedUpdateManyWithoutEventNestedInput;
+	likes?: Prisma.SpeedEventLikeUncheckedUpdateManyWithoutEventNestedInput;
+};
+
+export type SpeedEventCreateManyInput = {
+	id?: string;
+	topic: string;
+	startsAt: Date | string;
+	endsAt: Date | string;
+	roundLengthSec: number;
+	capacity: number;
+	status?: $Enums.SpeedEventStatus;
+	currentRound?: number;
+	roundEndsAt?: Date | string | null;
+	likesCloseAt?: Date | string | null;
+	createdById: string;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+};
+
+export type SpeedEventUpdateManyMutationInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	topic?: Prisma.StringFieldUpdateOperationsInput | string;
+	startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	endsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	roundLengthSec?: Prisma.IntFieldUpdateOperationsInput | number;
+	capacity?: Prisma.IntFieldUpdateOperationsInput | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusFieldUpdateOperationsInput
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntFieldUpdateOperationsInput | number;
+	roundEndsAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventUncheckedUpdateManyInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	topic?: Prisma.StringFieldUpdateOperationsInput | string;
+	startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	endsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	roundLengthSec?: Prisma.IntFieldUpdateOperationsInput | number;
+	capacity?: Prisma.IntFieldUpdateOperationsInput | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusFieldUpdateOperationsInput
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntFieldUpdateOperationsInput | number;
+	roundEndsAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventCountOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	topic?: Prisma.SortOrder;
+	startsAt?: Prisma.SortOrder;
+	endsAt?: Prisma.SortOrder;
+	roundLengthSec?: Prisma.SortOrder;
+	capacity?: Prisma.SortOrder;
+	status?: Prisma.SortOrder;
+	currentRound?: Prisma.SortOrder;
+	roundEndsAt?: Prisma.SortOrder;
+	likesCloseAt?: Prisma.SortOrder;
+	createdById?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	updatedAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventAvgOrderByAggregateInput = {
+	roundLengthSec?: Prisma.SortOrder;
+	capacity?: Prisma.SortOrder;
+	currentRound?: Prisma.SortOrder;
+};
+
+export type SpeedEventMaxOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	topic?: Prisma.SortOrder;
+	startsAt?: Prisma.SortOrder;
+	endsAt?: Prisma.SortOrder;
+	roundLengthSec?: Prisma.SortOrder;
+	capacity?: Prisma.SortOrder;
+	status?: Prisma.SortOrder;
+	currentRound?: Prisma.SortOrder;
+	roundEndsAt?: Prisma.SortOrder;
+	likesCloseAt?: Prisma.SortOrder;
+	createdById?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	updatedAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventMinOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	topic?: Prisma.SortOrder;
+	startsAt?: Prisma.SortOrder;
+	endsAt?: Prisma.SortOrder;
+	roundLengthSec?: Prisma.SortOrder;
+	capacity?: Prisma.SortOrder;
+	status?: Prisma.SortOrder;
+	currentRound?: Prisma.SortOrder;
+	roundEndsAt?: Prisma.SortOrder;
+	likesCloseAt?: Prisma.SortOrder;
+	createdById?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	updatedAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventSumOrderByAggregateInput = {
+	roundLengthSec?: Prisma.SortOrder;
+	capacity?: Prisma.SortOrder;
+	currentRound?: Prisma.SortOrder;
+};
+
+export type SpeedEventScalarRelationFilter = {
+	is?: Prisma.SpeedEventWhereInput;
+	isNot?: Prisma.SpeedEventWhereInput;
+};
+
+export type EnumSpeedEventStatusFieldUpdateOperationsInput = {
+	set?: $Enums.SpeedEventStatus;
+};
+
+export type SpeedEventCreateNestedOneWithoutRegistrationsInput = {
+	create?: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutRegistrationsInput,
+		Prisma.SpeedEventUncheckedCreateWithoutRegistrationsInput
+	>;
+	connectOrCreate?: Prisma.SpeedEventCreateOrConnectWithoutRegistrationsInput;
+	connect?: Prisma.SpeedEventWhereUniqueInput;
+};
+
+export type SpeedEventUpdateOneRequiredWithoutRegistrationsNestedInput = {
+	create?: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutRegistrationsInput,
+		Prisma.SpeedEventUncheckedCreateWithoutRegistrationsInput
+	>;
+	connectOrCreate?: Prisma.SpeedEventCreateOrConnectWithoutRegistrationsInput;
+	upsert?: Prisma.SpeedEventUpsertWithoutRegistrationsInput;
+	connect?: Prisma.SpeedEventWhereUniqueInput;
+	update?: Prisma.XOR<
+		Prisma.XOR<
+			Prisma.SpeedEventUpdateToOneWithWhereWithoutRegistrationsInput,
+			Prisma.SpeedEventUpdateWithoutRegistrationsInput
+		>,
+		Prisma.SpeedEventUncheckedUpdateWithoutRegistrationsInput
+	>;
+};
+
+export type SpeedEventCreateNestedOneWithoutPairingsInput = {
+	create?: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutPairingsInput,
+		Prisma.SpeedEventUncheckedCreateWithoutPairingsInput
+	>;
+	connectOrCreate?: Prisma.SpeedEventCreateOrConnectWithoutPairingsInput;
+	connect?: Prisma.SpeedEventWhereUniqueInput;
+};
+
+export type SpeedEventUpdateOneRequiredWithoutPairingsNestedInput = {
+	create?: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutPairingsInput,
+		Prisma.SpeedEventUncheckedCreateWithoutPairingsInput
+	>;
+	connectOrCreate?: Prisma.SpeedEventCreateOrConnectWithoutPairingsInput;
+	upsert?: Prisma.SpeedEventUpsertWithoutPairingsInput;
+	connect?: Prisma.SpeedEventWhereUniqueInput;
+	update?: Prisma.XOR<
+		Prisma.XOR<
+			Prisma.SpeedEventUpdateToOneWithWhereWithoutPairingsInput,
+			Prisma.SpeedEventUpdateWithoutPairingsInput
+		>,
+		Prisma.SpeedEventUncheckedUpdateWithoutPairingsInput
+	>;
+};
+
+export type SpeedEventCreateNestedOneWithoutLikesInput = {
+	create?: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutLikesInput,
+		Prisma.SpeedEventUncheckedCreateWithoutLikesInput
+	>;
+	connectOrCreate?: Prisma.SpeedEventCreateOrConnectWithoutLikesInput;
+	connect?: Prisma.SpeedEventWhereUniqueInput;
+};
+
+export type SpeedEventUpdateOneRequiredWithoutLikesNestedInput = {
+	create?: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutLikesInput,
+		Prisma.SpeedEventUncheckedCreateWithoutLikesInput
+	>;
+	connectOrCreate?: Prisma.SpeedEventCreateOrConnectWithoutLikesInput;
+	upsert?: Prisma.SpeedEventUpsertWithoutLikesInput;
+	connect?: Prisma.SpeedEventWhereUniqueInput;
+	update?: Prisma.XOR<
+		Prisma.XOR<
+			Prisma.SpeedEventUpdateToOneWithWhereWithoutLikesInput,
+			Prisma.SpeedEventUpdateWithoutLikesInput
+		>,
+		Prisma.SpeedEventUncheckedUpdateWithoutLikesInput
+	>;
+};
+
+export type SpeedEventCreateWithoutRegistrationsInput = {
+	id?: string;
+	topic: string;
+	startsAt: Date | string;
+	endsAt: Date | string;
+	roundLengthSec: number;
+	capacity: number;
+	status?: $Enums.SpeedEventStatus;
+	currentRound?: number;
+	roundEndsAt?: Date | string | null;
+	likesCloseAt?: Date | string | null;
+	createdById: string;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	pairings?: Prisma.SpeedEventPairingCreateNestedManyWithoutEventInput;
+	likes?: Prisma.SpeedEventLikeCreateNestedManyWithoutEventInput;
+};
+
+export type SpeedEventUncheckedCreateWithoutRegistrationsInput = {
+	id?: string;
+	topic: string;
+	startsAt: Date | string;
+	endsAt: Date | string;
+	roundLengthSec: number;
+	capacity: number;
+	status?: $Enums.SpeedEventStatus;
+	currentRound?: number;
+	roundEndsAt?: Date | string | null;
+	likesCloseAt?: Date | string | null;
+	createdById: string;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	pairings?: Prisma.SpeedEventPairingUncheckedCreateNestedManyWithoutEventInput;
+	likes?: Prisma.SpeedEventLikeUncheckedCreateNestedManyWithoutEventInput;
+};
+
+export type SpeedEventCreateOrConnectWithoutRegistrationsInput = {
+	where: Prisma.SpeedEventWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutRegistrationsInput,
+		Prisma.SpeedEventUncheckedCreateWithoutRegistrationsInput
+	>;
+};
+
+export type SpeedEventUpsertWithoutRegistrationsInput = {
+	update: Prisma.XOR<
+		Prisma.SpeedEventUpdateWithoutRegistrationsInput,
+		Prisma.SpeedEventUncheckedUpdateWithoutRegistrationsInput
+	>;
+	create: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutRegistrationsInput,
+		Prisma.SpeedEventUncheckedCreateWithoutRegistrationsInput
+	>;
+	where?: Prisma.SpeedEventWhereInput;
+};
+
+export type SpeedEventUpdateToOneWithWhereWithoutRegistrationsInput = {
+	where?: Prisma.SpeedEventWhereInput;
+	data: Prisma.XOR<
+		Prisma.SpeedEventUpdateWithoutRegistrationsInput,
+		Prisma.SpeedEventUncheckedUpdateWithoutRegistrationsInput
+	>;
+};
+
+export type SpeedEventUpdateWithoutRegistrationsInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	topic?: Prisma.StringFieldUpdateOperationsInput | string;
+	startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	endsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	roundLengthSec?: Prisma.IntFieldUpdateOperationsInput | number;
+	capacity?: Prisma.IntFieldUpdateOperationsInput | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusFieldUpdateOperationsInput
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntFieldUpdateOperationsInput | number;
+	roundEndsAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	pairings?: Prisma.SpeedEventPairingUpdateManyWithoutEventNestedInput;
+	likes?: Prisma.SpeedEventLikeUpdateManyWithoutEventNestedInput;
+};
+
+export type SpeedEventUncheckedUpdateWithoutRegistrationsInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	topic?: Prisma.StringFieldUpdateOperationsInput | string;
+	startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	endsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	roundLengthSec?: Prisma.IntFieldUpdateOperationsInput | number;
+	capacity?: Prisma.IntFieldUpdateOperationsInput | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusFieldUpdateOperationsInput
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntFieldUpdateOperationsInput | number;
+	roundEndsAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	pairings?: Prisma.SpeedEventPairingUncheckedUpdateManyWithoutEventNestedInput;
+	likes?: Prisma.SpeedEventLikeUncheckedUpdateManyWithoutEventNestedInput;
+};
+
+export type SpeedEventCreateWithoutPairingsInput = {
+	id?: string;
+	topic: string;
+	startsAt: Date | string;
+	endsAt: Date | string;
+	roundLengthSec: number;
+	capacity: number;
+	status?: $Enums.SpeedEventStatus;
+	currentRound?: number;
+	roundEndsAt?: Date | string | null;
+	likesCloseAt?: Date | string | null;
+	createdById: string;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	registrations?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutEventInput;
+	likes?: Prisma.SpeedEventLikeCreateNestedManyWithoutEventInput;
+};
+
+export type SpeedEventUncheckedCreateWithoutPairingsInput = {
+	id?: string;
+	topic: string;
+	startsAt: Date | string;
+	endsAt: Date | string;
+	roundLengthSec: number;
+	capacity: number;
+	status?: $Enums.SpeedEventStatus;
+	currentRound?: number;
+	roundEndsAt?: Date | string | null;
+	likesCloseAt?: Date | string | null;
+	createdById: string;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	registrations?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutEventInput;
+	likes?: Prisma.SpeedEventLikeUncheckedCreateNestedManyWithoutEventInput;
+};
+
+export type SpeedEventCreateOrConnectWithoutPairingsInput = {
+	where: Prisma.SpeedEventWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutPairingsInput,
+		Prisma.SpeedEventUncheckedCreateWithoutPairingsInput
+	>;
+};
+
+export type SpeedEventUpsertWithoutPairingsInput = {
+	update: Prisma.XOR<
+		Prisma.SpeedEventUpdateWithoutPairingsInput,
+		Prisma.SpeedEventUncheckedUpdateWithoutPairingsInput
+	>;
+	create: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutPairingsInput,
+		Prisma.SpeedEventUncheckedCreateWithoutPairingsInput
+	>;
+	where?: Prisma.SpeedEventWhereInput;
+};
+
+export type SpeedEventUpdateToOneWithWhereWithoutPairingsInput = {
+	where?: Prisma.SpeedEventWhereInput;
+	data: Prisma.XOR<
+		Prisma.SpeedEventUpdateWithoutPairingsInput,
+		Prisma.SpeedEventUncheckedUpdateWithoutPairingsInput
+	>;
+};
+
+export type SpeedEventUpdateWithoutPairingsInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	topic?: Prisma.StringFieldUpdateOperationsInput | string;
+	startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	endsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	roundLengthSec?: Prisma.IntFieldUpdateOperationsInput | number;
+	capacity?: Prisma.IntFieldUpdateOperationsInput | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusFieldUpdateOperationsInput
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntFieldUpdateOperationsInput | number;
+	roundEndsAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	registrations?: Prisma.SpeedEventRegistrationUpdateManyWithoutEventNestedInput;
+	likes?: Prisma.SpeedEventLikeUpdateManyWithoutEventNestedInput;
+};
+
+export type SpeedEventUncheckedUpdateWithoutPairingsInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	topic?: Prisma.StringFieldUpdateOperationsInput | string;
+	startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	endsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	roundLengthSec?: Prisma.IntFieldUpdateOperationsInput | number;
+	capacity?: Prisma.IntFieldUpdateOperationsInput | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusFieldUpdateOperationsInput
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntFieldUpdateOperationsInput | number;
+	roundEndsAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	registrations?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutEventNestedInput;
+	likes?: Prisma.SpeedEventLikeUncheckedUpdateManyWithoutEventNestedInput;
+};
+
+export type SpeedEventCreateWithoutLikesInput = {
+	id?: string;
+	topic: string;
+	startsAt: Date | string;
+	endsAt: Date | string;
+	roundLengthSec: number;
+	capacity: number;
+	status?: $Enums.SpeedEventStatus;
+	currentRound?: number;
+	roundEndsAt?: Date | string | null;
+	likesCloseAt?: Date | string | null;
+	createdById: string;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	registrations?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutEventInput;
+	pairings?: Prisma.SpeedEventPairingCreateNestedManyWithoutEventInput;
+};
+
+export type SpeedEventUncheckedCreateWithoutLikesInput = {
+	id?: string;
+	topic: string;
+	startsAt: Date | string;
+	endsAt: Date | string;
+	roundLengthSec: number;
+	capacity: number;
+	status?: $Enums.SpeedEventStatus;
+	currentRound?: number;
+	roundEndsAt?: Date | string | null;
+	likesCloseAt?: Date | string | null;
+	createdById: string;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	registrations?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutEventInput;
+	pairings?: Prisma.SpeedEventPairingUncheckedCreateNestedManyWithoutEventInput;
+};
+
+export type SpeedEventCreateOrConnectWithoutLikesInput = {
+	where: Prisma.SpeedEventWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutLikesInput,
+		Prisma.SpeedEventUncheckedCreateWithoutLikesInput
+	>;
+};
+
+export type SpeedEventUpsertWithoutLikesInput = {
+	update: Prisma.XOR<
+		Prisma.SpeedEventUpdateWithoutLikesInput,
+		Prisma.SpeedEventUncheckedUpdateWithoutLikesInput
+	>;
+	create: Prisma.XOR<
+		Prisma.SpeedEventCreateWithoutLikesInput,
+		Prisma.SpeedEventUncheckedCreateWithoutLikesInput
+	>;
+	where?: Prisma.SpeedEventWhereInput;
+};
+
+export type SpeedEventUpdateToOneWithWhereWithoutLikesInput = {
+	where?: Prisma.SpeedEventWhereInput;
+	data: Prisma.XOR<
+		Prisma.SpeedEventUpdateWithoutLikesInput,
+		Prisma.SpeedEventUncheckedUpdateWithoutLikesInput
+	>;
+};
+
+export type SpeedEventUpdateWithoutLikesInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	topic?: Prisma.StringFieldUpdateOperationsInput | string;
+	startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	endsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	roundLengthSec?: Prisma.IntFieldUpdateOperationsInput | number;
+	capacity?: Prisma.IntFieldUpdateOperationsInput | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusFieldUpdateOperationsInput
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntFieldUpdateOperationsInput | number;
+	roundEndsAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	registrations?: Prisma.SpeedEventRegistrationUpdateManyWithoutEventNestedInput;
+	pairings?: Prisma.SpeedEventPairingUpdateManyWithoutEventNestedInput;
+};
+
+export type SpeedEventUncheckedUpdateWithoutLikesInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	topic?: Prisma.StringFieldUpdateOperationsInput | string;
+	startsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	endsAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	roundLengthSec?: Prisma.IntFieldUpdateOperationsInput | number;
+	capacity?: Prisma.IntFieldUpdateOperationsInput | number;
+	status?:
+		| Prisma.EnumSpeedEventStatusFieldUpdateOperationsInput
+		| $Enums.SpeedEventStatus;
+	currentRound?: Prisma.IntFieldUpdateOperationsInput | number;
+	roundEndsAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	likesCloseAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	registrations?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutEventNestedInput;
+	pairings?: Prisma.SpeedEventPairingUncheckedUpdateManyWithoutEventNestedInput;
+};
+
+/**
+ * Count Type SpeedEventCountOutputType
+ */
+
+export type SpeedEventCountOutputType = {
+	registrations: number;
+	pairings: number;
+	likes: number;
+};
+
+export type SpeedEventCountOutputTypeSelect<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	registrations?: boolean | SpeedEventCountOutputTypeCountRegistrationsArgs;
+	pairings?: boolean | SpeedEventCountOutputTypeCountPairingsArgs;
+	likes?: boolean | SpeedEventCountOutputTypeCountLikesArgs;
+};
+
+/**
+ * SpeedEventCountOutputType without action
+ */
+export type SpeedEventCountOutputTypeDefaultArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventCountOutputType
+	 */
+	select?: Prisma.SpeedEventCountOutputTypeSelect<ExtArgs> | null;
+};
+
+/**
+ * SpeedEventCountOutputType without action
+ */
+export type SpeedEventCountOutputTypeCountRegistrationsArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+};
+
+/**
+ * SpeedEventCountOutputType without action
+ */
+export type SpeedEventCountOutputTypeCountPairingsArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.SpeedEventPairingWhereInput;
+};
+
+/**
+ * SpeedEventCountOutputType without action
+ */
+export type SpeedEventCountOutputTypeCountLikesArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.SpeedEventLikeWhereInput;
+};
+
+export type SpeedEventSelect<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		topic?: boolean;
+		startsAt?: boolean;
+		endsAt?: boolean;
+		roundLengthSec?: boolean;
+		capacity?: boolean;
+		status?: boolean;
+		currentRound?: boolean;
+		roundEndsAt?: boolean;
+		likesCloseAt?: boolean;
+		createdById?: boolean;
+		createdAt?: boolean;
+		updatedAt?: boolean;
+		registrations?: boolean | Prisma.SpeedEvent$registrationsArgs<ExtArgs>;
+		pairings?: boolean | Prisma.SpeedEvent$pairingsArgs<ExtArgs>;
+		likes?: boolean | Prisma.SpeedEvent$likesArgs<ExtArgs>;
+		_count?: boolean | Prisma.SpeedEventCountOutputTypeDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["speedEvent"]
+>;
+
+export type SpeedEventSelectCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		topic?: boolean;
+		startsAt?: boolean;
+		endsAt?: boolean;
+		roundLengthSec?: boolean;
+		capacity?: boolean;
+		status?: boolean;
+		currentRound?: boolean;
+		roundEndsAt?: boolean;
+		likesCloseAt?: boolean;
+		createdById?: boolean;
+		createdAt?: boolean;
+		updatedAt?: boolean;
+	},
+	ExtArgs["result"]["speedEvent"]
+>;
+
+export type SpeedEventSelectUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		topic?: boolean;
+		startsAt?: boolean;
+		endsAt?: boolean;
+		roundLengthSec?: boolean;
+		capacity?: boolean;
+		status?: boolean;
+		currentRound?: boolean;
+		roundEndsAt?: boolean;
+		likesCloseAt?: boolean;
+		createdById?: boolean;
+		createdAt?: boolean;
+		updatedAt?: boolean;
+	},
+	ExtArgs["result"]["speedEvent"]
+>;
+
+export type SpeedEventSelectScalar = {
+	id?: boolean;
+	topic?: boolean;
+	startsAt?: boolean;
+	endsAt?: boolean;
+	roundLengthSec?: boolean;
+	capacity?: boolean;
+	status?: boolean;
+	currentRound?: boolean;
+	roundEndsAt?: boolean;
+	likesCloseAt?: boolean;
+	createdById?: boolean;
+	createdAt?: boolean;
+	updatedAt?: boolean;
+};
+
+export type SpeedEventOmit<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+	| "id"
+	| "topic"
+	| "startsAt"
+	| "endsAt"
+	| "roundLengthSec"
+	| "capacity"
+	| "status"
+	| "currentRound"
+	| "roundEndsAt"
+	| "likesCloseAt"
+	| "createdById"
+	| "createdAt"
+	| "updatedAt",
+	ExtArgs["result"]["speedEvent"]
+>;
+export type SpeedEventInclude<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	registrations?: boolean | Prisma.SpeedEvent$registrationsArgs<ExtArgs>;
+	pairings?: boolean | Prisma.SpeedEvent$pairingsArgs<ExtArgs>;
+	likes?: boolean | Prisma.SpeedEvent$likesArgs<ExtArgs>;
+	_count?: boolean | Prisma.SpeedEventCountOutputTypeDefaultArgs<ExtArgs>;
+};
+export type SpeedEventIncludeCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {};
+export type SpeedEventIncludeUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {};
+
+export type $SpeedEventPayload<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	name: "SpeedEvent";
+	objects: {
+		registrations: Prisma.$SpeedEventRegistrationPayload<ExtArgs>[];
+		pairings: Prisma.$SpeedEventPairingPayload<ExtArgs>[];
+		likes: Prisma.$SpeedEventLikePayload<ExtArgs>[];
+	};
+	scalars: runtime.Types.Extensions.GetPayloadResult<
+		{
+			id: string;
+			topic: string;
+			startsAt: Date;
+			endsAt: Date;
+			roundLengthSec: number;
+			capacity: number;
+			status: $Enums.SpeedEventStatus;
+			currentRound: number;
+			roundEndsAt: Date | null;
+			likesCloseAt: Date | null;
+			createdById: string;
+			createdAt: Date;
+			updatedAt: Date;
+		},
+		ExtArgs["result"]["speedEvent"]
+	>;
+	composites: {};
+};
+
+export type SpeedEventGetPayload<
+	S extends boolean | null | undefined | SpeedEventDefaultArgs,
+> = runtime.Types.Result.GetResult<Prisma.$SpeedEventPayload, S>;
+
+export type SpeedEventCountArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<SpeedEventFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+	select?: SpeedEventCountAggregateInputType | true;
+};
+
+export interface SpeedEventDelegate<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> {
+	[K: symbol]: {
+		types: Prisma.TypeMap<ExtArgs>["model"]["SpeedEvent"];
+		meta: { name: "SpeedEvent" };
+	};
+	/**
+	 * Find zero or one SpeedEvent that matches the filter.
+	 * @param {SpeedEventFindUniqueArgs} args - Arguments to find a SpeedEvent
+	 * @example
+	 * // Get one SpeedEvent
+	 * const speedEvent = await prisma.speedEvent.findUnique({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUnique<T extends SpeedEventFindUniqueArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventFindUniqueArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPayload<ExtArgs>,
+			T,
+			"findUnique",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find one SpeedEvent that matches the filter or throw an error with `error.code='P2025'`
+	 * if no matches were found.
+	 * @param {SpeedEventFindUniqueOrThrowArgs} args - Arguments to find a SpeedEvent
+	 * @example
+	 * // Get one SpeedEvent
+	 * const speedEvent = await prisma.speedEvent.findUniqueOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUniqueOrThrow<T extends SpeedEventFindUniqueOrThrowArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventFindUniqueOrThrowArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPayload<ExtArgs>,
+			T,
+			"findUniqueOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first SpeedEvent that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventFindFirstArgs} args - Arguments to find a SpeedEvent
+	 * @example
+	 * // Get one SpeedEvent
+	 * const speedEvent = await prisma.speedEvent.findFirst({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirst<T extends SpeedEventFindFirstArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventFindFirstArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPayload<ExtArgs>,
+			T,
+			"findFirst",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first SpeedEvent that matches the filter or
+	 * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventFindFirstOrThrowArgs} args - Arguments to find a SpeedEvent
+	 * @example
+	 * // Get one SpeedEvent
+	 * const speedEvent = await prisma.speedEvent.findFirstOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirstOrThrow<T extends SpeedEventFindFirstOrThrowArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventFindFirstOrThrowArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPayload<ExtArgs>,
+			T,
+			"findFirstOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find zero or more SpeedEvents that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventFindManyArgs} args - Arguments to filter and select certain fields only.
+	 * @example
+	 * // Get all SpeedEvents
+	 * const speedEvents = await prisma.speedEvent.findMany()
+	 *
+	 * // Get first 10 SpeedEvents
+	 * const speedEvents = await prisma.speedEvent.findMany({ take: 10 })
+	 *
+	 * // Only select the `id`
+	 * const speedEventWithIdOnly = await prisma.speedEvent.findMany({ select: { id: true } })
+	 *
+	 */
+	findMany<T extends SpeedEventFindManyArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventFindManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPayload<ExtArgs>,
+			T,
+			"findMany",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create a SpeedEvent.
+	 * @param {SpeedEventCreateArgs} args - Arguments to create a SpeedEvent.
+	 * @example
+	 * // Create one SpeedEvent
+	 * const SpeedEvent = await prisma.speedEvent.create({
+	 *   data: {
+	 *     // ... data to create a SpeedEvent
+	 *   }
+	 * })
+	 *
+	 */
+	create<T extends SpeedEventCreateArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventCreateArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPayload<ExtArgs>,
+			T,
+			"create",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Create many SpeedEvents.
+	 * @param {SpeedEventCreateManyArgs} args - Arguments to create many SpeedEvents.
+	 * @example
+	 * // Create many SpeedEvents
+	 * const speedEvent = await prisma.speedEvent.createMany({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 */
+	createMany<T extends SpeedEventCreateManyArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventCreateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Create many SpeedEvents and returns the data saved in the database.
+	 * @param {SpeedEventCreateManyAndReturnArgs} args - Arguments to create many SpeedEvents.
+	 * @example
+	 * // Create many SpeedEvents
+	 * const speedEvent = await prisma.speedEvent.createManyAndReturn({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Create many SpeedEvents and only return the `id`
+	 * const speedEventWithIdOnly = await prisma.speedEvent.createManyAndReturn({
+	 *   select: { id: true },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	createManyAndReturn<T extends SpeedEventCreateManyAndReturnArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventCreateManyAndReturnArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPayload<ExtArgs>,
+			T,
+			"createManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Delete a SpeedEvent.
+	 * @param {SpeedEventDeleteArgs} args - Arguments to delete one SpeedEvent.
+	 * @example
+	 * // Delete one SpeedEvent
+	 * const SpeedEvent = await prisma.speedEvent.delete({
+	 *   where: {
+	 *     // ... filter to delete one SpeedEvent
+	 *   }
+	 * })
+	 *
+	 */
+	delete<T extends SpeedEventDeleteArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventDeleteArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPayload<ExtArgs>,
+			T,
+			"delete",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Update one SpeedEvent.
+	 * @param {SpeedEventUpdateArgs} args - Arguments to update one SpeedEvent.
+	 * @example
+	 * // Update one SpeedEvent
+	 * const speedEvent = await prisma.speedEvent.update({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	update<T extends SpeedEventUpdateArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventUpdateArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPayload<ExtArgs>,
+			T,
+			"update",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Delete zero or more SpeedEvents.
+	 * @param {SpeedEventDeleteManyArgs} args - Arguments to filter SpeedEvents to delete.
+	 * @example
+	 * // Delete a few SpeedEvents
+	 * const { count } = await prisma.speedEvent.deleteMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 *
+	 */
+	deleteMany<T extends SpeedEventDeleteManyArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventDeleteManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more SpeedEvents.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventUpdateManyArgs} args - Arguments to update one or more rows.
+	 * @example
+	 * // Update many SpeedEvents
+	 * const speedEvent = await prisma.speedEvent.updateMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	updateMany<T extends SpeedEventUpdateManyArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventUpdateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more SpeedEvents and returns the data updated in the database.
+	 * @param {SpeedEventUpdateManyAndReturnArgs} args - Arguments to update many SpeedEvents.
+	 * @example
+	 * // Update many SpeedEvents
+	 * const speedEvent = await prisma.speedEvent.updateManyAndReturn({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Update zero or more SpeedEvents and only return the `id`
+	 * const speedEventWithIdOnly = await prisma.speedEvent.updateManyAndReturn({
+	 *   select: { id: true },
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	updateManyAndReturn<T extends SpeedEventUpdateManyAndReturnArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventUpdateManyAndReturnArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPayload<ExtArgs>,
+			T,
+			"updateManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create or update one SpeedEvent.
+	 * @param {SpeedEventUpsertArgs} args - Arguments to update or create a SpeedEvent.
+	 * @example
+	 * // Update or create a SpeedEvent
+	 * const speedEvent = await prisma.speedEvent.upsert({
+	 *   create: {
+	 *     // ... data to create a SpeedEvent
+	 *   },
+	 *   update: {
+	 *     // ... in case it already exists, update
+	 *   },
+	 *   where: {
+	 *     // ... the filter for the SpeedEvent we want to update
+	 *   }
+	 * })
+	 */
+	upsert<T extends SpeedEventUpsertArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventUpsertArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPayload<ExtArgs>,
+			T,
+			"upsert",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Count the number of SpeedEvents.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventCountArgs} args - Arguments to filter SpeedEvents to count.
+	 * @example
+	 * // Count the number of SpeedEvents
+	 * const count = await prisma.speedEvent.count({
+	 *   where: {
+	 *     // ... the filter for the SpeedEvents we want to count
+	 *   }
+	 * })
+	 **/
+	count<T extends SpeedEventCountArgs>(
+		args?: Prisma.Subset<T, SpeedEventCountArgs>,
+	): Prisma.PrismaPromise<
+		T extends runtime.Types.Utils.Record<"select", any>
+			? T["select"] extends true
+				? number
+				: Prisma.GetScalarType<T["select"], SpeedEventCountAggregateOutputType>
+			: number
+	>;
+
+	/**
+	 * Allows you to perform aggregations operations on a SpeedEvent.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+	 * @example
+	 * // Ordered by age ascending
+	 * // Where email contains prisma.io
+	 * // Limited to the 10 users
+	 * const aggregations = await prisma.user.aggregate({
+	 *   _avg: {
+	 *     age: true,
+	 *   },
+	 *   where: {
+	 *     email: {
+	 *       contains: "prisma.io",
+	 *     },
+	 *   },
+	 *   orderBy: {
+	 *     age: "asc",
+	 *   },
+	 *   take: 10,
+	 * })
+	 **/
+	aggregate<T extends SpeedEventAggregateArgs>(
+		args: Prisma.Subset<T, SpeedEventAggregateArgs>,
+	): Prisma.PrismaPromise<GetSpeedEventAggregateType<T>>;
+
+	/**
+	 * Group by SpeedEvent.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventGroupByArgs} args - Group by arguments.
+	 * @example
+	 * // Group by city, order by createdAt, get count
+	 * const result = await prisma.user.groupBy({
+	 *   by: ['city', 'createdAt'],
+	 *   orderBy: {
+	 *     createdAt: true
+	 *   },
+	 *   _count: {
+	 *     _all: true
+	 *   },
+	 * })
+	 *
+	 **/
+	groupBy<
+		T extends SpeedEventGroupByArgs,
+		HasSelectOrTake extends Prisma.Or<
+			Prisma.Extends<"skip", Prisma.Keys<T>>,
+			Prisma.Extends<"take", Prisma.Keys<T>>
+		>,
+		OrderByArg extends Prisma.True extends HasSelectOrTake
+			? { orderBy: SpeedEventGroupByArgs["orderBy"] }
+			: { orderBy?: SpeedEventGroupByArgs["orderBy"] },
+		OrderFields extends Prisma.ExcludeUnderscoreKeys<
+			Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+		>,
+		ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+		ByValid extends Prisma.Has<ByFields, OrderFields>,
+		HavingFields extends Prisma.GetHavingFields<T["having"]>,
+		HavingValid extends Prisma.Has<ByFields, HavingFields>,
+		ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+		InputErrors extends ByEmpty extends Prisma.True
+			? `Error: "by" must not be empty.`
+			: HavingValid extends Prisma.False
+				? {
+						[P in HavingFields]: P extends ByFields
+							? never
+							: P extends string
+								? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+								: [
+										Error,
+										"Field ",
+										P,
+										` in "having" needs to be provided in "by"`,
+									];
+					}[HavingFields]
+				: "take" extends Prisma.Keys<T>
+					? "orderBy" extends Prisma.Keys<T>
+						? ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields]
+						: 'Error: If you provide "take", you also need to provide "orderBy"'
+					: "skip" extends Prisma.Keys<T>
+						? "orderBy" extends Prisma.Keys<T>
+							? ByValid extends Prisma.True
+								? {}
+								: {
+										[P in OrderFields]: P extends ByFields
+											? never
+											: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+									}[OrderFields]
+							: 'Error: If you provide "skip", you also need to provide "orderBy"'
+						: ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields],
+	>(
+		args: Prisma.SubsetIntersection<T, SpeedEventGroupByArgs, OrderByArg> &
+			InputErrors,
+	): {} extends InputErrors
+		? GetSpeedEventGroupByPayload<T>
+		: Prisma.PrismaPromise<InputErrors>;
+	/**
+	 * Fields of the SpeedEvent model
+	 */
+	readonly fields: SpeedEventFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SpeedEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SpeedEventClient<
+	T,
+	Null = never,
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+	readonly [Symbol.toStringTag]: "PrismaPromise";
+	registrations<T extends Prisma.SpeedEvent$registrationsArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.SpeedEvent$registrationsArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		| runtime.Types.Result.GetResult<
+				Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+				T,
+				"findMany",
+				GlobalOmitOptions
+		  >
+		| Null
+	>;
+	pairings<T extends Prisma.SpeedEvent$pairingsArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.SpeedEvent$pairingsArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		| runtime.Types.Result.GetResult<
+				Prisma.$SpeedEventPairingPayload<ExtArgs>,
+				T,
+				"findMany",
+				GlobalOmitOptions
+		  >
+		| Null
+	>;
+	likes<T extends Prisma.SpeedEvent$likesArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.SpeedEvent$likesArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		| runtime.Types.Result.GetResult<
+				Prisma.$SpeedEventLikePayload<ExtArgs>,
+				T,
+				"findMany",
+				GlobalOmitOptions
+		  >
+		| Null
+	>;
+	/**
+	 * Attaches callbacks for the resolution and/or rejection of the Promise.
+	 * @param onfulfilled The callback to execute when the Promise is resolved.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of which ever callback is executed.
+	 */
+	then<TResult1 = T, TResult2 = never>(
+		onfulfilled?:
+			| ((value: T) => TResult1 | PromiseLike<TResult1>)
+			| undefined
+			| null,
+		onrejected?:
+			| ((reason: any) => TResult2 | PromiseLike<TResult2>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+	/**
+	 * Attaches a callback for only the rejection of the Promise.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of the callback.
+	 */
+	catch<TResult = never>(
+		onrejected?:
+			| ((reason: any) => TResult | PromiseLike<TResult>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<T | TResult>;
+	/**
+	 * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+	 * resolved value cannot be modified from the callback.
+	 * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+	 * @returns A Promise for the completion of the callback.
+	 */
+	finally(
+		onfinally?: (() => void) | undefined | null,
+	): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the SpeedEvent model
+ */
+export interface SpeedEventFieldRefs {
+	readonly id: Prisma.FieldRef<"SpeedEvent", "String">;
+	readonly topic: Prisma.FieldRef<"SpeedEvent", "String">;
+	readonly startsAt: Prisma.FieldRef<"SpeedEvent", "DateTime">;
+	readonly endsAt: Prisma.FieldRef<"SpeedEvent", "DateTime">;
+	readonly roundLengthSec: Prisma.FieldRef<"SpeedEvent", "Int">;
+	readonly capacity: Prisma.FieldRef<"SpeedEvent", "Int">;
+	readonly status: Prisma.FieldRef<"SpeedEvent", "SpeedEventStatus">;
+	readonly currentRound: Prisma.FieldRef<"SpeedEvent", "Int">;
+	readonly roundEndsAt: Prisma.FieldRef<"SpeedEvent", "DateTime">;
+	readonly likesCloseAt: Prisma.FieldRef<"SpeedEvent", "DateTime">;
+	readonly createdById: Prisma.FieldRef<"SpeedEvent", "String">;
+	readonly createdAt: Prisma.FieldRef<"SpeedEvent", "DateTime">;
+	readonly updatedAt: Prisma.FieldRef<"SpeedEvent", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * SpeedEvent findUnique
+ */
+export type SpeedEventFindUniqueArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEvent to fetch.
+	 */
+	where: Prisma.SpeedEventWhereUniqueInput;
+};
+
+/**
+ * SpeedEvent findUniqueOrThrow
+ */
+export type SpeedEventFindUniqueOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEvent to fetch.
+	 */
+	where: Prisma.SpeedEventWhereUniqueInput;
+};
+
+/**
+ * SpeedEvent findFirst
+ */
+export type SpeedEventFindFirstArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEvent to fetch.
+	 */
+	where?: Prisma.SpeedEventWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEvents to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventOrderByWithRelationInput
+		| Prisma.SpeedEventOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for SpeedEvents.
+	 */
+	cursor?: Prisma.SpeedEventWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEvents from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEvents.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of SpeedEvents.
+	 */
+	distinct?:
+		| Prisma.SpeedEventScalarFieldEnum
+		| Prisma.SpeedEventScalarFieldEnum[];
+};
+
+/**
+ * SpeedEvent findFirstOrThrow
+ */
+export type SpeedEventFindFirstOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEvent to fetch.
+	 */
+	where?: Prisma.SpeedEventWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEvents to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventOrderByWithRelationInput
+		| Prisma.SpeedEventOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for SpeedEvents.
+	 */
+	cursor?: Prisma.SpeedEventWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEvents from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEvents.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of SpeedEvents.
+	 */
+	distinct?:
+		| Prisma.SpeedEventScalarFieldEnum
+		| Prisma.SpeedEventScalarFieldEnum[];
+};
+
+/**
+ * SpeedEvent findMany
+ */
+export type SpeedEventFindManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEvents to fetch.
+	 */
+	where?: Prisma.SpeedEventWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEvents to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventOrderByWithRelationInput
+		| Prisma.SpeedEventOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for listing SpeedEvents.
+	 */
+	cursor?: Prisma.SpeedEventWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEvents from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEvents.
+	 */
+	skip?: number;
+	distinct?:
+		| Prisma.SpeedEventScalarFieldEnum
+		| Prisma.SpeedEventScalarFieldEnum[];
+};
+
+/**
+ * SpeedEvent create
+ */
+export type SpeedEventCreateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventInclude<ExtArgs> | null;
+	/**
+	 * The data needed to create a SpeedEvent.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventCreateInput,
+		Prisma.SpeedEventUncheckedCreateInput
+	>;
+};
+
+/**
+ * SpeedEvent createMany
+ */
+export type SpeedEventCreateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to create many SpeedEvents.
+	 */
+	data: Prisma.SpeedEventCreateManyInput | Prisma.SpeedEventCreateManyInput[];
+	skipDuplicates?: boolean;
+};
+
+/**
+ * SpeedEvent createManyAndReturn
+ */
+export type SpeedEventCreateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelectCreateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * The data used to create many SpeedEvents.
+	 */
+	data: Prisma.SpeedEventCreateManyInput | Prisma.SpeedEventCreateManyInput[];
+	skipDuplicates?: boolean;
+};
+
+/**
+ * SpeedEvent update
+ */
+export type SpeedEventUpdateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventInclude<ExtArgs> | null;
+	/**
+	 * The data needed to update a SpeedEvent.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventUpdateInput,
+		Prisma.SpeedEventUncheckedUpdateInput
+	>;
+	/**
+	 * Choose, which SpeedEvent to update.
+	 */
+	where: Prisma.SpeedEventWhereUniqueInput;
+};
+
+/**
+ * SpeedEvent updateMany
+ */
+export type SpeedEventUpdateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to update SpeedEvents.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventUpdateManyMutationInput,
+		Prisma.SpeedEventUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which SpeedEvents to update
+	 */
+	where?: Prisma.SpeedEventWhereInput;
+	/**
+	 * Limit how many SpeedEvents to update.
+	 */
+	limit?: number;
+};
+
+/**
+ * SpeedEvent updateManyAndReturn
+ */
+export type SpeedEventUpdateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelectUpdateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * The data used to update SpeedEvents.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventUpdateManyMutationInput,
+		Prisma.SpeedEventUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which SpeedEvents to update
+	 */
+	where?: Prisma.SpeedEventWhereInput;
+	/**
+	 * Limit how many SpeedEvents to update.
+	 */
+	limit?: number;
+};
+
+/**
+ * SpeedEvent upsert
+ */
+export type SpeedEventUpsertArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventInclude<ExtArgs> | null;
+	/**
+	 * The filter to search for the SpeedEvent to update in case it exists.
+	 */
+	where: Prisma.SpeedEventWhereUniqueInput;
+	/**
+	 * In case the SpeedEvent found by the `where` argument doesn't exist, create a new SpeedEvent with this data.
+	 */
+	create: Prisma.XOR<
+		Prisma.SpeedEventCreateInput,
+		Prisma.SpeedEventUncheckedCreateInput
+	>;
+	/**
+	 * In case the SpeedEvent was found with the provided `where` argument, update it with this data.
+	 */
+	update: Prisma.XOR<
+		Prisma.SpeedEventUpdateInput,
+		Prisma.SpeedEventUncheckedUpdateInput
+	>;
+};
+
+/**
+ * SpeedEvent delete
+ */
+export type SpeedEventDeleteArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventInclude<ExtArgs> | null;
+	/**
+	 * Filter which SpeedEvent to delete.
+	 */
+	where: Prisma.SpeedEventWhereUniqueInput;
+};
+
+/**
+ * SpeedEvent deleteMany
+ */
+export type SpeedEventDeleteManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which SpeedEvents to delete
+	 */
+	where?: Prisma.SpeedEventWhereInput;
+	/**
+	 * Limit how many SpeedEvents to delete.
+	 */
+	limit?: number;
+};
+
+/**
+ * SpeedEvent.registrations
+ */
+export type SpeedEvent$registrationsArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+	orderBy?:
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput[];
+	cursor?: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	take?: number;
+	skip?: number;
+	distinct?:
+		| Prisma.SpeedEventRegistrationScalarFieldEnum
+		| Prisma.SpeedEventRegistrationScalarFieldEnum[];
+};
+
+/**
+ * SpeedEvent.pairings
+ */
+export type SpeedEvent$pairingsArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingInclude<ExtArgs> | null;
+	where?: Prisma.SpeedEventPairingWhereInput;
+	orderBy?:
+		| Prisma.SpeedEventPairingOrderByWithRelationInput
+		| Prisma.SpeedEventPairingOrderByWithRelationInput[];
+	cursor?: Prisma.SpeedEventPairingWhereUniqueInput;
+	take?: number;
+	skip?: number;
+	distinct?:
+		| Prisma.SpeedEventPairingScalarFieldEnum
+		| Prisma.SpeedEventPairingScalarFieldEnum[];
+};
+
+/**
+ * SpeedEvent.likes
+ */
+export type SpeedEvent$likesArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeInclude<ExtArgs> | null;
+	where?: Prisma.SpeedEventLikeWhereInput;
+	orderBy?:
+		| Prisma.SpeedEventLikeOrderByWithRelationInput
+		| Prisma.SpeedEventLikeOrderByWithRelationInput[];
+	cursor?: Prisma.SpeedEventLikeWhereUniqueInput;
+	take?: number;
+	skip?: number;
+	distinct?:
+		| Prisma.SpeedEventLikeScalarFieldEnum
+		| Prisma.SpeedEventLikeScalarFieldEnum[];
+};
+
+/**
+ * SpeedEvent without action
+ */
+export type SpeedEventDefaultArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEvent
+	 */
+	select?: Prisma.SpeedEventSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEvent
+	 */
+	omit?: Prisma.SpeedEventOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventInclude<ExtArgs> | null;
+};
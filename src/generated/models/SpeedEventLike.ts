@@ -0,0 +1,1768 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `SpeedEventLike` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model SpeedEventLike
+ *
+ */
+export type SpeedEventLikeModel =
+	runtime.Types.Result.DefaultSelection<Prisma.$SpeedEventLikePayload>;
+
+export type AggregateSpeedEventLike = {
+	_count: SpeedEventLikeCountAggregateOutputType | null;
+	_min: SpeedEventLikeMinAggregateOutputType | null;
+	_max: SpeedEventLikeMaxAggregateOutputType | null;
+};
+
+export type SpeedEventLikeMinAggregateOutputType = {
+	id: string | null;
+	eventId: string | null;
+	userId: string | null;
+	likedUserId: string | null;
+	createdAt: Date | null;
+};
+
+export type SpeedEventLikeMaxAggregateOutputType = {
+	id: string | null;
+	eventId: string | null;
+	userId: string | null;
+	likedUserId: string | null;
+	createdAt: Date | null;
+};
+
+export type SpeedEventLikeCountAggregateOutputType = {
+	id: number;
+	eventId: number;
+	userId: number;
+	likedUserId: number;
+	createdAt: number;
+	_all: number;
+};
+
+export type SpeedEventLikeMinAggregateInputType = {
+	id?: true;
+	eventId?: true;
+	userId?: true;
+	likedUserId?: true;
+	createdAt?: true;
+};
+
+export type SpeedEventLikeMaxAggregateInputType = {
+	id?: true;
+	eventId?: true;
+	userId?: true;
+	likedUserId?: true;
+	createdAt?: true;
+};
+
+export type SpeedEventLikeCountAggregateInputType = {
+	id?: true;
+	eventId?: true;
+	userId?: true;
+	likedUserId?: true;
+	createdAt?: true;
+	_all?: true;
+};
+
+export type SpeedEventLikeAggregateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which SpeedEventLike to aggregate.
+	 */
+	where?: Prisma.SpeedEventLikeWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventLikes to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventLikeOrderByWithRelationInput
+		| Prisma.SpeedEventLikeOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the start position
+	 */
+	cursor?: Prisma.SpeedEventLikeWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventLikes from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventLikes.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Count returned SpeedEventLikes
+	 **/
+	_count?: true | SpeedEventLikeCountAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the minimum value
+	 **/
+	_min?: SpeedEventLikeMinAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the maximum value
+	 **/
+	_max?: SpeedEventLikeMaxAggregateInputType;
+};
+
+export type GetSpeedEventLikeAggregateType<
+	T extends SpeedEventLikeAggregateArgs,
+> = {
+	[P in keyof T & keyof AggregateSpeedEventLike]: P extends "_count" | "count"
+		? T[P] extends true
+			? number
+			: Prisma.GetScalarType<T[P], AggregateSpeedEventLike[P]>
+		: Prisma.GetScalarType<T[P], AggregateSpeedEventLike[P]>;
+};
+
+export type SpeedEventLikeGroupByArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.SpeedEventLikeWhereInput;
+	orderBy?:
+		| Prisma.SpeedEventLikeOrderByWithAggregationInput
+		| Prisma.SpeedEventLikeOrderByWithAggregationInput[];
+	by:
+		| Prisma.SpeedEventLikeScalarFieldEnum[]
+		| Prisma.SpeedEventLikeScalarFieldEnum;
+	having?: Prisma.SpeedEventLikeScalarWhereWithAggregatesInput;
+	take?: number;
+	skip?: number;
+	_count?: SpeedEventLikeCountAggregateInputType | true;
+	_min?: SpeedEventLikeMinAggregateInputType;
+	_max?: SpeedEventLikeMaxAggregateInputType;
+};
+
+export type SpeedEventLikeGroupByOutputType = {
+	id: string;
+	eventId: string;
+	userId: string;
+	likedUserId: string;
+	createdAt: Date;
+	_count: SpeedEventLikeCountAggregateOutputType | null;
+	_min: SpeedEventLikeMinAggregateOutputType | null;
+	_max: SpeedEventLikeMaxAggregateOutputType | null;
+};
+
+type GetSpeedEventLikeGroupByPayload<T extends SpeedEventLikeGroupByArgs> =
+	Prisma.PrismaPromise<
+		Array<
+			Prisma.PickEnumerable<SpeedEventLikeGroupByOutputType, T["by"]> & {
+				[P in keyof T &
+					keyof SpeedEventLikeGroupByOutputType]: P extends "_count"
+					? T[P] extends boolean
+						? number
+						: Prisma.GetScalarType<T[P], SpeedEventLikeGroupByOutputType[P]>
+					: Prisma.GetScalarType<T[P], SpeedEventLikeGroupByOutputType[P]>;
+			}
+		>
+	>;
+
+export type SpeedEventLikeWhereInput = {
+	AND?: Prisma.SpeedEventLikeWhereInput | Prisma.SpeedEventLikeWhereInput[];
+	OR?: Prisma.SpeedEventLikeWhereInput[];
+	NOT?: Prisma.SpeedEventLikeWhereInput | Prisma.SpeedEventLikeWhereInput[];
+	id?: Prisma.StringFilter<"SpeedEventLike"> | string;
+	eventId?: Prisma.StringFilter<"SpeedEventLike"> | string;
+	userId?: Prisma.StringFilter<"SpeedEventLike"> | string;
+	likedUserId?: Prisma.StringFilter<"SpeedEventLike"> | string;
+	createdAt?: Prisma.DateTimeFilter<"SpeedEventLike"> | Date | string;
+	event?: Prisma.XOR<
+		Prisma.SpeedEventScalarRelationFilter,
+		Prisma.SpeedEventWhereInput
+	>;
+};
+
+export type SpeedEventLikeOrderByWithRelationInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	likedUserId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	event?: Prisma.SpeedEventOrderByWithRelationInput;
+};
+
+export type SpeedEventLikeWhereUniqueInput = Prisma.AtLeast<
+	{
+		id?: string;
+		eventId_userId_likedUserId?: Prisma.SpeedEventLikeEventIdUserIdLikedUserIdCompoundUniqueInput;
+		AND?: Prisma.SpeedEventLikeWhereInput | Prisma.SpeedEventLikeWhereInput[];
+		OR?: Prisma.SpeedEventLikeWhereInput[];
+		NOT?: Prisma.SpeedEventLikeWhereInput | Prisma.SpeedEventLikeWhereInput[];
+		eventId?: Prisma.StringFilter<"SpeedEventLike"> | string;
+		userId?: Prisma.StringFilter<"SpeedEventLike"> | string;
+		likedUserId?: Prisma.StringFilter<"SpeedEventLike"> | string;
+		createdAt?: Prisma.DateTimeFilter<"SpeedEventLike"> | Date | string;
+		event?: Prisma.XOR<
+			Prisma.SpeedEventScalarRelationFilter,
+			Prisma.SpeedEventWhereInput
+		>;
+	},
+	"id" | "eventId_userId_likedUserId"
+>;
+
+export type SpeedEventLikeOrderByWithAggregationInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	likedUserId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	_count?: Prisma.SpeedEventLikeCountOrderByAggregateInput;
+	_max?: Prisma.SpeedEventLikeMaxOrderByAggregateInput;
+	_min?: Prisma.SpeedEventLikeMinOrderByAggregateInput;
+};
+
+export type SpeedEventLikeScalarWhereWithAggregatesInput = {
+	AND?:
+		| Prisma.SpeedEventLikeScalarWhereWithAggregatesInput
+		| Prisma.SpeedEventLikeScalarWhereWithAggregatesInput[];
+	OR?: Prisma.SpeedEventLikeScalarWhereWithAggregatesInput[];
+	NOT?:
+		| Prisma.SpeedEventLikeScalarWhereWithAggregatesInput
+		| Prisma.SpeedEventLikeScalarWhereWithAggregatesInput[];
+	id?: Prisma.StringWithAggregatesFilter<"SpeedEventLike"> | string;
+	eventId?: Prisma.StringWithAggregatesFilter<"SpeedEventLike"> | string;
+	userId?: Prisma.StringWithAggregatesFilter<"SpeedEventLike"> | string;
+	likedUserId?: Prisma.StringWithAggregatesFilter<"SpeedEventLike"> | string;
+	createdAt?:
+		| Prisma.DateTimeWithAggregatesFilter<"SpeedEventLike">
+		| Date
+		| string;
+};
+
+export type SpeedEventLikeCreateInput = {
+	id?: string;
+	userId: string;
+	likedUserId: string;
+	createdAt?: Date | string;
+	event: Prisma.SpeedEventCreateNestedOneWithoutLikesInput;
+};
+
+export type SpeedEventLikeUncheckedCreateInput = {
+	id?: string;
+	eventId: string;
+	userId: string;
+	likedUserId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventLikeUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.StringFieldUpdateOperationsInput | string;
+	likedUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	event?: Prisma.SpeedEventUpdateOneRequiredWithoutLikesNestedInput;
+};
+
+export type SpeedEventLikeUncheckedUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.StringFieldUpdateOperationsInput | string;
+	likedUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventLikeCreateManyInput = {
+	id?: string;
+	eventId: string;
+	userId: string;
+	likedUserId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventLikeUpdateManyMutationInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.StringFieldUpdateOperationsInput | string;
+	likedUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventLikeUncheckedUpdateManyInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.StringFieldUpdateOperationsInput | string;
+	likedUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventLikeListRelationFilter = {
+	every?: Prisma.SpeedEventLikeWhereInput;
+	some?: Prisma.SpeedEventLikeWhereInput;
+	none?: Prisma.SpeedEventLikeWhereInput;
+};
+
+export type SpeedEventLikeOrderByRelationAggregateInput = {
+	_count?: Prisma.SortOrder;
+};
+
+export type SpeedEventLikeEventIdUserIdLikedUserIdCompoundUniqueInput = {
+	eventId: string;
+	userId: string;
+	likedUserId: string;
+};
+
+export type SpeedEventLikeCountOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	likedUserId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventLikeMaxOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	likedUserId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventLikeMinOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	likedUserId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventLikeCreateNestedManyWithoutEventInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventLikeCreateWithoutEventInput,
+				Prisma.SpeedEventLikeUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventLikeCreateWithoutEventInput[]
+		| Prisma.SpeedEventLikeUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventLikeCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventLikeCreateOrConnectWithoutEventInput[];
+	createMany?: Prisma.SpeedEventLikeCreateManyEventInputEnvelope;
+	connect?:
+		| Prisma.SpeedEventLikeWhereUniqueInput
+		| Prisma.SpeedEventLikeWhereUniqueInput[];
+};
+
+export type SpeedEventLikeUncheckedCreateNestedManyWithoutEventInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventLikeCreateWithoutEventInput,
+				Prisma.SpeedEventLikeUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventLikeCreateWithoutEventInput[]
+		| Prisma.SpeedEventLikeUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventLikeCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventLikeCreateOrConnectWithoutEventInput[];
+	createMany?: Prisma.SpeedEventLikeCreateManyEventInputEnvelope;
+	connect?:
+		| Prisma.SpeedEventLikeWhereUniqueInput
+		| Prisma.SpeedEventLikeWhereUniqueInput[];
+};
+
+export type SpeedEventLikeUpdateManyWithoutEventNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventLikeCreateWithoutEventInput,
+				Prisma.SpeedEventLikeUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventLikeCreateWithoutEventInput[]
+		| Prisma.SpeedEventLikeUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventLikeCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventLikeCreateOrConnectWithoutEventInput[];
+	upsert?:
+		| Prisma.SpeedEventLikeUpsertWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventLikeUpsertWithWhereUniqueWithoutEventInput[];
+	createMany?: Prisma.SpeedEventLikeCreateManyEventInputEnvelope;
+	set?:
+		| Prisma.SpeedEventLikeWhereUniqueInput
+		| Prisma.SpeedEventLikeWhereUniqueInput[];
+	disconnect?:
+		| Prisma.SpeedEventLikeWhereUniqueInput
+		| Prisma.SpeedEventLikeWhereUniqueInput[];
+	delete?:
+		| Prisma.SpeedEventLikeWhereUniqueInput
+		| Prisma.SpeedEventLikeWhereUniqueInput[];
+	connect?:
+		| Prisma.SpeedEventLikeWhereUniqueInput
+		| Prisma.SpeedEventLikeWhereUniqueInput[];
+	update?:
+		| Prisma.SpeedEventLikeUpdateWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventLikeUpdateWithWhereUniqueWithoutEventInput[];
+	updateMany?:
+		| Prisma.SpeedEventLikeUpdateManyWithWhereWithoutEventInput
+		| Prisma.SpeedEventLikeUpdateManyWithWhereWithoutEventInput[];
+	deleteMany?:
+		| Prisma.SpeedEventLikeScalarWhereInput
+		| Prisma.SpeedEventLikeScalarWhereInput[];
+};
+
+export type SpeedEventLikeUncheckedUpdateManyWithoutEventNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventLikeCreateWithoutEventInput,
+				Prisma.SpeedEventLikeUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventLikeCreateWithoutEventInput[]
+		| Prisma.SpeedEventLikeUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventLikeCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventLikeCreateOrConnectWithoutEventInput[];
+	upsert?:
+		| Prisma.SpeedEventLikeUpsertWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventLikeUpsertWithWhereUniqueWithoutEventInput[];
+	createMany?: Prisma.SpeedEventLikeCreateManyEventInputEnvelope;
+	set?:
+		| Prisma.SpeedEventLikeWhereUniqueInput
+		| Prisma.SpeedEventLikeWhereUniqueInput[];
+	disconnect?:
+		| Prisma.SpeedEventLikeWhereUniqueInput
+		| Prisma.SpeedEventLikeWhereUniqueInput[];
+	delete?:
+		| Prisma.SpeedEventLikeWhereUniqueInput
+		| Prisma.SpeedEventLikeWhereUniqueInput[];
+	connect?:
+		| Prisma.SpeedEventLikeWhereUniqueInput
+		| Prisma.SpeedEventLikeWhereUniqueInput[];
+	update?:
+		| Prisma.SpeedEventLikeUpdateWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventLikeUpdateWithWhereUniqueWithoutEventInput[];
+	updateMany?:
+		| Prisma.SpeedEventLikeUpdateManyWithWhereWithoutEventInput
+		| Prisma.SpeedEventLikeUpdateManyWithWhereWithoutEventInput[];
+	deleteMany?:
+		| Prisma.SpeedEventLikeScalarWhereInput
+		| Prisma.SpeedEventLikeScalarWhereInput[];
+};
+
+export type SpeedEventLikeCreateWithoutEventInput = {
+	id?: string;
+	userId: string;
+	likedUserId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventLikeUncheckedCreateWithoutEventInput = {
+	id?: string;
+	userId: string;
+	likedUserId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventLikeCreateOrConnectWithoutEventInput = {
+	where: Prisma.SpeedEventLikeWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.SpeedEventLikeCreateWithoutEventInput,
+		Prisma.SpeedEventLikeUncheckedCreateWithoutEventInput
+	>;
+};
+
+export type SpeedEventLikeCreateManyEventInputEnvelope = {
+	data:
+		| Prisma.SpeedEventLikeCreateManyEventInput
+		| Prisma.SpeedEventLikeCreateManyEventInput[];
+	skipDuplicates?: boolean;
+};
+
+export type SpeedEventLikeUpsertWithWhereUniqueWithoutEventInput = {
+	where: Prisma.SpeedEventLikeWhereUniqueInput;
+	update: Prisma.XOR<
+		Prisma.SpeedEventLikeUpdateWithoutEventInput,
+		Prisma.SpeedEventLikeUncheckedUpdateWithoutEventInput
+	>;
+	create: Prisma.XOR<
+		Prisma.SpeedEventLikeCreateWithoutEventInput,
+		Prisma.SpeedEventLikeUncheckedCreateWithoutEventInput
+	>;
+};
+
+export type SpeedEventLikeUpdateWithWhereUniqueWithoutEventInput = {
+	where: Prisma.SpeedEventLikeWhereUniqueInput;
+	data: Prisma.XOR<
+		Prisma.SpeedEventLikeUpdateWithoutEventInput,
+		Prisma.SpeedEventLikeUncheckedUpdateWithoutEventInput
+	>;
+};
+
+export type SpeedEventLikeUpdateManyWithWhereWithoutEventInput = {
+	where: Prisma.SpeedEventLikeScalarWhereInput;
+	data: Prisma.XOR<
+		Prisma.SpeedEventLikeUpdateManyMutationInput,
+		Prisma.SpeedEventLikeUncheckedUpdateManyWithoutEventInput
+	>;
+};
+
+export type SpeedEventLikeScalarWhereInput = {
+	AND?:
+		| Prisma.SpeedEventLikeScalarWhereInput
+		| Prisma.SpeedEventLikeScalarWhereInput[];
+	OR?: Prisma.SpeedEventLikeScalarWhereInput[];
+	NOT?:
+		| Prisma.SpeedEventLikeScalarWhereInput
+		| Prisma.SpeedEventLikeScalarWhereInput[];
+	id?: Prisma.StringFilter<"SpeedEventLike"> | string;
+	eventId?: Prisma.StringFilter<"SpeedEventLike"> | string;
+	userId?: Prisma.StringFilter<"SpeedEventLike"> | string;
+	likedUserId?: Prisma.StringFilter<"SpeedEventLike"> | string;
+	createdAt?: Prisma.DateTimeFilter<"SpeedEventLike"> | Date | string;
+};
+
+export type SpeedEventLikeCreateManyEventInput = {
+	id?: string;
+	userId: string;
+	likedUserId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventLikeUpdateWithoutEventInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.StringFieldUpdateOperationsInput | string;
+	likedUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventLikeUncheckedUpdateWithoutEventInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.StringFieldUpdateOperationsInput | string;
+	likedUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventLikeUncheckedUpdateManyWithoutEventInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.StringFieldUpdateOperationsInput | string;
+	likedUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventLikeSelect<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		eventId?: boolean;
+		userId?: boolean;
+		likedUserId?: boolean;
+		createdAt?: boolean;
+		event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["speedEventLike"]
+>;
+
+export type SpeedEventLikeSelectCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		eventId?: boolean;
+		userId?: boolean;
+		likedUserId?: boolean;
+		createdAt?: boolean;
+		event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["speedEventLike"]
+>;
+
+export type SpeedEventLikeSelectUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		eventId?: boolean;
+		userId?: boolean;
+		likedUserId?: boolean;
+		createdAt?: boolean;
+		event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["speedEventLike"]
+>;
+
+export type SpeedEventLikeSelectScalar = {
+	id?: boolean;
+	eventId?: boolean;
+	userId?: boolean;
+	likedUserId?: boolean;
+	createdAt?: boolean;
+};
+
+export type SpeedEventLikeOmit<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+	"id" | "eventId" | "userId" | "likedUserId" | "createdAt",
+	ExtArgs["result"]["speedEventLike"]
+>;
+export type SpeedEventLikeInclude<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+};
+export type SpeedEventLikeIncludeCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+};
+export type SpeedEventLikeIncludeUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+};
+
+export type $SpeedEventLikePayload<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	name: "SpeedEventLike";
+	objects: {
+		event: Prisma.$SpeedEventPayload<ExtArgs>;
+	};
+	scalars: runtime.Types.Extensions.GetPayloadResult<
+		{
+			id: string;
+			eventId: string;
+			userId: string;
+			likedUserId: string;
+			createdAt: Date;
+		},
+		ExtArgs["result"]["speedEventLike"]
+	>;
+	composites: {};
+};
+
+export type SpeedEventLikeGetPayload<
+	S extends boolean | null | undefined | SpeedEventLikeDefaultArgs,
+> = runtime.Types.Result.GetResult<Prisma.$SpeedEventLikePayload, S>;
+
+export type SpeedEventLikeCountArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<
+	SpeedEventLikeFindManyArgs,
+	"select" | "include" | "distinct" | "omit"
+> & {
+	select?: SpeedEventLikeCountAggregateInputType | true;
+};
+
+export interface SpeedEventLikeDelegate<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> {
+	[K: symbol]: {
+		types: Prisma.TypeMap<ExtArgs>["model"]["SpeedEventLike"];
+		meta: { name: "SpeedEventLike" };
+	};
+	/**
+	 * Find zero or one SpeedEventLike that matches the filter.
+	 * @param {SpeedEventLikeFindUniqueArgs} args - Arguments to find a SpeedEventLike
+	 * @example
+	 * // Get one SpeedEventLike
+	 * const speedEventLike = await prisma.speedEventLike.findUnique({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUnique<T extends SpeedEventLikeFindUniqueArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventLikeFindUniqueArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventLikeClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventLikePayload<ExtArgs>,
+			T,
+			"findUnique",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find one SpeedEventLike that matches the filter or throw an error with `error.code='P2025'`
+	 * if no matches were found.
+	 * @param {SpeedEventLikeFindUniqueOrThrowArgs} args - Arguments to find a SpeedEventLike
+	 * @example
+	 * // Get one SpeedEventLike
+	 * const speedEventLike = await prisma.speedEventLike.findUniqueOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUniqueOrThrow<T extends SpeedEventLikeFindUniqueOrThrowArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventLikeFindUniqueOrThrowArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventLikeClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventLikePayload<ExtArgs>,
+			T,
+			"findUniqueOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first SpeedEventLike that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventLikeFindFirstArgs} args - Arguments to find a SpeedEventLike
+	 * @example
+	 * // Get one SpeedEventLike
+	 * const speedEventLike = await prisma.speedEventLike.findFirst({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirst<T extends SpeedEventLikeFindFirstArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventLikeFindFirstArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventLikeClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventLikePayload<ExtArgs>,
+			T,
+			"findFirst",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first SpeedEventLike that matches the filter or
+	 * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventLikeFindFirstOrThrowArgs} args - Arguments to find a SpeedEventLike
+	 * @example
+	 * // Get one SpeedEventLike
+	 * const speedEventLike = await prisma.speedEventLike.findFirstOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirstOrThrow<T extends SpeedEventLikeFindFirstOrThrowArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventLikeFindFirstOrThrowArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventLikeClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventLikePayload<ExtArgs>,
+			T,
+			"findFirstOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find zero or more SpeedEventLikes that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventLikeFindManyArgs} args - Arguments to filter and select certain fields only.
+	 * @example
+	 * // Get all SpeedEventLikes
+	 * const speedEventLikes = await prisma.speedEventLike.findMany()
+	 *
+	 * // Get first 10 SpeedEventLikes
+	 * const speedEventLikes = await prisma.speedEventLike.findMany({ take: 10 })
+	 *
+	 * // Only select the `id`
+	 * const speedEventLikeWithIdOnly = await prisma.speedEventLike.findMany({ select: { id: true } })
+	 *
+	 */
+	findMany<T extends SpeedEventLikeFindManyArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventLikeFindManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventLikePayload<ExtArgs>,
+			T,
+			"findMany",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create a SpeedEventLike.
+	 * @param {SpeedEventLikeCreateArgs} args - Arguments to create a SpeedEventLike.
+	 * @example
+	 * // Create one SpeedEventLike
+	 * const SpeedEventLike = await prisma.speedEventLike.create({
+	 *   data: {
+	 *     // ... data to create a SpeedEventLike
+	 *   }
+	 * })
+	 *
+	 */
+	create<T extends SpeedEventLikeCreateArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventLikeCreateArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventLikeClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventLikePayload<ExtArgs>,
+			T,
+			"create",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Create many SpeedEventLikes.
+	 * @param {SpeedEventLikeCreateManyArgs} args - Arguments to create many SpeedEventLikes.
+	 * @example
+	 * // Create many SpeedEventLikes
+	 * const speedEventLike = await prisma.speedEventLike.createMany({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 */
+	createMany<T extends SpeedEventLikeCreateManyArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventLikeCreateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Create many SpeedEventLikes and returns the data saved in the database.
+	 * @param {SpeedEventLikeCreateManyAndReturnArgs} args - Arguments to create many SpeedEventLikes.
+	 * @example
+	 * // Create many SpeedEventLikes
+	 * const speedEventLike = await prisma.speedEventLike.createManyAndReturn({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Create many SpeedEventLikes and only return the `id`
+	 * const speedEventLikeWithIdOnly = await prisma.speedEventLike.createManyAndReturn({
+	 *   select: { id: true },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	createManyAndReturn<T extends SpeedEventLikeCreateManyAndReturnArgs>(
+		args?: Prisma.SelectSubset<
+			T,
+			SpeedEventLikeCreateManyAndReturnArgs<ExtArgs>
+		>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventLikePayload<ExtArgs>,
+			T,
+			"createManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Delete a SpeedEventLike.
+	 * @param {SpeedEventLikeDeleteArgs} args - Arguments to delete one SpeedEventLike.
+	 * @example
+	 * // Delete one SpeedEventLike
+	 * const SpeedEventLike = await prisma.speedEventLike.delete({
+	 *   where: {
+	 *     // ... filter to delete one SpeedEventLike
+	 *   }
+	 * })
+	 *
+	 */
+	delete<T extends SpeedEventLikeDeleteArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventLikeDeleteArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventLikeClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventLikePayload<ExtArgs>,
+			T,
+			"delete",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Update one SpeedEventLike.
+	 * @param {SpeedEventLikeUpdateArgs} args - Arguments to update one SpeedEventLike.
+	 * @example
+	 * // Update one SpeedEventLike
+	 * const speedEventLike = await prisma.speedEventLike.update({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	update<T extends SpeedEventLikeUpdateArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventLikeUpdateArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventLikeClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventLikePayload<ExtArgs>,
+			T,
+			"update",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Delete zero or more SpeedEventLikes.
+	 * @param {SpeedEventLikeDeleteManyArgs} args - Arguments to filter SpeedEventLikes to delete.
+	 * @example
+	 * // Delete a few SpeedEventLikes
+	 * const { count } = await prisma.speedEventLike.deleteMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 *
+	 */
+	deleteMany<T extends SpeedEventLikeDeleteManyArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventLikeDeleteManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more SpeedEventLikes.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventLikeUpdateManyArgs} args - Arguments to update one or more rows.
+	 * @example
+	 * // Update many SpeedEventLikes
+	 * const speedEventLike = await prisma.speedEventLike.updateMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	updateMany<T extends SpeedEventLikeUpdateManyArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventLikeUpdateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more SpeedEventLikes and returns the data updated in the database.
+	 * @param {SpeedEventLikeUpdateManyAndReturnArgs} args - Arguments to update many SpeedEventLikes.
+	 * @example
+	 * // Update many SpeedEventLikes
+	 * const speedEventLike = await prisma.speedEventLike.updateManyAndReturn({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Update zero or more SpeedEventLikes and only return the `id`
+	 * const speedEventLikeWithIdOnly = await prisma.speedEventLike.updateManyAndReturn({
+	 *   select: { id: true },
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	updateManyAndReturn<T extends SpeedEventLikeUpdateManyAndReturnArgs>(
+		args: Prisma.SelectSubset<
+			T,
+			SpeedEventLikeUpdateManyAndReturnArgs<ExtArgs>
+		>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventLikePayload<ExtArgs>,
+			T,
+			"updateManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create or update one SpeedEventLike.
+	 * @param {SpeedEventLikeUpsertArgs} args - Arguments to update or create a SpeedEventLike.
+	 * @example
+	 * // Update or create a SpeedEventLike
+	 * const speedEventLike = await prisma.speedEventLike.upsert({
+	 *   create: {
+	 *     // ... data to create a SpeedEventLike
+	 *   },
+	 *   update: {
+	 *     // ... in case it already exists, update
+	 *   },
+	 *   where: {
+	 *     // ... the filter for the SpeedEventLike we want to update
+	 *   }
+	 * })
+	 */
+	upsert<T extends SpeedEventLikeUpsertArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventLikeUpsertArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventLikeClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventLikePayload<ExtArgs>,
+			T,
+			"upsert",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Count the number of SpeedEventLikes.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventLikeCountArgs} args - Arguments to filter SpeedEventLikes to count.
+	 * @example
+	 * // Count the number of SpeedEventLikes
+	 * const count = await prisma.speedEventLike.count({
+	 *   where: {
+	 *     // ... the filter for the SpeedEventLikes we want to count
+	 *   }
+	 * })
+	 **/
+	count<T extends SpeedEventLikeCountArgs>(
+		args?: Prisma.Subset<T, SpeedEventLikeCountArgs>,
+	): Prisma.PrismaPromise<
+		T extends runtime.Types.Utils.Record<"select", any>
+			? T["select"] extends true
+				? number
+				: Prisma.GetScalarType<
+						T["select"],
+						SpeedEventLikeCountAggregateOutputType
+					>
+			: number
+	>;
+
+	/**
+	 * Allows you to perform aggregations operations on a SpeedEventLike.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventLikeAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+	 * @example
+	 * // Ordered by age ascending
+	 * // Where email contains prisma.io
+	 * // Limited to the 10 users
+	 * const aggregations = await prisma.user.aggregate({
+	 *   _avg: {
+	 *     age: true,
+	 *   },
+	 *   where: {
+	 *     email: {
+	 *       contains: "prisma.io",
+	 *     },
+	 *   },
+	 *   orderBy: {
+	 *     age: "asc",
+	 *   },
+	 *   take: 10,
+	 * })
+	 **/
+	aggregate<T extends SpeedEventLikeAggregateArgs>(
+		args: Prisma.Subset<T, SpeedEventLikeAggregateArgs>,
+	): Prisma.PrismaPromise<GetSpeedEventLikeAggregateType<T>>;
+
+	/**
+	 * Group by SpeedEventLike.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventLikeGroupByArgs} args - Group by arguments.
+	 * @example
+	 * // Group by city, order by createdAt, get count
+	 * const result = await prisma.user.groupBy({
+	 *   by: ['city', 'createdAt'],
+	 *   orderBy: {
+	 *     createdAt: true
+	 *   },
+	 *   _count: {
+	 *     _all: true
+	 *   },
+	 * })
+	 *
+	 **/
+	groupBy<
+		T extends SpeedEventLikeGroupByArgs,
+		HasSelectOrTake extends Prisma.Or<
+			Prisma.Extends<"skip", Prisma.Keys<T>>,
+			Prisma.Extends<"take", Prisma.Keys<T>>
+		>,
+		OrderByArg extends Prisma.True extends HasSelectOrTake
+			? { orderBy: SpeedEventLikeGroupByArgs["orderBy"] }
+			: { orderBy?: SpeedEventLikeGroupByArgs["orderBy"] },
+		OrderFields extends Prisma.ExcludeUnderscoreKeys<
+			Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+		>,
+		ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+		ByValid extends Prisma.Has<ByFields, OrderFields>,
+		HavingFields extends Prisma.GetHavingFields<T["having"]>,
+		HavingValid extends Prisma.Has<ByFields, HavingFields>,
+		ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+		InputErrors extends ByEmpty extends Prisma.True
+			? `Error: "by" must not be empty.`
+			: HavingValid extends Prisma.False
+				? {
+						[P in HavingFields]: P extends ByFields
+							? never
+							: P extends string
+								? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+								: [
+										Error,
+										"Field ",
+										P,
+										` in "having" needs to be provided in "by"`,
+									];
+					}[HavingFields]
+				: "take" extends Prisma.Keys<T>
+					? "orderBy" extends Prisma.Keys<T>
+						? ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields]
+						: 'Error: If you provide "take", you also need to provide "orderBy"'
+					: "skip" extends Prisma.Keys<T>
+						? "orderBy" extends Prisma.Keys<T>
+							? ByValid extends Prisma.True
+								? {}
+								: {
+										[P in OrderFields]: P extends ByFields
+											? never
+											: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+									}[OrderFields]
+							: 'Error: If you provide "skip", you also need to provide "orderBy"'
+						: ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields],
+	>(
+		args: Prisma.SubsetIntersection<T, SpeedEventLikeGroupByArgs, OrderByArg> &
+			InputErrors,
+	): {} extends InputErrors
+		? GetSpeedEventLikeGroupByPayload<T>
+		: Prisma.PrismaPromise<InputErrors>;
+	/**
+	 * Fields of the SpeedEventLike model
+	 */
+	readonly fields: SpeedEventLikeFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SpeedEventLike.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SpeedEventLikeClient<
+	T,
+	Null = never,
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+	readonly [Symbol.toStringTag]: "PrismaPromise";
+	event<T extends Prisma.SpeedEventDefaultArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.SpeedEventDefaultArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventClient<
+		| runtime.Types.Result.GetResult<
+				Prisma.$SpeedEventPayload<ExtArgs>,
+				T,
+				"findUniqueOrThrow",
+				GlobalOmitOptions
+		  >
+		| Null,
+		Null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+	/**
+	 * Attaches callbacks for the resolution and/or rejection of the Promise.
+	 * @param onfulfilled The callback to execute when the Promise is resolved.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of which ever callback is executed.
+	 */
+	then<TResult1 = T, TResult2 = never>(
+		onfulfilled?:
+			| ((value: T) => TResult1 | PromiseLike<TResult1>)
+			| undefined
+			| null,
+		onrejected?:
+			| ((reason: any) => TResult2 | PromiseLike<TResult2>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+	/**
+	 * Attaches a callback for only the rejection of the Promise.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of the callback.
+	 */
+	catch<TResult = never>(
+		onrejected?:
+			| ((reason: any) => TResult | PromiseLike<TResult>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<T | TResult>;
+	/**
+	 * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+	 * resolved value cannot be modified from the callback.
+	 * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+	 * @returns A Promise for the completion of the callback.
+	 */
+	finally(
+		onfinally?: (() => void) | undefined | null,
+	): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the SpeedEventLike model
+ */
+export interface SpeedEventLikeFieldRefs {
+	readonly id: Prisma.FieldRef<"SpeedEventLike", "String">;
+	readonly eventId: Prisma.FieldRef<"SpeedEventLike", "String">;
+	readonly userId: Prisma.FieldRef<"SpeedEventLike", "String">;
+	readonly likedUserId: Prisma.FieldRef<"SpeedEventLike", "String">;
+	readonly createdAt: Prisma.FieldRef<"SpeedEventLike", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * SpeedEventLike findUnique
+ */
+export type SpeedEventLikeFindUniqueArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventLike to fetch.
+	 */
+	where: Prisma.SpeedEventLikeWhereUniqueInput;
+};
+
+/**
+ * SpeedEventLike findUniqueOrThrow
+ */
+export type SpeedEventLikeFindUniqueOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventLike to fetch.
+	 */
+	where: Prisma.SpeedEventLikeWhereUniqueInput;
+};
+
+/**
+ * SpeedEventLike findFirst
+ */
+export type SpeedEventLikeFindFirstArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventLike to fetch.
+	 */
+	where?: Prisma.SpeedEventLikeWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventLikes to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventLikeOrderByWithRelationInput
+		| Prisma.SpeedEventLikeOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for SpeedEventLikes.
+	 */
+	cursor?: Prisma.SpeedEventLikeWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventLikes from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventLikes.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of SpeedEventLikes.
+	 */
+	distinct?:
+		| Prisma.SpeedEventLikeScalarFieldEnum
+		| Prisma.SpeedEventLikeScalarFieldEnum[];
+};
+
+/**
+ * SpeedEventLike findFirstOrThrow
+ */
+export type SpeedEventLikeFindFirstOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventLike to fetch.
+	 */
+	where?: Prisma.SpeedEventLikeWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventLikes to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventLikeOrderByWithRelationInput
+		| Prisma.SpeedEventLikeOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for SpeedEventLikes.
+	 */
+	cursor?: Prisma.SpeedEventLikeWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventLikes from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventLikes.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of SpeedEventLikes.
+	 */
+	distinct?:
+		| Prisma.SpeedEventLikeScalarFieldEnum
+		| Prisma.SpeedEventLikeScalarFieldEnum[];
+};
+
+/**
+ * SpeedEventLike findMany
+ */
+export type SpeedEventLikeFindManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventLikes to fetch.
+	 */
+	where?: Prisma.SpeedEventLikeWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventLikes to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventLikeOrderByWithRelationInput
+		| Prisma.SpeedEventLikeOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for listing SpeedEventLikes.
+	 */
+	cursor?: Prisma.SpeedEventLikeWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventLikes from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventLikes.
+	 */
+	skip?: number;
+	distinct?:
+		| Prisma.SpeedEventLikeScalarFieldEnum
+		| Prisma.SpeedEventLikeScalarFieldEnum[];
+};
+
+/**
+ * SpeedEventLike create
+ */
+export type SpeedEventLikeCreateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeInclude<ExtArgs> | null;
+	/**
+	 * The data needed to create a SpeedEventLike.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventLikeCreateInput,
+		Prisma.SpeedEventLikeUncheckedCreateInput
+	>;
+};
+
+/**
+ * SpeedEventLike createMany
+ */
+export type SpeedEventLikeCreateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to create many SpeedEventLikes.
+	 */
+	data:
+		| Prisma.SpeedEventLikeCreateManyInput
+		| Prisma.SpeedEventLikeCreateManyInput[];
+	skipDuplicates?: boolean;
+};
+
+/**
+ * SpeedEventLike createManyAndReturn
+ */
+export type SpeedEventLikeCreateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelectCreateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * The data used to create many SpeedEventLikes.
+	 */
+	data:
+		| Prisma.SpeedEventLikeCreateManyInput
+		| Prisma.SpeedEventLikeCreateManyInput[];
+	skipDuplicates?: boolean;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * SpeedEventLike update
+ */
+export type SpeedEventLikeUpdateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeInclude<ExtArgs> | null;
+	/**
+	 * The data needed to update a SpeedEventLike.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventLikeUpdateInput,
+		Prisma.SpeedEventLikeUncheckedUpdateInput
+	>;
+	/**
+	 * Choose, which SpeedEventLike to update.
+	 */
+	where: Prisma.SpeedEventLikeWhereUniqueInput;
+};
+
+/**
+ * SpeedEventLike updateMany
+ */
+export type SpeedEventLikeUpdateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to update SpeedEventLikes.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventLikeUpdateManyMutationInput,
+		Prisma.SpeedEventLikeUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which SpeedEventLikes to update
+	 */
+	where?: Prisma.SpeedEventLikeWhereInput;
+	/**
+	 * Limit how many SpeedEventLikes to update.
+	 */
+	limit?: number;
+};
+
+/**
+ * SpeedEventLike updateManyAndReturn
+ */
+export type SpeedEventLikeUpdateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelectUpdateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * The data used to update SpeedEventLikes.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventLikeUpdateManyMutationInput,
+		Prisma.SpeedEventLikeUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which SpeedEventLikes to update
+	 */
+	where?: Prisma.SpeedEventLikeWhereInput;
+	/**
+	 * Limit how many SpeedEventLikes to update.
+	 */
+	limit?: number;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * SpeedEventLike upsert
+ */
+export type SpeedEventLikeUpsertArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeInclude<ExtArgs> | null;
+	/**
+	 * The filter to search for the SpeedEventLike to update in case it exists.
+	 */
+	where: Prisma.SpeedEventLikeWhereUniqueInput;
+	/**
+	 * In case the SpeedEventLike found by the `where` argument doesn't exist, create a new SpeedEventLike with this data.
+	 */
+	create: Prisma.XOR<
+		Prisma.SpeedEventLikeCreateInput,
+		Prisma.SpeedEventLikeUncheckedCreateInput
+	>;
+	/**
+	 * In case the SpeedEventLike was found with the provided `where` argument, update it with this data.
+	 */
+	update: Prisma.XOR<
+		Prisma.SpeedEventLikeUpdateInput,
+		Prisma.SpeedEventLikeUncheckedUpdateInput
+	>;
+};
+
+/**
+ * SpeedEventLike delete
+ */
+export type SpeedEventLikeDeleteArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeInclude<ExtArgs> | null;
+	/**
+	 * Filter which SpeedEventLike to delete.
+	 */
+	where: Prisma.SpeedEventLikeWhereUniqueInput;
+};
+
+/**
+ * SpeedEventLike deleteMany
+ */
+export type SpeedEventLikeDeleteManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which SpeedEventLikes to delete
+	 */
+	where?: Prisma.SpeedEventLikeWhereInput;
+	/**
+	 * Limit how many SpeedEventLikes to delete.
+	 */
+	limit?: number;
+};
+
+/**
+ * SpeedEventLike without action
+ */
+export type SpeedEventLikeDefaultArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventLike
+	 */
+	select?: Prisma.SpeedEventLikeSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventLike
+	 */
+	omit?: Prisma.SpeedEventLikeOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventLikeInclude<ExtArgs> | null;
+};
@@ -0,0 +1,1896 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `SpeedEventPairing` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model SpeedEventPairing
+ *
+ */
+export type SpeedEventPairingModel =
+	runtime.Types.Result.DefaultSelection<Prisma.$SpeedEventPairingPayload>;
+
+export type AggregateSpeedEventPairing = {
+	_count: SpeedEventPairingCountAggregateOutputType | null;
+	_avg: SpeedEventPairingAvgAggregateOutputType | null;
+	_sum: SpeedEventPairingSumAggregateOutputType | null;
+	_min: SpeedEventPairingMinAggregateOutputType | null;
+	_max: SpeedEventPairingMaxAggregateOutputType | null;
+};
+
+export type SpeedEventPairingAvgAggregateOutputType = {
+	round: number | null;
+};
+
+export type SpeedEventPairingSumAggregateOutputType = {
+	round: number | null;
+};
+
+export type SpeedEventPairingMinAggregateOutputType = {
+	id: string | null;
+	eventId: string | null;
+	round: number | null;
+	user1Id: string | null;
+	user2Id: string | null;
+	roomId: string | null;
+	createdAt: Date | null;
+};
+
+export type SpeedEventPairingMaxAggregateOutputType = {
+	id: string | null;
+	eventId: string | null;
+	round: number | null;
+	user1Id: string | null;
+	user2Id: string | null;
+	roomId: string | null;
+	createdAt: Date | null;
+};
+
+export type SpeedEventPairingCountAggregateOutputType = {
+	id: number;
+	eventId: number;
+	round: number;
+	user1Id: number;
+	user2Id: number;
+	roomId: number;
+	createdAt: number;
+	_all: number;
+};
+
+export type SpeedEventPairingAvgAggregateInputType = {
+	round?: true;
+};
+
+export type SpeedEventPairingSumAggregateInputType = {
+	round?: true;
+};
+
+export type SpeedEventPairingMinAggregateInputType = {
+	id?: true;
+	eventId?: true;
+	round?: true;
+	user1Id?: true;
+	user2Id?: true;
+	roomId?: true;
+	createdAt?: true;
+};
+
+export type SpeedEventPairingMaxAggregateInputType = {
+	id?: true;
+	eventId?: true;
+	round?: true;
+	user1Id?: true;
+	user2Id?: true;
+	roomId?: true;
+	createdAt?: true;
+};
+
+export type SpeedEventPairingCountAggregateInputType = {
+	id?: true;
+	eventId?: true;
+	round?: true;
+	user1Id?: true;
+	user2Id?: true;
+	roomId?: true;
+	createdAt?: true;
+	_all?: true;
+};
+
+export type SpeedEventPairingAggregateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which SpeedEventPairing to aggregate.
+	 */
+	where?: Prisma.SpeedEventPairingWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventPairings to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventPairingOrderByWithRelationInput
+		| Prisma.SpeedEventPairingOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the start position
+	 */
+	cursor?: Prisma.SpeedEventPairingWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventPairings from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventPairings.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Count returned SpeedEventPairings
+	 **/
+	_count?: true | SpeedEventPairingCountAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to average
+	 **/
+	_avg?: SpeedEventPairingAvgAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to sum
+	 **/
+	_sum?: SpeedEventPairingSumAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the minimum value
+	 **/
+	_min?: SpeedEventPairingMinAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the maximum value
+	 **/
+	_max?: SpeedEventPairingMaxAggregateInputType;
+};
+
+export type GetSpeedEventPairingAggregateType<
+	T extends SpeedEventPairingAggregateArgs,
+> = {
+	[P in keyof T & keyof AggregateSpeedEventPairing]: P extends
+		| "_count"
+		| "count"
+		? T[P] extends true
+			? number
+			: Prisma.GetScalarType<T[P], AggregateSpeedEventPairing[P]>
+		: Prisma.GetScalarType<T[P], AggregateSpeedEventPairing[P]>;
+};
+
+export type SpeedEventPairingGroupByArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.SpeedEventPairingWhereInput;
+	orderBy?:
+		| Prisma.SpeedEventPairingOrderByWithAggregationInput
+		| Prisma.SpeedEventPairingOrderByWithAggregationInput[];
+	by:
+		| Prisma.SpeedEventPairingScalarFieldEnum[]
+		| Prisma.SpeedEventPairingScalarFieldEnum;
+	having?: Prisma.SpeedEventPairingScalarWhereWithAggregatesInput;
+	take?: number;
+	skip?: number;
+	_count?: SpeedEventPairingCountAggregateInputType | true;
+	_avg?: SpeedEventPairingAvgAggregateInputType;
+	_sum?: SpeedEventPairingSumAggregateInputType;
+	_min?: SpeedEventPairingMinAggregateInputType;
+	_max?: SpeedEventPairingMaxAggregateInputType;
+};
+
+export type SpeedEventPairingGroupByOutputType = {
+	id: string;
+	eventId: string;
+	round: number;
+	user1Id: string;
+	user2Id: string;
+	roomId: string;
+	createdAt: Date;
+	_count: SpeedEventPairingCountAggregateOutputType | null;
+	_avg: SpeedEventPairingAvgAggregateOutputType | null;
+	_sum: SpeedEventPairingSumAggregateOutputType | null;
+	_min: SpeedEventPairingMinAggregateOutputType | null;
+	_max: SpeedEventPairingMaxAggregateOutputType | null;
+};
+
+type GetSpeedEventPairingGroupByPayload<
+	T extends SpeedEventPairingGroupByArgs,
+> = Prisma.PrismaPromise<
+	Array<
+		Prisma.PickEnumerable<SpeedEventPairingGroupByOutputType, T["by"]> & {
+			[P in keyof T &
+				keyof SpeedEventPairingGroupByOutputType]: P extends "_count"
+				? T[P] extends boolean
+					? number
+					: Prisma.GetScalarType<T[P], SpeedEventPairingGroupByOutputType[P]>
+				: Prisma.GetScalarType<T[P], SpeedEventPairingGroupByOutputType[P]>;
+		}
+	>
+>;
+
+export type SpeedEventPairingWhereInput = {
+	AND?:
+		| Prisma.SpeedEventPairingWhereInput
+		| Prisma.SpeedEventPairingWhereInput[];
+	OR?: Prisma.SpeedEventPairingWhereInput[];
+	NOT?:
+		| Prisma.SpeedEventPairingWhereInput
+		| Prisma.SpeedEventPairingWhereInput[];
+	id?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+	eventId?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+	round?: Prisma.IntFilter<"SpeedEventPairing"> | number;
+	user1Id?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+	user2Id?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+	roomId?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+	createdAt?: Prisma.DateTimeFilter<"SpeedEventPairing"> | Date | string;
+	event?: Prisma.XOR<
+		Prisma.SpeedEventScalarRelationFilter,
+		Prisma.SpeedEventWhereInput
+	>;
+};
+
+export type SpeedEventPairingOrderByWithRelationInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	round?: Prisma.SortOrder;
+	user1Id?: Prisma.SortOrder;
+	user2Id?: Prisma.SortOrder;
+	roomId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	event?: Prisma.SpeedEventOrderByWithRelationInput;
+};
+
+export type SpeedEventPairingWhereUniqueInput = Prisma.AtLeast<
+	{
+		id?: string;
+		AND?:
+			| Prisma.SpeedEventPairingWhereInput
+			| Prisma.SpeedEventPairingWhereInput[];
+		OR?: Prisma.SpeedEventPairingWhereInput[];
+		NOT?:
+			| Prisma.SpeedEventPairingWhereInput
+			| Prisma.SpeedEventPairingWhereInput[];
+		eventId?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+		round?: Prisma.IntFilter<"SpeedEventPairing"> | number;
+		user1Id?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+		user2Id?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+		roomId?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+		createdAt?: Prisma.DateTimeFilter<"SpeedEventPairing"> | Date | string;
+		event?: Prisma.XOR<
+			Prisma.SpeedEventScalarRelationFilter,
+			Prisma.SpeedEventWhereInput
+		>;
+	},
+	"id"
+>;
+
+export type SpeedEventPairingOrderByWithAggregationInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	round?: Prisma.SortOrder;
+	user1Id?: Prisma.SortOrder;
+	user2Id?: Prisma.SortOrder;
+	roomId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	_count?: Prisma.SpeedEventPairingCountOrderByAggregateInput;
+	_avg?: Prisma.SpeedEventPairingAvgOrderByAggregateInput;
+	_max?: Prisma.SpeedEventPairingMaxOrderByAggregateInput;
+	_min?: Prisma.SpeedEventPairingMinOrderByAggregateInput;
+	_sum?: Prisma.SpeedEventPairingSumOrderByAggregateInput;
+};
+
+export type SpeedEventPairingScalarWhereWithAggregatesInput = {
+	AND?:
+		| Prisma.SpeedEventPairingScalarWhereWithAggregatesInput
+		| Prisma.SpeedEventPairingScalarWhereWithAggregatesInput[];
+	OR?: Prisma.SpeedEventPairingScalarWhereWithAggregatesInput[];
+	NOT?:
+		| Prisma.SpeedEventPairingScalarWhereWithAggregatesInput
+		| Prisma.SpeedEventPairingScalarWhereWithAggregatesInput[];
+	id?: Prisma.StringWithAggregatesFilter<"SpeedEventPairing"> | string;
+	eventId?: Prisma.StringWithAggregatesFilter<"SpeedEventPairing"> | string;
+	round?: Prisma.IntWithAggregatesFilter<"SpeedEventPairing"> | number;
+	user1Id?: Prisma.StringWithAggregatesFilter<"SpeedEventPairing"> | string;
+	user2Id?: Prisma.StringWithAggregatesFilter<"SpeedEventPairing"> | string;
+	roomId?: Prisma.StringWithAggregatesFilter<"SpeedEventPairing"> | string;
+	createdAt?:
+		| Prisma.DateTimeWithAggregatesFilter<"SpeedEventPairing">
+		| Date
+		| string;
+};
+
+export type SpeedEventPairingCreateInput = {
+	id?: string;
+	round: number;
+	user1Id: string;
+	user2Id: string;
+	roomId: string;
+	createdAt?: Date | string;
+	event: Prisma.SpeedEventCreateNestedOneWithoutPairingsInput;
+};
+
+export type SpeedEventPairingUncheckedCreateInput = {
+	id?: string;
+	eventId: string;
+	round: number;
+	user1Id: string;
+	user2Id: string;
+	roomId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventPairingUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	round?: Prisma.IntFieldUpdateOperationsInput | number;
+	user1Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	user2Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	event?: Prisma.SpeedEventUpdateOneRequiredWithoutPairingsNestedInput;
+};
+
+export type SpeedEventPairingUncheckedUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+	round?: Prisma.IntFieldUpdateOperationsInput | number;
+	user1Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	user2Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventPairingCreateManyInput = {
+	id?: string;
+	eventId: string;
+	round: number;
+	user1Id: string;
+	user2Id: string;
+	roomId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventPairingUpdateManyMutationInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	round?: Prisma.IntFieldUpdateOperationsInput | number;
+	user1Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	user2Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventPairingUncheckedUpdateManyInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+	round?: Prisma.IntFieldUpdateOperationsInput | number;
+	user1Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	user2Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventPairingListRelationFilter = {
+	every?: Prisma.SpeedEventPairingWhereInput;
+	some?: Prisma.SpeedEventPairingWhereInput;
+	none?: Prisma.SpeedEventPairingWhereInput;
+};
+
+export type SpeedEventPairingOrderByRelationAggregateInput = {
+	_count?: Prisma.SortOrder;
+};
+
+export type SpeedEventPairingCountOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	round?: Prisma.SortOrder;
+	user1Id?: Prisma.SortOrder;
+	user2Id?: Prisma.SortOrder;
+	roomId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventPairingAvgOrderByAggregateInput = {
+	round?: Prisma.SortOrder;
+};
+
+export type SpeedEventPairingMaxOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	round?: Prisma.SortOrder;
+	user1Id?: Prisma.SortOrder;
+	user2Id?: Prisma.SortOrder;
+	roomId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventPairingMinOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	round?: Prisma.SortOrder;
+	user1Id?: Prisma.SortOrder;
+	user2Id?: Prisma.SortOrder;
+	roomId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventPairingSumOrderByAggregateInput = {
+	round?: Prisma.SortOrder;
+};
+
+export type SpeedEventPairingCreateNestedManyWithoutEventInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventPairingCreateWithoutEventInput,
+				Prisma.SpeedEventPairingUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventPairingCreateWithoutEventInput[]
+		| Prisma.SpeedEventPairingUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventPairingCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventPairingCreateOrConnectWithoutEventInput[];
+	createMany?: Prisma.SpeedEventPairingCreateManyEventInputEnvelope;
+	connect?:
+		| Prisma.SpeedEventPairingWhereUniqueInput
+		| Prisma.SpeedEventPairingWhereUniqueInput[];
+};
+
+export type SpeedEventPairingUncheckedCreateNestedManyWithoutEventInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventPairingCreateWithoutEventInput,
+				Prisma.SpeedEventPairingUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventPairingCreateWithoutEventInput[]
+		| Prisma.SpeedEventPairingUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventPairingCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventPairingCreateOrConnectWithoutEventInput[];
+	createMany?: Prisma.SpeedEventPairingCreateManyEventInputEnvelope;
+	connect?:
+		| Prisma.SpeedEventPairingWhereUniqueInput
+		| Prisma.SpeedEventPairingWhereUniqueInput[];
+};
+
+export type SpeedEventPairingUpdateManyWithoutEventNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventPairingCreateWithoutEventInput,
+				Prisma.SpeedEventPairingUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventPairingCreateWithoutEventInput[]
+		| Prisma.SpeedEventPairingUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventPairingCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventPairingCreateOrConnectWithoutEventInput[];
+	upsert?:
+		| Prisma.SpeedEventPairingUpsertWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventPairingUpsertWithWhereUniqueWithoutEventInput[];
+	createMany?: Prisma.SpeedEventPairingCreateManyEventInputEnvelope;
+	set?:
+		| Prisma.SpeedEventPairingWhereUniqueInput
+		| Prisma.SpeedEventPairingWhereUniqueInput[];
+	disconnect?:
+		| Prisma.SpeedEventPairingWhereUniqueInput
+		| Prisma.SpeedEventPairingWhereUniqueInput[];
+	delete?:
+		| Prisma.SpeedEventPairingWhereUniqueInput
+		| Prisma.SpeedEventPairingWhereUniqueInput[];
+	connect?:
+		| Prisma.SpeedEventPairingWhereUniqueInput
+		| Prisma.SpeedEventPairingWhereUniqueInput[];
+	update?:
+		| Prisma.SpeedEventPairingUpdateWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventPairingUpdateWithWhereUniqueWithoutEventInput[];
+	updateMany?:
+		| Prisma.SpeedEventPairingUpdateManyWithWhereWithoutEventInput
+		| Prisma.SpeedEventPairingUpdateManyWithWhereWithoutEventInput[];
+	deleteMany?:
+		| Prisma.SpeedEventPairingScalarWhereInput
+		| Prisma.SpeedEventPairingScalarWhereInput[];
+};
+
+export type SpeedEventPairingUncheckedUpdateManyWithoutEventNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventPairingCreateWithoutEventInput,
+				Prisma.SpeedEventPairingUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventPairingCreateWithoutEventInput[]
+		| Prisma.SpeedEventPairingUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventPairingCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventPairingCreateOrConnectWithoutEventInput[];
+	upsert?:
+		| Prisma.SpeedEventPairingUpsertWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventPairingUpsertWithWhereUniqueWithoutEventInput[];
+	createMany?: Prisma.SpeedEventPairingCreateManyEventInputEnvelope;
+	set?:
+		| Prisma.SpeedEventPairingWhereUniqueInput
+		| Prisma.SpeedEventPairingWhereUniqueInput[];
+	disconnect?:
+		| Prisma.SpeedEventPairingWhereUniqueInput
+		| Prisma.SpeedEventPairingWhereUniqueInput[];
+	delete?:
+		| Prisma.SpeedEventPairingWhereUniqueInput
+		| Prisma.SpeedEventPairingWhereUniqueInput[];
+	connect?:
+		| Prisma.SpeedEventPairingWhereUniqueInput
+		| Prisma.SpeedEventPairingWhereUniqueInput[];
+	update?:
+		| Prisma.SpeedEventPairingUpdateWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventPairingUpdateWithWhereUniqueWithoutEventInput[];
+	updateMany?:
+		| Prisma.SpeedEventPairingUpdateManyWithWhereWithoutEventInput
+		| Prisma.SpeedEventPairingUpdateManyWithWhereWithoutEventInput[];
+	deleteMany?:
+		| Prisma.SpeedEventPairingScalarWhereInput
+		| Prisma.SpeedEventPairingScalarWhereInput[];
+};
+
+export type SpeedEventPairingCreateWithoutEventInput = {
+	id?: string;
+	round: number;
+	user1Id: string;
+	user2Id: string;
+	roomId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventPairingUncheckedCreateWithoutEventInput = {
+	id?: string;
+	round: number;
+	user1Id: string;
+	user2Id: string;
+	roomId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventPairingCreateOrConnectWithoutEventInput = {
+	where: Prisma.SpeedEventPairingWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.SpeedEventPairingCreateWithoutEventInput,
+		Prisma.SpeedEventPairingUncheckedCreateWithoutEventInput
+	>;
+};
+
+export type SpeedEventPairingCreateManyEventInputEnvelope = {
+	data:
+		| Prisma.SpeedEventPairingCreateManyEventInput
+		| Prisma.SpeedEventPairingCreateManyEventInput[];
+	skipDuplicates?: boolean;
+};
+
+export type SpeedEventPairingUpsertWithWhereUniqueWithoutEventInput = {
+	where: Prisma.SpeedEventPairingWhereUniqueInput;
+	update: Prisma.XOR<
+		Prisma.SpeedEventPairingUpdateWithoutEventInput,
+		Prisma.SpeedEventPairingUncheckedUpdateWithoutEventInput
+	>;
+	create: Prisma.XOR<
+		Prisma.SpeedEventPairingCreateWithoutEventInput,
+		Prisma.SpeedEventPairingUncheckedCreateWithoutEventInput
+	>;
+};
+
+export type SpeedEventPairingUpdateWithWhereUniqueWithoutEventInput = {
+	where: Prisma.SpeedEventPairingWhereUniqueInput;
+	data: Prisma.XOR<
+		Prisma.SpeedEventPairingUpdateWithoutEventInput,
+		Prisma.SpeedEventPairingUncheckedUpdateWithoutEventInput
+	>;
+};
+
+export type SpeedEventPairingUpdateManyWithWhereWithoutEventInput = {
+	where: Prisma.SpeedEventPairingScalarWhereInput;
+	data: Prisma.XOR<
+		Prisma.SpeedEventPairingUpdateManyMutationInput,
+		Prisma.SpeedEventPairingUncheckedUpdateManyWithoutEventInput
+	>;
+};
+
+export type SpeedEventPairingScalarWhereInput = {
+	AND?:
+		| Prisma.SpeedEventPairingScalarWhereInput
+		| Prisma.SpeedEventPairingScalarWhereInput[];
+	OR?: Prisma.SpeedEventPairingScalarWhereInput[];
+	NOT?:
+		| Prisma.SpeedEventPairingScalarWhereInput
+		| Prisma.SpeedEventPairingScalarWhereInput[];
+	id?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+	eventId?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+	round?: Prisma.IntFilter<"SpeedEventPairing"> | number;
+	user1Id?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+	user2Id?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+	roomId?: Prisma.StringFilter<"SpeedEventPairing"> | string;
+	createdAt?: Prisma.DateTimeFilter<"SpeedEventPairing"> | Date | string;
+};
+
+export type SpeedEventPairingCreateManyEventInput = {
+	id?: string;
+	round: number;
+	user1Id: string;
+	user2Id: string;
+	roomId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventPairingUpdateWithoutEventInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	round?: Prisma.IntFieldUpdateOperationsInput | number;
+	user1Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	user2Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventPairingUncheckedUpdateWithoutEventInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	round?: Prisma.IntFieldUpdateOperationsInput | number;
+	user1Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	user2Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventPairingUncheckedUpdateManyWithoutEventInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	round?: Prisma.IntFieldUpdateOperationsInput | number;
+	user1Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	user2Id?: Prisma.StringFieldUpdateOperationsInput | string;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventPairingSelect<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		eventId?: boolean;
+		round?: boolean;
+		user1Id?: boolean;
+		user2Id?: boolean;
+		roomId?: boolean;
+		createdAt?: boolean;
+		event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["speedEventPairing"]
+>;
+
+export type SpeedEventPairingSelectCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		eventId?: boolean;
+		round?: boolean;
+		user1Id?: boolean;
+		user2Id?: boolean;
+		roomId?: boolean;
+		createdAt?: boolean;
+		event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["speedEventPairing"]
+>;
+
+export type SpeedEventPairingSelectUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		eventId?: boolean;
+		round?: boolean;
+		user1Id?: boolean;
+		user2Id?: boolean;
+		roomId?: boolean;
+		createdAt?: boolean;
+		event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["speedEventPairing"]
+>;
+
+export type SpeedEventPairingSelectScalar = {
+	id?: boolean;
+	eventId?: boolean;
+	round?: boolean;
+	user1Id?: boolean;
+	user2Id?: boolean;
+	roomId?: boolean;
+	createdAt?: boolean;
+};
+
+export type SpeedEventPairingOmit<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+	"id" | "eventId" | "round" | "user1Id" | "user2Id" | "roomId" | "createdAt",
+	ExtArgs["result"]["speedEventPairing"]
+>;
+export type SpeedEventPairingInclude<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+};
+export type SpeedEventPairingIncludeCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+};
+export type SpeedEventPairingIncludeUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+};
+
+export type $SpeedEventPairingPayload<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	name: "SpeedEventPairing";
+	objects: {
+		event: Prisma.$SpeedEventPayload<ExtArgs>;
+	};
+	scalars: runtime.Types.Extensions.GetPayloadResult<
+		{
+			id: string;
+			eventId: string;
+			round: number;
+			user1Id: string;
+			user2Id: string;
+			roomId: string;
+			createdAt: Date;
+		},
+		ExtArgs["result"]["speedEventPairing"]
+	>;
+	composites: {};
+};
+
+export type SpeedEventPairingGetPayload<
+	S extends boolean | null | undefined | SpeedEventPairingDefaultArgs,
+> = runtime.Types.Result.GetResult<Prisma.$SpeedEventPairingPayload, S>;
+
+export type SpeedEventPairingCountArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<
+	SpeedEventPairingFindManyArgs,
+	"select" | "include" | "distinct" | "omit"
+> & {
+	select?: SpeedEventPairingCountAggregateInputType | true;
+};
+
+export interface SpeedEventPairingDelegate<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> {
+	[K: symbol]: {
+		types: Prisma.TypeMap<ExtArgs>["model"]["SpeedEventPairing"];
+		meta: { name: "SpeedEventPairing" };
+	};
+	/**
+	 * Find zero or one SpeedEventPairing that matches the filter.
+	 * @param {SpeedEventPairingFindUniqueArgs} args - Arguments to find a SpeedEventPairing
+	 * @example
+	 * // Get one SpeedEventPairing
+	 * const speedEventPairing = await prisma.speedEventPairing.findUnique({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUnique<T extends SpeedEventPairingFindUniqueArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventPairingFindUniqueArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventPairingClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPairingPayload<ExtArgs>,
+			T,
+			"findUnique",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find one SpeedEventPairing that matches the filter or throw an error with `error.code='P2025'`
+	 * if no matches were found.
+	 * @param {SpeedEventPairingFindUniqueOrThrowArgs} args - Arguments to find a SpeedEventPairing
+	 * @example
+	 * // Get one SpeedEventPairing
+	 * const speedEventPairing = await prisma.speedEventPairing.findUniqueOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUniqueOrThrow<T extends SpeedEventPairingFindUniqueOrThrowArgs>(
+		args: Prisma.SelectSubset<
+			T,
+			SpeedEventPairingFindUniqueOrThrowArgs<ExtArgs>
+		>,
+	): Prisma.Prisma__SpeedEventPairingClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPairingPayload<ExtArgs>,
+			T,
+			"findUniqueOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first SpeedEventPairing that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventPairingFindFirstArgs} args - Arguments to find a SpeedEventPairing
+	 * @example
+	 * // Get one SpeedEventPairing
+	 * const speedEventPairing = await prisma.speedEventPairing.findFirst({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirst<T extends SpeedEventPairingFindFirstArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventPairingFindFirstArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventPairingClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPairingPayload<ExtArgs>,
+			T,
+			"findFirst",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first SpeedEventPairing that matches the filter or
+	 * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventPairingFindFirstOrThrowArgs} args - Arguments to find a SpeedEventPairing
+	 * @example
+	 * // Get one SpeedEventPairing
+	 * const speedEventPairing = await prisma.speedEventPairing.findFirstOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirstOrThrow<T extends SpeedEventPairingFindFirstOrThrowArgs>(
+		args?: Prisma.SelectSubset<
+			T,
+			SpeedEventPairingFindFirstOrThrowArgs<ExtArgs>
+		>,
+	): Prisma.Prisma__SpeedEventPairingClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPairingPayload<ExtArgs>,
+			T,
+			"findFirstOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find zero or more SpeedEventPairings that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventPairingFindManyArgs} args - Arguments to filter and select certain fields only.
+	 * @example
+	 * // Get all SpeedEventPairings
+	 * const speedEventPairings = await prisma.speedEventPairing.findMany()
+	 *
+	 * // Get first 10 SpeedEventPairings
+	 * const speedEventPairings = await prisma.speedEventPairing.findMany({ take: 10 })
+	 *
+	 * // Only select the `id`
+	 * const speedEventPairingWithIdOnly = await prisma.speedEventPairing.findMany({ select: { id: true } })
+	 *
+	 */
+	findMany<T extends SpeedEventPairingFindManyArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventPairingFindManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPairingPayload<ExtArgs>,
+			T,
+			"findMany",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create a SpeedEventPairing.
+	 * @param {SpeedEventPairingCreateArgs} args - Arguments to create a SpeedEventPairing.
+	 * @example
+	 * // Create one SpeedEventPairing
+	 * const SpeedEventPairing = await prisma.speedEventPairing.create({
+	 *   data: {
+	 *     // ... data to create a SpeedEventPairing
+	 *   }
+	 * })
+	 *
+	 */
+	create<T extends SpeedEventPairingCreateArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventPairingCreateArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventPairingClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPairingPayload<ExtArgs>,
+			T,
+			"create",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Create many SpeedEventPairings.
+	 * @param {SpeedEventPairingCreateManyArgs} args - Arguments to create many SpeedEventPairings.
+	 * @example
+	 * // Create many SpeedEventPairings
+	 * const speedEventPairing = await prisma.speedEventPairing.createMany({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 */
+	createMany<T extends SpeedEventPairingCreateManyArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventPairingCreateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Create many SpeedEventPairings and returns the data saved in the database.
+	 * @param {SpeedEventPairingCreateManyAndReturnArgs} args - Arguments to create many SpeedEventPairings.
+	 * @example
+	 * // Create many SpeedEventPairings
+	 * const speedEventPairing = await prisma.speedEventPairing.createManyAndReturn({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Create many SpeedEventPairings and only return the `id`
+	 * const speedEventPairingWithIdOnly = await prisma.speedEventPairing.createManyAndReturn({
+	 *   select: { id: true },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	createManyAndReturn<T extends SpeedEventPairingCreateManyAndReturnArgs>(
+		args?: Prisma.SelectSubset<
+			T,
+			SpeedEventPairingCreateManyAndReturnArgs<ExtArgs>
+		>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPairingPayload<ExtArgs>,
+			T,
+			"createManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Delete a SpeedEventPairing.
+	 * @param {SpeedEventPairingDeleteArgs} args - Arguments to delete one SpeedEventPairing.
+	 * @example
+	 * // Delete one SpeedEventPairing
+	 * const SpeedEventPairing = await prisma.speedEventPairing.delete({
+	 *   where: {
+	 *     // ... filter to delete one SpeedEventPairing
+	 *   }
+	 * })
+	 *
+	 */
+	delete<T extends SpeedEventPairingDeleteArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventPairingDeleteArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventPairingClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPairingPayload<ExtArgs>,
+			T,
+			"delete",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Update one SpeedEventPairing.
+	 * @param {SpeedEventPairingUpdateArgs} args - Arguments to update one SpeedEventPairing.
+	 * @example
+	 * // Update one SpeedEventPairing
+	 * const speedEventPairing = await prisma.speedEventPairing.update({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	update<T extends SpeedEventPairingUpdateArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventPairingUpdateArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventPairingClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPairingPayload<ExtArgs>,
+			T,
+			"update",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Delete zero or more SpeedEventPairings.
+	 * @param {SpeedEventPairingDeleteManyArgs} args - Arguments to filter SpeedEventPairings to delete.
+	 * @example
+	 * // Delete a few SpeedEventPairings
+	 * const { count } = await prisma.speedEventPairing.deleteMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 *
+	 */
+	deleteMany<T extends SpeedEventPairingDeleteManyArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventPairingDeleteManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more SpeedEventPairings.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventPairingUpdateManyArgs} args - Arguments to update one or more rows.
+	 * @example
+	 * // Update many SpeedEventPairings
+	 * const speedEventPairing = await prisma.speedEventPairing.updateMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	updateMany<T extends SpeedEventPairingUpdateManyArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventPairingUpdateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more SpeedEventPairings and returns the data updated in the database.
+	 * @param {SpeedEventPairingUpdateManyAndReturnArgs} args - Arguments to update many SpeedEventPairings.
+	 * @example
+	 * // Update many SpeedEventPairings
+	 * const speedEventPairing = await prisma.speedEventPairing.updateManyAndReturn({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Update zero or more SpeedEventPairings and only return the `id`
+	 * const speedEventPairingWithIdOnly = await prisma.speedEventPairing.updateManyAndReturn({
+	 *   select: { id: true },
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	updateManyAndReturn<T extends SpeedEventPairingUpdateManyAndReturnArgs>(
+		args: Prisma.SelectSubset<
+			T,
+			SpeedEventPairingUpdateManyAndReturnArgs<ExtArgs>
+		>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPairingPayload<ExtArgs>,
+			T,
+			"updateManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create or update one SpeedEventPairing.
+	 * @param {SpeedEventPairingUpsertArgs} args - Arguments to update or create a SpeedEventPairing.
+	 * @example
+	 * // Update or create a SpeedEventPairing
+	 * const speedEventPairing = await prisma.speedEventPairing.upsert({
+	 *   create: {
+	 *     // ... data to create a SpeedEventPairing
+	 *   },
+	 *   update: {
+	 *     // ... in case it already exists, update
+	 *   },
+	 *   where: {
+	 *     // ... the filter for the SpeedEventPairing we want to update
+	 *   }
+	 * })
+	 */
+	upsert<T extends SpeedEventPairingUpsertArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventPairingUpsertArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventPairingClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventPairingPayload<ExtArgs>,
+			T,
+			"upsert",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Count the number of SpeedEventPairings.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventPairingCountArgs} args - Arguments to filter SpeedEventPairings to count.
+	 * @example
+	 * // Count the number of SpeedEventPairings
+	 * const count = await prisma.speedEventPairing.count({
+	 *   where: {
+	 *     // ... the filter for the SpeedEventPairings we want to count
+	 *   }
+	 * })
+	 **/
+	count<T extends SpeedEventPairingCountArgs>(
+		args?: Prisma.Subset<T, SpeedEventPairingCountArgs>,
+	): Prisma.PrismaPromise<
+		T extends runtime.Types.Utils.Record<"select", any>
+			? T["select"] extends true
+				? number
+				: Prisma.GetScalarType<
+						T["select"],
+						SpeedEventPairingCountAggregateOutputType
+					>
+			: number
+	>;
+
+	/**
+	 * Allows you to perform aggregations operations on a SpeedEventPairing.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventPairingAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+	 * @example
+	 * // Ordered by age ascending
+	 * // Where email contains prisma.io
+	 * // Limited to the 10 users
+	 * const aggregations = await prisma.user.aggregate({
+	 *   _avg: {
+	 *     age: true,
+	 *   },
+	 *   where: {
+	 *     email: {
+	 *       contains: "prisma.io",
+	 *     },
+	 *   },
+	 *   orderBy: {
+	 *     age: "asc",
+	 *   },
+	 *   take: 10,
+	 * })
+	 **/
+	aggregate<T extends SpeedEventPairingAggregateArgs>(
+		args: Prisma.Subset<T, SpeedEventPairingAggregateArgs>,
+	): Prisma.PrismaPromise<GetSpeedEventPairingAggregateType<T>>;
+
+	/**
+	 * Group by SpeedEventPairing.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventPairingGroupByArgs} args - Group by arguments.
+	 * @example
+	 * // Group by city, order by createdAt, get count
+	 * const result = await prisma.user.groupBy({
+	 *   by: ['city', 'createdAt'],
+	 *   orderBy: {
+	 *     createdAt: true
+	 *   },
+	 *   _count: {
+	 *     _all: true
+	 *   },
+	 * })
+	 *
+	 **/
+	groupBy<
+		T extends SpeedEventPairingGroupByArgs,
+		HasSelectOrTake extends Prisma.Or<
+			Prisma.Extends<"skip", Prisma.Keys<T>>,
+			Prisma.Extends<"take", Prisma.Keys<T>>
+		>,
+		OrderByArg extends Prisma.True extends HasSelectOrTake
+			? { orderBy: SpeedEventPairingGroupByArgs["orderBy"] }
+			: { orderBy?: SpeedEventPairingGroupByArgs["orderBy"] },
+		OrderFields extends Prisma.ExcludeUnderscoreKeys<
+			Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+		>,
+		ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+		ByValid extends Prisma.Has<ByFields, OrderFields>,
+		HavingFields extends Prisma.GetHavingFields<T["having"]>,
+		HavingValid extends Prisma.Has<ByFields, HavingFields>,
+		ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+		InputErrors extends ByEmpty extends Prisma.True
+			? `Error: "by" must not be empty.`
+			: HavingValid extends Prisma.False
+				? {
+						[P in HavingFields]: P extends ByFields
+							? never
+							: P extends string
+								? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+								: [
+										Error,
+										"Field ",
+										P,
+										` in "having" needs to be provided in "by"`,
+									];
+					}[HavingFields]
+				: "take" extends Prisma.Keys<T>
+					? "orderBy" extends Prisma.Keys<T>
+						? ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields]
+						: 'Error: If you provide "take", you also need to provide "orderBy"'
+					: "skip" extends Prisma.Keys<T>
+						? "orderBy" extends Prisma.Keys<T>
+							? ByValid extends Prisma.True
+								? {}
+								: {
+										[P in OrderFields]: P extends ByFields
+											? never
+											: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+									}[OrderFields]
+							: 'Error: If you provide "skip", you also need to provide "orderBy"'
+						: ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields],
+	>(
+		args: Prisma.SubsetIntersection<
+			T,
+			SpeedEventPairingGroupByArgs,
+			OrderByArg
+		> &
+			InputErrors,
+	): {} extends InputErrors
+		? GetSpeedEventPairingGroupByPayload<T>
+		: Prisma.PrismaPromise<InputErrors>;
+	/**
+	 * Fields of the SpeedEventPairing model
+	 */
+	readonly fields: SpeedEventPairingFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SpeedEventPairing.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SpeedEventPairingClient<
+	T,
+	Null = never,
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+	readonly [Symbol.toStringTag]: "PrismaPromise";
+	event<T extends Prisma.SpeedEventDefaultArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.SpeedEventDefaultArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventClient<
+		| runtime.Types.Result.GetResult<
+				Prisma.$SpeedEventPayload<ExtArgs>,
+				T,
+				"findUniqueOrThrow",
+				GlobalOmitOptions
+		  >
+		| Null,
+		Null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+	/**
+	 * Attaches callbacks for the resolution and/or rejection of the Promise.
+	 * @param onfulfilled The callback to execute when the Promise is resolved.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of which ever callback is executed.
+	 */
+	then<TResult1 = T, TResult2 = never>(
+		onfulfilled?:
+			| ((value: T) => TResult1 | PromiseLike<TResult1>)
+			| undefined
+			| null,
+		onrejected?:
+			| ((reason: any) => TResult2 | PromiseLike<TResult2>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+	/**
+	 * Attaches a callback for only the rejection of the Promise.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of the callback.
+	 */
+	catch<TResult = never>(
+		onrejected?:
+			| ((reason: any) => TResult | PromiseLike<TResult>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<T | TResult>;
+	/**
+	 * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+	 * resolved value cannot be modified from the callback.
+	 * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+	 * @returns A Promise for the completion of the callback.
+	 */
+	finally(
+		onfinally?: (() => void) | undefined | null,
+	): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the SpeedEventPairing model
+ */
+export interface SpeedEventPairingFieldRefs {
+	readonly id: Prisma.FieldRef<"SpeedEventPairing", "String">;
+	readonly eventId: Prisma.FieldRef<"SpeedEventPairing", "String">;
+	readonly round: Prisma.FieldRef<"SpeedEventPairing", "Int">;
+	readonly user1Id: Prisma.FieldRef<"SpeedEventPairing", "String">;
+	readonly user2Id: Prisma.FieldRef<"SpeedEventPairing", "String">;
+	readonly roomId: Prisma.FieldRef<"SpeedEventPairing", "String">;
+	readonly createdAt: Prisma.FieldRef<"SpeedEventPairing", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * SpeedEventPairing findUnique
+ */
+export type SpeedEventPairingFindUniqueArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventPairing to fetch.
+	 */
+	where: Prisma.SpeedEventPairingWhereUniqueInput;
+};
+
+/**
+ * SpeedEventPairing findUniqueOrThrow
+ */
+export type SpeedEventPairingFindUniqueOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventPairing to fetch.
+	 */
+	where: Prisma.SpeedEventPairingWhereUniqueInput;
+};
+
+/**
+ * SpeedEventPairing findFirst
+ */
+export type SpeedEventPairingFindFirstArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventPairing to fetch.
+	 */
+	where?: Prisma.SpeedEventPairingWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventPairings to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventPairingOrderByWithRelationInput
+		| Prisma.SpeedEventPairingOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for SpeedEventPairings.
+	 */
+	cursor?: Prisma.SpeedEventPairingWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventPairings from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventPairings.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of SpeedEventPairings.
+	 */
+	distinct?:
+		| Prisma.SpeedEventPairingScalarFieldEnum
+		| Prisma.SpeedEventPairingScalarFieldEnum[];
+};
+
+/**
+ * SpeedEventPairing findFirstOrThrow
+ */
+export type SpeedEventPairingFindFirstOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventPairing to fetch.
+	 */
+	where?: Prisma.SpeedEventPairingWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventPairings to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventPairingOrderByWithRelationInput
+		| Prisma.SpeedEventPairingOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for SpeedEventPairings.
+	 */
+	cursor?: Prisma.SpeedEventPairingWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventPairings from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventPairings.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of SpeedEventPairings.
+	 */
+	distinct?:
+		| Prisma.SpeedEventPairingScalarFieldEnum
+		| Prisma.SpeedEventPairingScalarFieldEnum[];
+};
+
+/**
+ * SpeedEventPairing findMany
+ */
+export type SpeedEventPairingFindManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventPairings to fetch.
+	 */
+	where?: Prisma.SpeedEventPairingWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventPairings to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventPairingOrderByWithRelationInput
+		| Prisma.SpeedEventPairingOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for listing SpeedEventPairings.
+	 */
+	cursor?: Prisma.SpeedEventPairingWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventPairings from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventPairings.
+	 */
+	skip?: number;
+	distinct?:
+		| Prisma.SpeedEventPairingScalarFieldEnum
+		| Prisma.SpeedEventPairingScalarFieldEnum[];
+};
+
+/**
+ * SpeedEventPairing create
+ */
+export type SpeedEventPairingCreateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingInclude<ExtArgs> | null;
+	/**
+	 * The data needed to create a SpeedEventPairing.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventPairingCreateInput,
+		Prisma.SpeedEventPairingUncheckedCreateInput
+	>;
+};
+
+/**
+ * SpeedEventPairing createMany
+ */
+export type SpeedEventPairingCreateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to create many SpeedEventPairings.
+	 */
+	data:
+		| Prisma.SpeedEventPairingCreateManyInput
+		| Prisma.SpeedEventPairingCreateManyInput[];
+	skipDuplicates?: boolean;
+};
+
+/**
+ * SpeedEventPairing createManyAndReturn
+ */
+export type SpeedEventPairingCreateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelectCreateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * The data used to create many SpeedEventPairings.
+	 */
+	data:
+		| Prisma.SpeedEventPairingCreateManyInput
+		| Prisma.SpeedEventPairingCreateManyInput[];
+	skipDuplicates?: boolean;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * SpeedEventPairing update
+ */
+export type SpeedEventPairingUpdateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingInclude<ExtArgs> | null;
+	/**
+	 * The data needed to update a SpeedEventPairing.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventPairingUpdateInput,
+		Prisma.SpeedEventPairingUncheckedUpdateInput
+	>;
+	/**
+	 * Choose, which SpeedEventPairing to update.
+	 */
+	where: Prisma.SpeedEventPairingWhereUniqueInput;
+};
+
+/**
+ * SpeedEventPairing updateMany
+ */
+export type SpeedEventPairingUpdateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to update SpeedEventPairings.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventPairingUpdateManyMutationInput,
+		Prisma.SpeedEventPairingUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which SpeedEventPairings to update
+	 */
+	where?: Prisma.SpeedEventPairingWhereInput;
+	/**
+	 * Limit how many SpeedEventPairings to update.
+	 */
+	limit?: number;
+};
+
+/**
+ * SpeedEventPairing updateManyAndReturn
+ */
+export type SpeedEventPairingUpdateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelectUpdateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * The data used to update SpeedEventPairings.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventPairingUpdateManyMutationInput,
+		Prisma.SpeedEventPairingUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which SpeedEventPairings to update
+	 */
+	where?: Prisma.SpeedEventPairingWhereInput;
+	/**
+	 * Limit how many SpeedEventPairings to update.
+	 */
+	limit?: number;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * SpeedEventPairing upsert
+ */
+export type SpeedEventPairingUpsertArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingInclude<ExtArgs> | null;
+	/**
+	 * The filter to search for the SpeedEventPairing to update in case it exists.
+	 */
+	where: Prisma.SpeedEventPairingWhereUniqueInput;
+	/**
+	 * In case the SpeedEventPairing found by the `where` argument doesn't exist, create a new SpeedEventPairing with this data.
+	 */
+	create: Prisma.XOR<
+		Prisma.SpeedEventPairingCreateInput,
+		Prisma.SpeedEventPairingUncheckedCreateInput
+	>;
+	/**
+	 * In case the SpeedEventPairing was found with the provided `where` argument, update it with this data.
+	 */
+	update: Prisma.XOR<
+		Prisma.SpeedEventPairingUpdateInput,
+		Prisma.SpeedEventPairingUncheckedUpdateInput
+	>;
+};
+
+/**
+ * SpeedEventPairing delete
+ */
+export type SpeedEventPairingDeleteArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingInclude<ExtArgs> | null;
+	/**
+	 * Filter which SpeedEventPairing to delete.
+	 */
+	where: Prisma.SpeedEventPairingWhereUniqueInput;
+};
+
+/**
+ * SpeedEventPairing deleteMany
+ */
+export type SpeedEventPairingDeleteManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which SpeedEventPairings to delete
+	 */
+	where?: Prisma.SpeedEventPairingWhereInput;
+	/**
+	 * Limit how many SpeedEventPairings to delete.
+	 */
+	limit?: number;
+};
+
+/**
+ * SpeedEventPairing without action
+ */
+export type SpeedEventPairingDefaultArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventPairing
+	 */
+	select?: Prisma.SpeedEventPairingSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventPairing
+	 */
+	omit?: Prisma.SpeedEventPairingOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventPairingInclude<ExtArgs> | null;
+};
@@ -0,0 +1,1979 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `SpeedEventRegistration` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model SpeedEventRegistration
+ *
+ */
+export type SpeedEventRegistrationModel =
+	runtime.Types.Result.DefaultSelection<Prisma.$SpeedEventRegistrationPayload>;
+
+export type AggregateSpeedEventRegistration = {
+	_count: SpeedEventRegistrationCountAggregateOutputType | null;
+	_min: SpeedEventRegistrationMinAggregateOutputType | null;
+	_max: SpeedEventRegistrationMaxAggregateOutputType | null;
+};
+
+export type SpeedEventRegistrationMinAggregateOutputType = {
+	id: string | null;
+	eventId: string | null;
+	userId: string | null;
+	createdAt: Date | null;
+};
+
+export type SpeedEventRegistrationMaxAggregateOutputType = {
+	id: string | null;
+	eventId: string | null;
+	userId: string | null;
+	createdAt: Date | null;
+};
+
+export type SpeedEventRegistrationCountAggregateOutputType = {
+	id: number;
+	eventId: number;
+	userId: number;
+	createdAt: number;
+	_all: number;
+};
+
+export type SpeedEventRegistrationMinAggregateInputType = {
+	id?: true;
+	eventId?: true;
+	userId?: true;
+	createdAt?: true;
+};
+
+export type SpeedEventRegistrationMaxAggregateInputType = {
+	id?: true;
+	eventId?: true;
+	userId?: true;
+	createdAt?: true;
+};
+
+export type SpeedEventRegistrationCountAggregateInputType = {
+	id?: true;
+	eventId?: true;
+	userId?: true;
+	createdAt?: true;
+	_all?: true;
+};
+
+export type SpeedEventRegistrationAggregateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which SpeedEventRegistration to aggregate.
+	 */
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventRegistrations to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the start position
+	 */
+	cursor?: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventRegistrations from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventRegistrations.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Count returned SpeedEventRegistrations
+	 **/
+	_count?: true | SpeedEventRegistrationCountAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the minimum value
+	 **/
+	_min?: SpeedEventRegistrationMinAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the maximum value
+	 **/
+	_max?: SpeedEventRegistrationMaxAggregateInputType;
+};
+
+export type GetSpeedEventRegistrationAggregateType<
+	T extends SpeedEventRegistrationAggregateArgs,
+> = {
+	[P in keyof T & keyof AggregateSpeedEventRegistration]: P extends
+		| "_count"
+		| "count"
+		? T[P] extends true
+			? number
+			: Prisma.GetScalarType<T[P], AggregateSpeedEventRegistration[P]>
+		: Prisma.GetScalarType<T[P], AggregateSpeedEventRegistration[P]>;
+};
+
+export type SpeedEventRegistrationGroupByArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+	orderBy?:
+		| Prisma.SpeedEventRegistrationOrderByWithAggregationInput
+		| Prisma.SpeedEventRegistrationOrderByWithAggregationInput[];
+	by:
+		| Prisma.SpeedEventRegistrationScalarFieldEnum[]
+		| Prisma.SpeedEventRegistrationScalarFieldEnum;
+	having?: Prisma.SpeedEventRegistrationScalarWhereWithAggregatesInput;
+	take?: number;
+	skip?: number;
+	_count?: SpeedEventRegistrationCountAggregateInputType | true;
+	_min?: SpeedEventRegistrationMinAggregateInputType;
+	_max?: SpeedEventRegistrationMaxAggregateInputType;
+};
+
+export type SpeedEventRegistrationGroupByOutputType = {
+	id: string;
+	eventId: string;
+	userId: string;
+	createdAt: Date;
+	_count: SpeedEventRegistrationCountAggregateOutputType | null;
+	_min: SpeedEventRegistrationMinAggregateOutputType | null;
+	_max: SpeedEventRegistrationMaxAggregateOutputType | null;
+};
+
+type GetSpeedEventRegistrationGroupByPayload<
+	T extends SpeedEventRegistrationGroupByArgs,
+> = Prisma.PrismaPromise<
+	Array<
+		Prisma.PickEnumerable<SpeedEventRegistrationGroupByOutputType, T["by"]> & {
+			[P in keyof T &
+				keyof SpeedEventRegistrationGroupByOutputType]: P extends "_count"
+				? T[P] extends boolean
+					? number
+					: Prisma.GetScalarType<
+							T[P],
+							SpeedEventRegistrationGroupByOutputType[P]
+						>
+				: Prisma.GetScalarType<
+						T[P],
+						SpeedEventRegistrationGroupByOutputType[P]
+					>;
+		}
+	>
+>;
+
+export type SpeedEventRegistrationWhereInput = {
+	AND?:
+		| Prisma.SpeedEventRegistrationWhereInput
+		| Prisma.SpeedEventRegistrationWhereInput[];
+	OR?: Prisma.SpeedEventRegistrationWhereInput[];
+	NOT?:
+		| Prisma.SpeedEventRegistrationWhereInput
+		| Prisma.SpeedEventRegistrationWhereInput[];
+	id?: Prisma.StringFilter<"SpeedEventRegistration"> | string;
+	eventId?: Prisma.StringFilter<"SpeedEventRegistration"> | string;
+	userId?: Prisma.StringFilter<"SpeedEventRegistration"> | string;
+	createdAt?: Prisma.DateTimeFilter<"SpeedEventRegistration"> | Date | string;
+	event?: Prisma.XOR<
+		Prisma.SpeedEventScalarRelationFilter,
+		Prisma.SpeedEventWhereInput
+	>;
+	user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+};
+
+export type SpeedEventRegistrationOrderByWithRelationInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	event?: Prisma.SpeedEventOrderByWithRelationInput;
+	user?: Prisma.UserOrderByWithRelationInput;
+};
+
+export type SpeedEventRegistrationWhereUniqueInput = Prisma.AtLeast<
+	{
+		id?: string;
+		eventId_userId?: Prisma.SpeedEventRegistrationEventIdUserIdCompoundUniqueInput;
+		AND?:
+			| Prisma.SpeedEventRegistrationWhereInput
+			| Prisma.SpeedEventRegistrationWhereInput[];
+		OR?: Prisma.SpeedEventRegistrationWhereInput[];
+		NOT?:
+			| Prisma.SpeedEventRegistrationWhereInput
+			| Prisma.SpeedEventRegistrationWhereInput[];
+		eventId?: Prisma.StringFilter<"SpeedEventRegistration"> | string;
+		userId?: Prisma.StringFilter<"SpeedEventRegistration"> | string;
+		createdAt?: Prisma.DateTimeFilter<"SpeedEventRegistration"> | Date | string;
+		event?: Prisma.XOR<
+			Prisma.SpeedEventScalarRelationFilter,
+			Prisma.SpeedEventWhereInput
+		>;
+		user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+	},
+	"id" | "eventId_userId"
+>;
+
+export type SpeedEventRegistrationOrderByWithAggregationInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+	_count?: Prisma.SpeedEventRegistrationCountOrderByAggregateInput;
+	_max?: Prisma.SpeedEventRegistrationMaxOrderByAggregateInput;
+	_min?: Prisma.SpeedEventRegistrationMinOrderByAggregateInput;
+};
+
+export type SpeedEventRegistrationScalarWhereWithAggregatesInput = {
+	AND?:
+		| Prisma.SpeedEventRegistrationScalarWhereWithAggregatesInput
+		| Prisma.SpeedEventRegistrationScalarWhereWithAggregatesInput[];
+	OR?: Prisma.SpeedEventRegistrationScalarWhereWithAggregatesInput[];
+	NOT?:
+		| Prisma.SpeedEventRegistrationScalarWhereWithAggregatesInput
+		| Prisma.SpeedEventRegistrationScalarWhereWithAggregatesInput[];
+	id?: Prisma.StringWithAggregatesFilter<"SpeedEventRegistration"> | string;
+	eventId?:
+		| Prisma.StringWithAggregatesFilter<"SpeedEventRegistration">
+		| string;
+	userId?: Prisma.StringWithAggregatesFilter<"SpeedEventRegistration"> | string;
+	createdAt?:
+		| Prisma.DateTimeWithAggregatesFilter<"SpeedEventRegistration">
+		| Date
+		| string;
+};
+
+export type SpeedEventRegistrationCreateInput = {
+	id?: string;
+	createdAt?: Date | string;
+	event: Prisma.SpeedEventCreateNestedOneWithoutRegistrationsInput;
+	user: Prisma.UserCreateNestedOneWithoutSpeedEventsInput;
+};
+
+export type SpeedEventRegistrationUncheckedCreateInput = {
+	id?: string;
+	eventId: string;
+	userId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventRegistrationUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	event?: Prisma.SpeedEventUpdateOneRequiredWithoutRegistrationsNestedInput;
+	user?: Prisma.UserUpdateOneRequiredWithoutSpeedEventsNestedInput;
+};
+
+export type SpeedEventRegistrationUncheckedUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventRegistrationCreateManyInput = {
+	id?: string;
+	eventId: string;
+	userId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventRegistrationUpdateManyMutationInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventRegistrationUncheckedUpdateManyInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventRegistrationListRelationFilter = {
+	every?: Prisma.SpeedEventRegistrationWhereInput;
+	some?: Prisma.SpeedEventRegistrationWhereInput;
+	none?: Prisma.SpeedEventRegistrationWhereInput;
+};
+
+export type SpeedEventRegistrationOrderByRelationAggregateInput = {
+	_count?: Prisma.SortOrder;
+};
+
+export type SpeedEventRegistrationEventIdUserIdCompoundUniqueInput = {
+	eventId: string;
+	userId: string;
+};
+
+export type SpeedEventRegistrationCountOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventRegistrationMaxOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventRegistrationMinOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	eventId?: Prisma.SortOrder;
+	userId?: Prisma.SortOrder;
+	createdAt?: Prisma.SortOrder;
+};
+
+export type SpeedEventRegistrationCreateNestedManyWithoutUserInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventRegistrationCreateWithoutUserInput,
+				Prisma.SpeedEventRegistrationUncheckedCreateWithoutUserInput
+		  >
+		| Prisma.SpeedEventRegistrationCreateWithoutUserInput[]
+		| Prisma.SpeedEventRegistrationUncheckedCreateWithoutUserInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutUserInput
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutUserInput[];
+	createMany?: Prisma.SpeedEventRegistrationCreateManyUserInputEnvelope;
+	connect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+};
+
+export type SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventRegistrationCreateWithoutUserInput,
+				Prisma.SpeedEventRegistrationUncheckedCreateWithoutUserInput
+		  >
+		| Prisma.SpeedEventRegistrationCreateWithoutUserInput[]
+		| Prisma.SpeedEventRegistrationUncheckedCreateWithoutUserInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutUserInput
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutUserInput[];
+	createMany?: Prisma.SpeedEventRegistrationCreateManyUserInputEnvelope;
+	connect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+};
+
+export type SpeedEventRegistrationUpdateManyWithoutUserNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventRegistrationCreateWithoutUserInput,
+				Prisma.SpeedEventRegistrationUncheckedCreateWithoutUserInput
+		  >
+		| Prisma.SpeedEventRegistrationCreateWithoutUserInput[]
+		| Prisma.SpeedEventRegistrationUncheckedCreateWithoutUserInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutUserInput
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutUserInput[];
+	upsert?:
+		| Prisma.SpeedEventRegistrationUpsertWithWhereUniqueWithoutUserInput
+		| Prisma.SpeedEventRegistrationUpsertWithWhereUniqueWithoutUserInput[];
+	createMany?: Prisma.SpeedEventRegistrationCreateManyUserInputEnvelope;
+	set?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	disconnect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	delete?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	connect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	update?:
+		| Prisma.SpeedEventRegistrationUpdateWithWhereUniqueWithoutUserInput
+		| Prisma.SpeedEventRegistrationUpdateWithWhereUniqueWithoutUserInput[];
+	updateMany?:
+		| Prisma.SpeedEventRegistrationUpdateManyWithWhereWithoutUserInput
+		| Prisma.SpeedEventRegistrationUpdateManyWithWhereWithoutUserInput[];
+	deleteMany?:
+		| Prisma.SpeedEventRegistrationScalarWhereInput
+		| Prisma.SpeedEventRegistrationScalarWhereInput[];
+};
+
+export type SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventRegistrationCreateWithoutUserInput,
+				Prisma.SpeedEventRegistrationUncheckedCreateWithoutUserInput
+		  >
+		| Prisma.SpeedEventRegistrationCreateWithoutUserInput[]
+		| Prisma.SpeedEventRegistrationUncheckedCreateWithoutUserInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutUserInput
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutUserInput[];
+	upsert?:
+		| Prisma.SpeedEventRegistrationUpsertWithWhereUniqueWithoutUserInput
+		| Prisma.SpeedEventRegistrationUpsertWithWhereUniqueWithoutUserInput[];
+	createMany?: Prisma.SpeedEventRegistrationCreateManyUserInputEnvelope;
+	set?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	disconnect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	delete?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	connect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	update?:
+		| Prisma.SpeedEventRegistrationUpdateWithWhereUniqueWithoutUserInput
+		| Prisma.SpeedEventRegistrationUpdateWithWhereUniqueWithoutUserInput[];
+	updateMany?:
+		| Prisma.SpeedEventRegistrationUpdateManyWithWhereWithoutUserInput
+		| Prisma.SpeedEventRegistrationUpdateManyWithWhereWithoutUserInput[];
+	deleteMany?:
+		| Prisma.SpeedEventRegistrationScalarWhereInput
+		| Prisma.SpeedEventRegistrationScalarWhereInput[];
+};
+
+export type SpeedEventRegistrationCreateNestedManyWithoutEventInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventRegistrationCreateWithoutEventInput,
+				Prisma.SpeedEventRegistrationUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventRegistrationCreateWithoutEventInput[]
+		| Prisma.SpeedEventRegistrationUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutEventInput[];
+	createMany?: Prisma.SpeedEventRegistrationCreateManyEventInputEnvelope;
+	connect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+};
+
+export type SpeedEventRegistrationUncheckedCreateNestedManyWithoutEventInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventRegistrationCreateWithoutEventInput,
+				Prisma.SpeedEventRegistrationUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventRegistrationCreateWithoutEventInput[]
+		| Prisma.SpeedEventRegistrationUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutEventInput[];
+	createMany?: Prisma.SpeedEventRegistrationCreateManyEventInputEnvelope;
+	connect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+};
+
+export type SpeedEventRegistrationUpdateManyWithoutEventNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventRegistrationCreateWithoutEventInput,
+				Prisma.SpeedEventRegistrationUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventRegistrationCreateWithoutEventInput[]
+		| Prisma.SpeedEventRegistrationUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutEventInput[];
+	upsert?:
+		| Prisma.SpeedEventRegistrationUpsertWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventRegistrationUpsertWithWhereUniqueWithoutEventInput[];
+	createMany?: Prisma.SpeedEventRegistrationCreateManyEventInputEnvelope;
+	set?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	disconnect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	delete?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	connect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	update?:
+		| Prisma.SpeedEventRegistrationUpdateWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventRegistrationUpdateWithWhereUniqueWithoutEventInput[];
+	updateMany?:
+		| Prisma.SpeedEventRegistrationUpdateManyWithWhereWithoutEventInput
+		| Prisma.SpeedEventRegistrationUpdateManyWithWhereWithoutEventInput[];
+	deleteMany?:
+		| Prisma.SpeedEventRegistrationScalarWhereInput
+		| Prisma.SpeedEventRegistrationScalarWhereInput[];
+};
+
+export type SpeedEventRegistrationUncheckedUpdateManyWithoutEventNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.SpeedEventRegistrationCreateWithoutEventInput,
+				Prisma.SpeedEventRegistrationUncheckedCreateWithoutEventInput
+		  >
+		| Prisma.SpeedEventRegistrationCreateWithoutEventInput[]
+		| Prisma.SpeedEventRegistrationUncheckedCreateWithoutEventInput[];
+	connectOrCreate?:
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutEventInput
+		| Prisma.SpeedEventRegistrationCreateOrConnectWithoutEventInput[];
+	upsert?:
+		| Prisma.SpeedEventRegistrationUpsertWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventRegistrationUpsertWithWhereUniqueWithoutEventInput[];
+	createMany?: Prisma.SpeedEventRegistrationCreateManyEventInputEnvelope;
+	set?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	disconnect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	delete?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	connect?:
+		| Prisma.SpeedEventRegistrationWhereUniqueInput
+		| Prisma.SpeedEventRegistrationWhereUniqueInput[];
+	update?:
+		| Prisma.SpeedEventRegistrationUpdateWithWhereUniqueWithoutEventInput
+		| Prisma.SpeedEventRegistrationUpdateWithWhereUniqueWithoutEventInput[];
+	updateMany?:
+		| Prisma.SpeedEventRegistrationUpdateManyWithWhereWithoutEventInput
+		| Prisma.SpeedEventRegistrationUpdateManyWithWhereWithoutEventInput[];
+	deleteMany?:
+		| Prisma.SpeedEventRegistrationScalarWhereInput
+		| Prisma.SpeedEventRegistrationScalarWhereInput[];
+};
+
+export type SpeedEventRegistrationCreateWithoutUserInput = {
+	id?: string;
+	createdAt?: Date | string;
+	event: Prisma.SpeedEventCreateNestedOneWithoutRegistrationsInput;
+};
+
+export type SpeedEventRegistrationUncheckedCreateWithoutUserInput = {
+	id?: string;
+	eventId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventRegistrationCreateOrConnectWithoutUserInput = {
+	where: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.SpeedEventRegistrationCreateWithoutUserInput,
+		Prisma.SpeedEventRegistrationUncheckedCreateWithoutUserInput
+	>;
+};
+
+export type SpeedEventRegistrationCreateManyUserInputEnvelope = {
+	data:
+		| Prisma.SpeedEventRegistrationCreateManyUserInput
+		| Prisma.SpeedEventRegistrationCreateManyUserInput[];
+	skipDuplicates?: boolean;
+};
+
+export type SpeedEventRegistrationUpsertWithWhereUniqueWithoutUserInput = {
+	where: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	update: Prisma.XOR<
+		Prisma.SpeedEventRegistrationUpdateWithoutUserInput,
+		Prisma.SpeedEventRegistrationUncheckedUpdateWithoutUserInput
+	>;
+	create: Prisma.XOR<
+		Prisma.SpeedEventRegistrationCreateWithoutUserInput,
+		Prisma.SpeedEventRegistrationUncheckedCreateWithoutUserInput
+	>;
+};
+
+export type SpeedEventRegistrationUpdateWithWhereUniqueWithoutUserInput = {
+	where: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	data: Prisma.XOR<
+		Prisma.SpeedEventRegistrationUpdateWithoutUserInput,
+		Prisma.SpeedEventRegistrationUncheckedUpdateWithoutUserInput
+	>;
+};
+
+export type SpeedEventRegistrationUpdateManyWithWhereWithoutUserInput = {
+	where: Prisma.SpeedEventRegistrationScalarWhereInput;
+	data: Prisma.XOR<
+		Prisma.SpeedEventRegistrationUpdateManyMutationInput,
+		Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserInput
+	>;
+};
+
+export type SpeedEventRegistrationScalarWhereInput = {
+	AND?:
+		| Prisma.SpeedEventRegistrationScalarWhereInput
+		| Prisma.SpeedEventRegistrationScalarWhereInput[];
+	OR?: Prisma.SpeedEventRegistrationScalarWhereInput[];
+	NOT?:
+		| Prisma.SpeedEventRegistrationScalarWhereInput
+		| Prisma.SpeedEventRegistrationScalarWhereInput[];
+	id?: Prisma.StringFilter<"SpeedEventRegistration"> | string;
+	eventId?: Prisma.StringFilter<"SpeedEventRegistration"> | string;
+	userId?: Prisma.StringFilter<"SpeedEventRegistration"> | string;
+	createdAt?: Prisma.DateTimeFilter<"SpeedEventRegistration"> | Date | string;
+};
+
+export type SpeedEventRegistrationCreateWithoutEventInput = {
+	id?: string;
+	createdAt?: Date | string;
+	user: Prisma.UserCreateNestedOneWithoutSpeedEventsInput;
+};
+
+export type SpeedEventRegistrationUncheckedCreateWithoutEventInput = {
+	id?: string;
+	userId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventRegistrationCreateOrConnectWithoutEventInput = {
+	where: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.SpeedEventRegistrationCreateWithoutEventInput,
+		Prisma.SpeedEventRegistrationUncheckedCreateWithoutEventInput
+	>;
+};
+
+export type SpeedEventRegistrationCreateManyEventInputEnvelope = {
+	data:
+		| Prisma.SpeedEventRegistrationCreateManyEventInput
+		| Prisma.SpeedEventRegistrationCreateManyEventInput[];
+	skipDuplicates?: boolean;
+};
+
+export type SpeedEventRegistrationUpsertWithWhereUniqueWithoutEventInput = {
+	where: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	update: Prisma.XOR<
+		Prisma.SpeedEventRegistrationUpdateWithoutEventInput,
+		Prisma.SpeedEventRegistrationUncheckedUpdateWithoutEventInput
+	>;
+	create: Prisma.XOR<
+		Prisma.SpeedEventRegistrationCreateWithoutEventInput,
+		Prisma.SpeedEventRegistrationUncheckedCreateWithoutEventInput
+	>;
+};
+
+export type SpeedEventRegistrationUpdateWithWhereUniqueWithoutEventInput = {
+	where: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	data: Prisma.XOR<
+		Prisma.SpeedEventRegistrationUpdateWithoutEventInput,
+		Prisma.SpeedEventRegistrationUncheckedUpdateWithoutEventInput
+	>;
+};
+
+export type SpeedEventRegistrationUpdateManyWithWhereWithoutEventInput = {
+	where: Prisma.SpeedEventRegistrationScalarWhereInput;
+	data: Prisma.XOR<
+		Prisma.SpeedEventRegistrationUpdateManyMutationInput,
+		Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutEventInput
+	>;
+};
+
+export type SpeedEventRegistrationCreateManyUserInput = {
+	id?: string;
+	eventId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventRegistrationUpdateWithoutUserInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	event?: Prisma.SpeedEventUpdateOneRequiredWithoutRegistrationsNestedInput;
+};
+
+export type SpeedEventRegistrationUncheckedUpdateWithoutUserInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventRegistrationUncheckedUpdateManyWithoutUserInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	eventId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventRegistrationCreateManyEventInput = {
+	id?: string;
+	userId: string;
+	createdAt?: Date | string;
+};
+
+export type SpeedEventRegistrationUpdateWithoutEventInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	user?: Prisma.UserUpdateOneRequiredWithoutSpeedEventsNestedInput;
+};
+
+export type SpeedEventRegistrationUncheckedUpdateWithoutEventInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventRegistrationUncheckedUpdateManyWithoutEventInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	userId?: Prisma.StringFieldUpdateOperationsInput | string;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type SpeedEventRegistrationSelect<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		eventId?: boolean;
+		userId?: boolean;
+		createdAt?: boolean;
+		event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+		user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["speedEventRegistration"]
+>;
+
+export type SpeedEventRegistrationSelectCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		eventId?: boolean;
+		userId?: boolean;
+		createdAt?: boolean;
+		event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+		user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["speedEventRegistration"]
+>;
+
+export type SpeedEventRegistrationSelectUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		eventId?: boolean;
+		userId?: boolean;
+		createdAt?: boolean;
+		event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+		user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["speedEventRegistration"]
+>;
+
+export type SpeedEventRegistrationSelectScalar = {
+	id?: boolean;
+	eventId?: boolean;
+	userId?: boolean;
+	createdAt?: boolean;
+};
+
+export type SpeedEventRegistrationOmit<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+	"id" | "eventId" | "userId" | "createdAt",
+	ExtArgs["result"]["speedEventRegistration"]
+>;
+export type SpeedEventRegistrationInclude<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+	user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type SpeedEventRegistrationIncludeCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+	user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type SpeedEventRegistrationIncludeUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	event?: boolean | Prisma.SpeedEventDefaultArgs<ExtArgs>;
+	user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+
+export type $SpeedEventRegistrationPayload<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	name: "SpeedEventRegistration";
+	objects: {
+		event: Prisma.$SpeedEventPayload<ExtArgs>;
+		user: Prisma.$UserPayload<ExtArgs>;
+	};
+	scalars: runtime.Types.Extensions.GetPayloadResult<
+		{
+			id: string;
+			eventId: string;
+			userId: string;
+			createdAt: Date;
+		},
+		ExtArgs["result"]["speedEventRegistration"]
+	>;
+	composites: {};
+};
+
+export type SpeedEventRegistrationGetPayload<
+	S extends boolean | null | undefined | SpeedEventRegistrationDefaultArgs,
+> = runtime.Types.Result.GetResult<Prisma.$SpeedEventRegistrationPayload, S>;
+
+export type SpeedEventRegistrationCountArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<
+	SpeedEventRegistrationFindManyArgs,
+	"select" | "include" | "distinct" | "omit"
+> & {
+	select?: SpeedEventRegistrationCountAggregateInputType | true;
+};
+
+export interface SpeedEventRegistrationDelegate<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> {
+	[K: symbol]: {
+		types: Prisma.TypeMap<ExtArgs>["model"]["SpeedEventRegistration"];
+		meta: { name: "SpeedEventRegistration" };
+	};
+	/**
+	 * Find zero or one SpeedEventRegistration that matches the filter.
+	 * @param {SpeedEventRegistrationFindUniqueArgs} args - Arguments to find a SpeedEventRegistration
+	 * @example
+	 * // Get one SpeedEventRegistration
+	 * const speedEventRegistration = await prisma.speedEventRegistration.findUnique({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUnique<T extends SpeedEventRegistrationFindUniqueArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventRegistrationFindUniqueArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventRegistrationClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+			T,
+			"findUnique",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find one SpeedEventRegistration that matches the filter or throw an error with `error.code='P2025'`
+	 * if no matches were found.
+	 * @param {SpeedEventRegistrationFindUniqueOrThrowArgs} args - Arguments to find a SpeedEventRegistration
+	 * @example
+	 * // Get one SpeedEventRegistration
+	 * const speedEventRegistration = await prisma.speedEventRegistration.findUniqueOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUniqueOrThrow<T extends SpeedEventRegistrationFindUniqueOrThrowArgs>(
+		args: Prisma.SelectSubset<
+			T,
+			SpeedEventRegistrationFindUniqueOrThrowArgs<ExtArgs>
+		>,
+	): Prisma.Prisma__SpeedEventRegistrationClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+			T,
+			"findUniqueOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first SpeedEventRegistration that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventRegistrationFindFirstArgs} args - Arguments to find a SpeedEventRegistration
+	 * @example
+	 * // Get one SpeedEventRegistration
+	 * const speedEventRegistration = await prisma.speedEventRegistration.findFirst({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirst<T extends SpeedEventRegistrationFindFirstArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventRegistrationFindFirstArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventRegistrationClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+			T,
+			"findFirst",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first SpeedEventRegistration that matches the filter or
+	 * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventRegistrationFindFirstOrThrowArgs} args - Arguments to find a SpeedEventRegistration
+	 * @example
+	 * // Get one SpeedEventRegistration
+	 * const speedEventRegistration = await prisma.speedEventRegistration.findFirstOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirstOrThrow<T extends SpeedEventRegistrationFindFirstOrThrowArgs>(
+		args?: Prisma.SelectSubset<
+			T,
+			SpeedEventRegistrationFindFirstOrThrowArgs<ExtArgs>
+		>,
+	): Prisma.Prisma__SpeedEventRegistrationClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+			T,
+			"findFirstOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find zero or more SpeedEventRegistrations that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventRegistrationFindManyArgs} args - Arguments to filter and select certain fields only.
+	 * @example
+	 * // Get all SpeedEventRegistrations
+	 * const speedEventRegistrations = await prisma.speedEventRegistration.findMany()
+	 *
+	 * // Get first 10 SpeedEventRegistrations
+	 * const speedEventRegistrations = await prisma.speedEventRegistration.findMany({ take: 10 })
+	 *
+	 * // Only select the `id`
+	 * const speedEventRegistrationWithIdOnly = await prisma.speedEventRegistration.findMany({ select: { id: true } })
+	 *
+	 */
+	findMany<T extends SpeedEventRegistrationFindManyArgs>(
+		args?: Prisma.SelectSubset<T, SpeedEventRegistrationFindManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+			T,
+			"findMany",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create a SpeedEventRegistration.
+	 * @param {SpeedEventRegistrationCreateArgs} args - Arguments to create a SpeedEventRegistration.
+	 * @example
+	 * // Create one SpeedEventRegistration
+	 * const SpeedEventRegistration = await prisma.speedEventRegistration.create({
+	 *   data: {
+	 *     // ... data to create a SpeedEventRegistration
+	 *   }
+	 * })
+	 *
+	 */
+	create<T extends SpeedEventRegistrationCreateArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventRegistrationCreateArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventRegistrationClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+			T,
+			"create",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Create many SpeedEventRegistrations.
+	 * @param {SpeedEventRegistrationCreateManyArgs} args - Arguments to create many SpeedEventRegistrations.
+	 * @example
+	 * // Create many SpeedEventRegistrations
+	 * const speedEventRegistration = await prisma.speedEventRegistration.createMany({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 */
+	createMany<T extends SpeedEventRegistrationCreateManyArgs>(
+		args?: Prisma.SelectSubset<
+			T,
+			SpeedEventRegistrationCreateManyArgs<ExtArgs>
+		>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Create many SpeedEventRegistrations and returns the data saved in the database.
+	 * @param {SpeedEventRegistrationCreateManyAndReturnArgs} args - Arguments to create many SpeedEventRegistrations.
+	 * @example
+	 * // Create many SpeedEventRegistrations
+	 * const speedEventRegistration = await prisma.speedEventRegistration.createManyAndReturn({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Create many SpeedEventRegistrations and only return the `id`
+	 * const speedEventRegistrationWithIdOnly = await prisma.speedEventRegistration.createManyAndReturn({
+	 *   select: { id: true },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	createManyAndReturn<T extends SpeedEventRegistrationCreateManyAndReturnArgs>(
+		args?: Prisma.SelectSubset<
+			T,
+			SpeedEventRegistrationCreateManyAndReturnArgs<ExtArgs>
+		>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+			T,
+			"createManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Delete a SpeedEventRegistration.
+	 * @param {SpeedEventRegistrationDeleteArgs} args - Arguments to delete one SpeedEventRegistration.
+	 * @example
+	 * // Delete one SpeedEventRegistration
+	 * const SpeedEventRegistration = await prisma.speedEventRegistration.delete({
+	 *   where: {
+	 *     // ... filter to delete one SpeedEventRegistration
+	 *   }
+	 * })
+	 *
+	 */
+	delete<T extends SpeedEventRegistrationDeleteArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventRegistrationDeleteArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventRegistrationClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+			T,
+			"delete",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Update one SpeedEventRegistration.
+	 * @param {SpeedEventRegistrationUpdateArgs} args - Arguments to update one SpeedEventRegistration.
+	 * @example
+	 * // Update one SpeedEventRegistration
+	 * const speedEventRegistration = await prisma.speedEventRegistration.update({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	update<T extends SpeedEventRegistrationUpdateArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventRegistrationUpdateArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventRegistrationClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+			T,
+			"update",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Delete zero or more SpeedEventRegistrations.
+	 * @param {SpeedEventRegistrationDeleteManyArgs} args - Arguments to filter SpeedEventRegistrations to delete.
+	 * @example
+	 * // Delete a few SpeedEventRegistrations
+	 * const { count } = await prisma.speedEventRegistration.deleteMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 *
+	 */
+	deleteMany<T extends SpeedEventRegistrationDeleteManyArgs>(
+		args?: Prisma.SelectSubset<
+			T,
+			SpeedEventRegistrationDeleteManyArgs<ExtArgs>
+		>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more SpeedEventRegistrations.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventRegistrationUpdateManyArgs} args - Arguments to update one or more rows.
+	 * @example
+	 * // Update many SpeedEventRegistrations
+	 * const speedEventRegistration = await prisma.speedEventRegistration.updateMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	updateMany<T extends SpeedEventRegistrationUpdateManyArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventRegistrationUpdateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more SpeedEventRegistrations and returns the data updated in the database.
+	 * @param {SpeedEventRegistrationUpdateManyAndReturnArgs} args - Arguments to update many SpeedEventRegistrations.
+	 * @example
+	 * // Update many SpeedEventRegistrations
+	 * const speedEventRegistration = await prisma.speedEventRegistration.updateManyAndReturn({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Update zero or more SpeedEventRegistrations and only return the `id`
+	 * const speedEventRegistrationWithIdOnly = await prisma.speedEventRegistration.updateManyAndReturn({
+	 *   select: { id: true },
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	updateManyAndReturn<T extends SpeedEventRegistrationUpdateManyAndReturnArgs>(
+		args: Prisma.SelectSubset<
+			T,
+			SpeedEventRegistrationUpdateManyAndReturnArgs<ExtArgs>
+		>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+			T,
+			"updateManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create or update one SpeedEventRegistration.
+	 * @param {SpeedEventRegistrationUpsertArgs} args - Arguments to update or create a SpeedEventRegistration.
+	 * @example
+	 * // Update or create a SpeedEventRegistration
+	 * const speedEventRegistration = await prisma.speedEventRegistration.upsert({
+	 *   create: {
+	 *     // ... data to create a SpeedEventRegistration
+	 *   },
+	 *   update: {
+	 *     // ... in case it already exists, update
+	 *   },
+	 *   where: {
+	 *     // ... the filter for the SpeedEventRegistration we want to update
+	 *   }
+	 * })
+	 */
+	upsert<T extends SpeedEventRegistrationUpsertArgs>(
+		args: Prisma.SelectSubset<T, SpeedEventRegistrationUpsertArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventRegistrationClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+			T,
+			"upsert",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Count the number of SpeedEventRegistrations.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventRegistrationCountArgs} args - Arguments to filter SpeedEventRegistrations to count.
+	 * @example
+	 * // Count the number of SpeedEventRegistrations
+	 * const count = await prisma.speedEventRegistration.count({
+	 *   where: {
+	 *     // ... the filter for the SpeedEventRegistrations we want to count
+	 *   }
+	 * })
+	 **/
+	count<T extends SpeedEventRegistrationCountArgs>(
+		args?: Prisma.Subset<T, SpeedEventRegistrationCountArgs>,
+	): Prisma.PrismaPromise<
+		T extends runtime.Types.Utils.Record<"select", any>
+			? T["select"] extends true
+				? number
+				: Prisma.GetScalarType<
+						T["select"],
+						SpeedEventRegistrationCountAggregateOutputType
+					>
+			: number
+	>;
+
+	/**
+	 * Allows you to perform aggregations operations on a SpeedEventRegistration.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventRegistrationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+	 * @example
+	 * // Ordered by age ascending
+	 * // Where email contains prisma.io
+	 * // Limited to the 10 users
+	 * const aggregations = await prisma.user.aggregate({
+	 *   _avg: {
+	 *     age: true,
+	 *   },
+	 *   where: {
+	 *     email: {
+	 *       contains: "prisma.io",
+	 *     },
+	 *   },
+	 *   orderBy: {
+	 *     age: "asc",
+	 *   },
+	 *   take: 10,
+	 * })
+	 **/
+	aggregate<T extends SpeedEventRegistrationAggregateArgs>(
+		args: Prisma.Subset<T, SpeedEventRegistrationAggregateArgs>,
+	): Prisma.PrismaPromise<GetSpeedEventRegistrationAggregateType<T>>;
+
+	/**
+	 * Group by SpeedEventRegistration.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {SpeedEventRegistrationGroupByArgs} args - Group by arguments.
+	 * @example
+	 * // Group by city, order by createdAt, get count
+	 * const result = await prisma.user.groupBy({
+	 *   by: ['city', 'createdAt'],
+	 *   orderBy: {
+	 *     createdAt: true
+	 *   },
+	 *   _count: {
+	 *     _all: true
+	 *   },
+	 * })
+	 *
+	 **/
+	groupBy<
+		T extends SpeedEventRegistrationGroupByArgs,
+		HasSelectOrTake extends Prisma.Or<
+			Prisma.Extends<"skip", Prisma.Keys<T>>,
+			Prisma.Extends<"take", Prisma.Keys<T>>
+		>,
+		OrderByArg extends Prisma.True extends HasSelectOrTake
+			? { orderBy: SpeedEventRegistrationGroupByArgs["orderBy"] }
+			: { orderBy?: SpeedEventRegistrationGroupByArgs["orderBy"] },
+		OrderFields extends Prisma.ExcludeUnderscoreKeys<
+			Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+		>,
+		ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+		ByValid extends Prisma.Has<ByFields, OrderFields>,
+		HavingFields extends Prisma.GetHavingFields<T["having"]>,
+		HavingValid extends Prisma.Has<ByFields, HavingFields>,
+		ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+		InputErrors extends ByEmpty extends Prisma.True
+			? `Error: "by" must not be empty.`
+			: HavingValid extends Prisma.False
+				? {
+						[P in HavingFields]: P extends ByFields
+							? never
+							: P extends string
+								? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+								: [
+										Error,
+										"Field ",
+										P,
+										` in "having" needs to be provided in "by"`,
+									];
+					}[HavingFields]
+				: "take" extends Prisma.Keys<T>
+					? "orderBy" extends Prisma.Keys<T>
+						? ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields]
+						: 'Error: If you provide "take", you also need to provide "orderBy"'
+					: "skip" extends Prisma.Keys<T>
+						? "orderBy" extends Prisma.Keys<T>
+							? ByValid extends Prisma.True
+								? {}
+								: {
+										[P in OrderFields]: P extends ByFields
+											? never
+											: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+									}[OrderFields]
+							: 'Error: If you provide "skip", you also need to provide "orderBy"'
+						: ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields],
+	>(
+		args: Prisma.SubsetIntersection<
+			T,
+			SpeedEventRegistrationGroupByArgs,
+			OrderByArg
+		> &
+			InputErrors,
+	): {} extends InputErrors
+		? GetSpeedEventRegistrationGroupByPayload<T>
+		: Prisma.PrismaPromise<InputErrors>;
+	/**
+	 * Fields of the SpeedEventRegistration model
+	 */
+	readonly fields: SpeedEventRegistrationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SpeedEventRegistration.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SpeedEventRegistrationClient<
+	T,
+	Null = never,
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+	readonly [Symbol.toStringTag]: "PrismaPromise";
+	event<T extends Prisma.SpeedEventDefaultArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.SpeedEventDefaultArgs<ExtArgs>>,
+	): Prisma.Prisma__SpeedEventClient<
+		| runtime.Types.Result.GetResult<
+				Prisma.$SpeedEventPayload<ExtArgs>,
+				T,
+				"findUniqueOrThrow",
+				GlobalOmitOptions
+		  >
+		| Null,
+		Null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+	user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>,
+	): Prisma.Prisma__UserClient<
+		| runtime.Types.Result.GetResult<
+				Prisma.$UserPayload<ExtArgs>,
+				T,
+				"findUniqueOrThrow",
+				GlobalOmitOptions
+		  >
+		| Null,
+		Null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+	/**
+	 * Attaches callbacks for the resolution and/or rejection of the Promise.
+	 * @param onfulfilled The callback to execute when the Promise is resolved.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of which ever callback is executed.
+	 */
+	then<TResult1 = T, TResult2 = never>(
+		onfulfilled?:
+			| ((value: T) => TResult1 | PromiseLike<TResult1>)
+			| undefined
+			| null,
+		onrejected?:
+			| ((reason: any) => TResult2 | PromiseLike<TResult2>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+	/**
+	 * Attaches a callback for only the rejection of the Promise.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of the callback.
+	 */
+	catch<TResult = never>(
+		onrejected?:
+			| ((reason: any) => TResult | PromiseLike<TResult>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<T | TResult>;
+	/**
+	 * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+	 * resolved value cannot be modified from the callback.
+	 * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+	 * @returns A Promise for the completion of the callback.
+	 */
+	finally(
+		onfinally?: (() => void) | undefined | null,
+	): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the SpeedEventRegistration model
+ */
+export interface SpeedEventRegistrationFieldRefs {
+	readonly id: Prisma.FieldRef<"SpeedEventRegistration", "String">;
+	readonly eventId: Prisma.FieldRef<"SpeedEventRegistration", "String">;
+	readonly userId: Prisma.FieldRef<"SpeedEventRegistration", "String">;
+	readonly createdAt: Prisma.FieldRef<"SpeedEventRegistration", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * SpeedEventRegistration findUnique
+ */
+export type SpeedEventRegistrationFindUniqueArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventRegistration to fetch.
+	 */
+	where: Prisma.SpeedEventRegistrationWhereUniqueInput;
+};
+
+/**
+ * SpeedEventRegistration findUniqueOrThrow
+ */
+export type SpeedEventRegistrationFindUniqueOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventRegistration to fetch.
+	 */
+	where: Prisma.SpeedEventRegistrationWhereUniqueInput;
+};
+
+/**
+ * SpeedEventRegistration findFirst
+ */
+export type SpeedEventRegistrationFindFirstArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventRegistration to fetch.
+	 */
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventRegistrations to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for SpeedEventRegistrations.
+	 */
+	cursor?: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventRegistrations from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventRegistrations.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of SpeedEventRegistrations.
+	 */
+	distinct?:
+		| Prisma.SpeedEventRegistrationScalarFieldEnum
+		| Prisma.SpeedEventRegistrationScalarFieldEnum[];
+};
+
+/**
+ * SpeedEventRegistration findFirstOrThrow
+ */
+export type SpeedEventRegistrationFindFirstOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventRegistration to fetch.
+	 */
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventRegistrations to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for SpeedEventRegistrations.
+	 */
+	cursor?: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventRegistrations from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventRegistrations.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of SpeedEventRegistrations.
+	 */
+	distinct?:
+		| Prisma.SpeedEventRegistrationScalarFieldEnum
+		| Prisma.SpeedEventRegistrationScalarFieldEnum[];
+};
+
+/**
+ * SpeedEventRegistration findMany
+ */
+export type SpeedEventRegistrationFindManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+	/**
+	 * Filter, which SpeedEventRegistrations to fetch.
+	 */
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of SpeedEventRegistrations to fetch.
+	 */
+	orderBy?:
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for listing SpeedEventRegistrations.
+	 */
+	cursor?: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` SpeedEventRegistrations from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` SpeedEventRegistrations.
+	 */
+	skip?: number;
+	distinct?:
+		| Prisma.SpeedEventRegistrationScalarFieldEnum
+		| Prisma.SpeedEventRegistrationScalarFieldEnum[];
+};
+
+/**
+ * SpeedEventRegistration create
+ */
+export type SpeedEventRegistrationCreateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+	/**
+	 * The data needed to create a SpeedEventRegistration.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventRegistrationCreateInput,
+		Prisma.SpeedEventRegistrationUncheckedCreateInput
+	>;
+};
+
+/**
+ * SpeedEventRegistration createMany
+ */
+export type SpeedEventRegistrationCreateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to create many SpeedEventRegistrations.
+	 */
+	data:
+		| Prisma.SpeedEventRegistrationCreateManyInput
+		| Prisma.SpeedEventRegistrationCreateManyInput[];
+	skipDuplicates?: boolean;
+};
+
+/**
+ * SpeedEventRegistration createManyAndReturn
+ */
+export type SpeedEventRegistrationCreateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelectCreateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * The data used to create many SpeedEventRegistrations.
+	 */
+	data:
+		| Prisma.SpeedEventRegistrationCreateManyInput
+		| Prisma.SpeedEventRegistrationCreateManyInput[];
+	skipDuplicates?: boolean;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * SpeedEventRegistration update
+ */
+export type SpeedEventRegistrationUpdateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+	/**
+	 * The data needed to update a SpeedEventRegistration.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventRegistrationUpdateInput,
+		Prisma.SpeedEventRegistrationUncheckedUpdateInput
+	>;
+	/**
+	 * Choose, which SpeedEventRegistration to update.
+	 */
+	where: Prisma.SpeedEventRegistrationWhereUniqueInput;
+};
+
+/**
+ * SpeedEventRegistration updateMany
+ */
+export type SpeedEventRegistrationUpdateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to update SpeedEventRegistrations.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventRegistrationUpdateManyMutationInput,
+		Prisma.SpeedEventRegistrationUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which SpeedEventRegistrations to update
+	 */
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+	/**
+	 * Limit how many SpeedEventRegistrations to update.
+	 */
+	limit?: number;
+};
+
+/**
+ * SpeedEventRegistration updateManyAndReturn
+ */
+export type SpeedEventRegistrationUpdateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelectUpdateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * The data used to update SpeedEventRegistrations.
+	 */
+	data: Prisma.XOR<
+		Prisma.SpeedEventRegistrationUpdateManyMutationInput,
+		Prisma.SpeedEventRegistrationUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which SpeedEventRegistrations to update
+	 */
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+	/**
+	 * Limit how many SpeedEventRegistrations to update.
+	 */
+	limit?: number;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * SpeedEventRegistration upsert
+ */
+export type SpeedEventRegistrationUpsertArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+	/**
+	 * The filter to search for the SpeedEventRegistration to update in case it exists.
+	 */
+	where: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	/**
+	 * In case the SpeedEventRegistration found by the `where` argument doesn't exist, create a new SpeedEventRegistration with this data.
+	 */
+	create: Prisma.XOR<
+		Prisma.SpeedEventRegistrationCreateInput,
+		Prisma.SpeedEventRegistrationUncheckedCreateInput
+	>;
+	/**
+	 * In case the SpeedEventRegistration was found with the provided `where` argument, update it with this data.
+	 */
+	update: Prisma.XOR<
+		Prisma.SpeedEventRegistrationUpdateInput,
+		Prisma.SpeedEventRegistrationUncheckedUpdateInput
+	>;
+};
+
+/**
+ * SpeedEventRegistration delete
+ */
+export type SpeedEventRegistrationDeleteArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+	/**
+	 * Filter which SpeedEventRegistration to delete.
+	 */
+	where: Prisma.SpeedEventRegistrationWhereUniqueInput;
+};
+
+/**
+ * SpeedEventRegistration deleteMany
+ */
+export type SpeedEventRegistrationDeleteManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which SpeedEventRegistrations to delete
+	 */
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+	/**
+	 * Limit how many SpeedEventRegistrations to delete.
+	 */
+	limit?: number;
+};
+
+/**
+ * SpeedEventRegistration without action
+ */
+export type SpeedEventRegistrationDefaultArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+};
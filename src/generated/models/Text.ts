@@ -32,7 +32,10 @@ export type TextMinAggregateOutputType = {
 	receiverAnonId: string | null;
 	content: string | null;
 	sentAt: Date | null;
+	editedAt: Date | null;
+	deletedAt: Date | null;
 	roomId: string | null;
+	replyToId: string | null;
 };
 
 export type TextMaxAggregateOutputType = {
@@ -43,7 +46,10 @@ export type TextMaxAggregateOutputType = {
 	receiverAnonId: string | null;
 	content: string | null;
 	sentAt: Date | null;
+	editedAt: Date | null;
+	deletedAt: Date | null;
 	roomId: string | null;
+	replyToId: string | null;
 };
 
 export type TextCountAggregateOutputType = {
@@ -54,7 +60,10 @@ export type TextCountAggregateOutputType = {
 	receiverAnonId: number;
 	content: number;
 	sentAt: number;
+	editedAt: number;
+	deletedAt: number;
 	roomId: number;
+	replyToId: number;
 	_all: number;
 };
 
@@ -66,7 +75,10 @@ export type TextMinAggregateInputType = {
 	receiverAnonId?: true;
 	content?: true;
 	sentAt?: true;
+	editedAt?: true;
+	deletedAt?: true;
 	roomId?: true;
+	replyToId?: true;
 };
 
 export type TextMaxAggregateInputType = {
@@ -77,7 +89,10 @@ export type TextMaxAggregateInputType = {
 	receiverAnonId?: true;
 	content?: true;
 	sentAt?: true;
+	editedAt?: true;
+	deletedAt?: true;
 	roomId?: true;
+	replyToId?: true;
 };
 
 export type TextCountAggregateInputType = {
@@ -88,7 +103,10 @@ export type TextCountAggregateInputType = {
 	receiverAnonId?: true;
 	content?: true;
 	sentAt?: true;
+	editedAt?: true;
+	deletedAt?: true;
 	roomId?: true;
+	replyToId?: true;
 	_all?: true;
 };
 
@@ -179,7 +197,10 @@ export type TextGroupByOutputType = {
 	receiverAnonId: string;
 	content: string;
 	sentAt: Date;
+	editedAt: Date | null;
+	deletedAt: Date | null;
 	roomId: string;
+	replyToId: string | null;
 	_count: TextCountAggregateOutputType | null;
 	_min: TextMinAggregateOutputType | null;
 	_max: TextMaxAggregateOutputType | null;
@@ -208,7 +229,10 @@ export type TextWhereInput = {
 	receiverAnonId?: Prisma.StringFilter<"Text"> | string;
 	content?: Prisma.StringFilter<"Text"> | string;
 	sentAt?: Prisma.DateTimeFilter<"Text"> | Date | string;
+	editedAt?: Prisma.DateTimeNullableFilter<"Text"> | Date | string | null;
+	deletedAt?: Prisma.DateTimeNullableFilter<"Text"> | Date | string | null;
 	roomId?: Prisma.StringFilter<"Text"> | string;
+	replyToId?: Prisma.StringNullableFilter<"Text"> | string | null;
 	sender?: Prisma.XOR<
 		Prisma.UserNullableScalarRelationFilter,
 		Prisma.UserWhereInput
@@ -218,6 +242,12 @@ export type TextWhereInput = {
 		Prisma.UserWhereInput
 	> | null;
 	room?: Prisma.XOR<Prisma.RoomScalarRelationFilter, Prisma.RoomWhereInput>;
+	edits?: Prisma.TextEditListRelationFilter;
+	replyTo?: Prisma.XOR<
+		Prisma.TextNullableScalarRelationFilter,
+		Prisma.TextWhereInput
+	> | null;
+	replies?: Prisma.TextListRelationFilter;
 };
 
 export type TextOrderByWithRelationInput = {
@@ -228,10 +258,16 @@ export type TextOrderByWithRelationInput = {
 	receiverAnonId?: Prisma.SortOrder;
 	content?: Prisma.SortOrder;
 	sentAt?: Prisma.SortOrder;
+	editedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+	deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
 	roomId?: Prisma.SortOrder;
+	replyToId?: Prisma.SortOrderInput | Prisma.SortOrder;
 	sender?: Prisma.UserOrderByWithRelationInput;
 	receiver?: Prisma.UserOrderByWithRelationInput;
 	room?: Prisma.RoomOrderByWithRelationInput;
+	edits?: Prisma.TextEditOrderByRelationAggregateInput;
+	replyTo?: Prisma.TextOrderByWithRelationInput;
+	replies?: Prisma.TextOrderByRelationAggregateInput;
 };
 
 export type TextWhereUniqueInput = Prisma.AtLeast<
@@ -246,7 +282,10 @@ export type TextWhereUniqueInput = Prisma.AtLeast<
 		receiverAnonId?: Prisma.StringFilter<"Text"> | string;
 		content?: Prisma.StringFilter<"Text"> | string;
 		sentAt?: Prisma.DateTimeFilter<"Text"> | Date | string;
+		editedAt?: Prisma.DateTimeNullableFilter<"Text"> | Date | string | null;
+		deletedAt?: Prisma.DateTimeNullableFilter<"Text"> | Date | string | null;
 		roomId?: Prisma.StringFilter<"Text"> | string;
+		replyToId?: Prisma.StringNullableFilter<"Text"> | string | null;
 		sender?: Prisma.XOR<
 			Prisma.UserNullableScalarRelationFilter,
 			Prisma.UserWhereInput
@@ -256,6 +295,12 @@ export type TextWhereUniqueInput = Prisma.AtLeast<
 			Prisma.UserWhereInput
 		> | null;
 		room?: Prisma.XOR<Prisma.RoomScalarRelationFilter, Prisma.RoomWhereInput>;
+		edits?: Prisma.TextEditListRelationFilter;
+		replyTo?: Prisma.XOR<
+			Prisma.TextNullableScalarRelationFilter,
+			Prisma.TextWhereInput
+		> | null;
+		replies?: Prisma.TextListRelationFilter;
 	},
 	"id"
 >;
@@ -268,7 +313,10 @@ export type TextOrderByWithAggregationInput = {
 	receiverAnonId?: Prisma.SortOrder;
 	content?: Prisma.SortOrder;
 	sentAt?: Prisma.SortOrder;
+	editedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+	deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
 	roomId?: Prisma.SortOrder;
+	replyToId?: Prisma.SortOrderInput | Prisma.SortOrder;
 	_count?: Prisma.TextCountOrderByAggregateInput;
 	_max?: Prisma.TextMaxOrderByAggregateInput;
 	_min?: Prisma.TextMinOrderByAggregateInput;
@@ -292,7 +340,18 @@ export type TextScalarWhereWithAggregatesInput = {
 	receiverAnonId?: Prisma.StringWithAggregatesFilter<"Text"> | string;
 	content?: Prisma.StringWithAggregatesFilter<"Text"> | string;
 	sentAt?: Prisma.DateTimeWithAggregatesFilter<"Text"> | Date | string;
+	editedAt?:
+		| Prisma.DateTimeNullableWithAggregatesFilter<"Text">
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.DateTimeNullableWithAggregatesFilter<"Text">
+		| Date
+		| string
+		| null;
 	roomId?: Prisma.StringWithAggregatesFilter<"Text"> | string;
+	replyToId?: Prisma.StringNullableWithAggregatesFilter<"Text"> | string | null;
 };
 
 export type TextCreateInput = {
@@ -301,9 +360,14 @@ export type TextCreateInput = {
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
 	sender?: Prisma.UserCreateNestedOneWithoutSentTextsInput;
 	receiver?: Prisma.UserCreateNestedOneWithoutReceivedTextsInput;
 	room: Prisma.RoomCreateNestedOneWithoutMessagesInput;
+	edits?: Prisma.TextEditCreateNestedManyWithoutTextInput;
+	replyTo?: Prisma.TextCreateNestedOneWithoutRepliesInput;
+	replies?: Prisma.TextCreateNestedManyWithoutReplyToInput;
 };
 
 export type TextUncheckedCreateInput = {
@@ -314,7 +378,12 @@ export type TextUncheckedCreateInput = {
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
 	roomId: string;
+	replyToId?: string | null;
+	edits?: Prisma.TextEditUncheckedCreateNestedManyWithoutTextInput;
+	replies?: Prisma.TextUncheckedCreateNestedManyWithoutReplyToInput;
 };
 
 export type TextUpdateInput = {
@@ -323,9 +392,22 @@ export type TextUpdateInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
 	sender?: Prisma.UserUpdateOneWithoutSentTextsNestedInput;
 	receiver?: Prisma.UserUpdateOneWithoutReceivedTextsNestedInput;
 	room?: Prisma.RoomUpdateOneRequiredWithoutMessagesNestedInput;
+	edits?: Prisma.TextEditUpdateManyWithoutTextNestedInput;
+	replyTo?: Prisma.TextUpdateOneWithoutRepliesNestedInput;
+	replies?: Prisma.TextUpdateManyWithoutReplyToNestedInput;
 };
 
 export type TextUncheckedUpdateInput = {
@@ -336,7 +418,20 @@ export type TextUncheckedUpdateInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
 	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	replyToId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	edits?: Prisma.TextEditUncheckedUpdateManyWithoutTextNestedInput;
+	replies?: Prisma.TextUncheckedUpdateManyWithoutReplyToNestedInput;
 };
 
 export type TextCreateManyInput = {
@@ -347,7 +442,10 @@ export type TextCreateManyInput = {
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
 	roomId: string;
+	replyToId?: string | null;
 };
 
 export type TextUpdateManyMutationInput = {
@@ -356,6 +454,16 @@ export type TextUpdateManyMutationInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
 };
 
 export type TextUncheckedUpdateManyInput = {
@@ -366,7 +474,18 @@ export type TextUncheckedUpdateManyInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
 	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	replyToId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 };
 
 export type TextListRelationFilter = {
@@ -379,6 +498,11 @@ export type TextOrderByRelationAggregateInput = {
 	_count?: Prisma.SortOrder;
 };
 
+export type TextNullableScalarRelationFilter = {
+	is?: Prisma.TextWhereInput | null;
+	isNot?: Prisma.TextWhereInput | null;
+};
+
 export type TextCountOrderByAggregateInput = {
 	id?: Prisma.SortOrder;
 	senderId?: Prisma.SortOrder;
@@ -387,7 +511,10 @@ export type TextCountOrderByAggregateInput = {
 	receiverAnonId?: Prisma.SortOrder;
 	content?: Prisma.SortOrder;
 	sentAt?: Prisma.SortOrder;
+	editedAt?: Prisma.SortOrder;
+	deletedAt?: Prisma.SortOrder;
 	roomId?: Prisma.SortOrder;
+	replyToId?: Prisma.SortOrder;
 };
 
 export type TextMaxOrderByAggregateInput = {
@@ -398,7 +525,10 @@ export type TextMaxOrderByAggregateInput = {
 	receiverAnonId?: Prisma.SortOrder;
 	content?: Prisma.SortOrder;
 	sentAt?: Prisma.SortOrder;
+	editedAt?: Prisma.SortOrder;
+	deletedAt?: Prisma.SortOrder;
 	roomId?: Prisma.SortOrder;
+	replyToId?: Prisma.SortOrder;
 };
 
 export type TextMinOrderByAggregateInput = {
@@ -409,7 +539,15 @@ export type TextMinOrderByAggregateInput = {
 	receiverAnonId?: Prisma.SortOrder;
 	content?: Prisma.SortOrder;
 	sentAt?: Prisma.SortOrder;
+	editedAt?: Prisma.SortOrder;
+	deletedAt?: Prisma.SortOrder;
 	roomId?: Prisma.SortOrder;
+	replyToId?: Prisma.SortOrder;
+};
+
+export type TextScalarRelationFilter = {
+	is?: Prisma.TextWhereInput;
+	isNot?: Prisma.TextWhereInput;
 };
 
 export type TextCreateNestedManyWithoutSenderInput = {
@@ -584,6 +722,146 @@ export type TextUncheckedUpdateManyWithoutReceiverNestedInput = {
 	deleteMany?: Prisma.TextScalarWhereInput | Prisma.TextScalarWhereInput[];
 };
 
+export type TextCreateNestedOneWithoutRepliesInput = {
+	create?: Prisma.XOR<
+		Prisma.TextCreateWithoutRepliesInput,
+		Prisma.TextUncheckedCreateWithoutRepliesInput
+	>;
+	connectOrCreate?: Prisma.TextCreateOrConnectWithoutRepliesInput;
+	connect?: Prisma.TextWhereUniqueInput;
+};
+
+export type TextCreateNestedManyWithoutReplyToInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.TextCreateWithoutReplyToInput,
+				Prisma.TextUncheckedCreateWithoutReplyToInput
+		  >
+		| Prisma.TextCreateWithoutReplyToInput[]
+		| Prisma.TextUncheckedCreateWithoutReplyToInput[];
+	connectOrCreate?:
+		| Prisma.TextCreateOrConnectWithoutReplyToInput
+		| Prisma.TextCreateOrConnectWithoutReplyToInput[];
+	createMany?: Prisma.TextCreateManyReplyToInputEnvelope;
+	connect?: Prisma.TextWhereUniqueInput | Prisma.TextWhereUniqueInput[];
+};
+
+export type TextUncheckedCreateNestedManyWithoutReplyToInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.TextCreateWithoutReplyToInput,
+				Prisma.TextUncheckedCreateWithoutReplyToInput
+		  >
+		| Prisma.TextCreateWithoutReplyToInput[]
+		| Prisma.TextUncheckedCreateWithoutReplyToInput[];
+	connectOrCreate?:
+		| Prisma.TextCreateOrConnectWithoutReplyToInput
+		| Prisma.TextCreateOrConnectWithoutReplyToInput[];
+	createMany?: Prisma.TextCreateManyReplyToInputEnvelope;
+	connect?: Prisma.TextWhereUniqueInput | Prisma.TextWhereUniqueInput[];
+};
+
+export type TextUpdateOneWithoutRepliesNestedInput = {
+	create?: Prisma.XOR<
+		Prisma.TextCreateWithoutRepliesInput,
+		Prisma.TextUncheckedCreateWithoutRepliesInput
+	>;
+	connectOrCreate?: Prisma.TextCreateOrConnectWithoutRepliesInput;
+	upsert?: Prisma.TextUpsertWithoutRepliesInput;
+	disconnect?: Prisma.TextWhereInput | boolean;
+	delete?: Prisma.TextWhereInput | boolean;
+	connect?: Prisma.TextWhereUniqueInput;
+	update?: Prisma.XOR<
+		Prisma.XOR<
+			Prisma.TextUpdateToOneWithWhereWithoutRepliesInput,
+			Prisma.TextUpdateWithoutRepliesInput
+		>,
+		Prisma.TextUncheckedUpdateWithoutRepliesInput
+	>;
+};
+
+export type TextUpdateManyWithoutReplyToNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.TextCreateWithoutReplyToInput,
+				Prisma.TextUncheckedCreateWithoutReplyToInput
+		  >
+		| Prisma.TextCreateWithoutReplyToInput[]
+		| Prisma.TextUncheckedCreateWithoutReplyToInput[];
+	connectOrCreate?:
+		| Prisma.TextCreateOrConnectWithoutReplyToInput
+		| Prisma.TextCreateOrConnectWithoutReplyToInput[];
+	upsert?:
+		| Prisma.TextUpsertWithWhereUniqueWithoutReplyToInput
+		| Prisma.TextUpsertWithWhereUniqueWithoutReplyToInput[];
+	createMany?: Prisma.TextCreateManyReplyToInputEnvelope;
+	set?: Prisma.TextWhereUniqueInput | Prisma.TextWhereUniqueInput[];
+	disconnect?: Prisma.TextWhereUniqueInput | Prisma.TextWhereUniqueInput[];
+	delete?: Prisma.TextWhereUniqueInput | Prisma.TextWhereUniqueInput[];
+	connect?: Prisma.TextWhereUniqueInput | Prisma.TextWhereUniqueInput[];
+	update?:
+		| Prisma.TextUpdateWithWhereUniqueWithoutReplyToInput
+		| Prisma.TextUpdateWithWhereUniqueWithoutReplyToInput[];
+	updateMany?:
+		| Prisma.TextUpdateManyWithWhereWithoutReplyToInput
+		| Prisma.TextUpdateManyWithWhereWithoutReplyToInput[];
+	deleteMany?: Prisma.TextScalarWhereInput | Prisma.TextScalarWhereInput[];
+};
+
+export type TextUncheckedUpdateManyWithoutReplyToNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.TextCreateWithoutReplyToInput,
+				Prisma.TextUncheckedCreateWithoutReplyToInput
+		  >
+		| Prisma.TextCreateWithoutReplyToInput[]
+		| Prisma.TextUncheckedCreateWithoutReplyToInput[];
+	connectOrCreate?:
+		| Prisma.TextCreateOrConnectWithoutReplyToInput
+		| Prisma.TextCreateOrConnectWithoutReplyToInput[];
+	upsert?:
+		| Prisma.TextUpsertWithWhereUniqueWithoutReplyToInput
+		| Prisma.TextUpsertWithWhereUniqueWithoutReplyToInput[];
+	createMany?: Prisma.TextCreateManyReplyToInputEnvelope;
+	set?: Prisma.TextWhereUniqueInput | Prisma.TextWhereUniqueInput[];
+	disconnect?: Prisma.TextWhereUniqueInput | Prisma.TextWhereUniqueInput[];
+	delete?: Prisma.TextWhereUniqueInput | Prisma.TextWhereUniqueInput[];
+	connect?: Prisma.TextWhereUniqueInput | Prisma.TextWhereUniqueInput[];
+	update?:
+		| Prisma.TextUpdateWithWhereUniqueWithoutReplyToInput
+		| Prisma.TextUpdateWithWhereUniqueWithoutReplyToInput[];
+	updateMany?:
+		| Prisma.TextUpdateManyWithWhereWithoutReplyToInput
+		| Prisma.TextUpdateManyWithWhereWithoutReplyToInput[];
+	deleteMany?: Prisma.TextScalarWhereInput | Prisma.TextScalarWhereInput[];
+};
+
+export type TextCreateNestedOneWithoutEditsInput = {
+	create?: Prisma.XOR<
+		Prisma.TextCreateWithoutEditsInput,
+		Prisma.TextUncheckedCreateWithoutEditsInput
+	>;
+	connectOrCreate?: Prisma.TextCreateOrConnectWithoutEditsInput;
+	connect?: Prisma.TextWhereUniqueInput;
+};
+
+export type TextUpdateOneRequiredWithoutEditsNestedInput = {
+	create?: Prisma.XOR<
+		Prisma.TextCreateWithoutEditsInput,
+		Prisma.TextUncheckedCreateWithoutEditsInput
+	>;
+	connectOrCreate?: Prisma.TextCreateOrConnectWithoutEditsInput;
+	upsert?: Prisma.TextUpsertWithoutEditsInput;
+	connect?: Prisma.TextWhereUniqueInput;
+	update?: Prisma.XOR<
+		Prisma.XOR<
+			Prisma.TextUpdateToOneWithWhereWithoutEditsInput,
+			Prisma.TextUpdateWithoutEditsInput
+		>,
+		Prisma.TextUncheckedUpdateWithoutEditsInput
+	>;
+};
+
 export type TextCreateNestedManyWithoutRoomInput = {
 	create?:
 		| Prisma.XOR<
@@ -676,8 +954,13 @@ export type TextCreateWithoutSenderInput = {
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
 	receiver?: Prisma.UserCreateNestedOneWithoutReceivedTextsInput;
 	room: Prisma.RoomCreateNestedOneWithoutMessagesInput;
+	edits?: Prisma.TextEditCreateNestedManyWithoutTextInput;
+	replyTo?: Prisma.TextCreateNestedOneWithoutRepliesInput;
+	replies?: Prisma.TextCreateNestedManyWithoutReplyToInput;
 };
 
 export type TextUncheckedCreateWithoutSenderInput = {
@@ -687,7 +970,12 @@ export type TextUncheckedCreateWithoutSenderInput = {
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
 	roomId: string;
+	replyToId?: string | null;
+	edits?: Prisma.TextEditUncheckedCreateNestedManyWithoutTextInput;
+	replies?: Prisma.TextUncheckedCreateNestedManyWithoutReplyToInput;
 };
 
 export type TextCreateOrConnectWithoutSenderInput = {
@@ -709,8 +997,13 @@ export type TextCreateWithoutReceiverInput = {
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
 	sender?: Prisma.UserCreateNestedOneWithoutSentTextsInput;
 	room: Prisma.RoomCreateNestedOneWithoutMessagesInput;
+	edits?: Prisma.TextEditCreateNestedManyWithoutTextInput;
+	replyTo?: Prisma.TextCreateNestedOneWithoutRepliesInput;
+	replies?: Prisma.TextCreateNestedManyWithoutReplyToInput;
 };
 
 export type TextUncheckedCreateWithoutReceiverInput = {
@@ -720,7 +1013,12 @@ export type TextUncheckedCreateWithoutReceiverInput = {
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
 	roomId: string;
+	replyToId?: string | null;
+	edits?: Prisma.TextEditUncheckedCreateNestedManyWithoutTextInput;
+	replies?: Prisma.TextUncheckedCreateNestedManyWithoutReplyToInput;
 };
 
 export type TextCreateOrConnectWithoutReceiverInput = {
@@ -777,7 +1075,10 @@ export type TextScalarWhereInput = {
 	receiverAnonId?: Prisma.StringFilter<"Text"> | string;
 	content?: Prisma.StringFilter<"Text"> | string;
 	sentAt?: Prisma.DateTimeFilter<"Text"> | Date | string;
+	editedAt?: Prisma.DateTimeNullableFilter<"Text"> | Date | string | null;
+	deletedAt?: Prisma.DateTimeNullableFilter<"Text"> | Date | string | null;
 	roomId?: Prisma.StringFilter<"Text"> | string;
+	replyToId?: Prisma.StringNullableFilter<"Text"> | string | null;
 };
 
 export type TextUpsertWithWhereUniqueWithoutReceiverInput = {
@@ -808,14 +1109,298 @@ export type TextUpdateManyWithWhereWithoutReceiverInput = {
 	>;
 };
 
+export type TextCreateWithoutRepliesInput = {
+	id?: string;
+	senderAnonId: string;
+	receiverAnonId: string;
+	content: string;
+	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
+	sender?: Prisma.UserCreateNestedOneWithoutSentTextsInput;
+	receiver?: Prisma.UserCreateNestedOneWithoutReceivedTextsInput;
+	room: Prisma.RoomCreateNestedOneWithoutMessagesInput;
+	edits?: Prisma.TextEditCreateNestedManyWithoutTextInput;
+	replyTo?: Prisma.TextCreateNestedOneWithoutRepliesInput;
+};
+
+export type TextUncheckedCreateWithoutRepliesInput = {
+	id?: string;
+	senderId?: string | null;
+	receiverId?: string | null;
+	senderAnonId: string;
+	receiverAnonId: string;
+	content: string;
+	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
+	roomId: string;
+	replyToId?: string | null;
+	edits?: Prisma.TextEditUncheckedCreateNestedManyWithoutTextInput;
+};
+
+export type TextCreateOrConnectWithoutRepliesInput = {
+	where: Prisma.TextWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.TextCreateWithoutRepliesInput,
+		Prisma.TextUncheckedCreateWithoutRepliesInput
+	>;
+};
+
+export type TextCreateWithoutReplyToInput = {
+	id?: string;
+	senderAnonId: string;
+	receiverAnonId: string;
+	content: string;
+	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
+	sender?: Prisma.UserCreateNestedOneWithoutSentTextsInput;
+	receiver?: Prisma.UserCreateNestedOneWithoutReceivedTextsInput;
+	room: Prisma.RoomCreateNestedOneWithoutMessagesInput;
+	edits?: Prisma.TextEditCreateNestedManyWithoutTextInput;
+	replies?: Prisma.TextCreateNestedManyWithoutReplyToInput;
+};
+
+export type TextUncheckedCreateWithoutReplyToInput = {
+	id?: string;
+	senderId?: string | null;
+	receiverId?: string | null;
+	senderAnonId: string;
+	receiverAnonId: string;
+	content: string;
+	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
+	roomId: string;
+	edits?: Prisma.TextEditUncheckedCreateNestedManyWithoutTextInput;
+	replies?: Prisma.TextUncheckedCreateNestedManyWithoutReplyToInput;
+};
+
+export type TextCreateOrConnectWithoutReplyToInput = {
+	where: Prisma.TextWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.TextCreateWithoutReplyToInput,
+		Prisma.TextUncheckedCreateWithoutReplyToInput
+	>;
+};
+
+export type TextCreateManyReplyToInputEnvelope = {
+	data: Prisma.TextCreateManyReplyToInput | Prisma.TextCreateManyReplyToInput[];
+	skipDuplicates?: boolean;
+};
+
+export type TextUpsertWithoutRepliesInput = {
+	update: Prisma.XOR<
+		Prisma.TextUpdateWithoutRepliesInput,
+		Prisma.TextUncheckedUpdateWithoutRepliesInput
+	>;
+	create: Prisma.XOR<
+		Prisma.TextCreateWithoutRepliesInput,
+		Prisma.TextUncheckedCreateWithoutRepliesInput
+	>;
+	where?: Prisma.TextWhereInput;
+};
+
+export type TextUpdateToOneWithWhereWithoutRepliesInput = {
+	where?: Prisma.TextWhereInput;
+	data: Prisma.XOR<
+		Prisma.TextUpdateWithoutRepliesInput,
+		Prisma.TextUncheckedUpdateWithoutRepliesInput
+	>;
+};
+
+export type TextUpdateWithoutRepliesInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	senderAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	sender?: Prisma.UserUpdateOneWithoutSentTextsNestedInput;
+	receiver?: Prisma.UserUpdateOneWithoutReceivedTextsNestedInput;
+	room?: Prisma.RoomUpdateOneRequiredWithoutMessagesNestedInput;
+	edits?: Prisma.TextEditUpdateManyWithoutTextNestedInput;
+	replyTo?: Prisma.TextUpdateOneWithoutRepliesNestedInput;
+};
+
+export type TextUncheckedUpdateWithoutRepliesInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	senderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	receiverId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	senderAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	replyToId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	edits?: Prisma.TextEditUncheckedUpdateManyWithoutTextNestedInput;
+};
+
+export type TextUpsertWithWhereUniqueWithoutReplyToInput = {
+	where: Prisma.TextWhereUniqueInput;
+	update: Prisma.XOR<
+		Prisma.TextUpdateWithoutReplyToInput,
+		Prisma.TextUncheckedUpdateWithoutReplyToInput
+	>;
+	create: Prisma.XOR<
+		Prisma.TextCreateWithoutReplyToInput,
+		Prisma.TextUncheckedCreateWithoutReplyToInput
+	>;
+};
+
+export type TextUpdateWithWhereUniqueWithoutReplyToInput = {
+	where: Prisma.TextWhereUniqueInput;
+	data: Prisma.XOR<
+		Prisma.TextUpdateWithoutReplyToInput,
+		Prisma.TextUncheckedUpdateWithoutReplyToInput
+	>;
+};
+
+export type TextUpdateManyWithWhereWithoutReplyToInput = {
+	where: Prisma.TextScalarWhereInput;
+	data: Prisma.XOR<
+		Prisma.TextUpdateManyMutationInput,
+		Prisma.TextUncheckedUpdateManyWithoutReplyToInput
+	>;
+};
+
+export type TextCreateWithoutEditsInput = {
+	id?: string;
+	senderAnonId: string;
+	receiverAnonId: string;
+	content: string;
+	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
+	sender?: Prisma.UserCreateNestedOneWithoutSentTextsInput;
+	receiver?: Prisma.UserCreateNestedOneWithoutReceivedTextsInput;
+	room: Prisma.RoomCreateNestedOneWithoutMessagesInput;
+	replyTo?: Prisma.TextCreateNestedOneWithoutRepliesInput;
+	replies?: Prisma.TextCreateNestedManyWithoutReplyToInput;
+};
+
+export type TextUncheckedCreateWithoutEditsInput = {
+	id?: string;
+	senderId?: string | null;
+	receiverId?: string | null;
+	senderAnonId: string;
+	receiverAnonId: string;
+	content: string;
+	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
+	roomId: string;
+	replyToId?: string | null;
+	replies?: Prisma.TextUncheckedCreateNestedManyWithoutReplyToInput;
+};
+
+export type TextCreateOrConnectWithoutEditsInput = {
+	where: Prisma.TextWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.TextCreateWithoutEditsInput,
+		Prisma.TextUncheckedCreateWithoutEditsInput
+	>;
+};
+
+export type TextUpsertWithoutEditsInput = {
+	update: Prisma.XOR<
+		Prisma.TextUpdateWithoutEditsInput,
+		Prisma.TextUncheckedUpdateWithoutEditsInput
+	>;
+	create: Prisma.XOR<
+		Prisma.TextCreateWithoutEditsInput,
+		Prisma.TextUncheckedCreateWithoutEditsInput
+	>;
+	where?: Prisma.TextWhereInput;
+};
+
+export type TextUpdateToOneWithWhereWithoutEditsInput = {
+	where?: Prisma.TextWhereInput;
+	data: Prisma.XOR<
+		Prisma.TextUpdateWithoutEditsInput,
+		Prisma.TextUncheckedUpdateWithoutEditsInput
+	>;
+};
+
+export type TextUpdateWithoutEditsInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	senderAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	sender?: Prisma.UserUpdateOneWithoutSentTextsNestedInput;
+	receiver?: Prisma.UserUpdateOneWithoutReceivedTextsNestedInput;
+	room?: Prisma.RoomUpdateOneRequiredWithoutMessagesNestedInput;
+	replyTo?: Prisma.TextUpdateOneWithoutRepliesNestedInput;
+	replies?: Prisma.TextUpdateManyWithoutReplyToNestedInput;
+};
+
+export type TextUncheckedUpdateWithoutEditsInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	senderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	receiverId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	senderAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	replyToId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	replies?: Prisma.TextUncheckedUpdateManyWithoutReplyToNestedInput;
+};
+
 export type TextCreateWithoutRoomInput = {
 	id?: string;
 	senderAnonId: string;
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
 	sender?: Prisma.UserCreateNestedOneWithoutSentTextsInput;
 	receiver?: Prisma.UserCreateNestedOneWithoutReceivedTextsInput;
+	edits?: Prisma.TextEditCreateNestedManyWithoutTextInput;
+	replyTo?: Prisma.TextCreateNestedOneWithoutRepliesInput;
+	replies?: Prisma.TextCreateNestedManyWithoutReplyToInput;
 };
 
 export type TextUncheckedCreateWithoutRoomInput = {
@@ -826,6 +1411,11 @@ export type TextUncheckedCreateWithoutRoomInput = {
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
+	replyToId?: string | null;
+	edits?: Prisma.TextEditUncheckedCreateNestedManyWithoutTextInput;
+	replies?: Prisma.TextUncheckedCreateNestedManyWithoutReplyToInput;
 };
 
 export type TextCreateOrConnectWithoutRoomInput = {
@@ -876,7 +1466,10 @@ export type TextCreateManySenderInput = {
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
 	roomId: string;
+	replyToId?: string | null;
 };
 
 export type TextCreateManyReceiverInput = {
@@ -886,7 +1479,10 @@ export type TextCreateManyReceiverInput = {
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
 	roomId: string;
+	replyToId?: string | null;
 };
 
 export type TextUpdateWithoutSenderInput = {
@@ -895,8 +1491,21 @@ export type TextUpdateWithoutSenderInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
 	receiver?: Prisma.UserUpdateOneWithoutReceivedTextsNestedInput;
 	room?: Prisma.RoomUpdateOneRequiredWithoutMessagesNestedInput;
+	edits?: Prisma.TextEditUpdateManyWithoutTextNestedInput;
+	replyTo?: Prisma.TextUpdateOneWithoutRepliesNestedInput;
+	replies?: Prisma.TextUpdateManyWithoutReplyToNestedInput;
 };
 
 export type TextUncheckedUpdateWithoutSenderInput = {
@@ -906,7 +1515,20 @@ export type TextUncheckedUpdateWithoutSenderInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
 	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	replyToId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	edits?: Prisma.TextEditUncheckedUpdateManyWithoutTextNestedInput;
+	replies?: Prisma.TextUncheckedUpdateManyWithoutReplyToNestedInput;
 };
 
 export type TextUncheckedUpdateManyWithoutSenderInput = {
@@ -916,7 +1538,18 @@ export type TextUncheckedUpdateManyWithoutSenderInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
 	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	replyToId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
 };
 
 export type TextUpdateWithoutReceiverInput = {
@@ -925,8 +1558,21 @@ export type TextUpdateWithoutReceiverInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
 	sender?: Prisma.UserUpdateOneWithoutSentTextsNestedInput;
 	room?: Prisma.RoomUpdateOneRequiredWithoutMessagesNestedInput;
+	edits?: Prisma.TextEditUpdateManyWithoutTextNestedInput;
+	replyTo?: Prisma.TextUpdateOneWithoutRepliesNestedInput;
+	replies?: Prisma.TextUpdateManyWithoutReplyToNestedInput;
 };
 
 export type TextUncheckedUpdateWithoutReceiverInput = {
@@ -936,7 +1582,20 @@ export type TextUncheckedUpdateWithoutReceiverInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
 	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	replyToId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	edits?: Prisma.TextEditUncheckedUpdateManyWithoutTextNestedInput;
+	replies?: Prisma.TextUncheckedUpdateManyWithoutReplyToNestedInput;
 };
 
 export type TextUncheckedUpdateManyWithoutReceiverInput = {
@@ -946,6 +1605,97 @@ export type TextUncheckedUpdateManyWithoutReceiverInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	replyToId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+};
+
+export type TextCreateManyReplyToInput = {
+	id?: string;
+	senderId?: string | null;
+	receiverId?: string | null;
+	senderAnonId: string;
+	receiverAnonId: string;
+	content: string;
+	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
+	roomId: string;
+};
+
+export type TextUpdateWithoutReplyToInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	senderAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	sender?: Prisma.UserUpdateOneWithoutSentTextsNestedInput;
+	receiver?: Prisma.UserUpdateOneWithoutReceivedTextsNestedInput;
+	room?: Prisma.RoomUpdateOneRequiredWithoutMessagesNestedInput;
+	edits?: Prisma.TextEditUpdateManyWithoutTextNestedInput;
+	replies?: Prisma.TextUpdateManyWithoutReplyToNestedInput;
+};
+
+export type TextUncheckedUpdateWithoutReplyToInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	senderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	receiverId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	senderAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
+	edits?: Prisma.TextEditUncheckedUpdateManyWithoutTextNestedInput;
+	replies?: Prisma.TextUncheckedUpdateManyWithoutReplyToNestedInput;
+};
+
+export type TextUncheckedUpdateManyWithoutReplyToInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	senderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	receiverId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	senderAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
 	roomId?: Prisma.StringFieldUpdateOperationsInput | string;
 };
 
@@ -957,6 +1707,9 @@ export type TextCreateManyRoomInput = {
 	receiverAnonId: string;
 	content: string;
 	sentAt?: Date | string;
+	editedAt?: Date | string | null;
+	deletedAt?: Date | string | null;
+	replyToId?: string | null;
 };
 
 export type TextUpdateWithoutRoomInput = {
@@ -965,8 +1718,21 @@ export type TextUpdateWithoutRoomInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
 	sender?: Prisma.UserUpdateOneWithoutSentTextsNestedInput;
 	receiver?: Prisma.UserUpdateOneWithoutReceivedTextsNestedInput;
+	edits?: Prisma.TextEditUpdateManyWithoutTextNestedInput;
+	replyTo?: Prisma.TextUpdateOneWithoutRepliesNestedInput;
+	replies?: Prisma.TextUpdateManyWithoutReplyToNestedInput;
 };
 
 export type TextUncheckedUpdateWithoutRoomInput = {
@@ -977,6 +1743,19 @@ export type TextUncheckedUpdateWithoutRoomInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	replyToId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	edits?: Prisma.TextEditUncheckedUpdateManyWithoutTextNestedInput;
+	replies?: Prisma.TextUncheckedUpdateManyWithoutReplyToNestedInput;
 };
 
 export type TextUncheckedUpdateManyWithoutRoomInput = {
@@ -987,6 +1766,67 @@ export type TextUncheckedUpdateManyWithoutRoomInput = {
 	receiverAnonId?: Prisma.StringFieldUpdateOperationsInput | string;
 	content?: Prisma.StringFieldUpdateOperationsInput | string;
 	sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	editedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	deletedAt?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	replyToId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+};
+
+/**
+ * Count Type TextCountOutputType
+ */
+
+export type TextCountOutputType = {
+	edits: number;
+	replies: number;
+};
+
+export type TextCountOutputTypeSelect<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	edits?: boolean | TextCountOutputTypeCountEditsArgs;
+	replies?: boolean | TextCountOutputTypeCountRepliesArgs;
+};
+
+/**
+ * TextCountOutputType without action
+ */
+export type TextCountOutputTypeDefaultArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextCountOutputType
+	 */
+	select?: Prisma.TextCountOutputTypeSelect<ExtArgs> | null;
+};
+
+/**
+ * TextCountOutputType without action
+ */
+export type TextCountOutputTypeCountEditsArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.TextEditWhereInput;
+};
+
+/**
+ * TextCountOutputType without action
+ */
+export type TextCountOutputTypeCountRepliesArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.TextWhereInput;
 };
 
 export type TextSelect<
@@ -1001,10 +1841,17 @@ export type TextSelect<
 		receiverAnonId?: boolean;
 		content?: boolean;
 		sentAt?: boolean;
+		editedAt?: boolean;
+		deletedAt?: boolean;
 		roomId?: boolean;
+		replyToId?: boolean;
 		sender?: boolean | Prisma.Text$senderArgs<ExtArgs>;
 		receiver?: boolean | Prisma.Text$receiverArgs<ExtArgs>;
 		room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+		edits?: boolean | Prisma.Text$editsArgs<ExtArgs>;
+		replyTo?: boolean | Prisma.Text$replyToArgs<ExtArgs>;
+		replies?: boolean | Prisma.Text$repliesArgs<ExtArgs>;
+		_count?: boolean | Prisma.TextCountOutputTypeDefaultArgs<ExtArgs>;
 	},
 	ExtArgs["result"]["text"]
 >;
@@ -1021,10 +1868,14 @@ export type TextSelectCreateManyAndReturn<
 		receiverAnonId?: boolean;
 		content?: boolean;
 		sentAt?: boolean;
+		editedAt?: boolean;
+		deletedAt?: boolean;
 		roomId?: boolean;
+		replyToId?: boolean;
 		sender?: boolean | Prisma.Text$senderArgs<ExtArgs>;
 		receiver?: boolean | Prisma.Text$receiverArgs<ExtArgs>;
 		room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+		replyTo?: boolean | Prisma.Text$replyToArgs<ExtArgs>;
 	},
 	ExtArgs["result"]["text"]
 >;
@@ -1041,10 +1892,14 @@ export type TextSelectUpdateManyAndReturn<
 		receiverAnonId?: boolean;
 		content?: boolean;
 		sentAt?: boolean;
+		editedAt?: boolean;
+		deletedAt?: boolean;
 		roomId?: boolean;
+		replyToId?: boolean;
 		sender?: boolean | Prisma.Text$senderArgs<ExtArgs>;
 		receiver?: boolean | Prisma.Text$receiverArgs<ExtArgs>;
 		room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+		replyTo?: boolean | Prisma.Text$replyToArgs<ExtArgs>;
 	},
 	ExtArgs["result"]["text"]
 >;
@@ -1057,7 +1912,10 @@ export type TextSelectScalar = {
 	receiverAnonId?: boolean;
 	content?: boolean;
 	sentAt?: boolean;
+	editedAt?: boolean;
+	deletedAt?: boolean;
 	roomId?: boolean;
+	replyToId?: boolean;
 };
 
 export type TextOmit<
@@ -1071,7 +1929,10 @@ export type TextOmit<
 	| "receiverAnonId"
 	| "content"
 	| "sentAt"
-	| "roomId",
+	| "editedAt"
+	| "deletedAt"
+	| "roomId"
+	| "replyToId",
 	ExtArgs["result"]["text"]
 >;
 export type TextInclude<
@@ -1081,6 +1942,10 @@ export type TextInclude<
 	sender?: boolean | Prisma.Text$senderArgs<ExtArgs>;
 	receiver?: boolean | Prisma.Text$receiverArgs<ExtArgs>;
 	room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+	edits?: boolean | Prisma.Text$editsArgs<ExtArgs>;
+	replyTo?: boolean | Prisma.Text$replyToArgs<ExtArgs>;
+	replies?: boolean | Prisma.Text$repliesArgs<ExtArgs>;
+	_count?: boolean | Prisma.TextCountOutputTypeDefaultArgs<ExtArgs>;
 };
 export type TextIncludeCreateManyAndReturn<
 	ExtArgs extends
@@ -1089,6 +1954,7 @@ export type TextIncludeCreateManyAndReturn<
 	sender?: boolean | Prisma.Text$senderArgs<ExtArgs>;
 	receiver?: boolean | Prisma.Text$receiverArgs<ExtArgs>;
 	room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+	replyTo?: boolean | Prisma.Text$replyToArgs<ExtArgs>;
 };
 export type TextIncludeUpdateManyAndReturn<
 	ExtArgs extends
@@ -1097,6 +1963,7 @@ export type TextIncludeUpdateManyAndReturn<
 	sender?: boolean | Prisma.Text$senderArgs<ExtArgs>;
 	receiver?: boolean | Prisma.Text$receiverArgs<ExtArgs>;
 	room?: boolean | Prisma.RoomDefaultArgs<ExtArgs>;
+	replyTo?: boolean | Prisma.Text$replyToArgs<ExtArgs>;
 };
 
 export type $TextPayload<
@@ -1108,6 +1975,9 @@ export type $TextPayload<
 		sender: Prisma.$UserPayload<ExtArgs> | null;
 		receiver: Prisma.$UserPayload<ExtArgs> | null;
 		room: Prisma.$RoomPayload<ExtArgs>;
+		edits: Prisma.$TextEditPayload<ExtArgs>[];
+		replyTo: Prisma.$TextPayload<ExtArgs> | null;
+		replies: Prisma.$TextPayload<ExtArgs>[];
 	};
 	scalars: runtime.Types.Extensions.GetPayloadResult<
 		{
@@ -1118,7 +1988,10 @@ export type $TextPayload<
 			receiverAnonId: string;
 			content: string;
 			sentAt: Date;
+			editedAt: Date | null;
+			deletedAt: Date | null;
 			roomId: string;
+			replyToId: string | null;
 		},
 		ExtArgs["result"]["text"]
 	>;
@@ -1709,6 +2582,41 @@ export interface Prisma__TextClient<
 		ExtArgs,
 		GlobalOmitOptions
 	>;
+	edits<T extends Prisma.Text$editsArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.Text$editsArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		| runtime.Types.Result.GetResult<
+				Prisma.$TextEditPayload<ExtArgs>,
+				T,
+				"findMany",
+				GlobalOmitOptions
+		  >
+		| Null
+	>;
+	replyTo<T extends Prisma.Text$replyToArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.Text$replyToArgs<ExtArgs>>,
+	): Prisma.Prisma__TextClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextPayload<ExtArgs>,
+			T,
+			"findUniqueOrThrow",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+	replies<T extends Prisma.Text$repliesArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.Text$repliesArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		| runtime.Types.Result.GetResult<
+				Prisma.$TextPayload<ExtArgs>,
+				T,
+				"findMany",
+				GlobalOmitOptions
+		  >
+		| Null
+	>;
 	/**
 	 * Attaches callbacks for the resolution and/or rejection of the Promise.
 	 * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1758,7 +2666,10 @@ export interface TextFieldRefs {
 	readonly receiverAnonId: Prisma.FieldRef<"Text", "String">;
 	readonly content: Prisma.FieldRef<"Text", "String">;
 	readonly sentAt: Prisma.FieldRef<"Text", "DateTime">;
+	readonly editedAt: Prisma.FieldRef<"Text", "DateTime">;
+	readonly deletedAt: Prisma.FieldRef<"Text", "DateTime">;
 	readonly roomId: Prisma.FieldRef<"Text", "String">;
+	readonly replyToId: Prisma.FieldRef<"Text", "String">;
 }
 
 // Custom InputTypes
@@ -2251,6 +3162,86 @@ export type Text$receiverArgs<
 	where?: Prisma.UserWhereInput;
 };
 
+/**
+ * Text.edits
+ */
+export type Text$editsArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditInclude<ExtArgs> | null;
+	where?: Prisma.TextEditWhereInput;
+	orderBy?:
+		| Prisma.TextEditOrderByWithRelationInput
+		| Prisma.TextEditOrderByWithRelationInput[];
+	cursor?: Prisma.TextEditWhereUniqueInput;
+	take?: number;
+	skip?: number;
+	distinct?: Prisma.TextEditScalarFieldEnum | Prisma.TextEditScalarFieldEnum[];
+};
+
+/**
+ * Text.replyTo
+ */
+export type Text$replyToArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Text
+	 */
+	select?: Prisma.TextSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Text
+	 */
+	omit?: Prisma.TextOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextInclude<ExtArgs> | null;
+	where?: Prisma.TextWhereInput;
+};
+
+/**
+ * Text.replies
+ */
+export type Text$repliesArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Text
+	 */
+	select?: Prisma.TextSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Text
+	 */
+	omit?: Prisma.TextOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextInclude<ExtArgs> | null;
+	where?: Prisma.TextWhereInput;
+	orderBy?:
+		| Prisma.TextOrderByWithRelationInput
+		| Prisma.TextOrderByWithRelationInput[];
+	cursor?: Prisma.TextWhereUniqueInput;
+	take?: number;
+	skip?: number;
+	distinct?: Prisma.TextScalarFieldEnum | Prisma.TextScalarFieldEnum[];
+};
+
 /**
  * Text without action
  */
@@ -0,0 +1,1670 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `TextEdit` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model TextEdit
+ *
+ */
+export type TextEditModel =
+	runtime.Types.Result.DefaultSelection<Prisma.$TextEditPayload>;
+
+export type AggregateTextEdit = {
+	_count: TextEditCountAggregateOutputType | null;
+	_min: TextEditMinAggregateOutputType | null;
+	_max: TextEditMaxAggregateOutputType | null;
+};
+
+export type TextEditMinAggregateOutputType = {
+	id: string | null;
+	textId: string | null;
+	content: string | null;
+	editedAt: Date | null;
+};
+
+export type TextEditMaxAggregateOutputType = {
+	id: string | null;
+	textId: string | null;
+	content: string | null;
+	editedAt: Date | null;
+};
+
+export type TextEditCountAggregateOutputType = {
+	id: number;
+	textId: number;
+	content: number;
+	editedAt: number;
+	_all: number;
+};
+
+export type TextEditMinAggregateInputType = {
+	id?: true;
+	textId?: true;
+	content?: true;
+	editedAt?: true;
+};
+
+export type TextEditMaxAggregateInputType = {
+	id?: true;
+	textId?: true;
+	content?: true;
+	editedAt?: true;
+};
+
+export type TextEditCountAggregateInputType = {
+	id?: true;
+	textId?: true;
+	content?: true;
+	editedAt?: true;
+	_all?: true;
+};
+
+export type TextEditAggregateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which TextEdit to aggregate.
+	 */
+	where?: Prisma.TextEditWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of TextEdits to fetch.
+	 */
+	orderBy?:
+		| Prisma.TextEditOrderByWithRelationInput
+		| Prisma.TextEditOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the start position
+	 */
+	cursor?: Prisma.TextEditWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` TextEdits from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` TextEdits.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Count returned TextEdits
+	 **/
+	_count?: true | TextEditCountAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the minimum value
+	 **/
+	_min?: TextEditMinAggregateInputType;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+	 *
+	 * Select which fields to find the maximum value
+	 **/
+	_max?: TextEditMaxAggregateInputType;
+};
+
+export type GetTextEditAggregateType<T extends TextEditAggregateArgs> = {
+	[P in keyof T & keyof AggregateTextEdit]: P extends "_count" | "count"
+		? T[P] extends true
+			? number
+			: Prisma.GetScalarType<T[P], AggregateTextEdit[P]>
+		: Prisma.GetScalarType<T[P], AggregateTextEdit[P]>;
+};
+
+export type TextEditGroupByArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.TextEditWhereInput;
+	orderBy?:
+		| Prisma.TextEditOrderByWithAggregationInput
+		| Prisma.TextEditOrderByWithAggregationInput[];
+	by: Prisma.TextEditScalarFieldEnum[] | Prisma.TextEditScalarFieldEnum;
+	having?: Prisma.TextEditScalarWhereWithAggregatesInput;
+	take?: number;
+	skip?: number;
+	_count?: TextEditCountAggregateInputType | true;
+	_min?: TextEditMinAggregateInputType;
+	_max?: TextEditMaxAggregateInputType;
+};
+
+export type TextEditGroupByOutputType = {
+	id: string;
+	textId: string;
+	content: string;
+	editedAt: Date;
+	_count: TextEditCountAggregateOutputType | null;
+	_min: TextEditMinAggregateOutputType | null;
+	_max: TextEditMaxAggregateOutputType | null;
+};
+
+type GetTextEditGroupByPayload<T extends TextEditGroupByArgs> =
+	Prisma.PrismaPromise<
+		Array<
+			Prisma.PickEnumerable<TextEditGroupByOutputType, T["by"]> & {
+				[P in keyof T & keyof TextEditGroupByOutputType]: P extends "_count"
+					? T[P] extends boolean
+						? number
+						: Prisma.GetScalarType<T[P], TextEditGroupByOutputType[P]>
+					: Prisma.GetScalarType<T[P], TextEditGroupByOutputType[P]>;
+			}
+		>
+	>;
+
+export type TextEditWhereInput = {
+	AND?: Prisma.TextEditWhereInput | Prisma.TextEditWhereInput[];
+	OR?: Prisma.TextEditWhereInput[];
+	NOT?: Prisma.TextEditWhereInput | Prisma.TextEditWhereInput[];
+	id?: Prisma.StringFilter<"TextEdit"> | string;
+	textId?: Prisma.StringFilter<"TextEdit"> | string;
+	content?: Prisma.StringFilter<"TextEdit"> | string;
+	editedAt?: Prisma.DateTimeFilter<"TextEdit"> | Date | string;
+	text?: Prisma.XOR<Prisma.TextScalarRelationFilter, Prisma.TextWhereInput>;
+};
+
+export type TextEditOrderByWithRelationInput = {
+	id?: Prisma.SortOrder;
+	textId?: Prisma.SortOrder;
+	content?: Prisma.SortOrder;
+	editedAt?: Prisma.SortOrder;
+	text?: Prisma.TextOrderByWithRelationInput;
+};
+
+export type TextEditWhereUniqueInput = Prisma.AtLeast<
+	{
+		id?: string;
+		AND?: Prisma.TextEditWhereInput | Prisma.TextEditWhereInput[];
+		OR?: Prisma.TextEditWhereInput[];
+		NOT?: Prisma.TextEditWhereInput | Prisma.TextEditWhereInput[];
+		textId?: Prisma.StringFilter<"TextEdit"> | string;
+		content?: Prisma.StringFilter<"TextEdit"> | string;
+		editedAt?: Prisma.DateTimeFilter<"TextEdit"> | Date | string;
+		text?: Prisma.XOR<Prisma.TextScalarRelationFilter, Prisma.TextWhereInput>;
+	},
+	"id"
+>;
+
+export type TextEditOrderByWithAggregationInput = {
+	id?: Prisma.SortOrder;
+	textId?: Prisma.SortOrder;
+	content?: Prisma.SortOrder;
+	editedAt?: Prisma.SortOrder;
+	_count?: Prisma.TextEditCountOrderByAggregateInput;
+	_max?: Prisma.TextEditMaxOrderByAggregateInput;
+	_min?: Prisma.TextEditMinOrderByAggregateInput;
+};
+
+export type TextEditScalarWhereWithAggregatesInput = {
+	AND?:
+		| Prisma.TextEditScalarWhereWithAggregatesInput
+		| Prisma.TextEditScalarWhereWithAggregatesInput[];
+	OR?: Prisma.TextEditScalarWhereWithAggregatesInput[];
+	NOT?:
+		| Prisma.TextEditScalarWhereWithAggregatesInput
+		| Prisma.TextEditScalarWhereWithAggregatesInput[];
+	id?: Prisma.StringWithAggregatesFilter<"TextEdit"> | string;
+	textId?: Prisma.StringWithAggregatesFilter<"TextEdit"> | string;
+	content?: Prisma.StringWithAggregatesFilter<"TextEdit"> | string;
+	editedAt?: Prisma.DateTimeWithAggregatesFilter<"TextEdit"> | Date | string;
+};
+
+export type TextEditCreateInput = {
+	id?: string;
+	content: string;
+	editedAt?: Date | string;
+	text: Prisma.TextCreateNestedOneWithoutEditsInput;
+};
+
+export type TextEditUncheckedCreateInput = {
+	id?: string;
+	textId: string;
+	content: string;
+	editedAt?: Date | string;
+};
+
+export type TextEditUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	editedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	text?: Prisma.TextUpdateOneRequiredWithoutEditsNestedInput;
+};
+
+export type TextEditUncheckedUpdateInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	textId?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	editedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type TextEditCreateManyInput = {
+	id?: string;
+	textId: string;
+	content: string;
+	editedAt?: Date | string;
+};
+
+export type TextEditUpdateManyMutationInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	editedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type TextEditUncheckedUpdateManyInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	textId?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	editedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type TextEditListRelationFilter = {
+	every?: Prisma.TextEditWhereInput;
+	some?: Prisma.TextEditWhereInput;
+	none?: Prisma.TextEditWhereInput;
+};
+
+export type TextEditOrderByRelationAggregateInput = {
+	_count?: Prisma.SortOrder;
+};
+
+export type TextEditCountOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	textId?: Prisma.SortOrder;
+	content?: Prisma.SortOrder;
+	editedAt?: Prisma.SortOrder;
+};
+
+export type TextEditMaxOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	textId?: Prisma.SortOrder;
+	content?: Prisma.SortOrder;
+	editedAt?: Prisma.SortOrder;
+};
+
+export type TextEditMinOrderByAggregateInput = {
+	id?: Prisma.SortOrder;
+	textId?: Prisma.SortOrder;
+	content?: Prisma.SortOrder;
+	editedAt?: Prisma.SortOrder;
+};
+
+export type TextEditCreateNestedManyWithoutTextInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.TextEditCreateWithoutTextInput,
+				Prisma.TextEditUncheckedCreateWithoutTextInput
+		  >
+		| Prisma.TextEditCreateWithoutTextInput[]
+		| Prisma.TextEditUncheckedCreateWithoutTextInput[];
+	connectOrCreate?:
+		| Prisma.TextEditCreateOrConnectWithoutTextInput
+		| Prisma.TextEditCreateOrConnectWithoutTextInput[];
+	createMany?: Prisma.TextEditCreateManyTextInputEnvelope;
+	connect?: Prisma.TextEditWhereUniqueInput | Prisma.TextEditWhereUniqueInput[];
+};
+
+export type TextEditUncheckedCreateNestedManyWithoutTextInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.TextEditCreateWithoutTextInput,
+				Prisma.TextEditUncheckedCreateWithoutTextInput
+		  >
+		| Prisma.TextEditCreateWithoutTextInput[]
+		| Prisma.TextEditUncheckedCreateWithoutTextInput[];
+	connectOrCreate?:
+		| Prisma.TextEditCreateOrConnectWithoutTextInput
+		| Prisma.TextEditCreateOrConnectWithoutTextInput[];
+	createMany?: Prisma.TextEditCreateManyTextInputEnvelope;
+	connect?: Prisma.TextEditWhereUniqueInput | Prisma.TextEditWhereUniqueInput[];
+};
+
+export type TextEditUpdateManyWithoutTextNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.TextEditCreateWithoutTextInput,
+				Prisma.TextEditUncheckedCreateWithoutTextInput
+		  >
+		| Prisma.TextEditCreateWithoutTextInput[]
+		| Prisma.TextEditUncheckedCreateWithoutTextInput[];
+	connectOrCreate?:
+		| Prisma.TextEditCreateOrConnectWithoutTextInput
+		| Prisma.TextEditCreateOrConnectWithoutTextInput[];
+	upsert?:
+		| Prisma.TextEditUpsertWithWhereUniqueWithoutTextInput
+		| Prisma.TextEditUpsertWithWhereUniqueWithoutTextInput[];
+	createMany?: Prisma.TextEditCreateManyTextInputEnvelope;
+	set?: Prisma.TextEditWhereUniqueInput | Prisma.TextEditWhereUniqueInput[];
+	disconnect?:
+		| Prisma.TextEditWhereUniqueInput
+		| Prisma.TextEditWhereUniqueInput[];
+	delete?: Prisma.TextEditWhereUniqueInput | Prisma.TextEditWhereUniqueInput[];
+	connect?: Prisma.TextEditWhereUniqueInput | Prisma.TextEditWhereUniqueInput[];
+	update?:
+		| Prisma.TextEditUpdateWithWhereUniqueWithoutTextInput
+		| Prisma.TextEditUpdateWithWhereUniqueWithoutTextInput[];
+	updateMany?:
+		| Prisma.TextEditUpdateManyWithWhereWithoutTextInput
+		| Prisma.TextEditUpdateManyWithWhereWithoutTextInput[];
+	deleteMany?:
+		| Prisma.TextEditScalarWhereInput
+		| Prisma.TextEditScalarWhereInput[];
+};
+
+export type TextEditUncheckedUpdateManyWithoutTextNestedInput = {
+	create?:
+		| Prisma.XOR<
+				Prisma.TextEditCreateWithoutTextInput,
+				Prisma.TextEditUncheckedCreateWithoutTextInput
+		  >
+		| Prisma.TextEditCreateWithoutTextInput[]
+		| Prisma.TextEditUncheckedCreateWithoutTextInput[];
+	connectOrCreate?:
+		| Prisma.TextEditCreateOrConnectWithoutTextInput
+		| Prisma.TextEditCreateOrConnectWithoutTextInput[];
+	upsert?:
+		| Prisma.TextEditUpsertWithWhereUniqueWithoutTextInput
+		| Prisma.TextEditUpsertWithWhereUniqueWithoutTextInput[];
+	createMany?: Prisma.TextEditCreateManyTextInputEnvelope;
+	set?: Prisma.TextEditWhereUniqueInput | Prisma.TextEditWhereUniqueInput[];
+	disconnect?:
+		| Prisma.TextEditWhereUniqueInput
+		| Prisma.TextEditWhereUniqueInput[];
+	delete?: Prisma.TextEditWhereUniqueInput | Prisma.TextEditWhereUniqueInput[];
+	connect?: Prisma.TextEditWhereUniqueInput | Prisma.TextEditWhereUniqueInput[];
+	update?:
+		| Prisma.TextEditUpdateWithWhereUniqueWithoutTextInput
+		| Prisma.TextEditUpdateWithWhereUniqueWithoutTextInput[];
+	updateMany?:
+		| Prisma.TextEditUpdateManyWithWhereWithoutTextInput
+		| Prisma.TextEditUpdateManyWithWhereWithoutTextInput[];
+	deleteMany?:
+		| Prisma.TextEditScalarWhereInput
+		| Prisma.TextEditScalarWhereInput[];
+};
+
+export type TextEditCreateWithoutTextInput = {
+	id?: string;
+	content: string;
+	editedAt?: Date | string;
+};
+
+export type TextEditUncheckedCreateWithoutTextInput = {
+	id?: string;
+	content: string;
+	editedAt?: Date | string;
+};
+
+export type TextEditCreateOrConnectWithoutTextInput = {
+	where: Prisma.TextEditWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.TextEditCreateWithoutTextInput,
+		Prisma.TextEditUncheckedCreateWithoutTextInput
+	>;
+};
+
+export type TextEditCreateManyTextInputEnvelope = {
+	data:
+		| Prisma.TextEditCreateManyTextInput
+		| Prisma.TextEditCreateManyTextInput[];
+	skipDuplicates?: boolean;
+};
+
+export type TextEditUpsertWithWhereUniqueWithoutTextInput = {
+	where: Prisma.TextEditWhereUniqueInput;
+	update: Prisma.XOR<
+		Prisma.TextEditUpdateWithoutTextInput,
+		Prisma.TextEditUncheckedUpdateWithoutTextInput
+	>;
+	create: Prisma.XOR<
+		Prisma.TextEditCreateWithoutTextInput,
+		Prisma.TextEditUncheckedCreateWithoutTextInput
+	>;
+};
+
+export type TextEditUpdateWithWhereUniqueWithoutTextInput = {
+	where: Prisma.TextEditWhereUniqueInput;
+	data: Prisma.XOR<
+		Prisma.TextEditUpdateWithoutTextInput,
+		Prisma.TextEditUncheckedUpdateWithoutTextInput
+	>;
+};
+
+export type TextEditUpdateManyWithWhereWithoutTextInput = {
+	where: Prisma.TextEditScalarWhereInput;
+	data: Prisma.XOR<
+		Prisma.TextEditUpdateManyMutationInput,
+		Prisma.TextEditUncheckedUpdateManyWithoutTextInput
+	>;
+};
+
+export type TextEditScalarWhereInput = {
+	AND?: Prisma.TextEditScalarWhereInput | Prisma.TextEditScalarWhereInput[];
+	OR?: Prisma.TextEditScalarWhereInput[];
+	NOT?: Prisma.TextEditScalarWhereInput | Prisma.TextEditScalarWhereInput[];
+	id?: Prisma.StringFilter<"TextEdit"> | string;
+	textId?: Prisma.StringFilter<"TextEdit"> | string;
+	content?: Prisma.StringFilter<"TextEdit"> | string;
+	editedAt?: Prisma.DateTimeFilter<"TextEdit"> | Date | string;
+};
+
+export type TextEditCreateManyTextInput = {
+	id?: string;
+	content: string;
+	editedAt?: Date | string;
+};
+
+export type TextEditUpdateWithoutTextInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	editedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type TextEditUncheckedUpdateWithoutTextInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	editedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type TextEditUncheckedUpdateManyWithoutTextInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	content?: Prisma.StringFieldUpdateOperationsInput | string;
+	editedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type TextEditSelect<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		textId?: boolean;
+		content?: boolean;
+		editedAt?: boolean;
+		text?: boolean | Prisma.TextDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["textEdit"]
+>;
+
+export type TextEditSelectCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		textId?: boolean;
+		content?: boolean;
+		editedAt?: boolean;
+		text?: boolean | Prisma.TextDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["textEdit"]
+>;
+
+export type TextEditSelectUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetSelect<
+	{
+		id?: boolean;
+		textId?: boolean;
+		content?: boolean;
+		editedAt?: boolean;
+		text?: boolean | Prisma.TextDefaultArgs<ExtArgs>;
+	},
+	ExtArgs["result"]["textEdit"]
+>;
+
+export type TextEditSelectScalar = {
+	id?: boolean;
+	textId?: boolean;
+	content?: boolean;
+	editedAt?: boolean;
+};
+
+export type TextEditOmit<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = runtime.Types.Extensions.GetOmit<
+	"id" | "textId" | "content" | "editedAt",
+	ExtArgs["result"]["textEdit"]
+>;
+export type TextEditInclude<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	text?: boolean | Prisma.TextDefaultArgs<ExtArgs>;
+};
+export type TextEditIncludeCreateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	text?: boolean | Prisma.TextDefaultArgs<ExtArgs>;
+};
+export type TextEditIncludeUpdateManyAndReturn<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	text?: boolean | Prisma.TextDefaultArgs<ExtArgs>;
+};
+
+export type $TextEditPayload<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	name: "TextEdit";
+	objects: {
+		text: Prisma.$TextPayload<ExtArgs>;
+	};
+	scalars: runtime.Types.Extensions.GetPayloadResult<
+		{
+			id: string;
+			textId: string;
+			content: string;
+			editedAt: Date;
+		},
+		ExtArgs["result"]["textEdit"]
+	>;
+	composites: {};
+};
+
+export type TextEditGetPayload<
+	S extends boolean | null | undefined | TextEditDefaultArgs,
+> = runtime.Types.Result.GetResult<Prisma.$TextEditPayload, S>;
+
+export type TextEditCountArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = Omit<TextEditFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+	select?: TextEditCountAggregateInputType | true;
+};
+
+export interface TextEditDelegate<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> {
+	[K: symbol]: {
+		types: Prisma.TypeMap<ExtArgs>["model"]["TextEdit"];
+		meta: { name: "TextEdit" };
+	};
+	/**
+	 * Find zero or one TextEdit that matches the filter.
+	 * @param {TextEditFindUniqueArgs} args - Arguments to find a TextEdit
+	 * @example
+	 * // Get one TextEdit
+	 * const textEdit = await prisma.textEdit.findUnique({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUnique<T extends TextEditFindUniqueArgs>(
+		args: Prisma.SelectSubset<T, TextEditFindUniqueArgs<ExtArgs>>,
+	): Prisma.Prisma__TextEditClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextEditPayload<ExtArgs>,
+			T,
+			"findUnique",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find one TextEdit that matches the filter or throw an error with `error.code='P2025'`
+	 * if no matches were found.
+	 * @param {TextEditFindUniqueOrThrowArgs} args - Arguments to find a TextEdit
+	 * @example
+	 * // Get one TextEdit
+	 * const textEdit = await prisma.textEdit.findUniqueOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findUniqueOrThrow<T extends TextEditFindUniqueOrThrowArgs>(
+		args: Prisma.SelectSubset<T, TextEditFindUniqueOrThrowArgs<ExtArgs>>,
+	): Prisma.Prisma__TextEditClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextEditPayload<ExtArgs>,
+			T,
+			"findUniqueOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first TextEdit that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {TextEditFindFirstArgs} args - Arguments to find a TextEdit
+	 * @example
+	 * // Get one TextEdit
+	 * const textEdit = await prisma.textEdit.findFirst({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirst<T extends TextEditFindFirstArgs>(
+		args?: Prisma.SelectSubset<T, TextEditFindFirstArgs<ExtArgs>>,
+	): Prisma.Prisma__TextEditClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextEditPayload<ExtArgs>,
+			T,
+			"findFirst",
+			GlobalOmitOptions
+		> | null,
+		null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find the first TextEdit that matches the filter or
+	 * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {TextEditFindFirstOrThrowArgs} args - Arguments to find a TextEdit
+	 * @example
+	 * // Get one TextEdit
+	 * const textEdit = await prisma.textEdit.findFirstOrThrow({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 */
+	findFirstOrThrow<T extends TextEditFindFirstOrThrowArgs>(
+		args?: Prisma.SelectSubset<T, TextEditFindFirstOrThrowArgs<ExtArgs>>,
+	): Prisma.Prisma__TextEditClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextEditPayload<ExtArgs>,
+			T,
+			"findFirstOrThrow",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Find zero or more TextEdits that matches the filter.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {TextEditFindManyArgs} args - Arguments to filter and select certain fields only.
+	 * @example
+	 * // Get all TextEdits
+	 * const textEdits = await prisma.textEdit.findMany()
+	 *
+	 * // Get first 10 TextEdits
+	 * const textEdits = await prisma.textEdit.findMany({ take: 10 })
+	 *
+	 * // Only select the `id`
+	 * const textEditWithIdOnly = await prisma.textEdit.findMany({ select: { id: true } })
+	 *
+	 */
+	findMany<T extends TextEditFindManyArgs>(
+		args?: Prisma.SelectSubset<T, TextEditFindManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextEditPayload<ExtArgs>,
+			T,
+			"findMany",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create a TextEdit.
+	 * @param {TextEditCreateArgs} args - Arguments to create a TextEdit.
+	 * @example
+	 * // Create one TextEdit
+	 * const TextEdit = await prisma.textEdit.create({
+	 *   data: {
+	 *     // ... data to create a TextEdit
+	 *   }
+	 * })
+	 *
+	 */
+	create<T extends TextEditCreateArgs>(
+		args: Prisma.SelectSubset<T, TextEditCreateArgs<ExtArgs>>,
+	): Prisma.Prisma__TextEditClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextEditPayload<ExtArgs>,
+			T,
+			"create",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Create many TextEdits.
+	 * @param {TextEditCreateManyArgs} args - Arguments to create many TextEdits.
+	 * @example
+	 * // Create many TextEdits
+	 * const textEdit = await prisma.textEdit.createMany({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 */
+	createMany<T extends TextEditCreateManyArgs>(
+		args?: Prisma.SelectSubset<T, TextEditCreateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Create many TextEdits and returns the data saved in the database.
+	 * @param {TextEditCreateManyAndReturnArgs} args - Arguments to create many TextEdits.
+	 * @example
+	 * // Create many TextEdits
+	 * const textEdit = await prisma.textEdit.createManyAndReturn({
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Create many TextEdits and only return the `id`
+	 * const textEditWithIdOnly = await prisma.textEdit.createManyAndReturn({
+	 *   select: { id: true },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	createManyAndReturn<T extends TextEditCreateManyAndReturnArgs>(
+		args?: Prisma.SelectSubset<T, TextEditCreateManyAndReturnArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextEditPayload<ExtArgs>,
+			T,
+			"createManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Delete a TextEdit.
+	 * @param {TextEditDeleteArgs} args - Arguments to delete one TextEdit.
+	 * @example
+	 * // Delete one TextEdit
+	 * const TextEdit = await prisma.textEdit.delete({
+	 *   where: {
+	 *     // ... filter to delete one TextEdit
+	 *   }
+	 * })
+	 *
+	 */
+	delete<T extends TextEditDeleteArgs>(
+		args: Prisma.SelectSubset<T, TextEditDeleteArgs<ExtArgs>>,
+	): Prisma.Prisma__TextEditClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextEditPayload<ExtArgs>,
+			T,
+			"delete",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Update one TextEdit.
+	 * @param {TextEditUpdateArgs} args - Arguments to update one TextEdit.
+	 * @example
+	 * // Update one TextEdit
+	 * const textEdit = await prisma.textEdit.update({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	update<T extends TextEditUpdateArgs>(
+		args: Prisma.SelectSubset<T, TextEditUpdateArgs<ExtArgs>>,
+	): Prisma.Prisma__TextEditClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextEditPayload<ExtArgs>,
+			T,
+			"update",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Delete zero or more TextEdits.
+	 * @param {TextEditDeleteManyArgs} args - Arguments to filter TextEdits to delete.
+	 * @example
+	 * // Delete a few TextEdits
+	 * const { count } = await prisma.textEdit.deleteMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   }
+	 * })
+	 *
+	 */
+	deleteMany<T extends TextEditDeleteManyArgs>(
+		args?: Prisma.SelectSubset<T, TextEditDeleteManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more TextEdits.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {TextEditUpdateManyArgs} args - Arguments to update one or more rows.
+	 * @example
+	 * // Update many TextEdits
+	 * const textEdit = await prisma.textEdit.updateMany({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: {
+	 *     // ... provide data here
+	 *   }
+	 * })
+	 *
+	 */
+	updateMany<T extends TextEditUpdateManyArgs>(
+		args: Prisma.SelectSubset<T, TextEditUpdateManyArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+	/**
+	 * Update zero or more TextEdits and returns the data updated in the database.
+	 * @param {TextEditUpdateManyAndReturnArgs} args - Arguments to update many TextEdits.
+	 * @example
+	 * // Update many TextEdits
+	 * const textEdit = await prisma.textEdit.updateManyAndReturn({
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 *
+	 * // Update zero or more TextEdits and only return the `id`
+	 * const textEditWithIdOnly = await prisma.textEdit.updateManyAndReturn({
+	 *   select: { id: true },
+	 *   where: {
+	 *     // ... provide filter here
+	 *   },
+	 *   data: [
+	 *     // ... provide data here
+	 *   ]
+	 * })
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 *
+	 */
+	updateManyAndReturn<T extends TextEditUpdateManyAndReturnArgs>(
+		args: Prisma.SelectSubset<T, TextEditUpdateManyAndReturnArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextEditPayload<ExtArgs>,
+			T,
+			"updateManyAndReturn",
+			GlobalOmitOptions
+		>
+	>;
+
+	/**
+	 * Create or update one TextEdit.
+	 * @param {TextEditUpsertArgs} args - Arguments to update or create a TextEdit.
+	 * @example
+	 * // Update or create a TextEdit
+	 * const textEdit = await prisma.textEdit.upsert({
+	 *   create: {
+	 *     // ... data to create a TextEdit
+	 *   },
+	 *   update: {
+	 *     // ... in case it already exists, update
+	 *   },
+	 *   where: {
+	 *     // ... the filter for the TextEdit we want to update
+	 *   }
+	 * })
+	 */
+	upsert<T extends TextEditUpsertArgs>(
+		args: Prisma.SelectSubset<T, TextEditUpsertArgs<ExtArgs>>,
+	): Prisma.Prisma__TextEditClient<
+		runtime.Types.Result.GetResult<
+			Prisma.$TextEditPayload<ExtArgs>,
+			T,
+			"upsert",
+			GlobalOmitOptions
+		>,
+		never,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+
+	/**
+	 * Count the number of TextEdits.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {TextEditCountArgs} args - Arguments to filter TextEdits to count.
+	 * @example
+	 * // Count the number of TextEdits
+	 * const count = await prisma.textEdit.count({
+	 *   where: {
+	 *     // ... the filter for the TextEdits we want to count
+	 *   }
+	 * })
+	 **/
+	count<T extends TextEditCountArgs>(
+		args?: Prisma.Subset<T, TextEditCountArgs>,
+	): Prisma.PrismaPromise<
+		T extends runtime.Types.Utils.Record<"select", any>
+			? T["select"] extends true
+				? number
+				: Prisma.GetScalarType<T["select"], TextEditCountAggregateOutputType>
+			: number
+	>;
+
+	/**
+	 * Allows you to perform aggregations operations on a TextEdit.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {TextEditAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+	 * @example
+	 * // Ordered by age ascending
+	 * // Where email contains prisma.io
+	 * // Limited to the 10 users
+	 * const aggregations = await prisma.user.aggregate({
+	 *   _avg: {
+	 *     age: true,
+	 *   },
+	 *   where: {
+	 *     email: {
+	 *       contains: "prisma.io",
+	 *     },
+	 *   },
+	 *   orderBy: {
+	 *     age: "asc",
+	 *   },
+	 *   take: 10,
+	 * })
+	 **/
+	aggregate<T extends TextEditAggregateArgs>(
+		args: Prisma.Subset<T, TextEditAggregateArgs>,
+	): Prisma.PrismaPromise<GetTextEditAggregateType<T>>;
+
+	/**
+	 * Group by TextEdit.
+	 * Note, that providing `undefined` is treated as the value not being there.
+	 * Read more here: https://pris.ly/d/null-undefined
+	 * @param {TextEditGroupByArgs} args - Group by arguments.
+	 * @example
+	 * // Group by city, order by createdAt, get count
+	 * const result = await prisma.user.groupBy({
+	 *   by: ['city', 'createdAt'],
+	 *   orderBy: {
+	 *     createdAt: true
+	 *   },
+	 *   _count: {
+	 *     _all: true
+	 *   },
+	 * })
+	 *
+	 **/
+	groupBy<
+		T extends TextEditGroupByArgs,
+		HasSelectOrTake extends Prisma.Or<
+			Prisma.Extends<"skip", Prisma.Keys<T>>,
+			Prisma.Extends<"take", Prisma.Keys<T>>
+		>,
+		OrderByArg extends Prisma.True extends HasSelectOrTake
+			? { orderBy: TextEditGroupByArgs["orderBy"] }
+			: { orderBy?: TextEditGroupByArgs["orderBy"] },
+		OrderFields extends Prisma.ExcludeUnderscoreKeys<
+			Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+		>,
+		ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+		ByValid extends Prisma.Has<ByFields, OrderFields>,
+		HavingFields extends Prisma.GetHavingFields<T["having"]>,
+		HavingValid extends Prisma.Has<ByFields, HavingFields>,
+		ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+		InputErrors extends ByEmpty extends Prisma.True
+			? `Error: "by" must not be empty.`
+			: HavingValid extends Prisma.False
+				? {
+						[P in HavingFields]: P extends ByFields
+							? never
+							: P extends string
+								? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+								: [
+										Error,
+										"Field ",
+										P,
+										` in "having" needs to be provided in "by"`,
+									];
+					}[HavingFields]
+				: "take" extends Prisma.Keys<T>
+					? "orderBy" extends Prisma.Keys<T>
+						? ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields]
+						: 'Error: If you provide "take", you also need to provide "orderBy"'
+					: "skip" extends Prisma.Keys<T>
+						? "orderBy" extends Prisma.Keys<T>
+							? ByValid extends Prisma.True
+								? {}
+								: {
+										[P in OrderFields]: P extends ByFields
+											? never
+											: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+									}[OrderFields]
+							: 'Error: If you provide "skip", you also need to provide "orderBy"'
+						: ByValid extends Prisma.True
+							? {}
+							: {
+									[P in OrderFields]: P extends ByFields
+										? never
+										: `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+								}[OrderFields],
+	>(
+		args: Prisma.SubsetIntersection<T, TextEditGroupByArgs, OrderByArg> &
+			InputErrors,
+	): {} extends InputErrors
+		? GetTextEditGroupByPayload<T>
+		: Prisma.PrismaPromise<InputErrors>;
+	/**
+	 * Fields of the TextEdit model
+	 */
+	readonly fields: TextEditFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TextEdit.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TextEditClient<
+	T,
+	Null = never,
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+	GlobalOmitOptions = {},
+> extends Prisma.PrismaPromise<T> {
+	readonly [Symbol.toStringTag]: "PrismaPromise";
+	text<T extends Prisma.TextDefaultArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.TextDefaultArgs<ExtArgs>>,
+	): Prisma.Prisma__TextClient<
+		| runtime.Types.Result.GetResult<
+				Prisma.$TextPayload<ExtArgs>,
+				T,
+				"findUniqueOrThrow",
+				GlobalOmitOptions
+		  >
+		| Null,
+		Null,
+		ExtArgs,
+		GlobalOmitOptions
+	>;
+	/**
+	 * Attaches callbacks for the resolution and/or rejection of the Promise.
+	 * @param onfulfilled The callback to execute when the Promise is resolved.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of which ever callback is executed.
+	 */
+	then<TResult1 = T, TResult2 = never>(
+		onfulfilled?:
+			| ((value: T) => TResult1 | PromiseLike<TResult1>)
+			| undefined
+			| null,
+		onrejected?:
+			| ((reason: any) => TResult2 | PromiseLike<TResult2>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+	/**
+	 * Attaches a callback for only the rejection of the Promise.
+	 * @param onrejected The callback to execute when the Promise is rejected.
+	 * @returns A Promise for the completion of the callback.
+	 */
+	catch<TResult = never>(
+		onrejected?:
+			| ((reason: any) => TResult | PromiseLike<TResult>)
+			| undefined
+			| null,
+	): runtime.Types.Utils.JsPromise<T | TResult>;
+	/**
+	 * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+	 * resolved value cannot be modified from the callback.
+	 * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+	 * @returns A Promise for the completion of the callback.
+	 */
+	finally(
+		onfinally?: (() => void) | undefined | null,
+	): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the TextEdit model
+ */
+export interface TextEditFieldRefs {
+	readonly id: Prisma.FieldRef<"TextEdit", "String">;
+	readonly textId: Prisma.FieldRef<"TextEdit", "String">;
+	readonly content: Prisma.FieldRef<"TextEdit", "String">;
+	readonly editedAt: Prisma.FieldRef<"TextEdit", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * TextEdit findUnique
+ */
+export type TextEditFindUniqueArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditInclude<ExtArgs> | null;
+	/**
+	 * Filter, which TextEdit to fetch.
+	 */
+	where: Prisma.TextEditWhereUniqueInput;
+};
+
+/**
+ * TextEdit findUniqueOrThrow
+ */
+export type TextEditFindUniqueOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditInclude<ExtArgs> | null;
+	/**
+	 * Filter, which TextEdit to fetch.
+	 */
+	where: Prisma.TextEditWhereUniqueInput;
+};
+
+/**
+ * TextEdit findFirst
+ */
+export type TextEditFindFirstArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditInclude<ExtArgs> | null;
+	/**
+	 * Filter, which TextEdit to fetch.
+	 */
+	where?: Prisma.TextEditWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of TextEdits to fetch.
+	 */
+	orderBy?:
+		| Prisma.TextEditOrderByWithRelationInput
+		| Prisma.TextEditOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for TextEdits.
+	 */
+	cursor?: Prisma.TextEditWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` TextEdits from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` TextEdits.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of TextEdits.
+	 */
+	distinct?: Prisma.TextEditScalarFieldEnum | Prisma.TextEditScalarFieldEnum[];
+};
+
+/**
+ * TextEdit findFirstOrThrow
+ */
+export type TextEditFindFirstOrThrowArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditInclude<ExtArgs> | null;
+	/**
+	 * Filter, which TextEdit to fetch.
+	 */
+	where?: Prisma.TextEditWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of TextEdits to fetch.
+	 */
+	orderBy?:
+		| Prisma.TextEditOrderByWithRelationInput
+		| Prisma.TextEditOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for searching for TextEdits.
+	 */
+	cursor?: Prisma.TextEditWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` TextEdits from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` TextEdits.
+	 */
+	skip?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+	 *
+	 * Filter by unique combinations of TextEdits.
+	 */
+	distinct?: Prisma.TextEditScalarFieldEnum | Prisma.TextEditScalarFieldEnum[];
+};
+
+/**
+ * TextEdit findMany
+ */
+export type TextEditFindManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditInclude<ExtArgs> | null;
+	/**
+	 * Filter, which TextEdits to fetch.
+	 */
+	where?: Prisma.TextEditWhereInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+	 *
+	 * Determine the order of TextEdits to fetch.
+	 */
+	orderBy?:
+		| Prisma.TextEditOrderByWithRelationInput
+		| Prisma.TextEditOrderByWithRelationInput[];
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+	 *
+	 * Sets the position for listing TextEdits.
+	 */
+	cursor?: Prisma.TextEditWhereUniqueInput;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Take `±n` TextEdits from the position of the cursor.
+	 */
+	take?: number;
+	/**
+	 * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+	 *
+	 * Skip the first `n` TextEdits.
+	 */
+	skip?: number;
+	distinct?: Prisma.TextEditScalarFieldEnum | Prisma.TextEditScalarFieldEnum[];
+};
+
+/**
+ * TextEdit create
+ */
+export type TextEditCreateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditInclude<ExtArgs> | null;
+	/**
+	 * The data needed to create a TextEdit.
+	 */
+	data: Prisma.XOR<
+		Prisma.TextEditCreateInput,
+		Prisma.TextEditUncheckedCreateInput
+	>;
+};
+
+/**
+ * TextEdit createMany
+ */
+export type TextEditCreateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to create many TextEdits.
+	 */
+	data: Prisma.TextEditCreateManyInput | Prisma.TextEditCreateManyInput[];
+	skipDuplicates?: boolean;
+};
+
+/**
+ * TextEdit createManyAndReturn
+ */
+export type TextEditCreateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelectCreateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * The data used to create many TextEdits.
+	 */
+	data: Prisma.TextEditCreateManyInput | Prisma.TextEditCreateManyInput[];
+	skipDuplicates?: boolean;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * TextEdit update
+ */
+export type TextEditUpdateArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditInclude<ExtArgs> | null;
+	/**
+	 * The data needed to update a TextEdit.
+	 */
+	data: Prisma.XOR<
+		Prisma.TextEditUpdateInput,
+		Prisma.TextEditUncheckedUpdateInput
+	>;
+	/**
+	 * Choose, which TextEdit to update.
+	 */
+	where: Prisma.TextEditWhereUniqueInput;
+};
+
+/**
+ * TextEdit updateMany
+ */
+export type TextEditUpdateManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * The data used to update TextEdits.
+	 */
+	data: Prisma.XOR<
+		Prisma.TextEditUpdateManyMutationInput,
+		Prisma.TextEditUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which TextEdits to update
+	 */
+	where?: Prisma.TextEditWhereInput;
+	/**
+	 * Limit how many TextEdits to update.
+	 */
+	limit?: number;
+};
+
+/**
+ * TextEdit updateManyAndReturn
+ */
+export type TextEditUpdateManyAndReturnArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelectUpdateManyAndReturn<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * The data used to update TextEdits.
+	 */
+	data: Prisma.XOR<
+		Prisma.TextEditUpdateManyMutationInput,
+		Prisma.TextEditUncheckedUpdateManyInput
+	>;
+	/**
+	 * Filter which TextEdits to update
+	 */
+	where?: Prisma.TextEditWhereInput;
+	/**
+	 * Limit how many TextEdits to update.
+	 */
+	limit?: number;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * TextEdit upsert
+ */
+export type TextEditUpsertArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditInclude<ExtArgs> | null;
+	/**
+	 * The filter to search for the TextEdit to update in case it exists.
+	 */
+	where: Prisma.TextEditWhereUniqueInput;
+	/**
+	 * In case the TextEdit found by the `where` argument doesn't exist, create a new TextEdit with this data.
+	 */
+	create: Prisma.XOR<
+		Prisma.TextEditCreateInput,
+		Prisma.TextEditUncheckedCreateInput
+	>;
+	/**
+	 * In case the TextEdit was found with the provided `where` argument, update it with this data.
+	 */
+	update: Prisma.XOR<
+		Prisma.TextEditUpdateInput,
+		Prisma.TextEditUncheckedUpdateInput
+	>;
+};
+
+/**
+ * TextEdit delete
+ */
+export type TextEditDeleteArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditInclude<ExtArgs> | null;
+	/**
+	 * Filter which TextEdit to delete.
+	 */
+	where: Prisma.TextEditWhereUniqueInput;
+};
+
+/**
+ * TextEdit deleteMany
+ */
+export type TextEditDeleteManyArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Filter which TextEdits to delete
+	 */
+	where?: Prisma.TextEditWhereInput;
+	/**
+	 * Limit how many TextEdits to delete.
+	 */
+	limit?: number;
+};
+
+/**
+ * TextEdit without action
+ */
+export type TextEditDefaultArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the TextEdit
+	 */
+	select?: Prisma.TextEditSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the TextEdit
+	 */
+	omit?: Prisma.TextEditOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.TextEditInclude<ExtArgs> | null;
+};
@@ -330,8 +330,11 @@ export type UserWhereInput = {
 	pointActivity?: Prisma.PointActivityListRelationFilter;
 	ratings?: Prisma.RatingListRelationFilter;
 	ratedRatings?: Prisma.RatingListRelationFilter;
+	blocksMade?: Prisma.BlockListRelationFilter;
+	blockedBy?: Prisma.BlockListRelationFilter;
 	notifications?: Prisma.NotificationListRelationFilter;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryListRelationFilter;
+	speedEvents?: Prisma.SpeedEventRegistrationListRelationFilter;
 	sessions?: Prisma.SessionListRelationFilter;
 	accounts?: Prisma.AccountListRelationFilter;
 };
@@ -372,8 +375,11 @@ export type UserOrderByWithRelationInput = {
 	pointActivity?: Prisma.PointActivityOrderByRelationAggregateInput;
 	ratings?: Prisma.RatingOrderByRelationAggregateInput;
 	ratedRatings?: Prisma.RatingOrderByRelationAggregateInput;
+	blocksMade?: Prisma.BlockOrderByRelationAggregateInput;
+	blockedBy?: Prisma.BlockOrderByRelationAggregateInput;
 	notifications?: Prisma.NotificationOrderByRelationAggregateInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryOrderByRelationAggregateInput;
+	speedEvents?: Prisma.SpeedEventRegistrationOrderByRelationAggregateInput;
 	sessions?: Prisma.SessionOrderByRelationAggregateInput;
 	accounts?: Prisma.AccountOrderByRelationAggregateInput;
 };
@@ -418,8 +424,11 @@ export type UserWhereUniqueInput = Prisma.AtLeast<
 		pointActivity?: Prisma.PointActivityListRelationFilter;
 		ratings?: Prisma.RatingListRelationFilter;
 		ratedRatings?: Prisma.RatingListRelationFilter;
+		blocksMade?: Prisma.BlockListRelationFilter;
+		blockedBy?: Prisma.BlockListRelationFilter;
 		notifications?: Prisma.NotificationListRelationFilter;
 		LuckyWinnerEntry?: Prisma.LuckyWinnerEntryListRelationFilter;
+		speedEvents?: Prisma.SpeedEventRegistrationListRelationFilter;
 		sessions?: Prisma.SessionListRelationFilter;
 		accounts?: Prisma.AccountListRelationFilter;
 	},
@@ -539,8 +548,11 @@ export type UserCreateInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -581,8 +593,11 @@ export type UserUncheckedCreateInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -637,8 +652,11 @@ export type UserUpdateInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -693,8 +711,11 @@ export type UserUncheckedUpdateInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -1194,6 +1215,84 @@ export type UserUpdateOneRequiredWithoutReportsReceivedNestedInput = {
 	>;
 };
 
+export type UserCreateNestedOneWithoutBlocksMadeInput = {
+	create?: Prisma.XOR<
+		Prisma.UserCreateWithoutBlocksMadeInput,
+		Prisma.UserUncheckedCreateWithoutBlocksMadeInput
+	>;
+	connectOrCreate?: Prisma.UserCreateOrConnectWithoutBlocksMadeInput;
+	connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserCreateNestedOneWithoutBlockedByInput = {
+	create?: Prisma.XOR<
+		Prisma.UserCreateWithoutBlockedByInput,
+		Prisma.UserUncheckedCreateWithoutBlockedByInput
+	>;
+	connectOrCreate?: Prisma.UserCreateOrConnectWithoutBlockedByInput;
+	connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutBlocksMadeNestedInput = {
+	create?: Prisma.XOR<
+		Prisma.UserCreateWithoutBlocksMadeInput,
+		Prisma.UserUncheckedCreateWithoutBlocksMadeInput
+	>;
+	connectOrCreate?: Prisma.UserCreateOrConnectWithoutBlocksMadeInput;
+	upsert?: Prisma.UserUpsertWithoutBlocksMadeInput;
+	connect?: Prisma.UserWhereUniqueInput;
+	update?: Prisma.XOR<
+		Prisma.XOR<
+			Prisma.UserUpdateToOneWithWhereWithoutBlocksMadeInput,
+			Prisma.UserUpdateWithoutBlocksMadeInput
+		>,
+		Prisma.UserUncheckedUpdateWithoutBlocksMadeInput
+	>;
+};
+
+export type UserUpdateOneRequiredWithoutBlockedByNestedInput = {
+	create?: Prisma.XOR<
+		Prisma.UserCreateWithoutBlockedByInput,
+		Prisma.UserUncheckedCreateWithoutBlockedByInput
+	>;
+	connectOrCreate?: Prisma.UserCreateOrConnectWithoutBlockedByInput;
+	upsert?: Prisma.UserUpsertWithoutBlockedByInput;
+	connect?: Prisma.UserWhereUniqueInput;
+	update?: Prisma.XOR<
+		Prisma.XOR<
+			Prisma.UserUpdateToOneWithWhereWithoutBlockedByInput,
+			Prisma.UserUpdateWithoutBlockedByInput
+		>,
+		Prisma.UserUncheckedUpdateWithoutBlockedByInput
+	>;
+};
+
+export type UserCreateNestedOneWithoutSpeedEventsInput = {
+	create?: Prisma.XOR<
+		Prisma.UserCreateWithoutSpeedEventsInput,
+		Prisma.UserUncheckedCreateWithoutSpeedEventsInput
+	>;
+	connectOrCreate?: Prisma.UserCreateOrConnectWithoutSpeedEventsInput;
+	connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutSpeedEventsNestedInput = {
+	create?: Prisma.XOR<
+		Prisma.UserCreateWithoutSpeedEventsInput,
+		Prisma.UserUncheckedCreateWithoutSpeedEventsInput
+	>;
+	connectOrCreate?: Prisma.UserCreateOrConnectWithoutSpeedEventsInput;
+	upsert?: Prisma.UserUpsertWithoutSpeedEventsInput;
+	connect?: Prisma.UserWhereUniqueInput;
+	update?: Prisma.XOR<
+		Prisma.XOR<
+			Prisma.UserUpdateToOneWithWhereWithoutSpeedEventsInput,
+			Prisma.UserUpdateWithoutSpeedEventsInput
+		>,
+		Prisma.UserUncheckedUpdateWithoutSpeedEventsInput
+	>;
+};
+
 export type UserCreateNestedOneWithoutLeaderboardEntriesInput = {
 	create?: Prisma.XOR<
 		Prisma.UserCreateWithoutLeaderboardEntriesInput,
@@ -1411,8 +1510,11 @@ export type UserCreateWithoutRatingsInput = {
 	subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput;
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -1452,8 +1554,11 @@ export type UserUncheckedCreateWithoutRatingsInput = {
 	subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput;
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -1501,8 +1606,11 @@ export type UserCreateWithoutRatedRatingsInput = {
 	subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput;
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -1542,8 +1650,11 @@ export type UserUncheckedCreateWithoutRatedRatingsInput = {
 	subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput;
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -1625,8 +1736,11 @@ export type UserUpdateWithoutRatingsInput = {
 	subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput;
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -1680,8 +1794,11 @@ export type UserUncheckedUpdateWithoutRatingsInput = {
 	subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput;
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -1755,8 +1872,11 @@ export type UserUpdateWithoutRatedRatingsInput = {
 	subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput;
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -1810,8 +1930,11 @@ export type UserUncheckedUpdateWithoutRatedRatingsInput = {
 	subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput;
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -1851,8 +1974,11 @@ export type UserCreateWithoutInitiatedCallsInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -1892,8 +2018,11 @@ export type UserUncheckedCreateWithoutInitiatedCallsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -1941,8 +2070,11 @@ export type UserCreateWithoutReceivedCallsInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -1982,8 +2114,11 @@ export type UserUncheckedCreateWithoutReceivedCallsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -2065,8 +2200,11 @@ export type UserUpdateWithoutInitiatedCallsInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -2120,8 +2258,11 @@ export type UserUncheckedUpdateWithoutInitiatedCallsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -2195,8 +2336,11 @@ export type UserUpdateWithoutReceivedCallsInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -2250,8 +2394,11 @@ export type UserUncheckedUpdateWithoutReceivedCallsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -2291,8 +2438,11 @@ export type UserCreateWithoutSentTextsInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -2332,8 +2482,11 @@ export type UserUncheckedCreateWithoutSentTextsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -2381,8 +2534,11 @@ export type UserCreateWithoutReceivedTextsInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -2422,8 +2578,11 @@ export type UserUncheckedCreateWithoutReceivedTextsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -2505,8 +2664,11 @@ export type UserUpdateWithoutSentTextsInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -2560,8 +2722,11 @@ export type UserUncheckedUpdateWithoutSentTextsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -2635,8 +2800,11 @@ export type UserUpdateWithoutReceivedTextsInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -2690,8 +2858,11 @@ export type UserUncheckedUpdateWithoutReceivedTextsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -2731,8 +2902,11 @@ export type UserCreateWithoutUserFriendshipsInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -2772,8 +2946,11 @@ export type UserUncheckedCreateWithoutUserFriendshipsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -2821,8 +2998,11 @@ export type UserCreateWithoutFriendFriendshipsInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -2862,8 +3042,11 @@ export type UserUncheckedCreateWithoutFriendFriendshipsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -2945,8 +3128,11 @@ export type UserUpdateWithoutUserFriendshipsInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -3000,8 +3186,11 @@ export type UserUncheckedUpdateWithoutUserFriendshipsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -3075,8 +3264,11 @@ export type UserUpdateWithoutFriendFriendshipsInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -3130,8 +3322,11 @@ export type UserUncheckedUpdateWithoutFriendFriendshipsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -3171,8 +3366,11 @@ export type UserCreateWithoutReportsMadeInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -3212,8 +3410,11 @@ export type UserUncheckedCreateWithoutReportsMadeInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -3261,8 +3462,11 @@ export type UserCreateWithoutReportsReceivedInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -3302,8 +3506,11 @@ export type UserUncheckedCreateWithoutReportsReceivedInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -3316,27 +3523,627 @@ export type UserCreateOrConnectWithoutReportsReceivedInput = {
 	>;
 };
 
-export type UserUpsertWithoutReportsMadeInput = {
+export type UserUpsertWithoutReportsMadeInput = {
+	update: Prisma.XOR<
+		Prisma.UserUpdateWithoutReportsMadeInput,
+		Prisma.UserUncheckedUpdateWithoutReportsMadeInput
+	>;
+	create: Prisma.XOR<
+		Prisma.UserCreateWithoutReportsMadeInput,
+		Prisma.UserUncheckedCreateWithoutReportsMadeInput
+	>;
+	where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutReportsMadeInput = {
+	where?: Prisma.UserWhereInput;
+	data: Prisma.XOR<
+		Prisma.UserUpdateWithoutReportsMadeInput,
+		Prisma.UserUncheckedUpdateWithoutReportsMadeInput
+	>;
+};
+
+export type UserUpdateWithoutReportsMadeInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	walletAddress?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	interests?: Prisma.UserUpdateinterestsInput | string[];
+	isPro?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	proEnd?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isBanned?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	name?: Prisma.StringFieldUpdateOperationsInput | string;
+	email?: Prisma.StringFieldUpdateOperationsInput | string;
+	emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banExpires?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isAnonymous?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	displayUsername?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	initiatedCalls?: Prisma.CallUpdateManyWithoutInitiatorNestedInput;
+	receivedCalls?: Prisma.CallUpdateManyWithoutReceiverNestedInput;
+	sentTexts?: Prisma.TextUpdateManyWithoutSenderNestedInput;
+	receivedTexts?: Prisma.TextUpdateManyWithoutReceiverNestedInput;
+	userFriendships?: Prisma.FriendshipUpdateManyWithoutUserNestedInput;
+	friendFriendships?: Prisma.FriendshipUpdateManyWithoutFriendNestedInput;
+	reportsReceived?: Prisma.ReportUpdateManyWithoutReportedUserNestedInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryUpdateManyWithoutUserNestedInput;
+	subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput;
+	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
+	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
+	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
+	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
+	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutReportsMadeInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	walletAddress?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	interests?: Prisma.UserUpdateinterestsInput | string[];
+	isPro?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	proEnd?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isBanned?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	name?: Prisma.StringFieldUpdateOperationsInput | string;
+	email?: Prisma.StringFieldUpdateOperationsInput | string;
+	emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banExpires?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isAnonymous?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	displayUsername?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	initiatedCalls?: Prisma.CallUncheckedUpdateManyWithoutInitiatorNestedInput;
+	receivedCalls?: Prisma.CallUncheckedUpdateManyWithoutReceiverNestedInput;
+	sentTexts?: Prisma.TextUncheckedUpdateManyWithoutSenderNestedInput;
+	receivedTexts?: Prisma.TextUncheckedUpdateManyWithoutReceiverNestedInput;
+	userFriendships?: Prisma.FriendshipUncheckedUpdateManyWithoutUserNestedInput;
+	friendFriendships?: Prisma.FriendshipUncheckedUpdateManyWithoutFriendNestedInput;
+	reportsReceived?: Prisma.ReportUncheckedUpdateManyWithoutReportedUserNestedInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryUncheckedUpdateManyWithoutUserNestedInput;
+	subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput;
+	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
+	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
+	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
+	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
+	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+};
+
+export type UserUpsertWithoutReportsReceivedInput = {
+	update: Prisma.XOR<
+		Prisma.UserUpdateWithoutReportsReceivedInput,
+		Prisma.UserUncheckedUpdateWithoutReportsReceivedInput
+	>;
+	create: Prisma.XOR<
+		Prisma.UserCreateWithoutReportsReceivedInput,
+		Prisma.UserUncheckedCreateWithoutReportsReceivedInput
+	>;
+	where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutReportsReceivedInput = {
+	where?: Prisma.UserWhereInput;
+	data: Prisma.XOR<
+		Prisma.UserUpdateWithoutReportsReceivedInput,
+		Prisma.UserUncheckedUpdateWithoutReportsReceivedInput
+	>;
+};
+
+export type UserUpdateWithoutReportsReceivedInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	walletAddress?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	interests?: Prisma.UserUpdateinterestsInput | string[];
+	isPro?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	proEnd?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isBanned?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	name?: Prisma.StringFieldUpdateOperationsInput | string;
+	email?: Prisma.StringFieldUpdateOperationsInput | string;
+	emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banExpires?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isAnonymous?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	displayUsername?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	initiatedCalls?: Prisma.CallUpdateManyWithoutInitiatorNestedInput;
+	receivedCalls?: Prisma.CallUpdateManyWithoutReceiverNestedInput;
+	sentTexts?: Prisma.TextUpdateManyWithoutSenderNestedInput;
+	receivedTexts?: Prisma.TextUpdateManyWithoutReceiverNestedInput;
+	userFriendships?: Prisma.FriendshipUpdateManyWithoutUserNestedInput;
+	friendFriendships?: Prisma.FriendshipUpdateManyWithoutFriendNestedInput;
+	reportsMade?: Prisma.ReportUpdateManyWithoutReporterNestedInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryUpdateManyWithoutUserNestedInput;
+	subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput;
+	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
+	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
+	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
+	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
+	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutReportsReceivedInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	walletAddress?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	interests?: Prisma.UserUpdateinterestsInput | string[];
+	isPro?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	proEnd?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isBanned?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	name?: Prisma.StringFieldUpdateOperationsInput | string;
+	email?: Prisma.StringFieldUpdateOperationsInput | string;
+	emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banExpires?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isAnonymous?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	displayUsername?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	initiatedCalls?: Prisma.CallUncheckedUpdateManyWithoutInitiatorNestedInput;
+	receivedCalls?: Prisma.CallUncheckedUpdateManyWithoutReceiverNestedInput;
+	sentTexts?: Prisma.TextUncheckedUpdateManyWithoutSenderNestedInput;
+	receivedTexts?: Prisma.TextUncheckedUpdateManyWithoutReceiverNestedInput;
+	userFriendships?: Prisma.FriendshipUncheckedUpdateManyWithoutUserNestedInput;
+	friendFriendships?: Prisma.FriendshipUncheckedUpdateManyWithoutFriendNestedInput;
+	reportsMade?: Prisma.ReportUncheckedUpdateManyWithoutReporterNestedInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryUncheckedUpdateManyWithoutUserNestedInput;
+	subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput;
+	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
+	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
+	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
+	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
+	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+};
+
+export type UserCreateWithoutBlocksMadeInput = {
+	id?: string;
+	walletAddress?: string | null;
+	gender?: string | null;
+	ipAddress?: string | null;
+	avatarUrl?: string | null;
+	interests?: Prisma.UserCreateinterestsInput | string[];
+	isPro?: boolean;
+	proEnd?: Date | string | null;
+	isBanned?: boolean;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	name: string;
+	email: string;
+	emailVerified?: boolean;
+	image?: string | null;
+	role?: string | null;
+	banned?: boolean | null;
+	banReason?: string | null;
+	banExpires?: Date | string | null;
+	isAnonymous?: boolean | null;
+	username?: string | null;
+	displayUsername?: string | null;
+	initiatedCalls?: Prisma.CallCreateNestedManyWithoutInitiatorInput;
+	receivedCalls?: Prisma.CallCreateNestedManyWithoutReceiverInput;
+	sentTexts?: Prisma.TextCreateNestedManyWithoutSenderInput;
+	receivedTexts?: Prisma.TextCreateNestedManyWithoutReceiverInput;
+	userFriendships?: Prisma.FriendshipCreateNestedManyWithoutUserInput;
+	friendFriendships?: Prisma.FriendshipCreateNestedManyWithoutFriendInput;
+	reportsMade?: Prisma.ReportCreateNestedManyWithoutReporterInput;
+	reportsReceived?: Prisma.ReportCreateNestedManyWithoutReportedUserInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryCreateNestedManyWithoutUserInput;
+	subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput;
+	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
+	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
+	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
+	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
+	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+};
+
+export type UserUncheckedCreateWithoutBlocksMadeInput = {
+	id?: string;
+	walletAddress?: string | null;
+	gender?: string | null;
+	ipAddress?: string | null;
+	avatarUrl?: string | null;
+	interests?: Prisma.UserCreateinterestsInput | string[];
+	isPro?: boolean;
+	proEnd?: Date | string | null;
+	isBanned?: boolean;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	name: string;
+	email: string;
+	emailVerified?: boolean;
+	image?: string | null;
+	role?: string | null;
+	banned?: boolean | null;
+	banReason?: string | null;
+	banExpires?: Date | string | null;
+	isAnonymous?: boolean | null;
+	username?: string | null;
+	displayUsername?: string | null;
+	initiatedCalls?: Prisma.CallUncheckedCreateNestedManyWithoutInitiatorInput;
+	receivedCalls?: Prisma.CallUncheckedCreateNestedManyWithoutReceiverInput;
+	sentTexts?: Prisma.TextUncheckedCreateNestedManyWithoutSenderInput;
+	receivedTexts?: Prisma.TextUncheckedCreateNestedManyWithoutReceiverInput;
+	userFriendships?: Prisma.FriendshipUncheckedCreateNestedManyWithoutUserInput;
+	friendFriendships?: Prisma.FriendshipUncheckedCreateNestedManyWithoutFriendInput;
+	reportsMade?: Prisma.ReportUncheckedCreateNestedManyWithoutReporterInput;
+	reportsReceived?: Prisma.ReportUncheckedCreateNestedManyWithoutReportedUserInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryUncheckedCreateNestedManyWithoutUserInput;
+	subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput;
+	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
+	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
+	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
+	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
+	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+};
+
+export type UserCreateOrConnectWithoutBlocksMadeInput = {
+	where: Prisma.UserWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.UserCreateWithoutBlocksMadeInput,
+		Prisma.UserUncheckedCreateWithoutBlocksMadeInput
+	>;
+};
+
+export type UserCreateWithoutBlockedByInput = {
+	id?: string;
+	walletAddress?: string | null;
+	gender?: string | null;
+	ipAddress?: string | null;
+	avatarUrl?: string | null;
+	interests?: Prisma.UserCreateinterestsInput | string[];
+	isPro?: boolean;
+	proEnd?: Date | string | null;
+	isBanned?: boolean;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	name: string;
+	email: string;
+	emailVerified?: boolean;
+	image?: string | null;
+	role?: string | null;
+	banned?: boolean | null;
+	banReason?: string | null;
+	banExpires?: Date | string | null;
+	isAnonymous?: boolean | null;
+	username?: string | null;
+	displayUsername?: string | null;
+	initiatedCalls?: Prisma.CallCreateNestedManyWithoutInitiatorInput;
+	receivedCalls?: Prisma.CallCreateNestedManyWithoutReceiverInput;
+	sentTexts?: Prisma.TextCreateNestedManyWithoutSenderInput;
+	receivedTexts?: Prisma.TextCreateNestedManyWithoutReceiverInput;
+	userFriendships?: Prisma.FriendshipCreateNestedManyWithoutUserInput;
+	friendFriendships?: Prisma.FriendshipCreateNestedManyWithoutFriendInput;
+	reportsMade?: Prisma.ReportCreateNestedManyWithoutReporterInput;
+	reportsReceived?: Prisma.ReportCreateNestedManyWithoutReportedUserInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryCreateNestedManyWithoutUserInput;
+	subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput;
+	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
+	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
+	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
+	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+};
+
+export type UserUncheckedCreateWithoutBlockedByInput = {
+	id?: string;
+	walletAddress?: string | null;
+	gender?: string | null;
+	ipAddress?: string | null;
+	avatarUrl?: string | null;
+	interests?: Prisma.UserCreateinterestsInput | string[];
+	isPro?: boolean;
+	proEnd?: Date | string | null;
+	isBanned?: boolean;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	name: string;
+	email: string;
+	emailVerified?: boolean;
+	image?: string | null;
+	role?: string | null;
+	banned?: boolean | null;
+	banReason?: string | null;
+	banExpires?: Date | string | null;
+	isAnonymous?: boolean | null;
+	username?: string | null;
+	displayUsername?: string | null;
+	initiatedCalls?: Prisma.CallUncheckedCreateNestedManyWithoutInitiatorInput;
+	receivedCalls?: Prisma.CallUncheckedCreateNestedManyWithoutReceiverInput;
+	sentTexts?: Prisma.TextUncheckedCreateNestedManyWithoutSenderInput;
+	receivedTexts?: Prisma.TextUncheckedCreateNestedManyWithoutReceiverInput;
+	userFriendships?: Prisma.FriendshipUncheckedCreateNestedManyWithoutUserInput;
+	friendFriendships?: Prisma.FriendshipUncheckedCreateNestedManyWithoutFriendInput;
+	reportsMade?: Prisma.ReportUncheckedCreateNestedManyWithoutReporterInput;
+	reportsReceived?: Prisma.ReportUncheckedCreateNestedManyWithoutReportedUserInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryUncheckedCreateNestedManyWithoutUserInput;
+	subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput;
+	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
+	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
+	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
+	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+};
+
+export type UserCreateOrConnectWithoutBlockedByInput = {
+	where: Prisma.UserWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.UserCreateWithoutBlockedByInput,
+		Prisma.UserUncheckedCreateWithoutBlockedByInput
+	>;
+};
+
+export type UserUpsertWithoutBlocksMadeInput = {
+	update: Prisma.XOR<
+		Prisma.UserUpdateWithoutBlocksMadeInput,
+		Prisma.UserUncheckedUpdateWithoutBlocksMadeInput
+	>;
+	create: Prisma.XOR<
+		Prisma.UserCreateWithoutBlocksMadeInput,
+		Prisma.UserUncheckedCreateWithoutBlocksMadeInput
+	>;
+	where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutBlocksMadeInput = {
+	where?: Prisma.UserWhereInput;
+	data: Prisma.XOR<
+		Prisma.UserUpdateWithoutBlocksMadeInput,
+		Prisma.UserUncheckedUpdateWithoutBlocksMadeInput
+	>;
+};
+
+export type UserUpdateWithoutBlocksMadeInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	walletAddress?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	interests?: Prisma.UserUpdateinterestsInput | string[];
+	isPro?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	proEnd?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isBanned?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	name?: Prisma.StringFieldUpdateOperationsInput | string;
+	email?: Prisma.StringFieldUpdateOperationsInput | string;
+	emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banExpires?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isAnonymous?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	displayUsername?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	initiatedCalls?: Prisma.CallUpdateManyWithoutInitiatorNestedInput;
+	receivedCalls?: Prisma.CallUpdateManyWithoutReceiverNestedInput;
+	sentTexts?: Prisma.TextUpdateManyWithoutSenderNestedInput;
+	receivedTexts?: Prisma.TextUpdateManyWithoutReceiverNestedInput;
+	userFriendships?: Prisma.FriendshipUpdateManyWithoutUserNestedInput;
+	friendFriendships?: Prisma.FriendshipUpdateManyWithoutFriendNestedInput;
+	reportsMade?: Prisma.ReportUpdateManyWithoutReporterNestedInput;
+	reportsReceived?: Prisma.ReportUpdateManyWithoutReportedUserNestedInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryUpdateManyWithoutUserNestedInput;
+	subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput;
+	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
+	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
+	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
+	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
+	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutBlocksMadeInput = {
+	id?: Prisma.StringFieldUpdateOperationsInput | string;
+	walletAddress?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	gender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	avatarUrl?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	interests?: Prisma.UserUpdateinterestsInput | string[];
+	isPro?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	proEnd?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isBanned?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+	name?: Prisma.StringFieldUpdateOperationsInput | string;
+	email?: Prisma.StringFieldUpdateOperationsInput | string;
+	emailVerified?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+	image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	role?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banned?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	banReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	banExpires?:
+		| Prisma.NullableDateTimeFieldUpdateOperationsInput
+		| Date
+		| string
+		| null;
+	isAnonymous?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null;
+	username?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+	displayUsername?:
+		| Prisma.NullableStringFieldUpdateOperationsInput
+		| string
+		| null;
+	initiatedCalls?: Prisma.CallUncheckedUpdateManyWithoutInitiatorNestedInput;
+	receivedCalls?: Prisma.CallUncheckedUpdateManyWithoutReceiverNestedInput;
+	sentTexts?: Prisma.TextUncheckedUpdateManyWithoutSenderNestedInput;
+	receivedTexts?: Prisma.TextUncheckedUpdateManyWithoutReceiverNestedInput;
+	userFriendships?: Prisma.FriendshipUncheckedUpdateManyWithoutUserNestedInput;
+	friendFriendships?: Prisma.FriendshipUncheckedUpdateManyWithoutFriendNestedInput;
+	reportsMade?: Prisma.ReportUncheckedUpdateManyWithoutReporterNestedInput;
+	reportsReceived?: Prisma.ReportUncheckedUpdateManyWithoutReportedUserNestedInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryUncheckedUpdateManyWithoutUserNestedInput;
+	subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput;
+	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
+	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
+	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
+	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
+	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+};
+
+export type UserUpsertWithoutBlockedByInput = {
 	update: Prisma.XOR<
-		Prisma.UserUpdateWithoutReportsMadeInput,
-		Prisma.UserUncheckedUpdateWithoutReportsMadeInput
+		Prisma.UserUpdateWithoutBlockedByInput,
+		Prisma.UserUncheckedUpdateWithoutBlockedByInput
 	>;
 	create: Prisma.XOR<
-		Prisma.UserCreateWithoutReportsMadeInput,
-		Prisma.UserUncheckedCreateWithoutReportsMadeInput
+		Prisma.UserCreateWithoutBlockedByInput,
+		Prisma.UserUncheckedCreateWithoutBlockedByInput
 	>;
 	where?: Prisma.UserWhereInput;
 };
 
-export type UserUpdateToOneWithWhereWithoutReportsMadeInput = {
+export type UserUpdateToOneWithWhereWithoutBlockedByInput = {
 	where?: Prisma.UserWhereInput;
 	data: Prisma.XOR<
-		Prisma.UserUpdateWithoutReportsMadeInput,
-		Prisma.UserUncheckedUpdateWithoutReportsMadeInput
+		Prisma.UserUpdateWithoutBlockedByInput,
+		Prisma.UserUncheckedUpdateWithoutBlockedByInput
 	>;
 };
 
-export type UserUpdateWithoutReportsMadeInput = {
+export type UserUpdateWithoutBlockedByInput = {
 	id?: Prisma.StringFieldUpdateOperationsInput | string;
 	walletAddress?:
 		| Prisma.NullableStringFieldUpdateOperationsInput
@@ -3379,19 +4186,22 @@ export type UserUpdateWithoutReportsMadeInput = {
 	receivedTexts?: Prisma.TextUpdateManyWithoutReceiverNestedInput;
 	userFriendships?: Prisma.FriendshipUpdateManyWithoutUserNestedInput;
 	friendFriendships?: Prisma.FriendshipUpdateManyWithoutFriendNestedInput;
+	reportsMade?: Prisma.ReportUpdateManyWithoutReporterNestedInput;
 	reportsReceived?: Prisma.ReportUpdateManyWithoutReportedUserNestedInput;
 	leaderboardEntries?: Prisma.LeaderboardEntryUpdateManyWithoutUserNestedInput;
 	subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput;
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
 
-export type UserUncheckedUpdateWithoutReportsMadeInput = {
+export type UserUncheckedUpdateWithoutBlockedByInput = {
 	id?: Prisma.StringFieldUpdateOperationsInput | string;
 	walletAddress?:
 		| Prisma.NullableStringFieldUpdateOperationsInput
@@ -3434,39 +4244,138 @@ export type UserUncheckedUpdateWithoutReportsMadeInput = {
 	receivedTexts?: Prisma.TextUncheckedUpdateManyWithoutReceiverNestedInput;
 	userFriendships?: Prisma.FriendshipUncheckedUpdateManyWithoutUserNestedInput;
 	friendFriendships?: Prisma.FriendshipUncheckedUpdateManyWithoutFriendNestedInput;
+	reportsMade?: Prisma.ReportUncheckedUpdateManyWithoutReporterNestedInput;
 	reportsReceived?: Prisma.ReportUncheckedUpdateManyWithoutReportedUserNestedInput;
 	leaderboardEntries?: Prisma.LeaderboardEntryUncheckedUpdateManyWithoutUserNestedInput;
 	subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput;
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
 
-export type UserUpsertWithoutReportsReceivedInput = {
+export type UserCreateWithoutSpeedEventsInput = {
+	id?: string;
+	walletAddress?: string | null;
+	gender?: string | null;
+	ipAddress?: string | null;
+	avatarUrl?: string | null;
+	interests?: Prisma.UserCreateinterestsInput | string[];
+	isPro?: boolean;
+	proEnd?: Date | string | null;
+	isBanned?: boolean;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	name: string;
+	email: string;
+	emailVerified?: boolean;
+	image?: string | null;
+	role?: string | null;
+	banned?: boolean | null;
+	banReason?: string | null;
+	banExpires?: Date | string | null;
+	isAnonymous?: boolean | null;
+	username?: string | null;
+	displayUsername?: string | null;
+	initiatedCalls?: Prisma.CallCreateNestedManyWithoutInitiatorInput;
+	receivedCalls?: Prisma.CallCreateNestedManyWithoutReceiverInput;
+	sentTexts?: Prisma.TextCreateNestedManyWithoutSenderInput;
+	receivedTexts?: Prisma.TextCreateNestedManyWithoutReceiverInput;
+	userFriendships?: Prisma.FriendshipCreateNestedManyWithoutUserInput;
+	friendFriendships?: Prisma.FriendshipCreateNestedManyWithoutFriendInput;
+	reportsMade?: Prisma.ReportCreateNestedManyWithoutReporterInput;
+	reportsReceived?: Prisma.ReportCreateNestedManyWithoutReportedUserInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryCreateNestedManyWithoutUserInput;
+	subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput;
+	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
+	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
+	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
+	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+};
+
+export type UserUncheckedCreateWithoutSpeedEventsInput = {
+	id?: string;
+	walletAddress?: string | null;
+	gender?: string | null;
+	ipAddress?: string | null;
+	avatarUrl?: string | null;
+	interests?: Prisma.UserCreateinterestsInput | string[];
+	isPro?: boolean;
+	proEnd?: Date | string | null;
+	isBanned?: boolean;
+	createdAt?: Date | string;
+	updatedAt?: Date | string;
+	name: string;
+	email: string;
+	emailVerified?: boolean;
+	image?: string | null;
+	role?: string | null;
+	banned?: boolean | null;
+	banReason?: string | null;
+	banExpires?: Date | string | null;
+	isAnonymous?: boolean | null;
+	username?: string | null;
+	displayUsername?: string | null;
+	initiatedCalls?: Prisma.CallUncheckedCreateNestedManyWithoutInitiatorInput;
+	receivedCalls?: Prisma.CallUncheckedCreateNestedManyWithoutReceiverInput;
+	sentTexts?: Prisma.TextUncheckedCreateNestedManyWithoutSenderInput;
+	receivedTexts?: Prisma.TextUncheckedCreateNestedManyWithoutReceiverInput;
+	userFriendships?: Prisma.FriendshipUncheckedCreateNestedManyWithoutUserInput;
+	friendFriendships?: Prisma.FriendshipUncheckedCreateNestedManyWithoutFriendInput;
+	reportsMade?: Prisma.ReportUncheckedCreateNestedManyWithoutReporterInput;
+	reportsReceived?: Prisma.ReportUncheckedCreateNestedManyWithoutReportedUserInput;
+	leaderboardEntries?: Prisma.LeaderboardEntryUncheckedCreateNestedManyWithoutUserInput;
+	subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput;
+	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
+	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
+	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
+	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
+	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+};
+
+export type UserCreateOrConnectWithoutSpeedEventsInput = {
+	where: Prisma.UserWhereUniqueInput;
+	create: Prisma.XOR<
+		Prisma.UserCreateWithoutSpeedEventsInput,
+		Prisma.UserUncheckedCreateWithoutSpeedEventsInput
+	>;
+};
+
+export type UserUpsertWithoutSpeedEventsInput = {
 	update: Prisma.XOR<
-		Prisma.UserUpdateWithoutReportsReceivedInput,
-		Prisma.UserUncheckedUpdateWithoutReportsReceivedInput
+		Prisma.UserUpdateWithoutSpeedEventsInput,
+		Prisma.UserUncheckedUpdateWithoutSpeedEventsInput
 	>;
 	create: Prisma.XOR<
-		Prisma.UserCreateWithoutReportsReceivedInput,
-		Prisma.UserUncheckedCreateWithoutReportsReceivedInput
+		Prisma.UserCreateWithoutSpeedEventsInput,
+		Prisma.UserUncheckedCreateWithoutSpeedEventsInput
 	>;
 	where?: Prisma.UserWhereInput;
 };
 
-export type UserUpdateToOneWithWhereWithoutReportsReceivedInput = {
+export type UserUpdateToOneWithWhereWithoutSpeedEventsInput = {
 	where?: Prisma.UserWhereInput;
 	data: Prisma.XOR<
-		Prisma.UserUpdateWithoutReportsReceivedInput,
-		Prisma.UserUncheckedUpdateWithoutReportsReceivedInput
+		Prisma.UserUpdateWithoutSpeedEventsInput,
+		Prisma.UserUncheckedUpdateWithoutSpeedEventsInput
 	>;
 };
 
-export type UserUpdateWithoutReportsReceivedInput = {
+export type UserUpdateWithoutSpeedEventsInput = {
 	id?: Prisma.StringFieldUpdateOperationsInput | string;
 	walletAddress?:
 		| Prisma.NullableStringFieldUpdateOperationsInput
@@ -3510,18 +4419,21 @@ export type UserUpdateWithoutReportsReceivedInput = {
 	userFriendships?: Prisma.FriendshipUpdateManyWithoutUserNestedInput;
 	friendFriendships?: Prisma.FriendshipUpdateManyWithoutFriendNestedInput;
 	reportsMade?: Prisma.ReportUpdateManyWithoutReporterNestedInput;
+	reportsReceived?: Prisma.ReportUpdateManyWithoutReportedUserNestedInput;
 	leaderboardEntries?: Prisma.LeaderboardEntryUpdateManyWithoutUserNestedInput;
 	subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput;
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
 
-export type UserUncheckedUpdateWithoutReportsReceivedInput = {
+export type UserUncheckedUpdateWithoutSpeedEventsInput = {
 	id?: Prisma.StringFieldUpdateOperationsInput | string;
 	walletAddress?:
 		| Prisma.NullableStringFieldUpdateOperationsInput
@@ -3565,11 +4477,14 @@ export type UserUncheckedUpdateWithoutReportsReceivedInput = {
 	userFriendships?: Prisma.FriendshipUncheckedUpdateManyWithoutUserNestedInput;
 	friendFriendships?: Prisma.FriendshipUncheckedUpdateManyWithoutFriendNestedInput;
 	reportsMade?: Prisma.ReportUncheckedUpdateManyWithoutReporterNestedInput;
+	reportsReceived?: Prisma.ReportUncheckedUpdateManyWithoutReportedUserNestedInput;
 	leaderboardEntries?: Prisma.LeaderboardEntryUncheckedUpdateManyWithoutUserNestedInput;
 	subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput;
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
@@ -3611,8 +4526,11 @@ export type UserCreateWithoutLeaderboardEntriesInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -3652,8 +4570,11 @@ export type UserUncheckedCreateWithoutLeaderboardEntriesInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -3735,8 +4656,11 @@ export type UserUpdateWithoutLeaderboardEntriesInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -3790,8 +4714,11 @@ export type UserUncheckedUpdateWithoutLeaderboardEntriesInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -3832,7 +4759,10 @@ export type UserCreateWithoutLuckyWinnerEntryInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -3873,7 +4803,10 @@ export type UserUncheckedCreateWithoutLuckyWinnerEntryInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -3956,7 +4889,10 @@ export type UserUpdateWithoutLuckyWinnerEntryInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -4011,7 +4947,10 @@ export type UserUncheckedUpdateWithoutLuckyWinnerEntryInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -4051,8 +4990,11 @@ export type UserCreateWithoutSubscriptionsInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -4092,8 +5034,11 @@ export type UserUncheckedCreateWithoutSubscriptionsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -4175,8 +5120,11 @@ export type UserUpdateWithoutSubscriptionsInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -4230,8 +5178,11 @@ export type UserUncheckedUpdateWithoutSubscriptionsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -4271,8 +5222,11 @@ export type UserCreateWithoutPointActivityInput = {
 	subscriptions?: Prisma.SubscriptionCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -4312,8 +5266,11 @@ export type UserUncheckedCreateWithoutPointActivityInput = {
 	subscriptions?: Prisma.SubscriptionUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -4395,8 +5352,11 @@ export type UserUpdateWithoutPointActivityInput = {
 	subscriptions?: Prisma.SubscriptionUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -4450,8 +5410,11 @@ export type UserUncheckedUpdateWithoutPointActivityInput = {
 	subscriptions?: Prisma.SubscriptionUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -4492,7 +5455,10 @@ export type UserCreateWithoutNotificationsInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
@@ -4533,7 +5499,10 @@ export type UserUncheckedCreateWithoutNotificationsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
@@ -4616,7 +5585,10 @@ export type UserUpdateWithoutNotificationsInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
@@ -4671,7 +5643,10 @@ export type UserUncheckedUpdateWithoutNotificationsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
@@ -4712,8 +5687,11 @@ export type UserCreateWithoutSessionsInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
 };
 
@@ -4753,8 +5731,11 @@ export type UserUncheckedCreateWithoutSessionsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
 };
 
@@ -4836,8 +5817,11 @@ export type UserUpdateWithoutSessionsInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
 };
 
@@ -4891,8 +5875,11 @@ export type UserUncheckedUpdateWithoutSessionsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
 };
 
@@ -4932,8 +5919,11 @@ export type UserCreateWithoutAccountsInput = {
 	pointActivity?: Prisma.PointActivityCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
 };
 
@@ -4973,8 +5963,11 @@ export type UserUncheckedCreateWithoutAccountsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedCreateNestedManyWithoutUserInput;
 	ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutUserInput;
 	ratedRatings?: Prisma.RatingUncheckedCreateNestedManyWithoutRatedUserInput;
+	blocksMade?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockerInput;
+	blockedBy?: Prisma.BlockUncheckedCreateNestedManyWithoutBlockedInput;
 	notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedCreateNestedManyWithoutUserInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedCreateNestedManyWithoutUserInput;
 	sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
 };
 
@@ -5056,8 +6049,11 @@ export type UserUpdateWithoutAccountsInput = {
 	pointActivity?: Prisma.PointActivityUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
 };
 
@@ -5111,8 +6107,11 @@ export type UserUncheckedUpdateWithoutAccountsInput = {
 	pointActivity?: Prisma.PointActivityUncheckedUpdateManyWithoutUserNestedInput;
 	ratings?: Prisma.RatingUncheckedUpdateManyWithoutUserNestedInput;
 	ratedRatings?: Prisma.RatingUncheckedUpdateManyWithoutRatedUserNestedInput;
+	blocksMade?: Prisma.BlockUncheckedUpdateManyWithoutBlockerNestedInput;
+	blockedBy?: Prisma.BlockUncheckedUpdateManyWithoutBlockedNestedInput;
 	notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput;
 	LuckyWinnerEntry?: Prisma.LuckyWinnerEntryUncheckedUpdateManyWithoutUserNestedInput;
+	speedEvents?: Prisma.SpeedEventRegistrationUncheckedUpdateManyWithoutUserNestedInput;
 	sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
 };
 
@@ -5134,8 +6133,11 @@ export type UserCountOutputType = {
 	pointActivity: number;
 	ratings: number;
 	ratedRatings: number;
+	blocksMade: number;
+	blockedBy: number;
 	notifications: number;
 	LuckyWinnerEntry: number;
+	speedEvents: number;
 	sessions: number;
 	accounts: number;
 };
@@ -5157,8 +6159,11 @@ export type UserCountOutputTypeSelect<
 	pointActivity?: boolean | UserCountOutputTypeCountPointActivityArgs;
 	ratings?: boolean | UserCountOutputTypeCountRatingsArgs;
 	ratedRatings?: boolean | UserCountOutputTypeCountRatedRatingsArgs;
+	blocksMade?: boolean | UserCountOutputTypeCountBlocksMadeArgs;
+	blockedBy?: boolean | UserCountOutputTypeCountBlockedByArgs;
 	notifications?: boolean | UserCountOutputTypeCountNotificationsArgs;
 	LuckyWinnerEntry?: boolean | UserCountOutputTypeCountLuckyWinnerEntryArgs;
+	speedEvents?: boolean | UserCountOutputTypeCountSpeedEventsArgs;
 	sessions?: boolean | UserCountOutputTypeCountSessionsArgs;
 	accounts?: boolean | UserCountOutputTypeCountAccountsArgs;
 };
@@ -5306,6 +6311,26 @@ export type UserCountOutputTypeCountRatedRatingsArgs<
 	where?: Prisma.RatingWhereInput;
 };
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountBlocksMadeArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.BlockWhereInput;
+};
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountBlockedByArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.BlockWhereInput;
+};
+
 /**
  * UserCountOutputType without action
  */
@@ -5326,6 +6351,16 @@ export type UserCountOutputTypeCountLuckyWinnerEntryArgs<
 	where?: Prisma.LuckyWinnerEntryWhereInput;
 };
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSpeedEventsArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+};
+
 /**
  * UserCountOutputType without action
  */
@@ -5386,8 +6421,11 @@ export type UserSelect<
 		pointActivity?: boolean | Prisma.User$pointActivityArgs<ExtArgs>;
 		ratings?: boolean | Prisma.User$ratingsArgs<ExtArgs>;
 		ratedRatings?: boolean | Prisma.User$ratedRatingsArgs<ExtArgs>;
+		blocksMade?: boolean | Prisma.User$blocksMadeArgs<ExtArgs>;
+		blockedBy?: boolean | Prisma.User$blockedByArgs<ExtArgs>;
 		notifications?: boolean | Prisma.User$notificationsArgs<ExtArgs>;
 		LuckyWinnerEntry?: boolean | Prisma.User$LuckyWinnerEntryArgs<ExtArgs>;
+		speedEvents?: boolean | Prisma.User$speedEventsArgs<ExtArgs>;
 		sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>;
 		accounts?: boolean | Prisma.User$accountsArgs<ExtArgs>;
 		_count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>;
@@ -5527,8 +6565,11 @@ export type UserInclude<
 	pointActivity?: boolean | Prisma.User$pointActivityArgs<ExtArgs>;
 	ratings?: boolean | Prisma.User$ratingsArgs<ExtArgs>;
 	ratedRatings?: boolean | Prisma.User$ratedRatingsArgs<ExtArgs>;
+	blocksMade?: boolean | Prisma.User$blocksMadeArgs<ExtArgs>;
+	blockedBy?: boolean | Prisma.User$blockedByArgs<ExtArgs>;
 	notifications?: boolean | Prisma.User$notificationsArgs<ExtArgs>;
 	LuckyWinnerEntry?: boolean | Prisma.User$LuckyWinnerEntryArgs<ExtArgs>;
+	speedEvents?: boolean | Prisma.User$speedEventsArgs<ExtArgs>;
 	sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>;
 	accounts?: boolean | Prisma.User$accountsArgs<ExtArgs>;
 	_count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>;
@@ -5561,8 +6602,11 @@ export type $UserPayload<
 		pointActivity: Prisma.$PointActivityPayload<ExtArgs>[];
 		ratings: Prisma.$RatingPayload<ExtArgs>[];
 		ratedRatings: Prisma.$RatingPayload<ExtArgs>[];
+		blocksMade: Prisma.$BlockPayload<ExtArgs>[];
+		blockedBy: Prisma.$BlockPayload<ExtArgs>[];
 		notifications: Prisma.$NotificationPayload<ExtArgs>[];
 		LuckyWinnerEntry: Prisma.$LuckyWinnerEntryPayload<ExtArgs>[];
+		speedEvents: Prisma.$SpeedEventRegistrationPayload<ExtArgs>[];
 		sessions: Prisma.$SessionPayload<ExtArgs>[];
 		accounts: Prisma.$AccountPayload<ExtArgs>[];
 	};
@@ -6285,6 +7329,28 @@ export interface Prisma__UserClient<
 		  >
 		| Null
 	>;
+	blocksMade<T extends Prisma.User$blocksMadeArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.User$blocksMadeArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		| runtime.Types.Result.GetResult<
+				Prisma.$BlockPayload<ExtArgs>,
+				T,
+				"findMany",
+				GlobalOmitOptions
+		  >
+		| Null
+	>;
+	blockedBy<T extends Prisma.User$blockedByArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.User$blockedByArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		| runtime.Types.Result.GetResult<
+				Prisma.$BlockPayload<ExtArgs>,
+				T,
+				"findMany",
+				GlobalOmitOptions
+		  >
+		| Null
+	>;
 	notifications<T extends Prisma.User$notificationsArgs<ExtArgs> = {}>(
 		args?: Prisma.Subset<T, Prisma.User$notificationsArgs<ExtArgs>>,
 	): Prisma.PrismaPromise<
@@ -6307,6 +7373,17 @@ export interface Prisma__UserClient<
 		  >
 		| Null
 	>;
+	speedEvents<T extends Prisma.User$speedEventsArgs<ExtArgs> = {}>(
+		args?: Prisma.Subset<T, Prisma.User$speedEventsArgs<ExtArgs>>,
+	): Prisma.PrismaPromise<
+		| runtime.Types.Result.GetResult<
+				Prisma.$SpeedEventRegistrationPayload<ExtArgs>,
+				T,
+				"findMany",
+				GlobalOmitOptions
+		  >
+		| Null
+	>;
 	sessions<T extends Prisma.User$sessionsArgs<ExtArgs> = {}>(
 		args?: Prisma.Subset<T, Prisma.User$sessionsArgs<ExtArgs>>,
 	): Prisma.PrismaPromise<
@@ -7220,6 +8297,64 @@ export type User$ratedRatingsArgs<
 	distinct?: Prisma.RatingScalarFieldEnum | Prisma.RatingScalarFieldEnum[];
 };
 
+/**
+ * User.blocksMade
+ */
+export type User$blocksMadeArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Block
+	 */
+	select?: Prisma.BlockSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Block
+	 */
+	omit?: Prisma.BlockOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.BlockInclude<ExtArgs> | null;
+	where?: Prisma.BlockWhereInput;
+	orderBy?:
+		| Prisma.BlockOrderByWithRelationInput
+		| Prisma.BlockOrderByWithRelationInput[];
+	cursor?: Prisma.BlockWhereUniqueInput;
+	take?: number;
+	skip?: number;
+	distinct?: Prisma.BlockScalarFieldEnum | Prisma.BlockScalarFieldEnum[];
+};
+
+/**
+ * User.blockedBy
+ */
+export type User$blockedByArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the Block
+	 */
+	select?: Prisma.BlockSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the Block
+	 */
+	omit?: Prisma.BlockOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.BlockInclude<ExtArgs> | null;
+	where?: Prisma.BlockWhereInput;
+	orderBy?:
+		| Prisma.BlockOrderByWithRelationInput
+		| Prisma.BlockOrderByWithRelationInput[];
+	cursor?: Prisma.BlockWhereUniqueInput;
+	take?: number;
+	skip?: number;
+	distinct?: Prisma.BlockScalarFieldEnum | Prisma.BlockScalarFieldEnum[];
+};
+
 /**
  * User.notifications
  */
@@ -7282,6 +8417,37 @@ export type User$LuckyWinnerEntryArgs<
 		| Prisma.LuckyWinnerEntryScalarFieldEnum[];
 };
 
+/**
+ * User.speedEvents
+ */
+export type User$speedEventsArgs<
+	ExtArgs extends
+		runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+> = {
+	/**
+	 * Select specific fields to fetch from the SpeedEventRegistration
+	 */
+	select?: Prisma.SpeedEventRegistrationSelect<ExtArgs> | null;
+	/**
+	 * Omit specific fields from the SpeedEventRegistration
+	 */
+	omit?: Prisma.SpeedEventRegistrationOmit<ExtArgs> | null;
+	/**
+	 * Choose, which related nodes to fetch as well
+	 */
+	include?: Prisma.SpeedEventRegistrationInclude<ExtArgs> | null;
+	where?: Prisma.SpeedEventRegistrationWhereInput;
+	orderBy?:
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput
+		| Prisma.SpeedEventRegistrationOrderByWithRelationInput[];
+	cursor?: Prisma.SpeedEventRegistrationWhereUniqueInput;
+	take?: number;
+	skip?: number;
+	distinct?:
+		| Prisma.SpeedEventRegistrationScalarFieldEnum
+		| Prisma.SpeedEventRegistrationScalarFieldEnum[];
+};
+
 /**
  * User.sessions
  */
@@ -20,6 +20,10 @@ import {
 	addRecurringJob as addSubscriptionJob,
 	cleanup as subscriptionCleanup,
 } from "./cron/subscription.cron";
+import {
+	addRecurringJob as addSpeedEventJob,
+	cleanup as speedEventCleanup,
+} from "./cron/speed-event.cron";
 import { auth } from "./lib/auth";
 import { toNodeHandler } from "better-auth/node";
 import { errorHandler } from "./utils";
@@ -28,6 +32,7 @@ import { instrument } from "@socket.io/admin-ui";
 import rateLimit from "express-rate-limit";
 import RedisStore from "rate-limit-redis";
 import { AvailableUserService } from "./service/available-user.service";
+import { MatchMetricsService } from "./service/match-metrics.service";
 
 const app = express();
 const httpServer = createServer(app);
@@ -66,6 +71,8 @@ app.use(
 	cors({
 		origin: [FRONTEND_URL, TEST_FRONTEND_URL],
 		credentials: true,
+		// Lets the frontend read how long a throttled user has to wait
+		exposedHeaders: ["Retry-After"],
 	}),
 );
 app.use(helmet());
@@ -125,6 +132,28 @@ app.get("/health", async (_, res) => {
 	});
 });
 
+// Prometheus scrape endpoint; stays hidden until METRICS_TOKEN is set and
+// then requires it as a bearer token
+app.get("/metrics", async (req, res) => {
+	const metricsToken = process.env.METRICS_TOKEN;
+	if (!metricsToken) {
+		res.status(404).send("Not Found");
+		return;
+	}
+	if (req.headers.authorization !== `Bearer ${metricsToken}`) {
+		res.status(401).send("Unauthorized");
+		return;
+	}
+
+	try {
+		const body = await MatchMetricsService.renderPrometheus();
+		res.status(200).type("text/plain; version=0.0.4").send(body);
+	} catch (error) {
+		console.error("Error rendering metrics:", error);
+		res.status(500).send("Failed to render metrics");
+	}
+});
+
 app.use(router);
 
 // Start the recurring job
@@ -146,6 +175,12 @@ addSubscriptionJob()
 	})
 	.catch(console.error);
 
+addSpeedEventJob()
+	.then(() => {
+		console.log("Speed event job Started...");
+	})
+	.catch(console.error);
+
 httpServer.listen(PORT, () => {
 	console.log(`Server is running on port ${PORT}`);
 });
@@ -159,6 +194,7 @@ process.on("SIGTERM", async () => {
 	await matchCleanup();
 	await heartbeatCleanup();
 	await subscriptionCleanup();
+	await speedEventCleanup();
 
 	httpServer.close(() => {
 		console.log("HTTP server closed");
@@ -15,11 +15,24 @@ import { polar_products } from "../constants/pricing";
 import { polar, checkout, portal, webhooks } from "@polar-sh/better-auth";
 import { polarClient } from "./polar";
 import { redis } from "./redis";
+import { InterestService } from "../service/interest.service";
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
 const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:3000";
 
+const normalizeProfileInterests = async <T extends Record<string, unknown>>(
+	user: T,
+) => {
+	if (!Array.isArray(user.interests)) return;
+	return {
+		data: {
+			...user,
+			interests: await InterestService.normalize(user.interests),
+		},
+	};
+};
+
 export const auth = betterAuth({
 	trustedOrigins: [FRONTEND_URL],
 	session: {
@@ -70,6 +83,13 @@ export const auth = betterAuth({
 			},
 		},
 	},
+	// Profile interests are stored in catalog form, like search interests
+	databaseHooks: {
+		user: {
+			create: { before: normalizeProfileInterests },
+			update: { before: normalizeProfileInterests },
+		},
+	},
 	onAPIError: {
 		onError: (error) => {
 			console.error(error);
@@ -1,12 +1,35 @@
 import "dotenv/config";
 import { PrismaPg } from "@prisma/adapter-pg";
-import { PrismaClient } from "../generated/client";
+import { Prisma, PrismaClient } from "../generated/client";
 
 const connectionString = `${process.env.DATABASE_URL}`;
 
 const adapter = new PrismaPg({ connectionString });
 const prisma = new PrismaClient({ adapter });
 
+// Attempts for a serializable transaction that keeps losing to concurrent writes
+const SERIALIZABLE_ATTEMPTS = 3;
 
+/**
+ * Run check-then-write logic in a serializable transaction. Postgres aborts
+ * one of two transactions whose reads and writes overlap, and that one is
+ * retried against the winner's result.
+ */
+async function serializable<T>(
+	fn: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await prisma.$transaction(fn, {
+				isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+			});
+		} catch (error) {
+			const isConflict =
+				error instanceof Prisma.PrismaClientKnownRequestError &&
+				error.code === "P2034";
+			if (!isConflict || attempt >= SERIALIZABLE_ATTEMPTS) throw error;
+		}
+	}
+}
 
-export { prisma };
+export { prisma, serializable };
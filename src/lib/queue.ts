@@ -13,21 +13,57 @@ export const messageQueue = new Queue("chat-messages", sharedQueueConfig);
 export const matchQueue = new Queue("match-queue", sharedQueueConfig);
 
 // Create Queue Events
-const messageQueueEvents = new QueueEvents("chat-messages", sharedQueueConfig);
+export const messageQueueEvents = new QueueEvents(
+	"chat-messages",
+	sharedQueueConfig,
+);
 
 // Create Worker for chat messages
 const messageWorker = new Worker(
 	"chat-messages",
 	async (job) => {
-		const { content, senderId, receiverId, roomId } = job.data;
+		const {
+			id,
+			content,
+			senderId,
+			receiverId,
+			roomId,
+			replyToId,
+			editedAt,
+			deletedAt,
+			edits = [],
+		} = job.data;
 
 		try {
+			// Another instance may not have written the quoted message yet. Retry
+			// while attempts are left, then keep the message without its quote.
+			const replyTarget = replyToId
+				? await prisma.text.findUnique({
+						where: { id: replyToId },
+						select: { id: true },
+					})
+				: null;
+			if (
+				replyToId &&
+				!replyTarget &&
+				job.attemptsMade + 1 < (job.opts.attempts ?? 1)
+			) {
+				throw new Error(`Quoted message ${replyToId} is not stored yet`);
+			}
+
 			const message = await prisma.text.create({
 				data: {
+					// Keep the id the clients were given, so edits and deletes find the row
+					id,
 					content,
 					roomId,
 					senderAnonId: senderId,
 					receiverAnonId: receiverId,
+					replyToId: replyTarget?.id,
+					// Set when the message was changed before it was persisted
+					editedAt,
+					deletedAt,
+					edits: { create: edits },
 				},
 			});
 
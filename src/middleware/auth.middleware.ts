@@ -4,6 +4,7 @@ import { config } from "../config";
 import { auth } from "../lib/auth";
 import { fromNodeHeaders } from "better-auth/node";
 import { SubscriptionService } from "../service/subscription.service";
+import { prisma } from "../lib/prisma";
 export interface UserJWTPayload {
 	id: string;
 	username: string;
@@ -79,3 +80,33 @@ export const requirePro = async (
 		res.status(500).json({ message: "Failed to verify subscription status" });
 	}
 };
+
+export const requireAdmin = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	const userId = req.user?.id;
+	if (!userId) {
+		res.status(401).json({ message: "Unauthorized" });
+		return;
+	}
+
+	try {
+		const user = await prisma.user.findUnique({
+			where: { id: userId },
+			select: { role: true },
+		});
+		// The auth admin plugin stores roles as a comma separated list
+		const roles = user?.role?.split(",").map((role) => role.trim()) ?? [];
+		if (!roles.includes("admin")) {
+			res.status(403).json({ message: "Admin access required" });
+			return;
+		}
+
+		next();
+	} catch (error) {
+		console.error("Admin check failed:", error);
+		res.status(500).json({ message: "Failed to verify admin access" });
+	}
+};
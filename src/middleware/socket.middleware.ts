@@ -11,6 +11,8 @@ interface SocketJWTPayload {
 	receiverId: string;
 	senderUsername?: string;
 	receiverUsername?: string;
+	// Group room tokens have no single receiver
+	isGroup?: boolean;
 }
 
 declare module "socket.io" {
@@ -45,7 +47,11 @@ export const verifyToken = (token?: string) => {
 
 		const decoded = jwt.verify(token, secret) as SocketJWTPayload;
 
-		if (!decoded.roomId || !decoded.senderId || !decoded.receiverId) {
+		if (
+			!decoded.roomId ||
+			!decoded.senderId ||
+			(!decoded.receiverId && !decoded.isGroup)
+		) {
 			throw new Error("Invalid token format");
 		}
 
@@ -0,0 +1,39 @@
+import type { NextFunction, Request, Response } from "express";
+import type { ThrottleAction } from "../config/throttle";
+import { ThrottleService } from "../service/throttle.service";
+
+/**
+ * Reject requests with 429 once a user goes over the action's limit. The
+ * Retry-After header and `data.retryAfter` give the wait in seconds.
+ * Must run after verifyToken so limits are per user rather than per IP.
+ */
+export const throttle = (action: ThrottleAction) => {
+	const throttleService = new ThrottleService(action);
+
+	return async (
+		req: Request,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		const subject = req.user?.id || req.ip || "anonymous";
+
+		try {
+			const result = await throttleService.hit(subject);
+			if (!result.allowed) {
+				const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+				res.setHeader("Retry-After", String(retryAfter));
+				res.status(429).json({
+					success: false,
+					message: "Too many requests, please try again later",
+					data: { action, retryAfter },
+				});
+				return;
+			}
+		} catch (error) {
+			// Failing open keeps search available when Redis misbehaves
+			console.error(`Throttle check for ${action} failed:`, error);
+		}
+
+		next();
+	};
+};
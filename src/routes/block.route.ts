@@ -0,0 +1,19 @@
+import { Router, type RequestHandler } from "express";
+import { validateResponse } from "../middleware/validate.middleware";
+import { BlockController } from "../controller/block.controller";
+import { verifyToken } from "../middleware/auth.middleware";
+
+const router = Router();
+
+const blockController = new BlockController();
+
+router.use(validateResponse);
+router.use(verifyToken);
+
+router.get("/", blockController.getBlockedUsers as RequestHandler);
+
+router.post("/:userId", blockController.blockUser as RequestHandler);
+
+router.delete("/:userId", blockController.unblockUser as RequestHandler);
+
+export default router;
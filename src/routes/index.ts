@@ -10,6 +10,10 @@ import reportRouter from "./report.route";
 import sseRouter from "./sse.route";
 import ratingRouter from "./rating.route";
 import friendChatRouter from "./friend-chat.route";
+import speedEventRouter from "./speed-event.route";
+import interestRouter from "./interest.route";
+import metricsRouter from "./metrics.route";
+import messageRouter from "./message.route";
 import path from "node:path";
 import fs from "node:fs";
 import { router as bullRouter, BASE_PATH as BULL_PATH } from "./bull.route";
@@ -29,6 +33,10 @@ router.use("/api/v1/payment", paymentRouter);
 router.use("/api/v1/reports", reportRouter);
 router.use("/api/v1/ratings", ratingRouter);
 router.use("/api/v1/friend-chat", friendChatRouter);
+router.use("/api/v1/events", speedEventRouter);
+router.use("/api/v1/interests", interestRouter);
+router.use("/api/v1/metrics", metricsRouter);
+router.use("/api/v1/messages", messageRouter);
 router.use("/sse", sseRouter);
 
 // Bull Router Path
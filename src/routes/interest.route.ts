@@ -0,0 +1,35 @@
+import { Router, type RequestHandler } from "express";
+import { validateResponse } from "../middleware/validate.middleware";
+import { InterestController } from "../controller/interest.controller";
+import { requireAdmin, verifyToken } from "../middleware/auth.middleware";
+
+const router = Router();
+
+const interestController = new InterestController();
+const adminOnly = [
+	verifyToken as RequestHandler,
+	requireAdmin as RequestHandler,
+];
+
+router.use(validateResponse);
+
+// Public so the interest picker works before sign-in
+router.get("/", interestController.listInterests as RequestHandler);
+
+router.post(
+	"/",
+	...adminOnly,
+	interestController.createInterest as RequestHandler,
+);
+router.patch(
+	"/:id",
+	...adminOnly,
+	interestController.updateInterest as RequestHandler,
+);
+router.delete(
+	"/:id",
+	...adminOnly,
+	interestController.deleteInterest as RequestHandler,
+);
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router, type RequestHandler } from "express";
+import { validateResponse } from "../middleware/validate.middleware";
+import { MessageController } from "../controller/message.controller";
+import { verifyToken } from "../middleware/auth.middleware";
+
+const router = Router();
+
+const messageController = new MessageController();
+
+router.use(validateResponse);
+router.use(verifyToken);
+
+// Works for match rooms and friend rooms alike
+router.patch(
+	"/rooms/:roomId/:messageId",
+	messageController.editMessage as RequestHandler,
+);
+router.delete(
+	"/rooms/:roomId/:messageId",
+	messageController.deleteMessage as RequestHandler,
+);
+router.get(
+	"/rooms/:roomId/:messageId/edits",
+	messageController.getEditHistory as RequestHandler,
+);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router, type RequestHandler } from "express";
+import { validateResponse } from "../middleware/validate.middleware";
+import { MetricsController } from "../controller/metrics.controller";
+import { requireAdmin, verifyToken } from "../middleware/auth.middleware";
+
+const router = Router();
+
+const metricsController = new MetricsController();
+
+router.use(validateResponse);
+router.use(verifyToken);
+router.use(requireAdmin as RequestHandler);
+
+router.get("/match", metricsController.getMatchMetrics as RequestHandler);
+
+export default router;
@@ -3,18 +3,26 @@ import { SearchController } from "../controller/search.controller";
 import { validateResponse } from "../middleware/validate.middleware";
 import { verifyToken } from "../middleware/auth.middleware";
 import { UserController } from "../controller/user.controller";
+import { throttle } from "../middleware/throttle.middleware";
 
 const callSearchController = new SearchController("call");
 const chatSearchController = new SearchController("chat");
+const videoSearchController = new SearchController("video");
+const groupSearchController = new SearchController("group");
 const userController = new UserController();
 
 const router = Router();
 
+const throttleSearchStart = throttle("searchStart") as RequestHandler;
+const throttleSkip = throttle("skip") as RequestHandler;
+const throttleDirectChat = throttle("directChat") as RequestHandler;
+
 router.use(validateResponse);
 router.use(verifyToken);
 
 router.post(
 	"/call/start-search/:userId",
+	throttleSearchStart,
 	callSearchController.startSearch as RequestHandler,
 );
 router.post(
@@ -25,6 +33,64 @@ router.post(
 	"/call/heartbeat/:userId",
 	callSearchController.heartbeat as RequestHandler,
 );
+router.get("/call/status", callSearchController.getStatus as RequestHandler);
+router.post(
+	"/call/confirm-match",
+	callSearchController.confirmMatch as RequestHandler,
+);
+router.post(
+	"/call/decline-match",
+	callSearchController.declineMatch as RequestHandler,
+);
+router.post(
+	"/call/next",
+	throttleSkip,
+	callSearchController.next as RequestHandler,
+);
+
+router.post(
+	"/video/start-search/:userId",
+	throttleSearchStart,
+	videoSearchController.startSearch as RequestHandler,
+);
+router.post(
+	"/video/stop-search/:userId",
+	videoSearchController.stopSearch as RequestHandler,
+);
+router.post(
+	"/video/heartbeat/:userId",
+	videoSearchController.heartbeat as RequestHandler,
+);
+router.get("/video/status", videoSearchController.getStatus as RequestHandler);
+router.post(
+	"/video/confirm-match",
+	videoSearchController.confirmMatch as RequestHandler,
+);
+router.post(
+	"/video/decline-match",
+	videoSearchController.declineMatch as RequestHandler,
+);
+router.post(
+	"/video/next",
+	throttleSkip,
+	videoSearchController.next as RequestHandler,
+);
+
+// Group rooms open without a confirmation step, so there is no confirm/decline
+router.post(
+	"/group/start-search/:userId",
+	throttleSearchStart,
+	groupSearchController.startSearch as RequestHandler,
+);
+router.post(
+	"/group/stop-search/:userId",
+	groupSearchController.stopSearch as RequestHandler,
+);
+router.post(
+	"/group/heartbeat/:userId",
+	groupSearchController.heartbeat as RequestHandler,
+);
+router.get("/group/status", groupSearchController.getStatus as RequestHandler);
 
 // create public room token
 router.post(
@@ -34,6 +100,7 @@ router.post(
 
 router.post(
 	"/chat/start-search/:userId",
+	throttleSearchStart,
 	chatSearchController.startSearch as RequestHandler,
 );
 router.post(
@@ -44,9 +111,24 @@ router.post(
 	"/chat/heartbeat/:userId",
 	chatSearchController.heartbeat as RequestHandler,
 );
+router.get("/chat/status", chatSearchController.getStatus as RequestHandler);
+router.post(
+	"/chat/confirm-match",
+	chatSearchController.confirmMatch as RequestHandler,
+);
+router.post(
+	"/chat/decline-match",
+	chatSearchController.declineMatch as RequestHandler,
+);
+router.post(
+	"/chat/next",
+	throttleSkip,
+	chatSearchController.next as RequestHandler,
+);
 
 router.post(
 	"/chat/start-direct",
+	throttleDirectChat,
 	chatSearchController.startDirectChat as RequestHandler,
 );
 
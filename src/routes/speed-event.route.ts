@@ -0,0 +1,45 @@
+import { Router, type RequestHandler } from "express";
+import { validateResponse } from "../middleware/validate.middleware";
+import { SpeedEventController } from "../controller/speed-event.controller";
+import { requireAdmin, verifyToken } from "../middleware/auth.middleware";
+
+const router = Router();
+
+const speedEventController = new SpeedEventController();
+
+router.use(validateResponse);
+router.use(verifyToken);
+
+router.get("/", speedEventController.listEvents as RequestHandler);
+router.post(
+	"/",
+	requireAdmin as RequestHandler,
+	speedEventController.createEvent as RequestHandler,
+);
+
+router.get("/:eventId", speedEventController.getEvent as RequestHandler);
+router.post(
+	"/:eventId/cancel",
+	requireAdmin as RequestHandler,
+	speedEventController.cancelEvent as RequestHandler,
+);
+
+router.post(
+	"/:eventId/register",
+	speedEventController.register as RequestHandler,
+);
+router.delete(
+	"/:eventId/register",
+	speedEventController.unregister as RequestHandler,
+);
+
+router.get(
+	"/:eventId/partners",
+	speedEventController.getPartners as RequestHandler,
+);
+router.post(
+	"/:eventId/likes",
+	speedEventController.submitLikes as RequestHandler,
+);
+
+export default router;
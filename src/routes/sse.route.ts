@@ -3,10 +3,16 @@ import { verifyToken } from "../middleware/auth.middleware";
 import { redis } from "../lib/redis";
 import { NotificationService } from "../service/notification.service";
 import { AvailableUserService } from "../service/available-user.service";
+import { QueueStatusService } from "../service/queue-status.service";
+import { SEARCH_TYPES } from "../config/search";
 
 const router = Router();
 const SSE_CHANNEL_PREFIX = "sse:user:";
+const QUEUE_EVENT_INTERVAL_MS = 5000;
 const presenceService = new AvailableUserService("presence");
+const queueStatusServices = SEARCH_TYPES.map(
+  (searchType) => new QueueStatusService(searchType)
+);
 
 router.get("/events", verifyToken, async (req, res) => {
   res.setHeader("Content-Type", "text/event-stream");
@@ -39,6 +45,11 @@ router.get("/events", verifyToken, async (req, res) => {
     if (messageChannel !== channel) return;
     try {
       const payload = JSON.parse(message);
+      // Transient events carry their own SSE event name
+      if (typeof payload?.event === "string" && "data" in payload) {
+        res.write(`event: ${payload.event}\ndata: ${JSON.stringify(payload.data)}\n\n`);
+        return;
+      }
       res.write(`event: notification\n` + `data: ${JSON.stringify(payload)}\n\n`);
     } catch (error) {
       console.error("Failed to parse SSE notification:", error);
@@ -49,7 +60,23 @@ router.get("/events", verifyToken, async (req, res) => {
 
   await NotificationService.sendUnsentNotifications(userId);
 
+  // Periodic queue position for every queue the user is searching in
+  const queueTimer = setInterval(async () => {
+    try {
+      const statuses = await Promise.all(
+        queueStatusServices.map((service) => service.getStatus(userId))
+      );
+      for (const status of statuses) {
+        if (!status.queued) continue;
+        res.write(`event: queue\ndata: ${JSON.stringify(status)}\n\n`);
+      }
+    } catch (error) {
+      console.error("Failed to send SSE queue status:", error);
+    }
+  }, QUEUE_EVENT_INTERVAL_MS);
+
   req.on("close", async () => {
+    clearInterval(queueTimer);
     await presenceService.decrementPresence(userId);
     try {
       await subscriber.unsubscribe(channel);
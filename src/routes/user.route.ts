@@ -2,6 +2,7 @@ import { Router, RequestHandler } from "express";
 import { UserController } from "../controller/user.controller";
 import { validateResponse } from "../middleware/validate.middleware";
 import friendRouter from "./friend.route";
+import blockRouter from "./block.route";
 import { verifyToken } from "../middleware/auth.middleware";
 
 const userController = new UserController();
@@ -29,5 +30,6 @@ router.get(
 router.use("/rankings", userController.getRankings as RequestHandler);
 
 router.use("/friends", friendRouter);
+router.use("/blocks", blockRouter);
 
 export default router;
@@ -1,11 +1,57 @@
+import type { ChainableCommander } from "ioredis";
 import { v4 as uuidv4 } from "uuid";
 import { generateToken } from "../middleware/socket.middleware";
 import { redis } from "../lib/redis";
+import type {
+	MatchFilters,
+	SearchPreferences,
+} from "../validation/search.validation";
+import type { MatchCandidate, MatchProfile } from "./match-filter.service";
+import { matchConfig } from "../config/match";
+import { InterestService } from "./interest.service";
 
 const USER_TTL = 120;
 const USER_FIELD_IS_SEARCHING = "isSearching";
 const USER_FIELD_IS_ONLINE = "isOnline";
 const USER_FIELD_CONNECTIONS = "connections";
+const USER_PREFERENCE_FIELDS = [
+	"preferredGender",
+	"language",
+	"region",
+	"ageBand",
+	"mode",
+] as const satisfies readonly (keyof SearchPreferences)[];
+// Per-search attributes the matcher scores and filters on
+const USER_MATCH_FIELDS = [
+	"gender",
+	"rating",
+	"ratingCount",
+	"reportCount",
+	"filters",
+	"tier",
+] as const;
+
+export type PriorityTier = "pro" | "standard";
+
+export interface AvailableUser {
+	userId: string;
+	interests: string[];
+	username: string;
+	preferences: SearchPreferences;
+	profile: MatchProfile;
+	filters: MatchFilters | null;
+	tier: PriorityTier;
+	joinedAt: number;
+}
+
+export interface MatchAttributes {
+	gender?: string | null;
+	rating?: number;
+	ratingCount?: number;
+	reportCount?: number;
+	filters?: MatchFilters | null;
+	tier?: PriorityTier;
+}
 
 export class AvailableUserService {
 	private searchType: string;
@@ -90,13 +136,13 @@ export class AvailableUserService {
 		return { userOneJWT, userTwoJWT };
 	}
 
-	async addUser(userId: string, username = "", interests: string[] = []) {
-		const now = Date.now();
-		const tsScore = now; // use ms score to be precise, but we compare with Date.now() as ms
-		const userHashKey = `user:${this.searchType}:${userId}`;
-		const usersZKey = `users:${this.searchType}`; // now a ZSET (score = timestamp)
-		const userInterestsKey = `user_interests:${this.searchType}:${userId}`;
-
+	async addUser(
+		userId: string,
+		username = "",
+		interests: string[] = [],
+		preferences: SearchPreferences = {},
+		attributes: MatchAttributes = {},
+	) {
 		// 1) If username provided, check for collisions and remove old user with same username
 		if (username) {
 			const existingUserIds = await redis.smembers(
@@ -112,6 +158,38 @@ export class AvailableUserService {
 		}
 
 		const pipeline = redis.pipeline();
+		this.queueUserWrite(
+			pipeline,
+			userId,
+			username,
+			interests,
+			preferences,
+			attributes,
+		);
+
+		// 7) Exec pipeline
+		await pipeline.exec();
+
+		return userId;
+	}
+
+	/**
+	 * Add the commands that put a user in the queue to a caller's pipeline or
+	 * transaction. Unlike addUser this skips the username collision check.
+	 */
+	queueUserWrite(
+		pipeline: ChainableCommander,
+		userId: string,
+		username = "",
+		interests: string[] = [],
+		preferences: SearchPreferences = {},
+		attributes: MatchAttributes = {},
+	) {
+		const now = Date.now();
+		const tsScore = now; // use ms score to be precise, but we compare with Date.now() as ms
+		const userHashKey = `user:${this.searchType}:${userId}`;
+		const usersZKey = `users:${this.searchType}`; // now a ZSET (score = timestamp)
+		const userInterestsKey = `user_interests:${this.searchType}:${userId}`;
 
 		// 2) Add to master users ZSET (score = timestamp). We'll use ZSET so we can remove old members by score later.
 		pipeline.zadd(usersZKey, tsScore, userId);
@@ -132,12 +210,35 @@ export class AvailableUserService {
 		pipeline.hset(userHashKey, "username", username || "");
 		pipeline.hset(userHashKey, "timestamp", String(now));
 		pipeline.hset(userHashKey, USER_FIELD_IS_SEARCHING, "true");
+		// Search preferences live on the same hash so the matcher reads them in one pass
+		pipeline.hdel(userHashKey, ...USER_PREFERENCE_FIELDS);
+		for (const field of USER_PREFERENCE_FIELDS) {
+			const value = preferences[field];
+			if (value) {
+				pipeline.hset(userHashKey, field, value);
+			}
+		}
+		pipeline.hdel(userHashKey, ...USER_MATCH_FIELDS);
+		for (const field of USER_MATCH_FIELDS) {
+			const value = attributes[field];
+			if (value === undefined || value === null) continue;
+			pipeline.hset(
+				userHashKey,
+				field,
+				typeof value === "object" ? JSON.stringify(value) : String(value),
+			);
+		}
 		pipeline.expire(userHashKey, USER_TTL);
 
 		// 5) For each interest, add to interest ZSET (score = timestamp). This lets us prune stale members later.
+		// Pro users carry their head start here too, so bucket scans reach them first.
+		const interestScore =
+			attributes.tier === "pro"
+				? tsScore - matchConfig.priority.proHeadStartMs
+				: tsScore;
 		for (const interest of interests) {
 			const interestZKey = `interest:${this.searchType}:${interest}`; // ZSET
-			pipeline.zadd(interestZKey, tsScore, userId);
+			pipeline.zadd(interestZKey, interestScore, userId);
 			pipeline.expire(interestZKey, USER_TTL + 30); // small cushion
 		}
 
@@ -147,11 +248,6 @@ export class AvailableUserService {
 			pipeline.zadd(userInterestsKey, i, interests[i]);
 		}
 		pipeline.expire(userInterestsKey, USER_TTL);
-
-		// 7) Exec pipeline
-		await pipeline.exec();
-
-		return userId;
 	}
 
 	async removeUser(userId: string, options: { keepRecord?: boolean } = {}) {
@@ -185,6 +281,50 @@ export class AvailableUserService {
 		await pipeline.exec();
 	}
 
+	/**
+	 * Take users off the queue while keeping their search data, so they can
+	 * be put back with requeueUser
+	 */
+	async dequeueUsers(userIds: string[]) {
+		if (userIds.length === 0) return;
+		await redis.zrem(`users:${this.searchType}`, ...userIds);
+	}
+
+	/**
+	 * Put a dequeued user back at the front of the queue. Their original join
+	 * time is kept unless someone has been waiting longer.
+	 */
+	async requeueUser(userId: string, joinedAt: number) {
+		const usersZKey = `users:${this.searchType}`;
+		const userHashKey = `user:${this.searchType}:${userId}`;
+		const userInterestsKey = `user_interests:${this.searchType}:${userId}`;
+
+		const [oldest, interests, tier] = await Promise.all([
+			redis.zrange(usersZKey, 0, 0, "WITHSCORES"),
+			redis.zrange(userInterestsKey, 0, -1),
+			redis.hget(userHashKey, "tier"),
+		]);
+		const score =
+			oldest.length === 2
+				? Math.min(joinedAt, Number(oldest[1]) - 1)
+				: joinedAt;
+		// Same head start as queueUserWrite gives Pro users in interest buckets
+		const interestScore =
+			tier === "pro" ? score - matchConfig.priority.proHeadStartMs : score;
+
+		const pipeline = redis.pipeline();
+		pipeline.zadd(usersZKey, score, userId);
+		pipeline.hset(userHashKey, USER_FIELD_IS_SEARCHING, "true");
+		pipeline.expire(userHashKey, USER_TTL);
+		for (const interest of interests) {
+			const interestZKey = `interest:${this.searchType}:${interest}`;
+			pipeline.zadd(interestZKey, interestScore, userId);
+			pipeline.expire(interestZKey, USER_TTL + 30);
+		}
+		pipeline.expire(userInterestsKey, USER_TTL);
+		await pipeline.exec();
+	}
+
 	async incrementPresence(userId: string, username = ""): Promise<number> {
 		const userHashKey = `user:${this.searchType}:${userId}`;
 		const usersZKey = `users:${this.searchType}`;
@@ -239,11 +379,68 @@ export class AvailableUserService {
 		return redis.zcard(`users:${this.searchType}`);
 	}
 
+	/**
+	 * When a queued user joined, or null when they are not queued
+	 */
+	async getQueueEntry(userId: string): Promise<{ joinedAt: number } | null> {
+		const score = await redis.zscore(`users:${this.searchType}`, userId);
+		if (score === null) return null;
+		return { joinedAt: Number(score) };
+	}
+
+	async getUserTier(userId: string): Promise<PriorityTier> {
+		const tier = await redis.hget(`user:${this.searchType}:${userId}`, "tier");
+		return tier === "pro" ? "pro" : "standard";
+	}
+
+	/**
+	 * Users the matcher serves before someone with the given priority time:
+	 * everyone who joined earlier, plus the later joiners whose Pro head
+	 * start moves them in front
+	 */
+	async countUsersAhead(priorityTime: number): Promise<number> {
+		const usersZKey = `users:${this.searchType}`;
+		const [earlier, laterUserIds] = await Promise.all([
+			redis.zcount(usersZKey, "-inf", `(${priorityTime}`),
+			redis.zrangebyscore(
+				usersZKey,
+				priorityTime,
+				`(${priorityTime + matchConfig.priority.proHeadStartMs}`,
+			),
+		]);
+		if (laterUserIds.length === 0) return earlier;
+
+		const pipeline = redis.pipeline();
+		for (const userId of laterUserIds) {
+			pipeline.hget(`user:${this.searchType}:${userId}`, "tier");
+		}
+		const tiers = (await pipeline.exec()) ?? [];
+		return earlier + tiers.filter(([, tier]) => tier === "pro").length;
+	}
+
 	async isUserOnline(userId: string): Promise<boolean> {
 		const score = await redis.zscore(`users:${this.searchType}`, userId);
 		return score !== null;
 	}
 
+	/**
+	 * Which of the given users are in this set right now, in one round trip
+	 */
+	async getOnlineUserIds(userIds: string[]): Promise<Set<string>> {
+		if (userIds.length === 0) return new Set();
+		const pipeline = redis.pipeline();
+		for (const userId of userIds) {
+			pipeline.zscore(`users:${this.searchType}`, userId);
+		}
+		const results = (await pipeline.exec()) ?? [];
+		return new Set(
+			userIds.filter((_, index) => {
+				const score = results[index]?.[1];
+				return score !== null && score !== undefined;
+			}),
+		);
+	}
+
 	async updateUserHeartbeat(userId: string) {
 		// Update the user's last heartbeat timestamp
 		await redis.hset(
@@ -294,27 +491,102 @@ export class AvailableUserService {
 		return inactiveUsers.length;
 	}
 
-	async getAvailableUsers(): Promise<
-		{ userId: string; interests: string[]; username: string }[]
-	> {
-		const userIds = await redis.zrange(`users:${this.searchType}`, 0, -1);
+	async getAvailableUsers(): Promise<AvailableUser[]> {
+		// The ZSET score is the join time, which drives wait-time aging
+		const entries = await redis.zrange(
+			`users:${this.searchType}`,
+			0,
+			-1,
+			"WITHSCORES",
+		);
+		const userIds: string[] = [];
+		const joinedAt = new Map<string, number>();
+		for (let i = 0; i < entries.length; i += 2) {
+			userIds.push(entries[i]);
+			joinedAt.set(entries[i], Number(entries[i + 1]));
+		}
 
 		if (userIds.length === 0) return [];
 
 		const pipeline = redis.pipeline();
 		for (const userId of userIds) {
 			pipeline.zrange(`user_interests:${this.searchType}:${userId}`, 0, -1);
-			pipeline.hget(`user:${this.searchType}:${userId}`, "username");
+			pipeline.hmget(
+				`user:${this.searchType}:${userId}`,
+				"username",
+				"timestamp",
+				...USER_MATCH_FIELDS,
+				...USER_PREFERENCE_FIELDS,
+			);
 		}
 
 		const results = await pipeline.exec();
 		if (!results) return [];
 
-		return userIds.map((userId, index) => ({
-			userId,
-			interests: (results[index * 2][1] as string[]) || [],
-			username: (results[index * 2 + 1][1] as string) || "",
-		}));
+		return userIds.map((userId, index) => {
+			const values = (results[index * 2 + 1][1] as (string | null)[]) || [];
+			const [username, timestamp] = values;
+			const matchValues = values.slice(2, 2 + USER_MATCH_FIELDS.length);
+			const preferences = this.toSearchPreferences(
+				values.slice(2 + USER_MATCH_FIELDS.length),
+			);
+			return {
+				userId,
+				interests: (results[index * 2][1] as string[]) || [],
+				username: username || "",
+				preferences,
+				joinedAt:
+					joinedAt.get(userId) ?? (timestamp ? Number(timestamp) : Date.now()),
+				...this.toMatchCandidate(preferences, matchValues),
+				tier: matchValues[5] === "pro" ? "pro" : "standard",
+			};
+		});
+	}
+
+	private toMatchCandidate(
+		preferences: SearchPreferences,
+		values: (string | null | undefined)[],
+	): MatchCandidate {
+		const [gender, rating, ratingCount, reportCount, filters] = values;
+		let parsedFilters: MatchFilters | null = null;
+		if (filters) {
+			try {
+				parsedFilters = JSON.parse(filters) as MatchFilters;
+			} catch {
+				parsedFilters = null;
+			}
+		}
+
+		return {
+			profile: {
+				gender: gender || undefined,
+				language: preferences.language,
+				region: preferences.region,
+				rating: rating ? Number(rating) : undefined,
+				ratingCount: ratingCount ? Number(ratingCount) : 0,
+				reportCount: reportCount ? Number(reportCount) : 0,
+			},
+			filters: parsedFilters,
+		};
+	}
+
+	async getSearchPreferences(userId: string): Promise<SearchPreferences> {
+		const values = await redis.hmget(
+			`user:${this.searchType}:${userId}`,
+			...USER_PREFERENCE_FIELDS,
+		);
+		return this.toSearchPreferences(values);
+	}
+
+	private toSearchPreferences(values: (string | null)[]): SearchPreferences {
+		const preferences: Record<string, string> = {};
+		USER_PREFERENCE_FIELDS.forEach((field, index) => {
+			const value = values[index];
+			if (value) {
+				preferences[field] = value;
+			}
+		});
+		return preferences as SearchPreferences;
 	}
 
 	async getUsersByInterest(interest: string): Promise<string[]> {
@@ -365,6 +637,27 @@ export class AvailableUserService {
 		return common;
 	}
 
+	/**
+	 * Members of each interest ZSET, longest waiting first, in one pipeline
+	 */
+	async getInterestBuckets(
+		interests: string[],
+	): Promise<Map<string, string[]>> {
+		const buckets = new Map<string, string[]>();
+		if (interests.length === 0) return buckets;
+
+		const pipeline = redis.pipeline();
+		for (const interest of interests) {
+			pipeline.zrange(`interest:${this.searchType}:${interest}`, 0, -1);
+		}
+
+		const results = (await pipeline.exec()) || [];
+		interests.forEach((interest, index) => {
+			buckets.set(interest, (results[index]?.[1] as string[]) || []);
+		});
+		return buckets;
+	}
+
 	async getUserInterests(userId: string): Promise<string[]> {
 		return redis.zrange(`user_interests:${this.searchType}:${userId}`, 0, -1);
 	}
@@ -412,8 +705,9 @@ export class AvailableUserService {
 
 	async updateUserInterests(
 		userId: string,
-		newInterests: string[],
+		requestedInterests: string[],
 	): Promise<void> {
+		const newInterests = await InterestService.normalize(requestedInterests);
 		// Get current interests
 		const currentInterests = await this.getUserInterests(userId);
 
@@ -0,0 +1,146 @@
+import { prisma } from "../lib/prisma";
+import { redis } from "../lib/redis";
+
+const USER_SELECT = {
+	id: true,
+	username: true,
+	displayUsername: true,
+	name: true,
+	avatarUrl: true,
+	image: true,
+};
+
+export class BlockService {
+	// Cache TTL (in seconds) for the per-user list of blocked relations
+	private static readonly CACHE_TTL = 300;
+
+	// Users this user has blocked or been blocked by, in either direction
+	private static getRelatedKey(userId: string) {
+		return `blocks:related:${userId}`;
+	}
+
+	/* ----------------------------- helpers ----------------------------- */
+
+	async resolveUserId(input: string): Promise<string | null> {
+		if (!input) return null;
+		const user = await prisma.user.findFirst({
+			where: {
+				OR: [{ id: input }, { username: input }, { displayUsername: input }],
+			},
+			select: { id: true },
+		});
+		return user?.id ?? null;
+	}
+
+	private async invalidate(...userIds: string[]) {
+		await redis.del(...userIds.map((id) => BlockService.getRelatedKey(id)));
+	}
+
+	/* ----------------------------- block / unblock ---------------------- */
+
+	async blockUser(blockerId: string, target: string) {
+		const blockedId = await this.resolveUserId(target);
+		if (!blockedId) throw new Error("User not found");
+		if (blockedId === blockerId) throw new Error("Cannot block yourself");
+
+		const block = await prisma.block.upsert({
+			where: { blockerId_blockedId: { blockerId, blockedId } },
+			update: {},
+			create: { blockerId, blockedId },
+			include: { blocked: { select: USER_SELECT } },
+		});
+
+		await this.invalidate(blockerId, blockedId);
+		return block;
+	}
+
+	async unblockUser(blockerId: string, target: string) {
+		const blockedId = await this.resolveUserId(target);
+		if (!blockedId) throw new Error("User not found");
+
+		const { count } = await prisma.block.deleteMany({
+			where: { blockerId, blockedId },
+		});
+		if (count === 0) throw new Error("Block not found");
+
+		await this.invalidate(blockerId, blockedId);
+		return { message: "User unblocked successfully" };
+	}
+
+	async getBlockedUsers(blockerId: string) {
+		const blocks = await prisma.block.findMany({
+			where: { blockerId },
+			include: { blocked: { select: USER_SELECT } },
+			orderBy: { createdAt: "desc" },
+		});
+
+		return blocks.map((block) => ({
+			...block.blocked,
+			blockId: block.id,
+			blockedAt: block.createdAt,
+		}));
+	}
+
+	/* ----------------------------- lookups ------------------------------ */
+
+	/**
+	 * Get the blocked relations for several users at once.
+	 * Cached users come from Redis; the rest are loaded in a single query.
+	 */
+	async getBlockedRelations(
+		userIds: string[],
+	): Promise<Map<string, Set<string>>> {
+		const relations = new Map<string, Set<string>>();
+		if (userIds.length === 0) return relations;
+
+		const cached = await redis.mget(
+			...userIds.map((id) => BlockService.getRelatedKey(id)),
+		);
+
+		const missing: string[] = [];
+		userIds.forEach((userId, index) => {
+			const raw = cached[index];
+			if (raw) {
+				relations.set(userId, new Set(JSON.parse(raw) as string[]));
+			} else {
+				relations.set(userId, new Set());
+				missing.push(userId);
+			}
+		});
+
+		if (missing.length === 0) return relations;
+
+		const blocks = await prisma.block.findMany({
+			where: {
+				OR: [{ blockerId: { in: missing } }, { blockedId: { in: missing } }],
+			},
+			select: { blockerId: true, blockedId: true },
+		});
+
+		for (const { blockerId, blockedId } of blocks) {
+			relations.get(blockerId)?.add(blockedId);
+			relations.get(blockedId)?.add(blockerId);
+		}
+
+		const pipeline = redis.pipeline();
+		for (const userId of missing) {
+			pipeline.setex(
+				BlockService.getRelatedKey(userId),
+				BlockService.CACHE_TTL,
+				JSON.stringify(Array.from(relations.get(userId) ?? [])),
+			);
+		}
+		await pipeline.exec();
+
+		return relations;
+	}
+
+	/**
+	 * True when either user has blocked the other
+	 */
+	async isBlocked(userId: string, otherUserId: string): Promise<boolean> {
+		if (!userId || !otherUserId || userId === otherUserId) return false;
+		const relations = await this.getBlockedRelations([userId]);
+		return relations.get(userId)?.has(otherUserId) ?? false;
+	}
+}
@@ -0,0 +1,233 @@
+import { matchConfig } from "../config/match";
+import type { AvailableUser } from "./available-user.service";
+import { MatchFilterService } from "./match-filter.service";
+import { MatchScoreService } from "./match-score.service";
+
+export interface PlannedMatch {
+	user1: AvailableUser;
+	user2: AvailableUser;
+	commonInterests: string[];
+	score: number;
+}
+
+export interface BucketMatcherOptions {
+	// Pairs that must not be formed this tick (recent partners, blocks)
+	isExcluded?: (user1: AvailableUser, user2: AvailableUser) => boolean;
+	now?: number;
+}
+
+type Candidate = [user: AvailableUser, commonInterests: string[]];
+
+/**
+ * Pairs waiting users by walking interest buckets instead of every pair.
+ * Each user reads a bounded number of candidates per interest, so a tick
+ * costs O(users × interests) rather than O(users²). Users are served in
+ * join order, with a capped head start for Pro subscribers, and lower their
+ * interest requirement the longer they wait.
+ */
+export class BucketMatcher {
+	static pair(
+		users: AvailableUser[],
+		buckets: Map<string, string[]>,
+		options: BucketMatcherOptions = {},
+	): PlannedMatch[] {
+		const now = options.now ?? Date.now();
+		const { maxCandidatesPerBucket, fallbackWindow } = matchConfig.bucket;
+		const usersById = new Map(users.map((user) => [user.userId, user]));
+
+		// Longest waiting users pick first, with Pro subscribers' head start
+		const queue = [...users].sort(MatchScoreService.byPriority);
+		// Users that can still be paired, in queue order
+		const unpaired = new Set(queue.map((user) => user.userId));
+		// Users not yet processed, in queue order; fallback partners come from here
+		const pending = new Set(unpaired);
+
+		// Only users that are still unpaired stay in a bucket
+		const openBuckets = new Map<string, Set<string>>();
+		for (const [interest, memberIds] of buckets) {
+			const members = new Set(memberIds.filter((id) => usersById.has(id)));
+			if (members.size > 1) openBuckets.set(interest, members);
+		}
+
+		const claim = (user: AvailableUser) => {
+			unpaired.delete(user.userId);
+			pending.delete(user.userId);
+			for (const interest of user.interests) {
+				openBuckets.get(interest)?.delete(user.userId);
+			}
+		};
+
+		const pairs: PlannedMatch[] = [];
+		for (const user of queue) {
+			if (!pending.has(user.userId)) continue;
+			pending.delete(user.userId);
+
+			const shared = new Map<string, string[]>();
+			for (const interest of user.interests) {
+				const members = openBuckets.get(interest);
+				if (!members) continue;
+
+				let scanned = 0;
+				for (const candidateId of members) {
+					if (candidateId === user.userId) continue;
+					if (scanned++ >= maxCandidatesPerBucket) break;
+					const commonInterests = shared.get(candidateId);
+					if (commonInterests) {
+						commonInterests.push(interest);
+					} else {
+						shared.set(candidateId, [interest]);
+					}
+				}
+			}
+
+			const candidates: Candidate[] = [];
+			for (const [candidateId, commonInterests] of shared) {
+				const candidate = usersById.get(candidateId);
+				if (candidate) candidates.push([candidate, commonInterests]);
+			}
+
+			let best = BucketMatcher.pickBest(user, candidates, options, now);
+
+			// Nobody compatible shares enough interests, so look further down the queue.
+			// Users past the guarantee threshold check everyone left, not just a window.
+			if (!best) {
+				const guaranteed = BucketMatcher.isGuaranteed(user, now);
+				const limit = guaranteed ? Number.POSITIVE_INFINITY : fallbackWindow;
+				const fallback: Candidate[] = [];
+				for (const candidateId of guaranteed ? unpaired : pending) {
+					if (fallback.length >= limit) break;
+					const candidate = usersById.get(candidateId);
+					if (candidate && !shared.has(candidateId)) {
+						fallback.push([
+							candidate,
+							user.interests.filter((interest) =>
+								candidate.interests.includes(interest),
+							),
+						]);
+					}
+				}
+				best = BucketMatcher.pickBest(user, fallback, options, now);
+			}
+
+			if (!best) {
+				// Still reachable through the interest buckets of later users
+				continue;
+			}
+
+			claim(best.user1);
+			claim(best.user2);
+			pairs.push(best);
+		}
+
+		return pairs;
+	}
+
+	/**
+	 * Interest buckets built from the users themselves, in queue priority order.
+	 * Matches what the interest ZSETs hold, for callers without Redis.
+	 */
+	static buildBuckets(users: AvailableUser[]): Map<string, string[]> {
+		const buckets = new Map<string, string[]>();
+		const queue = [...users].sort(MatchScoreService.byPriority);
+		for (const user of queue) {
+			for (const interest of user.interests) {
+				const members = buckets.get(interest);
+				if (members) {
+					members.push(user.userId);
+				} else {
+					buckets.set(interest, [user.userId]);
+				}
+			}
+		}
+		return buckets;
+	}
+
+	static canPair(
+		user1: AvailableUser,
+		user2: AvailableUser,
+		options: BucketMatcherOptions = {},
+	): boolean {
+		return (
+			user1.userId !== user2.userId &&
+			user1.username !== user2.username &&
+			MatchFilterService.isMutuallyCompatible(user1, user2) &&
+			!options.isExcluded?.(user1, user2)
+		);
+	}
+
+	static isGuaranteed(user: AvailableUser, now = Date.now()): boolean {
+		return now - user.joinedAt >= matchConfig.aging.guaranteeAfterMs;
+	}
+
+	/**
+	 * Shared interests a user still holds out for. Starts at the configured
+	 * requirement and drops by one for every relax step spent waiting.
+	 */
+	static requiredCommonInterests(
+		user: AvailableUser,
+		now = Date.now(),
+	): number {
+		const { requiredCommonInterests, relaxStepMs } = matchConfig.aging;
+		const waitedMs = Math.max(0, now - user.joinedAt);
+		const relaxed =
+			relaxStepMs > 0
+				? Math.floor(waitedMs / relaxStepMs)
+				: requiredCommonInterests;
+		return Math.max(
+			0,
+			Math.min(user.interests.length, requiredCommonInterests) - relaxed,
+		);
+	}
+
+	// Both users must accept the overlap, unless either one is owed a partner
+	static acceptsOverlap(
+		user1: AvailableUser,
+		user2: AvailableUser,
+		commonInterestCount: number,
+		now = Date.now(),
+	): boolean {
+		if (
+			BucketMatcher.isGuaranteed(user1, now) ||
+			BucketMatcher.isGuaranteed(user2, now)
+		) {
+			return true;
+		}
+		return (
+			commonInterestCount >=
+				BucketMatcher.requiredCommonInterests(user1, now) &&
+			commonInterestCount >= BucketMatcher.requiredCommonInterests(user2, now)
+		);
+	}
+
+	private static pickBest(
+		user: AvailableUser,
+		candidates: Candidate[],
+		options: BucketMatcherOptions,
+		now: number,
+	): PlannedMatch | null {
+		let best: PlannedMatch | null = null;
+		for (const [candidate, commonInterests] of candidates) {
+			if (!BucketMatcher.canPair(user, candidate, options)) continue;
+			if (
+				!BucketMatcher.acceptsOverlap(
+					user,
+					candidate,
+					commonInterests.length,
+					now,
+				)
+			) {
+				continue;
+			}
+			const score = MatchScoreService.scorePair(
+				user,
+				candidate,
+				commonInterests.length,
+				now,
+			);
+			if (!best || score > best.score) {
+				best = { user1: user, user2: candidate, commonInterests, score };
+			}
+		}
+		return best;
+	}
+}
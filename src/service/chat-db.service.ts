@@ -1,9 +1,32 @@
+import type { Job } from "bullmq";
 import ChatRoomService from "./room.service";
-import { messageQueue } from "../lib/queue";
+import { messageQueue, messageQueueEvents } from "../lib/queue";
 import { v4 as uuidv4 } from "uuid";
 import { redis } from "../lib/redis";
+import { prisma } from "../lib/prisma";
+import { chatConfig } from "../config/chat";
+import type { QuotedMessage } from "../validation/chat.validation";
 
 const GLOBAL_MESSAGE_KEY = `global:message`;
+// How long a change waits for a message that is being persisted right now
+const PERSIST_WAIT_MS = 5000;
+// Job states the worker has not picked up yet
+const PENDING_JOB_STATES = new Set(["waiting", "delayed", "prioritized"]);
+
+export interface StoredText {
+	id: string;
+	roomId: string;
+	content: string;
+	// Every identifier the sender may be known by
+	senderIds: string[];
+	sentAt: Date;
+	deletedAt: Date | null;
+}
+
+export interface TextEditEntry {
+	content: string;
+	editedAt: Date;
+}
 
 export default class ChatDBService {
 	private chatRoomService: ChatRoomService;
@@ -21,6 +44,7 @@ export default class ChatDBService {
 		senderId: string,
 		receiverId: string,
 		roomId: string,
+		replyTo: QuotedMessage | null = null,
 	) {
 		// TODO: Add chat room to database
 		const chatRoom = await this.chatRoomService.getRoom(roomId);
@@ -35,28 +59,229 @@ export default class ChatDBService {
 			senderId,
 			receiverId,
 			roomId,
+			replyToId: replyTo?.id,
+			// Served with queued history until the row and its relation exist
+			replyTo,
 			timestamp: new Date().toISOString(),
 		};
 
-		await messageQueue.add("processMessage", messageObj);
+		// Keyed by the message id, so changes can find the job directly. Retries
+		// let a reply wait for the message it quotes to be written first.
+		await messageQueue.add("processMessage", messageObj, {
+			jobId: messageObj.id,
+			attempts: chatConfig.persistence.attempts,
+			backoff: { type: "exponential", delay: chatConfig.persistence.backoffMs },
+		});
 
 		// Wait for job completion and return result
 		return messageObj;
 	}
 
+	/**
+	 * A message that has not been written yet, so changes can go into the job
+	 * instead. Waits for a job that is being processed so the row exists.
+	 */
+	private async findPendingJob(messageId: string): Promise<Job | null> {
+		const job = await messageQueue.getJob(messageId);
+		if (!job) return null;
+
+		const state = await job.getState();
+		if (state === "active") {
+			await this.waitForJob(job);
+			return null;
+		}
+		return PENDING_JOB_STATES.has(state) ? job : null;
+	}
+
+	private async waitForJob(job: Job) {
+		await job
+			.waitUntilFinished(messageQueueEvents, PERSIST_WAIT_MS)
+			.catch(() => undefined);
+	}
+
+	/**
+	 * Change a queued message's data. The worker may pick the job up while
+	 * this runs and persist the old data, so when the job is no longer
+	 * waiting afterwards this waits for the row and returns false; the caller
+	 * then changes the row instead.
+	 */
+	private async updatePendingJob(
+		job: Job,
+		data: Record<string, unknown>,
+	): Promise<boolean> {
+		await job.updateData({ ...job.data, ...data });
+
+		if (PENDING_JOB_STATES.has(await job.getState())) return true;
+		await this.waitForJob(job);
+		return false;
+	}
+
+	async getMessage(messageId: string): Promise<StoredText | null> {
+		const job = await this.findPendingJob(messageId);
+		if (job) {
+			return {
+				id: job.data.id,
+				roomId: job.data.roomId,
+				content: job.data.content,
+				senderIds: [job.data.senderId],
+				sentAt: new Date(job.data.timestamp),
+				deletedAt: job.data.deletedAt ? new Date(job.data.deletedAt) : null,
+			};
+		}
+
+		const text = await prisma.text.findUnique({ where: { id: messageId } });
+		if (!text) return null;
+		return {
+			id: text.id,
+			roomId: text.roomId,
+			content: text.content,
+			senderIds: [text.senderAnonId, text.senderId].filter((id): id is string =>
+				Boolean(id),
+			),
+			sentAt: text.sentAt,
+			deletedAt: text.deletedAt,
+		};
+	}
+
+	/**
+	 * Snapshot of a message being replied to, or null when it is not in the room
+	 */
+	async getQuotedMessage(
+		roomId: string,
+		messageId: string,
+	): Promise<QuotedMessage | null> {
+		if (roomId === "general") {
+			const message = await this.getGlobalMessage(messageId);
+			if (!message) return null;
+			return {
+				id: message.id,
+				content: message.content,
+				senderId: message.senderId,
+				sentAt: message.timestamp,
+				deletedAt: null,
+			};
+		}
+
+		const text = await this.getMessage(messageId);
+		if (!text || text.roomId !== roomId) return null;
+		return {
+			id: text.id,
+			content: text.content,
+			senderId: text.senderIds[0],
+			sentAt: text.sentAt.toISOString(),
+			deletedAt: text.deletedAt?.toISOString() ?? null,
+		};
+	}
+
+	/**
+	 * Replace a message's content, keeping the previous version in its history
+	 */
+	async editMessage(messageId: string, content: string, editedAt: Date) {
+		const { maxEditHistory } = chatConfig;
+		const job = await this.findPendingJob(messageId);
+		if (job) {
+			const edits = [
+				...(job.data.edits ?? []),
+				{ content: job.data.content, editedAt },
+			].slice(-maxEditHistory);
+			if (await this.updatePendingJob(job, { content, editedAt, edits })) {
+				return;
+			}
+		}
+
+		const text = await prisma.$transaction(async (tx) => {
+			const previous = await tx.text.findUniqueOrThrow({
+				where: { id: messageId },
+			});
+			// Nothing changed, e.g. the worker already persisted this edit from the job
+			if (previous.content === content) return previous;
+
+			await tx.textEdit.create({
+				data: { textId: messageId, content: previous.content, editedAt },
+			});
+			const updated = await tx.text.update({
+				where: { id: messageId },
+				data: { content, editedAt },
+			});
+
+			const stale = await tx.textEdit.findMany({
+				where: { textId: messageId },
+				orderBy: { editedAt: "desc" },
+				skip: maxEditHistory,
+				select: { id: true },
+			});
+			if (stale.length > 0) {
+				await tx.textEdit.deleteMany({
+					where: { id: { in: stale.map((edit) => edit.id) } },
+				});
+			}
+			return updated;
+		});
+		await this.chatRoomService.invalidateMessagesCache(text.roomId);
+	}
+
+	/**
+	 * Clear a message's content and history; the row stays so the
+	 * conversation keeps its shape
+	 */
+	async deleteMessage(messageId: string, deletedAt: Date) {
+		const job = await this.findPendingJob(messageId);
+		if (
+			job &&
+			(await this.updatePendingJob(job, { content: "", deletedAt, edits: [] }))
+		) {
+			return;
+		}
+
+		const text = await prisma.$transaction(async (tx) => {
+			await tx.textEdit.deleteMany({ where: { textId: messageId } });
+			return tx.text.update({
+				where: { id: messageId },
+				data: { content: "", deletedAt },
+			});
+		});
+		await this.chatRoomService.invalidateMessagesCache(text.roomId);
+	}
+
+	async getEditHistory(messageId: string): Promise<TextEditEntry[]> {
+		const job = await this.findPendingJob(messageId);
+		if (job) {
+			return (job.data.edits ?? []).map(
+				(edit: { content: string; editedAt: string }) => ({
+					content: edit.content,
+					editedAt: new Date(edit.editedAt),
+				}),
+			);
+		}
+
+		return prisma.textEdit.findMany({
+			where: { textId: messageId },
+			orderBy: { editedAt: "asc" },
+			select: { content: true, editedAt: true },
+		});
+	}
+
 	private async getQueuedMessages(chatRoomId: string) {
-		// Get jobs in waiting and active states
-		const waitingJobs = await messageQueue.getJobs(["waiting", "active"]);
+		// Get jobs in waiting, retrying and active states
+		const waitingJobs = await messageQueue.getJobs([
+			"waiting",
+			"delayed",
+			"active",
+		]);
 
 		return waitingJobs
-			.filter((job) => job.data.chatRoomId === chatRoomId)
+			.filter((job) => job.data.roomId === chatRoomId)
 			.map((job) => ({
-				id: job.id,
+				id: job.data.id,
 				content: job.data.content,
 				senderId: job.data.senderId,
 				receiverId: job.data.receiverId,
-				chatRoomId: job.data.chatRoomId,
+				chatRoomId: job.data.roomId,
 				sentAt: job.timestamp,
+				editedAt: job.data.editedAt ?? null,
+				deletedAt: job.data.deletedAt ?? null,
+				replyToId: job.data.replyToId ?? null,
+				replyTo: job.data.replyTo ?? null,
 				status: "queued",
 			}));
 	}
@@ -77,11 +302,17 @@ export default class ChatDBService {
 		return allMessages;
 	}
 
-	async addGlobalMessage(message: string, senderId: string) {
+	async addGlobalMessage(
+		message: string,
+		senderId: string,
+		replyTo: QuotedMessage | null = null,
+	) {
 		const messageObj = {
 			id: uuidv4(),
 			content: message,
 			senderId,
+			replyToId: replyTo?.id,
+			replyTo,
 			timestamp: new Date().toISOString(),
 		};
 		await redis
@@ -97,4 +328,12 @@ export default class ChatDBService {
 		const messages = await redis.lrange(GLOBAL_MESSAGE_KEY, 0, 999);
 		return messages.map((message) => JSON.parse(message));
 	}
+
+	async getGlobalMessage(messageId: string) {
+		const messages = await this.getGlobalMessages();
+		return (
+			messages.find((message: { id: string }) => message.id === messageId) ??
+			null
+		);
+	}
 }
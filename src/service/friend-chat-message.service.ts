@@ -1,8 +1,25 @@
 import { randomUUID } from "node:crypto";
 import { redis } from "../lib/redis";
+import { chatConfig } from "../config/chat";
 
 const FRIEND_CHAT_KEY_PREFIX = "friend_chat:room:";
 const MAX_MESSAGES_PER_ROOM = 500;
+// Attempts at changing a message that other writes keep changing underneath
+const MAX_REPLACE_ATTEMPTS = 3;
+
+// Swap one stored message for another inside Redis. New messages shift every
+// index, so the position is looked up in the same step as the LSET; matching
+// the whole old value also fails the swap when the message itself changed.
+const REPLACE_MESSAGE_SCRIPT = `
+local items = redis.call("LRANGE", KEYS[1], 0, -1)
+for index = #items, 1, -1 do
+	if items[index] == ARGV[1] then
+		redis.call("LSET", KEYS[1], index - 1, ARGV[2])
+		return 1
+	end
+end
+return 0
+`;
 
 export type FriendChatMessageType =
 	| "text"
@@ -24,6 +41,11 @@ export interface FriendChatMessage {
 	type: FriendChatMessageType;
 	avatarUrl: string;
 	timestamp: string;
+	editedAt?: string;
+	// Deleted messages stay in the list with their content cleared
+	deletedAt?: string;
+	// Earlier versions, oldest first
+	edits?: { content: string; editedAt: string }[];
 }
 
 export class FriendChatMessageService {
@@ -37,13 +59,7 @@ export class FriendChatMessageService {
 		const rawMessages = await redis.lrange(key, -safeLimit, -1);
 
 		return rawMessages
-			.map((item) => {
-				try {
-					return JSON.parse(item) as FriendChatMessage;
-				} catch {
-					return null;
-				}
-			})
+			.map((item) => this.parseMessage(item))
 			.filter((item): item is FriendChatMessage => item !== null);
 	}
 
@@ -65,4 +81,87 @@ export class FriendChatMessageService {
 
 		return storedMessage;
 	}
+
+	private parseMessage(item: string): FriendChatMessage | null {
+		try {
+			return JSON.parse(item) as FriendChatMessage;
+		} catch {
+			return null;
+		}
+	}
+
+	private async findMessage(roomId: string, messageId: string) {
+		const rawMessages = await redis.lrange(
+			this.getRoomMessagesKey(roomId),
+			0,
+			-1,
+		);
+		// Recent messages are the ones being changed, so search from the end
+		for (let index = rawMessages.length - 1; index >= 0; index--) {
+			const message = this.parseMessage(rawMessages[index]);
+			if (message?.id === messageId) {
+				return { message, raw: rawMessages[index] };
+			}
+		}
+		return null;
+	}
+
+	async getMessage(
+		roomId: string,
+		messageId: string,
+	): Promise<FriendChatMessage | null> {
+		return (await this.findMessage(roomId, messageId))?.message ?? null;
+	}
+
+	private async replaceMessage(
+		roomId: string,
+		messageId: string,
+		update: (message: FriendChatMessage) => FriendChatMessage,
+	): Promise<FriendChatMessage | null> {
+		for (let attempt = 0; attempt < MAX_REPLACE_ATTEMPTS; attempt++) {
+			const found = await this.findMessage(roomId, messageId);
+			if (!found) return null;
+
+			const updated = update(found.message);
+			const replaced = await redis.eval(
+				REPLACE_MESSAGE_SCRIPT,
+				1,
+				this.getRoomMessagesKey(roomId),
+				found.raw,
+				JSON.stringify(updated),
+			);
+			if (replaced === 1) return updated;
+		}
+		throw new Error("Message is being changed, try again");
+	}
+
+	async editMessage(
+		roomId: string,
+		messageId: string,
+		content: string,
+		editedAt: Date,
+	): Promise<FriendChatMessage | null> {
+		return this.replaceMessage(roomId, messageId, (message) => ({
+			...message,
+			content,
+			editedAt: editedAt.toISOString(),
+			edits: [
+				...(message.edits ?? []),
+				{ content: message.content, editedAt: editedAt.toISOString() },
+			].slice(-chatConfig.maxEditHistory),
+		}));
+	}
+
+	async deleteMessage(
+		roomId: string,
+		messageId: string,
+		deletedAt: Date,
+	): Promise<FriendChatMessage | null> {
+		return this.replaceMessage(roomId, messageId, (message) => ({
+			...message,
+			content: "",
+			deletedAt: deletedAt.toISOString(),
+			edits: [],
+		}));
+	}
 }
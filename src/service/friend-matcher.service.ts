@@ -0,0 +1,80 @@
+import { matchConfig } from "../config/match";
+import type { AvailableUser } from "./available-user.service";
+import {
+	BucketMatcher,
+	type BucketMatcherOptions,
+	type PlannedMatch,
+} from "./bucket-matcher.service";
+import { MatchScoreService } from "./match-score.service";
+
+/**
+ * Pairs users searching in "friends-first" mode with a friend from the same
+ * queue. Until their timeout runs out such users are held back from the
+ * stranger strategy, so they are only matched with friends; after that they
+ * join the regular pairing while still being offered friends first.
+ */
+export class FriendMatcher {
+	static wantsFriends(user: AvailableUser): boolean {
+		return user.preferences.mode === "friends-first";
+	}
+
+	/**
+	 * Still inside the window where only friends are considered
+	 */
+	static isWaitingForFriend(user: AvailableUser, now = Date.now()): boolean {
+		return (
+			FriendMatcher.wantsFriends(user) &&
+			now - user.joinedAt < matchConfig.friendsFirst.timeoutMs
+		);
+	}
+
+	/**
+	 * @param friends userId -> ids of friends that are online and queued
+	 */
+	static pair(
+		users: AvailableUser[],
+		friends: Map<string, Set<string>>,
+		options: BucketMatcherOptions = {},
+	): PlannedMatch[] {
+		const now = options.now ?? Date.now();
+		const usersById = new Map(users.map((user) => [user.userId, user]));
+		const paired = new Set<string>();
+		const pairs: PlannedMatch[] = [];
+
+		// Longest waiting users pick first, with Pro subscribers' head start
+		const seekers = users
+			.filter(FriendMatcher.wantsFriends)
+			.sort(MatchScoreService.byPriority);
+		for (const user of seekers) {
+			if (paired.has(user.userId)) continue;
+
+			let best: PlannedMatch | null = null;
+			for (const friendId of friends.get(user.userId) ?? []) {
+				const friend = usersById.get(friendId);
+				if (!friend || paired.has(friendId)) continue;
+				if (!BucketMatcher.canPair(user, friend, options)) continue;
+
+				const commonInterests = user.interests.filter((interest) =>
+					friend.interests.includes(interest),
+				);
+				const score = MatchScoreService.scorePair(
+					user,
+					friend,
+					commonInterests.length,
+					now,
+				);
+				if (!best || score > best.score) {
+					best = { user1: user, user2: friend, commonInterests, score };
+				}
+			}
+
+			if (best) {
+				pairs.push(best);
+				paired.add(best.user1.userId);
+				paired.add(best.user2.userId);
+			}
+		}
+
+		return pairs;
+	}
+}
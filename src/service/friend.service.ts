@@ -6,8 +6,11 @@ import {
 } from "../generated/client";
 import { NotificationService } from "./notification.service";
 import { redis } from "../lib/redis";
+import { BlockService } from "./block.service";
 
 export class FriendsService {
+	private blockService = new BlockService();
+
 	// Cache TTLs (in seconds)
 	private static readonly CACHE_TTL = {
 		FRIENDS_LIST: 300, // 5 minutes
@@ -153,6 +156,10 @@ export class FriendsService {
 		if (!user) throw new Error("User not found");
 		if (!friend) throw new Error("Friend not found");
 
+		if (await this.blockService.isBlocked(user.id, friend.id)) {
+			throw new Error("Cannot send friend request to this user");
+		}
+
 		const existing = await prisma.friendship.findFirst({
 			where: {
 				OR: [
@@ -359,6 +366,36 @@ export class FriendsService {
 		return result;
 	}
 
+	/**
+	 * Accepted friendships among a set of users, as userId -> friend ids.
+	 * One query for the whole set, so the matcher can call it every tick.
+	 */
+	async getFriendRelations(userIds: string[]): Promise<Map<string, Set<string>>> {
+		const relations = new Map<string, Set<string>>();
+		if (userIds.length < 2) return relations;
+
+		const friendships = await prisma.friendship.findMany({
+			where: {
+				accepted: true,
+				userId: { in: userIds },
+				friendId: { in: userIds },
+			},
+			select: { userId: true, friendId: true },
+		});
+
+		const link = (userId: string, friendId: string) => {
+			const friends = relations.get(userId) ?? new Set<string>();
+			friends.add(friendId);
+			relations.set(userId, friends);
+		};
+		for (const { userId, friendId } of friendships) {
+			link(userId, friendId);
+			link(friendId, userId);
+		}
+
+		return relations;
+	}
+
 	/* ----------------------- friend suggestions ------------------------- */
 
 	async getFriendSuggestions(userId: string, limit = 10) {
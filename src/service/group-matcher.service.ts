@@ -0,0 +1,80 @@
+import { matchConfig } from "../config/match";
+import type { AvailableUser } from "./available-user.service";
+import {
+	BucketMatcher,
+	type BucketMatcherOptions,
+} from "./bucket-matcher.service";
+import { MatchScoreService } from "./match-score.service";
+
+export interface PlannedGroup {
+	// Interest every member of the group shares
+	topic: string;
+	members: AvailableUser[];
+}
+
+/**
+ * Fills group rooms from interest buckets. A topic opens a room as soon as
+ * it has a full group of mutually compatible users, or a smaller one of at
+ * least the minimum size once its longest waiting member has waited long
+ * enough. Each user joins at most one group per tick.
+ */
+export class GroupMatcher {
+	static fill(
+		users: AvailableUser[],
+		buckets: Map<string, string[]>,
+		options: BucketMatcherOptions = {},
+	): PlannedGroup[] {
+		const now = options.now ?? Date.now();
+		const { minSize, maxSize } = matchConfig.group;
+		const usersById = new Map(users.map((user) => [user.userId, user]));
+
+		// Busiest topics first, so a crowded topic is not split into small groups
+		const topics = Array.from(buckets, ([topic, memberIds]) => ({
+			topic,
+			memberIds: memberIds.filter((id) => usersById.has(id)),
+		}))
+			.filter(({ memberIds }) => memberIds.length >= minSize)
+			.sort((a, b) => b.memberIds.length - a.memberIds.length);
+
+		const grouped = new Set<string>();
+		const groups: PlannedGroup[] = [];
+		for (const { topic, memberIds } of topics) {
+			// Longest waiting users take the first seats, with Pro subscribers' head start
+			let waiting = memberIds
+				.filter((id) => !grouped.has(id))
+				.map((id) => usersById.get(id) as AvailableUser)
+				.sort(MatchScoreService.byPriority);
+
+			while (waiting.length >= minSize) {
+				const members: AvailableUser[] = [];
+				const rest: AvailableUser[] = [];
+				for (const candidate of waiting) {
+					const fits =
+						members.length < maxSize &&
+						members.every((member) =>
+							BucketMatcher.canPair(member, candidate, options),
+						);
+					(fits ? members : rest).push(candidate);
+				}
+
+				if (!GroupMatcher.isReady(members, now)) break;
+
+				groups.push({ topic, members });
+				for (const member of members) grouped.add(member.userId);
+				waiting = rest;
+			}
+		}
+
+		return groups;
+	}
+
+	static isReady(members: AvailableUser[], now = Date.now()): boolean {
+		const { minSize, maxSize, fillWaitMs } = matchConfig.group;
+		if (members.length >= maxSize) return true;
+		if (members.length < minSize) return false;
+
+		const longestWait =
+			now - Math.min(...members.map((member) => member.joinedAt));
+		return longestWait >= fillWaitMs;
+	}
+}
@@ -0,0 +1,217 @@
+import { prisma } from "../lib/prisma";
+import { redis } from "../lib/redis";
+import type {
+	CreateInterestInput,
+	UpdateInterestInput,
+} from "../validation/interest.validation";
+
+const CATALOG_CACHE_KEY = "interest_catalog";
+const CATALOG_CACHE_TTL = 60 * 60;
+const MAX_SLUG_LENGTH = 32;
+
+// Search starts are counted per interest per day for trending
+const USAGE_KEY_PREFIX = "interest_usage:";
+const TRENDING_DAYS = 7;
+const USAGE_TTL = (TRENDING_DAYS + 1) * 24 * 60 * 60;
+
+interface CatalogEntry {
+	slug: string;
+	aliases: string[];
+}
+
+const getUsageKey = (date: Date) =>
+	`${USAGE_KEY_PREFIX}${date.toISOString().slice(0, 10)}`;
+
+export class InterestService {
+	/**
+	 * Lowercase, strip Latin accents and punctuation, and join words with
+	 * dashes. Letters of any script are kept:
+	 * "  Hip Hop! " -> "hip-hop", "Música" -> "musica", "音楽" -> "音楽"
+	 */
+	static toSlug(raw: string): string {
+		return raw
+			.normalize("NFKD")
+			.replace(/[\u0300-\u036f]/g, "")
+			.toLowerCase()
+			// Keeps "c++" and "c#" apart from "c"
+			.replace(/\+/g, "plus")
+			.replace(/#/g, "sharp")
+			.replace(/[\s_]+/g, "-")
+			// Marks stay so scripts built on them (Devanagari, kana) survive
+			.replace(/[^\p{L}\p{M}\p{N}-]/gu, "")
+			.replace(/-+/g, "-")
+			.replace(/^-|-$/g, "")
+			.normalize("NFC")
+			.slice(0, MAX_SLUG_LENGTH);
+	}
+
+	// Active catalog entries, cached in Redis until the catalog changes
+	private static async getCatalog(): Promise<CatalogEntry[]> {
+		const cached = await redis.get(CATALOG_CACHE_KEY);
+		if (cached) return JSON.parse(cached) as CatalogEntry[];
+
+		const catalog = await prisma.interest.findMany({
+			where: { isActive: true },
+			select: { slug: true, aliases: true },
+		});
+		await redis.set(
+			CATALOG_CACHE_KEY,
+			JSON.stringify(catalog),
+			"EX",
+			CATALOG_CACHE_TTL,
+		);
+		return catalog;
+	}
+
+	private static async invalidateCatalog() {
+		await redis.del(CATALOG_CACHE_KEY);
+	}
+
+	/**
+	 * Map free-form interests onto the catalog. Aliases resolve to their
+	 * canonical slug; interests the catalog does not know yet are kept as
+	 * slugs so nobody loses a niche interest. Order is kept, duplicates and
+	 * blanks are dropped.
+	 */
+	static async normalize(interests: string[]): Promise<string[]> {
+		const slugs = interests.map(InterestService.toSlug).filter(Boolean);
+		if (slugs.length === 0) return [];
+
+		const catalog = await InterestService.getCatalog();
+		const lookup = new Map<string, string>();
+		for (const { slug, aliases } of catalog) {
+			for (const alias of aliases) lookup.set(alias, slug);
+		}
+		// Canonical slugs win over another entry's alias
+		for (const { slug } of catalog) lookup.set(slug, slug);
+
+		return Array.from(new Set(slugs.map((slug) => lookup.get(slug) ?? slug)));
+	}
+
+	/* ------------------------------ usage ------------------------------- */
+
+	static async recordUsage(interests: string[], now = new Date()) {
+		if (interests.length === 0) return;
+		const key = getUsageKey(now);
+		const pipeline = redis.pipeline();
+		for (const interest of interests) {
+			pipeline.zincrby(key, 1, interest);
+		}
+		pipeline.expire(key, USAGE_TTL);
+		await pipeline.exec();
+	}
+
+	/**
+	 * Search starts per interest over the last week
+	 */
+	static async getTrendingCounts(
+		now = new Date(),
+	): Promise<Map<string, number>> {
+		const pipeline = redis.pipeline();
+		for (let day = 0; day < TRENDING_DAYS; day++) {
+			const date = new Date(now.getTime() - day * 24 * 60 * 60 * 1000);
+			pipeline.zrange(getUsageKey(date), 0, -1, "WITHSCORES");
+		}
+		const results = (await pipeline.exec()) ?? [];
+
+		const counts = new Map<string, number>();
+		for (const [, entries] of results) {
+			const flat = (entries as string[] | null) ?? [];
+			for (let i = 0; i < flat.length; i += 2) {
+				counts.set(flat[i], (counts.get(flat[i]) ?? 0) + Number(flat[i + 1]));
+			}
+		}
+		return counts;
+	}
+
+	/* ----------------------------- catalog ------------------------------ */
+
+	/**
+	 * Active interests with their trending counts, most popular first
+	 */
+	static async listInterests(category?: string) {
+		const [interests, trending] = await Promise.all([
+			prisma.interest.findMany({
+				where: { isActive: true, ...(category && { category }) },
+				orderBy: { name: "asc" },
+			}),
+			InterestService.getTrendingCounts(),
+		]);
+
+		return interests
+			.map((interest) => ({
+				...interest,
+				trendingCount: trending.get(interest.slug) ?? 0,
+			}))
+			.sort((a, b) => b.trendingCount - a.trendingCount);
+	}
+
+	// Slugs and aliases must not resolve to two different interests
+	private static async assertAvailable(terms: string[], excludeId?: string) {
+		if (terms.length === 0) return;
+		const clash = await prisma.interest.findFirst({
+			where: {
+				...(excludeId && { id: { not: excludeId } }),
+				OR: [{ slug: { in: terms } }, { aliases: { hasSome: terms } }],
+			},
+			select: { slug: true },
+		});
+		if (clash) {
+			throw new Error(`Interest name already in use by "${clash.slug}"`);
+		}
+	}
+
+	private static toAliases(aliases: string[], slug: string) {
+		return Array.from(new Set(aliases.map(InterestService.toSlug))).filter(
+			(alias) => alias && alias !== slug,
+		);
+	}
+
+	static async createInterest(input: CreateInterestInput) {
+		const slug = InterestService.toSlug(input.slug ?? input.name);
+		if (!slug) throw new Error("Interest name is invalid");
+
+		const aliases = InterestService.toAliases(input.aliases, slug);
+		await InterestService.assertAvailable([slug, ...aliases]);
+
+		const interest = await prisma.interest.create({
+			data: {
+				slug,
+				name: input.name,
+				category: InterestService.toSlug(input.category),
+				aliases,
+			},
+		});
+		await InterestService.invalidateCatalog();
+		return interest;
+	}
+
+	static async updateInterest(id: string, input: UpdateInterestInput) {
+		const existing = await prisma.interest.findUnique({ where: { id } });
+		if (!existing) throw new Error("Interest not found");
+
+		const aliases = input.aliases
+			? InterestService.toAliases(input.aliases, existing.slug)
+			: undefined;
+		if (aliases) await InterestService.assertAvailable(aliases, id);
+
+		const interest = await prisma.interest.update({
+			where: { id },
+			data: {
+				name: input.name,
+				category: input.category && InterestService.toSlug(input.category),
+				aliases,
+				isActive: input.isActive,
+			},
+		});
+		await InterestService.invalidateCatalog();
+		return interest;
+	}
+
+	static async deleteInterest(id: string) {
+		const { count } = await prisma.interest.deleteMany({ where: { id } });
+		if (count === 0) throw new Error("Interest not found");
+		await InterestService.invalidateCatalog();
+		return { message: "Interest deleted" };
+	}
+}
@@ -0,0 +1,122 @@
+import {
+	MATCH_FILTER_KEYS,
+	type MatchFilterKey,
+	type MatchFilters,
+	type SearchPreferences,
+} from "../validation/search.validation";
+
+/**
+ * What other users' filters are checked against
+ */
+export interface MatchProfile {
+	gender?: string;
+	language?: string;
+	region?: string;
+	rating?: number;
+	ratingCount?: number;
+	reportCount?: number;
+}
+
+export interface MatchCandidate {
+	profile: MatchProfile;
+	filters: MatchFilters | null;
+}
+
+// Each satisfied soft filter is worth this much next to one shared interest
+const SOFT_FILTER_WEIGHT = 0.5;
+
+export class MatchFilterService {
+	/**
+	 * Build the filters that will actually be applied for a user.
+	 * Filters are a Pro perk, so free users always get null.
+	 */
+	static resolveFilters(
+		requested: MatchFilters | undefined,
+		preferences: SearchPreferences,
+		isPro: boolean,
+	): MatchFilters | null {
+		if (!isPro) {
+			return null;
+		}
+
+		const filters: MatchFilters = { ...requested, hard: requested?.hard ?? [] };
+		if (
+			!filters.gender &&
+			preferences.preferredGender &&
+			preferences.preferredGender !== "any"
+		) {
+			filters.gender = preferences.preferredGender;
+		}
+
+		const hasAnyFilter = MATCH_FILTER_KEYS.some(
+			(key) => filters[key] !== undefined,
+		);
+		return hasAnyFilter ? filters : null;
+	}
+
+	static satisfies(
+		key: MatchFilterKey,
+		filters: MatchFilters,
+		profile: MatchProfile,
+	): boolean {
+		switch (key) {
+			case "gender":
+				return !filters.gender || profile.gender === filters.gender;
+			case "language":
+				return !filters.language || profile.language === filters.language;
+			case "region":
+				return !filters.region || profile.region === filters.region;
+			case "minRating":
+				// Unrated users cannot prove they meet a minimum rating
+				return (
+					filters.minRating === undefined ||
+					(profile.rating !== undefined && profile.rating >= filters.minRating)
+				);
+		}
+	}
+
+	/**
+	 * Both sides' hard filters must hold, so one user's filter can never
+	 * force a partner onto someone who filtered them out.
+	 */
+	static isMutuallyCompatible(a: MatchCandidate, b: MatchCandidate): boolean {
+		return (
+			MatchFilterService.passesHardFilters(a.filters, b.profile) &&
+			MatchFilterService.passesHardFilters(b.filters, a.profile)
+		);
+	}
+
+	/**
+	 * Bonus score from soft filters satisfied in either direction
+	 */
+	static softScore(a: MatchCandidate, b: MatchCandidate): number {
+		return (
+			(MatchFilterService.countSoftMatches(a.filters, b.profile) +
+				MatchFilterService.countSoftMatches(b.filters, a.profile)) *
+			SOFT_FILTER_WEIGHT
+		);
+	}
+
+	private static passesHardFilters(
+		filters: MatchFilters | null,
+		profile: MatchProfile,
+	): boolean {
+		if (!filters) return true;
+		return filters.hard.every((key) =>
+			MatchFilterService.satisfies(key, filters, profile),
+		);
+	}
+
+	private static countSoftMatches(
+		filters: MatchFilters | null,
+		profile: MatchProfile,
+	): number {
+		if (!filters) return 0;
+		let count = 0;
+		for (const key of MATCH_FILTER_KEYS) {
+			if (filters[key] === undefined || filters.hard.includes(key)) continue;
+			if (MatchFilterService.satisfies(key, filters, profile)) count++;
+		}
+		return count;
+	}
+}
@@ -0,0 +1,292 @@
+import { redis } from "../lib/redis";
+import { SEARCH_TYPES } from "../config/search";
+
+// Metrics are kept in one-minute buckets for a day
+const BUCKET_MS = 60 * 1000;
+const BUCKET_TTL = 24 * 60 * 60;
+// Wait samples kept per bucket for the mean and p95
+const WAIT_SAMPLE_LIMIT = 1000;
+// Window the Prometheus wait quantiles are computed over
+const PROMETHEUS_WAIT_WINDOW_MINUTES = 5;
+
+const COUNTER_FIELDS = [
+	"ticks",
+	"proposed",
+	"interestPairs",
+	"randomPairs",
+	"preventedPairs",
+	"matches",
+] as const;
+type CounterField = (typeof COUNTER_FIELDS)[number];
+
+export interface TickMetrics {
+	queued: number;
+	// Pairs or groups put forward this tick
+	proposed: number;
+	// Of those, how many share at least one interest
+	interestPairs: number;
+	// Candidate pairs ruled out by recent partners or blocks
+	preventedPairs: number;
+}
+
+export interface MetricsBucket extends Record<CounterField, number> {
+	timestamp: string;
+	// Queue length averaged over the bucket's ticks
+	queueLength: number;
+	meanWaitMs: number | null;
+	p95WaitMs: number | null;
+}
+
+export interface MetricsSummary extends Record<CounterField, number> {
+	type: string;
+	minutes: number;
+	queueLength: number;
+	meanWaitMs: number | null;
+	p95WaitMs: number | null;
+}
+
+const percentile = (sorted: number[], p: number) =>
+	sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+
+const summarizeWaits = (samples: number[]) => {
+	if (samples.length === 0) return { meanWaitMs: null, p95WaitMs: null };
+	const sorted = [...samples].sort((a, b) => a - b);
+	const total = sorted.reduce((sum, ms) => sum + ms, 0);
+	return {
+		meanWaitMs: Math.round(total / sorted.length),
+		p95WaitMs: percentile(sorted, 0.95),
+	};
+};
+
+export class MatchMetricsService {
+	private searchType: string;
+
+	constructor(searchType: string) {
+		this.searchType = searchType;
+	}
+
+	private static getBucket(time: number) {
+		return Math.floor(time / BUCKET_MS) * BUCKET_MS;
+	}
+
+	private getBucketKey(bucket: number) {
+		return `match_metrics:${this.searchType}:${bucket}`;
+	}
+
+	private getWaitKey(bucket: number) {
+		return `match_metrics_wait:${this.searchType}:${bucket}`;
+	}
+
+	// Running totals for Prometheus counters; never expire
+	private getTotalsKey() {
+		return `match_metrics_total:${this.searchType}`;
+	}
+
+	async recordTick(metrics: TickMetrics, now = Date.now()) {
+		const key = this.getBucketKey(MatchMetricsService.getBucket(now));
+		const totalsKey = this.getTotalsKey();
+		const counters: Partial<Record<CounterField, number>> = {
+			ticks: 1,
+			proposed: metrics.proposed,
+			interestPairs: metrics.interestPairs,
+			randomPairs: metrics.proposed - metrics.interestPairs,
+			preventedPairs: metrics.preventedPairs,
+		};
+
+		const pipeline = redis.pipeline();
+		pipeline.hincrby(key, "queueSum", metrics.queued);
+		for (const [field, value] of Object.entries(counters)) {
+			if (!value) continue;
+			pipeline.hincrby(key, field, value);
+			pipeline.hincrby(totalsKey, field, value);
+		}
+		pipeline.hset(totalsKey, "queueLength", metrics.queued);
+		pipeline.expire(key, BUCKET_TTL);
+		await pipeline.exec();
+	}
+
+	/**
+	 * Count rooms created and how long their users waited
+	 */
+	async recordMatches(waitedMs: number[], now = Date.now()) {
+		if (waitedMs.length === 0) return;
+		const bucket = MatchMetricsService.getBucket(now);
+		const waitKey = this.getWaitKey(bucket);
+
+		await redis
+			.pipeline()
+			.hincrby(this.getBucketKey(bucket), "matches", 1)
+			.hincrby(this.getTotalsKey(), "matches", 1)
+			.rpush(waitKey, ...waitedMs.map((ms) => String(Math.round(ms))))
+			.ltrim(waitKey, -WAIT_SAMPLE_LIMIT, -1)
+			.expire(waitKey, BUCKET_TTL)
+			.exec();
+	}
+
+	private async readBuckets(minutes: number, now: number) {
+		const current = MatchMetricsService.getBucket(now);
+		const buckets = Array.from(
+			{ length: minutes },
+			(_, index) => current - (minutes - 1 - index) * BUCKET_MS,
+		);
+
+		const pipeline = redis.pipeline();
+		for (const bucket of buckets) {
+			pipeline.hgetall(this.getBucketKey(bucket));
+			pipeline.lrange(this.getWaitKey(bucket), 0, -1);
+		}
+		const results = (await pipeline.exec()) ?? [];
+
+		return buckets.map((bucket, index) => ({
+			bucket,
+			fields: (results[index * 2]?.[1] as Record<string, string>) ?? {},
+			waits: ((results[index * 2 + 1]?.[1] as string[]) ?? []).map(Number),
+		}));
+	}
+
+	/**
+	 * Per-minute metrics for the last `minutes`, oldest first
+	 */
+	async getSeries(minutes = 60, now = Date.now()): Promise<MetricsBucket[]> {
+		const buckets = await this.readBuckets(minutes, now);
+		return buckets.map(({ bucket, fields, waits }) => {
+			const counters = Object.fromEntries(
+				COUNTER_FIELDS.map((field) => [field, Number(fields[field] ?? 0)]),
+			) as Record<CounterField, number>;
+			return {
+				timestamp: new Date(bucket).toISOString(),
+				...counters,
+				queueLength: counters.ticks
+					? Math.round(Number(fields.queueSum ?? 0) / counters.ticks)
+					: 0,
+				...summarizeWaits(waits),
+			};
+		});
+	}
+
+	async getSummary(minutes = 60, now = Date.now()): Promise<MetricsSummary> {
+		const buckets = await this.readBuckets(minutes, now);
+
+		const counters = Object.fromEntries(
+			COUNTER_FIELDS.map((field) => [
+				field,
+				buckets.reduce(
+					(sum, { fields }) => sum + Number(fields[field] ?? 0),
+					0,
+				),
+			]),
+		) as Record<CounterField, number>;
+		const queueSum = buckets.reduce(
+			(sum, { fields }) => sum + Number(fields.queueSum ?? 0),
+			0,
+		);
+
+		return {
+			type: this.searchType,
+			minutes,
+			...counters,
+			queueLength: counters.ticks ? Math.round(queueSum / counters.ticks) : 0,
+			...summarizeWaits(buckets.flatMap(({ waits }) => waits)),
+		};
+	}
+
+	/**
+	 * Prometheus text exposition for every queue: running counters, the last
+	 * seen queue length and wait quantiles over the last few minutes
+	 */
+	static async renderPrometheus(now = Date.now()): Promise<string> {
+		const services = SEARCH_TYPES.map(
+			(searchType) => new MatchMetricsService(searchType),
+		);
+		const [totals, summaries] = await Promise.all([
+			Promise.all(
+				services.map((service) => redis.hgetall(service.getTotalsKey())),
+			),
+			Promise.all(
+				services.map((service) =>
+					service.getSummary(PROMETHEUS_WAIT_WINDOW_MINUTES, now),
+				),
+			),
+		]);
+
+		const lines: string[] = [];
+		const metric = (
+			name: string,
+			type: "counter" | "gauge",
+			help: string,
+			values: [labels: string, value: number][],
+		) => {
+			lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+			for (const [labels, value] of values) {
+				lines.push(`${name}{${labels}} ${value}`);
+			}
+		};
+		const perType = (read: (index: number) => number) =>
+			SEARCH_TYPES.map(
+				(searchType, index) =>
+					[`type="${searchType}"`, read(index)] as [string, number],
+			);
+		const total = (field: string) =>
+			perType((index) => Number(totals[index][field] ?? 0));
+
+		metric(
+			"cashual_match_queue_length",
+			"gauge",
+			"Users waiting in the queue at the last tick",
+			total("queueLength"),
+		);
+		metric(
+			"cashual_match_ticks_total",
+			"counter",
+			"Matchmaking ticks run",
+			total("ticks"),
+		);
+		metric(
+			"cashual_match_proposed_total",
+			"counter",
+			"Pairs or groups proposed",
+			total("proposed"),
+		);
+		metric(
+			"cashual_match_interest_pairs_total",
+			"counter",
+			"Proposed pairs sharing at least one interest",
+			total("interestPairs"),
+		);
+		metric(
+			"cashual_match_random_pairs_total",
+			"counter",
+			"Proposed pairs without a shared interest",
+			total("randomPairs"),
+		);
+		metric(
+			"cashual_match_prevented_pairs_total",
+			"counter",
+			"Candidate pairs ruled out by recent partners or blocks",
+			total("preventedPairs"),
+		);
+		metric(
+			"cashual_match_rooms_total",
+			"counter",
+			"Rooms created from matches",
+			total("matches"),
+		);
+
+		const waitSeconds = (read: (summary: MetricsSummary) => number | null) =>
+			perType((index) => (read(summaries[index]) ?? 0) / 1000);
+		metric(
+			"cashual_match_wait_seconds_mean",
+			"gauge",
+			`Mean wait of users matched in the last ${PROMETHEUS_WAIT_WINDOW_MINUTES} minutes`,
+			waitSeconds((summary) => summary.meanWaitMs),
+		);
+		metric(
+			"cashual_match_wait_seconds_p95",
+			"gauge",
+			`95th percentile wait of users matched in the last ${PROMETHEUS_WAIT_WINDOW_MINUTES} minutes`,
+			waitSeconds((summary) => summary.p95WaitMs),
+		);
+
+		return `${lines.join("\n")}\n`;
+	}
+}
@@ -0,0 +1,196 @@
+import { v4 as uuidv4 } from "uuid";
+import { matchConfig } from "../config/match";
+import { redis } from "../lib/redis";
+import type { AvailableUser } from "./available-user.service";
+
+// Extra lifetime for the proposal key so late confirmations get a clear answer
+const PROPOSAL_KEY_GRACE_SECONDS = 60;
+const PROPOSAL_FIELD_DATA = "data";
+const PROPOSAL_FIELD_CONFIRMATIONS = "confirmations";
+
+// Count a confirmation only while the proposal is still open, so a late
+// confirmation cannot re-create a settled proposal's hash without a TTL.
+// Returns -1 when the proposal is gone, 0 for a repeated confirmation and
+// the number of confirmations otherwise.
+const CONFIRM_SCRIPT = `
+if not redis.call("ZSCORE", KEYS[2], ARGV[1]) or redis.call("EXISTS", KEYS[1]) == 0 then
+	return -1
+end
+if redis.call("HSETNX", KEYS[1], ARGV[2], "1") == 0 then
+	return 0
+end
+return redis.call("HINCRBY", KEYS[1], ARGV[3], 1)
+`;
+
+export interface ProposedUser {
+	userId: string;
+	username: string;
+	joinedAt: number;
+}
+
+export interface MatchProposal {
+	id: string;
+	user1: ProposedUser;
+	user2: ProposedUser;
+	commonInterests: string[];
+	expiresAt: number;
+}
+
+export interface SettledProposal {
+	proposal: MatchProposal;
+	confirmedUserIds: string[];
+}
+
+export class MatchProposalService {
+	private searchType: string;
+
+	constructor(searchType: string) {
+		this.searchType = searchType;
+	}
+
+	private getProposalKey(proposalId: string) {
+		return `match_proposal:${this.searchType}:${proposalId}`;
+	}
+
+	// ZSET of open proposal ids scored by their deadline
+	private getDeadlinesKey() {
+		return `match_proposals:${this.searchType}`;
+	}
+
+	private static toProposedUser(user: AvailableUser): ProposedUser {
+		return {
+			userId: user.userId,
+			username: user.username,
+			joinedAt: user.joinedAt,
+		};
+	}
+
+	async create(
+		user1: AvailableUser,
+		user2: AvailableUser,
+		commonInterests: string[] = [],
+	): Promise<MatchProposal> {
+		const { timeoutMs } = matchConfig.confirmation;
+		const proposal: MatchProposal = {
+			id: uuidv4(),
+			user1: MatchProposalService.toProposedUser(user1),
+			user2: MatchProposalService.toProposedUser(user2),
+			commonInterests,
+			expiresAt: Date.now() + timeoutMs,
+		};
+
+		const key = this.getProposalKey(proposal.id);
+		await redis
+			.pipeline()
+			.hset(key, PROPOSAL_FIELD_DATA, JSON.stringify(proposal))
+			.expire(key, Math.ceil(timeoutMs / 1000) + PROPOSAL_KEY_GRACE_SECONDS)
+			.zadd(this.getDeadlinesKey(), proposal.expiresAt, proposal.id)
+			.exec();
+
+		return proposal;
+	}
+
+	async get(proposalId: string): Promise<MatchProposal | null> {
+		const raw = await redis.hget(
+			this.getProposalKey(proposalId),
+			PROPOSAL_FIELD_DATA,
+		);
+		return raw ? (JSON.parse(raw) as MatchProposal) : null;
+	}
+
+	/**
+	 * Look up an open proposal the user belongs to, or explain why it is unusable
+	 */
+	private async getOpenProposal(
+		proposalId: string,
+		userId: string,
+	): Promise<MatchProposal> {
+		const proposal = await this.get(proposalId);
+		if (!proposal) throw new Error("Match proposal not found");
+		if (![proposal.user1.userId, proposal.user2.userId].includes(userId)) {
+			throw new Error("Not part of this match proposal");
+		}
+		if (proposal.expiresAt < Date.now()) {
+			throw new Error("Match proposal expired");
+		}
+		return proposal;
+	}
+
+	/**
+	 * Record a confirmation. `complete` is true for exactly one caller: the
+	 * confirmation that finishes the pair and wins the right to settle it.
+	 */
+	async confirm(
+		proposalId: string,
+		userId: string,
+	): Promise<{ proposal: MatchProposal; complete: boolean }> {
+		const proposal = await this.getOpenProposal(proposalId, userId);
+
+		// Repeated confirmations from the same user only count once
+		const confirmations = (await redis.eval(
+			CONFIRM_SCRIPT,
+			2,
+			this.getProposalKey(proposalId),
+			this.getDeadlinesKey(),
+			proposalId,
+			`confirmed:${userId}`,
+			PROPOSAL_FIELD_CONFIRMATIONS,
+		)) as number;
+		if (confirmations < 0) throw new Error("Match proposal not found");
+		if (confirmations < 2) return { proposal, complete: false };
+
+		return { proposal, complete: await this.settle(proposalId) };
+	}
+
+	/**
+	 * Cancel a proposal on behalf of one of its users
+	 */
+	async decline(
+		proposalId: string,
+		userId: string,
+	): Promise<SettledProposal | null> {
+		const proposal = await this.getOpenProposal(proposalId, userId);
+		const confirmedUserIds = await this.getConfirmedUserIds(proposal);
+		if (!(await this.settle(proposalId))) return null;
+		return { proposal, confirmedUserIds };
+	}
+
+	/**
+	 * Claim every proposal whose deadline has passed. Proposals settled by a
+	 * concurrent confirmation are left out.
+	 */
+	async takeExpired(now = Date.now()): Promise<SettledProposal[]> {
+		const proposalIds = await redis.zrangebyscore(
+			this.getDeadlinesKey(),
+			"-inf",
+			now,
+		);
+
+		const expired: SettledProposal[] = [];
+		for (const proposalId of proposalIds) {
+			const proposal = await this.get(proposalId);
+			const confirmedUserIds = proposal
+				? await this.getConfirmedUserIds(proposal)
+				: [];
+			if (!(await this.settle(proposalId)) || !proposal) continue;
+			expired.push({ proposal, confirmedUserIds });
+		}
+		return expired;
+	}
+
+	private async getConfirmedUserIds(proposal: MatchProposal) {
+		const userIds = [proposal.user1.userId, proposal.user2.userId];
+		const flags = await redis.hmget(
+			this.getProposalKey(proposal.id),
+			...userIds.map((userId) => `confirmed:${userId}`),
+		);
+		return userIds.filter((_, index) => flags[index]);
+	}
+
+	// Removing the deadline is the claim; only one caller ever sees 1
+	private async settle(proposalId: string): Promise<boolean> {
+		const removed = await redis.zrem(this.getDeadlinesKey(), proposalId);
+		await redis.del(this.getProposalKey(proposalId));
+		return removed === 1;
+	}
+}
@@ -0,0 +1,96 @@
+import { matchConfig } from "../config/match";
+import type { AvailableUser } from "./available-user.service";
+import { MatchFilterService, type MatchProfile } from "./match-filter.service";
+
+export type ReputationTier = "new" | "low" | "good";
+
+export class MatchScoreService {
+	static getReputationTier(profile: MatchProfile): ReputationTier {
+		const { minRatings, lowRating, lowReportCount } = matchConfig.reputation;
+		const ratingCount = profile.ratingCount ?? 0;
+		const reportCount = profile.reportCount ?? 0;
+
+		if (
+			reportCount >= lowReportCount ||
+			(ratingCount >= minRatings && (profile.rating ?? 0) < lowRating)
+		) {
+			return "low";
+		}
+
+		return ratingCount < minRatings ? "new" : "good";
+	}
+
+	/**
+	 * Low-reputation users are steered towards each other and away from
+	 * users who have not built a rating yet.
+	 */
+	static reputationAffinity(a: MatchProfile, b: MatchProfile): number {
+		const tiers = [
+			MatchScoreService.getReputationTier(a),
+			MatchScoreService.getReputationTier(b),
+		];
+		if (tiers[0] === "low" && tiers[1] === "low") return 1;
+		if (tiers.includes("low") && tiers.includes("new")) return -1;
+		return 0;
+	}
+
+	/**
+	 * Time a user is ordered by in the queue. Pro subscribers count as having
+	 * joined up to the configured head start earlier, never more.
+	 */
+	static getPriorityTime(user: Pick<AvailableUser, "joinedAt" | "tier">) {
+		return user.tier === "pro"
+			? user.joinedAt - matchConfig.priority.proHeadStartMs
+			: user.joinedAt;
+	}
+
+	static byPriority(
+		a: Pick<AvailableUser, "joinedAt" | "tier">,
+		b: Pick<AvailableUser, "joinedAt" | "tier">,
+	) {
+		return (
+			MatchScoreService.getPriorityTime(a) -
+			MatchScoreService.getPriorityTime(b)
+		);
+	}
+
+	/**
+	 * Composite pair score; higher pairs are matched first
+	 */
+	static scorePair(
+		a: AvailableUser,
+		b: AvailableUser,
+		commonInterestCount: number,
+		now = Date.now(),
+	): number {
+		const { weights, reputation } = matchConfig;
+
+		const ratingScore =
+			(MatchScoreService.normalizeRating(a.profile) +
+				MatchScoreService.normalizeRating(b.profile)) /
+			2;
+		const reportCount =
+			Math.min(a.profile.reportCount ?? 0, reputation.maxCountedReports) +
+			Math.min(b.profile.reportCount ?? 0, reputation.maxCountedReports);
+		const waitedSeconds =
+			(Math.max(0, now - a.joinedAt) + Math.max(0, now - b.joinedAt)) / 1000;
+		const proCount = [a, b].filter((user) => user.tier === "pro").length;
+
+		return (
+			commonInterestCount * weights.interests +
+			ratingScore * weights.rating -
+			reportCount * weights.reports +
+			(waitedSeconds / 10) * weights.waitTime +
+			MatchScoreService.reputationAffinity(a.profile, b.profile) *
+				weights.reputationAffinity +
+			proCount * weights.priority +
+			MatchFilterService.softScore(a, b)
+		);
+	}
+
+	// Maps a 1-5 star average to 0..1; unrated users sit in the middle
+	private static normalizeRating(profile: MatchProfile): number {
+		if (!profile.ratingCount || profile.rating === undefined) return 0.5;
+		return Math.min(Math.max((profile.rating - 1) / 4, 0), 1);
+	}
+}
@@ -0,0 +1,108 @@
+import { matchConfig } from "../config/match";
+import type { AvailableUser } from "./available-user.service";
+import { BucketMatcher, type PlannedMatch } from "./bucket-matcher.service";
+import { MatchScoreService } from "./match-score.service";
+
+export interface MatchContext {
+	// Interest -> queued user ids, longest waiting first
+	buckets: Map<string, string[]>;
+	// Pairs that must not be formed this tick (recent partners, blocks)
+	isExcluded?: (user1: AvailableUser, user2: AvailableUser) => boolean;
+	now: number;
+}
+
+/**
+ * Decides which waiting users are paired on one tick. Strategies only see
+ * a snapshot of the queue and must not touch Redis or the database, so the
+ * same code runs in the cron and in the offline simulator.
+ */
+export interface MatchStrategy {
+	readonly name: string;
+	pair(users: AvailableUser[], context: MatchContext): PlannedMatch[];
+}
+
+const DEFAULT_STRATEGY = "greedy-interest";
+
+// Best-scoring partner from each user's interest buckets, oldest users first
+const greedyInterestStrategy: MatchStrategy = {
+	name: DEFAULT_STRATEGY,
+	pair: (users, context) =>
+		BucketMatcher.pair(users, context.buckets, {
+			isExcluded: context.isExcluded,
+			now: context.now,
+		}),
+};
+
+// Baseline that ignores interests: each user takes the next compatible user in line
+const fifoStrategy: MatchStrategy = {
+	name: "fifo",
+	pair: (users, context) => {
+		const queue = [...users].sort(MatchScoreService.byPriority);
+		const paired = new Set<string>();
+		const pairs: PlannedMatch[] = [];
+
+		for (let i = 0; i < queue.length; i++) {
+			const user1 = queue[i];
+			if (paired.has(user1.userId)) continue;
+
+			for (let j = i + 1; j < queue.length; j++) {
+				const user2 = queue[j];
+				if (paired.has(user2.userId)) continue;
+				if (!BucketMatcher.canPair(user1, user2, context)) continue;
+
+				const commonInterests = user1.interests.filter((interest) =>
+					user2.interests.includes(interest),
+				);
+				pairs.push({
+					user1,
+					user2,
+					commonInterests,
+					score: MatchScoreService.scorePair(
+						user1,
+						user2,
+						commonInterests.length,
+						context.now,
+					),
+				});
+				paired.add(user1.userId);
+				paired.add(user2.userId);
+				break;
+			}
+		}
+
+		return pairs;
+	},
+};
+
+const strategies = new Map<string, MatchStrategy>(
+	[greedyInterestStrategy, fifoStrategy].map((strategy) => [
+		strategy.name,
+		strategy,
+	]),
+);
+
+export class MatchStrategyService {
+	static getStrategyNames(): string[] {
+		return Array.from(strategies.keys());
+	}
+
+	static getStrategy(name: string): MatchStrategy | undefined {
+		return strategies.get(name);
+	}
+
+	/**
+	 * Strategy configured for a search type; unknown names fall back to the
+	 * default so a typo in the environment cannot stop matchmaking.
+	 */
+	static forSearchType(searchType: string): MatchStrategy {
+		const name = matchConfig.strategies[searchType] ?? DEFAULT_STRATEGY;
+		const strategy = strategies.get(name);
+		if (!strategy) {
+			console.warn(
+				`[${searchType}] Unknown match strategy "${name}", using ${DEFAULT_STRATEGY}`,
+			);
+			return greedyInterestStrategy;
+		}
+		return strategy;
+	}
+}
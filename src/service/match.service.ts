@@ -1,4 +1,9 @@
-import { AvailableUserService } from "./available-user.service";
+import type { ChainableCommander } from "ioredis";
+import {
+	type AvailableUser,
+	AvailableUserService,
+	type MatchAttributes,
+} from "./available-user.service";
 import { redis } from "../lib/redis";
 import { generateToken } from "../middleware/socket.middleware";
 import RoomService from "./room.service";
@@ -11,6 +16,31 @@ import {
 import { FriendsService } from "./friend.service";
 import { NotificationService } from "./notification.service";
 import { prisma } from "../lib/prisma";
+import type {
+	MatchFilters,
+	SearchPreferences,
+} from "../validation/search.validation";
+import { MatchFilterService } from "./match-filter.service";
+import { RatingService } from "./rating.service";
+import { SubscriptionService } from "./subscription.service";
+import { BlockService } from "./block.service";
+import type { PlannedMatch } from "./bucket-matcher.service";
+import { GroupMatcher, type PlannedGroup } from "./group-matcher.service";
+import { FriendMatcher } from "./friend-matcher.service";
+import {
+	type MatchContext,
+	type MatchStrategy,
+	MatchStrategyService,
+} from "./match-strategy.service";
+import { matchConfig } from "../config/match";
+import { QueueStatusService } from "./queue-status.service";
+import { MatchMetricsService, type TickMetrics } from "./match-metrics.service";
+import {
+	type MatchProposal,
+	MatchProposalService,
+} from "./match-proposal.service";
+import { SearchEvent, type SearchType } from "../config/search";
+
 interface MatchPayload {
 	userId: string;
 	roomId: string;
@@ -18,38 +48,295 @@ interface MatchPayload {
 	isFriend: boolean;
 }
 
-const setUserToPreventMatch = async (userId: string) => {
-	await redis.set(`user_prevent_match:${userId}`, "true", "EX", 7);
+export interface MatchPlan {
+	pairs: PlannedMatch[];
+	// Users in the queue when the plan was made
+	queued: number;
+	// Candidate pairs ruled out by recent partners or blocks
+	prevented: number;
+}
+
+export interface GroupPlan {
+	groups: PlannedGroup[];
+	queued: number;
+	prevented: number;
+}
+
+// Seconds a freshly matched user is held out of later ticks
+const PREVENT_MATCH_TTL = 7;
+
+// Audio calls and video calls get separate lanes so the two are never mixed
+const ROOM_TYPES: Record<SearchType, RoomType> = {
+	chat: RoomType.CHAT,
+	call: RoomType.CALL,
+	video: RoomType.VIDEO_CALL,
+	group: RoomType.GROUP_CHAT,
 };
 
+// Friend presence is tracked across lanes by the SSE connection
+const presenceService = new AvailableUserService("presence");
+
+const getPreventMatchKey = (userId: string) => `user_prevent_match:${userId}`;
+
+// Seconds the last search is kept for requeueing after a skip
+const LAST_SEARCH_TTL = 60 * 60;
+
+const SKIP_REASON = "skipped";
+const SKIP_LOG_LIMIT = 50;
+const SKIP_LOG_TTL = 24 * 60 * 60;
+
+interface LastSearch {
+	interests: string[];
+	preferences: SearchPreferences;
+	requestedFilters?: MatchFilters;
+}
+
+// Recent partners are not paired again until they fall out of either limit
+const RECENT_PARTNER_LIMIT = 5;
+const RECENT_PARTNER_WINDOW_MS = 10 * 60 * 1000;
+
 export class MatchService {
 	private searchType: string;
 	public availableUserService: AvailableUserService;
 	private roomService: RoomService;
 	private roomStateService: RoomStateService;
 	private friendService: FriendsService;
+	private ratingService: RatingService;
+	private blockService: BlockService;
+	private queueStatusService: QueueStatusService;
+	private metricsService: MatchMetricsService;
+	private proposalService: MatchProposalService;
+	private strategy: MatchStrategy;
 
 	constructor(searchType: string) {
 		this.searchType = searchType;
 		this.availableUserService = new AvailableUserService(searchType);
 		this.roomService = new RoomService(
-			searchType === "chat" ? RoomType.CHAT : RoomType.CALL,
+			ROOM_TYPES[searchType as SearchType] ?? RoomType.CALL,
 		);
 		this.roomStateService = new RoomStateService();
 		this.friendService = new FriendsService();
+		this.ratingService = new RatingService();
+		this.blockService = new BlockService();
+		this.queueStatusService = new QueueStatusService(searchType);
+		this.metricsService = new MatchMetricsService(searchType);
+		this.proposalService = new MatchProposalService(searchType);
+		this.strategy = MatchStrategyService.forSearchType(searchType);
+	}
+
+	// One round trip for every prevent flag in the queue
+	private async getPreventedUsers(userIds: string[]): Promise<Set<string>> {
+		const flags = await redis.mget(...userIds.map(getPreventMatchKey));
+		return new Set(userIds.filter((_, index) => flags[index]));
+	}
+
+	private async preventMatch(userIds: string[]) {
+		const pipeline = redis.pipeline();
+		for (const userId of userIds) {
+			pipeline.set(getPreventMatchKey(userId), "true", "EX", PREVENT_MATCH_TTL);
+		}
+		await pipeline.exec();
 	}
 
-	private async checkPrevent(userId: string): Promise<string | null> {
-		return await redis.get(`user_prevent_match:${userId}`);
+	private getRecentPartnersKey(userId: string) {
+		return `recent_partners:${this.searchType}:${userId}`;
 	}
 
-	async addUser(userId: string, username: string, interests: string[]) {
-		const user = await this.availableUserService.addUser(
+	// ZSET of partner ids scored by match time, trimmed to the last few partners
+	private addRecentPartner(
+		pipeline: ChainableCommander,
+		userId: string,
+		partnerId: string,
+	) {
+		const key = this.getRecentPartnersKey(userId);
+		pipeline.zadd(key, Date.now(), partnerId);
+		pipeline.zremrangebyrank(key, 0, -(RECENT_PARTNER_LIMIT + 1));
+		pipeline.pexpire(key, RECENT_PARTNER_WINDOW_MS);
+	}
+
+	async getRecentPartners(
+		userIds: string[],
+	): Promise<Map<string, Set<string>>> {
+		const recentPartners = new Map<string, Set<string>>();
+		if (userIds.length === 0) return recentPartners;
+
+		const since = Date.now() - RECENT_PARTNER_WINDOW_MS;
+		const pipeline = redis.pipeline();
+		for (const userId of userIds) {
+			pipeline.zrangebyscore(this.getRecentPartnersKey(userId), since, "+inf");
+		}
+
+		const results = (await pipeline.exec()) || [];
+		userIds.forEach((userId, index) => {
+			const partners = (results[index]?.[1] as string[]) || [];
+			recentPartners.set(userId, new Set(partners));
+		});
+		return recentPartners;
+	}
+
+	// Symmetric lookup in a per-user relation map (recent partners, blocks)
+	private areRelated(
+		relations: Map<string, Set<string>>,
+		user1: string,
+		user2: string,
+	) {
+		return Boolean(
+			relations.get(user1)?.has(user2) || relations.get(user2)?.has(user1),
+		);
+	}
+
+	private getLastSearchKey(userId: string) {
+		return `last_search:${this.searchType}:${userId}`;
+	}
+
+	// What the user last searched with, so they can be requeued without resending it
+	private async getLastSearch(userId: string): Promise<LastSearch | null> {
+		const raw = await redis.get(this.getLastSearchKey(userId));
+		return raw ? (JSON.parse(raw) as LastSearch) : null;
+	}
+
+	private async getMatchAttributes(
+		userId: string,
+		preferences: SearchPreferences,
+		requestedFilters?: MatchFilters,
+	) {
+		const [user, isPro, rating, reportCount] = await Promise.all([
+			prisma.user.findUnique({
+				where: { id: userId },
+				select: { gender: true },
+			}),
+			SubscriptionService.isUserSubscriptionActive(userId),
+			this.ratingService.getRatingSummaryForUser(userId),
+			prisma.report.count({ where: { reportedUserId: userId } }),
+		]);
+
+		// Filters are only honored for active Pro subscribers
+		const filters = MatchFilterService.resolveFilters(
+			requestedFilters,
+			preferences,
+			isPro,
+		);
+
+		return {
+			gender: user?.gender?.toLowerCase(),
+			rating: rating.count > 0 ? rating.average : undefined,
+			ratingCount: rating.count,
+			reportCount,
+			filters,
+			tier: isPro ? "pro" : "standard",
+		} satisfies MatchAttributes;
+	}
+
+	async addUser(
+		userId: string,
+		username: string,
+		interests: string[],
+		preferences: SearchPreferences = {},
+		requestedFilters?: MatchFilters,
+	) {
+		const attributes = await this.getMatchAttributes(
+			userId,
+			preferences,
+			requestedFilters,
+		);
+
+		await this.availableUserService.addUser(
+			userId,
+			username,
+			interests,
+			preferences,
+			attributes,
+		);
+
+		const lastSearch: LastSearch = { interests, preferences, requestedFilters };
+		await redis.set(
+			this.getLastSearchKey(userId),
+			JSON.stringify(lastSearch),
+			"EX",
+			LAST_SEARCH_TTL,
+		);
+		return { userId, filters: attributes.filters };
+	}
+
+	/**
+	 * Leave the current room and go straight back into the queue. Ending the
+	 * room, recording the skip and requeueing commit in one transaction, and
+	 * only after this skip won the claim on ending the room.
+	 */
+	async skipPartner(userId: string, username: string, roomId: string) {
+		const roomState = await this.roomStateService.getRoomState(roomId);
+		const participantIds =
+			roomState?.participants.map((participant) => participant.id) ?? [];
+		if (
+			!roomState ||
+			roomState.roomType !== this.searchType ||
+			participantIds.length !== 2 ||
+			!participantIds.includes(userId)
+		) {
+			throw new Error("Room not found");
+		}
+		const partnerId = participantIds.find((id) => id !== userId) ?? "";
+
+		// Loaded before the claim, so a failed lookup cannot leave it held
+		const { interests, preferences, requestedFilters } =
+			(await this.getLastSearch(userId)) ?? { interests: [], preferences: {} };
+		const attributes = await this.getMatchAttributes(
+			userId,
+			preferences,
+			requestedFilters,
+		);
+
+		// A second skip or a disconnect got there first
+		if (!(await this.roomStateService.claimRoomEnd(roomId))) {
+			throw new Error("Room not found");
+		}
+
+		const transaction = redis.multi();
+		this.roomStateService.queueEndRoom(
+			transaction,
+			roomId,
+			SKIP_REASON,
+			username,
+		);
+		this.recordSkip(transaction, userId, partnerId);
+		// Neither side is offered the other again for a while
+		this.addRecentPartner(transaction, userId, partnerId);
+		this.addRecentPartner(transaction, partnerId, userId);
+		this.availableUserService.queueUserWrite(
+			transaction,
 			userId,
 			username,
 			interests,
+			preferences,
+			attributes,
 		);
-		return user;
+		try {
+			await transaction.exec();
+		} catch (error) {
+			await this.roomStateService.releaseRoomEnd(roomId);
+			throw error;
+		}
+
+		// Covers clients that are not connected to the room's socket namespace
+		await NotificationService.sendEvent(partnerId, SearchEvent.PARTNER_LEFT, {
+			roomId,
+			type: this.searchType,
+			reason: SKIP_REASON,
+		});
+
+		return { roomId, interests, filters: attributes.filters };
+	}
+
+	// Per-user log of skipped partners, newest last
+	private recordSkip(
+		transaction: ChainableCommander,
+		userId: string,
+		partnerId: string,
+	) {
+		const key = `skips:${this.searchType}:${userId}`;
+		transaction.zadd(key, Date.now(), partnerId);
+		transaction.zremrangebyrank(key, 0, -(SKIP_LOG_LIMIT + 1));
+		transaction.expire(key, SKIP_LOG_TTL);
 	}
 
 	async removeUser(userId: string) {
@@ -102,14 +389,12 @@ export class MatchService {
 			const user2Obj = await prisma.user.findFirst({ where: { id: user2 } });
 
 			// Initialize room state for heartbeat tracking
-			const roomType = this.searchType as "chat" | "call";
+			const roomType = this.searchType as SearchType;
 			const roomStateInitialized =
-				await this.roomStateService.initializeRoomState(
-					roomId,
-					roomType,
+				await this.roomStateService.initializeRoomState(roomId, roomType, [
 					user1,
 					user2,
-				);
+				]);
 
 			if (!roomStateInitialized) {
 				console.warn(`Failed to initialize room state for room ${roomId}`);
@@ -185,144 +470,409 @@ export class MatchService {
 		}
 		pipeline.del(`user_interests:${this.searchType}:${user2}`);
 
+		// Remember the pairing so the next few ticks look for someone new
+		this.addRecentPartner(pipeline, user1, user2);
+		this.addRecentPartner(pipeline, user2, user1);
+
 		await pipeline.exec();
 	}
 
-	async bestMatch() {
+	/**
+	 * Queue snapshot the planners work from: users free to match this tick,
+	 * their interest buckets and the pairs that must not meet. `prevented`
+	 * fills up with the excluded pairs the planner runs into.
+	 */
+	private async loadCandidates(minimum: number): Promise<{
+		candidates: AvailableUser[];
+		context: MatchContext | null;
+		queued: number;
+		prevented: Set<string>;
+	}> {
 		const availableUsers = await this.availableUserService.getAvailableUsers();
-		// console.log(`${this.searchType} availableUsers`, availableUsers);
+		const queued = availableUsers.length;
+		const preventedPairs = new Set<string>();
+		if (availableUsers.length < minimum) {
+			return {
+				candidates: [],
+				context: null,
+				queued,
+				prevented: preventedPairs,
+			};
+		}
 
-		if (availableUsers.length < 2) {
-			return;
+		// Users held by an in-flight match from an overlapping tick sit this one out
+		const prevented = await this.getPreventedUsers(
+			availableUsers.map((user) => user.userId),
+		);
+		const candidates = availableUsers.filter(
+			(user) => !prevented.has(user.userId),
+		);
+		if (candidates.length < minimum) {
+			return {
+				candidates: [],
+				context: null,
+				queued,
+				prevented: preventedPairs,
+			};
 		}
 
-		// Create pairs and batch calculate common interests to reduce Redis calls
-		const userPairs: Array<{
-			user1: { userId: string; username: string; interests: string[] };
-			user2: { userId: string; username: string; interests: string[] };
-		}> = [];
-
-		// Generate all valid pairs (excluding same username)
-		for (let i = 0; i < availableUsers.length; i++) {
-			for (let j = i + 1; j < availableUsers.length; j++) {
-				const user1 = availableUsers[i];
-				const user2 = availableUsers[j];
-
-				// Skip matching users with the same username
-				if (user1.username === user2.username) {
-					continue;
+		const candidateIds = candidates.map((user) => user.userId);
+		const interests = Array.from(
+			new Set(candidates.flatMap((user) => user.interests)),
+		);
+		const [buckets, recentPartners, blockedRelations] = await Promise.all([
+			this.availableUserService.getInterestBuckets(interests),
+			this.getRecentPartners(candidateIds),
+			this.blockService.getBlockedRelations(candidateIds),
+		]);
+
+		const context: MatchContext = {
+			buckets,
+			// Skip users who were just paired with each other or blocked one another
+			isExcluded: (user1, user2) => {
+				const excluded =
+					this.areRelated(recentPartners, user1.userId, user2.userId) ||
+					this.areRelated(blockedRelations, user1.userId, user2.userId);
+				if (excluded) {
+					preventedPairs.add([user1.userId, user2.userId].sort().join(":"));
 				}
+				return excluded;
+			},
+			now: Date.now(),
+		};
+		return { candidates, context, queued, prevented: preventedPairs };
+	}
 
-				userPairs.push({ user1, user2 });
-			}
+	/**
+	 * Read the queue and decide this tick's pairs without touching any state
+	 */
+	async planMatches(): Promise<MatchPlan> {
+		const { candidates, context, queued, prevented } =
+			await this.loadCandidates(2);
+		if (!context) {
+			return { pairs: [], queued, prevented: 0 };
 		}
 
-		// Batch calculate common interests for all pairs
-		const commonInterestsPromises = userPairs.map(async ({ user1, user2 }) => {
-			const commonInterests =
-				await this.availableUserService.getCommonInterests(
-					user1.userId,
-					user2.userId,
-				);
-			return {
-				user1Id: user1.userId,
-				user2Id: user2.userId,
-				user1Username: user1.username,
-				user2Username: user2.username,
-				commonInterests,
-				score: commonInterests.length,
-			};
-		});
+		// Friends-first users are offered their friends before any stranger
+		const friendPairs = await this.pairFriends(candidates, context);
+		const friendPaired = new Set(
+			friendPairs.flatMap(({ user1, user2 }) => [user1.userId, user2.userId]),
+		);
+		const strangers = candidates.filter(
+			(user) =>
+				!friendPaired.has(user.userId) &&
+				!FriendMatcher.isWaitingForFriend(user, context.now),
+		);
 
-		const pairScores = await Promise.all(commonInterestsPromises);
+		const pairs = [...friendPairs, ...this.strategy.pair(strangers, context)];
+		return { pairs, queued, prevented: prevented.size };
+	}
 
-		// Sort pairs by score (descending) for optimal matching
-		pairScores.sort((a, b) => b.score - a.score);
+	private async pairFriends(
+		candidates: AvailableUser[],
+		context: MatchContext,
+	): Promise<PlannedMatch[]> {
+		if (!candidates.some(FriendMatcher.wantsFriends)) return [];
+
+		const [relations, online] = await Promise.all([
+			this.friendService.getFriendRelations(
+				candidates.map((user) => user.userId),
+			),
+			presenceService.getOnlineUserIds(candidates.map((user) => user.userId)),
+		]);
 
-		// Keep track of matched users to avoid matching them again
-		const matchedUsers = new Set<string>();
-		const matchPromises: Promise<void>[] = [];
+		// Only friends who are online as well as searching in this lane
+		const friends = new Map<string, Set<string>>();
+		for (const [userId, friendIds] of relations) {
+			friends.set(
+				userId,
+				new Set(Array.from(friendIds).filter((id) => online.has(id))),
+			);
+		}
 
-		// Greedily match pairs with highest scores first
-		for (const pair of pairScores) {
-			// Skip if either user is already matched
-			if (matchedUsers.has(pair.user1Id) || matchedUsers.has(pair.user2Id)) {
-				continue;
-			}
+		return FriendMatcher.pair(candidates, friends, context);
+	}
 
-			const prevent1 = await this.checkPrevent(pair.user1Id);
-			const prevent2 = await this.checkPrevent(pair.user2Id);
+	/**
+	 * Read the queue and decide this tick's group rooms without touching any state
+	 */
+	async planGroups(): Promise<GroupPlan> {
+		const { candidates, context, queued, prevented } =
+			await this.loadCandidates(matchConfig.group.minSize);
+		if (!context) {
+			return { groups: [], queued, prevented: 0 };
+		}
 
-			if (prevent1 || prevent2) {
-				continue;
-			}
+		const groups = GroupMatcher.fill(candidates, context.buckets, context);
+		return { groups, queued, prevented: prevented.size };
+	}
 
-			// Mark users as matched
-			matchedUsers.add(pair.user1Id);
-			matchedUsers.add(pair.user2Id);
-			await setUserToPreventMatch(pair.user1Id);
-			await setUserToPreventMatch(pair.user2Id);
-
-			// Queue the match operation
-			matchPromises.push(
-				this.setMatch(
-					pair.user1Id,
-					pair.user2Id,
-					pair.user1Username,
-					pair.user2Username,
-				).then(() => {
-					console.log(
-						`Matched users ${pair.user1Id} and ${pair.user2Id} with ${pair.score} common interests`,
-					);
-				}),
-			);
+	async bestMatch() {
+		if (this.searchType === "group") {
+			await this.fillGroups();
+			return;
+		}
+
+		// Settle timed-out proposals first so requeued users join this tick
+		await this.expireProposals();
+
+		const { pairs, queued, prevented } = await this.planMatches();
+		await this.recordTick({
+			queued,
+			proposed: pairs.length,
+			interestPairs: pairs.filter((pair) => pair.commonInterests.length > 0)
+				.length,
+			preventedPairs: prevented,
+		});
+		if (pairs.length === 0) {
+			return;
 		}
 
-		// Handle remaining unmatched users with random pairing
-		const unmatchedUsers = availableUsers.filter(
-			(user) => !matchedUsers.has(user.userId),
+		const userIds = pairs.flatMap(({ user1, user2 }) => [
+			user1.userId,
+			user2.userId,
+		]);
+		await this.preventMatch(userIds);
+		// Proposed users leave the queue until their proposal is settled
+		await this.availableUserService.dequeueUsers(userIds);
+
+		await Promise.all(pairs.map((pair) => this.proposeMatch(pair)));
+
+		console.log(
+			`Proposed ${pairs.length} match(es). ${queued - userIds.length} user(s) remaining in queue.`,
+		);
+	}
+
+	/**
+	 * Open a room for every group that is ready. Groups skip the confirmation
+	 * step: one slow member would otherwise hold every other seat hostage.
+	 */
+	async fillGroups() {
+		const { groups, queued, prevented } = await this.planGroups();
+		// Every group is formed around a shared topic
+		await this.recordTick({
+			queued,
+			proposed: groups.length,
+			interestPairs: groups.length,
+			preventedPairs: prevented,
+		});
+		if (groups.length === 0) {
+			return;
+		}
+
+		const userIds = groups.flatMap(({ members }) =>
+			members.map((member) => member.userId),
 		);
+		await this.preventMatch(userIds);
+		await this.availableUserService.dequeueUsers(userIds);
+
+		await Promise.all(groups.map((group) => this.setGroup(group)));
 
-		// Randomly pair remaining users (avoiding same username)
-		while (unmatchedUsers.length >= 2) {
-			const user1 = unmatchedUsers.shift()!;
-			const user2 = unmatchedUsers.shift()!;
+		console.log(
+			`Formed ${groups.length} group(s). ${queued - userIds.length} user(s) remaining in queue.`,
+		);
+	}
 
-			const prevent1 = await this.checkPrevent(user1.userId);
-			const prevent2 = await this.checkPrevent(user2.userId);
+	private async setGroup({ topic, members }: PlannedGroup) {
+		const memberIds = members.map((member) => member.userId);
+		try {
+			const room = await this.roomService.createGroupRoom(topic, memberIds);
+			const roomId = room.id;
 
-			if (prevent1 || prevent2) {
-				console.log(
-					`Skipping match for users ${user1.userId} and ${user2.userId} because they are prevented from matching`,
+			const roomStateInitialized =
+				await this.roomStateService.initializeRoomState(
+					roomId,
+					"group",
+					memberIds,
 				);
-				continue;
+			if (!roomStateInitialized) {
+				console.warn(`Failed to initialize room state for room ${roomId}`);
 			}
 
-			matchPromises.push(
-				this.setMatch(
-					user1.userId,
-					user2.userId,
-					user1.username,
-					user2.username,
-				).then(() => {
-					console.log(
-						`Randomly matched users ${user1.userId} and ${user2.userId} (no common interests found)`,
-					);
-				}),
+			const memberList = members.map(({ userId, username }) => ({
+				userId,
+				username,
+			}));
+			await Promise.all(
+				members.map((member) =>
+					NotificationService.createNotification(
+						member.userId,
+						"Group Found",
+						`Joined a group of ${members.length} about ${topic}`,
+						NotificationType.MATCH_FOUND,
+						NotificationPriority.HIGH,
+						{
+							roomId,
+							token: generateToken({
+								senderId: member.userId,
+								receiverId: "",
+								roomId,
+								senderUsername: member.username,
+								isGroup: true,
+							}),
+							type: this.searchType,
+							topic,
+							members: memberList,
+						},
+					),
+				),
 			);
+		} catch (error) {
+			console.error("Failed to set group:", error);
+			// Nobody is left waiting on a room that was never created
+			await Promise.all(
+				members.map((member) =>
+					this.availableUserService.requeueUser(member.userId, member.joinedAt),
+				),
+			);
+			return;
+		}
+
+		const matchedAt = Date.now();
+		await this.recordMatchWaits(
+			members.map((member) => matchedAt - member.joinedAt),
+		);
+	}
+
+	// Metrics must never stop the matcher
+	private async recordTick(metrics: TickMetrics) {
+		try {
+			await this.metricsService.recordTick(metrics);
+		} catch (error) {
+			console.error("Failed to record match metrics:", error);
+		}
+	}
 
-			matchedUsers.add(user1.userId);
-			matchedUsers.add(user2.userId);
+	private async recordMatchWaits(waitedMs: number[]) {
+		await this.queueStatusService.recordMatchLatency(waitedMs);
+		try {
+			await this.metricsService.recordMatches(waitedMs);
+		} catch (error) {
+			console.error("Failed to record match metrics:", error);
 		}
+	}
 
-		// Execute all matches in parallel
-		await Promise.all(matchPromises);
+	private async proposeMatch({
+		user1,
+		user2,
+		commonInterests,
+		score,
+	}: PlannedMatch) {
+		const proposal = await this.proposalService.create(
+			user1,
+			user2,
+			commonInterests,
+		);
+		const payload = {
+			proposalId: proposal.id,
+			type: this.searchType,
+			commonInterests,
+			expiresAt: proposal.expiresAt,
+		};
+
+		await Promise.all(
+			[user1, user2].map((user) =>
+				NotificationService.sendEvent(
+					user.userId,
+					SearchEvent.MATCH_PROPOSED,
+					payload,
+				),
+			),
+		);
+		console.log(
+			`Proposed match ${proposal.id} between ${user1.userId} and ${user2.userId} (score ${score.toFixed(2)})`,
+		);
+	}
 
-		const remainingUsers = availableUsers.filter(
-			(user) => !matchedUsers.has(user.userId),
+	/**
+	 * Confirm a proposed match. The room is only created once both users
+	 * have confirmed.
+	 */
+	async confirmMatch(
+		proposalId: string,
+		userId: string,
+	): Promise<{ matched: boolean }> {
+		const { proposal, complete } = await this.proposalService.confirm(
+			proposalId,
+			userId,
 		);
+		if (!complete) {
+			return { matched: false };
+		}
+
+		const { user1, user2 } = proposal;
+		try {
+			await this.setMatch(
+				user1.userId,
+				user2.userId,
+				user1.username,
+				user2.username,
+			);
+		} catch (error) {
+			// Nobody is left waiting on a room that was never created
+			await Promise.all(
+				[user1, user2].map((user) =>
+					this.availableUserService.requeueUser(user.userId, user.joinedAt),
+				),
+			);
+			throw error;
+		}
+
+		// Feeds the wait estimates shown in the queue status
+		const matchedAt = Date.now();
+		await this.recordMatchWaits([
+			matchedAt - user1.joinedAt,
+			matchedAt - user2.joinedAt,
+		]);
 		console.log(
-			`Matching complete. ${remainingUsers.length} user(s) remaining in queue.`,
+			`Matched users ${user1.userId} and ${user2.userId} with ${proposal.commonInterests.length} common interests`,
 		);
+		return { matched: true };
+	}
+
+	async declineMatch(proposalId: string, userId: string) {
+		const settled = await this.proposalService.decline(proposalId, userId);
+		if (!settled) {
+			return;
+		}
+
+		// The partner did nothing wrong and goes back to the front of the queue
+		const { user1, user2 } = settled.proposal;
+		const partnerId = user1.userId === userId ? user2.userId : user1.userId;
+		await this.cancelProposal(settled.proposal, "declined", [partnerId]);
+	}
+
+	/**
+	 * Users who confirmed a timed-out proposal are requeued at the front;
+	 * the ones who never answered are taken out of the search.
+	 */
+	async expireProposals() {
+		const expired = await this.proposalService.takeExpired();
+		for (const { proposal, confirmedUserIds } of expired) {
+			await this.cancelProposal(proposal, "timeout", confirmedUserIds);
+		}
+	}
+
+	private async cancelProposal(
+		proposal: MatchProposal,
+		reason: "declined" | "timeout",
+		requeueUserIds: string[],
+	) {
+		for (const user of [proposal.user1, proposal.user2]) {
+			const requeued = requeueUserIds.includes(user.userId);
+			if (requeued) {
+				await this.availableUserService.requeueUser(user.userId, user.joinedAt);
+			} else {
+				await this.availableUserService.removeUser(user.userId, {
+					keepRecord: true,
+				});
+			}
+
+			await NotificationService.sendEvent(
+				user.userId,
+				SearchEvent.MATCH_CANCELLED,
+				{ proposalId: proposal.id, type: this.searchType, reason, requeued },
+			);
+		}
 	}
 }
@@ -0,0 +1,223 @@
+import { pubClient } from "../lib/redis";
+import { prisma } from "../lib/prisma";
+import { RedisHash } from "../config/redis-hash";
+import { chatConfig } from "../config/chat";
+import ChatDBService from "./chat-db.service";
+import { FriendChatMessageService } from "./friend-chat-message.service";
+import { ReactionService } from "./reaction.service";
+
+export type MessageChangeType = "edited" | "deleted";
+
+// Published to the room whenever a message is edited or deleted
+export interface MessageUpdate {
+	type: MessageChangeType;
+	id: string;
+	roomId: string;
+	content: string;
+	editedAt: string | null;
+	deletedAt: string | null;
+}
+
+// What the ownership and edit window checks need from either store
+interface ChangeableMessage {
+	senderIds: string[];
+	sentAt: Date;
+	deletedAt: Date | null;
+}
+
+/**
+ * Edits and deletes chat messages for their sender. Friend rooms ("a|b")
+ * keep their messages in Redis lists, every other room in `Text` rows;
+ * both are changed in place so room history stays consistent.
+ */
+export class MessageEditService {
+	private chatDBService: ChatDBService;
+	private friendChatMessageService: FriendChatMessageService;
+	private reactionService: ReactionService;
+
+	constructor() {
+		this.chatDBService = new ChatDBService();
+		this.friendChatMessageService = new FriendChatMessageService();
+		this.reactionService = new ReactionService();
+	}
+
+	private static isFriendRoom(roomId: string) {
+		return roomId.includes("|");
+	}
+
+	/**
+	 * Every identifier a user may appear under as a sender. Room tokens carry
+	 * either user ids or usernames; anonymous users only have the token's id.
+	 */
+	async getUserIdentities(identifier: string): Promise<string[]> {
+		const user = await prisma.user.findFirst({
+			where: {
+				OR: [
+					{ id: identifier },
+					{ username: identifier },
+					{ displayUsername: identifier },
+				],
+			},
+			select: { id: true, username: true, displayUsername: true },
+		});
+		const identities = [
+			identifier,
+			user?.id,
+			user?.username,
+			user?.displayUsername,
+		];
+		return Array.from(
+			new Set(identities.filter((id): id is string => Boolean(id))),
+		);
+	}
+
+	private async loadMessage(
+		roomId: string,
+		messageId: string,
+	): Promise<ChangeableMessage | null> {
+		if (roomId === "general") {
+			throw new Error("Messages in this room cannot be changed");
+		}
+
+		if (MessageEditService.isFriendRoom(roomId)) {
+			const message = await this.friendChatMessageService.getMessage(
+				roomId,
+				messageId,
+			);
+			if (!message) return null;
+			return {
+				senderIds: [message.senderId],
+				sentAt: new Date(message.timestamp),
+				deletedAt: message.deletedAt ? new Date(message.deletedAt) : null,
+			};
+		}
+
+		const message = await this.chatDBService.getMessage(messageId);
+		if (!message || message.roomId !== roomId) return null;
+		return message;
+	}
+
+	private async assertCanChange(
+		roomId: string,
+		messageId: string,
+		editorIds: string[],
+		now: Date,
+	) {
+		const message = await this.loadMessage(roomId, messageId);
+		if (!message) {
+			throw new Error("Message not found");
+		}
+		if (!message.senderIds.some((id) => editorIds.includes(id))) {
+			throw new Error("You can only change your own messages");
+		}
+		if (message.deletedAt) {
+			throw new Error("Message was already deleted");
+		}
+		if (now.getTime() - message.sentAt.getTime() > chatConfig.editWindowMs) {
+			throw new Error("Edit window has closed");
+		}
+	}
+
+	private async publish(update: MessageUpdate) {
+		await pubClient.publish(
+			RedisHash.CHAT_MESSAGE_UPDATES,
+			JSON.stringify(update),
+		);
+	}
+
+	async editMessage(
+		roomId: string,
+		messageId: string,
+		editorIds: string[],
+		content: string,
+	): Promise<MessageUpdate> {
+		const editedAt = new Date();
+		await this.assertCanChange(roomId, messageId, editorIds, editedAt);
+
+		if (MessageEditService.isFriendRoom(roomId)) {
+			const message = await this.friendChatMessageService.editMessage(
+				roomId,
+				messageId,
+				content,
+				editedAt,
+			);
+			if (!message) throw new Error("Message not found");
+		} else {
+			await this.chatDBService.editMessage(messageId, content, editedAt);
+		}
+
+		const update: MessageUpdate = {
+			type: "edited",
+			id: messageId,
+			roomId,
+			content,
+			editedAt: editedAt.toISOString(),
+			deletedAt: null,
+		};
+		await this.publish(update);
+		return update;
+	}
+
+	async deleteMessage(
+		roomId: string,
+		messageId: string,
+		editorIds: string[],
+	): Promise<MessageUpdate> {
+		const deletedAt = new Date();
+		await this.assertCanChange(roomId, messageId, editorIds, deletedAt);
+
+		if (MessageEditService.isFriendRoom(roomId)) {
+			const message = await this.friendChatMessageService.deleteMessage(
+				roomId,
+				messageId,
+				deletedAt,
+			);
+			if (!message) throw new Error("Message not found");
+		} else {
+			await this.chatDBService.deleteMessage(messageId, deletedAt);
+		}
+		await this.reactionService.clearReactions(messageId);
+
+		const update: MessageUpdate = {
+			type: "deleted",
+			id: messageId,
+			roomId,
+			content: "",
+			editedAt: null,
+			deletedAt: deletedAt.toISOString(),
+		};
+		await this.publish(update);
+		return update;
+	}
+
+	/**
+	 * Earlier versions of a message, oldest first; only its sender may see them
+	 */
+	async getEditHistory(
+		roomId: string,
+		messageId: string,
+		editorIds: string[],
+	): Promise<{ content: string; editedAt: string }[]> {
+		const message = await this.loadMessage(roomId, messageId);
+		if (!message) {
+			throw new Error("Message not found");
+		}
+		if (!message.senderIds.some((id) => editorIds.includes(id))) {
+			throw new Error("You can only view the history of your own messages");
+		}
+
+		if (MessageEditService.isFriendRoom(roomId)) {
+			const stored = await this.friendChatMessageService.getMessage(
+				roomId,
+				messageId,
+			);
+			return stored?.edits ?? [];
+		}
+
+		const edits = await this.chatDBService.getEditHistory(messageId);
+		return edits.map((edit) => ({
+			content: edit.content,
+			editedAt: edit.editedAt.toISOString(),
+		}));
+	}
+}
@@ -29,6 +29,27 @@ export class NotificationService {
 		}
 	}
 
+	/**
+	 * Push a transient event to a user's SSE stream. Unlike notifications it
+	 * is not stored, so a user who is offline simply misses it.
+	 */
+	static async sendEvent(
+		userId: string,
+		event: string,
+		data: unknown,
+	): Promise<boolean> {
+		try {
+			await pubClient.publish(
+				`${SSE_CHANNEL_PREFIX}${userId}`,
+				JSON.stringify({ event, data }),
+			);
+			return true;
+		} catch (error) {
+			logger.error(`Error sending ${event} event to user ${userId}:`, error);
+			return false;
+		}
+	}
+
 	static async createNotification(
 		userId: string,
 		title: string,
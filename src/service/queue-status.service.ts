@@ -0,0 +1,100 @@
+import { redis } from "../lib/redis";
+import {
+	AvailableUserService,
+	type PriorityTier,
+} from "./available-user.service";
+import { MatchScoreService } from "./match-score.service";
+
+// Recent match latencies kept per queue for wait estimates
+const LATENCY_SAMPLE_SIZE = 100;
+
+export interface QueueStatus {
+	type: string;
+	queued: boolean;
+	// "pro" users get priority matching
+	tier: PriorityTier;
+	// 1-based, in the order the matcher serves users
+	position: number | null;
+	waitedMs: number;
+	// Null until the queue has produced some matches
+	estimatedWaitMs: number | null;
+	queueSize: number;
+}
+
+export class QueueStatusService {
+	private searchType: string;
+	private availableUserService: AvailableUserService;
+
+	constructor(searchType: string) {
+		this.searchType = searchType;
+		this.availableUserService = new AvailableUserService(searchType);
+	}
+
+	private getLatencyKey() {
+		return `match_latency:${this.searchType}`;
+	}
+
+	/**
+	 * Remember how long freshly matched users waited
+	 */
+	async recordMatchLatency(waitedMs: number[]) {
+		if (waitedMs.length === 0) return;
+		const key = this.getLatencyKey();
+		await redis
+			.pipeline()
+			.lpush(key, ...waitedMs.map((ms) => String(Math.round(ms))))
+			.ltrim(key, 0, LATENCY_SAMPLE_SIZE - 1)
+			.exec();
+	}
+
+	/**
+	 * Median wait of recent matches, or null when there is no history yet
+	 */
+	async getTypicalLatency(): Promise<number | null> {
+		const samples = (await redis.lrange(this.getLatencyKey(), 0, -1))
+			.map(Number)
+			.filter((ms) => Number.isFinite(ms))
+			.sort((a, b) => a - b);
+		if (samples.length === 0) return null;
+
+		const middle = Math.floor(samples.length / 2);
+		return samples.length % 2
+			? samples[middle]
+			: (samples[middle - 1] + samples[middle]) / 2;
+	}
+
+	async getStatus(userId: string): Promise<QueueStatus> {
+		const [entry, tier, queueSize, typicalLatency] = await Promise.all([
+			this.availableUserService.getQueueEntry(userId),
+			this.availableUserService.getUserTier(userId),
+			this.availableUserService.getUserCount(),
+			this.getTypicalLatency(),
+		]);
+
+		let position: number | null = null;
+		if (entry) {
+			// Everyone is ranked by priority time, which includes Pro head starts
+			const priorityTime = MatchScoreService.getPriorityTime({
+				joinedAt: entry.joinedAt,
+				tier,
+			});
+			position =
+				(await this.availableUserService.countUsersAhead(priorityTime)) + 1;
+		}
+
+		const waitedMs = entry ? Math.max(0, Date.now() - entry.joinedAt) : 0;
+		return {
+			type: this.searchType,
+			queued: entry !== null,
+			tier,
+			position,
+			waitedMs,
+			// Users past the typical wait are expected to match on the next ticks
+			estimatedWaitMs:
+				typicalLatency === null
+					? null
+					: Math.max(0, Math.round(typicalLatency - waitedMs)),
+			queueSize,
+		};
+	}
+}
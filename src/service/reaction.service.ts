@@ -0,0 +1,182 @@
+import { pubClient } from "../lib/redis";
+import { prisma, serializable } from "../lib/prisma";
+import { RedisHash } from "../config/redis-hash";
+import { chatConfig } from "../config/chat";
+import ChatDBService from "./chat-db.service";
+import { FriendChatMessageService } from "./friend-chat-message.service";
+
+export interface ReactionSummary {
+	emoji: string;
+	count: number;
+	// Who reacted, so clients can highlight their own reactions
+	userIds: string[];
+}
+
+// Published to the room whenever a message's reactions change
+export interface ReactionUpdate {
+	roomId: string;
+	messageId: string;
+	reactions: ReactionSummary[];
+}
+
+/**
+ * Emoji reactions on messages in match rooms, friend chats and the general
+ * room. Reactions live in one table keyed by message id, whichever store
+ * holds the message itself.
+ */
+export class ReactionService {
+	private chatDBService: ChatDBService;
+	private friendChatMessageService: FriendChatMessageService;
+
+	constructor() {
+		this.chatDBService = new ChatDBService();
+		this.friendChatMessageService = new FriendChatMessageService();
+	}
+
+	private async assertCanReact(roomId: string, messageId: string) {
+		let message: { deletedAt?: Date | string | null } | null;
+		if (roomId === "general") {
+			message = await this.chatDBService.getGlobalMessage(messageId);
+		} else if (roomId.includes("|")) {
+			message = await this.friendChatMessageService.getMessage(
+				roomId,
+				messageId,
+			);
+		} else {
+			const text = await this.chatDBService.getMessage(messageId);
+			message = text?.roomId === roomId ? text : null;
+		}
+
+		if (!message) {
+			throw new Error("Message not found");
+		}
+		if (message.deletedAt) {
+			throw new Error("Message was deleted");
+		}
+	}
+
+	async addReaction(
+		roomId: string,
+		messageId: string,
+		userId: string,
+		emoji: string,
+	): Promise<ReactionUpdate> {
+		await this.assertCanReact(roomId, messageId);
+
+		const { maxPerUser, maxEmojisPerMessage } = chatConfig.reactions;
+		// Serializable, so concurrent adds cannot both slip under a limit
+		await serializable(async (tx) => {
+			const existing = await tx.messageReaction.findMany({
+				where: { messageId },
+				select: { userId: true, emoji: true },
+			});
+			const alreadyReacted = existing.some(
+				(reaction) => reaction.userId === userId && reaction.emoji === emoji,
+			);
+			if (alreadyReacted) return;
+
+			const ownCount = existing.filter(
+				(reaction) => reaction.userId === userId,
+			).length;
+			if (ownCount >= maxPerUser) {
+				throw new Error(
+					`You can add up to ${maxPerUser} reactions to a message`,
+				);
+			}
+
+			const emojis = new Set(existing.map((reaction) => reaction.emoji));
+			if (!emojis.has(emoji) && emojis.size >= maxEmojisPerMessage) {
+				throw new Error("This message has reached its reaction limit");
+			}
+
+			await tx.messageReaction.upsert({
+				where: { messageId_userId_emoji: { messageId, userId, emoji } },
+				update: {},
+				create: { roomId, messageId, userId, emoji },
+			});
+		});
+
+		return this.publish(roomId, messageId);
+	}
+
+	async removeReaction(
+		roomId: string,
+		messageId: string,
+		userId: string,
+		emoji: string,
+	): Promise<ReactionUpdate> {
+		await prisma.messageReaction.deleteMany({
+			where: { roomId, messageId, userId, emoji },
+		});
+		return this.publish(roomId, messageId);
+	}
+
+	// Deleted messages take their reactions with them
+	async clearReactions(messageId: string) {
+		await prisma.messageReaction.deleteMany({ where: { messageId } });
+	}
+
+	/**
+	 * Reactions per message, aggregated per emoji with the most used first
+	 */
+	async getReactions(
+		messageIds: string[],
+	): Promise<Map<string, ReactionSummary[]>> {
+		const summaries = new Map<string, ReactionSummary[]>();
+		if (messageIds.length === 0) return summaries;
+
+		const reactions = await prisma.messageReaction.findMany({
+			where: { messageId: { in: messageIds } },
+			orderBy: { createdAt: "asc" },
+			select: { messageId: true, userId: true, emoji: true },
+		});
+
+		const byMessage = new Map<string, Map<string, string[]>>();
+		for (const { messageId, userId, emoji } of reactions) {
+			const emojis = byMessage.get(messageId) ?? new Map<string, string[]>();
+			emojis.set(emoji, [...(emojis.get(emoji) ?? []), userId]);
+			byMessage.set(messageId, emojis);
+		}
+
+		for (const [messageId, emojis] of byMessage) {
+			summaries.set(
+				messageId,
+				Array.from(emojis, ([emoji, userIds]) => ({
+					emoji,
+					count: userIds.length,
+					userIds,
+				})).sort((a, b) => b.count - a.count),
+			);
+		}
+		return summaries;
+	}
+
+	/**
+	 * Add a `reactions` list to each message of a history page
+	 */
+	async withReactions<T extends { id: string }>(
+		messages: T[],
+	): Promise<(T & { reactions: ReactionSummary[] })[]> {
+		const summaries = await this.getReactions(
+			messages.map((message) => message.id),
+		);
+		return messages.map((message) => ({
+			...message,
+			reactions: summaries.get(message.id) ?? [],
+		}));
+	}
+
+	private async publish(
+		roomId: string,
+		messageId: string,
+	): Promise<ReactionUpdate> {
+		const summaries = await this.getReactions([messageId]);
+		const update: ReactionUpdate = {
+			roomId,
+			messageId,
+			reactions: summaries.get(messageId) ?? [],
+		};
+		await pubClient.publish(RedisHash.CHAT_REACTIONS, JSON.stringify(update));
+		return update;
+	}
+}
@@ -0,0 +1,107 @@
+import { pubClient } from "../lib/redis";
+import { prisma } from "../lib/prisma";
+import { RedisHash } from "../config/redis-hash";
+import ChatDBService from "./chat-db.service";
+import { FriendChatMessageService } from "./friend-chat-message.service";
+
+// Published to the room whenever a reader's pointer moves forward
+export interface ReadReceiptUpdate {
+	roomId: string;
+	userId: string;
+	messageId: string;
+	readAt: string;
+}
+
+/**
+ * Read pointers for match rooms and friend chats. Each user keeps one
+ * pointer per room at the newest message they have seen; the pointer never
+ * moves back, so a late `mark_read` for an older message is ignored.
+ */
+export class ReceiptService {
+	private chatDBService: ChatDBService;
+	private friendChatMessageService: FriendChatMessageService;
+
+	constructor() {
+		this.chatDBService = new ChatDBService();
+		this.friendChatMessageService = new FriendChatMessageService();
+	}
+
+	// When the message was sent, or null when it is not in this room
+	private async getSentAt(
+		roomId: string,
+		messageId: string,
+	): Promise<Date | null> {
+		if (roomId.includes("|")) {
+			const message = await this.friendChatMessageService.getMessage(
+				roomId,
+				messageId,
+			);
+			return message ? new Date(message.timestamp) : null;
+		}
+
+		const text = await this.chatDBService.getMessage(messageId);
+		return text?.roomId === roomId ? text.sentAt : null;
+	}
+
+	/**
+	 * Move the user's pointer to the given message. Returns null when the
+	 * pointer already is at that message or past it.
+	 */
+	async markRead(
+		roomId: string,
+		userId: string,
+		messageId: string,
+	): Promise<ReadReceiptUpdate | null> {
+		if (roomId === "general") {
+			throw new Error("Read receipts are not kept for this room");
+		}
+
+		const sentAt = await this.getSentAt(roomId, messageId);
+		if (!sentAt) {
+			throw new Error("Message not found");
+		}
+
+		const existing = await prisma.readReceipt.findUnique({
+			where: { roomId_userId: { roomId, userId } },
+		});
+		if (existing && existing.lastSentAt >= sentAt) return null;
+
+		const readAt = new Date();
+		await prisma.readReceipt.upsert({
+			where: { roomId_userId: { roomId, userId } },
+			update: { lastMessageId: messageId, lastSentAt: sentAt, readAt },
+			create: {
+				roomId,
+				userId,
+				lastMessageId: messageId,
+				lastSentAt: sentAt,
+				readAt,
+			},
+		});
+
+		const update: ReadReceiptUpdate = {
+			roomId,
+			userId,
+			messageId,
+			readAt: readAt.toISOString(),
+		};
+		await pubClient.publish(RedisHash.CHAT_RECEIPTS, JSON.stringify(update));
+		return update;
+	}
+
+	/**
+	 * Every participant's pointer, so a rejoining sender sees what was read
+	 */
+	async getReadReceipts(roomId: string): Promise<ReadReceiptUpdate[]> {
+		const receipts = await prisma.readReceipt.findMany({
+			where: { roomId },
+			orderBy: { readAt: "asc" },
+		});
+		return receipts.map((receipt) => ({
+			roomId: receipt.roomId,
+			userId: receipt.userId,
+			messageId: receipt.lastMessageId,
+			readAt: receipt.readAt.toISOString(),
+		}));
+	}
+}
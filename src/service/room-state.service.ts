@@ -1,22 +1,48 @@
-import { redis } from "../lib/redis";
+import type { ChainableCommander } from "ioredis";
+import { pubClient, redis } from "../lib/redis";
 import { PointService } from "./point.service";
 import { calculatePoints } from "../utils/heartbeat";
+import { RedisHash } from "../config/redis-hash";
+import type { SearchType } from "../config/search";
 
-interface IUser {
+export interface IUser {
 	id: string;
 	lastHeartbeat: number;
 	heartbeatCount: number;
 	state: "online" | "offline" | "disconnected";
 }
 
-interface RoomState {
+export interface RoomState {
 	roomId: string;
-	roomType: "chat" | "call";
-	user1: IUser;
-	user2: IUser;
+	roomType: SearchType;
+	// Two entries for one-to-one rooms, up to the group size for group rooms
+	participants: IUser[];
+}
+
+// Rooms written before group rooms existed keep their two sides here
+interface LegacyRoomState {
+	roomId: string;
+	roomType: SearchType;
+	user1?: IUser;
+	user2?: IUser;
+	participants?: IUser[];
+}
+
+function parseRoomState(raw: string): RoomState {
+	const stored = JSON.parse(raw) as LegacyRoomState;
+	if (Array.isArray(stored.participants)) return stored as RoomState;
+	return {
+		roomId: stored.roomId,
+		roomType: stored.roomType,
+		participants: [stored.user1, stored.user2].filter((user): user is IUser =>
+			Boolean(user),
+		),
+	};
 }
 
 const HEARTBEAT_TIMEOUT = 10000;
+// Room ids are never reused, so the end claim only has to outlive the race
+const ROOM_END_CLAIM_TTL = 60;
 const HEARTBEATS_PER_POINT = 10; // How many heartbeats needed to earn a point
 
 export class RoomStateService {
@@ -29,12 +55,14 @@ export class RoomStateService {
 		this.removeDisconnectedUsers = this.removeDisconnectedUsers.bind(this);
 		this.initializeRoomState = this.initializeRoomState.bind(this);
 		this.awardHeartbeatPoints = this.awardHeartbeatPoints.bind(this);
+		this.getRoomState = this.getRoomState.bind(this);
+		this.endRoom = this.endRoom.bind(this);
 	}
 
 	private async awardHeartbeatPoints(
 		userId: string,
 		heartbeatCount: number,
-		roomType: "chat" | "call",
+		roomType: SearchType,
 	): Promise<void> {
 		// Award points every HEARTBEATS_PER_POINT heartbeats
 		if (heartbeatCount % HEARTBEATS_PER_POINT === 0) {
@@ -64,6 +92,7 @@ export class RoomStateService {
 		error?: string;
 		index?: number;
 		state?: IUser;
+		participants?: IUser[];
 	}> {
 		try {
 			const timenow: number = Date.now();
@@ -76,49 +105,39 @@ export class RoomStateService {
 				};
 			}
 
-			const roomState = JSON.parse(roomStateRaw) as RoomState;
-
-			let userUpdated = false;
-			let heartbeatCount = 0;
-			let userState: any;
+			const roomState = parseRoomState(roomStateRaw);
 
-			if (roomState.user1.id === username) {
-				roomState.user1.lastHeartbeat = timenow;
-				roomState.user1.heartbeatCount++;
-				heartbeatCount = roomState.user1.heartbeatCount;
-				userState = roomState.user2;
-				userUpdated = true;
-
-				// Award points for heartbeat activity
-				await this.awardHeartbeatPoints(
-					userId,
-					heartbeatCount,
-					roomState.roomType,
-				);
-			} else if (roomState.user2.id === username) {
-				roomState.user2.lastHeartbeat = timenow;
-				roomState.user2.heartbeatCount++;
-				heartbeatCount = roomState.user2.heartbeatCount;
-				userState = roomState.user2;
-				userUpdated = true;
-
-				// Award points for heartbeat activity
-				await this.awardHeartbeatPoints(
-					userId,
-					heartbeatCount,
-					roomState.roomType,
-				);
-			}
+			const userState = roomState.participants.find(
+				(participant) => participant.id === username,
+			);
 
-			if (!userUpdated) {
+			if (!userState) {
 				return {
 					success: false,
-					error: `User ${username} not found in room ${roomId}. Expected users: ${roomState.user1.id}, ${roomState.user2.id}`,
+					error: `User ${username} not found in room ${roomId}. Expected users: ${roomState.participants
+						.map((participant) => participant.id)
+						.join(", ")}`,
 				};
 			}
 
+			userState.lastHeartbeat = timenow;
+			userState.heartbeatCount++;
+			const heartbeatCount = userState.heartbeatCount;
+
+			// Award points for heartbeat activity
+			await this.awardHeartbeatPoints(
+				userId,
+				heartbeatCount,
+				roomState.roomType,
+			);
+
 			await redis.set(`room:${roomId}`, JSON.stringify(roomState));
-			return { success: true, index: heartbeatCount, state: userState };
+			return {
+				success: true,
+				index: heartbeatCount,
+				state: userState,
+				participants: roomState.participants,
+			};
 		} catch (error) {
 			console.error(`Heartbeat error for room ${roomId}:`, error);
 			return {
@@ -132,9 +151,8 @@ export class RoomStateService {
 
 	async initializeRoomState(
 		roomId: string,
-		roomType: "chat" | "call",
-		user1Id: string,
-		user2Id: string,
+		roomType: SearchType,
+		participantIds: string[],
 	): Promise<boolean> {
 		try {
 			const timenow: number = Date.now();
@@ -142,23 +160,17 @@ export class RoomStateService {
 			const roomState: RoomState = {
 				roomId,
 				roomType,
-				user1: {
-					id: user1Id,
+				participants: participantIds.map((id) => ({
+					id,
 					lastHeartbeat: timenow,
 					heartbeatCount: 0,
 					state: "online",
-				},
-				user2: {
-					id: user2Id,
-					lastHeartbeat: timenow,
-					heartbeatCount: 0,
-					state: "online",
-				},
+				})),
 			};
 
 			await redis.set(`room:${roomId}`, JSON.stringify(roomState));
 			console.log(
-				`Room state initialized for room ${roomId} with users ${user1Id} and ${user2Id}`,
+				`Room state initialized for room ${roomId} with users ${participantIds.join(", ")}`,
 			);
 			return true;
 		} catch (error) {
@@ -167,6 +179,73 @@ export class RoomStateService {
 		}
 	}
 
+	async getRoomState(roomId: string): Promise<RoomState | null> {
+		const roomStateRaw = await redis.get(`room:${roomId}`);
+		return roomStateRaw ? parseRoomState(roomStateRaw) : null;
+	}
+
+	/**
+	 * Skips, blocks and disconnects can all try to end the same room at once;
+	 * only the first to claim it goes on, so the room ends exactly once
+	 */
+	async claimRoomEnd(roomId: string): Promise<boolean> {
+		const claimed = await redis.set(
+			`room_ending:${roomId}`,
+			"1",
+			"EX",
+			ROOM_END_CLAIM_TTL,
+			"NX",
+		);
+		return claimed === "OK";
+	}
+
+	// Give up a claim whose room could not be ended, so others can retry
+	async releaseRoomEnd(roomId: string) {
+		await redis.del(`room_ending:${roomId}`);
+	}
+
+	/**
+	 * End a live room for everyone in it: drop its state and tell every
+	 * instance to close the room's sockets. Returns null when the room is
+	 * already being ended.
+	 */
+	async endRoom(
+		roomId: string,
+		reason: string,
+		endedBy = "",
+	): Promise<RoomState | null> {
+		if (!(await this.claimRoomEnd(roomId))) return null;
+
+		const roomState = await this.getRoomState(roomId);
+		const transaction = redis.multi();
+		this.queueEndRoom(transaction, roomId, reason, endedBy);
+		await transaction.exec();
+
+		return roomState;
+	}
+
+	/**
+	 * Add the commands that end a room to a caller's transaction, so ending
+	 * the room can commit together with other state changes
+	 */
+	queueEndRoom(
+		transaction: ChainableCommander,
+		roomId: string,
+		reason: string,
+		endedBy = "",
+	) {
+		const endedEvent: RoomEvent = {
+			type: "ended",
+			roomId,
+			clientId: "",
+			username: endedBy,
+			reason,
+			timestamp: new Date().toISOString(),
+		};
+		transaction.del(`room:${roomId}`);
+		transaction.publish(RedisHash.CHAT_ROOMS, JSON.stringify(endedEvent));
+	}
+
 	async makeDisconnect() {
 		const timenow: number = Date.now();
 
@@ -177,36 +256,27 @@ export class RoomStateService {
 				continue;
 			}
 
-			const roomState = JSON.parse(roomStateRaw) as RoomState;
-
-			if (
-				roomState.user1.state === "online" &&
-				roomState.user1.lastHeartbeat < timenow - HEARTBEAT_TIMEOUT
-			) {
-				roomState.user1.state = "offline";
-			} else if (
-				roomState.user1.state === "offline" &&
-				roomState.user1.lastHeartbeat < timenow - HEARTBEAT_TIMEOUT
-			) {
-				roomState.user1.state = "disconnected";
-			}
+			const roomState = parseRoomState(roomStateRaw);
 
-			if (
-				roomState.user2.state === "online" &&
-				roomState.user2.lastHeartbeat < timenow - HEARTBEAT_TIMEOUT
-			) {
-				roomState.user2.state = "offline";
-			} else if (
-				roomState.user2.state === "offline" &&
-				roomState.user2.lastHeartbeat < timenow - HEARTBEAT_TIMEOUT
-			) {
-				roomState.user2.state = "disconnected";
+			for (const participant of roomState.participants) {
+				if (participant.lastHeartbeat >= timenow - HEARTBEAT_TIMEOUT) {
+					continue;
+				}
+				if (participant.state === "online") {
+					participant.state = "offline";
+				} else if (participant.state === "offline") {
+					participant.state = "disconnected";
+				}
 			}
 
 			await redis.set(room, JSON.stringify(roomState));
 		}
 	}
 
+	/**
+	 * A one-to-one room closes as soon as either side is gone. Group rooms
+	 * drop disconnected members and stay open while two or more remain.
+	 */
 	async removeDisconnectedUsers() {
 		const allRooms = await redis.keys("room:*");
 		for (const room of allRooms) {
@@ -215,16 +285,41 @@ export class RoomStateService {
 				continue;
 			}
 
-			const roomState = JSON.parse(roomStateRaw) as RoomState;
-			if (roomState.user1.state === "disconnected") {
-				await redis.del(room);
+			const roomState = parseRoomState(roomStateRaw);
+			const remaining = roomState.participants.filter(
+				(participant) => participant.state !== "disconnected",
+			);
+			if (remaining.length === roomState.participants.length) {
+				continue;
 			}
 
-			if (roomState.user2.state === "disconnected") {
-				await redis.del(room);
+			if (roomState.roomType !== "group" || remaining.length < 2) {
+				if (await this.claimRoomEnd(roomState.roomId)) {
+					await redis.del(room);
+				}
+				continue;
 			}
 
+			const removed = roomState.participants.filter(
+				(participant) => participant.state === "disconnected",
+			);
+			roomState.participants = remaining;
 			await redis.set(room, JSON.stringify(roomState));
+
+			for (const participant of removed) {
+				const leaveEvent: RoomEvent = {
+					type: "leave",
+					roomId: roomState.roomId,
+					clientId: "",
+					username: participant.id,
+					reason: "disconnected",
+					timestamp: new Date().toISOString(),
+				};
+				await pubClient.publish(
+					RedisHash.CHAT_ROOMS,
+					JSON.stringify(leaveEvent),
+				);
+			}
 		}
 	}
 }
@@ -50,6 +50,7 @@ export default class RoomService {
 					{ user2Id: userId },
 					{ anonUser1Id: userId },
 					{ anonUser2Id: userId },
+					{ participants: { some: { anonId: userId } } },
 				],
 				type: this.roomType,
 			},
@@ -113,6 +114,40 @@ export default class RoomService {
 		}
 	}
 
+	// Group rooms list their members as participants instead of user1/user2
+	async createGroupRoom(topic: string, participantIds: string[]) {
+		try {
+			const room = await prisma.room.create({
+				data: {
+					type: this.roomType as RoomType,
+					topic,
+					participants: {
+						create: participantIds.map((participantId) => ({
+							userId: participantId,
+							anonId: participantId,
+						})),
+					},
+				},
+			});
+
+			await redis.set(
+				this.getRoomKey(room.id),
+				JSON.stringify(room),
+				"EX",
+				this.CACHE_TTL,
+			);
+
+			for (const participantId of participantIds) {
+				await this.updateUserRoomsCache(participantId, room);
+			}
+
+			return room;
+		} catch (error) {
+			console.error("Error creating group room:", error);
+			throw error;
+		}
+	}
+
 	// Helper method to update user rooms cache efficiently
 	private async updateUserRoomsCache(userId: string, newRoom: any) {
 		const cachedUserRooms = await redis.get(this.getUserRoomsKey(userId));
@@ -230,7 +265,7 @@ export default class RoomService {
 		}
 
 		// If not in cache, fetch from database
-		const messages = await prisma.text.findMany({
+		const texts = await prisma.text.findMany({
 			where: {
 				roomId,
 			},
@@ -244,8 +279,31 @@ export default class RoomService {
 				},
 				skip: 1,
 			}),
+			include: {
+				replyTo: {
+					select: {
+						id: true,
+						content: true,
+						senderAnonId: true,
+						sentAt: true,
+						deletedAt: true,
+					},
+				},
+			},
 		});
 
+		// Quotes use the same shape as the ones sent with live messages
+		const messages = texts.map(({ replyTo, ...text }) => ({
+			...text,
+			replyTo: replyTo && {
+				id: replyTo.id,
+				content: replyTo.content,
+				senderId: replyTo.senderAnonId,
+				sentAt: replyTo.sentAt.toISOString(),
+				deletedAt: replyTo.deletedAt?.toISOString() ?? null,
+			},
+		}));
+
 		// Cache the result if found
 		if (messages.length > 0) {
 			await redis.set(
@@ -263,6 +321,14 @@ export default class RoomService {
 		return `chat:messages:${roomId}`;
 	}
 
+	// Edited and deleted messages must not be served from a stale cache
+	async invalidateMessagesCache(roomId: string) {
+		await redis.del(
+			this.getMessagesKey(roomId),
+			this.getLastMessageKey(roomId),
+		);
+	}
+
 	// Method to invalidate cache when a new message is added
 	async invalidateLastMessageCache(roomId: string) {
 		await redis.del(this.getLastMessageKey(roomId));
@@ -0,0 +1,526 @@
+import { prisma, serializable } from "../lib/prisma";
+import {
+	NotificationPriority,
+	NotificationType,
+	type SpeedEvent,
+	SpeedEventStatus,
+} from "../generated/client";
+import { matchConfig } from "../config/match";
+import { generateToken } from "../middleware/socket.middleware";
+import type { CreateSpeedEventInput } from "../validation/speed-event.validation";
+import { BlockService } from "./block.service";
+import { FriendsService } from "./friend.service";
+import { NotificationService } from "./notification.service";
+import RoomService from "./room.service";
+import { RoomStateService } from "./room-state.service";
+
+const ROUND_ENDED_REASON = "round_ended";
+
+// Events users can still see and act on
+const OPEN_STATUSES: SpeedEventStatus[] = [
+	SpeedEventStatus.SCHEDULED,
+	SpeedEventStatus.RUNNING,
+	SpeedEventStatus.LIKING,
+];
+
+// Order-independent key for a pair of users
+const getPairKey = (user1: string, user2: string) =>
+	user1 < user2 ? `${user1}:${user2}` : `${user2}:${user1}`;
+
+export interface PlannedRound {
+	pairs: [string, string][];
+	// Users left without a new partner this round
+	sittingOut: string[];
+}
+
+export class SpeedEventService {
+	private roomService: RoomService;
+	private roomStateService: RoomStateService;
+	private friendsService: FriendsService;
+	private blockService: BlockService;
+
+	constructor() {
+		this.roomService = new RoomService();
+		this.roomStateService = new RoomStateService();
+		this.friendsService = new FriendsService();
+		this.blockService = new BlockService();
+	}
+
+	/* ----------------------------- events ------------------------------- */
+
+	async createEvent(createdById: string, input: CreateSpeedEventInput) {
+		return prisma.speedEvent.create({
+			data: {
+				topic: input.topic,
+				startsAt: input.startsAt,
+				endsAt: input.endsAt,
+				roundLengthSec: input.roundLengthMinutes * 60,
+				capacity: input.capacity,
+				createdById,
+			},
+		});
+	}
+
+	async listEvents() {
+		return prisma.speedEvent.findMany({
+			where: { status: { in: OPEN_STATUSES } },
+			orderBy: { startsAt: "asc" },
+			include: { _count: { select: { registrations: true } } },
+		});
+	}
+
+	async getEvent(eventId: string) {
+		const event = await prisma.speedEvent.findUnique({
+			where: { id: eventId },
+			include: { _count: { select: { registrations: true } } },
+		});
+		if (!event) throw new Error("Event not found");
+		return event;
+	}
+
+	async cancelEvent(eventId: string) {
+		const event = await this.getEvent(eventId);
+		if (!OPEN_STATUSES.includes(event.status)) {
+			throw new Error("Event is already over");
+		}
+
+		await this.endRoundRooms(event);
+		const cancelled = await prisma.speedEvent.update({
+			where: { id: eventId },
+			data: {
+				status: SpeedEventStatus.CANCELLED,
+				roundEndsAt: null,
+				likesCloseAt: null,
+			},
+		});
+
+		const registrations = await this.getRegisteredUserIds(eventId);
+		await Promise.all(
+			registrations.map((userId) =>
+				NotificationService.createNotification(
+					userId,
+					"Event cancelled",
+					`${event.topic} has been cancelled`,
+					NotificationType.SPEED_EVENT,
+					NotificationPriority.NORMAL,
+					{ eventId },
+				),
+			),
+		);
+		return cancelled;
+	}
+
+	/* --------------------------- registration --------------------------- */
+
+	async register(eventId: string, userId: string) {
+		const event = await this.getEvent(eventId);
+		// Late registrations join from the next round
+		if (
+			event.status !== SpeedEventStatus.SCHEDULED &&
+			event.status !== SpeedEventStatus.RUNNING
+		) {
+			throw new Error("Event is closed for registration");
+		}
+
+		// Count and insert together, so concurrent registrations cannot overfill
+		return serializable(async (tx) => {
+			const existing = await tx.speedEventRegistration.findUnique({
+				where: { eventId_userId: { eventId, userId } },
+			});
+			if (existing) throw new Error("Already registered for this event");
+
+			const registrations = await tx.speedEventRegistration.count({
+				where: { eventId },
+			});
+			if (registrations >= event.capacity) {
+				throw new Error("Event is full");
+			}
+
+			return tx.speedEventRegistration.create({
+				data: { eventId, userId },
+			});
+		});
+	}
+
+	async unregister(eventId: string, userId: string) {
+		const { count } = await prisma.speedEventRegistration.deleteMany({
+			where: { eventId, userId },
+		});
+		if (count === 0) throw new Error("Registration not found");
+		return { message: "Registration cancelled" };
+	}
+
+	private async getRegisteredUserIds(eventId: string) {
+		const registrations = await prisma.speedEventRegistration.findMany({
+			where: { eventId },
+			orderBy: { createdAt: "asc" },
+			select: { userId: true },
+		});
+		return registrations.map((registration) => registration.userId);
+	}
+
+	/* --------------------------- talk again ----------------------------- */
+
+	/**
+	 * Everyone the user was paired with during the event, in round order
+	 */
+	async getPartners(eventId: string, userId: string): Promise<string[]> {
+		const pairings = await prisma.speedEventPairing.findMany({
+			where: { eventId, OR: [{ user1Id: userId }, { user2Id: userId }] },
+			orderBy: { round: "asc" },
+		});
+		return Array.from(
+			new Set(
+				pairings.map((pairing) =>
+					pairing.user1Id === userId ? pairing.user2Id : pairing.user1Id,
+				),
+			),
+		);
+	}
+
+	/**
+	 * Record who the user would like to talk to again. A pick that completes
+	 * a mutual pair sends the friend request; picks are never withdrawn.
+	 */
+	async submitLikes(eventId: string, userId: string, likedUserIds: string[]) {
+		const event = await this.getEvent(eventId);
+		if (event.status !== SpeedEventStatus.LIKING) {
+			throw new Error("Event is not accepting picks");
+		}
+
+		// Only partners from this event can be picked
+		const partners = new Set(await this.getPartners(eventId, userId));
+		const picked = Array.from(new Set(likedUserIds)).filter((id) =>
+			partners.has(id),
+		);
+
+		const existing = await prisma.speedEventLike.findMany({
+			where: { eventId, userId, likedUserId: { in: picked } },
+			select: { likedUserId: true },
+		});
+		const alreadyPicked = new Set(existing.map((like) => like.likedUserId));
+		const newPicks = picked.filter((id) => !alreadyPicked.has(id));
+		if (newPicks.length === 0) return { liked: picked, mutual: [] };
+
+		await prisma.speedEventLike.createMany({
+			data: newPicks.map((likedUserId) => ({ eventId, userId, likedUserId })),
+			skipDuplicates: true,
+		});
+
+		const returned = await prisma.speedEventLike.findMany({
+			where: { eventId, userId: { in: newPicks }, likedUserId: userId },
+			select: { userId: true },
+		});
+		const mutual = returned.map((like) => like.userId);
+
+		for (const partnerId of mutual) {
+			try {
+				await this.friendsService.sendFriendRequest(userId, partnerId);
+			} catch (error) {
+				// Already friends, blocked since the round, or a request is pending
+				console.warn(
+					`Skipped speed event friend request ${userId} -> ${partnerId}:`,
+					error instanceof Error ? error.message : error,
+				);
+			}
+		}
+
+		return { liked: picked, mutual };
+	}
+
+	/* ------------------------------ rounds ------------------------------ */
+
+	/**
+	 * Move every live event along: start events that are due, rotate partners
+	 * when a round is over and close finished pick windows
+	 */
+	async processEvents(now = new Date()) {
+		const dueEvents = await prisma.speedEvent.findMany({
+			where: {
+				OR: [
+					{ status: SpeedEventStatus.SCHEDULED, startsAt: { lte: now } },
+					{ status: SpeedEventStatus.RUNNING, roundEndsAt: { lte: now } },
+					{ status: SpeedEventStatus.LIKING, likesCloseAt: { lte: now } },
+				],
+			},
+		});
+
+		for (const event of dueEvents) {
+			try {
+				if (event.status === SpeedEventStatus.LIKING) {
+					await prisma.speedEvent.update({
+						where: { id: event.id },
+						data: { status: SpeedEventStatus.ENDED, likesCloseAt: null },
+					});
+				} else {
+					await this.advanceRound(event, now);
+				}
+			} catch (error) {
+				console.error(`Failed to process speed event ${event.id}:`, error);
+			}
+		}
+	}
+
+	/**
+	 * Start the next round, or open likes when no round can run. A tick that
+	 * outlived its lock finds the event already moved on and stops at the
+	 * claim, so a round is never started twice.
+	 */
+	private async advanceRound(event: SpeedEvent, now: Date) {
+		const roundEndsAt = new Date(now.getTime() + event.roundLengthSec * 1000);
+		// A round that cannot finish before the event ends is not started
+		const { pairs, sittingOut }: PlannedRound =
+			roundEndsAt > event.endsAt
+				? { pairs: [], sittingOut: [] }
+				: await this.planNextRound(event);
+
+		const round = event.currentRound + 1;
+		const { count } = await prisma.speedEvent.updateMany({
+			where: {
+				id: event.id,
+				status: event.status,
+				currentRound: event.currentRound,
+			},
+			data:
+				pairs.length > 0
+					? {
+							status: SpeedEventStatus.RUNNING,
+							currentRound: round,
+							roundEndsAt,
+						}
+					: {
+							status: SpeedEventStatus.LIKING,
+							roundEndsAt: null,
+							// Closes on its own even if opening likes fails below
+							likesCloseAt: new Date(
+								now.getTime() + matchConfig.events.likeWindowMs,
+							),
+						},
+		});
+		if (count !== 1) return;
+
+		await this.endRoundRooms(event);
+		if (pairs.length === 0) {
+			await this.openLikes(event, now);
+			return;
+		}
+
+		await Promise.all(
+			pairs.map(([user1Id, user2Id]) =>
+				this.startPairing(event, round, user1Id, user2Id, roundEndsAt),
+			),
+		);
+		await Promise.all(
+			sittingOut.map((userId) =>
+				NotificationService.createNotification(
+					userId,
+					`${event.topic}: round ${round}`,
+					"Nobody new is free this round. You will be paired again next round.",
+					NotificationType.SPEED_EVENT,
+					NotificationPriority.NORMAL,
+					{ eventId: event.id, round, roundEndsAt },
+				),
+			),
+		);
+	}
+
+	private async planNextRound(event: SpeedEvent): Promise<PlannedRound> {
+		const [userIds, pairings] = await Promise.all([
+			this.getRegisteredUserIds(event.id),
+			prisma.speedEventPairing.findMany({
+				where: { eventId: event.id },
+				select: { round: true, user1Id: true, user2Id: true },
+			}),
+		]);
+
+		// No repeats: past partners and blocked pairs never meet
+		const excluded = new Set(
+			pairings.map((pairing) => getPairKey(pairing.user1Id, pairing.user2Id)),
+		);
+		const blockedRelations =
+			await this.blockService.getBlockedRelations(userIds);
+		for (const [userId, related] of blockedRelations) {
+			for (const otherId of related) excluded.add(getPairKey(userId, otherId));
+		}
+
+		const pairedLastRound = new Set(
+			pairings
+				.filter((pairing) => pairing.round === event.currentRound)
+				.flatMap((pairing) => [pairing.user1Id, pairing.user2Id]),
+		);
+		const satOut =
+			event.currentRound > 0
+				? userIds.filter((userId) => !pairedLastRound.has(userId))
+				: [];
+
+		return SpeedEventService.planRound(userIds, excluded, new Set(satOut));
+	}
+
+	/**
+	 * Pair users who have not met yet. Whoever sat out the last round picks
+	 * first so nobody sits out twice in a row when a partner is available.
+	 */
+	static planRound(
+		userIds: string[],
+		excluded: Set<string>,
+		satOut: Set<string> = new Set(),
+	): PlannedRound {
+		const order = [
+			...userIds.filter((userId) => satOut.has(userId)),
+			...userIds.filter((userId) => !satOut.has(userId)),
+		];
+		const free = new Set(order);
+		const pairs: [string, string][] = [];
+
+		for (const userId of order) {
+			if (!free.has(userId)) continue;
+			free.delete(userId);
+
+			for (const candidateId of free) {
+				if (excluded.has(getPairKey(userId, candidateId))) continue;
+				free.delete(candidateId);
+				pairs.push([userId, candidateId]);
+				break;
+			}
+		}
+
+		const paired = new Set(pairs.flat());
+		return {
+			pairs,
+			sittingOut: userIds.filter((userId) => !paired.has(userId)),
+		};
+	}
+
+	private async startPairing(
+		event: SpeedEvent,
+		round: number,
+		user1Id: string,
+		user2Id: string,
+		roundEndsAt: Date,
+	) {
+		const room = await this.roomService.createRoom(
+			user1Id,
+			user2Id,
+			user1Id,
+			user2Id,
+		);
+		await this.roomStateService.initializeRoomState(room.id, "chat", [
+			user1Id,
+			user2Id,
+		]);
+		await prisma.speedEventPairing.create({
+			data: { eventId: event.id, round, user1Id, user2Id, roomId: room.id },
+		});
+
+		const users = await prisma.user.findMany({
+			where: { id: { in: [user1Id, user2Id] } },
+		});
+		const findUser = (userId: string) =>
+			users.find((user) => user.id === userId) ?? null;
+
+		await Promise.all(
+			[
+				[user1Id, user2Id],
+				[user2Id, user1Id],
+			].map(([userId, partnerId]) => {
+				const user = findUser(userId);
+				const partner = findUser(partnerId);
+				const partnerName =
+					partner?.displayUsername || partner?.username || "a new partner";
+
+				return NotificationService.createNotification(
+					userId,
+					`${event.topic}: round ${round}`,
+					`You are now chatting with ${partnerName}`,
+					NotificationType.SPEED_EVENT,
+					NotificationPriority.HIGH,
+					{
+						eventId: event.id,
+						round,
+						roundEndsAt,
+						roomId: room.id,
+						token: generateToken({
+							senderId: userId,
+							receiverId: partnerId,
+							roomId: room.id,
+							senderUsername: user?.username ?? "",
+							receiverUsername: partner?.username ?? "",
+						}),
+						type: "chat",
+						user: partner,
+					},
+				);
+			}),
+		);
+	}
+
+	// Close the rooms of the round that is running, if any
+	private async endRoundRooms(event: SpeedEvent) {
+		if (event.currentRound === 0) return;
+
+		const pairings = await prisma.speedEventPairing.findMany({
+			where: { eventId: event.id, round: event.currentRound },
+			select: { roomId: true },
+		});
+		await Promise.all(
+			pairings.map((pairing) =>
+				this.roomStateService.endRoom(pairing.roomId, ROUND_ENDED_REASON),
+			),
+		);
+	}
+
+	private async openLikes(event: SpeedEvent, now: Date) {
+		const userIds = await this.getRegisteredUserIds(event.id);
+		const partnersByUser = await Promise.all(
+			userIds.map(
+				async (userId) =>
+					[userId, await this.getPartners(event.id, userId)] as const,
+			),
+		);
+
+		// Nobody met anyone, so there is nothing to pick from
+		if (partnersByUser.every(([, partners]) => partners.length === 0)) {
+			await prisma.speedEvent.update({
+				where: { id: event.id },
+				data: { status: SpeedEventStatus.ENDED, roundEndsAt: null },
+			});
+			return;
+		}
+
+		const likesCloseAt = new Date(
+			now.getTime() + matchConfig.events.likeWindowMs,
+		);
+		await prisma.speedEvent.update({
+			where: { id: event.id },
+			data: {
+				status: SpeedEventStatus.LIKING,
+				roundEndsAt: null,
+				likesCloseAt,
+			},
+		});
+
+		await Promise.all(
+			partnersByUser
+				.filter(([, partners]) => partners.length > 0)
+				.map(async ([userId, partnerIds]) => {
+					const partners = await prisma.user.findMany({
+						where: { id: { in: partnerIds } },
+						select: {
+							id: true,
+							username: true,
+							displayUsername: true,
+							image: true,
+						},
+					});
+					return NotificationService.createNotification(
+						userId,
+						`${event.topic} is over`,
+						"Who would you like to talk to again?",
+						NotificationType.SPEED_EVENT,
+						NotificationPriority.HIGH,
+						{ eventId: event.id, partners, likesCloseAt },
+					);
+				}),
+		);
+	}
+}
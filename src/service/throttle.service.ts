@@ -0,0 +1,85 @@
+import { v4 as uuidv4 } from "uuid";
+import { redis } from "../lib/redis";
+import { type ThrottleAction, throttleConfig } from "../config/throttle";
+
+export interface ThrottleResult {
+	allowed: boolean;
+	// Milliseconds until a request can succeed again; 0 when allowed
+	retryAfterMs: number;
+	remaining: number;
+}
+
+/**
+ * Per-user sliding-window limit for one action. Going over the limit starts
+ * a cooldown that doubles with every strike, so a client stuck in a retry
+ * loop backs off further instead of slipping through at each window edge.
+ */
+export class ThrottleService {
+	private action: ThrottleAction;
+
+	constructor(action: ThrottleAction) {
+		this.action = action;
+	}
+
+	// ZSET of request timestamps inside the current window
+	private getWindowKey(subject: string) {
+		return `throttle:${this.action}:${subject}`;
+	}
+
+	private getCooldownKey(subject: string) {
+		return `throttle_cooldown:${this.action}:${subject}`;
+	}
+
+	private getStrikesKey(subject: string) {
+		return `throttle_strikes:${this.action}:${subject}`;
+	}
+
+	async hit(subject: string, now = Date.now()): Promise<ThrottleResult> {
+		const { limit, windowMs } = throttleConfig.rules[this.action];
+
+		const cooldownMs = await redis.pttl(this.getCooldownKey(subject));
+		if (cooldownMs > 0) {
+			return { allowed: false, retryAfterMs: cooldownMs, remaining: 0 };
+		}
+
+		const key = this.getWindowKey(subject);
+		const results = await redis
+			.multi()
+			.zremrangebyscore(key, "-inf", now - windowMs)
+			.zadd(key, now, `${now}:${uuidv4()}`)
+			.zcard(key)
+			.pexpire(key, windowMs)
+			.exec();
+		const count = Number(results?.[2]?.[1] ?? 0);
+		if (count <= limit) {
+			return { allowed: true, retryAfterMs: 0, remaining: limit - count };
+		}
+
+		return {
+			allowed: false,
+			retryAfterMs: await this.startCooldown(subject),
+			remaining: 0,
+		};
+	}
+
+	private async startCooldown(subject: string): Promise<number> {
+		const { baseMs, maxMs, strikeTtlMs } = throttleConfig.cooldown;
+		const strikesKey = this.getStrikesKey(subject);
+
+		const results = await redis
+			.multi()
+			.incr(strikesKey)
+			.pexpire(strikesKey, strikeTtlMs)
+			.exec();
+		const strikes = Number(results?.[0]?.[1] ?? 1);
+		const cooldownMs = Math.min(baseMs * 2 ** (strikes - 1), maxMs);
+
+		// The cooldown replaces the window, so the user starts fresh once it ends
+		await redis
+			.multi()
+			.set(this.getCooldownKey(subject), String(strikes), "PX", cooldownMs)
+			.del(this.getWindowKey(subject))
+			.exec();
+		return cooldownMs;
+	}
+}
@@ -0,0 +1,70 @@
+import { pubClient, redis } from "../lib/redis";
+import { RedisHash } from "../config/redis-hash";
+import { chatConfig } from "../config/chat";
+
+// Published to the room whenever the set of typers changes
+export interface TypingUpdate {
+	roomId: string;
+	userIds: string[];
+	// Clients drop the indicator after this long without a new update
+	ttlMs: number;
+}
+
+/**
+ * Who is typing in each room. Typers are ZSET members scored with the time
+ * their indicator runs out, so every entry expires on its own even when a
+ * client never sends `typing_stop` or its server goes away.
+ */
+export class TypingService {
+	private getTypingKey(roomId: string) {
+		return `chat:rooms:${roomId}:typing`;
+	}
+
+	// Typers whose indicator has not run out yet
+	async getTypingUserIds(roomId: string, now = Date.now()): Promise<string[]> {
+		const key = this.getTypingKey(roomId);
+		const results = await redis
+			.multi()
+			.zremrangebyscore(key, "-inf", now)
+			.zrange(key, 0, -1)
+			.exec();
+		return (results?.[1]?.[1] as string[] | null) ?? [];
+	}
+
+	/**
+	 * Start or refresh a user's indicator. The room only hears about it when
+	 * someone started or ran out, not on every refresh.
+	 */
+	async startTyping(roomId: string, userId: string, now = Date.now()) {
+		const { ttlMs } = chatConfig.typing;
+		const key = this.getTypingKey(roomId);
+		const results = await redis
+			.multi()
+			.zremrangebyscore(key, "-inf", now)
+			.zadd(key, now + ttlMs, userId)
+			.pexpire(key, ttlMs)
+			.exec();
+
+		const expired = results?.[0]?.[1] as number;
+		const added = results?.[1]?.[1] as number;
+		if (expired > 0 || added > 0) {
+			await this.publish(roomId, now);
+		}
+	}
+
+	async stopTyping(roomId: string, userId: string, now = Date.now()) {
+		const removed = await redis.zrem(this.getTypingKey(roomId), userId);
+		if (removed > 0) {
+			await this.publish(roomId, now);
+		}
+	}
+
+	private async publish(roomId: string, now: number) {
+		const update: TypingUpdate = {
+			roomId,
+			userIds: await this.getTypingUserIds(roomId, now),
+			ttlMs: chatConfig.typing.ttlMs,
+		};
+		await pubClient.publish(RedisHash.CHAT_TYPING, JSON.stringify(update));
+	}
+}
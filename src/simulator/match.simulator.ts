@@ -0,0 +1,147 @@
+/**
+ * Replays recorded queue snapshots through one or more match strategies and
+ * reports how each would have done. Runs fully offline and gives the same
+ * result for the same input.
+ *
+ *   bun run simulate:match <snapshots.jsonl> [strategy,...]
+ *
+ * Users who drop out of the recorded queue before a strategy pairs them
+ * (they left, or production matched them) count as departed. Blocks and
+ * recent partners are not part of a snapshot, so they are not applied.
+ */
+import { readFileSync } from "node:fs";
+import type { AvailableUser } from "../service/available-user.service";
+import { BucketMatcher } from "../service/bucket-matcher.service";
+import {
+	type MatchStrategy,
+	MatchStrategyService,
+} from "../service/match-strategy.service";
+
+export interface QueueSnapshot {
+	searchType: string;
+	takenAt: number;
+	users: AvailableUser[];
+}
+
+export interface SimulationReport {
+	strategy: string;
+	ticks: number;
+	users: number;
+	matched: number;
+	departed: number;
+	waiting: number;
+	// Share of users seen that were paired
+	matchRate: number;
+	meanWaitMs: number;
+	// Mean shared interests per pair
+	meanOverlap: number;
+}
+
+// A user who searches again later is a new queue entry
+const entryKey = (user: AvailableUser) => `${user.userId}:${user.joinedAt}`;
+
+export function loadSnapshots(file: string): QueueSnapshot[] {
+	return readFileSync(file, "utf8")
+		.split("\n")
+		.filter((line) => line.trim() !== "")
+		.map((line) => JSON.parse(line) as QueueSnapshot)
+		.sort((a, b) => a.takenAt - b.takenAt);
+}
+
+export function simulate(
+	snapshots: QueueSnapshot[],
+	strategy: MatchStrategy,
+): SimulationReport {
+	const queue = new Map<string, AvailableUser>();
+	const seen = new Set<string>();
+	let matched = 0;
+	let departed = 0;
+	let pairs = 0;
+	let totalWaitMs = 0;
+	let totalOverlap = 0;
+
+	for (const snapshot of snapshots) {
+		const present = new Set(snapshot.users.map(entryKey));
+		for (const key of Array.from(queue.keys())) {
+			if (!present.has(key)) {
+				queue.delete(key);
+				departed++;
+			}
+		}
+
+		for (const user of snapshot.users) {
+			const key = entryKey(user);
+			if (seen.has(key)) continue;
+			seen.add(key);
+			queue.set(key, user);
+		}
+
+		const users = Array.from(queue.values());
+		const result = strategy.pair(users, {
+			buckets: BucketMatcher.buildBuckets(users),
+			now: snapshot.takenAt,
+		});
+
+		for (const pair of result) {
+			for (const user of [pair.user1, pair.user2]) {
+				queue.delete(entryKey(user));
+				totalWaitMs += Math.max(0, snapshot.takenAt - user.joinedAt);
+				matched++;
+			}
+			pairs++;
+			totalOverlap += pair.commonInterests.length;
+		}
+	}
+
+	return {
+		strategy: strategy.name,
+		ticks: snapshots.length,
+		users: seen.size,
+		matched,
+		departed,
+		waiting: queue.size,
+		matchRate: seen.size > 0 ? matched / seen.size : 0,
+		meanWaitMs: matched > 0 ? totalWaitMs / matched : 0,
+		meanOverlap: pairs > 0 ? totalOverlap / pairs : 0,
+	};
+}
+
+function main() {
+	const [file, strategyArg] = process.argv.slice(2);
+	if (!file) {
+		throw new Error("Usage: match.simulator <snapshots.jsonl> [strategy,...]");
+	}
+
+	const names = strategyArg
+		? strategyArg.split(",")
+		: MatchStrategyService.getStrategyNames();
+	const snapshots = loadSnapshots(file);
+
+	const reports = names.map((name) => {
+		const strategy = MatchStrategyService.getStrategy(name);
+		if (!strategy) {
+			throw new Error(
+				`Unknown strategy "${name}". Available: ${MatchStrategyService.getStrategyNames().join(", ")}`,
+			);
+		}
+		return simulate(snapshots, strategy);
+	});
+
+	console.table(
+		reports.map((report) => ({
+			...report,
+			matchRate: `${(report.matchRate * 100).toFixed(1)}%`,
+			meanWaitMs: Math.round(report.meanWaitMs),
+			meanOverlap: Number(report.meanOverlap.toFixed(2)),
+		})),
+	);
+}
+
+if (require.main === module) {
+	try {
+		main();
+	} catch (error) {
+		console.error("Match simulation failed:", error);
+		process.exitCode = 1;
+	}
+}
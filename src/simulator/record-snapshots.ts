@@ -0,0 +1,49 @@
+/**
+ * Records snapshots of a live search queue for the match simulator. Each
+ * line of the output file is one tick: the queued users and when they were
+ * read. Nothing in the queue is changed.
+ *
+ *   bun run record:match <chat|call|video> <out.jsonl> [count=20] [intervalMs=3000]
+ */
+import "dotenv/config";
+import { appendFileSync } from "node:fs";
+import { AvailableUserService } from "../service/available-user.service";
+import type { QueueSnapshot } from "./match.simulator";
+
+const [searchType, outFile, countArg, intervalArg] = process.argv.slice(2);
+const count = Number(countArg) || 20;
+const intervalMs = Number(intervalArg) || 3000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+	if (!searchType || !outFile) {
+		throw new Error(
+			"Usage: record-snapshots <searchType> <out.jsonl> [count] [intervalMs]",
+		);
+	}
+
+	const availableUserService = new AvailableUserService(searchType);
+	for (let tick = 1; tick <= count; tick++) {
+		const snapshot: QueueSnapshot = {
+			searchType,
+			takenAt: Date.now(),
+			users: await availableUserService.getAvailableUsers(),
+		};
+		appendFileSync(outFile, `${JSON.stringify(snapshot)}\n`);
+		console.log(
+			`Recorded snapshot ${tick}/${count} with ${snapshot.users.length} users`,
+		);
+
+		if (tick < count) await sleep(intervalMs);
+	}
+}
+
+main()
+	.catch((error) => {
+		console.error("Recording snapshots failed:", error);
+		process.exitCode = 1;
+	})
+	.finally(() => {
+		process.exit();
+	});
@@ -1,4 +1,4 @@
-type SessionType = "call" | "chat";
+type SessionType = "call" | "video" | "chat" | "group";
 
 export function calculatePoints(
 	heartbeatCount: number,
@@ -13,12 +13,22 @@ export function calculatePoints(
 		return 250;
 	}
 
-	if (sessionType === "chat") {
+	if (sessionType === "video") {
+		if (minutes < 2) return 50;
+		if (minutes <= 5) return 125;
+		if (minutes <= 10) return 250;
+		return 300;
+	}
+
+	// Group rooms earn like one-to-one chats
+	if (sessionType === "chat" || sessionType === "group") {
 		if (minutes < 3) return 0;
 		if (minutes <= 5) return 25;
 		if (minutes <= 9) return 50;
 		return 75;
 	}
 
-	throw new Error("Invalid session type. Use 'call' or 'chat'.");
+	throw new Error(
+		"Invalid session type. Use 'call', 'video', 'chat' or 'group'.",
+	);
 }
@@ -1,5 +1,14 @@
 import { z } from "zod";
 
+// The message a reply points at, as it was when the reply was sent
+export const quotedMessageSchema = z.object({
+	id: z.string(),
+	content: z.string(),
+	senderId: z.string(),
+	sentAt: z.string(),
+	deletedAt: z.string().nullable(),
+});
+
 export const messageSchema = z.object({
 	id: z.string().optional(),
 	content: z.string().min(1),
@@ -12,6 +21,8 @@ export const messageSchema = z.object({
 	avatarUrl: z.string().optional(),
 	timestamp: z.string(),
 	type: z.enum(["text", "image", "gif", "audio", "video", "file"]),
+	replyToId: z.string().optional(),
+	replyTo: quotedMessageSchema.nullable().optional(),
 });
 
 export const sendMessageSchema = z.object({
@@ -20,6 +31,38 @@ export const sendMessageSchema = z.object({
 	timestamp: z.string().transform((str) => new Date(str)),
 	senderId: z.string(),
 	type: z.enum(["text", "image", "gif", "audio", "video", "file"]),
+	// Must be a message from the same room
+	replyToId: z.string().min(1).optional(),
+});
+
+export const editMessageSchema = z.object({
+	messageId: z.string().min(1),
+	content: z.string().trim().min(1),
+});
+
+export const deleteMessageSchema = z.object({
+	messageId: z.string().min(1),
+});
+
+// The newest message the reader has seen; everything before it counts as read
+export const markReadSchema = z.object({
+	messageId: z.string().min(1),
+});
+
+// One emoji, including skin tones, flags and ZWJ sequences. It must hold a
+// pictograph or flag letter, so joiners and variation selectors alone cannot
+// make an invisible reaction.
+const EMOJI_PATTERN =
+	/^(?=.*[\p{Extended_Pictographic}\p{Regional_Indicator}])(?:\p{Extended_Pictographic}|\p{Regional_Indicator}|\p{Emoji_Modifier}|\u200d|\ufe0f)+$/u;
+
+export const reactionSchema = z.object({
+	messageId: z.string().min(1),
+	emoji: z
+		.string()
+		.trim()
+		.min(1)
+		.max(16)
+		.regex(EMOJI_PATTERN, "Reaction must be an emoji"),
 });
 
 export const userJoinedSchema = z.object({
@@ -29,5 +72,9 @@ export const userJoinedSchema = z.object({
 });
 
 export type Message = z.infer<typeof messageSchema>;
+export type QuotedMessage = z.infer<typeof quotedMessageSchema>;
 export type sendMessageSchema = z.infer<typeof sendMessageSchema>;
 export type userJoinedSchema = z.infer<typeof userJoinedSchema>;
+export type EditMessageInput = z.infer<typeof editMessageSchema>;
+export type DeleteMessageInput = z.infer<typeof deleteMessageSchema>;
+export type ReactionInput = z.infer<typeof reactionSchema>;
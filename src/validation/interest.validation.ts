@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+const aliasesSchema = z.array(z.string().trim().min(1).max(32)).max(20);
+
+export const createInterestSchema = z.object({
+	name: z.string().trim().min(1).max(32),
+	// Derived from the name when left out
+	slug: z.string().trim().min(1).max(32).optional(),
+	category: z.string().trim().min(1).max(32),
+	aliases: aliasesSchema.default([]),
+});
+
+export const updateInterestSchema = z
+	.object({
+		name: z.string().trim().min(1).max(32),
+		category: z.string().trim().min(1).max(32),
+		aliases: aliasesSchema,
+		isActive: z.boolean(),
+	})
+	.partial();
+
+export type CreateInterestInput = z.infer<typeof createInterestSchema>;
+export type UpdateInterestInput = z.infer<typeof updateInterestSchema>;
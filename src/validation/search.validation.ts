@@ -0,0 +1,54 @@
+import { z } from "zod";
+
+export const GENDER_PREFERENCES = ["male", "female", "other", "any"] as const;
+export const AGE_BANDS = ["18-24", "25-34", "35-44", "45+"] as const;
+// "friends-first" tries online friends in the same queue before strangers
+export const MATCH_MODES = ["default", "friends-first"] as const;
+export const MATCH_FILTER_KEYS = [
+	"gender",
+	"language",
+	"region",
+	"minRating",
+] as const;
+
+const languageSchema = z
+	.string()
+	.trim()
+	.toLowerCase()
+	.regex(/^[a-z]{2,3}(-[a-z]{2})?$/, "Language must be an ISO code");
+
+const regionSchema = z
+	.string()
+	.trim()
+	.toUpperCase()
+	.regex(/^[A-Z]{2}$/, "Region must be an ISO country code");
+
+export const matchFiltersSchema = z.object({
+	gender: z.enum(["male", "female", "other"]).optional(),
+	language: languageSchema.optional(),
+	region: regionSchema.optional(),
+	minRating: z.number().min(1).max(5).optional(),
+	// Filters listed here exclude candidates; the rest only boost the score
+	hard: z.array(z.enum(MATCH_FILTER_KEYS)).default([]),
+});
+
+export const startSearchSchema = z.object({
+	interests: z
+		.array(z.string().trim().min(1).max(32))
+		.max(10, "You can pick up to 10 interests")
+		.optional(),
+	preferredGender: z.enum(GENDER_PREFERENCES).optional(),
+	language: languageSchema.optional(),
+	region: regionSchema.optional(),
+	ageBand: z.enum(AGE_BANDS).optional(),
+	mode: z.enum(MATCH_MODES).optional(),
+	filters: matchFiltersSchema.optional(),
+});
+
+export type StartSearchRequest = z.infer<typeof startSearchSchema>;
+export type SearchPreferences = Omit<
+	StartSearchRequest,
+	"interests" | "filters"
+>;
+export type MatchFilters = z.infer<typeof matchFiltersSchema>;
+export type MatchFilterKey = (typeof MATCH_FILTER_KEYS)[number];
@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+export const createSpeedEventSchema = z
+	.object({
+		topic: z.string().trim().min(1).max(64),
+		startsAt: z.coerce.date(),
+		endsAt: z.coerce.date(),
+		// Partners rotate every round
+		roundLengthMinutes: z.number().int().min(1).max(30),
+		capacity: z.number().int().min(2).max(500),
+	})
+	.refine((event) => event.startsAt.getTime() > Date.now(), {
+		message: "Event must start in the future",
+		path: ["startsAt"],
+	})
+	.refine(
+		(event) =>
+			event.endsAt.getTime() - event.startsAt.getTime() >=
+			event.roundLengthMinutes * 60 * 1000,
+		{
+			message: "Event must fit at least one round",
+			path: ["endsAt"],
+		},
+	);
+
+export const submitLikesSchema = z.object({
+	userIds: z.array(z.string().trim().min(1)).max(50),
+});
+
+export type CreateSpeedEventInput = z.infer<typeof createSpeedEventSchema>;
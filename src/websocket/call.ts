@@ -1,13 +1,10 @@
 import { Server, Socket } from "socket.io";
 import { redis } from "../lib/redis";
-import { prisma } from "../lib/prisma";
 import { verifyToken } from "../middleware/socket.middleware";
 import { FriendsService } from "../service/friend.service";
-
-// Extend global interface to include io property
-declare global {
-	var io: Server | undefined;
-}
+import { RoomStateService } from "../service/room-state.service";
+import { BlockService } from "../service/block.service";
+import { verifyUserId } from "../utils/user-id";
 
 enum SocketEvents {
 	SEND_OFFER = "send-offer",
@@ -20,329 +17,267 @@ enum SocketEvents {
 	ERROR = "error",
 }
 
-interface CallRoom {
-	id: string;
-	participants: string[];
-	status: "active" | "ended";
-	startTime: Date;
-	endTime?: Date;
-}
-interface CallUser {
-	socketId: string;
-	joinedAt: Date;
-}
-
-class CallUserManager {
-	async addUser(socket: Socket, roomId: string) {
-		const user: CallUser = {
-			socketId: socket.id,
-			joinedAt: new Date(),
-		};
-
-		// Store user data in Redis
-		await redis.hset(`call:user:${socket.id}`, {
-			socketId: socket.id,
-			joinedAt: user.joinedAt.toISOString(),
-		});
-
-		// Add to queue
-		await redis.lpush("call:queue", socket.id);
-
-		const queueLength = await redis.llen("call:queue");
-		console.log(
-			`[Call] User ${socket.id} added to queue. Queue length: ${queueLength}`,
-		);
+// Seconds a call room's socket map outlives its last write
+const CALL_ROOM_TTL = 6 * 60 * 60;
 
-		// Emit lobby event to let user know they're waiting
-		socket.emit(SocketEvents.LOBBY);
+// The two sides of a call, as issued in the room token
+interface CallSession {
+	roomId: string;
+	senderId: string;
+	receiverId: string;
+	senderUsername: string;
+}
 
-		// Try to match users
-		await this.tryMatchUsers(roomId);
+/**
+ * Tracks which socket each participant of a call room is connected with.
+ * Pairing is decided by the matcher when it issues room tokens; this only
+ * makes sure each side of the token has at most one live socket, so
+ * signaling relayed to the Socket.IO room always reaches the verified peer.
+ */
+class CallRoomManager {
+	private roomStateService = new RoomStateService();
+	private blockService = new BlockService();
+	private friendsService = new FriendsService();
+
+	private getRoomKey(roomId: string) {
+		return `call:room:${roomId}`;
 	}
 
-	async removeUser(socketId: string) {
-		// Clean up room if user was in one
-		const roomId = await redis.get(`call:user-room:${socketId}`);
-		if (roomId) {
-			await this.handleUserLeaveRoom(roomId, socketId);
+	/**
+	 * Tokens are signed by us, but the room must still be live and list both
+	 * sides, and neither side may have blocked the other. An ended or expired
+	 * room has no state, so a token replayed after the call cannot rejoin.
+	 * Friend calls have no room state and are checked on the friendship.
+	 */
+	async canJoin(session: CallSession): Promise<boolean> {
+		if (session.roomId.includes("|")) {
+			return this.canJoinFriendCall(session);
 		}
 
-		// Remove from queue and users
-		await redis.lrem("call:queue", 0, socketId);
-		await redis.del(`call:user:${socketId}`);
-		await redis.del(`call:user-room:${socketId}`);
+		const roomState = await this.roomStateService.getRoomState(session.roomId);
+		if (!roomState) return false;
 
-		const remainingUsers = await redis.hlen("call:users");
-		console.log(
-			`[Call] User ${socketId} removed. Remaining users: ${remainingUsers}`,
+		const participantIds = roomState.participants.map(
+			(participant) => participant.id,
 		);
-	}
-
-	private async tryMatchUsers(roomId: string) {
-		const queueLength = await redis.llen("call:queue");
-		if (queueLength < 2) {
-			return;
+		if (
+			!participantIds.includes(session.senderId) ||
+			!participantIds.includes(session.receiverId)
+		) {
+			return false;
 		}
 
-		const user1Id = await redis.rpop("call:queue");
-		const user2Id = await redis.rpop("call:queue");
-
-		if (!user1Id || !user2Id) {
-			console.log(`[Call] Failed to match users - one or both users not found`);
-			return;
-		}
-
-		const user1Exists = await redis.exists(`call:user:${user1Id}`);
-		const user2Exists = await redis.exists(`call:user:${user2Id}`);
-
-		if (!user1Exists || !user2Exists) {
-			console.log(`[Call] Failed to match users - one or both users not found`);
-			return;
+		const [senderUserId, receiverUserId] = await Promise.all([
+			this.blockService.resolveUserId(session.senderId),
+			this.blockService.resolveUserId(session.receiverId),
+		]);
+		// Every side is either an account or a signed anonymous id
+		if (
+			(!senderUserId && !verifyUserId(session.senderId)) ||
+			(!receiverUserId && !verifyUserId(session.receiverId))
+		) {
+			return false;
 		}
 
-		await this.createRoom(user1Id, user2Id, roomId);
+		// Blocks are between accounts, so an anonymous side has none to check
+		if (!senderUserId || !receiverUserId) return true;
+		return !(await this.blockService.isBlocked(senderUserId, receiverUserId));
 	}
 
-	private async createRoom(user1Id: string, user2Id: string, roomId: string) {
-		const room: CallRoom = {
-			id: roomId,
-			participants: [user1Id, user2Id],
-			status: "active",
-			startTime: new Date(),
-		};
-
-		// Store room data in Redis
-		await redis.hset(`call:room:${roomId}`, {
-			id: roomId,
-			participants: JSON.stringify(room.participants),
-			status: room.status,
-			startTime: room.startTime.toISOString(),
-		});
-
-		const a = await redis.hgetall(`call:room:${roomId}`);
-		console.log("fuewhfuiew", a);
-
-		// Map users to room
-		await redis.set(`call:user-room:${user1Id}`, roomId);
-		await redis.set(`call:user-room:${user2Id}`, roomId);
-
-		console.log(
-			`[Call] Created room ${roomId} for users ${user1Id} and ${user2Id}`,
-		);
-
-		// Get socket instances from the namespace
-		const namespace = global.io?.of("/call");
-		if (!namespace) return;
-
-		const user1Socket = namespace.sockets.get(user1Id);
-		const user2Socket = namespace.sockets.get(user2Id);
-
-		if (user1Socket && user2Socket) {
-			// Emit send-offer to user1 (initiator)
-			user1Socket.emit(SocketEvents.SEND_OFFER, { roomId });
-
-			// User2 will wait for the offer
-			user2Socket.emit(SocketEvents.LOBBY, { roomId, waiting: true });
-		}
+	/**
+	 * Friend call rooms are named "<user1>|<user2>" after both usernames. The
+	 * name must match the token's sides, and the two must still be accepted
+	 * friends with no block between them.
+	 */
+	private async canJoinFriendCall(session: CallSession): Promise<boolean> {
+		const pairRoomId = [session.senderId, session.receiverId].sort().join("|");
+		if (session.roomId !== pairRoomId) return false;
+
+		const [senderUserId, receiverUserId] = await Promise.all([
+			this.blockService.resolveUserId(session.senderId),
+			this.blockService.resolveUserId(session.receiverId),
+		]);
+		if (!senderUserId || !receiverUserId) return false;
+
+		const [friendship, blocked] = await Promise.all([
+			this.friendsService.areFriends(senderUserId, receiverUserId),
+			this.blockService.isBlocked(senderUserId, receiverUserId),
+		]);
+		return friendship.status === "accepted" && !blocked;
 	}
 
-	private async handleUserLeaveRoom(roomId: string, socketId: string) {
-		const roomData = await redis.hgetall(`call:room:${roomId}`);
-		if (!roomData.participants) return;
-
-		const participants = JSON.parse(roomData.participants);
-
-		// Find the other user in the room
-		const otherUserId = participants.find((id: string) => id !== socketId);
-		if (otherUserId) {
-			const namespace = global.io?.of("/call");
-			const otherUserSocket = namespace?.sockets.get(otherUserId);
-
-			if (otherUserSocket) {
-				// Put the other user back in lobby
-				otherUserSocket.emit(SocketEvents.LOBBY);
-				await redis.lpush("call:queue", otherUserId);
-				await redis.del(`call:user-room:${otherUserId}`);
-			}
+	/**
+	 * Register the socket for its side of the room and report whether the
+	 * peer is already connected. A previous socket of the same side is
+	 * dropped, so a reconnect never leaves two sockets answering signaling.
+	 */
+	async join(socket: Socket, session: CallSession): Promise<boolean> {
+		const key = this.getRoomKey(session.roomId);
+		// MULTI runs the swap and the peer lookup as one step: of two sides
+		// joining at once exactly one sees the other, so exactly one sends the
+		// offer, and a replaced socket's leave already sees the new id
+		const results = await redis
+			.multi()
+			.hget(key, session.senderId)
+			.hset(key, session.senderId, socket.id)
+			.expire(key, CALL_ROOM_TTL)
+			.hget(key, session.receiverId)
+			.exec();
+
+		const previousSocketId = results?.[0]?.[1] as string | null;
+		if (previousSocketId && previousSocketId !== socket.id) {
+			socket.nsp.in(previousSocketId).disconnectSockets(true);
 		}
+		await socket.join(session.roomId);
 
-		// Clean up room
-		await redis.del(`call:room:${roomId}`);
-		await redis.del(`call:user-room:${socketId}`);
-
-		console.log(`[Call] Room ${roomId} cleaned up after user ${socketId} left`);
+		const peerSocketId = results?.[3]?.[1] as string | null;
+		return Boolean(peerSocketId);
 	}
 
-	async forwardToRoom(
-		roomId: string,
-		senderSocketId: string,
-		event: string,
-		data: any,
-	) {
-		const roomData = await redis.hgetall(`call:room:${roomId}`);
-		if (!roomData.participants) {
-			console.log(`[Call] Room ${roomId} not found for event ${event}`);
-			const a = await redis.hgetall(`call:room`);
-			return;
-		}
-
-		const participants = JSON.parse(roomData.participants);
-
-		// Find the other user in the room
-		const receiverSocketId = participants.find(
-			(id: string) => id !== senderSocketId,
-		);
-		if (!receiverSocketId) {
-			console.log(
-				`[Call] No receiver found in room ${roomId} for event ${event}`,
-			);
-			return;
-		}
-
-		const namespace = global.io?.of("/call");
-		const receiverSocket = namespace?.sockets.get(receiverSocketId);
-
-		if (!receiverSocket) {
-			console.log(
-				`[Call] Receiver socket ${receiverSocketId} not found for event ${event}`,
-			);
-			return;
+	/**
+	 * Forget the socket unless it was already replaced by a newer one.
+	 * Returns false when the socket was stale and the peer should not be told.
+	 */
+	async leave(socket: Socket, session: CallSession): Promise<boolean> {
+		const key = this.getRoomKey(session.roomId);
+		const currentSocketId = await redis.hget(key, session.senderId);
+		if (currentSocketId !== socket.id) return false;
+
+		await redis.hdel(key, session.senderId);
+		if ((await redis.hlen(key)) === 0) {
+			await redis.del(key);
 		}
+		return true;
+	}
 
-		// Forward the event to the other user
-		receiverSocket.emit(event, { ...data, roomId });
+	/**
+	 * Send an event to the other side of the room. The room always comes
+	 * from the token, never from the client's payload.
+	 */
+	relay(
+		socket: Socket,
+		session: CallSession,
+		event: SocketEvents,
+		data: Record<string, unknown>,
+	) {
+		socket.to(session.roomId).emit(event, { ...data, roomId: session.roomId });
 		console.log(
-			`[Call] Forwarded ${event} from ${senderSocketId} to ${receiverSocketId} in room ${roomId}`,
+			`[Call] Forwarded ${event} from ${session.senderId} in room ${session.roomId}`,
 		);
 	}
 }
 
 export function setupCallHandlers(io: Server) {
-	// Store io instance globally for access in CallUserManager
-	(global as any).io = io;
-
-	const userManager = new CallUserManager();
+	const roomManager = new CallRoomManager();
 	const friendsService = new FriendsService();
 
 	io.of("/call").on("connection", (socket: Socket) => {
-		// console.log("[Call] Socket connected:", socket.id);
 		const authToken = socket.handshake.auth.token;
 		const {
 			roomId,
 			senderId,
 			receiverId,
 			senderUsername = "",
-			receiverUsername = "",
-		} = verifyToken(authToken)
+			isGroup = false,
+		} = verifyToken(authToken);
+
+		// Calls are one-to-one; the token must name both sides
+		if (!roomId || !senderId || !receiverId || isGroup) {
+			console.error("[Call] Connection rejected: invalid room token", {
+				socketId: socket.id,
+				authToken: !!authToken,
+			});
+			socket.emit(SocketEvents.ERROR, {
+				message: "Invalid room configuration",
+			});
+			socket.disconnect(true);
+			return;
+		}
+
+		const session: CallSession = {
+			roomId,
+			senderId,
+			receiverId,
+			senderUsername,
+		};
 
-		// Add user to queue automatically
-		userManager.addUser(socket, roomId);
+		const joinCall = async (): Promise<boolean> => {
+			try {
+				if (!(await roomManager.canJoin(session))) {
+					socket.emit(SocketEvents.ERROR, {
+						message: "You cannot join this call",
+					});
+					socket.disconnect(true);
+					return false;
+				}
+
+				const peerConnected = await roomManager.join(socket, session);
+				if (peerConnected) {
+					// The later arrival starts the negotiation
+					socket.emit(SocketEvents.SEND_OFFER, { roomId });
+					roomManager.relay(socket, session, SocketEvents.LOBBY, {
+						waiting: true,
+					});
+				} else {
+					socket.emit(SocketEvents.LOBBY, { roomId, waiting: true });
+				}
+				return true;
+			} catch (error) {
+				console.error(`[Call] Error joining room ${roomId}:`, error);
+				socket.emit(SocketEvents.ERROR, { message: "Failed to join call" });
+				socket.disconnect(true);
+				return false;
+			}
+		};
+		// Handlers are registered right away and wait for the join to settle
+		const joined = joinCall();
+
+		const relay = async (
+			event: SocketEvents,
+			data: Record<string, unknown> = {},
+		) => {
+			if (await joined) roomManager.relay(socket, session, event, data);
+		};
 
 		socket.on("disconnect", async (reason) => {
 			console.log("[Call] Socket disconnected:", socket.id, "Reason:", reason);
-			await userManager.removeUser(socket.id);
+			if (!(await joined)) return;
+			try {
+				if (await roomManager.leave(socket, session)) {
+					// The peer waits for this side to reconnect with the same token
+					roomManager.relay(socket, session, SocketEvents.LOBBY, {
+						waiting: true,
+					});
+				}
+			} catch (error) {
+				console.error(`[Call] Error leaving room ${roomId}:`, error);
+			}
 		});
 
-		// Handle WebRTC signaling with room-based forwarding
-		socket.on(
-			SocketEvents.OFFER,
-			async (data: { sdp: any; roomId: string }) => {
-				await userManager.forwardToRoom(
-					data.roomId,
-					socket.id,
-					SocketEvents.OFFER,
-					{
-						sdp: data.sdp,
-					},
-				);
-			},
+		// WebRTC signaling is relayed to the peer in the token's room
+		socket.on(SocketEvents.OFFER, (data: { sdp: any }) =>
+			relay(SocketEvents.OFFER, { sdp: data?.sdp }),
 		);
 
-		socket.on(
-			SocketEvents.ANSWER,
-			async (data: { sdp: any; roomId: string }) => {
-				await userManager.forwardToRoom(
-					data.roomId,
-					socket.id,
-					SocketEvents.ANSWER,
-					{
-						sdp: data.sdp,
-					},
-				);
-			},
+		socket.on(SocketEvents.ANSWER, (data: { sdp: any }) =>
+			relay(SocketEvents.ANSWER, { sdp: data?.sdp }),
 		);
 
-		socket.on(SocketEvents.SEND_OFFER, async (data: { roomId: string }) => {
-			await userManager.forwardToRoom(
-				data.roomId,
-				socket.id,
-				SocketEvents.SEND_OFFER,
-				{
-					roomId: data.roomId,
-				},
-			);
-		});
+		socket.on(SocketEvents.SEND_OFFER, () => relay(SocketEvents.SEND_OFFER));
 
-		socket.on(SocketEvents.LOBBY, async (data: { roomId: string }) => {
-			await userManager.forwardToRoom(
-				data.roomId,
-				socket.id,
-				SocketEvents.LOBBY,
-				{
-					roomId: data.roomId,
-				},
-			);
-		});
+		socket.on(SocketEvents.LOBBY, () => relay(SocketEvents.LOBBY));
 
 		socket.on(
 			SocketEvents.ADD_ICE_CANDIDATE,
-			async (data: { candidate: any; type: string; roomId: string }) => {
-				await userManager.forwardToRoom(
-					data.roomId,
-					socket.id,
-					SocketEvents.ADD_ICE_CANDIDATE,
-					{
-						candidate: data.candidate,
-						type: data.type,
-					},
-				);
-			},
+			(data: { candidate: any; type: string }) =>
+				relay(SocketEvents.ADD_ICE_CANDIDATE, {
+					candidate: data?.candidate,
+					type: data?.type,
+				}),
 		);
 
-		socket.on(
-			SocketEvents.USER_EVENT,
-			async (data: { eventType: string; roomId: string }) => {
-				console.log(
-					`[Call] Received user event from ${socket.id} for room ${data.roomId}: ${data.eventType}`,
-				);
-				await userManager.forwardToRoom(
-					data.roomId,
-					socket.id,
-					SocketEvents.USER_EVENT,
-					{
-						eventType: data.eventType,
-						roomId: data.roomId,
-					},
-				);
-			},
-		);
-
-		socket.on(
-			SocketEvents.ADD_ICE_CANDIDATE,
-			async (data: { candidate: any; type: string; roomId: string }) => {
-				console.log(
-					`[Call] Received ICE candidate from ${socket.id} for room ${data.roomId}`,
-				);
-				await userManager.forwardToRoom(
-					data.roomId,
-					socket.id,
-					SocketEvents.ADD_ICE_CANDIDATE,
-					{
-						candidate: data.candidate,
-						type: data.type,
-					},
-				);
-			},
+		socket.on(SocketEvents.USER_EVENT, (data: { eventType: string }) =>
+			relay(SocketEvents.USER_EVENT, { eventType: data?.eventType }),
 		);
 
 		socket.on(
@@ -353,13 +288,7 @@ export function setupCallHandlers(io: Server) {
 						senderUsername,
 						data.friendUsername,
 					);
-					await userManager.forwardToRoom(
-						roomId,
-						socket.id,
-						SocketEvents.FRIEND_REQUEST,
-						{ event: result },
-					);
-					console.log("Friend request sent successfully");
+					await relay(SocketEvents.FRIEND_REQUEST, { event: result });
 				} catch (error) {
 					console.error("Error sending friend request:", error);
 					socket.emit(SocketEvents.ERROR, {
@@ -368,7 +297,6 @@ export function setupCallHandlers(io: Server) {
 								? error.message
 								: "Failed to send friend request",
 					});
-					console.log("Friend request failed to send");
 				}
 			},
 		);
@@ -38,6 +38,7 @@ export function setupChatHandlers(io: Server) {
       receiverId,
       senderUsername = "",
       receiverUsername = "",
+      isGroup = false,
     } = verifyToken(authToken);
 
 
@@ -57,6 +58,7 @@ export function setupChatHandlers(io: Server) {
       roomId,
       senderId,
       receiverId,
+      isGroup,
     );
 
     chatRecieverController.joinRoom();
@@ -78,12 +80,48 @@ export function setupChatHandlers(io: Server) {
       }),
     );
 
+    // The reader has seen everything up to this message
+    socket.on(ChatEvent.MARK_READ, (data: { messageId: string }) =>
+      chatRecieverController.markRead(data),
+    );
+
+    // Edit or delete one of the sender's own messages
+    socket.on(
+      ChatEvent.MESSAGE_EDIT,
+      (data: { messageId: string; content: string }) =>
+        chatRecieverController.editMessage(data),
+    );
+
+    socket.on(ChatEvent.MESSAGE_DELETE, (data: { messageId: string }) =>
+      chatRecieverController.deleteMessage(data),
+    );
+
+    // Emoji reactions; everyone in the room gets the updated summary
+    socket.on(
+      ChatEvent.REACTION_ADD,
+      (data: { messageId: string; emoji: string }) =>
+        chatRecieverController.addReaction(data),
+    );
+
+    socket.on(
+      ChatEvent.REACTION_REMOVE,
+      (data: { messageId: string; emoji: string }) =>
+        chatRecieverController.removeReaction(data),
+    );
+
     // Handle disconnection
     socket.on(ChatEvent.DISCONNECT, () => {
       chatRecieverController.disconnect();
     });
 
-    // Handle user typing
+    // Typing indicators expire on their own, so typing_stop is only a hint
+    socket.on(ChatEvent.TYPING_START, () => chatRecieverController.userTyping());
+
+    socket.on(ChatEvent.TYPING_STOP, () =>
+      chatRecieverController.userStoppedTyping(),
+    );
+
+    // Handle user events
     socket.on(ChatEvent.USER_EVENT, (data: { eventType: string }) =>
       chatRecieverController.userEvent(data),
     );
@@ -105,6 +143,9 @@ export function setupChatHandlers(io: Server) {
         chatRecieverController.callRequestRejected(data),
     );
 
+    // Block the other participant; ends the room for both sides
+    socket.on(ChatEvent.BLOCK_USER, () => chatRecieverController.blockUser());
+
     // Handle custom room events - emit to other users in the same room
     socket.on("emit_to_room", (data: { eventName: string; payload: any }) =>
       chatRecieverController.emitToRoom(data.eventName, data.payload),
@@ -10,6 +10,8 @@ export function setupWebSocketHandlers(io: Server) {
 	// Initialize match services for cleanup
 	const matchServiceChat = new MatchService("chat");
 	const matchServiceCall = new MatchService("call");
+	const matchServiceVideo = new MatchService("video");
+	const matchServiceGroup = new MatchService("group");
 
 	// Initialize all WebSocket handlers
 	setupChatHandlers(io);
@@ -50,6 +52,8 @@ export function setupWebSocketHandlers(io: Server) {
 				try {
 					await matchServiceChat.removeUser(userId);
 					await matchServiceCall.removeUser(userId);
+					await matchServiceVideo.removeUser(userId);
+					await matchServiceGroup.removeUser(userId);
 					console.log(
 						`[WebSocket] Cleaned up user ${userId} from search queues on disconnect`,
 					);
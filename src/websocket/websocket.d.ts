@@ -9,10 +9,12 @@ interface RoomEvent {
 		| "user_event"
 		| "connected"
 		| "disconnected"
-		| "friend_request";
+		| "friend_request"
+		| "ended";
 	roomId: string;
 	clientId: string;
 	username: string;
+	reason?: string;
 	timestamp: string;
 }
 